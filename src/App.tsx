@@ -31,6 +31,12 @@ import LoginPage from "./pages/LoginPage";
 import ProjectDashboard from "./pages/ProjectDashboard";
 import ProjectKPIsPage from "./pages/ProjectKPIsPage";
 import ProjectsRoadmap from "./pages/ProjectsRoadmap";
+import ProgramsPage from "./pages/ProgramsPage";
+import ProgramStatusPage from "./pages/ProgramStatusPage";
+import ProjectTemplatesPage from "./pages/ProjectTemplatesPage";
+import ResourceAllocationPage from "./pages/ResourceAllocationPage";
+import ProjectTrashPage from "./pages/ProjectTrashPage";
+import StatusReviewQueuePage from "./pages/StatusReviewQueuePage";
 import ProjectsTimeline from "./pages/ProjectsTimeline";
 import ProjectTimeline from "./pages/ProjectTimeline";
 import { useAuth } from "./lib/hooks/useAuth";
@@ -53,6 +59,11 @@ const SessionTracker = () => {
     location.pathname.startsWith("/profile") ||
     location.pathname.startsWith("/kpis") ||
     location.pathname.startsWith("/roadmap") ||
+    location.pathname.startsWith("/program") ||
+    location.pathname.startsWith("/templates") ||
+    location.pathname.startsWith("/trash") ||
+    location.pathname.startsWith("/reviews") ||
+    location.pathname.startsWith("/resources") ||
     location.pathname.startsWith("/overview") ||
     location.pathname.startsWith("/projects-timeline");
 
@@ -73,6 +84,11 @@ const SessionTracker = () => {
       "/profile": "profile_management",
       "/kpis": "kpi_dashboard",
       "/roadmap": "projects_roadmap",
+      "/program": "programs",
+      "/templates": "project_templates",
+      "/trash": "project_trash",
+      "/reviews": "status_reviews",
+      "/resources": "resource_allocation",
     };
 
     const feature = Object.keys(routeFeatures).find((route) =>
@@ -139,6 +155,11 @@ function App() {
     location.pathname.startsWith("/profile") ||
     location.pathname.startsWith("/kpis") ||
     location.pathname.startsWith("/roadmap") ||
+    location.pathname.startsWith("/program") ||
+    location.pathname.startsWith("/templates") ||
+    location.pathname.startsWith("/trash") ||
+    location.pathname.startsWith("/reviews") ||
+    location.pathname.startsWith("/resources") ||
     location.pathname.startsWith("/overview") ||
     location.pathname.startsWith("/projects-timeline");
 
@@ -240,6 +261,54 @@ function App() {
             </ProtectedRoute>
           }
         />
+        <Route
+          path="/programs"
+          element={
+            <ProtectedRoute>
+              <ProgramsPage />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/program/:id"
+          element={
+            <ProtectedRoute>
+              <ProgramStatusPage />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/templates"
+          element={
+            <ProtectedRoute>
+              <ProjectTemplatesPage />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/trash"
+          element={
+            <ProtectedRoute>
+              <ProjectTrashPage />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/reviews"
+          element={
+            <ProtectedRoute>
+              <StatusReviewQueuePage />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/resources"
+          element={
+            <ProtectedRoute>
+              <ResourceAllocationPage />
+            </ProtectedRoute>
+          }
+        />
 
         {/* Catch-all route - must be last */}
         <Route
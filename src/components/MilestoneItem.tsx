@@ -2,7 +2,7 @@
  * File: MilestoneItem.tsx
  * Purpose: Component for a milestone item with task management
  * Description: This component renders a single milestone item. It includes fields for milestone date,
- * description, owner, completion percentage, weight, and status. The component also provides an
+ * forecast, description, owner, completion percentage, weight, and status. The component also provides an
  * expandable section for managing tasks associated with the milestone and calculates milestone
  * completion based on task progress.
  *
@@ -32,6 +32,7 @@ import { format } from "date-fns";
 import UserSelectionInput from "./ui/user-selection-input";
 import { projectService } from "@/lib/services/project";
 import { projectDurationService } from "@/lib/services/projectDurationService";
+import MilestoneForecastPopover from "./project/MilestoneForecastPopover";
 
 interface Task {
   id?: string;
@@ -40,12 +41,19 @@ interface Task {
   date: string;
   completion: number;
   duration_days?: number;
+  allocation_percent?: number | null;
+  allocation_hours?: number | null;
 }
 
 interface MilestoneItemProps {
   milestone: {
+    id?: string;
     date: string;
     end_date?: string;
+    planned_date?: string | null;
+    forecast_date?: string | null;
+    forecast_reason?: string | null;
+    created_at?: string | null;
     milestone: string;
     owner: string;
     completion: number;
@@ -120,7 +128,7 @@ export function MilestoneItem({
 
   return (
     <div className="border-b border-border py-1 bg-card rounded-md mb-2">
-      <div className="grid grid-cols-[120px_120px_1fr_130px_auto] gap-2">
+      <div className="grid grid-cols-[120px_120px_64px_1fr_130px_auto] gap-2">
           <Popover open={isCalendarOpen} onOpenChange={setIsCalendarOpen}>
             <PopoverTrigger asChild>
               <Button
@@ -288,6 +296,11 @@ export function MilestoneItem({
               />
             </PopoverContent>
           </Popover>
+          <MilestoneForecastPopover
+            milestone={milestone}
+            projectId={projectId}
+            onChange={(values) => onUpdate(values)}
+          />
           <div className="flex items-center gap-2">
             <Button
               type="button"
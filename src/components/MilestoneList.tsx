@@ -22,12 +22,17 @@ interface Task {
   date: string;
   completion: number;
   duration_days?: number;
+  allocation_percent?: number | null;
+  allocation_hours?: number | null;
 }
 
 interface Milestone {
   id?: string;
   date: string;
   end_date?: string;
+  planned_date?: string | null;
+  forecast_date?: string | null;
+  forecast_reason?: string | null;
   milestone: string;
   owner: string;
   completion: number;
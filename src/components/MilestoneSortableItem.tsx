@@ -41,6 +41,8 @@ interface Task {
   date: string;
   completion: number;
   duration_days?: number;
+  allocation_percent?: number | null;
+  allocation_hours?: number | null;
 }
 
 interface MilestoneSortableItemProps {
@@ -27,9 +27,12 @@ import NextPeriodActivitiesSection from "@/components/form/NextPeriodActivitiesS
 import RisksSection from "@/components/form/RisksSection";
 import ConsiderationsSection from "@/components/form/ConsiderationsSection";
 import ChangesSection from "@/components/form/ChangesSection";
+import IssuesSection from "@/components/form/IssuesSection";
+import DecisionsSection from "@/components/form/DecisionsSection";
 import HealthCalculationSection from "@/components/form/HealthCalculationSection";
 import { AutoCopyAccomplishmentsDialog } from "@/components/form/AutoCopyAccomplishmentsDialog";
 import { ProjectCompleteDialog } from "@/components/form/ProjectCompleteDialog";
+import { MergeConflictDialog } from "@/components/form/MergeConflictDialog";
 import ProjectReportDialog from "@/components/report/ProjectReportDialog";
 import { FileBarChart } from "lucide-react";
 
@@ -51,6 +54,8 @@ interface ProjectFormProps {
   onBack: () => void;
   onSubmit: (data: any) => Promise<boolean>;
   setIsDragging?: (dragging: boolean) => void;
+  /** Reload the project after a change request moves to a new status */
+  onChangeRequestUpdated?: (change: any) => void;
 }
 
 const ProjectForm: React.FC<ProjectFormProps> = ({
@@ -59,6 +64,7 @@ const ProjectForm: React.FC<ProjectFormProps> = ({
   onBack,
   onSubmit,
   setIsDragging,
+  onChangeRequestUpdated,
 }) => {
   const { toast } = useToast();
   const navigate = useNavigate();
@@ -116,6 +122,11 @@ const ProjectForm: React.FC<ProjectFormProps> = ({
     setShowProjectCompleteDialog,
     handleProjectCompleteConfirm,
     handleProjectCompleteCancel,
+    showMergeDialog,
+    setShowMergeDialog,
+    pendingMerge,
+    handleMergeConfirm,
+    handleMergeCancel,
   } = useProjectForm(initialData, onSubmit, projectId, onBack);
 
   // Calculate current health status color
@@ -278,6 +289,7 @@ const ProjectForm: React.FC<ProjectFormProps> = ({
           <HealthCalculationSection
             formData={formData}
             setFormData={setFormData}
+            projectId={projectId}
           />
 
           {/* Project Duration Section */}
@@ -292,6 +304,7 @@ const ProjectForm: React.FC<ProjectFormProps> = ({
             setFormData={setFormData}
             handleGenerateContent={handleGenerateContent}
             isGeneratingMilestones={isGeneratingMilestones}
+            projectId={projectId}
           />
 
           {/* Accomplishments Section */}
@@ -309,6 +322,9 @@ const ProjectForm: React.FC<ProjectFormProps> = ({
           {/* Risks Section */}
           <RisksSection formData={formData} setFormData={setFormData} />
 
+          {/* Issues Section */}
+          <IssuesSection formData={formData} setFormData={setFormData} />
+
           {/* Considerations Section */}
           <ConsiderationsSection
             formData={formData}
@@ -316,7 +332,16 @@ const ProjectForm: React.FC<ProjectFormProps> = ({
           />
 
           {/* Changes Section */}
-          <ChangesSection formData={formData} setFormData={setFormData} />
+          <ChangesSection
+            formData={formData}
+            setFormData={setFormData}
+            projectId={projectId}
+            hasUnsavedChanges={hasChanges}
+            onChangeRequestUpdated={onChangeRequestUpdated}
+          />
+
+          {/* Decisions Section */}
+          <DecisionsSection formData={formData} setFormData={setFormData} />
 
           {/* Form Actions - Now floating */}
           <div className="fixed bottom-0 left-0 right-0 bg-card border-t border-border shadow-lg p-4 z-10 flex justify-center items-center">
@@ -429,6 +454,15 @@ const ProjectForm: React.FC<ProjectFormProps> = ({
             onCancel={handleProjectCompleteCancel}
           />
 
+          {/* Save Conflict Merge Dialog */}
+          <MergeConflictDialog
+            open={showMergeDialog}
+            onOpenChange={setShowMergeDialog}
+            merge={pendingMerge}
+            onConfirm={handleMergeConfirm}
+            onCancel={handleMergeCancel}
+          />
+
           <ProjectReportDialog
             open={showReportDialog}
             onOpenChange={setShowReportDialog}
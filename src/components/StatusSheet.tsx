@@ -2,7 +2,8 @@
  * File: StatusSheet.tsx
  * Purpose: Component for displaying a formatted project status sheet with export capabilities
  * Description: This component renders a comprehensive project status sheet with sections for
- * project details, budget, milestones, accomplishments, activities, risks, and considerations.
+ * project details, budget, milestones, accomplishments, activities, risks, issues,
+ * decisions, and considerations.
  * It includes functionality to export the status sheet to JPG and PowerPoint formats. The component
  * uses a structured layout with consistent styling for professional presentation.
  *
@@ -20,9 +21,16 @@
 
 import React from "react";
 import { Button } from "@/components/ui/button";
-import { calculateWeightedCompletion } from "@/lib/services/project";
+import {
+  calculateWeightedCompletion,
+  type ProjectWithRelations,
+} from "@/lib/services/project";
 import { FileText, Download, FileOutput } from "lucide-react";
 import { exportToPowerPoint } from "@/lib/services/pptExport";
+import {
+  CHANGE_REQUEST_STATUS_LABELS,
+  normalizeChangeRequestStatus,
+} from "@/lib/services/changeRequests";
 import { useToast } from "./ui/use-toast";
 import html2canvas from "html2canvas";
 import { format } from "date-fns";
@@ -37,6 +45,28 @@ import {
   type VersionChanges,
   getChangeDescription,
 } from "@/lib/utils/versionComparison";
+import RiskHeatMap from "@/components/project/RiskHeatMap";
+import HealthExplanationPopover from "@/components/project/HealthExplanationPopover";
+import { describeHealthOverride } from "@/lib/services/healthOverrides";
+import {
+  RISK_EXPOSURE_CLASSES,
+  RISK_EXPOSURE_LABELS,
+  RISK_STATUS_LABELS,
+  buildRiskHeatMap,
+  calculateRiskExposure,
+  getRiskExposureLevel,
+  toRiskRegisterFields,
+} from "@/lib/services/riskRegister";
+import {
+  ISSUE_ESCALATION_LABELS,
+  ISSUE_SEVERITY_CLASSES,
+  ISSUE_SEVERITY_LABELS,
+  ISSUE_STATUS_LABELS,
+  describeDecisionLink,
+  sortIssues,
+  toDecisionFields,
+  toIssueFields,
+} from "@/lib/services/projectLogs";
 
 interface StatusSheetProps {
   versionChanges?: VersionChanges;
@@ -50,6 +80,16 @@ interface StatusSheetProps {
     manual_health_percentage?: number;
     computed_status_color?: "green" | "yellow" | "red";
     manual_status_color?: "green" | "yellow" | "red";
+    manual_status_reason?: string | null;
+    manual_status_expires_at?: string | null;
+    manual_status_set_by_name?: string | null;
+    // Duration fields behind the health explanation
+    department?: string | null;
+    calculated_start_date?: string | null;
+    total_days?: number | null;
+    total_days_remaining?: number | null;
+    working_days?: number | null;
+    working_days_remaining?: number | null;
     budget: {
       total: string | number;
       actuals: string | number;
@@ -87,13 +127,38 @@ interface StatusSheetProps {
       | Array<{
           description?: string;
           impact?: string;
+          probability?: number | null;
+          impact_score?: number | null;
+          owner?: string | null;
+          mitigation_plan?: string | null;
+          trigger_date?: string | null;
+          status?: string | null;
+          realized_change_id?: string | null;
         }>
       | string[];
     considerations?: string[];
     changes?: Array<{
+      id?: string;
       change?: string;
       impact?: string;
       disposition?: string;
+      status?: string;
+    }>;
+    issues?: Array<{
+      description?: string;
+      severity?: string;
+      owner?: string | null;
+      due_date?: string | null;
+      escalation_level?: string;
+      status?: string;
+      resolution?: string | null;
+    }>;
+    decisions?: Array<{
+      decision?: string;
+      decision_date?: string | null;
+      decided_by?: string | null;
+      rationale?: string | null;
+      linked_items?: Array<{ type: string; id: string }>;
     }>;
   };
 }
@@ -167,6 +232,13 @@ const StatusSheet: React.FC<StatusSheetProps> = ({
     );
   }
 
+  // Risks scored in the register; legacy description-only risks keep the
+  // original two-column layout and no heat map.
+  const scoredRisks = ((data.risks || []) as any[])
+    .filter((r) => typeof r !== "string")
+    .map((r) => toRiskRegisterFields(r))
+    .filter((r) => r.probability !== null && r.impact_score !== null);
+
   // Always show actual weighted milestone completion regardless of health_calculation_type.
   // manual_health_percentage only affects the status color, not the completion display.
   const overallCompletion = calculateWeightedCompletion(data.milestones || []);
@@ -423,19 +495,30 @@ const StatusSheet: React.FC<StatusSheetProps> = ({
                   Overall Status
                 </div>
                 <div className="flex items-start gap-2">
-                  <div
-                    className={`w-14 h-14 flex items-center justify-center text-white dark:text-white text-2xl font-bold border-2 border-gray-400 ${getStatusColor()}`}
+                  <HealthExplanationPopover
+                    project={
+                      {
+                        ...data,
+                        budget_total: Number(data.budget?.total) || null,
+                        budget_forecast: Number(data.budget?.forecast) || 0,
+                      } as unknown as ProjectWithRelations
+                    }
+                    displayedColor={data.computed_status_color}
                   >
-                    {overallCompletion}%
-                    {renderChangeIndicator(
-                      "overall_completion",
-                      "Overall completion percentage has changed",
-                    )}
-                    {renderChangeIndicator(
-                      "manual_health_percentage",
-                      "Manual health percentage has changed",
-                    )}
-                  </div>
+                    <div
+                      className={`w-14 h-14 flex items-center justify-center text-white dark:text-white text-2xl font-bold border-2 border-gray-400 ${getStatusColor()}`}
+                    >
+                      {overallCompletion}%
+                      {renderChangeIndicator(
+                        "overall_completion",
+                        "Overall completion percentage has changed",
+                      )}
+                      {renderChangeIndicator(
+                        "manual_health_percentage",
+                        "Manual health percentage has changed",
+                      )}
+                    </div>
+                  </HealthExplanationPopover>
                   <div>
                     <div className="text-gray-900 dark:text-gray-900 flex items-center">
                       Health:{" "}
@@ -470,6 +553,11 @@ const StatusSheet: React.FC<StatusSheetProps> = ({
                               ? "Project Draft"
                               : "In Progress"}
                     </div>
+                    {describeHealthOverride(data) && (
+                      <div className="text-xs italic text-gray-700 dark:text-gray-700 max-w-xs">
+                        {describeHealthOverride(data)}
+                      </div>
+                    )}
                   </div>
                 </div>
               </div>
@@ -945,6 +1033,11 @@ const StatusSheet: React.FC<StatusSheetProps> = ({
                 <h3 className="text-lg font-bold mb-2 text-gray-900 dark:text-gray-900">
                   Risks and Issues
                 </h3>
+                {scoredRisks.length > 0 && (
+                  <div className="mb-2 flex justify-center">
+                    <RiskHeatMap grid={buildRiskHeatMap(scoredRisks)} />
+                  </div>
+                )}
                 <table className="w-full">
                   <thead>
                     <tr className="text-left border-b border-gray-300">
@@ -954,6 +1047,19 @@ const StatusSheet: React.FC<StatusSheetProps> = ({
                       <th className="py-1 pr-4 font-bold text-gray-900 dark:text-gray-900">
                         Impact
                       </th>
+                      {scoredRisks.length > 0 && (
+                        <>
+                          <th className="py-1 pr-4 font-bold text-gray-900 dark:text-gray-900">
+                            Exposure
+                          </th>
+                          <th className="py-1 pr-4 font-bold text-gray-900 dark:text-gray-900">
+                            Owner
+                          </th>
+                          <th className="py-1 pr-4 font-bold text-gray-900 dark:text-gray-900">
+                            Status
+                          </th>
+                        </>
+                      )}
                     </tr>
                   </thead>
                   <tbody>
@@ -965,6 +1071,19 @@ const StatusSheet: React.FC<StatusSheetProps> = ({
                           : risk.description || "";
                       const impact =
                         typeof risk === "string" ? "" : risk.impact || "";
+                      const register = toRiskRegisterFields(
+                        typeof risk === "string" ? {} : risk,
+                      );
+                      const exposure = calculateRiskExposure(
+                        register.probability,
+                        register.impact_score,
+                      );
+                      const level = getRiskExposureLevel(exposure);
+                      const realizedBy = register.realized_change_id
+                        ? (data.changes || []).find(
+                            (c) => c.id === register.realized_change_id,
+                          )
+                        : undefined;
 
                       return (
                         <tr key={index} className="border-b border-gray-300">
@@ -977,10 +1096,48 @@ const StatusSheet: React.FC<StatusSheetProps> = ({
                                   "Risks and issues have changed",
                                 )}
                             </div>
+                            {register.mitigation_plan && (
+                              <div className="text-xs text-gray-600">
+                                Mitigation: {register.mitigation_plan}
+                              </div>
+                            )}
                           </td>
                           <td className="py-1 pr-4 text-gray-900 dark:text-gray-900">
                             {impact}
                           </td>
+                          {scoredRisks.length > 0 && (
+                            <>
+                              <td className="py-1 pr-4 text-gray-900 dark:text-gray-900">
+                                {level ? (
+                                  <span
+                                    className={`inline-block rounded border px-1.5 text-xs font-semibold ${RISK_EXPOSURE_CLASSES[level]}`}
+                                  >
+                                    {exposure} {RISK_EXPOSURE_LABELS[level]}
+                                  </span>
+                                ) : (
+                                  "—"
+                                )}
+                              </td>
+                              <td className="py-1 pr-4 text-gray-900 dark:text-gray-900">
+                                {register.owner || "—"}
+                              </td>
+                              <td className="py-1 pr-4 text-gray-900 dark:text-gray-900">
+                                {RISK_STATUS_LABELS[register.status]}
+                                {register.trigger_date &&
+                                  register.status !== "closed" &&
+                                  register.status !== "realized" && (
+                                    <div className="text-xs text-gray-600">
+                                      Trigger {register.trigger_date}
+                                    </div>
+                                  )}
+                                {realizedBy && (
+                                  <div className="text-xs text-gray-600">
+                                    via {realizedBy.change}
+                                  </div>
+                                )}
+                              </td>
+                            </>
+                          )}
                         </tr>
                       );
                     })}
@@ -988,6 +1145,151 @@ const StatusSheet: React.FC<StatusSheetProps> = ({
                 </table>
               </div>
 
+              {/* Issue Log Section */}
+              {(data.issues || []).length > 0 && (
+                <div
+                  className={`border-2 border-gray-300 p-3 mb-2 ${getChangedSectionClass("issues")}`}
+                >
+                  <h3 className="text-lg font-bold mb-2 text-gray-900 dark:text-gray-900">
+                    Issue Log
+                  </h3>
+                  <table className="w-full">
+                    <thead>
+                      <tr className="text-left border-b border-gray-300">
+                        <th className="py-1 pr-4 font-bold text-gray-900 dark:text-gray-900">
+                          Issue
+                        </th>
+                        <th className="py-1 pr-4 font-bold text-gray-900 dark:text-gray-900">
+                          Severity
+                        </th>
+                        <th className="py-1 pr-4 font-bold text-gray-900 dark:text-gray-900">
+                          Owner
+                        </th>
+                        <th className="py-1 pr-4 font-bold text-gray-900 dark:text-gray-900">
+                          Due
+                        </th>
+                        <th className="py-1 pr-4 font-bold text-gray-900 dark:text-gray-900">
+                          Escalation
+                        </th>
+                        <th className="py-1 pr-4 font-bold text-gray-900 dark:text-gray-900">
+                          Status
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {sortIssues(data.issues || []).map((item, index) => {
+                        const issue = toIssueFields(item);
+
+                        return (
+                          <tr key={index} className="border-b border-gray-300">
+                            <td className="py-1 pr-4 text-gray-900 dark:text-gray-900">
+                              <div className="flex items-center">
+                                <span>{issue.description}</span>
+                                {index === 0 &&
+                                  renderChangeIndicator(
+                                    "issues",
+                                    "Issue log has been updated",
+                                  )}
+                              </div>
+                              {issue.resolution && (
+                                <div className="text-xs text-gray-600">
+                                  Resolution: {issue.resolution}
+                                </div>
+                              )}
+                            </td>
+                            <td className="py-1 pr-4 text-gray-900 dark:text-gray-900">
+                              <span
+                                className={`inline-block rounded border px-1.5 text-xs font-semibold ${ISSUE_SEVERITY_CLASSES[issue.severity]}`}
+                              >
+                                {ISSUE_SEVERITY_LABELS[issue.severity]}
+                              </span>
+                            </td>
+                            <td className="py-1 pr-4 text-gray-900 dark:text-gray-900">
+                              {issue.owner || "—"}
+                            </td>
+                            <td className="py-1 pr-4 text-gray-900 dark:text-gray-900">
+                              {issue.due_date || "—"}
+                            </td>
+                            <td className="py-1 pr-4 text-gray-900 dark:text-gray-900">
+                              {ISSUE_ESCALATION_LABELS[issue.escalation_level]}
+                            </td>
+                            <td className="py-1 pr-4 text-gray-900 dark:text-gray-900">
+                              {ISSUE_STATUS_LABELS[issue.status]}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {/* Decision Log Section */}
+              {(data.decisions || []).length > 0 && (
+                <div
+                  className={`border-2 border-gray-300 p-3 mb-2 ${getChangedSectionClass("decisions")}`}
+                >
+                  <h3 className="text-lg font-bold mb-2 text-gray-900 dark:text-gray-900">
+                    Decision Log
+                  </h3>
+                  <table className="w-full">
+                    <thead>
+                      <tr className="text-left border-b border-gray-300">
+                        <th className="py-1 pr-4 font-bold text-gray-900 dark:text-gray-900">
+                          Decision
+                        </th>
+                        <th className="py-1 pr-4 font-bold text-gray-900 dark:text-gray-900">
+                          Date
+                        </th>
+                        <th className="py-1 pr-4 font-bold text-gray-900 dark:text-gray-900">
+                          Decided By
+                        </th>
+                        <th className="py-1 pr-4 font-bold text-gray-900 dark:text-gray-900">
+                          Linked Items
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {(data.decisions || []).map((item, index) => {
+                        const decision = toDecisionFields(item);
+                        const linked = decision.linked_items
+                          .map((link) => describeDecisionLink(link, data as any))
+                          .filter(Boolean);
+
+                        return (
+                          <tr key={index} className="border-b border-gray-300">
+                            <td className="py-1 pr-4 text-gray-900 dark:text-gray-900">
+                              <div className="flex items-center">
+                                <span>{decision.decision}</span>
+                                {index === 0 &&
+                                  renderChangeIndicator(
+                                    "decisions",
+                                    "Decision log has been updated",
+                                  )}
+                              </div>
+                              {decision.rationale && (
+                                <div className="text-xs text-gray-600">
+                                  Rationale: {decision.rationale}
+                                </div>
+                              )}
+                            </td>
+                            <td className="py-1 pr-4 text-gray-900 dark:text-gray-900">
+                              {decision.decision_date || "—"}
+                            </td>
+                            <td className="py-1 pr-4 text-gray-900 dark:text-gray-900">
+                              {decision.decided_by || "—"}
+                            </td>
+                            <td className="py-1 pr-4 text-gray-900 dark:text-gray-900">
+                              {linked.length ? linked.join("; ") : "—"}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
               {/* Changes Section - Moved from left column */}
               <div
                 className={`border-2 border-gray-300 p-3 ${getChangedSectionClass("changes")}`}
@@ -1007,6 +1309,9 @@ const StatusSheet: React.FC<StatusSheetProps> = ({
                       <th className="py-1 pr-4 font-bold text-gray-900 dark:text-gray-900">
                         Disposition
                       </th>
+                      <th className="py-1 pr-4 font-bold text-gray-900 dark:text-gray-900">
+                        Status
+                      </th>
                     </tr>
                   </thead>
                   <tbody>
@@ -1034,6 +1339,9 @@ const StatusSheet: React.FC<StatusSheetProps> = ({
                           <td className="py-1 pr-4 text-gray-900 dark:text-gray-900">
                             {disposition}
                           </td>
+                          <td className="py-1 pr-4 text-gray-900 dark:text-gray-900">
+                            {CHANGE_REQUEST_STATUS_LABELS[normalizeChangeRequestStatus(item?.status)]}
+                          </td>
                         </tr>
                       );
                     })}
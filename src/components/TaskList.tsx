@@ -2,8 +2,8 @@
  * File: TaskList.tsx
  * Purpose: Component for managing tasks associated with milestones
  * Description: This component provides a UI for adding, editing, and removing tasks associated
- * with project milestones. It includes fields for task description, assignee, date, and completion
- * percentage. The component maintains its own state and communicates changes back to the parent
+ * with project milestones. It includes fields for task description, assignee, date, allocation and
+ * completion percentage. The component maintains its own state and communicates changes back to the parent
  * component.
  *
  * Imports from:
@@ -19,6 +19,7 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Trash2, ArrowUpCircle, Calendar as CalendarIcon } from "lucide-react";
 import UserSelectionInput from "@/components/ui/user-selection-input";
+import { AllocationInput, type AllocationValue } from "@/components/ui/allocation-input";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Calendar } from "@/components/ui/calendar";
 import { format } from "date-fns";
@@ -30,6 +31,8 @@ interface Task {
   date: string;
   completion: number;
   duration_days?: number;
+  allocation_percent?: number | null;
+  allocation_hours?: number | null;
 }
 
 interface TaskListProps {
@@ -138,6 +141,12 @@ export function TaskList({
     onTasksChange(updatedTasks);
   };
 
+  const handleAllocationChange = (originalIndex: number, value: AllocationValue) => {
+    onTasksChange(
+      tasks.map((task, i) => (i === originalIndex ? { ...task, ...value } : task)),
+    );
+  };
+
   const handleDeleteTask = (originalIndex: number) => {
     const filteredTasks = tasks.filter((_, i) => i !== originalIndex);
     console.log(
@@ -169,11 +178,12 @@ export function TaskList({
   return (
     <div className="space-y-3 mt-2">
       {/* Column Headers */}
-      <div className="grid grid-cols-[1fr_150px_140px_80px_100px_auto] gap-2 items-start">
+      <div className="grid grid-cols-[1fr_150px_140px_80px_110px_100px_auto] gap-2 items-start">
         <div className="font-medium text-sm text-primary">Task</div>
         <div className="font-medium text-sm text-primary -ml-16">Assignee</div>
         <div className="font-medium text-sm text-primary -ml-16">Start Date</div>
         <div className="font-medium text-sm text-primary -ml-16">Days</div>
+        <div className="font-medium text-sm text-primary -ml-16">Allocation</div>
         <div className="font-medium text-sm text-primary whitespace-nowrap -ml-16">Completion %</div>
         <div></div>
       </div>
@@ -181,7 +191,7 @@ export function TaskList({
       {sortedTasks.map(({ task, originalIndex }) => (
         <div
           key={task.id ?? `task-${originalIndex}`}
-          className="grid grid-cols-[1fr_150px_140px_80px_100px_auto] gap-2 items-start"
+          className="grid grid-cols-[1fr_150px_140px_80px_110px_100px_auto] gap-2 items-start"
         >
           <Input
             value={task.description}
@@ -222,6 +232,11 @@ export function TaskList({
             title="Duration in days"
             className="bg-card/50 backdrop-blur-sm border-border text-foreground"
           />
+          <AllocationInput
+            percent={task.allocation_percent}
+            hours={task.allocation_hours}
+            onChange={(value) => handleAllocationChange(originalIndex, value)}
+          />
           <Input
             type="number"
             min="0"
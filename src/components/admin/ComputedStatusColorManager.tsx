@@ -1,16 +1,20 @@
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/components/ui/use-toast";
 import { recalculateAllComputedStatusColors } from "@/lib/services/project";
 import { healthStatusDebugger } from "@/lib/services/healthStatusDebugger";
+import { adminService, type HealthRecalcLog } from "@/lib/services/adminService";
+import HealthRuleSetEditor from "./HealthRuleSetEditor";
 import {
   Loader2,
   RefreshCw,
   CheckCircle,
   Bug,
   AlertTriangle,
+  SlidersHorizontal,
+  Moon,
 } from "lucide-react";
 
 const ComputedStatusColorManager = () => {
@@ -25,8 +29,28 @@ const ComputedStatusColorManager = () => {
     discrepancies: number;
     projects: any[];
   } | null>(null);
+  const [recalcLogs, setRecalcLogs] = useState<HealthRecalcLog[]>([]);
+  const [isRunningNightly, setIsRunningNightly] = useState(false);
   const { toast } = useToast();
 
+  useEffect(() => {
+    adminService.getHealthRecalcLogs().then(setRecalcLogs);
+  }, []);
+
+  const handleRunNightly = async () => {
+    setIsRunningNightly(true);
+    const result = await adminService.triggerHealthScheduler();
+    setIsRunningNightly(false);
+    toast({
+      title: result.success ? "Nightly Recalculation Complete" : "Nightly Recalculation Failed",
+      description: result.message,
+      variant: result.success ? undefined : "destructive",
+    });
+    setRecalcLogs(await adminService.getHealthRecalcLogs());
+  };
+
+  const lastNightlyRun = recalcLogs[0];
+
   const handleRecalculateAll = async () => {
     setIsRecalculating(true);
     try {
@@ -123,17 +147,78 @@ const ComputedStatusColorManager = () => {
           </div>
           <div className="grid grid-cols-1 md:grid-cols-3 gap-2 text-xs">
             <Badge className="bg-green-100 text-green-800 border-green-200">
-              Green: Completed, Active (≥70% milestones), Manual Green
+              Manual projects: the color set by the project manager
             </Badge>
             <Badge className="bg-yellow-100 text-yellow-800 border-yellow-200">
-              Yellow: Draft, On Hold, Active (40-69% milestones), Manual Yellow
+              Automatic projects: the published health rules below
             </Badge>
             <Badge className="bg-red-100 text-red-800 border-red-200">
-              Red: Cancelled, Active (&lt;40% milestones), Manual Red
+              Department rules override the organization default
             </Badge>
           </div>
         </div>
 
+        <div className="border-t border-gray-200 pt-4 space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <Moon className="h-5 w-5 text-blue-600" />
+              <h4 className="text-md font-semibold text-gray-900">Nightly Recalculation</h4>
+            </div>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={handleRunNightly}
+              disabled={isRunningNightly || isRecalculating}
+            >
+              {isRunningNightly ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <RefreshCw className="mr-2 h-4 w-4" />
+              )}
+              Run Now
+            </Button>
+          </div>
+          <p className="text-sm text-gray-600">
+            Every night the health scheduler refreshes days remaining and the computed
+            color of all open projects.
+          </p>
+          {lastNightlyRun ? (
+            <div className="space-y-2 text-sm">
+              <div className={lastNightlyRun.error_message ? "text-red-700" : "text-gray-700"}>
+                Last run {new Date(lastNightlyRun.run_at).toLocaleString()} (
+                {lastNightlyRun.triggered_by}):{" "}
+                {lastNightlyRun.error_message
+                  ? `failed: ${lastNightlyRun.error_message}`
+                  : `${lastNightlyRun.projects_processed} projects, ${lastNightlyRun.durations_updated} durations updated, ${lastNightlyRun.colors_changed} colors changed, ${lastNightlyRun.overrides_expired} manual overrides expired${
+                      lastNightlyRun.errors.length > 0 ? `, ${lastNightlyRun.errors.length} errors` : ""
+                    }`}
+              </div>
+              {lastNightlyRun.color_changes.length > 0 && (
+                <div className="space-y-1 max-h-40 overflow-y-auto">
+                  {lastNightlyRun.color_changes.map((change) => (
+                    <div
+                      key={change.project_id}
+                      className="text-xs bg-gray-50 border border-gray-200 rounded px-2 py-1"
+                    >
+                      <strong>{change.title}</strong>: {change.from || "none"} → {change.to}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ) : (
+            <div className="text-sm text-gray-500">No runs recorded yet.</div>
+          )}
+        </div>
+
+        <div className="border-t border-gray-200 pt-4 space-y-3">
+          <div className="flex items-center gap-2">
+            <SlidersHorizontal className="h-5 w-5 text-blue-600" />
+            <h4 className="text-md font-semibold text-gray-900">Health Rules</h4>
+          </div>
+          <HealthRuleSetEditor />
+        </div>
+
         {lastRecalculation && (
           <div className="flex items-center gap-2 p-3 bg-green-50 border border-green-200 rounded-md">
             <CheckCircle className="h-4 w-4 text-green-600" />
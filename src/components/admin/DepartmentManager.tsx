@@ -4,6 +4,8 @@
  * Description: This component provides a UI for administrators to view, add, edit, and delete
  * departments. It includes a form for adding new departments, a table displaying existing departments,
  * and functionality for editing and deleting departments with appropriate validation and confirmation.
+ * Each department's status reporting cadence (weekly, biweekly or monthly) and whether its status
+ * reports need director approval are also set here.
  *
  * Imports from:
  * - React core libraries
@@ -28,7 +30,14 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { supabase } from "@/lib/supabase";
+import {
+  REPORTING_CADENCE_LABELS,
+  reportingPeriodsService,
+  type ReportingCadence,
+} from "@/lib/services/reportingPeriods";
 import { Loader2, Plus, Trash2, Pencil, Check, X } from "lucide-react";
 import {
   AlertDialog,
@@ -44,6 +53,8 @@ import {
 interface Department {
   id: string;
   name: string;
+  reporting_cadence?: string;
+  requires_status_approval?: boolean;
   created_at?: string;
 }
 
@@ -174,6 +185,50 @@ const DepartmentManager: React.FC = () => {
     }
   };
 
+  const handleCadenceChange = async (department: Department, cadence: ReportingCadence) => {
+    const ok = await reportingPeriodsService.setDepartmentCadence(department.id, cadence);
+    if (!ok) {
+      toast({
+        title: "Error",
+        description: "Failed to update reporting cadence",
+        variant: "destructive",
+      });
+      return;
+    }
+    setDepartments(
+      departments.map((dept) =>
+        dept.id === department.id ? { ...dept, reporting_cadence: cadence } : dept,
+      ),
+    );
+    toast({
+      title: "Success",
+      description: `${department.name} now reports ${REPORTING_CADENCE_LABELS[cadence].toLowerCase()}`,
+    });
+  };
+
+  const handleApprovalChange = async (department: Department, required: boolean) => {
+    const ok = await reportingPeriodsService.setDepartmentApproval(department.id, required);
+    if (!ok) {
+      toast({
+        title: "Error",
+        description: "Failed to update the approval setting",
+        variant: "destructive",
+      });
+      return;
+    }
+    setDepartments(
+      departments.map((dept) =>
+        dept.id === department.id ? { ...dept, requires_status_approval: required } : dept,
+      ),
+    );
+    toast({
+      title: "Success",
+      description: required
+        ? `${department.name} status reports now need director approval`
+        : `${department.name} status reports are published on submission`,
+    });
+  };
+
   const startEditing = (department: Department) => {
     setEditingDepartment({
       id: department.id,
@@ -267,12 +322,14 @@ const DepartmentManager: React.FC = () => {
               <TableHeader>
                 <TableRow>
                   <TableHead>Department Name</TableHead>
+                  <TableHead className="w-[220px]">Reporting Cadence</TableHead>
+                  <TableHead className="w-[160px]">Director Approval</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {departments.length === 0 ? (
                   <TableRow>
-                    <TableCell className="text-center py-8 text-muted-foreground">
+                    <TableCell colSpan={3} className="text-center py-8 text-muted-foreground">
                       No departments found.
                     </TableCell>
                   </TableRow>
@@ -280,6 +337,32 @@ const DepartmentManager: React.FC = () => {
                   departments.map((department) => (
                     <TableRow key={department.id}>
                       <TableCell className="font-medium">{department.name}</TableCell>
+                      <TableCell>
+                        <Select
+                          value={department.reporting_cadence || "weekly"}
+                          onValueChange={(value) =>
+                            handleCadenceChange(department, value as ReportingCadence)
+                          }
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(Object.keys(REPORTING_CADENCE_LABELS) as ReportingCadence[]).map((cadence) => (
+                              <SelectItem key={cadence} value={cadence}>
+                                {REPORTING_CADENCE_LABELS[cadence]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={!!department.requires_status_approval}
+                          onCheckedChange={(checked) => handleApprovalChange(department, checked)}
+                          aria-label={`Require director approval for ${department.name}`}
+                        />
+                      </TableCell>
                     </TableRow>
                   ))
                 )}
@@ -0,0 +1,621 @@
+/**
+ * File: HealthRuleSetEditor.tsx
+ * Purpose: Admin editor for health rule sets
+ * Description: Edits the thresholds behind the automatic health color for the whole
+ * organization or a single department, keeps a version history, and simulates a
+ * draft against current projects so admins can see who would change color before
+ * publishing it. Budget, risk and overdue-milestone dimensions can be switched on
+ * to pull the schedule color down.
+ *
+ * Called by: src/components/admin/ComputedStatusColorManager.tsx
+ */
+
+import React, { useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/components/ui/use-toast";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { FlaskConical, Loader2, Plus, Save, Send, Trash2, Undo2 } from "lucide-react";
+import { supabase } from "@/lib/supabase";
+import { getHealthRuleInputs, projectService } from "@/lib/services/project";
+import {
+  DEFAULT_HEALTH_RULES,
+  getHealthRulesForDepartment,
+  healthRulesService,
+  normalizeHealthRules,
+  simulateHealthRules,
+  validateHealthRules,
+  type HealthColor,
+  type HealthDimensionRules,
+  type HealthRules,
+  type HealthRuleSet,
+  type HealthSimulationChange,
+} from "@/lib/services/healthRules";
+
+const ALL_DEPARTMENTS = "all";
+
+const COLOR_BADGE_CLASSES: Record<HealthColor, string> = {
+  green: "bg-green-100 text-green-800 border-green-200",
+  yellow: "bg-yellow-100 text-yellow-800 border-yellow-200",
+  red: "bg-red-100 text-red-800 border-red-200",
+};
+
+const STATUS_BADGE_CLASSES: Record<HealthRuleSet["status"], string> = {
+  draft: "bg-blue-100 text-blue-800 border-blue-200",
+  published: "bg-green-100 text-green-800 border-green-200",
+  archived: "bg-gray-100 text-gray-700 border-gray-200",
+};
+
+const FIXED_STATUSES: Array<{ key: string; label: string }> = [
+  { key: "completed", label: "Completed" },
+  { key: "cancelled", label: "Cancelled" },
+  { key: "draft", label: "Draft" },
+  { key: "on_hold", label: "On Hold" },
+];
+
+const ColorSelect = ({
+  value,
+  onChange,
+}: {
+  value: HealthColor;
+  onChange: (color: HealthColor) => void;
+}) => (
+  <Select value={value} onValueChange={(v) => onChange(v as HealthColor)}>
+    <SelectTrigger className="h-8">
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      <SelectItem value="green">Green</SelectItem>
+      <SelectItem value="yellow">Yellow</SelectItem>
+      <SelectItem value="red">Red</SelectItem>
+    </SelectContent>
+  </Select>
+);
+
+const PercentInput = ({
+  value,
+  onChange,
+  label,
+}: {
+  value: number;
+  onChange: (value: number) => void;
+  label: string;
+}) => (
+  <Input
+    type="number"
+    min={0}
+    max={100}
+    aria-label={label}
+    className="h-8 w-20"
+    value={Number.isFinite(value) ? value : ""}
+    onChange={(e) => onChange(e.target.value === "" ? NaN : Number(e.target.value))}
+  />
+);
+
+const CountInput = ({
+  value,
+  onChange,
+  label,
+  max,
+}: {
+  value: number;
+  onChange: (value: number) => void;
+  label: string;
+  max?: number;
+}) => (
+  <Input
+    type="number"
+    min={1}
+    max={max}
+    aria-label={label}
+    className="h-8 w-16"
+    value={Number.isFinite(value) ? value : ""}
+    onChange={(e) => onChange(e.target.value === "" ? NaN : Number(e.target.value))}
+  />
+);
+
+const HealthRuleSetEditor: React.FC = () => {
+  const { toast } = useToast();
+  const [departments, setDepartments] = useState<string[]>([]);
+  const [scope, setScope] = useState(ALL_DEPARTMENTS);
+  const [ruleSets, setRuleSets] = useState<HealthRuleSet[]>([]);
+  const [rules, setRules] = useState<HealthRules>(DEFAULT_HEALTH_RULES);
+  const [note, setNote] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [simulation, setSimulation] = useState<{
+    evaluated: number;
+    changes: HealthSimulationChange[];
+  } | null>(null);
+
+  const department = scope === ALL_DEPARTMENTS ? null : scope;
+  const draft = ruleSets.find((s) => s.status === "draft") || null;
+  const published = ruleSets.find((s) => s.status === "published") || null;
+  const errors = validateHealthRules(rules);
+
+  useEffect(() => {
+    supabase
+      .from("departments")
+      .select("name")
+      .order("name")
+      .then(({ data }) => setDepartments((data || []).map((d) => d.name)));
+  }, []);
+
+  const loadRuleSets = useCallback(async () => {
+    setLoading(true);
+    await healthRulesService.ensureLoaded();
+    const sets = await healthRulesService.getRuleSets(department);
+    const open = sets.find((s) => s.status === "draft") || sets.find((s) => s.status === "published");
+    setRuleSets(sets);
+    // Start from the open draft, else the scope's published set, else what applies today
+    setRules(open ? open.rules : getHealthRulesForDepartment(department));
+    setNote(open?.status === "draft" ? open.note || "" : "");
+    setSimulation(null);
+    setLoading(false);
+  }, [department]);
+
+  useEffect(() => {
+    loadRuleSets();
+  }, [loadRuleSets]);
+
+  const updateRules = (change: (current: HealthRules) => HealthRules) => {
+    setRules((current) => change(current));
+    setSimulation(null);
+  };
+
+  const updateDimension = <K extends Exclude<keyof HealthDimensionRules, "composite">>(
+    key: K,
+    change: Partial<HealthDimensionRules[K]>,
+  ) =>
+    updateRules((r) => ({
+      ...r,
+      dimensions: { ...r.dimensions, [key]: { ...r.dimensions[key], ...change } },
+    }));
+
+  const updateBand = (index: number, key: "above" | "green" | "yellow", value: number) =>
+    updateRules((r) => ({
+      ...r,
+      timeBands: r.timeBands.map((b, i) => (i === index ? { ...b, [key]: value } : b)),
+    }));
+
+  const handleSimulate = async () => {
+    setBusy(true);
+    const projects = await projectService.getAllProjects();
+    setSimulation(
+      simulateHealthRules(
+        projects.map((p) => ({
+          id: p.id,
+          title: p.title,
+          department: p.department,
+          inputs:
+            p.health_calculation_type === "manual" && p.manual_status_color
+              ? null
+              : getHealthRuleInputs(p),
+        })),
+        department,
+        normalizeHealthRules(rules),
+      ),
+    );
+    setBusy(false);
+  };
+
+  const handleSaveDraft = async () => {
+    setBusy(true);
+    const saved = await healthRulesService.saveDraft(department, rules, note);
+    setBusy(false);
+    if (!saved) {
+      toast({ title: "Failed to save draft", variant: "destructive" });
+      return;
+    }
+    toast({ title: `Draft v${saved.version} saved` });
+    const sets = await healthRulesService.getRuleSets(department);
+    setRuleSets(sets);
+  };
+
+  const handleDiscardDraft = async () => {
+    if (!draft) return;
+    setBusy(true);
+    const ok = await healthRulesService.deleteDraft(draft.id);
+    setBusy(false);
+    if (!ok) {
+      toast({ title: "Failed to discard draft", variant: "destructive" });
+      return;
+    }
+    await loadRuleSets();
+  };
+
+  const handlePublish = async () => {
+    if (!draft) return;
+    setBusy(true);
+    const count = await healthRulesService.publish(draft.id);
+    setBusy(false);
+    if (count === null) {
+      toast({ title: "Failed to publish rule set", variant: "destructive" });
+      return;
+    }
+    toast({
+      title: `Rule set v${draft.version} published`,
+      description: `Recalculated the health color of ${count} project${count === 1 ? "" : "s"}.`,
+      className: "bg-green-50 border-green-200",
+    });
+    await loadRuleSets();
+  };
+
+  // Unsaved edits must be saved as the draft before they can be published
+  const draftIsCurrent =
+    !!draft &&
+    JSON.stringify(draft.rules) === JSON.stringify(normalizeHealthRules(rules)) &&
+    (draft.note || "") === note.trim();
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div className="space-y-1">
+          <Label>Rule set scope</Label>
+          <Select value={scope} onValueChange={setScope}>
+            <SelectTrigger className="w-64">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_DEPARTMENTS}>Whole organization (default)</SelectItem>
+              {departments.map((name) => (
+                <SelectItem key={name} value={name}>
+                  {name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="text-sm text-gray-600">
+          {published
+            ? `Published: v${published.version}`
+            : department
+              ? "No department rules published; the organization default applies"
+              : "No rules published; the built-in defaults apply"}
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-sm text-gray-600">
+          <Loader2 className="h-4 w-4 animate-spin" /> Loading rule sets...
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2 rounded-md border border-gray-200 p-3">
+              <div className="text-sm font-medium">Fixed colors</div>
+              {FIXED_STATUSES.map(({ key, label }) => (
+                <div key={key} className="flex items-center justify-between gap-2 text-sm">
+                  <span>{label}</span>
+                  <div className="w-28">
+                    <ColorSelect
+                      value={rules.statusColors[key] || "green"}
+                      onChange={(color) =>
+                        updateRules((r) => ({ ...r, statusColors: { ...r.statusColors, [key]: color } }))
+                      }
+                    />
+                  </div>
+                </div>
+              ))}
+              <div className="flex items-center justify-between gap-2 text-sm">
+                <span>Active, no milestones</span>
+                <div className="w-28">
+                  <ColorSelect
+                    value={rules.noMilestones}
+                    onChange={(color) => updateRules((r) => ({ ...r, noMilestones: color }))}
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div className="space-y-2 rounded-md border border-gray-200 p-3 text-sm">
+              <div className="font-medium">Special cases (milestone completion %)</div>
+              <div className="flex items-center justify-between gap-2">
+                <span>No duration data: green / yellow at</span>
+                <div className="flex gap-1">
+                  <PercentInput
+                    label="No duration data green threshold"
+                    value={rules.noTimeData.green}
+                    onChange={(v) => updateRules((r) => ({ ...r, noTimeData: { ...r.noTimeData, green: v } }))}
+                  />
+                  <PercentInput
+                    label="No duration data yellow threshold"
+                    value={rules.noTimeData.yellow}
+                    onChange={(v) => updateRules((r) => ({ ...r, noTimeData: { ...r.noTimeData, yellow: v } }))}
+                  />
+                </div>
+              </div>
+              <div className="flex items-center justify-between gap-2">
+                <span>Not started yet: yellow above</span>
+                <PercentInput
+                  label="Not started yellow threshold"
+                  value={rules.futureStart.yellowAbove}
+                  onChange={(v) => updateRules((r) => ({ ...r, futureStart: { yellowAbove: v } }))}
+                />
+              </div>
+              <div className="flex items-center justify-between gap-2">
+                <span>No time left: yellow at (else red)</span>
+                <PercentInput
+                  label="Overdue yellow threshold"
+                  value={rules.overdue.yellow}
+                  onChange={(v) => updateRules((r) => ({ ...r, overdue: { yellow: v } }))}
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="rounded-md border border-gray-200 p-3">
+            <div className="flex items-center justify-between mb-2">
+              <div className="text-sm font-medium">Time remaining bands</div>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() =>
+                  updateRules((r) => ({
+                    ...r,
+                    timeBands: [...r.timeBands, { above: 0, green: 50, yellow: 25 }],
+                  }))
+                }
+              >
+                <Plus className="mr-1 h-3 w-3" /> Add band
+              </Button>
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Time left above %</TableHead>
+                  <TableHead>Green at completion %</TableHead>
+                  <TableHead>Yellow at completion %</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rules.timeBands.map((band, index) => (
+                  <TableRow key={index}>
+                    <TableCell>
+                      <PercentInput label="Time left above" value={band.above} onChange={(v) => updateBand(index, "above", v)} />
+                    </TableCell>
+                    <TableCell>
+                      <PercentInput label="Green threshold" value={band.green} onChange={(v) => updateBand(index, "green", v)} />
+                    </TableCell>
+                    <TableCell>
+                      <PercentInput label="Yellow threshold" value={band.yellow} onChange={(v) => updateBand(index, "yellow", v)} />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        disabled={rules.timeBands.length <= 1}
+                        onClick={() =>
+                          updateRules((r) => ({ ...r, timeBands: r.timeBands.filter((_, i) => i !== index) }))
+                        }
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <p className="mt-2 text-xs text-gray-500">
+              Bands are checked from the most time left down; below the yellow threshold a project is red.
+            </p>
+          </div>
+
+          <div className="space-y-3 rounded-md border border-gray-200 p-3 text-sm">
+            <div className="flex items-center justify-between gap-2">
+              <div className="font-medium">Health dimensions</div>
+              <div className="flex items-center gap-2">
+                <span className="text-gray-600">Combine by</span>
+                <Select
+                  value={rules.dimensions.composite}
+                  onValueChange={(v) =>
+                    updateRules((r) => ({
+                      ...r,
+                      dimensions: { ...r.dimensions, composite: v as HealthDimensionRules["composite"] },
+                    }))
+                  }
+                >
+                  <SelectTrigger className="h-8 w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="worst">Worst dimension</SelectItem>
+                    <SelectItem value="capped">Schedule, at most one step lower</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="flex items-center justify-between gap-2">
+              <label className="flex items-center gap-2">
+                <Switch
+                  checked={rules.dimensions.budget.enabled}
+                  onCheckedChange={(enabled) => updateDimension("budget", { enabled })}
+                />
+                Budget: forecast over budget by more than yellow / red %
+              </label>
+              <div className="flex gap-1">
+                <PercentInput
+                  label="Budget overrun yellow threshold"
+                  value={rules.dimensions.budget.yellowOver}
+                  onChange={(v) => updateDimension("budget", { yellowOver: v })}
+                />
+                <PercentInput
+                  label="Budget overrun red threshold"
+                  value={rules.dimensions.budget.redOver}
+                  onChange={(v) => updateDimension("budget", { redOver: v })}
+                />
+              </div>
+            </div>
+            <div className="flex items-center justify-between gap-2">
+              <label className="flex items-center gap-2">
+                <Switch
+                  checked={rules.dimensions.risks.enabled}
+                  onCheckedChange={(enabled) => updateDimension("risks", { enabled })}
+                />
+                Risks: open risks with impact of at least, yellow / red from count
+              </label>
+              <div className="flex gap-1">
+                <CountInput
+                  label="Minimum risk impact"
+                  max={5}
+                  value={rules.dimensions.risks.minImpact}
+                  onChange={(v) => updateDimension("risks", { minImpact: v })}
+                />
+                <CountInput
+                  label="High-impact risks for yellow"
+                  value={rules.dimensions.risks.yellowAt}
+                  onChange={(v) => updateDimension("risks", { yellowAt: v })}
+                />
+                <CountInput
+                  label="High-impact risks for red"
+                  value={rules.dimensions.risks.redAt}
+                  onChange={(v) => updateDimension("risks", { redAt: v })}
+                />
+              </div>
+            </div>
+            <div className="flex items-center justify-between gap-2">
+              <label className="flex items-center gap-2">
+                <Switch
+                  checked={rules.dimensions.overdueMilestones.enabled}
+                  onCheckedChange={(enabled) => updateDimension("overdueMilestones", { enabled })}
+                />
+                Overdue milestones: yellow / red from count
+              </label>
+              <div className="flex gap-1">
+                <CountInput
+                  label="Overdue milestones for yellow"
+                  value={rules.dimensions.overdueMilestones.yellowAt}
+                  onChange={(v) => updateDimension("overdueMilestones", { yellowAt: v })}
+                />
+                <CountInput
+                  label="Overdue milestones for red"
+                  value={rules.dimensions.overdueMilestones.redAt}
+                  onChange={(v) => updateDimension("overdueMilestones", { redAt: v })}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">
+              Enabled dimensions get their own color; projects without a budget are not scored on it.
+            </p>
+          </div>
+
+          {errors.length > 0 && (
+            <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-800 space-y-1">
+              {errors.map((e) => (
+                <div key={e}>{e}</div>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-1">
+            <Label htmlFor="health-rule-note">Change note</Label>
+            <Input
+              id="health-rule-note"
+              placeholder="Why these thresholds?"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" disabled={busy} onClick={() => updateRules(() => DEFAULT_HEALTH_RULES)}>
+              <Undo2 className="mr-2 h-4 w-4" /> Reset to defaults
+            </Button>
+            <Button variant="outline" disabled={busy || errors.length > 0} onClick={handleSimulate}>
+              <FlaskConical className="mr-2 h-4 w-4" /> Simulate
+            </Button>
+            <Button variant="outline" disabled={busy || errors.length > 0} onClick={handleSaveDraft}>
+              <Save className="mr-2 h-4 w-4" /> {draft ? `Save draft v${draft.version}` : "Save as draft"}
+            </Button>
+            {draft && (
+              <Button variant="outline" disabled={busy} onClick={handleDiscardDraft}>
+                <Trash2 className="mr-2 h-4 w-4" /> Discard draft
+              </Button>
+            )}
+            <Button disabled={busy || !draftIsCurrent || errors.length > 0} onClick={handlePublish}>
+              {busy ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+              Publish draft
+            </Button>
+          </div>
+
+          {simulation && (
+            <div className="rounded-md border border-blue-200 bg-blue-50 p-3 text-sm space-y-2">
+              <div className="font-medium text-blue-900">
+                {simulation.changes.length} of {simulation.evaluated} governed projects would change color
+              </div>
+              {simulation.changes.length > 0 && (
+                <div className="max-h-60 overflow-y-auto space-y-1">
+                  {simulation.changes.map((c) => (
+                    <div key={c.id} className="flex items-center justify-between gap-2 rounded bg-white px-2 py-1">
+                      <span className="truncate">
+                        {c.title}
+                        {!department && c.department && (
+                          <span className="text-xs text-gray-500"> · {c.department}</span>
+                        )}
+                      </span>
+                      <span className="flex items-center gap-1 shrink-0">
+                        <Badge className={COLOR_BADGE_CLASSES[c.current]}>{c.current}</Badge>→
+                        <Badge className={COLOR_BADGE_CLASSES[c.proposed]}>{c.proposed}</Badge>
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {ruleSets.length > 0 && (
+            <div>
+              <div className="text-sm font-medium mb-1">Version history</div>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Version</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Note</TableHead>
+                    <TableHead>Published</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {ruleSets.map((set) => (
+                    <TableRow key={set.id}>
+                      <TableCell>v{set.version}</TableCell>
+                      <TableCell>
+                        <Badge className={STATUS_BADGE_CLASSES[set.status]}>{set.status}</Badge>
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-600">{set.note || "—"}</TableCell>
+                      <TableCell className="text-sm text-gray-600">
+                        {set.published_at ? format(new Date(set.published_at), "MMM d, yyyy") : "—"}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button size="sm" variant="ghost" onClick={() => updateRules(() => set.rules)}>
+                          Load
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default HealthRuleSetEditor;
@@ -0,0 +1,242 @@
+/**
+ * File: HolidayCalendarManager.tsx
+ * Purpose: Admin component for the organization holiday calendar
+ * Description: Lists holidays and lets administrators add or remove them, either
+ * organization-wide or for a single department (e.g. a regional shutdown). Working-day
+ * durations of the affected projects are recalculated after every change.
+ *
+ * Called by: src/pages/AdminPage.tsx
+ */
+
+import React, { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/components/ui/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { supabase } from "@/lib/supabase";
+import { holidayCalendarService, type Holiday } from "@/lib/services/holidayCalendar";
+import { projectDurationService } from "@/lib/services/projectDurationService";
+
+const ALL_DEPARTMENTS = "all";
+
+// Parse YYYY-MM-DD as a local date so the list doesn't shift a day in negative-offset timezones
+const formatHolidayDate = (ymd: string) => {
+  const [y, m, d] = ymd.split("-").map(Number);
+  return format(new Date(y, m - 1, d), "EEE, MMM d, yyyy");
+};
+
+const HolidayCalendarManager: React.FC = () => {
+  const { toast } = useToast();
+  const [holidays, setHolidays] = useState<Holiday[]>([]);
+  const [departments, setDepartments] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [recalculating, setRecalculating] = useState(false);
+  const [newDate, setNewDate] = useState("");
+  const [newName, setNewName] = useState("");
+  const [newDepartment, setNewDepartment] = useState(ALL_DEPARTMENTS);
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      const [holidayList, { data: departmentRows }] = await Promise.all([
+        holidayCalendarService.getHolidays(),
+        supabase.from("departments").select("name").order("name"),
+      ]);
+      setHolidays(holidayList);
+      setDepartments((departmentRows || []).map((d) => d.name));
+      setLoading(false);
+    };
+    load();
+  }, []);
+
+  // Holidays feed the stored working and calendar day durations, so refresh them
+  const recalculateDurations = async (department: string | null) => {
+    setRecalculating(true);
+    const result = await projectDurationService.recalculateAllProjectDurations(department);
+    setRecalculating(false);
+    if (!result.success) {
+      toast({
+        title: "Durations partially updated",
+        description: `Updated ${result.updatedCount} of ${result.totalCount} projects. ${result.errors.length} errors occurred.`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!newDate || !newName.trim()) {
+      toast({
+        title: "Error",
+        description: "Holiday date and name are required",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const department = newDepartment === ALL_DEPARTMENTS ? null : newDepartment;
+    const duplicate = holidays.some(
+      (h) => h.holiday_date === newDate && (h.department || null) === department,
+    );
+    if (duplicate) {
+      toast({
+        title: "Error",
+        description: "This date is already a holiday for that scope",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const holiday = await holidayCalendarService.addHoliday({
+      holiday_date: newDate,
+      name: newName,
+      department,
+    });
+    if (!holiday) {
+      toast({ title: "Error", description: "Failed to add holiday", variant: "destructive" });
+      return;
+    }
+
+    setHolidays(
+      [...holidays, holiday].sort((a, b) => a.holiday_date.localeCompare(b.holiday_date)),
+    );
+    setNewDate("");
+    setNewName("");
+    toast({ title: "Success", description: `${holiday.name} added. Recalculating project durations…` });
+    await recalculateDurations(department);
+  };
+
+  const handleDelete = async (holiday: Holiday) => {
+    const ok = await holidayCalendarService.deleteHoliday(holiday.id);
+    if (!ok) {
+      toast({ title: "Error", description: "Failed to delete holiday", variant: "destructive" });
+      return;
+    }
+    setHolidays(holidays.filter((h) => h.id !== holiday.id));
+    toast({ title: "Success", description: `${holiday.name} removed. Recalculating project durations…` });
+    await recalculateDurations(holiday.department);
+  };
+
+  return (
+    <Card className="bg-card border border-border">
+      <CardHeader>
+        <CardTitle className="text-foreground">Holiday Calendar</CardTitle>
+        <p className="text-sm text-muted-foreground mt-1">
+          Holidays are excluded from working days, working days remaining and the time-remaining health
+          percentage, and are shaded on the Gantt. Department holidays apply only to that department's projects.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-[160px_1fr_220px_auto] gap-3 items-end">
+          <div className="space-y-1.5">
+            <Label htmlFor="holiday-date">Date</Label>
+            <Input id="holiday-date" type="date" value={newDate} onChange={(e) => setNewDate(e.target.value)} />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="holiday-name">Name</Label>
+            <Input
+              id="holiday-name"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="e.g. Independence Day"
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label>Applies to</Label>
+            <Select value={newDepartment} onValueChange={setNewDepartment}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_DEPARTMENTS}>Whole organization</SelectItem>
+                {departments.map((name) => (
+                  <SelectItem key={name} value={name}>
+                    {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={handleAdd} disabled={recalculating}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Holiday
+          </Button>
+        </div>
+
+        {recalculating && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Recalculating project durations…
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center items-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="rounded-md border border-border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Applies to</TableHead>
+                  <TableHead className="w-[60px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {holidays.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center py-8 text-muted-foreground">
+                      No holidays defined. Working days currently skip weekends only.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  holidays.map((holiday) => (
+                    <TableRow key={holiday.id}>
+                      <TableCell className="whitespace-nowrap">{formatHolidayDate(holiday.holiday_date)}</TableCell>
+                      <TableCell className="font-medium">{holiday.name}</TableCell>
+                      <TableCell>
+                        {holiday.department ? (
+                          <Badge variant="outline">{holiday.department}</Badge>
+                        ) : (
+                          <span className="text-muted-foreground">Whole organization</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleDelete(holiday)}
+                          disabled={recalculating}
+                          title="Remove holiday"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default HolidayCalendarManager;
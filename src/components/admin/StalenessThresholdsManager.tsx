@@ -0,0 +1,119 @@
+/**
+ * File: StalenessThresholdsManager.tsx
+ * Purpose: Admin component for stale-update thresholds
+ * Description: Sets how many days a project in each status can go without an update by a
+ * person before it is flagged as stale in the projects overview and the KPI page. Leaving a
+ * status empty means projects in it never go stale.
+ *
+ * Called by: src/pages/AdminPage.tsx
+ */
+
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/components/ui/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Loader2, Save } from "lucide-react";
+import { useAuth } from "@/lib/hooks/useAuth";
+import {
+  projectStalenessService,
+  STALENESS_STATUS_LABELS,
+  type StalenessThresholds,
+} from "@/lib/services/projectStaleness";
+
+const StalenessThresholdsManager: React.FC = () => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  // Kept as text so a field can be cleared while typing
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    projectStalenessService.getThresholds().then((thresholds) => {
+      setValues(
+        Object.fromEntries(
+          Object.keys(STALENESS_STATUS_LABELS).map((status) => [
+            status,
+            thresholds[status] ? String(thresholds[status]) : "",
+          ]),
+        ),
+      );
+      setLoading(false);
+    });
+  }, []);
+
+  const handleSave = async () => {
+    const thresholds: StalenessThresholds = {};
+    for (const [status, value] of Object.entries(values)) {
+      if (!value.trim()) continue;
+      const days = Number(value);
+      if (!Number.isInteger(days) || days < 1) {
+        toast({
+          title: "Error",
+          description: `${STALENESS_STATUS_LABELS[status]} threshold must be a whole number of days`,
+          variant: "destructive",
+        });
+        return;
+      }
+      thresholds[status] = days;
+    }
+
+    setSaving(true);
+    const saved = await projectStalenessService.saveThresholds(thresholds, user?.id);
+    setSaving(false);
+    toast(
+      saved
+        ? { title: "Success", description: "Stale-update thresholds saved" }
+        : { title: "Error", description: "Failed to save thresholds", variant: "destructive" },
+    );
+  };
+
+  return (
+    <Card className="bg-card border border-border">
+      <CardHeader>
+        <CardTitle className="text-foreground">Stale-Update Thresholds</CardTitle>
+        <CardDescription>
+          Days a project can go without an edit before it is flagged as stale. Automatic
+          recalculations don't count as edits. Leave a status empty to never flag it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading thresholds…
+          </div>
+        ) : (
+          <div className="flex flex-wrap items-end gap-4">
+            {Object.entries(STALENESS_STATUS_LABELS).map(([status, label]) => (
+              <div key={status} className="space-y-1">
+                <Label htmlFor={`staleness-${status}`}>{label}</Label>
+                <Input
+                  id={`staleness-${status}`}
+                  type="number"
+                  min={1}
+                  className="w-28"
+                  placeholder="Never"
+                  value={values[status] ?? ""}
+                  onChange={(e) => setValues({ ...values, [status]: e.target.value })}
+                />
+              </div>
+            ))}
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Save className="h-4 w-4 mr-2" />
+              )}
+              Save
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default StalenessThresholdsManager;
@@ -1,5 +1,153 @@
-const BudgetTracker = () => {
-  return <div>BudgetTracker Component</div>;
+/**
+ * File: BudgetTracker.tsx
+ * Purpose: Project budget at a glance — budget, actuals and forecast — with
+ * earned value metrics (PV, EV, AC, SPI, CPI, EAC, ETC, VAC) as of today.
+ */
+
+import React, { useMemo } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { DollarSign } from "lucide-react";
+import {
+  calculateEarnedValue,
+  formatPerformanceIndex,
+  getPerformanceIndexClass,
+  type EarnedValueProjectInput,
+} from "@/lib/services/earnedValue";
+
+interface BudgetTrackerProps {
+  project: EarnedValueProjectInput & { budget_forecast?: number | null };
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+
+const signedCurrency = (amount: number) =>
+  `${amount < 0 ? "-" : ""}${formatCurrency(Math.abs(amount))}`;
+
+const Metric = ({
+  label,
+  description,
+  value,
+  className = "text-foreground",
+}: {
+  label: string;
+  description: string;
+  value: string;
+  className?: string;
+}) => (
+  <Tooltip>
+    <TooltipTrigger asChild>
+      <div className="rounded-md border border-border p-3 cursor-help">
+        <div className="text-xs text-muted-foreground">{label}</div>
+        <div className={`text-lg font-semibold ${className}`}>{value}</div>
+      </div>
+    </TooltipTrigger>
+    <TooltipContent>
+      <p className="max-w-xs">{description}</p>
+    </TooltipContent>
+  </Tooltip>
+);
+
+const BudgetTracker: React.FC<BudgetTrackerProps> = ({ project }) => {
+  const metrics = useMemo(() => calculateEarnedValue(project), [project]);
+
+  if (!project.budget_total) return null;
+
+  return (
+    <TooltipProvider>
+      <Card className="mt-6 bg-card border-border">
+        <CardHeader className="pb-3">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <DollarSign className="h-5 w-5" />
+            Budget &amp; Earned Value
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-3 gap-3">
+            <Metric
+              label="Budget (BAC)"
+              description="Budget at completion: the approved project budget."
+              value={formatCurrency(project.budget_total)}
+            />
+            <Metric
+              label="Actuals (AC)"
+              description="Actual cost spent to date."
+              value={formatCurrency(project.budget_actuals || 0)}
+            />
+            <Metric
+              label="Forecast"
+              description="The project manager's own forecast of the final cost."
+              value={formatCurrency(project.budget_forecast || 0)}
+            />
+          </div>
+
+          {metrics ? (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <Metric
+                label="Planned Value (PV)"
+                description="Budget of the work the milestone schedule says should be done by today."
+                value={formatCurrency(metrics.plannedValue)}
+              />
+              <Metric
+                label="Earned Value (EV)"
+                description="Budget of the work actually done, from weighted milestone completion."
+                value={formatCurrency(metrics.earnedValue)}
+              />
+              <Metric
+                label="SPI"
+                description={`Schedule performance index (EV / PV). Below 1 means behind schedule. SV ${signedCurrency(metrics.scheduleVariance)}.`}
+                value={formatPerformanceIndex(metrics.spi)}
+                className={getPerformanceIndexClass(metrics.spi)}
+              />
+              <Metric
+                label="CPI"
+                description={`Cost performance index (EV / AC). Below 1 means over cost. CV ${signedCurrency(metrics.costVariance)}.`}
+                value={formatPerformanceIndex(metrics.cpi)}
+                className={getPerformanceIndexClass(metrics.cpi)}
+              />
+              <Metric
+                label="Estimate at Completion (EAC)"
+                description="Expected total cost if the current cost performance continues (BAC / CPI)."
+                value={formatCurrency(metrics.estimateAtCompletion)}
+              />
+              <Metric
+                label="Estimate to Complete (ETC)"
+                description="Expected cost of the remaining work (EAC − AC)."
+                value={formatCurrency(metrics.estimateToComplete)}
+              />
+              <Metric
+                label="Variance at Completion (VAC)"
+                description="Budget minus EAC. Negative means an expected overrun."
+                value={signedCurrency(metrics.varianceAtCompletion)}
+                className={metrics.varianceAtCompletion < 0 ? "text-red-600" : "text-foreground"}
+              />
+              <Metric
+                label="Cost Variance (CV)"
+                description="Earned value minus actual cost. Negative means over cost."
+                value={signedCurrency(metrics.costVariance)}
+                className={metrics.costVariance < 0 ? "text-red-600" : "text-foreground"}
+              />
+            </div>
+          ) : (
+            <div className="text-sm text-muted-foreground">
+              Add milestone dates to measure earned value against the schedule.
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </TooltipProvider>
+  );
 };
 
 export default BudgetTracker;
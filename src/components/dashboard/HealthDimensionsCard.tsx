@@ -0,0 +1,81 @@
+/**
+ * File: HealthDimensionsCard.tsx
+ * Purpose: Multi-dimension project health — schedule, budget, high-impact
+ * risks and overdue milestones, each with its own sub-color — next to the
+ * composite color the health rules combine them into.
+ */
+
+import React, { useMemo } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Activity } from "lucide-react";
+import { explainProjectHealthStatus, type ProjectWithRelations } from "@/lib/services/project";
+import { getHealthRulesForDepartment, type HealthColor } from "@/lib/services/healthRules";
+
+interface HealthDimensionsCardProps {
+  project: ProjectWithRelations;
+}
+
+const COLOR_CLASSES: Record<HealthColor, string> = {
+  green: "bg-green-500",
+  yellow: "bg-yellow-500",
+  red: "bg-red-500",
+};
+
+const COLOR_LABELS: Record<HealthColor, string> = {
+  green: "Green",
+  yellow: "Yellow",
+  red: "Red",
+};
+
+const HealthDimensionsCard: React.FC<HealthDimensionsCardProps> = ({ project }) => {
+  const explanation = useMemo(() => explainProjectHealthStatus(project), [project]);
+  const { composite } = getHealthRulesForDepartment(project.department).dimensions;
+
+  // Only worth a card once a dimension beyond the schedule is scored
+  const scored = explanation.dimensions.filter((d) => d.key !== "schedule" && d.color);
+  if (scored.length === 0) return null;
+
+  return (
+    <Card className="mt-6 bg-card border-border">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center justify-between text-lg">
+          <span className="flex items-center gap-2">
+            <Activity className="h-5 w-5" />
+            Health Dimensions
+          </span>
+          <span className="flex items-center gap-2 text-sm font-normal">
+            <span className={`h-3 w-3 rounded-full ${COLOR_CLASSES[explanation.color]}`} />
+            {COLOR_LABELS[explanation.color]}
+            {explanation.manualOverride && " (manual)"}
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+          {explanation.dimensions.map((d) => (
+            <div key={d.key} className="rounded-md border border-border p-3">
+              <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                <span
+                  className={`h-2.5 w-2.5 rounded-full ${d.color ? COLOR_CLASSES[d.color] : "bg-muted"}`}
+                />
+                {d.label}
+              </div>
+              <div className="mt-1 text-sm font-semibold">
+                {d.color ? COLOR_LABELS[d.color] : "Not scored"}
+              </div>
+              <div className="text-xs text-muted-foreground">{d.detail}</div>
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {composite === "worst"
+            ? "Overall health takes the worst scored dimension."
+            : "Budget, risks and milestones can lower the schedule color by one step."}
+          {explanation.manualOverride && " A manual override currently sets the overall color."}
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default HealthDimensionsCard;
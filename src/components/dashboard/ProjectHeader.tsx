@@ -1,5 +1,76 @@
-const ProjectHeader = () => {
-  return <div>ProjectHeader Component</div>;
+/**
+ * File: ProjectHeader.tsx
+ * Purpose: Project health at a glance — the current color, how long the
+ * project has shown it, and a sparkline of the daily health snapshots.
+ */
+
+import React, { useEffect, useState } from "react";
+import { Activity } from "lucide-react";
+import { HealthSparkline } from "@/components/ui/health-sparkline";
+import {
+  getDaysInCurrentColor,
+  healthHistoryService,
+  HEALTH_HISTORY_DAYS,
+  type HealthSnapshot,
+} from "@/lib/services/healthHistory";
+import type { HealthColor } from "@/lib/services/healthRules";
+import type { ProjectWithRelations } from "@/lib/services/project";
+import HealthExplanationPopover from "@/components/project/HealthExplanationPopover";
+
+interface ProjectHeaderProps {
+  project: ProjectWithRelations;
+}
+
+const COLOR_LABELS: Record<HealthColor, { label: string; className: string }> = {
+  green: { label: "On Track", className: "bg-green-100 text-green-800 border-green-200" },
+  yellow: { label: "At Risk", className: "bg-yellow-100 text-yellow-800 border-yellow-200" },
+  red: { label: "Critical", className: "bg-red-100 text-red-800 border-red-200" },
+};
+
+const ProjectHeader: React.FC<ProjectHeaderProps> = ({ project }) => {
+  const [history, setHistory] = useState<HealthSnapshot[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    healthHistoryService.getProjectHistory(project.id).then((snapshots) => {
+      if (!cancelled) setHistory(snapshots);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [project.id]);
+
+  if (!history) return null;
+
+  const color = project.computed_status_color as HealthColor | null;
+  const days = getDaysInCurrentColor(history);
+  const latest = history[history.length - 1];
+
+  return (
+    <div className="mt-6 flex flex-wrap items-center gap-x-6 gap-y-2 rounded-lg border border-border bg-card px-4 py-3">
+      <div className="flex items-center gap-2 text-sm font-medium text-foreground">
+        <Activity className="h-4 w-4" />
+        Health trend
+      </div>
+      {color && (
+        <HealthExplanationPopover project={project} displayedColor={color}>
+          <span
+            className={`inline-flex items-center rounded-full border px-2.5 py-0.5 text-xs font-medium ${COLOR_LABELS[color].className}`}
+          >
+            {COLOR_LABELS[color].label}
+            {days !== null && ` for ${days} day${days === 1 ? "" : "s"}`}
+          </span>
+        </HealthExplanationPopover>
+      )}
+      <HealthSparkline snapshots={history} days={HEALTH_HISTORY_DAYS} />
+      {latest && (
+        <span className="text-xs text-muted-foreground">
+          Last snapshot {latest.snapshot_date}: {latest.weighted_completion ?? 0}% complete
+          {latest.time_remaining_percent !== null && `, ${latest.time_remaining_percent}% time left`}
+        </span>
+      )}
+    </div>
+  );
 };
 
 export default ProjectHeader;
@@ -1,5 +1,362 @@
-const TeamAssignments = () => {
-  return <div>TeamAssignments Component</div>;
+/**
+ * File: TeamAssignments.tsx
+ * Purpose: Project team and stakeholder register with a per-milestone RACI
+ * matrix. People are picked from the directory; editors can add, re-role and
+ * remove stakeholders and set R/A/C/I designations inline.
+ */
+
+import React, { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { useToast } from "@/components/ui/use-toast";
+import UserSelectionInput from "@/components/ui/user-selection-input";
+import { AlertTriangle, Link2, UserMinus, UserPlus, Users } from "lucide-react";
+import {
+  RACI_CLASSES,
+  RACI_DESIGNATIONS,
+  RACI_LABELS,
+  STAKEHOLDER_ROLES,
+  STAKEHOLDER_ROLE_LABELS,
+  findRaciGaps,
+  stakeholderService,
+  type ProjectStakeholder,
+  type RaciDesignation,
+  type StakeholderRaci,
+  type StakeholderRole,
+} from "@/lib/services/stakeholders";
+
+interface TeamAssignmentsProps {
+  projectId: string;
+  milestones: Array<{ id?: string; milestone?: string | null; date?: string | null }>;
+  canEdit: boolean;
+}
+
+const NO_DESIGNATION = "none";
+
+const TeamAssignments: React.FC<TeamAssignmentsProps> = ({ projectId, milestones, canEdit }) => {
+  const { toast } = useToast();
+  const [stakeholders, setStakeholders] = useState<ProjectStakeholder[]>([]);
+  const [raci, setRaci] = useState<StakeholderRaci[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [newName, setNewName] = useState("");
+  const [newRole, setNewRole] = useState<StakeholderRole>("team_member");
+  const [adding, setAdding] = useState(false);
+
+  const savedMilestones = milestones.filter((m): m is typeof m & { id: string } => !!m.id);
+  const gaps = findRaciGaps(
+    savedMilestones.map((m) => m.id),
+    raci,
+  );
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    const data = await stakeholderService.getStakeholders(projectId);
+    setStakeholders(data.stakeholders);
+    setRaci(data.raci);
+    setLoading(false);
+  }, [projectId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleAdd = async () => {
+    setAdding(true);
+    const added = await stakeholderService.addStakeholder(projectId, { name: newName, role: newRole });
+    if (added) {
+      toast({
+        title: "Stakeholder added",
+        description: added.directory_user_id
+          ? `${added.name} was linked to the directory.`
+          : `${added.name} is not in the directory and was added by name only.`,
+      });
+      setNewName("");
+      await load();
+    } else {
+      toast({ title: "Error", description: "Could not add stakeholder. They may already hold this role.", variant: "destructive" });
+    }
+    setAdding(false);
+  };
+
+  const handleUpdate = async (
+    stakeholder: ProjectStakeholder,
+    fields: Partial<{ role: StakeholderRole; responsibilities: string | null }>,
+  ) => {
+    const ok = await stakeholderService.updateStakeholder(stakeholder.id, fields);
+    if (ok) {
+      setStakeholders((prev) => prev.map((s) => (s.id === stakeholder.id ? { ...s, ...fields } : s)));
+    } else {
+      toast({ title: "Error", description: "Could not update stakeholder.", variant: "destructive" });
+    }
+  };
+
+  const handleRemove = async (stakeholder: ProjectStakeholder) => {
+    const ok = await stakeholderService.deleteStakeholder(stakeholder.id);
+    if (ok) {
+      setStakeholders((prev) => prev.filter((s) => s.id !== stakeholder.id));
+      setRaci((prev) => prev.filter((r) => r.stakeholder_id !== stakeholder.id));
+    } else {
+      toast({ title: "Error", description: "Could not remove stakeholder.", variant: "destructive" });
+    }
+  };
+
+  const handleRaciChange = async (stakeholderId: string, milestoneId: string, value: string) => {
+    const designation = value === NO_DESIGNATION ? null : (value as RaciDesignation);
+    const ok = await stakeholderService.setRaci(projectId, stakeholderId, milestoneId, designation);
+    if (!ok) {
+      toast({ title: "Error", description: "Could not update the RACI matrix.", variant: "destructive" });
+      return;
+    }
+    setRaci((prev) => {
+      const rest = prev.filter((r) => !(r.stakeholder_id === stakeholderId && r.milestone_id === milestoneId));
+      return designation
+        ? [
+            ...rest,
+            {
+              id: `${stakeholderId}-${milestoneId}`,
+              project_id: projectId,
+              stakeholder_id: stakeholderId,
+              milestone_id: milestoneId,
+              designation,
+              created_at: new Date().toISOString(),
+            },
+          ]
+        : rest;
+    });
+  };
+
+  const designationFor = (stakeholderId: string, milestoneId: string) =>
+    raci.find((r) => r.stakeholder_id === stakeholderId && r.milestone_id === milestoneId)
+      ?.designation as RaciDesignation | undefined;
+
+  const milestoneLabel = (id: string) =>
+    (savedMilestones.find((m) => m.id === id)?.milestone || "Untitled milestone").replace(/<[^>]*>/g, "");
+
+  return (
+    <TooltipProvider>
+      <Card className="mt-6 bg-card border-border">
+        <CardHeader className="pb-3">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <Users className="h-5 w-5" />
+            Team &amp; Stakeholders
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {loading ? (
+            <div className="text-sm text-muted-foreground">Loading team…</div>
+          ) : stakeholders.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No stakeholders recorded yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left border-b border-border">
+                    <th className="py-2 pr-4 font-medium">Name</th>
+                    <th className="py-2 pr-4 font-medium">Role</th>
+                    <th className="py-2 pr-4 font-medium">Responsibilities</th>
+                    {savedMilestones.map((m) => (
+                      <th key={m.id} className="py-2 px-1 font-medium text-center min-w-[4.5rem]">
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <span className="block max-w-[6rem] truncate mx-auto">{milestoneLabel(m.id)}</span>
+                          </TooltipTrigger>
+                          <TooltipContent>
+                            {milestoneLabel(m.id)}
+                            {m.date ? ` · ${m.date}` : ""}
+                          </TooltipContent>
+                        </Tooltip>
+                      </th>
+                    ))}
+                    {canEdit && <th className="py-2" />}
+                  </tr>
+                </thead>
+                <tbody>
+                  {stakeholders.map((s) => (
+                    <tr key={s.id} className="border-b border-border align-middle">
+                      <td className="py-2 pr-4">
+                        <div className="flex items-center gap-1 font-medium">
+                          {s.name}
+                          {s.directory_user_id && (
+                            <Tooltip>
+                              <TooltipTrigger asChild>
+                                <Link2 className="h-3.5 w-3.5 text-muted-foreground" />
+                              </TooltipTrigger>
+                              <TooltipContent>Linked to the directory</TooltipContent>
+                            </Tooltip>
+                          )}
+                        </div>
+                        {s.email && <div className="text-xs text-muted-foreground">{s.email}</div>}
+                      </td>
+                      <td className="py-2 pr-4">
+                        {canEdit ? (
+                          <Select
+                            value={s.role}
+                            onValueChange={(value) => handleUpdate(s, { role: value as StakeholderRole })}
+                          >
+                            <SelectTrigger className="h-8 w-[150px] bg-card border-border">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {STAKEHOLDER_ROLES.map((role) => (
+                                <SelectItem key={role} value={role}>
+                                  {STAKEHOLDER_ROLE_LABELS[role]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          STAKEHOLDER_ROLE_LABELS[s.role as StakeholderRole] ?? s.role
+                        )}
+                      </td>
+                      <td className="py-2 pr-4">
+                        {canEdit ? (
+                          <Input
+                            defaultValue={s.responsibilities || ""}
+                            placeholder="e.g. Data migration"
+                            onBlur={(e) => {
+                              const value = e.target.value.trim() || null;
+                              if (value !== (s.responsibilities || null)) {
+                                handleUpdate(s, { responsibilities: value });
+                              }
+                            }}
+                            className="h-8 min-w-[10rem] bg-card border-border"
+                          />
+                        ) : (
+                          s.responsibilities || "—"
+                        )}
+                      </td>
+                      {savedMilestones.map((m) => {
+                        const designation = designationFor(s.id, m.id);
+                        return (
+                          <td key={m.id} className="py-2 px-1 text-center">
+                            {canEdit ? (
+                              <Select
+                                value={designation ?? NO_DESIGNATION}
+                                onValueChange={(value) => handleRaciChange(s.id, m.id, value)}
+                              >
+                                <SelectTrigger
+                                  className={`h-8 w-14 mx-auto px-2 ${designation ? RACI_CLASSES[designation] : "bg-card border-border"}`}
+                                >
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value={NO_DESIGNATION}>—</SelectItem>
+                                  {RACI_DESIGNATIONS.map((d) => (
+                                    <SelectItem key={d} value={d}>
+                                      {d} · {RACI_LABELS[d]}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            ) : designation ? (
+                              <Badge variant="outline" className={RACI_CLASSES[designation]}>
+                                {designation}
+                              </Badge>
+                            ) : (
+                              <span className="text-muted-foreground">—</span>
+                            )}
+                          </td>
+                        );
+                      })}
+                      {canEdit && (
+                        <td className="py-2 text-right">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleRemove(s)}
+                            className="text-destructive hover:text-destructive"
+                          >
+                            <UserMinus className="h-4 w-4" />
+                          </Button>
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {!loading && stakeholders.length > 0 && savedMilestones.length > 0 && (
+            <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+              {RACI_DESIGNATIONS.map((d) => (
+                <span key={d} className="flex items-center gap-1">
+                  <Badge variant="outline" className={RACI_CLASSES[d]}>{d}</Badge>
+                  {RACI_LABELS[d]}
+                </span>
+              ))}
+            </div>
+          )}
+
+          {!loading && stakeholders.length > 0 && gaps.length > 0 && (
+            <div className="flex items-start gap-2 rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-900">
+              <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+              <div>
+                Each milestone should have exactly one Accountable and at least one Responsible person:
+                <ul className="list-disc pl-5 mt-1">
+                  {gaps.map((gap) => (
+                    <li key={gap.milestoneId}>
+                      {milestoneLabel(gap.milestoneId)} —{" "}
+                      {[
+                        gap.accountable === 0 && "no Accountable",
+                        gap.accountable > 1 && `${gap.accountable} Accountable`,
+                        !gap.hasResponsible && "no Responsible",
+                      ]
+                        .filter(Boolean)
+                        .join(", ")}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+          )}
+
+          {canEdit && (
+            <div className="grid grid-cols-1 md:grid-cols-[2fr_1fr_auto] gap-2 items-center">
+              <UserSelectionInput
+                value={newName}
+                onChange={setNewName}
+                placeholder="Click to select a person..."
+                multiSelect={false}
+                className="bg-card border-border"
+              />
+              <Select value={newRole} onValueChange={(value) => setNewRole(value as StakeholderRole)}>
+                <SelectTrigger className="bg-card border-border">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {STAKEHOLDER_ROLES.map((role) => (
+                    <SelectItem key={role} value={role}>
+                      {STAKEHOLDER_ROLE_LABELS[role]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button onClick={handleAdd} disabled={adding || !newName.trim()} className="flex items-center gap-2">
+                <UserPlus className="h-4 w-4" />
+                Add
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </TooltipProvider>
+  );
 };
 
 export default TeamAssignments;
@@ -4,6 +4,7 @@ import { Trash2, ChevronDown, ChevronRight, ListChecks } from "lucide-react";
 import UserSelectionInput from "@/components/ui/user-selection-input";
 import { ProgressPill } from "@/components/ui/progress-pill";
 import { Input } from "@/components/ui/input";
+import { AllocationInput } from "@/components/ui/allocation-input";
 import { SubActivityList, SubActivity } from "./SubActivityList";
 
 interface ActivityRowProps {
@@ -12,10 +13,12 @@ interface ActivityRowProps {
     description: string;
     completion: number;
     assignee: string;
+    allocation_percent?: number | null;
+    allocation_hours?: number | null;
     sub_activities?: SubActivity[];
   };
   originalIndex: number;
-  onUpdate: (field: string, value: string | number | SubActivity[]) => void;
+  onUpdate: (field: string, value: string | number | null | SubActivity[]) => void;
   onDelete: () => void;
 }
 
@@ -48,7 +51,7 @@ export const ActivityRow: React.FC<ActivityRowProps> = ({
 
   return (
     <div>
-      <div className="grid grid-cols-[140px_1fr_80px_150px_auto] gap-2 items-start">
+      <div className="grid grid-cols-[140px_1fr_80px_150px_110px_auto] gap-2 items-start">
         <Input
           type="date"
           value={item.date}
@@ -118,6 +121,15 @@ export const ActivityRow: React.FC<ActivityRowProps> = ({
           className="bg-card/50 backdrop-blur-sm border-border"
         />
 
+        <AllocationInput
+          percent={item.allocation_percent}
+          hours={item.allocation_hours}
+          onChange={(value) => {
+            onUpdate("allocation_percent", value.allocation_percent);
+            onUpdate("allocation_hours", value.allocation_hours);
+          }}
+        />
+
         <Button
           type="button"
           variant="ghost"
@@ -0,0 +1,172 @@
+import React, { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { formatCurrency } from "@/lib/report/format";
+import {
+  formatScheduleDelta,
+  previewChangeRequestImpact,
+  toChangeRequestFields,
+  type ApplyChangeOptions,
+} from "@/lib/services/changeRequests";
+
+interface ChangeRequestDecisionDialogProps {
+  /** The submitted change being decided, or null when closed */
+  change: any | null;
+  decision: "approved" | "rejected";
+  project: { budget_total?: number | null; milestones?: any[] };
+  saving: boolean;
+  onCancel: () => void;
+  onConfirm: (comment: string, options: ApplyChangeOptions) => void;
+}
+
+const formatDate = (ymd: string | null) => {
+  if (!ymd) return "—";
+  const [y, m, d] = ymd.split("-").map(Number);
+  return new Date(y, m - 1, d).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+};
+
+/**
+ * Approve or reject a submitted change request. Approving shows what the
+ * request does to the plan and lets the approver choose which deltas to apply
+ * and whether to capture a new baseline.
+ */
+export const ChangeRequestDecisionDialog: React.FC<ChangeRequestDecisionDialogProps> = ({
+  change,
+  decision,
+  project,
+  saving,
+  onCancel,
+  onConfirm,
+}) => {
+  const fields = toChangeRequestFields(change);
+  const impact = previewChangeRequestImpact(project, fields);
+  const hasBudget = fields.budget_delta !== 0;
+  const hasSchedule = fields.schedule_delta_days !== 0 && impact.milestones.length > 0;
+
+  const [comment, setComment] = useState("");
+  const [applyBudget, setApplyBudget] = useState(true);
+  const [applySchedule, setApplySchedule] = useState(true);
+  const [createBaseline, setCreateBaseline] = useState(true);
+
+  useEffect(() => {
+    if (change) {
+      setComment("");
+      setApplyBudget(true);
+      setApplySchedule(true);
+      setCreateBaseline(true);
+    }
+  }, [change]);
+
+  const approving = decision === "approved";
+
+  return (
+    <Dialog open={!!change} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{approving ? "Approve Change Request" : "Reject Change Request"}</DialogTitle>
+          <DialogDescription>{change?.change}</DialogDescription>
+        </DialogHeader>
+
+        {approving && (
+          <div className="space-y-3 text-sm">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <div className="font-medium">Apply budget change</div>
+                <div className="text-muted-foreground">
+                  {hasBudget
+                    ? `${formatCurrency(impact.budgetBefore)} → ${formatCurrency(impact.budgetAfter)}`
+                    : "No budget impact"}
+                </div>
+              </div>
+              <Switch
+                checked={hasBudget && applyBudget}
+                onCheckedChange={setApplyBudget}
+                disabled={!hasBudget}
+              />
+            </div>
+
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <div className="font-medium">
+                  Apply schedule change ({formatScheduleDelta(fields.schedule_delta_days)})
+                </div>
+                {hasSchedule ? (
+                  <ul className="text-muted-foreground">
+                    {impact.milestones.map((m) => (
+                      <li key={m.id}>
+                        {m.label || "Untitled milestone"}: {formatDate(m.from)} → {formatDate(m.to)}
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <div className="text-muted-foreground">No milestones to move</div>
+                )}
+              </div>
+              <Switch
+                checked={hasSchedule && applySchedule}
+                onCheckedChange={setApplySchedule}
+                disabled={!hasSchedule}
+              />
+            </div>
+
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <div className="font-medium">Capture a new baseline</div>
+                <div className="text-muted-foreground">
+                  Measure variance against the re-planned schedule and budget
+                </div>
+              </div>
+              <Switch checked={createBaseline} onCheckedChange={setCreateBaseline} />
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-1.5">
+          <Label htmlFor="change-decision-comment">Comment</Label>
+          <Textarea
+            id="change-decision-comment"
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder={approving ? "Optional" : "Required when rejecting"}
+            rows={3}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} disabled={saving}>
+            Cancel
+          </Button>
+          <Button
+            variant={approving ? "default" : "destructive"}
+            disabled={saving || (!approving && !comment.trim())}
+            onClick={() =>
+              onConfirm(comment, {
+                applyBudget: approving && hasBudget && applyBudget,
+                applySchedule: approving && hasSchedule && applySchedule,
+                createBaseline: approving && createBaseline,
+              })
+            }
+          >
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {approving ? "Approve" : "Reject"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
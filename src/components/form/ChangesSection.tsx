@@ -1,28 +1,78 @@
-import React from "react";
+import React, { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Info, Trash2 } from "lucide-react";
-import {
-  Tooltip,
-  TooltipContent,
-  TooltipTrigger,
-} from "@/components/ui/tooltip";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ChevronDown } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { TooltipProvider } from "@/components/ui/tooltip";
+import { useToast } from "@/components/ui/use-toast";
+import UserSelectionInput from "@/components/ui/user-selection-input";
 import { SectionHeader } from "@/components/form/SectionHeader";
 import { ListItemRow } from "@/components/form/ListItemRow";
-
-// Force re-parse
+import { ChangeRequestDecisionDialog } from "@/components/form/ChangeRequestDecisionDialog";
+import { useAuth } from "@/lib/hooks/useAuth";
+import { formatCurrency } from "@/lib/report/format";
+import { canReviewStatusReports } from "@/lib/services/reportingPeriods";
+import {
+  CHANGE_REQUEST_STATUS_CLASSES,
+  CHANGE_REQUEST_STATUS_LABELS,
+  changeRequestService,
+  formatScheduleDelta,
+  getAllowedTransitions,
+  toChangeRequestFields,
+  type ApplyChangeOptions,
+  type ChangeRequestStatus,
+} from "@/lib/services/changeRequests";
 
 interface ChangesSectionProps {
   formData: any;
   setFormData: (updater: (prev: any) => any) => void;
+  /** Saved project; change requests can only be submitted once saved */
+  projectId?: string;
+  hasUnsavedChanges?: boolean;
+  /** Called after a request moves to a new status so the project can reload */
+  onChangeRequestUpdated?: (change: any) => void;
 }
 
+const TRANSITION_LABELS: Partial<Record<ChangeRequestStatus, string>> = {
+  submitted: "Submit",
+  draft: "Withdraw",
+  approved: "Approve",
+  rejected: "Reject",
+  implemented: "Mark Implemented",
+};
+
+const formatBudgetDelta = (delta: number) =>
+  delta ? `${delta > 0 ? "+" : "-"}${formatCurrency(Math.abs(delta))}` : "No change";
+
+// Changes get an id when added so a risk can be realized by one before the
+// first save; the save keeps client-generated UUIDs.
+const generateId = () => {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
+    return crypto.randomUUID();
+  }
+  return `tmp-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+};
+
 const ChangesSection: React.FC<ChangesSectionProps> = ({
   formData,
   setFormData,
+  projectId,
+  hasUnsavedChanges = false,
+  onChangeRequestUpdated,
 }) => {
-  const handleChangeUpdate = (index: number, field: string, value: string) => {
+  const { toast } = useToast();
+  const { profile } = useAuth();
+  const canDecide = canReviewStatusReports(profile, formData.department);
+  const [deciding, setDeciding] = useState<{ change: any; decision: "approved" | "rejected" } | null>(null);
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  // Milestones that are saved can be linked as affected by a change
+  const linkableMilestones = (formData.milestones || []).filter((m: any) => m.id);
+
+  const handleChangeUpdate = (index: number, field: string, value: any) => {
     setFormData((prev) => ({
       ...prev,
       changes: prev.changes.map((c, i) =>
@@ -43,16 +93,118 @@ const ChangesSection: React.FC<ChangesSectionProps> = ({
       ...prev,
       changes: [
         ...prev.changes,
-        { change: "", impact: "", disposition: "" },
+        {
+          id: generateId(),
+          change: "",
+          impact: "",
+          disposition: "",
+          ...toChangeRequestFields(null),
+          requested_by: profile?.full_name || "",
+        },
       ],
     }));
   };
 
+  const toggleMilestone = (index: number, milestoneId: string, checked: boolean) => {
+    const current: string[] = formData.changes[index]?.affected_milestone_ids || [];
+    handleChangeUpdate(
+      index,
+      "affected_milestone_ids",
+      checked ? [...current, milestoneId] : current.filter((id) => id !== milestoneId),
+    );
+  };
+
+  const runTransition = async (
+    change: any,
+    status: ChangeRequestStatus,
+    comment = "",
+    options: Partial<ApplyChangeOptions> = {},
+  ) => {
+    if (hasUnsavedChanges) {
+      toast({
+        title: "Error",
+        description: "Save the project before moving change requests forward",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSavingId(change.id);
+    const updated = await changeRequestService.transition(change.id, status, {
+      ...options,
+      comment,
+      actorName: profile?.full_name || null,
+    });
+    setSavingId(null);
+
+    if (!updated) {
+      toast({
+        title: "Error",
+        description: "Failed to update the change request",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setDeciding(null);
+    toast({
+      title: "Success",
+      description: `Change request ${CHANGE_REQUEST_STATUS_LABELS[status].toLowerCase()}`,
+    });
+    onChangeRequestUpdated?.(updated);
+  };
+
+  const handleAction = (change: any, status: ChangeRequestStatus) => {
+    if (status === "approved" || status === "rejected") {
+      setDeciding({ change, decision: status });
+      return;
+    }
+    runTransition(change, status);
+  };
+
+  const renderMilestonePicker = (index: number, selected: string[]) => (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          className="w-full justify-between bg-card/50 backdrop-blur-sm border-border font-normal"
+        >
+          {selected.length ? `${selected.length} selected` : "None"}
+          <ChevronDown className="h-4 w-4 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 max-h-64 overflow-y-auto">
+        {linkableMilestones.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Save milestones first to link them.</p>
+        ) : (
+          <div className="space-y-2">
+            {linkableMilestones.map((m: any) => (
+              <label key={m.id} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={selected.includes(m.id)}
+                  onCheckedChange={(checked) => toggleMilestone(index, m.id, checked === true)}
+                />
+                <span className="truncate">{m.milestone || "Untitled milestone"}</span>
+              </label>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+
+  const milestoneNames = (ids: string[]) =>
+    linkableMilestones
+      .filter((m: any) => ids.includes(m.id))
+      .map((m: any) => m.milestone || "Untitled milestone")
+      .join(", ");
+
   return (
     <TooltipProvider>
       <SectionHeader
         title="Changes"
-        tooltip="Document any significant changes to the project scope, timeline, or resources."
+        tooltip="Raise change requests with their budget and schedule impact. Drafts are editable; once submitted, the department director or an admin approves or rejects them and can apply the deltas to the plan."
       />
       <div className="space-y-4 bg-card/80 backdrop-blur-sm rounded-xl p-4 border-4 border-border shadow-lg">
         {/* Column Headers */}
@@ -64,17 +216,147 @@ const ChangesSection: React.FC<ChangesSectionProps> = ({
         </div>
 
         {/* Change Rows */}
-        {formData.changes.map((item, index) => (
-          <ListItemRow
-            key={index}
-            item={item}
-            index={index}
-            onUpdate={(field, value) => handleChangeUpdate(index, field, value)}
-            onDelete={() => handleChangeDelete(index)}
-            showImpact={true}
-            showDisposition={true}
-          />
-        ))}
+        {formData.changes.map((item, index) => {
+          const fields = toChangeRequestFields(item);
+          const isDraft = fields.status === "draft";
+          const actions = projectId && item.created_at
+            ? getAllowedTransitions(fields.status, { canEdit: true, canDecide })
+            : [];
+
+          return (
+            <div key={index} className="space-y-2 rounded-lg border border-border p-3">
+              {isDraft ? (
+                <ListItemRow
+                  item={item}
+                  index={index}
+                  onUpdate={(field, value) => handleChangeUpdate(index, field, value)}
+                  onDelete={() => handleChangeDelete(index)}
+                  showImpact={true}
+                  showDisposition={true}
+                />
+              ) : (
+                <div className="grid grid-cols-[2fr_1fr_1fr_auto] gap-2 items-start text-sm">
+                  <div>{item.change}</div>
+                  <div className="text-muted-foreground">{item.impact || "—"}</div>
+                  <div className="text-muted-foreground">{item.disposition || "—"}</div>
+                  <div className="w-10" />
+                </div>
+              )}
+
+              {isDraft ? (
+                <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_1fr_1fr] gap-2 items-end">
+                  <div className="space-y-1">
+                    <Label className="text-xs text-muted-foreground">Requested By</Label>
+                    <UserSelectionInput
+                      value={fields.requested_by}
+                      onChange={(value) => handleChangeUpdate(index, "requested_by", value)}
+                      placeholder="Click to select requester..."
+                      multiSelect={false}
+                      className="bg-card/50 backdrop-blur-sm border-border"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs text-muted-foreground">Budget Change ($)</Label>
+                    <Input
+                      type="number"
+                      step="1"
+                      value={fields.budget_delta || ""}
+                      onChange={(e) => handleChangeUpdate(index, "budget_delta", Number(e.target.value) || 0)}
+                      placeholder="0"
+                      className="bg-card/50 backdrop-blur-sm border-border"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs text-muted-foreground">Schedule Change (days)</Label>
+                    <Input
+                      type="number"
+                      step="1"
+                      value={fields.schedule_delta_days || ""}
+                      onChange={(e) =>
+                        handleChangeUpdate(index, "schedule_delta_days", Math.trunc(Number(e.target.value) || 0))
+                      }
+                      placeholder="0"
+                      className="bg-card/50 backdrop-blur-sm border-border"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs text-muted-foreground">Affected Milestones</Label>
+                    {renderMilestonePicker(index, fields.affected_milestone_ids)}
+                  </div>
+                </div>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_1fr_1fr] gap-2 text-sm">
+                  <div>
+                    <div className="text-xs text-muted-foreground">Requested By</div>
+                    {fields.requested_by || "—"}
+                  </div>
+                  <div>
+                    <div className="text-xs text-muted-foreground">Budget Change</div>
+                    {formatBudgetDelta(fields.budget_delta)}
+                    {fields.budget_applied && <span className="text-muted-foreground"> (applied)</span>}
+                  </div>
+                  <div>
+                    <div className="text-xs text-muted-foreground">Schedule Change</div>
+                    {formatScheduleDelta(fields.schedule_delta_days)}
+                    {fields.schedule_applied && <span className="text-muted-foreground"> (applied)</span>}
+                  </div>
+                  <div>
+                    <div className="text-xs text-muted-foreground">Affected Milestones</div>
+                    {milestoneNames(fields.affected_milestone_ids) || "—"}
+                  </div>
+                </div>
+              )}
+
+              <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                <Badge variant="outline" className={CHANGE_REQUEST_STATUS_CLASSES[fields.status]}>
+                  {CHANGE_REQUEST_STATUS_LABELS[fields.status]}
+                </Badge>
+                {fields.submitted_at && (
+                  <span>
+                    Submitted by {fields.submitted_by_name || "unknown"} on{" "}
+                    {new Date(fields.submitted_at).toLocaleDateString()}
+                  </span>
+                )}
+                {fields.decided_at && (
+                  <span>
+                    · {fields.status === "rejected" ? "Rejected" : "Approved"} by{" "}
+                    {fields.decided_by_name || "unknown"} on {new Date(fields.decided_at).toLocaleDateString()}
+                  </span>
+                )}
+                {fields.implemented_at && (
+                  <span>· Implemented {new Date(fields.implemented_at).toLocaleDateString()}</span>
+                )}
+                {isDraft && !item.created_at && <span>Save the project to submit this change</span>}
+                <div className="ml-auto flex gap-2">
+                  {actions.map((status) => (
+                    <Button
+                      key={status}
+                      type="button"
+                      size="sm"
+                      variant={status === "rejected" || status === "draft" ? "outline" : "default"}
+                      disabled={savingId === item.id || hasUnsavedChanges}
+                      onClick={() => handleAction(item, status)}
+                    >
+                      {TRANSITION_LABELS[status]}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+
+              {fields.decision_comment && (
+                <div className="rounded-md border border-amber-300 bg-amber-50 p-2 text-sm text-amber-900">
+                  {fields.decision_comment}
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        {hasUnsavedChanges && formData.changes.some((c: any) => c.created_at) && (
+          <p className="text-xs text-muted-foreground">
+            Save your edits before submitting or deciding change requests.
+          </p>
+        )}
 
         <Button
           type="button"
@@ -85,8 +367,22 @@ const ChangesSection: React.FC<ChangesSectionProps> = ({
           Add Change
         </Button>
       </div>
+
+      <ChangeRequestDecisionDialog
+        change={deciding?.change || null}
+        decision={deciding?.decision || "approved"}
+        project={{
+          budget_total: Number(String(formData.budget?.total ?? "").replace(/[^0-9.-]/g, "")) || 0,
+          milestones: linkableMilestones,
+        }}
+        saving={!!deciding && savingId === deciding.change.id}
+        onCancel={() => setDeciding(null)}
+        onConfirm={(comment, options) =>
+          deciding && runTransition(deciding.change, deciding.decision, comment, options)
+        }
+      />
     </TooltipProvider>
   );
 };
 
-export default ChangesSection;
\ No newline at end of file
+export default ChangesSection;
@@ -0,0 +1,218 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ChevronDown, Trash2 } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { TooltipProvider } from "@/components/ui/tooltip";
+import UserSelectionInput from "@/components/ui/user-selection-input";
+import { SectionHeader } from "@/components/form/SectionHeader";
+import {
+  DECISION_LINK_LABELS,
+  describeDecisionLink,
+  getDecisionLinkText,
+  toDecisionFields,
+  type DecisionLink,
+  type DecisionLinkType,
+} from "@/lib/services/projectLogs";
+
+interface DecisionsSectionProps {
+  formData: any;
+  setFormData: (updater: (prev: any) => any) => void;
+}
+
+const LINK_SOURCES: Array<{ type: DecisionLinkType; key: string }> = [
+  { type: "risk", key: "risks" },
+  { type: "issue", key: "issues" },
+  { type: "change", key: "changes" },
+  { type: "milestone", key: "milestones" },
+];
+
+const DecisionsSection: React.FC<DecisionsSectionProps> = ({ formData, setFormData }) => {
+  const decisions = formData.decisions || [];
+
+  // Only saved items have an id a decision can point at
+  const linkable = LINK_SOURCES.map(({ type, key }) => ({
+    type,
+    links: (formData[key] || [])
+      .filter((item: any) => item?.id)
+      .map((item: any) => ({ type, id: item.id as string }))
+      .map((link: DecisionLink) => ({ link, label: getDecisionLinkText(link, formData) || "" })),
+  })).filter((group) => group.links.length > 0);
+
+  const handleDecisionUpdate = (index: number, field: string, value: any) => {
+    setFormData((prev) => ({
+      ...prev,
+      decisions: (prev.decisions || []).map((d, i) =>
+        i === index ? { ...d, [field]: value } : d,
+      ),
+    }));
+  };
+
+  const handleDecisionDelete = (index: number) => {
+    setFormData((prev) => ({
+      ...prev,
+      decisions: (prev.decisions || []).filter((_, i) => i !== index),
+    }));
+  };
+
+  const handleAddDecision = () => {
+    setFormData((prev) => ({
+      ...prev,
+      decisions: [
+        ...(prev.decisions || []),
+        { ...toDecisionFields(null), decision_date: new Date().toISOString().split("T")[0] },
+      ],
+    }));
+  };
+
+  const toggleLink = (index: number, link: DecisionLink, checked: boolean) => {
+    const current = toDecisionFields(decisions[index]).linked_items;
+    handleDecisionUpdate(
+      index,
+      "linked_items",
+      checked
+        ? [...current, link]
+        : current.filter((l) => !(l.type === link.type && l.id === link.id)),
+    );
+  };
+
+  return (
+    <TooltipProvider>
+      <SectionHeader
+        title="Decisions"
+        tooltip="Keep a log of steering decisions: what was decided, when and by whom, why, and which risks, issues, changes or milestones it concerns."
+      />
+      <div className="space-y-4 bg-card/80 backdrop-blur-sm rounded-xl p-4 border-4 border-border shadow-lg">
+        {/* Column Headers */}
+        <div className="grid grid-cols-[1fr_auto] gap-2 items-start">
+          <div className="font-medium text-sm text-primary">Decision</div>
+          <div></div>
+        </div>
+
+        {/* Decision Rows */}
+        {decisions.map((item, index) => {
+          const fields = toDecisionFields(item);
+          const isLinked = (link: DecisionLink) =>
+            fields.linked_items.some((l) => l.type === link.type && l.id === link.id);
+
+          return (
+            <div key={index} className="space-y-2 rounded-lg border border-border p-3">
+              <div className="grid grid-cols-[1fr_auto] gap-2 items-start">
+                <Input
+                  value={fields.decision}
+                  onChange={(e) => handleDecisionUpdate(index, "decision", e.target.value)}
+                  placeholder="What was decided?"
+                  className="backdrop-blur-sm border-border"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleDecisionDelete(index)}
+                  className="text-muted-foreground hover:text-destructive"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_2fr] gap-2 items-end">
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Date</Label>
+                  <Input
+                    type="date"
+                    value={fields.decision_date || ""}
+                    onChange={(e) => handleDecisionUpdate(index, "decision_date", e.target.value || null)}
+                    className="bg-card/50 backdrop-blur-sm border-border"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Decided By</Label>
+                  <UserSelectionInput
+                    value={fields.decided_by}
+                    onChange={(value) => handleDecisionUpdate(index, "decided_by", value)}
+                    placeholder="Click to select..."
+                    multiSelect={false}
+                    className="bg-card/50 backdrop-blur-sm border-border"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Linked Items</Label>
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        className="w-full justify-between bg-card/50 backdrop-blur-sm border-border font-normal"
+                      >
+                        <span className="truncate">
+                          {fields.linked_items.length
+                            ? fields.linked_items
+                                .map((link) => describeDecisionLink(link, formData))
+                                .filter(Boolean)
+                                .join("; ")
+                            : "None"}
+                        </span>
+                        <ChevronDown className="h-4 w-4 opacity-50 shrink-0" />
+                      </Button>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-80 max-h-72 overflow-y-auto">
+                      {linkable.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">
+                          Save risks, issues, changes or milestones first to link them.
+                        </p>
+                      ) : (
+                        <div className="space-y-3">
+                          {linkable.map((group) => (
+                            <div key={group.type} className="space-y-1.5">
+                              <div className="text-xs font-medium text-muted-foreground">
+                                {DECISION_LINK_LABELS[group.type]}s
+                              </div>
+                              {group.links.map(({ link, label }) => (
+                                <label key={link.id} className="flex items-center gap-2 text-sm">
+                                  <Checkbox
+                                    checked={isLinked(link)}
+                                    onCheckedChange={(checked) => toggleLink(index, link, checked === true)}
+                                  />
+                                  <span className="truncate">{label}</span>
+                                </label>
+                              ))}
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </PopoverContent>
+                  </Popover>
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Rationale</Label>
+                <Textarea
+                  value={fields.rationale}
+                  onChange={(e) => handleDecisionUpdate(index, "rationale", e.target.value)}
+                  placeholder="Why was this decided, and what alternatives were considered?"
+                  rows={2}
+                  className="bg-card/50 backdrop-blur-sm border-border"
+                />
+              </div>
+            </div>
+          );
+        })}
+
+        <Button
+          type="button"
+          variant="outline"
+          onClick={handleAddDecision}
+          className="bg-card/50 backdrop-blur-sm border-border"
+        >
+          Add Decision
+        </Button>
+      </div>
+    </TooltipProvider>
+  );
+};
+
+export default DecisionsSection;
@@ -155,8 +155,8 @@ export const DeleteConfirmationDialog: React.FC<
         <AlertDialogHeader>
           <AlertDialogTitle>Delete Project</AlertDialogTitle>
           <AlertDialogDescription>
-            Are you sure you want to delete this project? This action cannot be
-            undone.
+            Are you sure you want to delete this project? It will be moved to
+            the trash, where it can be restored until it is purged.
           </AlertDialogDescription>
         </AlertDialogHeader>
         <AlertDialogFooter>
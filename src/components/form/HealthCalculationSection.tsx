@@ -1,6 +1,7 @@
-import React, { useMemo } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { Info, RefreshCw } from "lucide-react";
 import {
   Tooltip,
@@ -24,17 +25,40 @@ import {
   calculateTimeRemainingPercentage,
   getTimeRemainingTooltipText,
 } from "@/lib/services/project";
+import { getHealthRulesForDepartment } from "@/lib/services/healthRules";
+import {
+  HEALTH_OVERRIDE_ACTION_LABELS,
+  HEALTH_OVERRIDE_MAX_DAYS,
+  getMaxHealthOverrideExpiry,
+  healthOverridesService,
+  isHealthOverrideActive,
+  type HealthOverrideAction,
+  type HealthOverrideRecord,
+} from "@/lib/services/healthOverrides";
 import { SectionHeader } from "./SectionHeader";
 
 interface HealthCalculationSectionProps {
   formData: any;
   setFormData: (updater: (prev: any) => any) => void;
+  /** Saved project, for the manual override history */
+  projectId?: string;
 }
 
 const HealthCalculationSection: React.FC<HealthCalculationSectionProps> = ({
   formData,
   setFormData,
+  projectId,
 }) => {
+  // Thresholds from the published health rule set for the project's department
+  const rules = getHealthRulesForDepartment(formData?.department);
+  const [overrideHistory, setOverrideHistory] = useState<HealthOverrideRecord[]>([]);
+  const today = new Date().toISOString().split("T")[0];
+
+  useEffect(() => {
+    if (!projectId) return;
+    healthOverridesService.getHistory(projectId).then(setOverrideHistory);
+  }, [projectId, formData?.manual_status_set_at]);
+
   // Calculate current health status using the standardized function
   const currentHealthStatus = useMemo(() => {
     if (!formData)
@@ -71,10 +95,7 @@ const HealthCalculationSection: React.FC<HealthCalculationSectionProps> = ({
     let percentage = 0;
     let reasoning = "";
 
-    if (
-      formData.health_calculation_type === "manual" &&
-      formData.manual_status_color
-    ) {
+    if (isHealthOverrideActive(formData)) {
       percentage = formData.manual_health_percentage || 0;
       reasoning = `Manual override: Set to ${formData.manual_status_color.toUpperCase()} with ${percentage}% completion.`;
     } else if (formData.status === "completed") {
@@ -94,12 +115,13 @@ const HealthCalculationSection: React.FC<HealthCalculationSectionProps> = ({
       // Time-aware reasoning
       if (timeRemainingPercentage === null) {
         // No time data available, use milestone-only logic
-        if (weightedCompletion >= 70) {
-          reasoning = `Milestone completion is ${weightedCompletion}% (≥70%) - set to GREEN (On Track).`;
-        } else if (weightedCompletion >= 40) {
-          reasoning = `Milestone completion is ${weightedCompletion}% (40-69%) - set to YELLOW (At Risk).`;
+        const { green, yellow } = rules.noTimeData;
+        if (weightedCompletion >= green) {
+          reasoning = `Milestone completion is ${weightedCompletion}% (≥${green}%) - set to GREEN (On Track).`;
+        } else if (weightedCompletion >= yellow) {
+          reasoning = `Milestone completion is ${weightedCompletion}% (${yellow}-${green - 1}%) - set to YELLOW (At Risk).`;
         } else {
-          reasoning = `Milestone completion is ${weightedCompletion}% (<40%) - set to RED (Critical).`;
+          reasoning = `Milestone completion is ${weightedCompletion}% (<${yellow}%) - set to RED (Critical).`;
         }
       } else {
         // Time-aware logic
@@ -134,7 +156,7 @@ const HealthCalculationSection: React.FC<HealthCalculationSectionProps> = ({
       reasoning,
       timeRemainingPercentage,
     };
-  }, [formData]);
+  }, [formData, rules]);
 
   // Function to refresh computed status color in database
   const handleRefreshComputedStatus = async () => {
@@ -184,35 +206,31 @@ const HealthCalculationSection: React.FC<HealthCalculationSectionProps> = ({
                       Time-Aware Health Calculation Rules:
                     </div>
                     <ul className="list-disc list-inside space-y-1">
-                      <li>Completed projects = GREEN (100%)</li>
-                      <li>Cancelled projects = RED (0%)</li>
-                      <li>Draft/On Hold projects = YELLOW</li>
+                      {Object.entries(rules.statusColors).map(([status, color]) => (
+                        <li key={status}>
+                          {status.replace("_", " ")} projects = {color?.toUpperCase()}
+                        </li>
+                      ))}
                       <li className="font-medium">
                         Active projects with time awareness:
                       </li>
                       <li className="ml-4">
-                        • Overdue: Strict thresholds (≥90% = YELLOW, &lt;90% =
-                        RED)
-                      </li>
-                      <li className="ml-4">
-                        • Substantial time (&gt;60% remaining): Very lenient
-                        (���10% = GREEN, 5-9% = YELLOW, &lt;5% = RED)
+                        • Not started yet: GREEN, YELLOW above{" "}
+                        {rules.futureStart.yellowAbove}% completion
                       </li>
                       <li className="ml-4">
-                        • Plenty of time (30-60% remaining): Lenient (≥20% =
-                        GREEN, 10-19% = YELLOW, &lt;10% = RED)
+                        • Overdue: ≥{rules.overdue.yellow}% = YELLOW, &lt;
+                        {rules.overdue.yellow}% = RED
                       </li>
+                      {rules.timeBands.map((band) => (
+                        <li key={band.above} className="ml-4">
+                          • &gt;{band.above}% time remaining: ≥{band.green}% =
+                          GREEN, ≥{band.yellow}% = YELLOW, otherwise RED
+                        </li>
+                      ))}
                       <li className="ml-4">
-                        • Moderate time (15-30% remaining): Balanced (≥40% =
-                        GREEN, 25-39% = YELLOW, &lt;25% = RED)
-                      </li>
-                      <li className="ml-4">
-                        • Little time (&lt;15% remaining): Strict (≥80% = GREEN,
-                        60-79% = YELLOW, &lt;60% = RED)
-                      </li>
-                      <li className="ml-4">
-                        • No time data: Original thresholds (≥70% = GREEN,
-                        40-69% = YELLOW, &lt;40% = RED)
+                        • No time data: ≥{rules.noTimeData.green}% = GREEN, ≥
+                        {rules.noTimeData.yellow}% = YELLOW, otherwise RED
                       </li>
                       <li>
                         Manual override uses your specified color and percentage
@@ -359,6 +377,82 @@ const HealthCalculationSection: React.FC<HealthCalculationSectionProps> = ({
               </Select>
             </div>
           </div>
+          <div className="space-y-2">
+            <Label htmlFor="manual_status_reason" className="text-foreground">
+              Justification
+            </Label>
+            <Textarea
+              id="manual_status_reason"
+              value={formData.manual_status_reason || ""}
+              onChange={(e) =>
+                setFormData((prev) => ({
+                  ...prev,
+                  manual_status_reason: e.target.value,
+                }))
+              }
+              placeholder="Why the calculated health does not reflect this project"
+              className="bg-card border-border text-foreground"
+            />
+          </div>
+          <div className="space-y-2">
+            <div className="flex items-center gap-1">
+              <Label htmlFor="manual_status_expires_at" className="text-foreground">
+                Expires On
+              </Label>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Info className="h-4 w-4 text-muted-foreground cursor-help" />
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p className="max-w-xs">
+                    After this day the project reverts to automatic health. An
+                    override can last at most {HEALTH_OVERRIDE_MAX_DAYS} days;
+                    renew it by saving a new date.
+                  </p>
+                </TooltipContent>
+              </Tooltip>
+            </div>
+            <Input
+              id="manual_status_expires_at"
+              type="date"
+              min={today}
+              max={getMaxHealthOverrideExpiry(today)}
+              value={formData.manual_status_expires_at || ""}
+              onChange={(e) =>
+                setFormData((prev) => ({
+                  ...prev,
+                  manual_status_expires_at: e.target.value,
+                }))
+              }
+              className="bg-card border-border text-foreground w-48"
+            />
+          </div>
+          {formData.manual_status_set_at && (
+            <p className="text-xs text-muted-foreground">
+              Set by {formData.manual_status_set_by_name || "an unknown user"} on{" "}
+              {new Date(formData.manual_status_set_at).toLocaleDateString()}
+            </p>
+          )}
+        </div>
+      )}
+
+      {overrideHistory.length > 0 && (
+        <div className="space-y-2 bg-card/80 backdrop-blur-sm rounded-xl p-4 border border-border shadow-sm mt-4">
+          <h4 className="font-medium text-foreground">Override History</h4>
+          <div className="space-y-1 max-h-48 overflow-y-auto">
+            {overrideHistory.map((record) => (
+              <div key={record.id} className="text-xs text-muted-foreground">
+                <span className="font-medium text-foreground">
+                  {HEALTH_OVERRIDE_ACTION_LABELS[record.action as HealthOverrideAction] || record.action}
+                </span>{" "}
+                {record.status_color?.toUpperCase()} ·{" "}
+                {new Date(record.changed_at).toLocaleDateString()}
+                {record.changed_by_name && ` · ${record.changed_by_name}`}
+                {record.expires_at && ` · until ${record.expires_at}`}
+                {record.reason && <div className="italic">“{record.reason}”</div>}
+              </div>
+            ))}
+          </div>
         </div>
       )}
     </TooltipProvider>
@@ -0,0 +1,194 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { TooltipProvider } from "@/components/ui/tooltip";
+import UserSelectionInput from "@/components/ui/user-selection-input";
+import { SectionHeader } from "@/components/form/SectionHeader";
+import { ListItemRow } from "@/components/form/ListItemRow";
+import {
+  ISSUE_ESCALATION_LABELS,
+  ISSUE_ESCALATION_LEVELS,
+  ISSUE_SEVERITIES,
+  ISSUE_SEVERITY_CLASSES,
+  ISSUE_SEVERITY_LABELS,
+  ISSUE_STATUSES,
+  ISSUE_STATUS_LABELS,
+  toIssueFields,
+} from "@/lib/services/projectLogs";
+
+interface IssuesSectionProps {
+  formData: any;
+  setFormData: (updater: (prev: any) => any) => void;
+}
+
+const IssuesSection: React.FC<IssuesSectionProps> = ({ formData, setFormData }) => {
+  const issues = formData.issues || [];
+
+  const handleIssueUpdate = (index: number, field: string, value: any) => {
+    setFormData((prev) => ({
+      ...prev,
+      issues: (prev.issues || []).map((issue, i) =>
+        i === index ? { ...issue, [field]: value } : issue,
+      ),
+    }));
+  };
+
+  const handleIssueDelete = (index: number) => {
+    setFormData((prev) => ({
+      ...prev,
+      issues: (prev.issues || []).filter((_, i) => i !== index),
+    }));
+  };
+
+  const handleAddIssue = () => {
+    setFormData((prev) => ({
+      ...prev,
+      issues: [...(prev.issues || []), toIssueFields(null)],
+    }));
+  };
+
+  return (
+    <TooltipProvider>
+      <SectionHeader
+        title="Issues"
+        tooltip="Log problems that are already affecting the project: how severe they are, who owns them, when they must be fixed, how far they have been escalated and how they were resolved."
+      />
+      <div className="space-y-4 bg-card/80 backdrop-blur-sm rounded-xl p-4 border-4 border-border shadow-lg">
+        {/* Column Headers */}
+        <div className="grid grid-cols-[1fr_auto] gap-2 items-start">
+          <div className="font-medium text-sm text-primary">Issue</div>
+          <div></div>
+        </div>
+
+        {/* Issue Rows */}
+        {issues.map((item, index) => {
+          const fields = toIssueFields(item);
+
+          return (
+            <div key={index} className="space-y-2 rounded-lg border border-border p-3">
+              <ListItemRow
+                item={item}
+                index={index}
+                placeholder="Describe the issue"
+                onUpdate={(field, value) => handleIssueUpdate(index, field, value)}
+                onDelete={() => handleIssueDelete(index)}
+              />
+
+              <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_1fr_1fr] gap-2 items-end">
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Severity</Label>
+                  <Select
+                    value={fields.severity}
+                    onValueChange={(value) => handleIssueUpdate(index, "severity", value)}
+                  >
+                    <SelectTrigger className="bg-card border-border text-foreground">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ISSUE_SEVERITIES.map((severity) => (
+                        <SelectItem key={severity} value={severity}>
+                          <Badge variant="outline" className={ISSUE_SEVERITY_CLASSES[severity]}>
+                            {ISSUE_SEVERITY_LABELS[severity]}
+                          </Badge>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Owner</Label>
+                  <UserSelectionInput
+                    value={fields.owner}
+                    onChange={(value) => handleIssueUpdate(index, "owner", value)}
+                    placeholder="Click to select owner..."
+                    multiSelect={false}
+                    className="bg-card/50 backdrop-blur-sm border-border"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Due Date</Label>
+                  <Input
+                    type="date"
+                    value={fields.due_date || ""}
+                    onChange={(e) => handleIssueUpdate(index, "due_date", e.target.value || null)}
+                    className="bg-card/50 backdrop-blur-sm border-border"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Escalated To</Label>
+                  <Select
+                    value={fields.escalation_level}
+                    onValueChange={(value) => handleIssueUpdate(index, "escalation_level", value)}
+                  >
+                    <SelectTrigger className="bg-card border-border text-foreground">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ISSUE_ESCALATION_LEVELS.map((level) => (
+                        <SelectItem key={level} value={level}>
+                          {ISSUE_ESCALATION_LABELS[level]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-[1fr_3fr] gap-2 items-start">
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Status</Label>
+                  <Select
+                    value={fields.status}
+                    onValueChange={(value) => handleIssueUpdate(index, "status", value)}
+                  >
+                    <SelectTrigger className="bg-card border-border text-foreground">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ISSUE_STATUSES.map((status) => (
+                        <SelectItem key={status} value={status}>
+                          {ISSUE_STATUS_LABELS[status]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Resolution</Label>
+                  <Textarea
+                    value={fields.resolution}
+                    onChange={(e) => handleIssueUpdate(index, "resolution", e.target.value)}
+                    placeholder="How the issue was, or will be, resolved"
+                    rows={2}
+                    className="bg-card/50 backdrop-blur-sm border-border"
+                  />
+                </div>
+              </div>
+            </div>
+          );
+        })}
+
+        <Button
+          type="button"
+          variant="outline"
+          onClick={handleAddIssue}
+          className="bg-card/50 backdrop-blur-sm border-border"
+        >
+          Add Issue
+        </Button>
+      </div>
+    </TooltipProvider>
+  );
+};
+
+export default IssuesSection;
@@ -0,0 +1,168 @@
+/**
+ * File: MergeConflictDialog.tsx
+ * Purpose: Dialog shown when a save is rejected because someone else saved the
+ * project after it was opened. Lets the user keep their value or take the other
+ * editor's value for each field that differs, then saves the merged result.
+ */
+
+import React, { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { GitMerge } from "lucide-react";
+import type {
+  MergeChoice,
+  MergeField,
+  ProjectMerge,
+} from "@/lib/utils/projectMerge";
+
+interface MergeConflictDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  merge: ProjectMerge | null;
+  onConfirm: (choices: Record<string, MergeChoice>) => void;
+  onCancel: () => void;
+}
+
+const formatValue = (value: any): string => {
+  if (Array.isArray(value)) {
+    return `${value.length} item${value.length === 1 ? "" : "s"}`;
+  }
+  if (value === null || value === undefined || String(value).trim() === "") {
+    return "(empty)";
+  }
+  const text = String(value).replace(/<[^>]*>/g, "");
+  return text.length > 80 ? `${text.slice(0, 80)}…` : text;
+};
+
+const ChangeList: React.FC<{ changes: string[] }> = ({ changes }) =>
+  changes.length > 0 ? (
+    <ul className="mt-1 list-disc pl-4 text-xs text-muted-foreground">
+      {changes.slice(0, 3).map((change, index) => (
+        <li key={index}>{change}</li>
+      ))}
+      {changes.length > 3 && <li>and {changes.length - 3} more</li>}
+    </ul>
+  ) : null;
+
+export const MergeConflictDialog: React.FC<MergeConflictDialogProps> = ({
+  open,
+  onOpenChange,
+  merge,
+  onConfirm,
+  onCancel,
+}) => {
+  const [choices, setChoices] = useState<Record<string, MergeChoice>>({});
+
+  // Reset choices to each field's default whenever a new merge is shown
+  React.useEffect(() => {
+    if (open && merge) {
+      setChoices(
+        Object.fromEntries(
+          merge.fields.map((field) => [field.key, field.defaultChoice]),
+        ),
+      );
+    }
+  }, [open, merge]);
+
+  const renderField = (field: MergeField) => (
+    <div key={field.key} className="rounded-md border p-3 space-y-2">
+      <div className="flex items-center gap-2">
+        <span className="text-sm font-medium">{field.label}</span>
+        {field.changedByMe && field.changedByThem && (
+          <Badge
+            variant="secondary"
+            className="text-xs bg-amber-500/10 text-amber-700 dark:text-amber-400 border-amber-500/30"
+          >
+            Both changed
+          </Badge>
+        )}
+      </div>
+      <RadioGroup
+        value={choices[field.key] ?? field.defaultChoice}
+        onValueChange={(value) =>
+          setChoices((prev) => ({
+            ...prev,
+            [field.key]: value as MergeChoice,
+          }))
+        }
+        className="grid-cols-2"
+      >
+        <label className="flex items-start gap-2 cursor-pointer">
+          <RadioGroupItem value="mine" className="mt-0.5" />
+          <div className="text-sm">
+            <div className="font-medium">Keep mine</div>
+            <div className="text-xs text-muted-foreground break-words">
+              {formatValue(field.mine)}
+            </div>
+            <ChangeList changes={field.myChanges} />
+          </div>
+        </label>
+        <label className="flex items-start gap-2 cursor-pointer">
+          <RadioGroupItem value="theirs" className="mt-0.5" />
+          <div className="text-sm">
+            <div className="font-medium">Use theirs</div>
+            <div className="text-xs text-muted-foreground break-words">
+              {formatValue(field.theirs)}
+            </div>
+            <ChangeList changes={field.theirChanges} />
+          </div>
+        </label>
+      </RadioGroup>
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitMerge className="h-5 w-5 text-amber-500" />
+            Project Changed by Someone Else
+          </DialogTitle>
+          <DialogDescription>
+            Another editor saved this project after you opened it. Choose which
+            version to keep for each field that differs, then save the merged
+            project.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[400px] overflow-y-auto space-y-3 py-2">
+          {merge && merge.fields.length > 0 ? (
+            merge.fields.map(renderField)
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              Your changes match the latest saved version.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter className="flex gap-2 sm:justify-between">
+          <Button
+            type="button"
+            variant="ghost"
+            onClick={onCancel}
+            className="text-muted-foreground"
+          >
+            Keep Editing
+          </Button>
+          <Button
+            type="button"
+            variant="default"
+            onClick={() => onConfirm(choices)}
+          >
+            Save Merged Project
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,6 +1,6 @@
 import React from "react";
 import { Button } from "@/components/ui/button";
-import { Wand2, Info, Loader2 } from "lucide-react";
+import { Wand2, Info, Loader2, AlertTriangle } from "lucide-react";
 import {
   Tooltip,
   TooltipContent,
@@ -11,6 +11,14 @@ import { MilestoneList } from "@/components/MilestoneList";
 import { ProgressPill } from "@/components/ui/progress-pill";
 import { SectionHeader } from "./SectionHeader";
 import { useToast } from "@/components/ui/use-toast";
+import {
+  DEPENDENCY_TYPE_LABELS,
+  calculateCriticalPath,
+  dependencyKey,
+  findDependencyViolations,
+  getScheduleItems,
+} from "@/lib/services/scheduleDependencies";
+import ScheduleDependenciesEditor from "./ScheduleDependenciesEditor";
 
 import { AIContextDialog } from "./AIContextDialog";
 
@@ -22,6 +30,8 @@ interface MilestonesSectionProps {
     additionalContext?: string,
   ) => void;
   isGeneratingMilestones?: boolean;
+  // Dependencies are only saved for existing projects
+  projectId?: string;
 }
 
 // Wrapper component to maintain compatibility with MilestoneList
@@ -35,15 +45,62 @@ const MilestoneProgressPill: React.FC<{
   );
 };
 
+// Milestones need an id up front so dependencies can point at them before the
+// first save; the save keeps client-generated UUIDs.
+const generateId = () => {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
+    return crypto.randomUUID();
+  }
+  return `tmp-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+};
+
 const MilestonesSection: React.FC<MilestonesSectionProps> = ({
   formData,
   setFormData,
   handleGenerateContent,
   isGeneratingMilestones = false,
+  projectId,
 }) => {
   const [dialogOpen, setDialogOpen] = React.useState(false);
   const { toast } = useToast();
 
+  const dependencies = formData.dependencies || [];
+  const scheduleItems = React.useMemo(
+    () => getScheduleItems(formData.milestones),
+    [formData.milestones],
+  );
+  const violations = React.useMemo(
+    () => findDependencyViolations(scheduleItems, dependencies),
+    [scheduleItems, dependencies],
+  );
+  const criticalPath = React.useMemo(
+    () => calculateCriticalPath(scheduleItems, dependencies),
+    [scheduleItems, dependencies],
+  );
+
+  // Warn when a date edit breaks a dependency that held before the edit
+  const warnOnNewViolations = (nextMilestones: any[]) => {
+    if (!dependencies.length) return;
+    const before = new Set(violations.map((v) => dependencyKey(v.dependency)));
+    const introduced = findDependencyViolations(
+      getScheduleItems(nextMilestones),
+      dependencies,
+    ).filter((v) => !before.has(dependencyKey(v.dependency)));
+    if (!introduced.length) return;
+
+    const first = introduced[0];
+    toast({
+      title: "Dependency conflict",
+      description:
+        `"${first.successor.label}" must ${first.constrainedDate} on or after ${first.requiredDate} ` +
+        `(${DEPENDENCY_TYPE_LABELS[first.dependency.dependency_type]} from "${first.predecessor.label}").` +
+        (introduced.length > 1
+          ? ` ${introduced.length - 1} more dependenc${introduced.length === 2 ? "y is" : "ies are"} also broken.`
+          : ""),
+      variant: "destructive",
+    });
+  };
+
   const handleDialogGenerate = (context: string) => {
     setDialogOpen(false);
     handleGenerateContent("milestones", context);
@@ -64,6 +121,7 @@ const MilestonesSection: React.FC<MilestonesSectionProps> = ({
     }
 
     const newMilestone = {
+      id: generateId(),
       date: startDate,
       end_date: endDate,
       milestone: task.description,
@@ -157,9 +215,10 @@ const MilestonesSection: React.FC<MilestonesSectionProps> = ({
       <div className="space-y-4 bg-card/80 backdrop-blur-sm rounded-xl p-4 border-4 border-border shadow-lg">
         {/* Column Headers */}
         <div className="mb-3 pb-2 border-b border-border">
-          <div className="grid grid-cols-[120px_120px_1fr_130px_auto] gap-2">
+          <div className="grid grid-cols-[120px_120px_64px_1fr_130px_auto] gap-2">
             <div className="font-semibold text-sm text-foreground">Start Date</div>
             <div className="font-semibold text-sm text-foreground">End Date</div>
+            <div className="font-semibold text-sm text-foreground">Slip</div>
             <div className="font-semibold text-sm text-foreground">Milestone</div>
             <div className="font-semibold text-sm text-foreground">Owner</div>
             <div className="grid grid-cols-[80px_60px_100px_36px] gap-1">
@@ -188,27 +247,60 @@ const MilestonesSection: React.FC<MilestonesSectionProps> = ({
             </div>
           </div>
         </div>
+        {violations.length > 0 && (
+          <div className="rounded-lg border border-amber-400 bg-amber-50 p-3 text-sm text-amber-900 dark:bg-amber-950/40 dark:text-amber-200">
+            <div className="flex items-center gap-2 font-semibold">
+              <AlertTriangle className="h-4 w-4" />
+              {violations.length} dependenc{violations.length === 1 ? "y is" : "ies are"} not met by the current dates
+            </div>
+            <ul className="mt-1 ml-6 list-disc space-y-0.5">
+              {violations.map((v) => (
+                <li key={dependencyKey(v.dependency)}>
+                  "{v.successor.label}" {v.constrainedDate === "start" ? "starts" : "finishes"} {v.actualDate}, {v.daysEarly} day{v.daysEarly === 1 ? "" : "s"} before{" "}
+                  {v.requiredDate} required by {DEPENDENCY_TYPE_LABELS[v.dependency.dependency_type]} from "{v.predecessor.label}"
+                  {v.dependency.lag_days ? ` + ${v.dependency.lag_days}d lag` : ""}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
         <MilestoneList
           milestones={formData.milestones}
-          onMilestonesChange={(newMilestones) =>
+          onMilestonesChange={(newMilestones) => {
+            warnOnNewViolations(newMilestones);
             setFormData((prev) => ({
               ...prev,
               milestones: newMilestones,
-            }))
-          }
-          onUpdate={(index, values) =>
+            }));
+          }}
+          onUpdate={(index, values) => {
+            warnOnNewViolations(
+              formData.milestones.map((m, i) =>
+                i === index ? { ...m, ...values } : m
+              ),
+            );
             setFormData((prev) => ({
               ...prev,
               milestones: prev.milestones.map((m, i) =>
                 i === index ? { ...m, ...values } : m
               ),
-            }))
-          }
+            }));
+          }}
           onDelete={(index) =>
-            setFormData((prev) => ({
-              ...prev,
-              milestones: prev.milestones.filter((_, i) => i !== index),
-            }))
+            setFormData((prev) => {
+              // Drop links to the removed milestone and its tasks
+              const removed = prev.milestones[index];
+              const removedIds = new Set(
+                [removed?.id, ...(removed?.tasks || []).map((t) => t.id)].filter(Boolean),
+              );
+              return {
+                ...prev,
+                milestones: prev.milestones.filter((_, i) => i !== index),
+                dependencies: (prev.dependencies || []).filter(
+                  (d) => !removedIds.has(d.predecessor_id) && !removedIds.has(d.successor_id),
+                ),
+              };
+            })
           }
           onPromoteTask={handlePromoteTask}
           ProgressPillComponent={MilestoneProgressPill}
@@ -224,6 +316,7 @@ const MilestonesSection: React.FC<MilestonesSectionProps> = ({
               milestones: [
                 ...prev.milestones,
                 {
+                  id: generateId(),
                   date,
                   end_date,
                   milestone: "",
@@ -239,6 +332,36 @@ const MilestonesSection: React.FC<MilestonesSectionProps> = ({
         >
           Add Milestone
         </Button>
+        {projectId && (
+          <div className="mt-4 border-t border-border pt-4">
+            <div className="mb-2 flex items-center gap-1 font-semibold text-sm text-foreground">
+              Dependencies
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Info className="h-3 w-3 text-muted-foreground cursor-help" />
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p className="max-w-xs">
+                    Link milestones and tasks that wait on each other.
+                    Finish-to-Start: the successor starts once the predecessor
+                    finishes. Start-to-Start: it starts once the predecessor
+                    starts. Finish-to-Finish: it finishes once the predecessor
+                    finishes. Lag adds days between the two. Linked items with
+                    no slack form the critical path shown on the timeline.
+                  </p>
+                </TooltipContent>
+              </Tooltip>
+            </div>
+            <ScheduleDependenciesEditor
+              items={scheduleItems}
+              dependencies={dependencies}
+              criticalPath={criticalPath}
+              onChange={(next) =>
+                setFormData((prev) => ({ ...prev, dependencies: next }))
+              }
+            />
+          </div>
+        )}
       </div>
     </TooltipProvider>
   );
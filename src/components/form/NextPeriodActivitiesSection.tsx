@@ -40,7 +40,7 @@ const NextPeriodActivitiesSection: React.FC<
   const handleActivityUpdate = (
     originalIndex: number,
     field: string,
-    value: string | number | any[],
+    value: string | number | null | any[],
   ) => {
     updateItemByField(originalIndex, field as any, value);
   };
@@ -110,7 +110,7 @@ const NextPeriodActivitiesSection: React.FC<
       </div>
       <div className="space-y-4 bg-card/80 backdrop-blur-sm rounded-xl p-4 border-4 border-border shadow-lg">
         {/* Column Headers */}
-        <div className="grid grid-cols-[140px_1fr_80px_150px_auto] gap-2 items-start">
+        <div className="grid grid-cols-[140px_1fr_80px_150px_110px_auto] gap-2 items-start">
           <div className="font-medium text-sm text-primary">Date</div>
           <div className="font-medium text-sm text-primary">Activity</div>
           <div className="font-medium text-sm text-primary flex items-center gap-1 -ml-4">
@@ -146,6 +146,7 @@ const NextPeriodActivitiesSection: React.FC<
             </Tooltip>
           </div>
           <div className="font-medium text-sm text-primary">Assignee</div>
+          <div className="font-medium text-sm text-primary">Allocation</div>
           <div></div>
         </div>
 
@@ -1,4 +1,5 @@
 import React from "react";
+import { Link } from "react-router-dom";
 import { Label } from "@/components/ui/label";
 import { RichTextEditor } from "@/components/ui/rich-text-editor";
 import { Input } from "@/components/ui/input";
@@ -10,6 +11,7 @@ import {
   ChevronDown,
   ChevronRight,
   Loader2,
+  ExternalLink,
 } from "lucide-react";
 import {
   Tooltip,
@@ -17,14 +19,25 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   calculateWeightedCompletion,
   calculateProjectHealthStatusColor,
 } from "@/lib/services/project";
+import { programsService, type Program } from "@/lib/services/programs";
 import { SectionHeader } from "./SectionHeader";
 
 import { AIContextDialog } from "./AIContextDialog";
 
+// Select value standing in for "no program" (Radix Select items can't be empty)
+const NO_PROGRAM = "none";
+
 interface ProjectDetailsSectionProps {
   formData: any;
   setFormData: (updater: (prev: any) => any) => void;
@@ -54,6 +67,12 @@ const ProjectDetailsSection: React.FC<ProjectDetailsSectionProps> = ({
     "description" | "value" | "milestones" | "analysis"
   >("description");
 
+  const [programs, setPrograms] = React.useState<Program[]>([]);
+
+  React.useEffect(() => {
+    programsService.getPrograms().then(setPrograms);
+  }, []);
+
   const handleOpenDialog = (
     type: "description" | "value" | "milestones" | "analysis",
   ) => {
@@ -127,6 +146,48 @@ const ProjectDetailsSection: React.FC<ProjectDetailsSectionProps> = ({
           />
         </div>
 
+        {/* Program */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="program_id" className="text-foreground">
+              Program
+            </Label>
+            {formData.program_id && (
+              <Link
+                to={`/program/${formData.program_id}`}
+                className="flex items-center gap-1 text-xs text-primary hover:underline"
+              >
+                View program
+                <ExternalLink className="h-3 w-3" />
+              </Link>
+            )}
+          </div>
+          <Select
+            value={formData.program_id || NO_PROGRAM}
+            onValueChange={(value) =>
+              setFormData((prev) => ({
+                ...prev,
+                program_id: value === NO_PROGRAM ? null : value,
+              }))
+            }
+          >
+            <SelectTrigger
+              id="program_id"
+              className="bg-card border-border text-foreground"
+            >
+              <SelectValue placeholder="No program" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_PROGRAM}>No program</SelectItem>
+              {programs.map((program) => (
+                <SelectItem key={program.id} value={program.id}>
+                  {program.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
         {/* Description */}
         <div className="space-y-2">
           <div className="flex items-center justify-between">
@@ -1,4 +1,4 @@
-import React, { useEffect, useMemo } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Info, Calendar, Clock, AlertTriangle, Lock, Unlock } from "lucide-react";
@@ -13,6 +13,11 @@ import {
   calculateTimeRemainingPercentage,
   getTimeRemainingDescription,
 } from "@/lib/services/project";
+import {
+  countWorkingDays,
+  holidayCalendarService,
+  type HolidayDates,
+} from "@/lib/services/holidayCalendar";
 import { SectionHeader } from "./SectionHeader";
 
 interface ProjectDurationSectionProps {
@@ -24,6 +29,14 @@ const ProjectDurationSection: React.FC<ProjectDurationSectionProps> = ({
   formData,
   setFormData,
 }) => {
+  // Holidays for the project's department, used by the working-days fallback below
+  const [holidays, setHolidays] = useState<HolidayDates>(new Set());
+  useEffect(() => {
+    holidayCalendarService
+      .getHolidayDatesForDepartment(formData.department)
+      .then(setHolidays);
+  }, [formData.department]);
+
   // Calculate auto-populated dates from milestones
   // Start date = earliest milestone date
   // End date = latest milestone end_date (or date if no end_date)
@@ -262,7 +275,7 @@ const ProjectDurationSection: React.FC<ProjectDurationSectionProps> = ({
               <div>
                 <span className="text-muted-foreground">Working Days (Total):</span>
                 <span className="ml-2 font-medium text-foreground">
-                  {formData.working_days || calculateWorkingDays(formData.start_date, formData.end_date)} days
+                  {formData.working_days || calculateWorkingDays(formData.start_date, formData.end_date, holidays)} days
                 </span>
               </div>
               <div>
@@ -307,23 +320,13 @@ function calculateTotalDays(startDate: string, endDate: string): number {
   return diffDays;
 }
 
-// Helper function to calculate working days (excluding weekends)
-function calculateWorkingDays(startDate: string, endDate: string): number {
-  const start = new Date(startDate);
-  const end = new Date(endDate);
-  let workingDays = 0;
-  
-  const currentDate = new Date(start);
-  while (currentDate <= end) {
-    const dayOfWeek = currentDate.getDay();
-    // 0 = Sunday, 6 = Saturday
-    if (dayOfWeek !== 0 && dayOfWeek !== 6) {
-      workingDays++;
-    }
-    currentDate.setDate(currentDate.getDate() + 1);
-  }
-  
-  return workingDays;
+// Helper function to calculate working days (excluding weekends and holidays)
+function calculateWorkingDays(
+  startDate: string,
+  endDate: string,
+  holidays: HolidayDates,
+): number {
+  return countWorkingDays(new Date(startDate), new Date(endDate), holidays);
 }
 
 export default ProjectDurationSection;
\ No newline at end of file
@@ -1,25 +1,42 @@
 import React from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Info, Trash2 } from "lucide-react";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
 import {
-  Tooltip,
-  TooltipContent,
-  TooltipTrigger,
-} from "@/components/ui/tooltip";
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { TooltipProvider } from "@/components/ui/tooltip";
+import UserSelectionInput from "@/components/ui/user-selection-input";
 import { SectionHeader } from "@/components/form/SectionHeader";
 import { ListItemRow } from "@/components/form/ListItemRow";
-
-// Force re-parse
+import {
+  RISK_EXPOSURE_CLASSES,
+  RISK_EXPOSURE_LABELS,
+  RISK_IMPACT_LABELS,
+  RISK_PROBABILITY_LABELS,
+  RISK_STATUSES,
+  RISK_STATUS_LABELS,
+  calculateRiskExposure,
+  getRiskExposureLevel,
+} from "@/lib/services/riskRegister";
 
 interface RisksSectionProps {
   formData: any;
   setFormData: (updater: (prev: any) => any) => void;
 }
 
+const SCORES = [1, 2, 3, 4, 5];
+const UNSCORED = "unscored";
+const NO_CHANGE = "none";
+
 const RisksSection: React.FC<RisksSectionProps> = ({ formData, setFormData }) => {
-  const handleRiskUpdate = (index: number, field: string, value: string) => {
+  const handleRiskUpdate = (index: number, field: string, value: any) => {
     setFormData((prev) => ({
       ...prev,
       risks: prev.risks.map((r, i) =>
@@ -33,6 +50,29 @@ const RisksSection: React.FC<RisksSectionProps> = ({ formData, setFormData }) =>
     }));
   };
 
+  // The picker reports the directory id of the chosen owner; a name kept as
+  // it was keeps its link, anything else without an id is unlinked
+  const handleOwnerChange = (
+    index: number,
+    owner: string,
+    directoryUserIds?: Array<string | null>,
+  ) => {
+    setFormData((prev) => ({
+      ...prev,
+      risks: prev.risks.map((r, i) =>
+        i === index
+          ? {
+              ...r,
+              owner,
+              owner_id:
+                directoryUserIds?.[0] ??
+                (owner && owner === r.owner ? r.owner_id || null : null),
+            }
+          : r,
+      ),
+    }));
+  };
+
   const handleRiskDelete = (index: number) => {
     setFormData((prev) => ({
       ...prev,
@@ -43,15 +83,60 @@ const RisksSection: React.FC<RisksSectionProps> = ({ formData, setFormData }) =>
   const handleAddRisk = () => {
     setFormData((prev) => ({
       ...prev,
-      risks: [...prev.risks, { description: "", impact: "" }],
+      risks: [
+        ...prev.risks,
+        {
+          description: "",
+          impact: "",
+          probability: null,
+          impact_score: null,
+          owner: "",
+          owner_id: null,
+          mitigation_plan: "",
+          trigger_date: null,
+          status: "open",
+          realized_change_id: null,
+        },
+      ],
     }));
   };
 
+  // New changes get an id when added; the save links a risk to one saved alongside it
+  const linkableChanges = (formData.changes || []).filter(
+    (c: any) => c.id && (c.change || "").trim() !== "",
+  );
+
+  const renderScoreSelect = (
+    index: number,
+    field: "probability" | "impact_score",
+    value: number | null,
+    labels: Record<number, string>,
+  ) => (
+    <Select
+      value={value ? String(value) : UNSCORED}
+      onValueChange={(v) =>
+        handleRiskUpdate(index, field, v === UNSCORED ? null : Number(v))
+      }
+    >
+      <SelectTrigger className="bg-card border-border text-foreground">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={UNSCORED}>Not scored</SelectItem>
+        {SCORES.map((score) => (
+          <SelectItem key={score} value={String(score)}>
+            {score} – {labels[score]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
   return (
     <TooltipProvider>
       <SectionHeader
         title="Risks"
-        tooltip="Identify and track potential risks to the project, including their impact level and mitigation strategies."
+        tooltip="Track project risks as a register: score probability and impact (1–5) to get an exposure, assign an owner, plan mitigation and follow each risk until it is closed or realized."
       />
       <div className="space-y-4 bg-card/80 backdrop-blur-sm rounded-xl p-4 border-4 border-border shadow-lg">
         {/* Column Headers */}
@@ -62,16 +147,169 @@ const RisksSection: React.FC<RisksSectionProps> = ({ formData, setFormData }) =>
         </div>
 
         {/* Risk Rows */}
-        {formData.risks.map((item, index) => (
-          <ListItemRow
-            key={index}
-            item={item}
-            index={index}
-            onUpdate={(field, value) => handleRiskUpdate(index, field, value)}
-            onDelete={() => handleRiskDelete(index)}
-            showImpact={true}
-          />
-        ))}
+        {formData.risks.map((item, index) => {
+          const exposure = calculateRiskExposure(
+            item.probability,
+            item.impact_score,
+          );
+          const level = getRiskExposureLevel(exposure);
+
+          return (
+            <div
+              key={index}
+              className="space-y-2 rounded-lg border border-border p-3"
+            >
+              <ListItemRow
+                item={item}
+                index={index}
+                onUpdate={(field, value) => handleRiskUpdate(index, field, value)}
+                onDelete={() => handleRiskDelete(index)}
+                showImpact={true}
+              />
+
+              <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto_1fr] gap-2 items-end">
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">
+                    Probability
+                  </Label>
+                  {renderScoreSelect(
+                    index,
+                    "probability",
+                    item.probability,
+                    RISK_PROBABILITY_LABELS,
+                  )}
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">
+                    Impact Score
+                  </Label>
+                  {renderScoreSelect(
+                    index,
+                    "impact_score",
+                    item.impact_score,
+                    RISK_IMPACT_LABELS,
+                  )}
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">
+                    Exposure
+                  </Label>
+                  <div className="h-9 flex items-center">
+                    {level ? (
+                      <Badge
+                        variant="outline"
+                        className={RISK_EXPOSURE_CLASSES[level]}
+                      >
+                        {exposure} · {RISK_EXPOSURE_LABELS[level]}
+                      </Badge>
+                    ) : (
+                      <span className="text-xs text-muted-foreground">—</span>
+                    )}
+                  </div>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Owner</Label>
+                  <UserSelectionInput
+                    value={item.owner || ""}
+                    onChange={(value, directoryUserIds) =>
+                      handleOwnerChange(index, value, directoryUserIds)
+                    }
+                    placeholder="Click to select owner..."
+                    multiSelect={false}
+                    className="bg-card/50 backdrop-blur-sm border-border"
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_2fr] gap-2 items-end">
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Status</Label>
+                  <Select
+                    value={item.status || "open"}
+                    onValueChange={(value) => {
+                      handleRiskUpdate(index, "status", value);
+                      if (value !== "realized") {
+                        handleRiskUpdate(index, "realized_change_id", null);
+                      }
+                    }}
+                  >
+                    <SelectTrigger className="bg-card border-border text-foreground">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {RISK_STATUSES.map((status) => (
+                        <SelectItem key={status} value={status}>
+                          {RISK_STATUS_LABELS[status]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">
+                    Trigger Date
+                  </Label>
+                  <Input
+                    type="date"
+                    value={item.trigger_date || ""}
+                    onChange={(e) =>
+                      handleRiskUpdate(
+                        index,
+                        "trigger_date",
+                        e.target.value || null,
+                      )
+                    }
+                    className="bg-card/50 backdrop-blur-sm border-border"
+                  />
+                </div>
+                {item.status === "realized" && (
+                  <div className="space-y-1">
+                    <Label className="text-xs text-muted-foreground">
+                      Realized By Change
+                    </Label>
+                    <Select
+                      value={item.realized_change_id || NO_CHANGE}
+                      onValueChange={(value) =>
+                        handleRiskUpdate(
+                          index,
+                          "realized_change_id",
+                          value === NO_CHANGE ? null : value,
+                        )
+                      }
+                    >
+                      <SelectTrigger className="bg-card border-border text-foreground">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_CHANGE}>No linked change</SelectItem>
+                        {linkableChanges.map((change: any) => (
+                          <SelectItem key={change.id} value={change.id}>
+                            {change.change}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">
+                  Mitigation Plan
+                </Label>
+                <Textarea
+                  value={item.mitigation_plan || ""}
+                  onChange={(e) =>
+                    handleRiskUpdate(index, "mitigation_plan", e.target.value)
+                  }
+                  placeholder="How will this risk be reduced or avoided?"
+                  rows={2}
+                  className="bg-card/50 backdrop-blur-sm border-border"
+                />
+              </div>
+            </div>
+          );
+        })}
 
         <Button
           type="button"
@@ -86,4 +324,4 @@ const RisksSection: React.FC<RisksSectionProps> = ({ formData, setFormData }) =>
   );
 };
 
-export default RisksSection;
\ No newline at end of file
+export default RisksSection;
@@ -0,0 +1,228 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Trash2 } from "lucide-react";
+import { useToast } from "@/components/ui/use-toast";
+import {
+  DEPENDENCY_TYPES,
+  DEPENDENCY_TYPE_LABELS,
+  dependencyKey,
+  wouldCreateCycle,
+  type CriticalPathResult,
+  type ScheduleDependency,
+  type ScheduleItem,
+} from "@/lib/services/scheduleDependencies";
+
+interface ScheduleDependenciesEditorProps {
+  items: ScheduleItem[];
+  dependencies: ScheduleDependency[];
+  criticalPath: CriticalPathResult;
+  onChange: (dependencies: ScheduleDependency[]) => void;
+}
+
+const UNSET = "unset";
+
+const itemLabel = (item: ScheduleItem) =>
+  item.type === "task" ? `↳ ${item.label}` : item.label;
+
+const ScheduleDependenciesEditor: React.FC<ScheduleDependenciesEditorProps> = ({
+  items,
+  dependencies,
+  criticalPath,
+  onChange,
+}) => {
+  const { toast } = useToast();
+  const byId = new Map(items.map((item) => [item.id, item]));
+
+  const handleUpdate = (index: number, values: Partial<ScheduleDependency>) => {
+    const updated = { ...dependencies[index], ...values };
+    const others = dependencies.filter((_, i) => i !== index);
+
+    if (updated.predecessor_id && updated.successor_id) {
+      if (others.some((d) => dependencyKey(d) === dependencyKey(updated))) {
+        toast({
+          title: "Dependency already exists",
+          description: "These two items are already linked.",
+          variant: "destructive",
+        });
+        return;
+      }
+      if (wouldCreateCycle(others, updated)) {
+        toast({
+          title: "Circular dependency",
+          description:
+            "This link would make an item depend on itself through other dependencies.",
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+
+    onChange(dependencies.map((d, i) => (i === index ? updated : d)));
+  };
+
+  const handleSelectItem = (
+    index: number,
+    side: "predecessor" | "successor",
+    id: string,
+  ) => {
+    const item = byId.get(id);
+    handleUpdate(index, {
+      [`${side}_id`]: item ? item.id : "",
+      [`${side}_type`]: item ? item.type : "milestone",
+    } as Partial<ScheduleDependency>);
+  };
+
+  const handleAdd = () => {
+    onChange([
+      ...dependencies,
+      {
+        predecessor_type: "milestone",
+        predecessor_id: "",
+        successor_type: "milestone",
+        successor_id: "",
+        dependency_type: "FS",
+        lag_days: 0,
+      },
+    ]);
+  };
+
+  const renderItemSelect = (
+    index: number,
+    side: "predecessor" | "successor",
+    value: string,
+    excludeId: string,
+  ) => (
+    <Select
+      value={value && byId.has(value) ? value : UNSET}
+      onValueChange={(v) => handleSelectItem(index, side, v === UNSET ? "" : v)}
+    >
+      <SelectTrigger className="bg-card border-border text-foreground">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={UNSET}>
+          Select {side === "predecessor" ? "predecessor" : "successor"}...
+        </SelectItem>
+        {items
+          .filter((item) => item.id !== excludeId)
+          .map((item) => (
+            <SelectItem key={item.id} value={item.id}>
+              {itemLabel(item)}
+            </SelectItem>
+          ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const criticalLabels = criticalPath.criticalIds
+    .map((id) => byId.get(id)?.label)
+    .filter(Boolean);
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-[1fr_170px_90px_1fr_36px] gap-2">
+        <div className="font-semibold text-sm text-foreground">Predecessor</div>
+        <div className="font-semibold text-sm text-foreground">Type</div>
+        <div className="font-semibold text-sm text-foreground">Lag (days)</div>
+        <div className="font-semibold text-sm text-foreground">Successor</div>
+        <div></div>
+      </div>
+
+      {dependencies.map((dependency, index) => {
+        const isCritical = criticalPath.criticalDependencyKeys.includes(
+          dependencyKey(dependency),
+        );
+        return (
+          <div
+            key={dependency.id || index}
+            className={`grid grid-cols-[1fr_170px_90px_1fr_36px] gap-2 items-center rounded-md ${
+              isCritical ? "ring-1 ring-red-400/60" : ""
+            }`}
+          >
+            {renderItemSelect(
+              index,
+              "predecessor",
+              dependency.predecessor_id,
+              dependency.successor_id,
+            )}
+            <Select
+              value={dependency.dependency_type}
+              onValueChange={(v) =>
+                handleUpdate(index, {
+                  dependency_type: v as ScheduleDependency["dependency_type"],
+                })
+              }
+            >
+              <SelectTrigger className="bg-card border-border text-foreground">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DEPENDENCY_TYPES.map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {type} – {DEPENDENCY_TYPE_LABELS[type]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              value={dependency.lag_days}
+              onChange={(e) =>
+                handleUpdate(index, {
+                  lag_days: Math.round(Number(e.target.value) || 0),
+                })
+              }
+              className="bg-card/50 backdrop-blur-sm border-border"
+            />
+            {renderItemSelect(
+              index,
+              "successor",
+              dependency.successor_id,
+              dependency.predecessor_id,
+            )}
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => onChange(dependencies.filter((_, i) => i !== index))}
+              title="Remove dependency"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        );
+      })}
+
+      <div className="flex flex-wrap items-center justify-between gap-2 pt-1">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={handleAdd}
+          disabled={items.length < 2}
+          className="bg-card/50 backdrop-blur-sm border-border"
+        >
+          Add Dependency
+        </Button>
+        {dependencies.length > 0 && criticalLabels.length > 0 && (
+          <div className="flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+            <Badge variant="outline" className="border-red-400 text-red-700">
+              Critical path
+            </Badge>
+            {criticalLabels.join(" → ")}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ScheduleDependenciesEditor;
@@ -2,7 +2,10 @@ import { useState, useEffect, useCallback, useRef } from "react";
 import { useNavigate } from "react-router-dom";
 import { useToast, toastStyles } from "@/components/ui/use-toast";
 import { aiService } from "@/lib/services/aiService";
-import { projectService } from "@/lib/services/project";
+import {
+  projectService,
+  ProjectSaveConflictError,
+} from "@/lib/services/project";
 import { ensureConsiderationsAreStrings } from "./FormUtils";
 import {
   detectNewlyCompletedItems,
@@ -12,6 +15,14 @@ import {
   type AccomplishmentItem,
   type CompletedItem,
 } from "@/lib/services/accomplishmentAutoService";
+import {
+  applyProjectMerge,
+  buildProjectMerge,
+  projectToFormFields,
+  type MergeChoice,
+  type ProjectMerge,
+} from "@/lib/utils/projectMerge";
+import { validateHealthOverride } from "@/lib/services/healthOverrides";
 
 const defaultFormData = {
   projectId: "",
@@ -26,6 +37,8 @@ const defaultFormData = {
   health_calculation_type: "automatic" as const,
   manual_health_percentage: 0,
   manual_status_color: "green" as "green" | "yellow" | "red",
+  manual_status_reason: "",
+  manual_status_expires_at: "",
   // truncateActivities removed - now using localStorage
   budget: {
     total: "",
@@ -37,12 +50,16 @@ const defaultFormData = {
   businessLeads: "",
   projectManager: "",
   department: "",
+  program_id: null as string | null,
   milestones: [],
   accomplishments: [],
   nextPeriodActivities: [],
   risks: [],
   considerations: [],
   changes: [],
+  decisions: [],
+  issues: [],
+  dependencies: [],
 };
 
 export const useProjectForm = (
@@ -112,6 +129,13 @@ export const useProjectForm = (
   // Flag to trigger save after user responds to the project complete dialog
   const [projectCompleteSaveNeeded, setProjectCompleteSaveNeeded] = useState(false);
 
+  // Save conflict (someone else saved since the form was loaded) state
+  const [showMergeDialog, setShowMergeDialog] = useState(false);
+  const [pendingMerge, setPendingMerge] = useState<ProjectMerge | null>(null);
+  const [mergeRevision, setMergeRevision] = useState<number | null>(null);
+  // Flag to trigger a save after the user has resolved a merge
+  const [mergeSaveNeeded, setMergeSaveNeeded] = useState(false);
+
   const [pendingGenerationType, setPendingGenerationType] = useState<
     "description" | "value" | null
   >(null);
@@ -372,6 +396,14 @@ export const useProjectForm = (
     }
   }, [projectCompleteSaveNeeded]);
 
+  // Deferred save after a merge, so handleSubmitInternal sees the merged formData
+  useEffect(() => {
+    if (mergeSaveNeeded) {
+      setMergeSaveNeeded(false);
+      handleSubmitInternal(null);
+    }
+  }, [mergeSaveNeeded]);
+
   const handleSubmitInternal = async (e: React.FormEvent | null) => {
     // If the form is being submitted manually (not automatically), prevent the default behavior
     // to avoid page refresh, but still process the submission
@@ -385,6 +417,17 @@ export const useProjectForm = (
       }
     }
 
+    // A manual health status must be justified and expire
+    const overrideErrors = validateHealthOverride(formData);
+    if (overrideErrors.length > 0) {
+      toast({
+        title: "Manual Health Incomplete",
+        description: overrideErrors.join(". "),
+        variant: "destructive",
+      });
+      return false;
+    }
+
     // Ensure the form has the data-adding-milestones attribute set if we're adding milestones
     const formElement = document.querySelector("form");
     if (formElement && isAddingMilestones) {
@@ -411,6 +454,9 @@ export const useProjectForm = (
           completion: milestone.completion || 0,
           status: milestone.status || "green",
           weight: milestone.weight || 3, // Ensure weight is included
+          planned_date: milestone.planned_date,
+          forecast_date: milestone.forecast_date,
+          forecast_reason: milestone.forecast_reason,
           tasks: milestone.tasks || [],
           // Preserve other fields that might be present
           created_at: milestone.created_at,
@@ -486,6 +532,37 @@ export const useProjectForm = (
         });
       }
     } catch (error) {
+      if (error instanceof ProjectSaveConflictError) {
+        // Someone else saved since the form was loaded: offer a merge instead of
+        // overwriting their changes.
+        const formEl = document.querySelector("form");
+        if (formEl) {
+          formEl.setAttribute("data-auto-saving", "false");
+        }
+        setIsAutoSaving(false);
+
+        if (error.latest) {
+          setPendingMerge(
+            buildProjectMerge(
+              initialData,
+              submissionData,
+              projectToFormFields(error.latest),
+            ),
+          );
+          setMergeRevision(error.latest.revision ?? null);
+          setShowMergeDialog(true);
+        } else {
+          toast({
+            title: "Save Conflict",
+            description:
+              "This project was changed by someone else. Reload the page to see the latest version.",
+            variant: "destructive",
+            duration: 10000,
+          });
+        }
+        return false;
+      }
+
       console.error("[PROJECT_ID] Exception during form save:", error);
 
       // Reset auto-saving attribute in case of error
@@ -548,8 +625,8 @@ export const useProjectForm = (
     );
 
     // 3. Auto-remove accomplishments for un-completed items (silent, no dialog)
-    // We use multiple matching strategies because task/milestone IDs can change
-    // across saves (delete + re-insert pattern), so source_id alone may not match.
+    // We use multiple matching strategies because accomplishments saved before
+    // saves became id-stable may still carry stale task/milestone source_ids.
     let hasAutoRemovals = false;
     if (uncompletedItems.length > 0) {
       // Build sets for fast lookup across multiple matching strategies
@@ -582,7 +659,7 @@ export const useProjectForm = (
         }
 
         // Strategy 3: Match by description content
-        // (handles case where IDs changed due to delete+re-insert during save)
+        // (handles legacy accomplishments whose source_id no longer matches)
         if (!matched) {
           for (const dm of descriptionMatchers) {
             if (dm.type === "task" && a.source_type === "task") {
@@ -717,6 +794,33 @@ export const useProjectForm = (
     }
   };
 
+  /**
+   * Called when the user resolves a save conflict. Applies the per-field
+   * choices on top of their edits, rebases onto the latest revision and saves.
+   */
+  const handleMergeConfirm = (choices: Record<string, MergeChoice>) => {
+    if (!pendingMerge) return;
+
+    const merged = applyProjectMerge(pendingMerge, choices);
+    setShowMergeDialog(false);
+    setPendingMerge(null);
+    setFormData((prev: any) => ({
+      ...prev,
+      ...merged,
+      revision: mergeRevision,
+    }));
+    setMergeSaveNeeded(true);
+  };
+
+  /**
+   * Called when the user dismisses the merge dialog. Their edits stay in the
+   * form; the next save will detect the conflict again.
+   */
+  const handleMergeCancel = () => {
+    setShowMergeDialog(false);
+    setPendingMerge(null);
+  };
+
   /**
    * Called when the user cancels the auto-copy dialog.
    * Proceeds with save without adding accomplishments.
@@ -1079,8 +1183,9 @@ export const useProjectForm = (
 
         // Show success toast
         toast({
-          title: "Project Deleted",
-          description: "The project has been successfully deleted.",
+          title: "Project Moved to Trash",
+          description:
+            "The project can be restored from the trash until it is purged.",
           className: toastStyles.success,
           duration: 3000,
         });
@@ -1290,6 +1395,13 @@ export const useProjectForm = (
     handleProjectCompleteConfirm,
     handleProjectCompleteCancel,
 
+    // Save conflict merge
+    showMergeDialog,
+    setShowMergeDialog,
+    pendingMerge,
+    handleMergeConfirm,
+    handleMergeCancel,
+
     handleToggleAnalysis,
     handleUserInteraction,
     generateContent,
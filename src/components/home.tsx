@@ -33,7 +33,7 @@ import { useToast } from "@/components/ui/use-toast";
 import { Toaster } from "@/components/ui/toaster";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { FileSpreadsheet, X, Check, BarChart3, Download, Search } from "lucide-react";
+import { FileSpreadsheet, X, Check, BarChart3, Download, Search, Layers, LayoutTemplate, Trash2, ClipboardCheck, Users } from "lucide-react";
 import ProfileSetupDialog from "./auth/ProfileSetupDialog";
 import { supabase } from "@/lib/supabase";
 import {
@@ -66,9 +66,27 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { MoreVertical, Plus, Calendar } from "lucide-react";
 import { exportProjectsToExcel } from "@/lib/services/excelExport";
+import { toRiskRegisterFields } from "@/lib/services/riskRegister";
+import {
+  STAKEHOLDER_ROLES,
+  isProjectStakeholder,
+  stakeholderService,
+  type StakeholderRole,
+} from "@/lib/services/stakeholders";
 import { Breadcrumb } from "@/components/ui/breadcrumb";
 
 // Helper functions for localStorage persistence
+// "My projects" filter options and the stakeholder roles each one matches
+const INVOLVEMENT_FILTERS: Array<{ value: string; label: string; roles: StakeholderRole[] }> = [
+  { value: "all", label: "All Projects", roles: [] },
+  { value: "involved", label: "Projects I'm On", roles: STAKEHOLDER_ROLES },
+  { value: "sponsor", label: "Projects I Sponsor", roles: ["sponsor"] },
+  { value: "lead", label: "Projects I Lead", roles: ["business_lead", "project_manager"] },
+];
+
+const getInvolvementRoles = (value: string): StakeholderRole[] =>
+  INVOLVEMENT_FILTERS.find((f) => f.value === value)?.roles ?? [];
+
 const getStorageKey = (userId: string, filterType: string) =>
   `projectFilters_${userId}_${filterType}`;
 
@@ -109,7 +127,7 @@ const Home: React.FC<HomeProps> = ({ mode: propMode }) => {
   const navigate = useNavigate();
   const location = useLocation();
   const { toast } = useToast();
-  const { user, loading, profile, isDirector } = useAuth();
+  const { user, loading, profile, isDirector, isAdmin } = useAuth();
 
   // Determine mode from props (for URL-based routing) or default to list
   const [mode, setMode] = useState<"list" | "form" | "preview" | "overview">(
@@ -131,6 +149,7 @@ const Home: React.FC<HomeProps> = ({ mode: propMode }) => {
   const [selectedDepartment, setSelectedDepartment] = useState<string>("all");
   const [selectedStatusHealths, setSelectedStatusHealths] = useState<string[]>([]);
   const [searchQuery, setSearchQuery] = useState("");
+  const [selectedInvolvement, setSelectedInvolvement] = useState<string>("all");
   const [managerPopoverOpen, setManagerPopoverOpen] = useState(false);
   const [statusPopoverOpen, setStatusPopoverOpen] = useState(false);
   const [statusHealthPopoverOpen, setStatusHealthPopoverOpen] = useState(false);
@@ -163,9 +182,11 @@ const Home: React.FC<HomeProps> = ({ mode: propMode }) => {
     setSelectedDepartment("all");
     setSelectedStatusHealths([]);
     setSearchQuery("");
+    setSelectedInvolvement("all");
 
     // Save cleared filters to localStorage
     if (userId) {
+      saveFilterToStorage(userId, "involvement", "all");
       saveFilterToStorage(userId, "managers", []);
       saveFilterToStorage(userId, "statuses", []);
       saveFilterToStorage(userId, "department", "all");
@@ -194,12 +215,14 @@ const Home: React.FC<HomeProps> = ({ mode: propMode }) => {
         [],
       );
       const savedSearchQuery = loadFilterFromStorage(userId, "searchQuery", "");
+      const savedInvolvement = loadFilterFromStorage(userId, "involvement", "all");
 
       setSelectedManagers(savedManagers);
       setSelectedStatuses(Array.isArray(savedStatuses) ? savedStatuses : savedStatuses !== "all" ? [savedStatuses] : []);
       setSelectedDepartment(savedDepartment);
       setSelectedStatusHealths(Array.isArray(savedStatusHealths) ? savedStatusHealths : savedStatusHealths !== "all" ? [savedStatusHealths] : []);
       setSearchQuery(savedSearchQuery);
+      setSelectedInvolvement(savedInvolvement);
       setFiltersLoaded(true);
     }
   }, [userId, filtersLoaded]);
@@ -430,6 +453,32 @@ const Home: React.FC<HomeProps> = ({ mode: propMode }) => {
                     </div>
                   </div>
 
+                  <div className="flex flex-col">
+                    <label className="text-sm font-medium text-muted-foreground mb-2">
+                      My Involvement
+                    </label>
+                    <Select
+                      value={selectedInvolvement}
+                      onValueChange={(value) => {
+                        setSelectedInvolvement(value);
+                        if (user?.id) {
+                          saveFilterToStorage(user.id, "involvement", value);
+                        }
+                      }}
+                    >
+                      <SelectTrigger className="w-[200px] text-foreground border-border bg-card/50 hover:bg-card">
+                        <SelectValue className="text-foreground" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {INVOLVEMENT_FILTERS.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
                   <div className="flex flex-col">
                     <label className="text-sm font-medium text-muted-foreground mb-2">
                       Filter by Department
@@ -892,6 +941,16 @@ const Home: React.FC<HomeProps> = ({ mode: propMode }) => {
                                   (p) => selectedStatuses.includes(p.status),
                                 );
                               }
+                              const involvementRoles = getInvolvementRoles(selectedInvolvement);
+                              if (involvementRoles.length > 0) {
+                                const identity = await stakeholderService.getIdentity(
+                                  profile?.email || user?.email,
+                                  profile?.full_name,
+                                );
+                                filteredProjects = filteredProjects.filter((p) =>
+                                  isProjectStakeholder(p, identity, involvementRoles),
+                                );
+                              }
                               if (selectedStatusHealths.length > 0) {
                                 filteredProjects = filteredProjects.filter(
                                   (p) => {
@@ -951,6 +1010,13 @@ const Home: React.FC<HomeProps> = ({ mode: propMode }) => {
                           <BarChart3 className="h-4 w-4" />
                           KPIs Dashboard
                         </DropdownMenuItem>
+                        <DropdownMenuItem
+                          onClick={() => navigate("/resources")}
+                          className="flex items-center gap-2 cursor-pointer"
+                        >
+                          <Users className="h-4 w-4" />
+                          Resource Allocation
+                        </DropdownMenuItem>
                         <DropdownMenuItem
                           onClick={() => navigate("/projects-timeline")}
                           className="flex items-center gap-2 cursor-pointer"
@@ -965,6 +1031,36 @@ const Home: React.FC<HomeProps> = ({ mode: propMode }) => {
                           <Calendar className="h-4 w-4" />
                           Roadmap
                         </DropdownMenuItem>
+                        <DropdownMenuItem
+                          onClick={() => navigate("/programs")}
+                          className="flex items-center gap-2 cursor-pointer"
+                        >
+                          <Layers className="h-4 w-4" />
+                          Programs
+                        </DropdownMenuItem>
+                        <DropdownMenuItem
+                          onClick={() => navigate("/templates")}
+                          className="flex items-center gap-2 cursor-pointer"
+                        >
+                          <LayoutTemplate className="h-4 w-4" />
+                          Project Templates
+                        </DropdownMenuItem>
+                        <DropdownMenuItem
+                          onClick={() => navigate("/trash")}
+                          className="flex items-center gap-2 cursor-pointer"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                          Trash
+                        </DropdownMenuItem>
+                        {(isDirector || isAdmin) && (
+                          <DropdownMenuItem
+                            onClick={() => navigate("/reviews")}
+                            className="flex items-center gap-2 cursor-pointer"
+                          >
+                            <ClipboardCheck className="h-4 w-4" />
+                            Status Reviews
+                          </DropdownMenuItem>
+                        )}
                       </DropdownMenuContent>
                     </DropdownMenu>
                   </div>
@@ -979,6 +1075,7 @@ const Home: React.FC<HomeProps> = ({ mode: propMode }) => {
                 filterDepartmentNames={filterDepartmentNames}
                 filterStatusHealth={selectedStatusHealths}
                 filterSearch={searchQuery}
+                filterMyRoles={getInvolvementRoles(selectedInvolvement)}
                 onFilteredCountChange={setFilteredProjectCount}
                 onTotalCountChange={setTotalProjectCount}
                 totalProjectCount={totalProjectCount}
@@ -992,13 +1089,23 @@ const Home: React.FC<HomeProps> = ({ mode: propMode }) => {
                 <h2 className="text-2xl font-semibold text-foreground">
                   Create New Project
                 </h2>
-                <Button
-                  variant="outline"
-                  onClick={() => navigate("/")}
-                  className="text-foreground border-border hover:bg-card"
-                >
-                  Cancel
-                </Button>
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="outline"
+                    onClick={() => navigate("/templates")}
+                    className="text-foreground border-border hover:bg-card"
+                  >
+                    <LayoutTemplate className="h-4 w-4 mr-2" />
+                    Start from Template
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => navigate("/")}
+                    className="text-foreground border-border hover:bg-card"
+                  >
+                    Cancel
+                  </Button>
+                </div>
               </div>
               <ProjectForm
                 initialData={null}
@@ -1039,6 +1146,15 @@ const Home: React.FC<HomeProps> = ({ mode: propMode }) => {
                         data.health_calculation_type === "manual"
                           ? data.manual_health_percentage
                           : null,
+                      manual_status_color: data.manual_status_color || "green",
+                      manual_status_reason:
+                        data.health_calculation_type === "manual"
+                          ? data.manual_status_reason
+                          : null,
+                      manual_status_expires_at:
+                        data.health_calculation_type === "manual"
+                          ? data.manual_status_expires_at
+                          : null,
                       budget_total: parseFloat(
                         data.budget.total.replace(/,/g, "") || "0",
                       ),
@@ -1054,6 +1170,7 @@ const Home: React.FC<HomeProps> = ({ mode: propMode }) => {
                       project_manager:
                         data.projectManager || profile?.full_name || "",
                       department: data.department || profile?.department, // Use selected department or user's department
+                      program_id: data.program_id || null,
                       milestones: data.milestones.filter(
                         (m) => m.milestone.trim() !== "",
                       ),
@@ -1081,6 +1198,7 @@ const Home: React.FC<HomeProps> = ({ mode: propMode }) => {
                             : {
                                 description: r.description || "",
                                 impact: r.impact || "",
+                                ...toRiskRegisterFields(r),
                               },
                         ),
                       considerations: data.considerations.filter(
@@ -1092,7 +1210,16 @@ const Home: React.FC<HomeProps> = ({ mode: propMode }) => {
                           change: c.change,
                           impact: c.impact,
                           disposition: c.disposition,
+                          requested_by: c.requested_by,
+                          budget_delta: c.budget_delta,
+                          schedule_delta_days: c.schedule_delta_days,
                         })),
+                      decisions: (data.decisions || []).filter(
+                        (d) => (d.decision || "").trim() !== "",
+                      ),
+                      issues: (data.issues || []).filter(
+                        (i) => (i.description || "").trim() !== "",
+                      ),
                     };
 
                     const project =
@@ -0,0 +1,135 @@
+import React, { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
+import { programsService, type Program } from "@/lib/services/programs";
+
+interface ProgramDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  program?: Program | null; // edit when set, create otherwise
+  onSaved: (program: Program) => void;
+}
+
+const ProgramDialog: React.FC<ProgramDialogProps> = ({
+  isOpen,
+  onClose,
+  program,
+  onSaved,
+}) => {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [programManager, setProgramManager] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setName(program?.name || "");
+      setDescription(program?.description || "");
+      setProgramManager(program?.program_manager || "");
+    }
+  }, [isOpen, program]);
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast({
+        title: "Error",
+        description: "Program name is required",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    const fields = {
+      name,
+      description: description.trim() || null,
+      program_manager: programManager.trim(),
+    };
+    const saved = program
+      ? await programsService.updateProgram(program.id, fields)
+      : await programsService.createProgram(fields);
+    setSaving(false);
+
+    if (!saved) {
+      toast({
+        title: "Error",
+        description: "Failed to save program. Program names must be unique.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Success",
+      description: program ? "Program updated" : `${saved.name} created`,
+    });
+    onSaved(saved);
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>{program ? "Edit Program" : "New Program"}</DialogTitle>
+          <DialogDescription>
+            Programs group related projects. Completion, budget and health are rolled up
+            from the projects assigned to the program.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="space-y-1.5">
+            <Label htmlFor="program-name">Name *</Label>
+            <Input
+              id="program-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. ERP Modernization"
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="program-manager">Program Manager</Label>
+            <Input
+              id="program-manager"
+              value={programManager}
+              onChange={(e) => setProgramManager(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="program-description">Description</Label>
+            <Textarea
+              id="program-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={3}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {program ? "Save" : "Create Program"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ProgramDialog;
@@ -0,0 +1,190 @@
+import React, { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
+import { projectService, type ProjectWithRelations } from "@/lib/services/project";
+import {
+  ALL_CLONE_SECTIONS,
+  type ProjectCloneSections,
+} from "@/lib/services/projectClone";
+import { toDayNumber } from "@/lib/services/scheduleDependencies";
+
+interface CloneProjectDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  project: ProjectWithRelations;
+}
+
+const SECTION_LABELS: Array<[keyof ProjectCloneSections, string]> = [
+  ["milestones", "Milestones"],
+  ["tasks", "Milestone tasks"],
+  ["risks", "Risks"],
+  ["considerations", "Considerations"],
+  ["changes", "Changes"],
+  ["nextPeriodActivities", "Next period activities (with sub-activities)"],
+];
+
+const CloneProjectDialog: React.FC<CloneProjectDialogProps> = ({
+  isOpen,
+  onClose,
+  project,
+}) => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const sourceStart = project.calculated_start_date || "";
+  const [title, setTitle] = useState("");
+  const [sections, setSections] = useState<ProjectCloneSections>(ALL_CLONE_SECTIONS);
+  const [resetCompletion, setResetCompletion] = useState(true);
+  const [resetAccomplishments, setResetAccomplishments] = useState(true);
+  // The shift is picked as a new start date and applied as a day offset
+  const [newStart, setNewStart] = useState(sourceStart);
+  const [cloning, setCloning] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setTitle(`${(project.title || "").replace(/<[^>]*>/g, "")} (Copy)`);
+      setSections(ALL_CLONE_SECTIONS);
+      setResetCompletion(true);
+      setResetAccomplishments(true);
+      setNewStart(sourceStart);
+    }
+  }, [isOpen, project, sourceStart]);
+
+  const shiftDays =
+    sourceStart && newStart ? (toDayNumber(newStart) ?? 0) - (toDayNumber(sourceStart) ?? 0) : 0;
+
+  const handleClone = async () => {
+    if (!title.trim()) {
+      toast({
+        title: "Error",
+        description: "Project title is required",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setCloning(true);
+    const clone = await projectService.cloneProject(project.id, {
+      title,
+      sections,
+      resetCompletion,
+      resetAccomplishments,
+      shiftDays,
+    });
+    setCloning(false);
+
+    if (!clone) {
+      toast({
+        title: "Error",
+        description: "Failed to clone project",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({ title: "Success", description: "Project cloned" });
+    onClose();
+    navigate(`/project/${clone.id}`);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>Clone Project</DialogTitle>
+          <DialogDescription>
+            Creates a new draft project from the saved version of this one, e.g. to start the next phase.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="space-y-1.5">
+            <Label htmlFor="clone-title">New Project Title *</Label>
+            <Input id="clone-title" value={title} onChange={(e) => setTitle(e.target.value)} />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Copy</Label>
+            {SECTION_LABELS.map(([key, label]) => (
+              <div key={key} className="flex items-center gap-2">
+                <Checkbox
+                  id={`clone-${key}`}
+                  checked={sections[key]}
+                  disabled={key === "tasks" && !sections.milestones}
+                  onCheckedChange={(checked) =>
+                    setSections((prev) => ({ ...prev, [key]: checked === true }))
+                  }
+                />
+                <Label htmlFor={`clone-${key}`} className="font-normal">
+                  {label}
+                </Label>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="clone-reset-completion"
+                checked={resetCompletion}
+                onCheckedChange={(checked) => setResetCompletion(checked === true)}
+              />
+              <Label htmlFor="clone-reset-completion" className="font-normal">
+                Reset completion to 0%
+              </Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="clone-reset-accomplishments"
+                checked={resetAccomplishments}
+                onCheckedChange={(checked) => setResetAccomplishments(checked === true)}
+              />
+              <Label htmlFor="clone-reset-accomplishments" className="font-normal">
+                Start without accomplishments
+              </Label>
+            </div>
+          </div>
+
+          {sourceStart && (
+            <div className="space-y-1.5">
+              <Label htmlFor="clone-start">New Start Date</Label>
+              <Input
+                id="clone-start"
+                type="date"
+                value={newStart}
+                onChange={(e) => setNewStart(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                {shiftDays === 0
+                  ? "Dates are kept as they are."
+                  : `All dates move ${Math.abs(shiftDays)} days ${shiftDays > 0 ? "later" : "earlier"}.`}
+              </p>
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={cloning}>
+            Cancel
+          </Button>
+          <Button onClick={handleClone} disabled={cloning}>
+            {cloning && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Clone Project
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CloneProjectDialog;
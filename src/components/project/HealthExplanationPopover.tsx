@@ -0,0 +1,118 @@
+/**
+ * File: HealthExplanationPopover.tsx
+ * Purpose: "Why is this project yellow?" Wraps a health badge; clicking it
+ * shows the rule that decided the color, the inputs it looked at and what
+ * would move the project up a color (explainProjectHealthStatus), with the
+ * sub-color of each enabled health dimension.
+ */
+
+import React from "react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  explainProjectHealthStatus,
+  type Project,
+  type ProjectWithRelations,
+} from "@/lib/services/project";
+import { hasDepartmentRules, type HealthColor } from "@/lib/services/healthRules";
+
+interface HealthExplanationPopoverProps {
+  project: ProjectWithRelations | Project;
+  /** The color shown on the badge, when it comes from the stored computed_status_color */
+  displayedColor?: HealthColor | null;
+  children: React.ReactNode;
+}
+
+const COLOR_DOT: Record<HealthColor, string> = {
+  green: "bg-green-500",
+  yellow: "bg-yellow-500",
+  red: "bg-red-500",
+};
+
+const InputRow: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div className="flex justify-between gap-4">
+    <span className="text-muted-foreground">{label}</span>
+    <span className="font-medium">{value}</span>
+  </div>
+);
+
+const HealthExplanationPopover: React.FC<HealthExplanationPopoverProps> = ({
+  project,
+  displayedColor,
+  children,
+}) => {
+  const explanation = explainProjectHealthStatus(project);
+  const { inputs } = explanation;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className="cursor-help"
+          onClick={(e) => e.stopPropagation()}
+          aria-label="Why this health color?"
+        >
+          {children}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 text-sm" onClick={(e) => e.stopPropagation()}>
+        <div className="space-y-3">
+          <div className="flex items-center gap-2 font-semibold">
+            <span className={`h-3 w-3 rounded-full ${COLOR_DOT[explanation.color]}`} />
+            Why {explanation.color}?
+          </div>
+          <p>{explanation.reason}</p>
+
+          <div className="space-y-1 rounded-md border border-border bg-muted/40 p-2 text-xs">
+            <InputRow label="Status" value={(inputs.status || "active").replace("_", " ")} />
+            <InputRow label="Weighted completion" value={`${inputs.completion}%`} />
+            <InputRow
+              label="Time remaining"
+              value={inputs.timeRemaining === null ? "No duration data" : `${inputs.timeRemaining}%`}
+            />
+            <InputRow label="Starts in the future" value={inputs.startsInFuture ? "Yes" : "No"} />
+            <InputRow label="Manual override" value={explanation.manualOverride ? "Yes" : "No"} />
+          </div>
+
+          {explanation.dimensions.some((d) => d.key !== "schedule" && d.color) && (
+            <div className="space-y-1 text-xs">
+              {explanation.dimensions
+                .filter((d) => d.color)
+                .map((d) => (
+                  <div key={d.key} className="flex items-center gap-2">
+                    <span className={`h-2 w-2 rounded-full ${COLOR_DOT[d.color!]}`} />
+                    <span className="font-medium">{d.label}</span>
+                    <span className="text-muted-foreground">{d.detail}</span>
+                  </div>
+                ))}
+            </div>
+          )}
+
+          {explanation.nextStep && (
+            <div>
+              <div className="text-xs font-semibold uppercase text-muted-foreground">To improve</div>
+              <p>{explanation.nextStep}</p>
+            </div>
+          )}
+
+          {!explanation.manualOverride && (
+            <p className="text-xs text-muted-foreground">
+              Rules:{" "}
+              {hasDepartmentRules(project.department)
+                ? `${project.department} health rules`
+                : "organization health rules"}
+            </p>
+          )}
+          {displayedColor && displayedColor !== explanation.color && (
+            <p className="text-xs text-amber-700">
+              The stored color is {displayedColor}; it catches up at the next save or nightly
+              recalculation.
+            </p>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default HealthExplanationPopover;
@@ -0,0 +1,178 @@
+/**
+ * File: MilestoneForecastPopover.tsx
+ * Purpose: Slip badge for a milestone row. Clicking it shows the planned and
+ * forecast finish dates, lets the PM move the forecast (with a reason) and
+ * charts how the forecast moved over time.
+ *
+ * Called by: src/components/MilestoneItem.tsx
+ */
+
+import React, { useEffect, useState } from "react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import {
+  buildSlipSeries,
+  formatSlip,
+  getForecastDate,
+  getMilestoneSlipDays,
+  getPlannedDate,
+  milestoneForecastsService,
+  type MilestoneForecastChange,
+  type MilestoneForecastFields,
+} from "@/lib/services/milestoneForecasts";
+import { fromDayNumber, toDayNumber } from "@/lib/services/scheduleDependencies";
+
+interface MilestoneForecastPopoverProps {
+  milestone: MilestoneForecastFields;
+  projectId?: string;
+  onChange: (values: { forecast_date: string; forecast_reason: string | null }) => void;
+}
+
+const slipClass = (slipDays: number | null) =>
+  !slipDays
+    ? "bg-green-100 text-green-800 border-green-200"
+    : slipDays > 0
+      ? "bg-red-100 text-red-800 border-red-200"
+      : "bg-blue-100 text-blue-800 border-blue-200";
+
+const MilestoneForecastPopover: React.FC<MilestoneForecastPopoverProps> = ({
+  milestone,
+  projectId,
+  onChange,
+}) => {
+  const [open, setOpen] = useState(false);
+  const [forecast, setForecast] = useState("");
+  const [reason, setReason] = useState("");
+  const [history, setHistory] = useState<MilestoneForecastChange[]>([]);
+
+  const planned = getPlannedDate(milestone);
+  const current = getForecastDate(milestone);
+  const slipDays = getMilestoneSlipDays(milestone);
+  // Saved milestones have a stored forecast; moving it needs a reason
+  const needsReason = !!milestone.forecast_date && forecast !== current;
+  const series = buildSlipSeries(milestone, history).map((point) => ({
+    ...point,
+    day: toDayNumber(point.forecast),
+  }));
+
+  useEffect(() => {
+    if (!open) return;
+    setForecast(current || "");
+    setReason("");
+    if (projectId && milestone.id) {
+      milestoneForecastsService
+        .getHistory([projectId])
+        .then((changes) => setHistory(changes.filter((c) => c.milestone_id === milestone.id)));
+    }
+  }, [open]);
+
+  const handleApply = () => {
+    onChange({ forecast_date: forecast, forecast_reason: reason.trim() || null });
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className={`h-10 w-full rounded-md border px-1 text-xs font-medium ${slipClass(slipDays)}`}
+          title="Planned vs forecast finish"
+        >
+          {formatSlip(slipDays)}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-96 text-sm" align="start">
+        <div className="space-y-3">
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Planned finish</span>
+            <span className="font-medium">{planned || "—"}</span>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="milestone-forecast">Forecast finish</Label>
+            <Input
+              id="milestone-forecast"
+              type="date"
+              value={forecast}
+              onChange={(e) => setForecast(e.target.value)}
+            />
+          </div>
+          {needsReason && (
+            <div className="space-y-1">
+              <Label htmlFor="milestone-forecast-reason">Why is the forecast moving?</Label>
+              <Input
+                id="milestone-forecast-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="e.g. Vendor delivery pushed back"
+              />
+            </div>
+          )}
+          {milestone.forecast_reason && (
+            <p className="text-xs italic text-muted-foreground">
+              Last moved: “{milestone.forecast_reason}”
+            </p>
+          )}
+          <div className="flex justify-end">
+            <Button
+              type="button"
+              size="sm"
+              onClick={handleApply}
+              disabled={!forecast || forecast === current || (needsReason && !reason.trim())}
+            >
+              Update forecast
+            </Button>
+          </div>
+
+          {series.length > 1 && (
+            <div className="space-y-1 border-t border-border pt-3">
+              <div className="font-medium">Forecast history</div>
+              <ResponsiveContainer width="100%" height={160}>
+                <LineChart data={series} margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="date" tick={{ fontSize: 10 }} />
+                  <YAxis
+                    dataKey="day"
+                    domain={["dataMin - 3", "dataMax + 3"]}
+                    tickFormatter={(day: number) => fromDayNumber(day).slice(5)}
+                    tick={{ fontSize: 10 }}
+                    width={40}
+                  />
+                  <Tooltip
+                    formatter={(_: number, __: string, item: { payload?: { forecast: string; slipDays: number } }) => [
+                      `${item.payload?.forecast} (${formatSlip(item.payload?.slipDays ?? null)})`,
+                      "Forecast",
+                    ]}
+                  />
+                  {planned && (
+                    <ReferenceLine
+                      y={toDayNumber(planned) ?? undefined}
+                      stroke="#6b7280"
+                      strokeDasharray="4 4"
+                      label={{ value: "Plan", fontSize: 10, position: "insideTopLeft" }}
+                    />
+                  )}
+                  <Line type="stepAfter" dataKey="day" stroke="#ef4444" strokeWidth={2} dot />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default MilestoneForecastPopover;
@@ -0,0 +1,78 @@
+/**
+ * File: RiskHeatMap.tsx
+ * Purpose: Probability × impact grid for the risk register. Each cell shows how
+ * many open or mitigating risks sit at that score, shaded by exposure band.
+ * Takes a grid from buildRiskHeatMap so the status sheet and the report
+ * preview render the same counts.
+ */
+
+import React from "react";
+import {
+  RISK_EXPOSURE_CLASSES,
+  RISK_SCORE_MAX,
+  getRiskExposureLevel,
+} from "@/lib/services/riskRegister";
+
+interface RiskHeatMapProps {
+  // grid[impact - 1][probability - 1] = number of risks
+  grid: number[][];
+  className?: string;
+}
+
+const SCORES = Array.from({ length: RISK_SCORE_MAX }, (_, i) => i + 1);
+
+const RiskHeatMap: React.FC<RiskHeatMapProps> = ({ grid, className = "" }) => {
+  return (
+    <div className={`inline-flex items-stretch gap-1 ${className}`}>
+      <div className="flex items-center">
+        <span className="text-[10px] font-semibold text-gray-700 [writing-mode:vertical-rl] rotate-180">
+          Impact
+        </span>
+      </div>
+      <div>
+        <table className="border-collapse text-xs">
+          <tbody>
+            {[...SCORES].reverse().map((impact) => (
+              <tr key={impact}>
+                <th className="pr-1 text-right font-normal text-gray-600 w-4">
+                  {impact}
+                </th>
+                {SCORES.map((probability) => {
+                  const count = grid[impact - 1][probability - 1];
+                  const level = getRiskExposureLevel(probability * impact);
+                  return (
+                    <td
+                      key={probability}
+                      title={`Probability ${probability} × Impact ${impact} = ${probability * impact}`}
+                      className={`h-7 w-7 border text-center font-semibold ${
+                        level ? RISK_EXPOSURE_CLASSES[level] : ""
+                      } ${count === 0 ? "opacity-50" : ""}`}
+                    >
+                      {count > 0 ? count : ""}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+            <tr>
+              <th></th>
+              {SCORES.map((probability) => (
+                <th
+                  key={probability}
+                  className="pt-0.5 text-center font-normal text-gray-600"
+                >
+                  {probability}
+                </th>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+        <div className="text-center text-[10px] font-semibold text-gray-700">
+          Probability
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RiskHeatMap;
@@ -43,6 +43,11 @@ import { useAuth } from "@/lib/hooks/useAuth";
 import { supabase } from "@/lib/supabase";
 import type { ProjectWithRelations } from "@/lib/services/project";
 import { exportProjectsToExcel } from "@/lib/services/excelExport";
+import {
+  isProjectStakeholder,
+  stakeholderService,
+  type StakeholderRole,
+} from "@/lib/services/stakeholders";
 
 interface ProjectListProps {
   onSelectProject: (project: ProjectWithRelations) => void;
@@ -53,6 +58,8 @@ interface ProjectListProps {
   filterDepartmentNames?: string[];
   filterStatusHealth?: string | string[];
   filterSearch?: string;
+  // Only projects where the signed-in user holds one of these roles
+  filterMyRoles?: StakeholderRole[];
   onFilteredCountChange?: (count: number) => void;
   onTotalCountChange?: (count: number) => void;
   totalProjectCount?: number;
@@ -67,6 +74,7 @@ const ProjectList = ({
   filterDepartmentNames = [],
   filterStatusHealth = "all",
   filterSearch = "",
+  filterMyRoles = [],
   onFilteredCountChange,
   onTotalCountChange,
   totalProjectCount = 0,
@@ -262,6 +270,15 @@ const ProjectList = ({
           });
         }
 
+        // Apply "my projects" filter — matched through the stakeholder register's
+        // directory link so differently spelled names still count as me
+        if (filterMyRoles.length > 0) {
+          const identity = await stakeholderService.getIdentity(userEmail, userName);
+          filtered = filtered.filter((project) =>
+            isProjectStakeholder(project, identity, filterMyRoles),
+          );
+        }
+
         // Apply search filter
         if (filterSearch && filterSearch.trim() !== "") {
           const searchLower = filterSearch.toLowerCase();
@@ -294,6 +311,7 @@ const ProjectList = ({
     JSON.stringify(filterDepartmentNames),
     JSON.stringify(filterStatusHealthArray),
     filterSearch,
+    JSON.stringify(filterMyRoles),
     user?.id,
   ]);
 
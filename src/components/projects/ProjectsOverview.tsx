@@ -55,7 +55,32 @@ import {
   calculateProjectHealthStatusColor,
   calculateTimeRemainingPercentage,
   getTimeRemainingTooltipText,
+  type ProjectWithRelations,
 } from "@/lib/services/project";
+import {
+  calculateProgramRollup,
+  groupProjectsByProgram,
+  programsService,
+  PROGRAM_HEALTH_LABELS,
+  UNASSIGNED_PROGRAM,
+  type Program,
+} from "@/lib/services/programs";
+import {
+  getDaysInCurrentColor,
+  getRecentColorChange,
+  groupSnapshotsByProject,
+  healthHistoryService,
+  type HealthSnapshot,
+} from "@/lib/services/healthHistory";
+import {
+  DEFAULT_STALENESS_THRESHOLDS,
+  getProjectStaleness,
+  projectStalenessService,
+  type ProjectStaleness,
+  type StalenessThresholds,
+} from "@/lib/services/projectStaleness";
+import { HealthSparkline } from "@/components/ui/health-sparkline";
+import HealthExplanationPopover from "@/components/project/HealthExplanationPopover";
 import { formatDistanceToNow } from "date-fns";
 import { FileSpreadsheet, ArrowLeft, ExternalLink } from "lucide-react";
 import { exportProjectsToExcel } from "@/lib/services/excelExport";
@@ -77,6 +102,7 @@ import {
   ColumnDef,
   ColumnResizeMode,
   PaginationState,
+  Row,
 } from "@tanstack/react-table";
 import {
   Select,
@@ -85,6 +111,8 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
 import { X } from "lucide-react";
 import {
   loadUserPreferences,
@@ -108,6 +136,7 @@ type ProjectData = {
   project_id?: string;
   title: string;
   department?: string;
+  program_id?: string | null;
   status: string;
   project_manager?: string;
   milestones?: any[];
@@ -117,6 +146,12 @@ type ProjectData = {
   working_days_remaining?: number;
   calculated_end_date?: string;
   total_days?: number;
+  previous_computed_status_color?: string | null;
+  computed_status_changed_at?: string | null;
+  /** Daily health snapshots, oldest first */
+  health_history?: HealthSnapshot[];
+  last_meaningful_update_at?: string | null;
+  staleness?: ProjectStaleness;
   [key: string]: any;
 };
 
@@ -150,6 +185,12 @@ const ProjectsOverview: React.FC<ProjectsOverviewProps> = ({
   const [localHealthStatusFilter, setLocalHealthStatusFilter] = useState(defaultPrefs.filters.healthStatus);
   const [localDepartmentFilter, setLocalDepartmentFilter] = useState(defaultPrefs.filters.department);
   const [localManagerFilter, setLocalManagerFilter] = useState(defaultPrefs.filters.manager);
+  const [localProgramFilter, setLocalProgramFilter] = useState(defaultPrefs.filters.program);
+  const [localStalenessFilter, setLocalStalenessFilter] = useState(defaultPrefs.filters.staleness);
+  const [stalenessThresholds, setStalenessThresholds] =
+    useState<StalenessThresholds>(DEFAULT_STALENESS_THRESHOLDS);
+  const [groupByProgram, setGroupByProgram] = useState(defaultPrefs.groupByProgram);
+  const [programs, setPrograms] = useState<Program[]>([]);
 
   const { toast } = useToast();
   const { user } = useAuth();
@@ -178,6 +219,9 @@ const ProjectsOverview: React.FC<ProjectsOverviewProps> = ({
         setLocalHealthStatusFilter(savedPreferences.filters.healthStatus || "all");
         setLocalDepartmentFilter(savedPreferences.filters.department || "all");
         setLocalManagerFilter(savedPreferences.filters.manager || "all");
+        setLocalProgramFilter(savedPreferences.filters.program || "all");
+        setLocalStalenessFilter(savedPreferences.filters.staleness || "all");
+        setGroupByProgram(savedPreferences.groupByProgram ?? false);
       }
       
       setPreferencesLoaded(true);
@@ -202,7 +246,10 @@ const ProjectsOverview: React.FC<ProjectsOverviewProps> = ({
           healthStatus: localHealthStatusFilter,
           department: localDepartmentFilter,
           manager: localManagerFilter,
+          program: localProgramFilter,
+          staleness: localStalenessFilter,
         },
+        groupByProgram,
       };
 
       console.log("Saving user preferences:", preferences);
@@ -221,6 +268,9 @@ const ProjectsOverview: React.FC<ProjectsOverviewProps> = ({
     localHealthStatusFilter,
     localDepartmentFilter,
     localManagerFilter,
+    localProgramFilter,
+    localStalenessFilter,
+    groupByProgram,
   ]);
 
   // Calculate overall completion for a project
@@ -282,7 +332,10 @@ const ProjectsOverview: React.FC<ProjectsOverviewProps> = ({
 
   // Apply local filters to the table data
   const filteredProjects = useMemo(() => {
-    let filtered = [...projects];
+    let filtered: ProjectData[] = projects.map((p) => ({
+      ...p,
+      staleness: getProjectStaleness(p, stalenessThresholds),
+    }));
 
     // Project ID filter
     if (localProjectIdFilter && localProjectIdFilter !== "all") {
@@ -318,8 +371,24 @@ const ProjectsOverview: React.FC<ProjectsOverviewProps> = ({
       filtered = filtered.filter((p) => p.project_manager === localManagerFilter);
     }
 
+    // Program filter
+    if (localProgramFilter && localProgramFilter !== "all") {
+      filtered = filtered.filter((p) =>
+        localProgramFilter === UNASSIGNED_PROGRAM
+          ? !p.program_id
+          : p.program_id === localProgramFilter,
+      );
+    }
+
+    // Update staleness filter
+    if (localStalenessFilter && localStalenessFilter !== "all") {
+      filtered = filtered.filter((p) =>
+        localStalenessFilter === "stale" ? p.staleness?.isStale : !p.staleness?.isStale,
+      );
+    }
+
     return filtered;
-  }, [projects, localProjectIdFilter, localStatusFilter, localHealthStatusFilter, localDepartmentFilter, localManagerFilter]);
+  }, [projects, stalenessThresholds, localProjectIdFilter, localStatusFilter, localHealthStatusFilter, localDepartmentFilter, localManagerFilter, localProgramFilter, localStalenessFilter]);
 
   // Check if any filters are active
   const hasActiveFilters = 
@@ -327,7 +396,9 @@ const ProjectsOverview: React.FC<ProjectsOverviewProps> = ({
     (localStatusFilter && localStatusFilter !== "all") ||
     (localHealthStatusFilter && localHealthStatusFilter !== "all") ||
     (localDepartmentFilter && localDepartmentFilter !== "all") ||
-    (localManagerFilter && localManagerFilter !== "all");
+    (localManagerFilter && localManagerFilter !== "all") ||
+    (localProgramFilter && localProgramFilter !== "all") ||
+    (localStalenessFilter && localStalenessFilter !== "all");
 
   // Clear all filters
   const clearAllFilters = () => {
@@ -336,6 +407,8 @@ const ProjectsOverview: React.FC<ProjectsOverviewProps> = ({
     setLocalHealthStatusFilter("all");
     setLocalDepartmentFilter("all");
     setLocalManagerFilter("all");
+    setLocalProgramFilter("all");
+    setLocalStalenessFilter("all");
   };
 
   // Define columns using TanStack Table
@@ -480,16 +553,47 @@ const ProjectsOverview: React.FC<ProjectsOverviewProps> = ({
           };
 
           const config = statusConfig[healthStatus] || statusConfig.green;
+          const recentChange = getRecentColorChange(project);
 
           return (
-            <span
-              className={`inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium ${config.className}`}
-            >
-              {config.label}
-            </span>
+            <HealthExplanationPopover project={project as ProjectWithRelations}>
+              <span
+                className={`inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium ${config.className}`}
+                title={
+                  recentChange
+                    ? `Changed overnight from ${recentChange.from ? statusConfig[recentChange.from].label : "no color"}`
+                    : undefined
+                }
+              >
+                {config.label}
+                {recentChange && <span className="ml-1 h-1.5 w-1.5 rounded-full bg-current" />}
+              </span>
+            </HealthExplanationPopover>
           );
         },
       }),
+      columnHelper.accessor((row) => row.health_history || [], {
+        id: "health_trend",
+        header: "Health Trend",
+        size: 150,
+        minSize: 130,
+        enableSorting: false,
+        cell: (info) => <HealthSparkline snapshots={info.getValue()} />,
+      }),
+      columnHelper.accessor((row) => getDaysInCurrentColor(row.health_history || []), {
+        id: "days_in_color",
+        header: "Days in Color",
+        size: 110,
+        minSize: 90,
+        maxSize: 140,
+        enableResizing: true,
+        // Projects without history sort after those with any
+        sortUndefined: "last",
+        cell: (info) => {
+          const days = info.getValue();
+          return <div className="text-center">{days ?? "—"}</div>;
+        },
+      }),
       columnHelper.accessor((row) => calculateCompletion(row), {
         id: "completion",
         header: "Completion",
@@ -752,17 +856,18 @@ const ProjectsOverview: React.FC<ProjectsOverviewProps> = ({
           return <div className="text-center">{totalDays}d</div>;
         },
       }),
-      columnHelper.accessor("updated_at", {
+      // Last edit by a person; updated_at also moves with derived fields
+      columnHelper.accessor((row) => row.staleness?.lastUpdatedAt ?? row.updated_at, {
         id: "last_updated",
         header: "Last Updated",
-        size: 120,
+        size: 140,
         minSize: 110,
-        maxSize: 150,
+        maxSize: 180,
         enableResizing: true,
         enableSorting: true,
         sortingFn: (rowA, rowB) => {
-          const a = rowA.original.updated_at;
-          const b = rowB.original.updated_at;
+          const a = rowA.getValue<string | null>("last_updated");
+          const b = rowB.getValue<string | null>("last_updated");
           if (!a && !b) return 0;
           if (!a) return 1;
           if (!b) return -1;
@@ -770,6 +875,7 @@ const ProjectsOverview: React.FC<ProjectsOverviewProps> = ({
         },
         cell: (info) => {
           const updatedAt = info.getValue();
+          const staleness = info.row.original.staleness;
           if (!updatedAt) {
             return <div className="text-center text-muted-foreground">—</div>;
           }
@@ -779,7 +885,17 @@ const ProjectsOverview: React.FC<ProjectsOverviewProps> = ({
               addSuffix: true,
             });
             return (
-              <div className="text-center text-sm text-muted-foreground">{timeAgo}</div>
+              <div className="flex flex-col items-center gap-1 text-sm text-muted-foreground">
+                <span>{timeAgo}</span>
+                {staleness?.isStale && (
+                  <span
+                    className="inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium bg-orange-100 text-orange-800 border border-orange-200"
+                    title={`No update in ${staleness.daysSinceUpdate} days (limit ${staleness.thresholdDays})`}
+                  >
+                    Stale
+                  </span>
+                )}
+              </div>
             );
           } catch (error) {
             return <div className="text-center text-muted-foreground">—</div>;
@@ -790,6 +906,11 @@ const ProjectsOverview: React.FC<ProjectsOverviewProps> = ({
     [],
   );
 
+  useEffect(() => {
+    programsService.getPrograms().then(setPrograms);
+    projectStalenessService.getThresholds().then(setStalenessThresholds);
+  }, []);
+
   // Load user profile
   useEffect(() => {
     if (user?.id) {
@@ -914,7 +1035,15 @@ const ProjectsOverview: React.FC<ProjectsOverviewProps> = ({
           });
         }
 
-        setProjects(filtered);
+        const history = groupSnapshotsByProject(
+          await healthHistoryService.getHistory(undefined, filtered.map((p) => p.id)),
+        );
+        setProjects(
+          filtered.map((project) => ({
+            ...project,
+            health_history: history.get(project.id) || [],
+          })),
+        );
       } catch (error) {
         console.error("Error loading projects:", error);
         toast({
@@ -963,6 +1092,40 @@ const ProjectsOverview: React.FC<ProjectsOverviewProps> = ({
   });
 
   // Function to get proper display name for column in dropdown menu
+  const renderProjectRow = (row: Row<ProjectData>) => (
+    <TableRow
+      key={row.id}
+      data-state={row.getIsSelected() && "selected"}
+      className="cursor-pointer hover:bg-muted/50"
+      onClick={() => navigate(`/project/${row.original.id}`)}
+    >
+      {row.getVisibleCells().map((cell) => (
+        <TableCell
+          key={cell.id}
+          style={{
+            width: cell.column.getSize(),
+          }}
+        >
+          {flexRender(
+            cell.column.columnDef.cell,
+            cell.getContext()
+          )}
+        </TableCell>
+      ))}
+    </TableRow>
+  );
+
+  // Swimlanes list every filtered, sorted row (pagination doesn't apply)
+  const programLanes = groupByProgram
+    ? groupProjectsByProgram(
+        table.getPrePaginationRowModel().rows.map((row) => ({
+          program_id: row.original.program_id,
+          row,
+        })),
+        programs,
+      )
+    : [];
+
   const getColumnDisplayName = (columnId: string) => {
     const columnDisplayNames = {
       project_id: "Project ID",
@@ -971,6 +1134,8 @@ const ProjectsOverview: React.FC<ProjectsOverviewProps> = ({
       status: "Status",
       project_manager: "Project Manager",
       health_status: "Health Status",
+      health_trend: "Health Trend",
+      days_in_color: "Days in Color",
       completion: "Completion",
       budget_total: "Budget",
       budget_actuals: "Actuals",
@@ -1236,6 +1401,46 @@ const ProjectsOverview: React.FC<ProjectsOverviewProps> = ({
               </SelectContent>
             </Select>
 
+            {/* Program Filter */}
+            <Select value={localProgramFilter} onValueChange={setLocalProgramFilter}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue placeholder="Program" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Programs</SelectItem>
+                {programs.map((program) => (
+                  <SelectItem key={program.id} value={program.id}>
+                    {program.name}
+                  </SelectItem>
+                ))}
+                <SelectItem value={UNASSIGNED_PROGRAM}>No Program</SelectItem>
+              </SelectContent>
+            </Select>
+
+            {/* Update Staleness Filter */}
+            <Select value={localStalenessFilter} onValueChange={setLocalStalenessFilter}>
+              <SelectTrigger className="w-[150px]">
+                <SelectValue placeholder="Updates" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Updates</SelectItem>
+                <SelectItem value="stale">Stale</SelectItem>
+                <SelectItem value="current">Up to Date</SelectItem>
+              </SelectContent>
+            </Select>
+
+            {/* Program Swimlanes Toggle */}
+            <div className="flex items-center gap-2">
+              <Switch
+                id="group-by-program"
+                checked={groupByProgram}
+                onCheckedChange={setGroupByProgram}
+              />
+              <Label htmlFor="group-by-program" className="text-sm text-muted-foreground">
+                Group by program
+              </Label>
+            </div>
+
             {/* Clear Filters Button */}
             {hasActiveFilters && (
               <Button
@@ -1291,29 +1496,51 @@ const ProjectsOverview: React.FC<ProjectsOverviewProps> = ({
                   ))}
                 </TableHeader>
                 <TableBody>
-                  {table.getRowModel().rows?.length ? (
-                    table.getRowModel().rows.map((row) => (
-                      <TableRow
-                        key={row.id}
-                        data-state={row.getIsSelected() && "selected"}
-                        className="cursor-pointer hover:bg-muted/50"
-                        onClick={() => navigate(`/project/${row.original.id}`)}
-                      >
-                        {row.getVisibleCells().map((cell) => (
-                          <TableCell
-                            key={cell.id}
-                            style={{
-                              width: cell.column.getSize(),
-                            }}
-                          >
-                            {flexRender(
-                              cell.column.columnDef.cell,
-                              cell.getContext()
-                            )}
-                          </TableCell>
-                        ))}
-                      </TableRow>
-                    ))
+                  {groupByProgram && programLanes.length > 0 ? (
+                    programLanes.map((lane) => {
+                      const laneRows = lane.projects.map((p) => p.row);
+                      const rollup = calculateProgramRollup(
+                        laneRows.map((row) => row.original) as unknown as ProjectWithRelations[],
+                      );
+                      return (
+                        <React.Fragment key={lane.key}>
+                          <TableRow className="bg-muted/60 hover:bg-muted/60">
+                            <TableCell colSpan={table.getVisibleLeafColumns().length}>
+                              <div className="flex items-center gap-3 text-sm">
+                                <span
+                                  className={`w-2.5 h-2.5 rounded-full ${
+                                    rollup.health === "red"
+                                      ? "bg-red-500"
+                                      : rollup.health === "yellow"
+                                        ? "bg-yellow-500"
+                                        : "bg-green-500"
+                                  }`}
+                                />
+                                {lane.program ? (
+                                  <button
+                                    type="button"
+                                    className="font-semibold text-foreground hover:underline"
+                                    onClick={() => navigate(`/program/${lane.program!.id}`)}
+                                  >
+                                    {lane.program.name}
+                                  </button>
+                                ) : (
+                                  <span className="font-semibold text-muted-foreground">No Program</span>
+                                )}
+                                <span className="text-muted-foreground">
+                                  {laneRows.length} project{laneRows.length === 1 ? "" : "s"} ·{" "}
+                                  {rollup.weightedCompletion}% complete ·{" "}
+                                  {PROGRAM_HEALTH_LABELS[rollup.health]}
+                                </span>
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                          {laneRows.map(renderProjectRow)}
+                        </React.Fragment>
+                      );
+                    })
+                  ) : !groupByProgram && table.getRowModel().rows?.length ? (
+                    table.getRowModel().rows.map(renderProjectRow)
                   ) : (
                     <TableRow>
                       <TableCell
@@ -1330,56 +1557,58 @@ const ProjectsOverview: React.FC<ProjectsOverviewProps> = ({
           </div>
 
           {/* Pagination Controls */}
-          <div className="flex items-center justify-between px-2 py-4">
-            <div className="flex items-center gap-2">
-              <p className="text-sm text-muted-foreground">
-                Showing {table.getState().pagination.pageIndex * table.getState().pagination.pageSize + 1} to{" "}
-                {Math.min(
-                  (table.getState().pagination.pageIndex + 1) * table.getState().pagination.pageSize,
-                  table.getFilteredRowModel().rows.length
-                )}{" "}
-                of {table.getFilteredRowModel().rows.length} projects
-              </p>
-            </div>
-            <div className="flex items-center gap-2">
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => table.setPageIndex(0)}
-                disabled={!table.getCanPreviousPage()}
-              >
-                <ChevronsLeft className="h-4 w-4" />
-              </Button>
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => table.previousPage()}
-                disabled={!table.getCanPreviousPage()}
-              >
-                <ChevronLeft className="h-4 w-4" />
-              </Button>
-              <span className="text-sm text-muted-foreground">
-                Page {table.getState().pagination.pageIndex + 1} of{" "}
-                {table.getPageCount()}
-              </span>
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => table.nextPage()}
-                disabled={!table.getCanNextPage()}
-              >
-                <ChevronRight className="h-4 w-4" />
-              </Button>
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => table.setPageIndex(table.getPageCount() - 1)}
-                disabled={!table.getCanNextPage()}
-              >
-                <ChevronsRight className="h-4 w-4" />
-              </Button>
+          {!groupByProgram && (
+            <div className="flex items-center justify-between px-2 py-4">
+              <div className="flex items-center gap-2">
+                <p className="text-sm text-muted-foreground">
+                  Showing {table.getState().pagination.pageIndex * table.getState().pagination.pageSize + 1} to{" "}
+                  {Math.min(
+                    (table.getState().pagination.pageIndex + 1) * table.getState().pagination.pageSize,
+                    table.getFilteredRowModel().rows.length
+                  )}{" "}
+                  of {table.getFilteredRowModel().rows.length} projects
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => table.setPageIndex(0)}
+                  disabled={!table.getCanPreviousPage()}
+                >
+                  <ChevronsLeft className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => table.previousPage()}
+                  disabled={!table.getCanPreviousPage()}
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <span className="text-sm text-muted-foreground">
+                  Page {table.getState().pagination.pageIndex + 1} of{" "}
+                  {table.getPageCount()}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => table.nextPage()}
+                  disabled={!table.getCanNextPage()}
+                >
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => table.setPageIndex(table.getPageCount() - 1)}
+                  disabled={!table.getCanNextPage()}
+                >
+                  <ChevronsRight className="h-4 w-4" />
+                </Button>
+              </div>
             </div>
-          </div>
+          )}
         </CardContent>
       </Card>
       <Toaster />
@@ -10,13 +10,25 @@ import { buildReportModel, defaultReportOptions } from "@/lib/services/reportMod
 import { generateDocx } from "@/lib/services/reportDocx";
 import { buildReportEmail, copyEmailToClipboard } from "@/lib/services/reportEmailHtml";
 import { downloadBlob, reportFileName } from "@/lib/report/download";
+import {
+  APPROVAL_STATUS_LABELS,
+  formatReportingPeriod,
+  getCurrentReportingPeriod,
+  getLatestApprovedReport,
+  getLivePeriodReport,
+  reportingPeriodsService,
+  type ReportingPeriod,
+  type StatusReport,
+} from "@/lib/services/reportingPeriods";
+import { useAuth } from "@/lib/hooks/useAuth";
 import ProjectReportPreview from "./ProjectReportPreview";
 import { DEFAULT_SECTION_ORDER, SECTION_LABELS, type ReportOptions, type ReportSectionKey } from "@/types/report";
-import { Loader2, FileText, FileType, Mail, Check } from "lucide-react";
+import { Loader2, FileText, FileType, Mail, Check, Lock } from "lucide-react";
 
 // Print-isolation CSS for "Save as PDF". The report preview is also rendered
 // into a body-level portal (#report-print-root); when printing we hide the rest
-// of the app and show only that, so the PDF matches the on-screen preview. The
+// of the app and show only that, so the PDF matches the on-screen preview
+// (or the approved report, where the department requires approval). The
 // color-adjust rules force the brand bands/table headers to print (browsers
 // drop background colors otherwise).
 const PRINT_CSS = `
@@ -46,11 +58,22 @@ interface Props {
 
 const ProjectReportDialog: React.FC<Props> = ({ open, onOpenChange, projectId }) => {
   const { toast } = useToast();
+  const { user, profile, canEditProject } = useAuth();
   const [project, setProject] = useState<ProjectWithRelations | null>(null);
   const [loading, setLoading] = useState(false);
   const [options, setOptions] = useState<ReportOptions>(defaultReportOptions());
   const [exporting, setExporting] = useState<null | "pdf" | "docx" | "email">(null);
   const [copied, setCopied] = useState(false);
+  // Current reporting period, its pending/approved report, and the last
+  // submission a director returned for it (if any)
+  const [period, setPeriod] = useState<ReportingPeriod | null>(null);
+  const [periodReport, setPeriodReport] = useState<StatusReport | null>(null);
+  const [returnedReport, setReturnedReport] = useState<StatusReport | null>(null);
+  // Departments that require approval export the newest approved report
+  // instead of the live preview
+  const [requiresApproval, setRequiresApproval] = useState(false);
+  const [approvedReport, setApprovedReport] = useState<StatusReport | null>(null);
+  const [submitting, setSubmitting] = useState(false);
 
   useEffect(() => {
     if (!open) return;
@@ -64,10 +87,43 @@ const ProjectReportDialog: React.FC<Props> = ({ open, onOpenChange, projectId })
     return () => { active = false; };
   }, [open, projectId, toast]);
 
+  useEffect(() => {
+    if (!open || !project) return;
+    let active = true;
+    Promise.all([
+      reportingPeriodsService.getDepartmentReporting(project.department),
+      reportingPeriodsService.getStatusReports(project.id),
+    ]).then(([reporting, reports]) => {
+      if (!active) return;
+      const current = getCurrentReportingPeriod(reporting.cadence);
+      setPeriod(current);
+      setPeriodReport(getLivePeriodReport(reports, current.start));
+      setReturnedReport(
+        reports.find((r) => r.period_start === current.start && r.approval_status === "returned") || null,
+      );
+      setRequiresApproval(reporting.requiresApproval);
+      setApprovedReport(getLatestApprovedReport(reports));
+    });
+    return () => { active = false; };
+  }, [open, project]);
+
   const model = useMemo(
     () => (project ? buildReportModel(project, options) : null),
     [project, options],
   );
+  const exportModel = requiresApproval ? approvedReport?.report ?? null : model;
+  const approvedLabel = approvedReport
+    ? formatReportingPeriod({
+        cadence: approvedReport.cadence,
+        start: approvedReport.period_start,
+        end: approvedReport.period_end,
+      })
+    : null;
+  const exportTitle = !requiresApproval
+    ? undefined
+    : approvedLabel
+      ? `Exports the approved report for ${approvedLabel}`
+      : "Exports need an approved report";
 
   const toggle = (key: ReportSectionKey) =>
     setOptions((o) => ({ ...o, sections: { ...o.sections, [key]: !o.sections[key] } }));
@@ -76,11 +132,11 @@ const ProjectReportDialog: React.FC<Props> = ({ open, onOpenChange, projectId })
     setOptions((o) => ({ ...o, showTodayLine: !o.showTodayLine }));
 
   const onExportDocx = async () => {
-    if (!model) return;
+    if (!exportModel) return;
     setExporting("docx");
     try {
-      const blob = await generateDocx(model);
-      downloadBlob(blob, reportFileName(model.header.title, "docx"));
+      const blob = await generateDocx(exportModel);
+      downloadBlob(blob, reportFileName(exportModel.header.title, "docx"));
     } catch (e) {
       toast({ title: "Failed to export Word", variant: "destructive" });
     } finally {
@@ -94,10 +150,10 @@ const ProjectReportDialog: React.FC<Props> = ({ open, onOpenChange, projectId })
   // default mail app (often the wrong Outlook), so the PM pastes into the email
   // they already have open. Must run inside the click gesture for clipboard access.
   const onGenerateEmail = async () => {
-    if (!model) return;
+    if (!exportModel) return;
     setExporting("email");
     try {
-      const parts = buildReportEmail(model);
+      const parts = buildReportEmail(exportModel);
       const copied = await copyEmailToClipboard(parts);
       if (!copied) {
         toast({ title: "Couldn't copy the report", description: "Your browser blocked clipboard access — try again, or use Export Word.", variant: "destructive" });
@@ -113,17 +169,43 @@ const ProjectReportDialog: React.FC<Props> = ({ open, onOpenChange, projectId })
     }
   };
 
+  // Submitting freezes the report exactly as previewed (current section
+  // choices included) as the official report for the period.
+  const onSubmitOfficial = async () => {
+    if (!model || !period || !project || !user) return;
+    const label = formatReportingPeriod(period);
+    if (!window.confirm(`Submit this report as the official status for ${label}? It can't be changed afterwards.`)) {
+      return;
+    }
+    setSubmitting(true);
+    const report = await reportingPeriodsService.submitStatusReport(project.id, period, model, {
+      id: user.id,
+      name: profile?.full_name || user.email || null,
+    });
+    setSubmitting(false);
+    if (!report) {
+      toast({ title: "Failed to submit the report", description: "The period may already have an official report.", variant: "destructive" });
+      return;
+    }
+    setPeriodReport(report);
+    toast(
+      report.approval_status === "pending"
+        ? { title: "Report submitted for approval", description: `Your director will review the status report for ${label}.` }
+        : { title: "Official report submitted", description: `Locked as the status report for ${label}.` },
+    );
+  };
+
   // PDF export prints the on-screen preview via the browser's native engine
   // (Save as PDF). It renders the exact same component the user sees, so the
   // output matches the page — and it needs no WASM/worker/Buffer, so it works
   // under the app's strict Content-Security-Policy (unlike @react-pdf/renderer).
   const onPrintPdf = () => {
-    if (!model) return;
+    if (!exportModel) return;
     // Chromium uses document.title as the default "Save as PDF" filename, so
     // set it to "<Project> - <Generated date>" before printing (and restore it
     // afterward) to pre-populate the Save dialog instead of a blank slate.
     const clean = (sv: string) => (sv || "").replace(/[\\/:*?"<>|]+/g, "").replace(/\s+/g, " ").trim();
-    const name = `${clean(model.header.title) || "Project Report"} - ${clean(model.header.generatedOn)}`.replace(/\s-\s*$/, "");
+    const name = `${clean(exportModel.header.title) || "Project Report"} - ${clean(exportModel.header.generatedOn)}`.replace(/\s-\s*$/, "");
     const original = document.title;
     const restore = () => {
       document.title = original;
@@ -140,15 +222,44 @@ const ProjectReportDialog: React.FC<Props> = ({ open, onOpenChange, projectId })
         <div className="flex items-center justify-between border-b pl-4 pr-12 py-3">
           <h2 className="text-lg font-semibold">Project Report</h2>
           <div className="flex items-center gap-2">
-            <Button variant={copied ? "default" : "outline"} disabled={!model || exporting !== null} onClick={onGenerateEmail}>
+            {project && period && canEditProject(project) && (
+              <Button
+                variant="outline"
+                disabled={!model || !!periodReport || submitting}
+                onClick={onSubmitOfficial}
+                title={
+                  periodReport
+                    ? "This period already has an official report"
+                    : returnedReport
+                      ? `Returned by ${returnedReport.reviewed_by_name || "the director"}: ${returnedReport.review_comment || ""}`
+                      : undefined
+                }
+              >
+                {submitting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Lock className="h-4 w-4" />}
+                <span className="ml-2">
+                  {periodReport
+                    ? APPROVAL_STATUS_LABELS[periodReport.approval_status]
+                    : returnedReport
+                      ? "Resubmit"
+                      : "Submit"}{" "}
+                  for {formatReportingPeriod(period)}
+                </span>
+              </Button>
+            )}
+            <Button
+              variant={copied ? "default" : "outline"}
+              disabled={!exportModel || exporting !== null}
+              onClick={onGenerateEmail}
+              title={exportTitle}
+            >
               {exporting === "email" ? <Loader2 className="h-4 w-4 animate-spin" /> : copied ? <Check className="h-4 w-4" /> : <Mail className="h-4 w-4" />}
               <span className="ml-2">{copied ? "Copied!" : "Copy for email"}</span>
             </Button>
-            <Button variant="outline" disabled={!model || exporting !== null} onClick={onExportDocx}>
+            <Button variant="outline" disabled={!exportModel || exporting !== null} onClick={onExportDocx} title={exportTitle}>
               {exporting === "docx" ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileText className="h-4 w-4" />}
               <span className="ml-2">Export Word</span>
             </Button>
-            <Button disabled={!model} onClick={onPrintPdf}>
+            <Button disabled={!exportModel} onClick={onPrintPdf} title={exportTitle}>
               <FileType className="h-4 w-4" />
               <span className="ml-2">Save as PDF</span>
             </Button>
@@ -177,6 +288,24 @@ const ProjectReportDialog: React.FC<Props> = ({ open, onOpenChange, projectId })
             <p className="text-xs text-muted-foreground mt-4">
               Showing <strong>saved</strong> data. Save your changes first to include recent edits.
             </p>
+
+            {requiresApproval && (
+              <p className="text-xs text-muted-foreground mt-4">
+                This department requires director approval.{" "}
+                {approvedLabel
+                  ? <>Exports use the approved report for <strong>{approvedLabel}</strong>, not this preview.</>
+                  : "Exports are available once a report has been approved."}
+              </p>
+            )}
+
+            {returnedReport && !periodReport && (
+              <div className="mt-4 rounded-md border border-amber-300 bg-amber-50 p-3 text-xs text-amber-900">
+                <div className="font-semibold mb-1">
+                  Returned by {returnedReport.reviewed_by_name || "the director"}
+                </div>
+                {returnedReport.review_comment}
+              </div>
+            )}
           </div>
           {/* Preview */}
           <ScrollArea className="flex-1 bg-gray-100">
@@ -188,11 +317,11 @@ const ProjectReportDialog: React.FC<Props> = ({ open, onOpenChange, projectId })
           </ScrollArea>
         </div>
       </DialogContent>
-      {model && createPortal(
+      {exportModel && createPortal(
         <>
           <style>{PRINT_CSS}</style>
           <div id="report-print-root">
-            <ProjectReportPreview model={model} />
+            <ProjectReportPreview model={exportModel} />
           </div>
         </>,
         document.body,
@@ -10,8 +10,9 @@ import {
   milestoneStatusColor,
   isMilestoneComplete,
 } from "@/lib/report/branding";
-import { formatCurrency, formatPercent, statusLabel } from "@/lib/report/format";
+import { formatCurrency, formatPercent, statusLabel, riskMetaLine, baselineVarianceLine, changeRequestMetaLine, issueMetaLine, decisionMetaLine } from "@/lib/report/format";
 import RichTextView from "./RichTextView";
+import RiskHeatMap from "@/components/project/RiskHeatMap";
 
 const SectionTitle: React.FC<{ children: React.ReactNode }> = ({ children }) => (
   <h2 className="text-lg font-bold mt-6 mb-2 pb-1 border-b-2" style={{ color: BRAND.colors.primary, borderColor: BRAND.colors.primary }}>
@@ -200,6 +201,12 @@ const ProjectReportPreview: React.FC<{ model: ReportModel }> = ({ model }) => {
           <div><span className="text-gray-500">Dates:</span> {header.startDate || "—"} → {header.endDate || "—"}</div>
           <div><span className="text-gray-500">Budget:</span> {formatCurrency(header.budgetTotal)}</div>
           <div><span className="text-gray-500">Generated:</span> {header.generatedOn}</div>
+          {header.baseline && (
+            <div className="col-span-2"><span className="text-gray-500">Vs. baseline:</span> {baselineVarianceLine(header.baseline)}</div>
+          )}
+          {header.healthOverride && (
+            <div className="col-span-2 italic">{header.healthOverride}</div>
+          )}
         </div>
       </div>
 
@@ -286,8 +293,43 @@ const SectionBlock: React.FC<{
         <div>
           <SectionTitle>Risks</SectionTitle>
           {!s.risks?.length && <p className="text-sm text-gray-400 italic">None recorded</p>}
+          {s.riskHeatMap && (
+            <div className="mb-3"><RiskHeatMap grid={s.riskHeatMap} /></div>
+          )}
           {s.risks?.map((r, i) => (
-            <div key={i} className="text-sm mb-1"><span className="font-medium">{r.description}</span> — <span className="text-gray-600">{r.impact}</span></div>
+            <div key={i} className="text-sm mb-1">
+              <span className="font-medium">{r.description}</span> — <span className="text-gray-600">{r.impact}</span>
+              <div className="text-xs text-gray-500">{riskMetaLine(r)}</div>
+              {r.mitigationPlan && <div className="text-xs text-gray-500">Mitigation: {r.mitigationPlan}</div>}
+            </div>
+          ))}
+        </div>
+      );
+    case "issues":
+      return (
+        <div>
+          <SectionTitle>Issue Log</SectionTitle>
+          {!s.issues?.length && <p className="text-sm text-gray-400 italic">None recorded</p>}
+          {s.issues?.map((issue, i) => (
+            <div key={i} className="text-sm mb-1">
+              <span className="font-medium">{issue.description}</span>
+              <div className="text-xs text-gray-500">{issueMetaLine(issue)}</div>
+              {issue.resolution && <div className="text-xs text-gray-500">Resolution: {issue.resolution}</div>}
+            </div>
+          ))}
+        </div>
+      );
+    case "decisions":
+      return (
+        <div>
+          <SectionTitle>Decision Log</SectionTitle>
+          {!s.decisions?.length && <p className="text-sm text-gray-400 italic">None recorded</p>}
+          {s.decisions?.map((d, i) => (
+            <div key={i} className="text-sm mb-1">
+              <span className="font-medium">{d.decision}</span>
+              {decisionMetaLine(d) && <div className="text-xs text-gray-500">{decisionMetaLine(d)}</div>}
+              {d.rationale && <div className="text-xs text-gray-500">Rationale: {d.rationale}</div>}
+            </div>
           ))}
         </div>
       );
@@ -305,7 +347,11 @@ const SectionBlock: React.FC<{
           <SectionTitle>Changes</SectionTitle>
           {!s.changes?.length && <p className="text-sm text-gray-400 italic">None recorded</p>}
           {s.changes?.map((c, i) => (
-            <div key={i} className="text-sm mb-1">{c.change} — <span className="text-gray-600">{c.impact}</span> <span className="text-gray-400">({c.disposition})</span></div>
+            <div key={i} className="text-sm mb-1">
+              {c.change} — <span className="text-gray-600">{c.impact}</span> <span className="text-gray-400">({c.disposition})</span>
+              {changeRequestMetaLine(c) && <div className="text-xs text-gray-500">{changeRequestMetaLine(c)}</div>}
+              {c.decisionComment && <div className="text-xs text-gray-500">Decision: {c.decisionComment}</div>}
+            </div>
           ))}
         </div>
       );
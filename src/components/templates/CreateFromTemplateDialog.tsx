@@ -0,0 +1,151 @@
+import React, { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
+import { useAuth } from "@/lib/hooks/useAuth";
+import { projectService } from "@/lib/services/project";
+import { instantiateTemplate, type ProjectTemplate } from "@/lib/services/projectTemplates";
+
+interface CreateFromTemplateDialogProps {
+  template: ProjectTemplate | null;
+  onClose: () => void;
+}
+
+const today = () => new Date().toISOString().split("T")[0];
+
+const CreateFromTemplateDialog: React.FC<CreateFromTemplateDialogProps> = ({
+  template,
+  onClose,
+}) => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { profile } = useAuth();
+  const [title, setTitle] = useState("");
+  const [startDate, setStartDate] = useState(today());
+  const [creating, setCreating] = useState(false);
+
+  useEffect(() => {
+    if (template) {
+      setTitle("");
+      setStartDate(today());
+    }
+  }, [template]);
+
+  // Preview where the plan lands for the chosen start date
+  const preview = template && startDate ? instantiateTemplate(template, startDate) : null;
+  const finish = preview?.milestones
+    .map((m) => m.end_date || m.date)
+    .sort()
+    .slice(-1)[0];
+
+  const handleCreate = async () => {
+    if (!template) return;
+    if (!title.trim() || !startDate) {
+      toast({
+        title: "Error",
+        description: "Project title and start date are required",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setCreating(true);
+    const project = await projectService.createProject(
+      {
+        title: title.trim(),
+        status: "draft",
+        budget_total: 0,
+        budget_actuals: 0,
+        budget_forecast: 0,
+        charter_link: "",
+        sponsors: "",
+        business_leads: "",
+        project_manager: profile?.full_name || "",
+        department: template.department || profile?.department || undefined,
+        milestones: [],
+        accomplishments: [],
+        next_period_activities: [],
+        risks: [],
+        considerations: [],
+      },
+      { template, startDate },
+    );
+    setCreating(false);
+
+    if (!project) {
+      toast({
+        title: "Error",
+        description: "Failed to create project from template",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({ title: "Success", description: "Project created from template" });
+    onClose();
+    navigate(`/project/${project.id}`);
+  };
+
+  return (
+    <Dialog open={!!template} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Create from {template?.name}</DialogTitle>
+          <DialogDescription>
+            Milestones and tasks are scheduled from the start date you choose.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="space-y-1.5">
+            <Label htmlFor="template-project-title">Project Title *</Label>
+            <Input
+              id="template-project-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="Enter project title..."
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="template-start-date">Start Date *</Label>
+            <Input
+              id="template-start-date"
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+            />
+          </div>
+          {preview && (
+            <p className="text-sm text-muted-foreground">
+              {preview.milestones.length} milestones,{" "}
+              {preview.milestones.reduce((sum, m) => sum + m.tasks.length, 0)} tasks,{" "}
+              {preview.risks.length} risks
+              {finish && <> · planned finish {finish}</>}
+            </p>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={creating}>
+            Cancel
+          </Button>
+          <Button onClick={handleCreate} disabled={creating}>
+            {creating && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Create Project
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CreateFromTemplateDialog;
@@ -0,0 +1,143 @@
+import React, { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectTrigger, SelectContent, SelectItem, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
+import { supabase } from "@/lib/supabase";
+import type { ProjectWithRelations } from "@/lib/services/project";
+import { projectTemplatesService } from "@/lib/services/projectTemplates";
+
+interface SaveAsTemplateDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  project: ProjectWithRelations;
+}
+
+const ALL_DEPARTMENTS = "all";
+
+const SaveAsTemplateDialog: React.FC<SaveAsTemplateDialogProps> = ({
+  isOpen,
+  onClose,
+  project,
+}) => {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [department, setDepartment] = useState(ALL_DEPARTMENTS);
+  const [departments, setDepartments] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(`${(project.title || "").replace(/<[^>]*>/g, "")} Template`);
+    setDescription("");
+    setDepartment(project.department || ALL_DEPARTMENTS);
+    supabase
+      .from("departments")
+      .select("name")
+      .order("name")
+      .then(({ data }) => setDepartments((data || []).map((d) => d.name)));
+  }, [isOpen, project]);
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast({
+        title: "Error",
+        description: "Template name is required",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    const template = await projectTemplatesService.saveProjectAsTemplate(project, {
+      name,
+      description: description.trim() || null,
+      department: department === ALL_DEPARTMENTS ? null : department,
+    });
+    setSaving(false);
+
+    if (!template) {
+      toast({
+        title: "Error",
+        description: "Failed to save template",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Template saved",
+      description: `${template.name} (${template.milestones.length} milestones) is now in the template library.`,
+    });
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Save as Template</DialogTitle>
+          <DialogDescription>
+            Saves the saved milestones (with weights and tasks), risks and considerations. Dates are
+            kept relative to the project start; progress and statuses are not copied.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="space-y-1.5">
+            <Label htmlFor="template-name">Name *</Label>
+            <Input id="template-name" value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+          <div className="space-y-1.5">
+            <Label>Available to</Label>
+            <Select value={department} onValueChange={setDepartment}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_DEPARTMENTS}>All departments</SelectItem>
+                {departments.map((dept) => (
+                  <SelectItem key={dept} value={dept}>
+                    {dept}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="template-description">Description</Label>
+            <Textarea
+              id="template-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={3}
+              placeholder="When should this template be used?"
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save Template
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SaveAsTemplateDialog;
@@ -0,0 +1,152 @@
+import React, { useState } from "react";
+import { format } from "date-fns";
+import { Camera, Check, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectTrigger, SelectContent, SelectItem, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
+import { projectBaselinesService, type ProjectBaseline } from "@/lib/services/projectBaselines";
+
+interface BaselineControlsProps {
+  projectId: string;
+  baselines: ProjectBaseline[];
+  selectedId: string | null;
+  canEdit: boolean;
+  onSelect: (baselineId: string | null) => void;
+  onChanged: () => void; // reload baselines after a capture or activation
+}
+
+const NONE = "none";
+
+const BaselineControls: React.FC<BaselineControlsProps> = ({
+  projectId,
+  baselines,
+  selectedId,
+  canEdit,
+  onSelect,
+  onChanged,
+}) => {
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const selected = baselines.find((b) => b.id === selectedId) || null;
+
+  const handleCapture = async () => {
+    setSaving(true);
+    const baseline = await projectBaselinesService.captureBaseline(projectId, name, note);
+    setSaving(false);
+    if (!baseline) {
+      toast({
+        title: "Baseline not captured",
+        description: "The baseline could not be saved. Please try again.",
+        variant: "destructive",
+      });
+      return;
+    }
+    toast({ title: "Baseline captured", description: `"${baseline.name}" is now the active baseline.` });
+    setIsOpen(false);
+    setName("");
+    setNote("");
+    onSelect(baseline.id);
+    onChanged();
+  };
+
+  const handleSetActive = async () => {
+    if (!selected) return;
+    const ok = await projectBaselinesService.setActiveBaseline(selected.id);
+    if (!ok) {
+      toast({ title: "Could not set active baseline", variant: "destructive" });
+      return;
+    }
+    toast({ title: "Active baseline updated", description: `Variance is now measured against "${selected.name}".` });
+    onChanged();
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-sm text-muted-foreground">Baseline</span>
+      <Select value={selectedId || NONE} onValueChange={(v) => onSelect(v === NONE ? null : v)}>
+        <SelectTrigger className="w-[220px]">
+          <SelectValue placeholder="None" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NONE}>None</SelectItem>
+          {baselines.map((b) => (
+            <SelectItem key={b.id} value={b.id}>
+              {b.name} · {format(new Date(b.created_at), "MMM d, yyyy")}
+              {b.is_active ? " (active)" : ""}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {canEdit && selected && !selected.is_active && (
+        <Button variant="outline" size="sm" onClick={handleSetActive}>
+          <Check className="h-4 w-4 mr-1.5" />
+          Set Active
+        </Button>
+      )}
+      {canEdit && (
+        <Button variant="outline" size="sm" onClick={() => setIsOpen(true)}>
+          <Camera className="h-4 w-4 mr-1.5" />
+          Capture Baseline
+        </Button>
+      )}
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Capture Baseline</DialogTitle>
+            <DialogDescription>
+              Freezes the saved start and end dates of every milestone and task, plus the total budget. The new
+              baseline becomes the active one that schedule variance is measured against.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="baseline-name">Name</Label>
+              <Input
+                id="baseline-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Charter approval"
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="baseline-note">Note (optional)</Label>
+              <Textarea
+                id="baseline-note"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="Why this baseline was captured"
+              />
+            </div>
+          </div>
+          <DialogFooter className="mt-2">
+            <Button variant="ghost" onClick={() => setIsOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleCapture} disabled={saving || !name.trim()}>
+              {saving && <Loader2 className="h-4 w-4 mr-1.5 animate-spin" />}
+              Capture
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default BaselineControls;
@@ -8,8 +8,18 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
+import {
+  calculateCriticalPath,
+  dependencyKey,
+  findDependencyViolations,
+  getScheduleItems,
+  type ScheduleDependency,
+} from "@/lib/services/scheduleDependencies";
+import type { ProjectBaseline } from "@/lib/services/projectBaselines";
+import { isWeekend, type Holiday } from "@/lib/services/holidayCalendar";
 
 export interface TimelineTask {
+  id?: string; // needed to draw dependencies
   description: string;
   assignee: string;
   date: string;
@@ -18,6 +28,7 @@ export interface TimelineTask {
 }
 
 export interface TimelineMilestone {
+  id?: string; // needed to draw dependencies
   date: string;
   endDate?: string; // Optional end date for single-line display
   end_date?: string; // Database field name for end date
@@ -38,6 +49,9 @@ interface ProjectGanttProps {
   overallStatusColor?: "green" | "yellow" | "red";
   healthCalculationType?: string | null;
   rowLabelText?: string; // NEW: Customizable label for the left column header
+  dependencies?: ScheduleDependency[]; // links between milestone/task ids
+  baseline?: ProjectBaseline | null; // drawn as ghost bars under the current bars
+  holidays?: Holiday[]; // holidays that apply to this project, shaded as non-working days
 }
 
 // Lightweight, dependency-free timeline visualization
@@ -73,6 +87,9 @@ const ProjectGantt: React.FC<ProjectGanttProps> = ({
   overallStatusColor = "green",
   healthCalculationType = null,
   rowLabelText = "Milestone", // NEW: Default to "Milestone"
+  dependencies = [],
+  baseline = null,
+  holidays = [],
 }) => {
   // Scale per zoom level (px per day)
   const dayWidth = zoom === "weekly" ? 24 : zoom === "monthly" ? 8 : zoom === "quarterly" ? 3 : 1.5;
@@ -220,6 +237,24 @@ const ProjectGantt: React.FC<ProjectGanttProps> = ({
     }
   }
 
+  // Non-working day shading: holidays at every zoom, weekends only where a day is wide enough to see
+  type NonWorkingBand = { left: number; width: number; holiday?: string };
+  const nonWorkingBands: NonWorkingBand[] = [];
+  if (bufferedStart && bufferedEnd && dayWidth >= 8) {
+    const cursor = new Date(bufferedStart);
+    while (cursor <= bufferedEnd) {
+      if (isWeekend(cursor)) {
+        nonWorkingBands.push({ left: xForDate(new Date(cursor)), width: dayWidth });
+      }
+      cursor.setDate(cursor.getDate() + 1);
+    }
+  }
+  holidays.forEach((h) => {
+    const d = new Date(h.holiday_date);
+    if (isNaN(d.getTime()) || !bufferedStart || !bufferedEnd || d < bufferedStart || d > bufferedEnd) return;
+    nonWorkingBands.push({ left: xForDate(d), width: Math.max(2, dayWidth), holiday: h.name });
+  });
+
   // Milestone rows: derive durations between consecutive milestones (last -> project end)
   const rowHeight = 38; // px per row
   const taskRowHeight = 30; // px per task sub-row
@@ -252,6 +287,7 @@ const ProjectGantt: React.FC<ProjectGanttProps> = ({
     .sort((a, b) => a._date.getTime() - b._date.getTime());
 
   type Row = {
+    id?: string;
     label: string;
     start: Date;
     end: Date;
@@ -268,6 +304,7 @@ const ProjectGantt: React.FC<ProjectGanttProps> = ({
     let rowEnd = new Date(next);
     if (rowEnd < rowStart) rowEnd = new Date(rowStart);
     return {
+      id: m.id,
       label: m.milestone,
       start: rowStart,
       end: rowEnd,
@@ -376,6 +413,129 @@ const ProjectGantt: React.FC<ProjectGanttProps> = ({
     ? "bg-yellow-500 border-yellow-600"
     : "bg-green-500 border-green-600";
 
+  // Critical path and float from the dependencies (milestone and task ids)
+  const scheduleItems = getScheduleItems(
+    milestones.map((m) => ({
+      id: m.id,
+      date: m.date,
+      end_date: m.endDate || m.end_date,
+      milestone: m.milestone,
+      tasks: m.tasks,
+    })),
+  );
+  const showDependencies = dependencies.length > 0;
+  const criticalPath = calculateCriticalPath(scheduleItems, dependencies);
+  const violatedKeys = new Set(
+    findDependencyViolations(scheduleItems, dependencies).map((v) => dependencyKey(v.dependency)),
+  );
+  const isCritical = (id?: string) => showDependencies && !!id && !!criticalPath.items[id]?.critical;
+  const floatText = (id?: string) => {
+    const scheduled = id && showDependencies ? criticalPath.items[id] : undefined;
+    if (!scheduled) return "";
+    return `\nFloat: ${scheduled.totalFloat} day${scheduled.totalFloat === 1 ? "" : "s"}${scheduled.critical ? " (critical path)" : ""}`;
+  };
+
+  // Bar geometry shared by the bars and the dependency arrows
+  const milestoneBar = (r: Row) => {
+    const left = clamp(xForDate(r.start), 0, gridWidth);
+    const rightInclusive = clamp(xForDate(addDays(r.end, 1)), 0, gridWidth);
+    return { left, width: Math.max(minBarPx, rightInclusive - left) };
+  };
+  const TASK_ICON_SIZE = 28;
+  const taskIconLeft = (task: TimelineTask) => {
+    const taskLeft = clamp(xForDate(new Date(task.date)), 0, gridWidth);
+    return Math.max(0, taskLeft - 10);
+  };
+
+  // Baseline ghost bar for a milestone/task id, matched on the snapshot's item_id
+  const baselineById = new Map((baseline?.items || []).map((item) => [item.item_id, item]));
+  const baselineBar = (id?: string) => {
+    const item = id ? baselineById.get(id) : undefined;
+    if (!item) return null;
+    const bStart = new Date(item.start_date);
+    const bFinish = new Date(item.finish_date);
+    if (isNaN(bStart.getTime()) || isNaN(bFinish.getTime())) return null;
+    const left = clamp(xForDate(bStart), 0, gridWidth);
+    // Task finishes are exclusive (date + duration), milestone finishes inclusive
+    const right = clamp(xForDate(item.item_type === "task" ? bFinish : addDays(bFinish, 1)), 0, gridWidth);
+    return {
+      left,
+      width: Math.max(4, right - left),
+      title: `Baseline "${baseline?.name}": ${format(bStart, "MMM d, yyyy")} → ${format(bFinish, "MMM d, yyyy")}`,
+    };
+  };
+
+  // Anchor points per item id, in px relative to the top of the first row.
+  // Tasks of a collapsed milestone point at the milestone's bar.
+  type Anchor = { startX: number; finishX: number; y: number; rowKey: string };
+  const anchors = new Map<string, Anchor>();
+  let rowsHeight = 0;
+  rows.forEach((r, idx) => {
+    const { left, width } = milestoneBar(r);
+    const milestoneAnchor = { startX: left, finishX: left + width, y: rowsHeight + 18, rowKey: `m-${idx}` };
+    if (r.id) anchors.set(r.id, milestoneAnchor);
+    rowsHeight += 38;
+    const isExpanded = expandedMilestones.has(idx);
+    (r.tasks || []).forEach((task, tIdx) => {
+      if (!task.date) return;
+      if (isExpanded) {
+        const iconLeft = taskIconLeft(task);
+        if (task.id) {
+          anchors.set(task.id, {
+            startX: iconLeft,
+            finishX: iconLeft + TASK_ICON_SIZE,
+            y: rowsHeight + 15,
+            rowKey: `t-${idx}-${tIdx}`,
+          });
+        }
+        rowsHeight += 32;
+      } else if (task.id) {
+        anchors.set(task.id, milestoneAnchor);
+      }
+    });
+  });
+
+  // Orthogonal connector from the predecessor's finish (FS, FF) or start (SS)
+  // to the successor's start (FS, SS) or finish (FF)
+  const dependencyPath = (d: ScheduleDependency, from: Anchor, to: Anchor) => {
+    const GAP = 8;
+    const x1 = d.dependency_type === "SS" ? from.startX : from.finishX;
+    const x2 = d.dependency_type === "FF" ? to.finishX : to.startX;
+    const { y: y1 } = from;
+    const { y: y2 } = to;
+    if (d.dependency_type === "SS") {
+      const elbow = Math.min(x1, x2) - GAP;
+      return `M ${x1} ${y1} H ${elbow} V ${y2} H ${x2}`;
+    }
+    if (d.dependency_type === "FF") {
+      const elbow = Math.max(x1, x2) + GAP;
+      return `M ${x1} ${y1} H ${elbow} V ${y2} H ${x2}`;
+    }
+    if (x1 + GAP <= x2 - GAP) {
+      return `M ${x1} ${y1} H ${x1 + GAP} V ${y2} H ${x2}`;
+    }
+    // Successor starts before the predecessor's finish: route back around
+    const midY = y2 > y1 ? y2 - 19 : y2 + 19;
+    return `M ${x1} ${y1} H ${x1 + GAP} V ${midY} H ${x2 - GAP} V ${y2} H ${x2}`;
+  };
+
+  const dependencyArrows = showDependencies
+    ? dependencies
+        .map((d) => {
+          const from = anchors.get(d.predecessor_id);
+          const to = anchors.get(d.successor_id);
+          if (!from || !to || from.rowKey === to.rowKey) return null;
+          const key = dependencyKey(d);
+          return {
+            key,
+            path: dependencyPath(d, from, to),
+            critical: criticalPath.criticalDependencyKeys.includes(key),
+            violated: violatedKeys.has(key),
+          };
+        })
+        .filter((a): a is NonNullable<typeof a> => a !== null)
+    : [];
+
   // Check if any milestones have tasks with dates and if all are expanded
   const milestonesWithTasks = rows.filter(r => r.tasks && r.tasks.filter(t => t.date).length > 0);
   const allExpanded = milestonesWithTasks.length > 0 && 
@@ -496,7 +656,50 @@ const ProjectGantt: React.FC<ProjectGanttProps> = ({
 
         {/* Scrollable right section */}
         <div className="flex-1 overflow-x-auto">
-          <div style={{ width: gridWidth }}>
+          <div className="relative" style={{ width: gridWidth }}>
+            {/* Non-working days, tinted over every row below the header */}
+            {nonWorkingBands.length > 0 && (
+              <div className="absolute left-0 top-14 pointer-events-none z-[5]" style={{ width: gridWidth, height: rows.length > 0 ? rowsHeight : 38 }}>
+                {nonWorkingBands.map((b, i) => (
+                  <div
+                    key={`nw-${i}`}
+                    className={`absolute top-0 bottom-0 ${b.holiday ? "bg-amber-500/15" : "bg-muted-foreground/10"}`}
+                    style={{ left: b.left, width: b.width }}
+                  />
+                ))}
+              </div>
+            )}
+            {/* Dependency arrows, drawn over the bars below the header */}
+            {dependencyArrows.length > 0 && (
+              <svg
+                className="absolute left-0 top-14 pointer-events-none z-10 overflow-visible"
+                width={gridWidth}
+                height={rowsHeight}
+              >
+                <defs>
+                  <marker id="gantt-dep-arrow" viewBox="0 0 8 8" refX="7" refY="4" markerWidth="6" markerHeight="6" orient="auto">
+                    <path d="M 0 0 L 8 4 L 0 8 z" fill="#64748b" />
+                  </marker>
+                  <marker id="gantt-dep-arrow-critical" viewBox="0 0 8 8" refX="7" refY="4" markerWidth="6" markerHeight="6" orient="auto">
+                    <path d="M 0 0 L 8 4 L 0 8 z" fill="#dc2626" />
+                  </marker>
+                  <marker id="gantt-dep-arrow-violated" viewBox="0 0 8 8" refX="7" refY="4" markerWidth="6" markerHeight="6" orient="auto">
+                    <path d="M 0 0 L 8 4 L 0 8 z" fill="#d97706" />
+                  </marker>
+                </defs>
+                {dependencyArrows.map((a) => (
+                  <path
+                    key={a.key}
+                    d={a.path}
+                    fill="none"
+                    stroke={a.violated ? "#d97706" : a.critical ? "#dc2626" : "#64748b"}
+                    strokeWidth={a.critical ? 2 : 1.25}
+                    strokeDasharray={a.violated ? "4 3" : undefined}
+                    markerEnd={`url(#gantt-dep-arrow${a.violated ? "-violated" : a.critical ? "-critical" : ""})`}
+                  />
+                ))}
+              </svg>
+            )}
             {/* Right header with hierarchical ticks and today marker */}
             <div className="relative h-14 border-b border-border bg-background">
               {/* Primary lines */}
@@ -523,6 +726,17 @@ const ProjectGantt: React.FC<ProjectGanttProps> = ({
                   {t.label}
                 </div>
               ))}
+              {/* Holiday markers carry the name, since the row tint ignores the pointer */}
+              {nonWorkingBands
+                .filter((b) => b.holiday)
+                .map((b, i) => (
+                  <div
+                    key={`hol-${i}`}
+                    className="absolute top-0 bottom-0 bg-amber-500/25"
+                    style={{ left: b.left, width: b.width }}
+                    title={`Holiday • ${b.holiday}`}
+                  />
+                ))}
               {showToday && (
                 <div
                   className="absolute top-0 bottom-0 w-[3px] bg-red-500"
@@ -536,9 +750,7 @@ const ProjectGantt: React.FC<ProjectGanttProps> = ({
             {rows.length > 0 ? (
               rows.map((r, idx) => {
                 // Inclusive right edge; clamp to grid bounds
-                const left = clamp(xForDate(r.start), 0, gridWidth);
-                const rightInclusive = clamp(xForDate(addDays(r.end, 1)), 0, gridWidth);
-                const width = Math.max(minBarPx, rightInclusive - left);
+                const { left, width } = milestoneBar(r);
                 const color = statusColor(r.status);
                 const pct = clamp((r.completion ?? 0) / 100, 0, 1);
                 const progressWidth = Math.max(0, Math.floor(width * pct));
@@ -547,6 +759,7 @@ const ProjectGantt: React.FC<ProjectGanttProps> = ({
                 const isExpanded = expandedMilestones.has(idx);
                 const tasksWithDates = r.tasks ? r.tasks.filter(t => t.date) : [];
                 const hasTasks = tasksWithDates.length > 0;
+                const ghost = baselineBar(r.id);
                 return (
                   <React.Fragment key={idx}>
                     <div className="relative border-b border-border h-[38px] bg-background">
@@ -564,13 +777,24 @@ const ProjectGantt: React.FC<ProjectGanttProps> = ({
                       {showToday && (
                         <div className="absolute top-0 bottom-0 w-[3px] bg-red-500" style={{ left: todayLeft || 0 }} />
                       )}
+                      {/* Baseline ghost bar */}
+                      {ghost && (
+                        <div
+                          className="absolute top-[31px] h-[5px] rounded-sm bg-slate-400/60 border border-slate-500/60"
+                          style={{ left: ghost.left, width: ghost.width }}
+                          title={ghost.title}
+                        />
+                      )}
                       {/* Bar */}
                       <div
-                        className={`absolute top-1.5 h-6 rounded-md shadow-sm text-[11px] leading-6 text-white dark:text-black px-2 overflow-hidden whitespace-nowrap ${color}`}
+                        className={`absolute top-1.5 h-6 rounded-md shadow-sm text-[11px] leading-6 text-white dark:text-black px-2 overflow-hidden whitespace-nowrap ${color} ${
+                          isCritical(r.id) ? "ring-2 ring-red-600 ring-offset-1 ring-offset-background" : ""
+                        }`}
                         style={{ left, width }}
                         title={
                           `${r.label}\n${format(r.start, "MMM d, yyyy")} → ${format(r.end, "MMM d, yyyy")}\n` +
-                          `Status: ${r.status ?? "n/a"}\nTasks: ${r.tasksCount ?? 0}\n% Complete: ${Math.round((r.completion ?? 0))}%\nDuration: ${durationDays} day${durationDays === 1 ? "" : "s"}`
+                          `Status: ${r.status ?? "n/a"}\nTasks: ${r.tasksCount ?? 0}\n% Complete: ${Math.round((r.completion ?? 0))}%\nDuration: ${durationDays} day${durationDays === 1 ? "" : "s"}` +
+                          floatText(r.id)
                         }
                       >
                         {/* Progress overlay */}
@@ -584,8 +808,8 @@ const ProjectGantt: React.FC<ProjectGanttProps> = ({
                       const taskStartDate = new Date(task.date);
                       const taskDuration = task.duration_days || 1;
                       const taskEndDate = addDays(taskStartDate, taskDuration);
-                      const taskLeft = clamp(xForDate(taskStartDate), 0, gridWidth);
                       const taskPct = clamp((task.completion ?? 0) / 100, 0, 1);
+                      const taskGhost = baselineBar(task.id);
                       const completionColor = taskPct >= 1 ? "text-white border border-emerald-500 bg-emerald-500/80 shadow-sm shadow-emerald-500/30 ring-1 ring-emerald-400/30" : taskPct >= 0.5 ? "text-white border border-sky-500 bg-sky-500/80 shadow-sm shadow-sky-500/30 ring-1 ring-sky-400/30" : "text-white border border-rose-500 bg-rose-500/80 shadow-sm shadow-rose-500/30 ring-1 ring-rose-400/30";
                       return (
                         <div key={`task-bar-${idx}-${tIdx}`} className="relative border-b border-border/50 h-[32px] bg-background/50">
@@ -599,13 +823,22 @@ const ProjectGantt: React.FC<ProjectGanttProps> = ({
                           {showToday && (
                             <div className="absolute top-0 bottom-0 w-[3px] bg-red-500/50" style={{ left: todayLeft || 0 }} />
                           )}
+                          {taskGhost && (
+                            <div
+                              className="absolute top-[29px] h-[3px] rounded-sm bg-slate-400/70"
+                              style={{ left: taskGhost.left, width: taskGhost.width }}
+                              title={taskGhost.title}
+                            />
+                          )}
                           {/* Task icon with tooltip */}
                           <TooltipProvider delayDuration={150}>
                             <Tooltip>
                               <TooltipTrigger asChild>
                                 <div
-                                  className={`absolute top-[1px] flex items-center justify-center w-7 h-7 rounded-md cursor-pointer hover:scale-115 hover:brightness-110 transition-all duration-200 ${completionColor}`}
-                                  style={{ left: Math.max(0, taskLeft - 10) }}
+                                  className={`absolute top-[1px] flex items-center justify-center w-7 h-7 rounded-md cursor-pointer hover:scale-115 hover:brightness-110 transition-all duration-200 ${completionColor} ${
+                                    isCritical(task.id) ? "ring-2 ring-red-600 ring-offset-1 ring-offset-background" : ""
+                                  }`}
+                                  style={{ left: taskIconLeft(task) }}
                                 >
                                   <ListTodo className="h-3.5 w-3.5 drop-shadow-sm" />
                                 </div>
@@ -628,6 +861,15 @@ const ProjectGantt: React.FC<ProjectGanttProps> = ({
                                     <div className="font-medium">{format(taskEndDate, "MMM d, yyyy")}</div>
                                     <div className="text-muted-foreground">Duration</div>
                                     <div className="font-medium">{taskDuration} day{taskDuration === 1 ? "" : "s"}</div>
+                                    {task.id && showDependencies && criticalPath.items[task.id] && (
+                                      <>
+                                        <div className="text-muted-foreground">Float</div>
+                                        <div className={`font-medium ${isCritical(task.id) ? "text-red-600" : ""}`}>
+                                          {criticalPath.items[task.id].totalFloat} day{criticalPath.items[task.id].totalFloat === 1 ? "" : "s"}
+                                          {isCritical(task.id) ? " (critical)" : ""}
+                                        </div>
+                                      </>
+                                    )}
                                   </div>
                                   <div className="space-y-1">
                                     <div className="flex items-center justify-between text-xs">
@@ -682,6 +924,24 @@ const ProjectGantt: React.FC<ProjectGanttProps> = ({
         <div className="flex items-center gap-2"><span className="w-3 h-3 rounded-full bg-red-500 border border-red-600" /> Red</div>
         <div className="flex items-center gap-2"><span className="w-5 h-5 rounded-[3px] border border-rose-500 bg-rose-500/80 shadow-sm shadow-rose-500/30 ring-1 ring-rose-400/30 flex items-center justify-center text-white"><ListTodo className="h-2.5 w-2.5" /></span> Sub-task (hover for details)</div>
         {showToday && <div className="flex items-center gap-2"><span className="w-[3px] h-4 bg-red-500" /> Today</div>}
+        {nonWorkingBands.some((b) => b.holiday) && (
+          <div className="flex items-center gap-2"><span className="w-3 h-4 bg-amber-500/25" /> Holiday</div>
+        )}
+        {nonWorkingBands.some((b) => !b.holiday) && (
+          <div className="flex items-center gap-2"><span className="w-3 h-4 bg-muted-foreground/10" /> Weekend</div>
+        )}
+        {baseline && (
+          <div className="flex items-center gap-2"><span className="w-5 h-[5px] rounded-sm bg-slate-400/60 border border-slate-500/60" /> Baseline ({baseline.name})</div>
+        )}
+        {showDependencies && (
+          <>
+            <div className="flex items-center gap-2"><span className="w-5 h-0 border-t border-slate-500" /> Dependency</div>
+            <div className="flex items-center gap-2"><span className="w-4 h-2 rounded-sm ring-2 ring-red-600" /> Critical path</div>
+            {violatedKeys.size > 0 && (
+              <div className="flex items-center gap-2"><span className="w-5 h-0 border-t-2 border-dashed border-amber-600" /> Dependency not met</div>
+            )}
+          </>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,87 @@
+import React, { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+
+export interface AllocationValue {
+  allocation_percent: number | null;
+  allocation_hours: number | null;
+}
+
+interface AllocationInputProps {
+  percent?: number | null;
+  hours?: number | null;
+  onChange: (value: AllocationValue) => void;
+  className?: string;
+}
+
+/**
+ * Allocation of an assignee to a task or activity, either as a share of
+ * their working day (%) or as total hours over the item's dates. Left empty,
+ * the item counts as a full-time (100%) assignment.
+ */
+export const AllocationInput: React.FC<AllocationInputProps> = ({
+  percent,
+  hours,
+  onChange,
+  className,
+}) => {
+  const [unit, setUnit] = useState<"percent" | "hours">(
+    hours != null ? "hours" : "percent",
+  );
+  const value = unit === "hours" ? hours : percent;
+
+  const emit = (raw: number | null, nextUnit: "percent" | "hours") =>
+    onChange({
+      allocation_percent: nextUnit === "percent" ? raw : null,
+      allocation_hours: nextUnit === "hours" ? raw : null,
+    });
+
+  const handleValueChange = (text: string) => {
+    if (text.trim() === "") {
+      emit(null, unit);
+      return;
+    }
+    const parsed = Number(text);
+    if (Number.isNaN(parsed)) return;
+    emit(unit === "percent" ? Math.min(100, Math.max(0, parsed)) : Math.max(0, parsed), unit);
+  };
+
+  const toggleUnit = () => {
+    const nextUnit = unit === "percent" ? "hours" : "percent";
+    setUnit(nextUnit);
+    // A value in one unit means nothing in the other, so start over
+    emit(null, nextUnit);
+  };
+
+  return (
+    <div className={`flex items-center gap-1 ${className || ""}`}>
+      <Input
+        type="number"
+        min="0"
+        max={unit === "percent" ? "100" : undefined}
+        step={unit === "percent" ? "5" : "0.5"}
+        value={value ?? ""}
+        onChange={(e) => handleValueChange(e.target.value)}
+        placeholder={unit === "percent" ? "100" : "Hours"}
+        title={
+          unit === "percent"
+            ? "Share of the assignee's working day (empty = 100%)"
+            : "Total hours over the item's dates"
+        }
+        className="bg-card/50 backdrop-blur-sm border-border text-foreground px-2"
+      />
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={toggleUnit}
+        className="h-10 w-9 px-0 shrink-0 bg-card/50 border-border text-foreground"
+        title={unit === "percent" ? "Switch to hours" : "Switch to percent"}
+      >
+        {unit === "percent" ? "%" : "h"}
+      </Button>
+    </div>
+  );
+};
+
+export default AllocationInput;
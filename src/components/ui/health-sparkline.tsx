@@ -0,0 +1,51 @@
+import React, { useMemo } from "react";
+import { cn } from "@/lib/utils";
+import {
+  buildHealthTimeline,
+  type HealthSnapshot,
+} from "@/lib/services/healthHistory";
+import type { HealthColor } from "@/lib/services/healthRules";
+
+const BAR_CLASSES: Record<HealthColor, string> = {
+  green: "bg-green-500",
+  yellow: "bg-yellow-500",
+  red: "bg-red-500",
+};
+
+interface HealthSparklineProps {
+  snapshots: HealthSnapshot[];
+  /** Days shown, ending today */
+  days?: number;
+  className?: string;
+}
+
+/**
+ * One thin bar per day colored by that day's health snapshot; days without a
+ * snapshot are left muted.
+ */
+export const HealthSparkline: React.FC<HealthSparklineProps> = ({
+  snapshots,
+  days = 30,
+  className,
+}) => {
+  const timeline = useMemo(() => buildHealthTimeline(snapshots, days), [snapshots, days]);
+
+  if (snapshots.length === 0) {
+    return <span className="text-xs text-muted-foreground">No history</span>;
+  }
+
+  return (
+    <div
+      className={cn("flex h-4 items-stretch gap-px", className)}
+      aria-label={`Health over the last ${days} days`}
+    >
+      {timeline.map(({ date, color }) => (
+        <div
+          key={date}
+          title={`${date}: ${color ?? "no snapshot"}`}
+          className={cn("w-1 rounded-sm", color ? BAR_CLASSES[color] : "bg-muted")}
+        />
+      ))}
+    </div>
+  );
+};
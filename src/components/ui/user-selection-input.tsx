@@ -7,7 +7,8 @@ import UserSelectionPopup from "./user-selection-popup";
 
 interface UserSelectionInputProps {
   value: string;
-  onChange: (value: string) => void;
+  /** directoryUserIds lines up with the comma-separated names in value */
+  onChange: (value: string, directoryUserIds?: Array<string | null>) => void;
   placeholder?: string;
   multiSelect?: boolean;
   className?: string;
@@ -34,13 +35,18 @@ const UserSelectionInput: React.FC<UserSelectionInputProps> = ({
         .filter(Boolean)
     : [];
 
-  const handleUserSelection = (users: string[], searchTerm?: string) => {
+  const handleUserSelection = (
+    users: string[],
+    searchTerm?: string,
+    directoryUserIds?: Array<string | null>,
+  ) => {
     console.log("[UserSelectionInput] User selection received:", {
       users,
       searchTerm,
+      directoryUserIds,
     });
     const newValue = users.join(", ");
-    onChange(newValue);
+    onChange(newValue, directoryUserIds);
   };
 
   const removeUser = (userToRemove: string, e: React.MouseEvent) => {
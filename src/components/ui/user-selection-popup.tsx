@@ -43,7 +43,12 @@ interface CustomOther {
 interface UserSelectionPopupProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onSelect: (selectedUsers: string[], searchTerm?: string) => void;
+  /** directoryUserIds lines up with selectedUsers; null for custom entries */
+  onSelect: (
+    selectedUsers: string[],
+    searchTerm?: string,
+    directoryUserIds?: Array<string | null>,
+  ) => void;
   multiSelect?: boolean;
   title?: string;
   placeholder?: string;
@@ -66,6 +71,10 @@ const UserSelectionPopup: React.FC<UserSelectionPopupProps> = ({
   const [searchTerm, setSearchTerm] = useState("");
   const [tempSelectedUsers, setTempSelectedUsers] =
     useState<string[]>(selectedUsers);
+  // Directory ids of the users clicked in this session, by display name
+  const [pickedUserIds, setPickedUserIds] = useState<Record<string, string>>(
+    {},
+  );
   const [showAddOtherOption, setShowAddOtherOption] = useState(false);
   const [searchHistory, setSearchHistory] = useState<SearchHistoryItem[]>([]);
   const [currentSearchTerm, setCurrentSearchTerm] = useState("");
@@ -76,6 +85,7 @@ const UserSelectionPopup: React.FC<UserSelectionPopupProps> = ({
       loadUsers();
       // Properly reset temp selected users to match the actual selected users
       setTempSelectedUsers([...selectedUsers]);
+      setPickedUserIds({});
 
       // Load search history and set initial search term
       const history = searchHistoryService.getSearchHistory();
@@ -354,9 +364,12 @@ const UserSelectionPopup: React.FC<UserSelectionPopupProps> = ({
     }
   };
 
-  const handleUserToggle = (displayName: string) => {
+  const handleUserToggle = (displayName: string, directoryUserId?: string) => {
     // Update the current search term when a user is selected
     setCurrentSearchTerm(searchTerm);
+    if (directoryUserId) {
+      setPickedUserIds((prev) => ({ ...prev, [displayName]: directoryUserId }));
+    }
 
     if (multiSelect) {
       setTempSelectedUsers((prev) => {
@@ -548,7 +561,17 @@ const UserSelectionPopup: React.FC<UserSelectionPopupProps> = ({
       searchHistoryService.addToHistory(finalSearchTerm, primaryUser);
     }
 
-    onSelect(tempSelectedUsers, finalSearchTerm);
+    // Names that were not clicked (kept from before, or picked from the
+    // search history) only resolve when exactly one directory user has them
+    const directoryUserIds = tempSelectedUsers.map((name) => {
+      if (pickedUserIds[name]) return pickedUserIds[name];
+      const matches = users.filter(
+        (user) => user.display_name.toLowerCase() === name.toLowerCase(),
+      );
+      return matches.length === 1 ? matches[0].id : null;
+    });
+
+    onSelect(tempSelectedUsers, finalSearchTerm, directoryUserIds);
     onOpenChange(false);
   };
 
@@ -941,7 +964,9 @@ const UserSelectionPopup: React.FC<UserSelectionPopupProps> = ({
                           ? "bg-primary/10 border-2 border-primary/30 shadow-sm"
                           : "hover:bg-card hover:shadow-sm border-2 border-transparent"
                       }`}
-                      onClick={() => handleUserToggle(user.display_name)}
+                      onClick={() =>
+                        handleUserToggle(user.display_name, user.id)
+                      }
                     >
                       <div className="flex-shrink-0">
                         <div
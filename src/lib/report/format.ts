@@ -20,3 +20,113 @@ export function statusLabel(status: string): string {
     default: return "Active";
   }
 }
+
+// Header line comparing the plan with its active baseline, e.g.
+// "Charter (Mar 2, 2026): +12 days (+20%) · Budget +$20,000".
+export function baselineVarianceLine(b: {
+  name: string;
+  endDate: string | null;
+  finishVarianceDays: number | null;
+  scheduleVariancePercent: number | null;
+  budgetVariance: number | null;
+}): string {
+  const sign = (n: number) => (n > 0 ? "+" : n < 0 ? "-" : "±");
+  let line = b.endDate ? `${b.name} (${b.endDate})` : b.name;
+  if (b.finishVarianceDays !== null) {
+    line += `: ${sign(b.finishVarianceDays)}${Math.abs(b.finishVarianceDays)} days`;
+    if (b.scheduleVariancePercent !== null) {
+      line += ` (${sign(b.scheduleVariancePercent)}${Math.abs(b.scheduleVariancePercent)}%)`;
+    }
+  }
+  if (b.budgetVariance) {
+    line += ` · Budget ${sign(b.budgetVariance)}${formatCurrency(Math.abs(b.budgetVariance))}`;
+  }
+  return line;
+}
+
+// One-line register summary shown under each risk in every renderer, e.g.
+// "Exposure 12 (High) · Owner: Jane Doe · Mitigating · Trigger Mar 3, 2026".
+export function riskMetaLine(r: {
+  exposure: number | null;
+  exposureLevel: string | null;
+  owner: string;
+  status: string;
+  triggerDate: string | null;
+  realizedBy: string | null;
+}): string {
+  const parts: string[] = [];
+  if (r.exposure !== null && r.exposureLevel) {
+    parts.push(`Exposure ${r.exposure} (${r.exposureLevel.charAt(0).toUpperCase()}${r.exposureLevel.slice(1)})`);
+  }
+  if (r.owner && r.owner !== "—") parts.push(`Owner: ${r.owner}`);
+  parts.push(r.status);
+  if (r.triggerDate) parts.push(`Trigger ${r.triggerDate}`);
+  if (r.realizedBy) parts.push(`Realized via: ${r.realizedBy}`);
+  return parts.join(" · ");
+}
+
+// One-line change request history shown under each change in every renderer,
+// e.g. "Approved · Requested by Jane Doe · Budget +$20,000 · Schedule +14 days
+// (Design, Build) · Approved by Sam Lee, Mar 3, 2026". Empty for reports
+// stored before changes had a lifecycle.
+export function changeRequestMetaLine(c: {
+  status?: string;
+  requestedBy?: string | null;
+  budgetDelta?: number;
+  scheduleDeltaDays?: number;
+  affectedMilestones?: string[];
+  submittedAt?: string | null;
+  decidedBy?: string | null;
+  decidedAt?: string | null;
+  implementedAt?: string | null;
+}): string {
+  if (!c.status) return "";
+  const parts: string[] = [c.status];
+  if (c.requestedBy) parts.push(`Requested by ${c.requestedBy}`);
+  if (c.budgetDelta) {
+    parts.push(`Budget ${c.budgetDelta > 0 ? "+" : "-"}${formatCurrency(Math.abs(c.budgetDelta))}`);
+  }
+  if (c.scheduleDeltaDays) {
+    const days = Math.abs(c.scheduleDeltaDays);
+    let schedule = `Schedule ${c.scheduleDeltaDays > 0 ? "+" : "-"}${days} ${days === 1 ? "day" : "days"}`;
+    if (c.affectedMilestones?.length) schedule += ` (${c.affectedMilestones.join(", ")})`;
+    parts.push(schedule);
+  }
+  if (c.submittedAt) parts.push(`Submitted ${c.submittedAt}`);
+  if (c.decidedAt) {
+    parts.push(`${c.status === "Rejected" ? "Rejected" : "Approved"}${c.decidedBy ? ` by ${c.decidedBy}` : ""}, ${c.decidedAt}`);
+  }
+  if (c.implementedAt) parts.push(`Implemented ${c.implementedAt}`);
+  return parts.join(" · ");
+}
+
+// One-line issue log summary shown under each issue in every renderer, e.g.
+// "Critical · Owner: Jane Doe · Due Mar 3, 2026 · Escalation: Steering committee · Open".
+export function issueMetaLine(i: {
+  severity: string;
+  owner: string;
+  dueDate: string | null;
+  escalation: string;
+  status: string;
+}): string {
+  const parts: string[] = [i.severity];
+  if (i.owner && i.owner !== "—") parts.push(`Owner: ${i.owner}`);
+  if (i.dueDate) parts.push(`Due ${i.dueDate}`);
+  parts.push(`Escalation: ${i.escalation}`);
+  parts.push(i.status);
+  return parts.join(" · ");
+}
+
+// One-line decision log summary, e.g. "Mar 3, 2026 · Decided by Sam Lee ·
+// Re: Risk: Vendor delay; Milestone: Build".
+export function decisionMetaLine(d: {
+  date: string | null;
+  decidedBy: string;
+  linkedItems: string[];
+}): string {
+  const parts: string[] = [];
+  if (d.date) parts.push(d.date);
+  if (d.decidedBy && d.decidedBy !== "—") parts.push(`Decided by ${d.decidedBy}`);
+  if (d.linkedItems.length) parts.push(`Re: ${d.linkedItems.join("; ")}`);
+  return parts.join(" · ");
+}
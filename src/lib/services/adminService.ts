@@ -24,6 +24,20 @@ export interface PendingUser {
   status: "pending" | "approved" | "rejected";
 }
 
+export interface HealthRecalcLog {
+  id: string;
+  run_at: string;
+  triggered_by: "schedule" | "manual";
+  projects_processed: number;
+  durations_updated: number;
+  overrides_expired: number;
+  colors_changed: number;
+  color_changes: Array<{ project_id: string; title: string; from: string | null; to: string }>;
+  errors: Array<{ project_id: string; title: string; error: string }>;
+  error_message: string | null;
+  execution_time_ms: number | null;
+}
+
 export const adminService = {
   async getPendingUsers(): Promise<PendingUser[]> {
     const { data, error } = await supabase
@@ -438,6 +452,51 @@ export const adminService = {
     }
   },
 
+  /** Runs the nightly duration and health color recalculation now */
+  async triggerHealthScheduler(): Promise<{
+    success: boolean;
+    message: string;
+  }> {
+    try {
+      const { data, error } = await supabase.functions.invoke(
+        "supabase-functions-health-scheduler",
+        {
+          body: { manual: true },
+        },
+      );
+      if (error || data?.success === false) {
+        console.error("Error triggering health scheduler:", error || data?.error);
+        return {
+          success: false,
+          message: `Health recalculation error: ${error?.message || data?.error || "Unknown error"}`,
+        };
+      }
+      return {
+        success: true,
+        message: `Recalculated ${data?.projectsProcessed ?? 0} projects; ${data?.colorChanges?.length ?? 0} changed color.`,
+      };
+    } catch (error) {
+      console.error("Error triggering health scheduler:", error);
+      return {
+        success: false,
+        message: `Unexpected error: ${error.message || "Failed to trigger health recalculation"}`,
+      };
+    }
+  },
+
+  async getHealthRecalcLogs(limit: number = 10): Promise<HealthRecalcLog[]> {
+    const { data, error } = await supabase
+      .from("health_recalc_logs")
+      .select("*")
+      .order("run_at", { ascending: false })
+      .limit(limit);
+    if (error) {
+      console.error("Error fetching health recalculation logs:", error);
+      return [];
+    }
+    return (data || []) as unknown as HealthRecalcLog[];
+  },
+
   async approveUser(userId: string, email: string): Promise<boolean> {
     try {
       // First, update the user's metadata in auth.users via admin API
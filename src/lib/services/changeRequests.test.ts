@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatScheduleDelta,
+  getAllowedTransitions,
+  previewChangeRequestImpact,
+  toChangeRequestFields,
+} from "./changeRequests";
+import { changeRequestMetaLine } from "@/lib/report/format";
+
+describe("toChangeRequestFields", () => {
+  it("defaults legacy free-text changes to empty drafts", () => {
+    const fields = toChangeRequestFields({ change: "Add AP module", impact: "", disposition: "" });
+    expect(fields.status).toBe("draft");
+    expect(fields.budget_delta).toBe(0);
+    expect(fields.schedule_delta_days).toBe(0);
+    expect(fields.affected_milestone_ids).toEqual([]);
+    expect(fields.budget_applied).toBe(false);
+  });
+
+  it("parses numeric columns returned as strings", () => {
+    const fields = toChangeRequestFields({ status: "approved", budget_delta: "2500.50", schedule_delta_days: 7 });
+    expect(fields.status).toBe("approved");
+    expect(fields.budget_delta).toBe(2500.5);
+    expect(fields.schedule_delta_days).toBe(7);
+  });
+});
+
+describe("getAllowedTransitions", () => {
+  const editor = { canEdit: true, canDecide: false };
+  const director = { canEdit: false, canDecide: true };
+
+  it("lets editors submit, withdraw and implement", () => {
+    expect(getAllowedTransitions("draft", editor)).toEqual(["submitted"]);
+    expect(getAllowedTransitions("submitted", editor)).toEqual(["draft"]);
+    expect(getAllowedTransitions("approved", editor)).toEqual(["implemented"]);
+  });
+
+  it("lets reviewers decide submitted requests only", () => {
+    expect(getAllowedTransitions("draft", director)).toEqual([]);
+    expect(getAllowedTransitions("submitted", director)).toEqual(["approved", "rejected"]);
+    expect(getAllowedTransitions("rejected", { canEdit: true, canDecide: true })).toEqual([]);
+    expect(getAllowedTransitions("implemented", { canEdit: true, canDecide: true })).toEqual([]);
+  });
+});
+
+describe("previewChangeRequestImpact", () => {
+  const project = {
+    budget_total: 100000,
+    milestones: [
+      { id: "m1", milestone: "Design", date: "2026-03-02" },
+      { id: "m2", milestone: "Build", date: "2026-04-27" },
+      { id: "m3", milestone: "Launch", date: null },
+    ],
+  };
+
+  it("adds the budget delta and shifts affected milestones across month ends", () => {
+    const impact = previewChangeRequestImpact(project, {
+      budget_delta: -5000,
+      schedule_delta_days: 14,
+      affected_milestone_ids: ["m2", "m3", "gone"],
+    });
+    expect(impact.budgetBefore).toBe(100000);
+    expect(impact.budgetAfter).toBe(95000);
+    expect(impact.milestones).toEqual([
+      { id: "m2", label: "Build", from: "2026-04-27", to: "2026-05-11" },
+      { id: "m3", label: "Launch", from: null, to: null },
+    ]);
+  });
+});
+
+describe("formatScheduleDelta", () => {
+  it("signs and pluralizes day counts", () => {
+    expect(formatScheduleDelta(14)).toBe("+14 days");
+    expect(formatScheduleDelta(-1)).toBe("-1 day");
+    expect(formatScheduleDelta(0)).toBe("No change");
+  });
+});
+
+describe("changeRequestMetaLine", () => {
+  it("summarizes the request history for reports", () => {
+    expect(
+      changeRequestMetaLine({
+        status: "Approved",
+        requestedBy: "Jane Doe",
+        budgetDelta: 20000,
+        scheduleDeltaDays: 14,
+        affectedMilestones: ["Design", "Build"],
+        decidedBy: "Sam Lee",
+        decidedAt: "Mar 3, 2026",
+      }),
+    ).toBe("Approved · Requested by Jane Doe · Budget +$20,000 · Schedule +14 days (Design, Build) · Approved by Sam Lee, Mar 3, 2026");
+  });
+
+  it("is empty for changes stored before the lifecycle existed", () => {
+    expect(changeRequestMetaLine({})).toBe("");
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * File: changeRequests.ts
+ * Purpose: Change request lifecycle (draft → submitted → approved/rejected →
+ * implemented) with quantified budget and schedule impact. Approving a
+ * request can apply its deltas to the project's budget and milestone dates
+ * and capture a new baseline; that all happens server-side in
+ * transition_change_request.
+ */
+
+import { supabase } from "../supabase";
+import { fromDayNumber, toDayNumber } from "./scheduleDependencies";
+
+export type ChangeRequestStatus =
+  | "draft"
+  | "submitted"
+  | "approved"
+  | "rejected"
+  | "implemented";
+
+export const CHANGE_REQUEST_STATUSES: ChangeRequestStatus[] = [
+  "draft",
+  "submitted",
+  "approved",
+  "rejected",
+  "implemented",
+];
+
+export const CHANGE_REQUEST_STATUS_LABELS: Record<ChangeRequestStatus, string> = {
+  draft: "Draft",
+  submitted: "Submitted",
+  approved: "Approved",
+  rejected: "Rejected",
+  implemented: "Implemented",
+};
+
+// Tailwind classes for status badges
+export const CHANGE_REQUEST_STATUS_CLASSES: Record<ChangeRequestStatus, string> = {
+  draft: "bg-gray-100 text-gray-700 border-gray-300",
+  submitted: "bg-blue-100 text-blue-800 border-blue-300",
+  approved: "bg-green-100 text-green-800 border-green-300",
+  rejected: "bg-red-100 text-red-800 border-red-300",
+  implemented: "bg-purple-100 text-purple-800 border-purple-300",
+};
+
+export interface ChangeRequestFields {
+  status: ChangeRequestStatus;
+  requested_by: string;
+  budget_delta: number;
+  schedule_delta_days: number;
+  affected_milestone_ids: string[];
+  submitted_by_name: string | null;
+  submitted_at: string | null;
+  decided_by_name: string | null;
+  decided_at: string | null;
+  decision_comment: string | null;
+  implemented_at: string | null;
+  budget_applied: boolean;
+  schedule_applied: boolean;
+  baseline_id: string | null;
+}
+
+export interface ApplyChangeOptions {
+  applyBudget: boolean;
+  applySchedule: boolean;
+  createBaseline: boolean;
+}
+
+export interface ChangeRequestImpact {
+  budgetBefore: number;
+  budgetAfter: number;
+  milestones: Array<{ id: string; label: string; from: string | null; to: string | null }>;
+}
+
+export const normalizeChangeRequestStatus = (
+  status: string | null | undefined,
+): ChangeRequestStatus =>
+  CHANGE_REQUEST_STATUSES.includes(status as ChangeRequestStatus)
+    ? (status as ChangeRequestStatus)
+    : "draft";
+
+const toNumber = (value: unknown): number => {
+  const n = typeof value === "number" ? value : Number(value);
+  return Number.isFinite(n) ? n : 0;
+};
+
+/**
+ * Pick and normalize the change request fields of a change (form item or DB
+ * row), filling defaults for legacy free-text changes.
+ */
+export const toChangeRequestFields = (change: any): ChangeRequestFields => ({
+  status: normalizeChangeRequestStatus(change?.status),
+  requested_by: change?.requested_by || "",
+  budget_delta: toNumber(change?.budget_delta),
+  schedule_delta_days: Math.trunc(toNumber(change?.schedule_delta_days)),
+  affected_milestone_ids: Array.isArray(change?.affected_milestone_ids)
+    ? change.affected_milestone_ids
+    : [],
+  submitted_by_name: change?.submitted_by_name || null,
+  submitted_at: change?.submitted_at || null,
+  decided_by_name: change?.decided_by_name || null,
+  decided_at: change?.decided_at || null,
+  decision_comment: change?.decision_comment || null,
+  implemented_at: change?.implemented_at || null,
+  budget_applied: !!change?.budget_applied,
+  schedule_applied: !!change?.schedule_applied,
+  baseline_id: change?.baseline_id || null,
+});
+
+/**
+ * Statuses a request can move to next (mirrors transition_change_request).
+ * Editors submit, withdraw and implement; reviewers approve or reject.
+ */
+export const getAllowedTransitions = (
+  status: ChangeRequestStatus,
+  access: { canEdit: boolean; canDecide: boolean },
+): ChangeRequestStatus[] => {
+  switch (status) {
+    case "draft":
+      return access.canEdit ? ["submitted"] : [];
+    case "submitted":
+      return [
+        ...(access.canDecide ? (["approved", "rejected"] as ChangeRequestStatus[]) : []),
+        ...(access.canEdit ? (["draft"] as ChangeRequestStatus[]) : []),
+      ];
+    case "approved":
+      return access.canEdit ? ["implemented"] : [];
+    default:
+      return [];
+  }
+};
+
+const shiftDate = (date: string | null | undefined, days: number): string | null => {
+  const day = date ? toDayNumber(date) : null;
+  return day === null ? null : fromDayNumber(day + days);
+};
+
+/**
+ * What approving a request would do to the plan: the new budget total and
+ * the affected milestones' new start dates. Milestones that are no longer in
+ * the project are skipped.
+ */
+export const previewChangeRequestImpact = (
+  project: {
+    budget_total?: number | null;
+    milestones?: Array<{ id?: string; milestone?: string | null; date?: string | null }>;
+  },
+  change: Pick<ChangeRequestFields, "budget_delta" | "schedule_delta_days" | "affected_milestone_ids">,
+): ChangeRequestImpact => {
+  const budgetBefore = toNumber(project.budget_total);
+  const affected = new Set(change.affected_milestone_ids);
+  return {
+    budgetBefore,
+    budgetAfter: budgetBefore + change.budget_delta,
+    milestones: (project.milestones || [])
+      .filter((m) => m.id && affected.has(m.id))
+      .map((m) => ({
+        id: m.id as string,
+        label: m.milestone || "",
+        from: m.date || null,
+        to: shiftDate(m.date, change.schedule_delta_days),
+      })),
+  };
+};
+
+/**
+ * Signed day count, e.g. "+14 days", "-1 day" or "No change"
+ */
+export const formatScheduleDelta = (days: number): string => {
+  if (!days) return "No change";
+  const abs = Math.abs(days);
+  return `${days > 0 ? "+" : "-"}${abs} ${abs === 1 ? "day" : "days"}`;
+};
+
+// Service for moving change requests through their lifecycle
+export const changeRequestService = {
+  /**
+   * Move a saved change request to its next status. Approval options decide
+   * whether the budget and schedule deltas are written to the project and a
+   * new baseline is captured. Returns null if the server rejects the move.
+   */
+  async transition(
+    changeId: string,
+    status: ChangeRequestStatus,
+    options: Partial<ApplyChangeOptions> & { comment?: string; actorName?: string | null } = {},
+  ) {
+    const { data, error } = await supabase.rpc("transition_change_request", {
+      p_change_id: changeId,
+      p_status: status,
+      p_comment: options.comment?.trim() || undefined,
+      p_apply_budget: !!options.applyBudget,
+      p_apply_schedule: !!options.applySchedule,
+      p_create_baseline: !!options.createBaseline,
+      p_actor_name: options.actorName || undefined,
+    });
+
+    if (error) {
+      console.error("[CHANGE_REQUESTS] Failed to transition change request:", error);
+      return null;
+    }
+    return data;
+  },
+};
@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildEarnedValueSeries,
+  calculateEarnedValue,
+  getPerformanceBand,
+  getPlannedFraction,
+  rollupEarnedValue,
+  type EarnedValueProjectInput,
+} from "./earnedValue";
+import { toDayNumber } from "./scheduleDependencies";
+
+// Two equally weighted milestones: January (31 days) and a point milestone on Mar 1
+const project = (overrides: Partial<EarnedValueProjectInput> = {}): EarnedValueProjectInput => ({
+  status: "active",
+  budget_total: 100000,
+  budget_actuals: 40000,
+  milestones: [
+    { date: "2026-01-01", end_date: "2026-01-31", completion: 100, weight: 3 },
+    { date: "2026-03-01", end_date: null, completion: 0, weight: 3 },
+  ],
+  ...overrides,
+});
+
+describe("getPlannedFraction", () => {
+  it("spreads each milestone's weight evenly over its days", () => {
+    const { milestones } = project();
+    expect(getPlannedFraction(milestones, toDayNumber("2025-12-31")!)).toBe(0);
+    expect(getPlannedFraction(milestones, toDayNumber("2026-01-31")!)).toBe(0.5);
+    expect(getPlannedFraction(milestones, toDayNumber("2026-03-01")!)).toBe(1);
+    expect(getPlannedFraction(milestones, toDayNumber("2026-01-16")!)).toBeCloseTo(16 / 62);
+  });
+});
+
+describe("calculateEarnedValue", () => {
+  it("derives PV, EV, AC and the indices", () => {
+    const ev = calculateEarnedValue(project(), "2026-02-15")!;
+    expect(ev.plannedValue).toBe(50000);
+    expect(ev.earnedValue).toBe(50000);
+    expect(ev.actualCost).toBe(40000);
+    expect(ev.spi).toBe(1);
+    expect(ev.cpi).toBe(1.25);
+    expect(ev.estimateAtCompletion).toBe(80000);
+    expect(ev.estimateToComplete).toBe(40000);
+    expect(ev.varianceAtCompletion).toBe(20000);
+  });
+
+  it("uses the manual completion for manually tracked projects", () => {
+    const ev = calculateEarnedValue(
+      project({ health_calculation_type: "manual", manual_health_percentage: 25 }),
+      "2026-02-15",
+    )!;
+    expect(ev.earnedValue).toBe(25000);
+    expect(ev.spi).toBe(0.5);
+  });
+
+  it("estimates remaining work at budget until value is earned against spend", () => {
+    const ev = calculateEarnedValue(
+      project({
+        budget_actuals: 10000,
+        milestones: [{ date: "2026-01-01", completion: 0 }],
+      }),
+      "2026-02-15",
+    )!;
+    expect(ev.cpi).toBe(0);
+    expect(ev.estimateAtCompletion).toBe(110000);
+
+    const unspent = calculateEarnedValue(project({ budget_actuals: 0 }), "2026-02-15")!;
+    expect(unspent.cpi).toBeNull();
+    // Nothing booked yet: AC plus the budget of the remaining half
+    expect(unspent.estimateAtCompletion).toBe(50000);
+  });
+
+  it("returns null without a budget or a dated schedule", () => {
+    expect(calculateEarnedValue(project({ budget_total: 0 }), "2026-02-15")).toBeNull();
+    expect(calculateEarnedValue(project({ milestones: [{ date: null }] }), "2026-02-15")).toBeNull();
+  });
+});
+
+describe("rollupEarnedValue", () => {
+  it("computes portfolio indices from summed values", () => {
+    const a = calculateEarnedValue(project(), "2026-02-15")!;
+    const b = calculateEarnedValue(
+      project({ budget_total: 300000, budget_actuals: 200000 }),
+      "2026-02-15",
+    )!;
+    const total = rollupEarnedValue([a, b])!;
+    expect(total.budgetAtCompletion).toBe(400000);
+    expect(total.earnedValue).toBe(200000);
+    expect(total.actualCost).toBe(240000);
+    expect(total.cpi).toBeCloseTo(200000 / 240000);
+    expect(rollupEarnedValue([])).toBeNull();
+  });
+});
+
+describe("buildEarnedValueSeries", () => {
+  it("returns cumulative monthly PV with EV and AC on the as-of month", () => {
+    const series = buildEarnedValueSeries([project()], "2026-02-15");
+    expect(series.map((p) => p.period)).toEqual(["2026-01", "2026-02", "2026-03"]);
+    expect(series.map((p) => p.plannedValue)).toEqual([50000, 50000, 100000]);
+    expect(series[1]).toMatchObject({ earnedValue: 50000, actualCost: 40000 });
+    expect(series[0].earnedValue).toBeNull();
+  });
+});
+
+describe("getPerformanceBand", () => {
+  it("bands indices around 1", () => {
+    expect(getPerformanceBand(1.05)).toBe("good");
+    expect(getPerformanceBand(0.95)).toBe("watch");
+    expect(getPerformanceBand(0.7)).toBe("poor");
+    expect(getPerformanceBand(null)).toBeNull();
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * File: earnedValue.ts
+ * Purpose: Earned value management. Planned value spreads the budget over the
+ * milestone schedule by milestone weight, earned value is the budget times
+ * weighted completion, and actual cost is budget_actuals. From those come the
+ * schedule/cost performance indices and the estimate at completion, per
+ * project and rolled up across a portfolio.
+ */
+
+import { calculateWeightedCompletion } from "./project";
+import { fromDayNumber, toDayNumber } from "./scheduleDependencies";
+
+export interface EarnedValueProjectInput {
+  status?: string | null;
+  budget_total?: number | null;
+  budget_actuals?: number | null;
+  health_calculation_type?: string | null;
+  manual_health_percentage?: number | null;
+  milestones?: Array<{
+    date?: string | null;
+    end_date?: string | null;
+    completion?: number | null;
+    weight?: number | null;
+  }>;
+}
+
+export interface EarnedValueMetrics {
+  /** BAC: the approved budget */
+  budgetAtCompletion: number;
+  /** PV: budget of the work scheduled to be done by the as-of date */
+  plannedValue: number;
+  /** EV: budget of the work actually done */
+  earnedValue: number;
+  /** AC: what has been spent */
+  actualCost: number;
+  /** SV = EV − PV; negative means behind schedule */
+  scheduleVariance: number;
+  /** CV = EV − AC; negative means over cost */
+  costVariance: number;
+  /** SPI = EV / PV; null before any work was planned */
+  spi: number | null;
+  /** CPI = EV / AC; null before anything was spent */
+  cpi: number | null;
+  /** EAC: forecast total cost at the current cost performance */
+  estimateAtCompletion: number;
+  /** ETC = EAC − AC */
+  estimateToComplete: number;
+  /** VAC = BAC − EAC; negative means expected overrun */
+  varianceAtCompletion: number;
+}
+
+export interface EarnedValuePoint {
+  /** YYYY-MM */
+  period: string;
+  /** Cumulative planned value at the end of the month */
+  plannedValue: number;
+  /** Earned value and actual cost are only known as of today */
+  earnedValue: number | null;
+  actualCost: number | null;
+}
+
+const todayString = () => new Date().toISOString().split("T")[0];
+
+const milestoneSpan = (m: { date?: string | null; end_date?: string | null }) => {
+  const start = toDayNumber(m.date);
+  if (start === null) return null;
+  const end = toDayNumber(m.end_date);
+  return { start, finish: end !== null && end > start ? end : start };
+};
+
+/**
+ * Share of the project's weighted work scheduled to be finished by the end of
+ * the given day, with each milestone's work spread evenly over its days.
+ */
+export const getPlannedFraction = (
+  milestones: EarnedValueProjectInput["milestones"],
+  asOfDay: number,
+): number => {
+  let planned = 0;
+  let total = 0;
+  (milestones || []).forEach((m) => {
+    const span = milestoneSpan(m);
+    if (!span) return;
+    const weight = m.weight || 3;
+    total += weight;
+    const fraction = (asOfDay - span.start + 1) / (span.finish - span.start + 1);
+    planned += weight * Math.min(1, Math.max(0, fraction));
+  });
+  return total > 0 ? planned / total : 0;
+};
+
+/** Percent complete the same way the KPI dashboard counts it */
+export const getEarnedPercent = (project: EarnedValueProjectInput): number =>
+  project.health_calculation_type === "manual" && project.manual_health_percentage != null
+    ? project.manual_health_percentage
+    : calculateWeightedCompletion((project.milestones || []) as any);
+
+const completeMetrics = (
+  budgetAtCompletion: number,
+  plannedValue: number,
+  earnedValue: number,
+  actualCost: number,
+  estimateAtCompletion: number,
+): EarnedValueMetrics => ({
+  budgetAtCompletion,
+  plannedValue,
+  earnedValue,
+  actualCost,
+  scheduleVariance: earnedValue - plannedValue,
+  costVariance: earnedValue - actualCost,
+  spi: plannedValue > 0 ? earnedValue / plannedValue : null,
+  cpi: actualCost > 0 ? earnedValue / actualCost : null,
+  estimateAtCompletion,
+  estimateToComplete: estimateAtCompletion - actualCost,
+  varianceAtCompletion: budgetAtCompletion - estimateAtCompletion,
+});
+
+/**
+ * Earned value of one project as of a date (default today). Null when the
+ * project has no budget or no dated milestones to plan against.
+ */
+export const calculateEarnedValue = (
+  project: EarnedValueProjectInput,
+  asOf: string = todayString(),
+): EarnedValueMetrics | null => {
+  const bac = project.budget_total || 0;
+  const asOfDay = toDayNumber(asOf);
+  const hasSchedule = (project.milestones || []).some((m) => milestoneSpan(m));
+  if (bac <= 0 || asOfDay === null || !hasSchedule) return null;
+
+  const pv = bac * getPlannedFraction(project.milestones, asOfDay);
+  const ev = (bac * getEarnedPercent(project)) / 100;
+  const ac = project.budget_actuals || 0;
+  // EAC = BAC / CPI; until value has been earned against spend, the remaining
+  // work is assumed to cost what was budgeted
+  const eac = ac > 0 && ev > 0 ? bac / (ev / ac) : ac + (bac - ev);
+  return completeMetrics(bac, pv, ev, ac, eac);
+};
+
+/** Portfolio totals; indices come from the summed values, not an average */
+export const rollupEarnedValue = (metrics: EarnedValueMetrics[]): EarnedValueMetrics | null => {
+  if (metrics.length === 0) return null;
+  const sum = (key: keyof EarnedValueMetrics) =>
+    metrics.reduce((total, m) => total + ((m[key] as number) || 0), 0);
+  return completeMetrics(
+    sum("budgetAtCompletion"),
+    sum("plannedValue"),
+    sum("earnedValue"),
+    sum("actualCost"),
+    sum("estimateAtCompletion"),
+  );
+};
+
+/**
+ * Monthly cumulative planned value across the projects' schedules, with
+ * earned value and actual cost placed on the as-of month.
+ */
+export const buildEarnedValueSeries = (
+  projects: EarnedValueProjectInput[],
+  asOf: string = todayString(),
+): EarnedValuePoint[] => {
+  const asOfDay = toDayNumber(asOf);
+  const measured = projects
+    .map((project) => ({ project, metrics: calculateEarnedValue(project, asOf) }))
+    .filter((p): p is { project: EarnedValueProjectInput; metrics: EarnedValueMetrics } => !!p.metrics);
+  if (measured.length === 0 || asOfDay === null) return [];
+
+  const spans = measured.flatMap(({ project }) =>
+    (project.milestones || []).map(milestoneSpan).filter((s): s is { start: number; finish: number } => !!s),
+  );
+  const first = fromDayNumber(Math.min(asOfDay, ...spans.map((s) => s.start)));
+  const last = fromDayNumber(Math.max(asOfDay, ...spans.map((s) => s.finish)));
+  const asOfPeriod = asOf.slice(0, 7);
+  const totals = rollupEarnedValue(measured.map((m) => m.metrics))!;
+
+  const points: EarnedValuePoint[] = [];
+  let year = Number(first.slice(0, 4));
+  let month = Number(first.slice(5, 7));
+  const lastPeriod = last.slice(0, 7);
+  for (;;) {
+    const period = `${year}-${String(month).padStart(2, "0")}`;
+    // Day 0 of the next month is the last day of this one
+    const monthEnd = Math.round(Date.UTC(year, month, 0) / 86400000);
+    const measureDay = period === asOfPeriod ? asOfDay : monthEnd;
+    points.push({
+      period,
+      plannedValue: measured.reduce(
+        (sum, { project, metrics }) =>
+          sum + metrics.budgetAtCompletion * getPlannedFraction(project.milestones, measureDay),
+        0,
+      ),
+      earnedValue: period === asOfPeriod ? totals.earnedValue : null,
+      actualCost: period === asOfPeriod ? totals.actualCost : null,
+    });
+    if (period >= lastPeriod) break;
+    month += 1;
+    if (month > 12) {
+      month = 1;
+      year += 1;
+    }
+  }
+  return points;
+};
+
+export type PerformanceBand = "good" | "watch" | "poor";
+
+/** SPI/CPI bands: on or ahead of plan, within 10%, or worse */
+export const getPerformanceBand = (index: number | null): PerformanceBand | null => {
+  if (index === null) return null;
+  if (index >= 1) return "good";
+  if (index >= 0.9) return "watch";
+  return "poor";
+};
+
+export const PERFORMANCE_BAND_CLASSES: Record<PerformanceBand, string> = {
+  good: "text-green-600",
+  watch: "text-yellow-600",
+  poor: "text-red-600",
+};
+
+export const getPerformanceIndexClass = (index: number | null): string => {
+  const band = getPerformanceBand(index);
+  return band ? PERFORMANCE_BAND_CLASSES[band] : "text-muted-foreground";
+};
+
+export const formatPerformanceIndex = (index: number | null): string =>
+  index === null ? "—" : index.toFixed(2);
@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { getExportedStatus } from "./excelExport";
+import type { ProjectWithRelations } from "./project";
+import type { StatusReport } from "./reportingPeriods";
+
+const project = {
+  id: "p1",
+  title: "Portal",
+  status: "on_hold",
+  department: "Finance",
+  health_calculation_type: "manual",
+  manual_status_color: "red",
+  milestones: [],
+} as unknown as ProjectWithRelations;
+
+const approvedReport = {
+  id: "r1",
+  project_id: "p1",
+  approval_status: "approved",
+  report: { header: { status: "active", statusColor: "green" } },
+} as unknown as StatusReport;
+
+describe("getExportedStatus", () => {
+  it("exports the live status and health where no approval is required", () => {
+    expect(getExportedStatus(project, false, approvedReport)).toEqual({
+      status: "ON_HOLD",
+      health: "Red (Critical)",
+    });
+  });
+
+  it("exports the latest approved report where the department requires approval", () => {
+    expect(getExportedStatus(project, true, approvedReport)).toEqual({
+      status: "ACTIVE",
+      health: "Green (On Track)",
+    });
+  });
+
+  it("leaves status and health out until a report is approved", () => {
+    expect(getExportedStatus(project, true, null)).toEqual({
+      status: "",
+      health: "No approved report",
+    });
+  });
+});
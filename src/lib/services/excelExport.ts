@@ -3,6 +3,30 @@ import {
   ProjectWithRelations,
   calculateProjectHealthStatusColor,
 } from "./project";
+import {
+  RISK_EXPOSURE_HEX,
+  RISK_EXPOSURE_LABELS,
+  RISK_STATUS_LABELS,
+  calculateRiskExposure,
+  getRiskExposureLevel,
+  toRiskRegisterFields,
+} from "./riskRegister";
+import {
+  ISSUE_ESCALATION_LABELS,
+  ISSUE_SEVERITIES,
+  ISSUE_SEVERITY_LABELS,
+  ISSUE_STATUS_LABELS,
+  describeDecisionLink,
+  sortIssues,
+  toDecisionFields,
+  toIssueFields,
+} from "./projectLogs";
+import {
+  calculateEarnedValue,
+  rollupEarnedValue,
+  type EarnedValueMetrics,
+} from "./earnedValue";
+import { reportingPeriodsService, type StatusReport } from "./reportingPeriods";
 
 // Helper function to strip HTML tags from text
 const stripHtmlTags = (text: string | null | undefined): string => {
@@ -10,6 +34,42 @@ const stripHtmlTags = (text: string | null | undefined): string => {
   return text.replace(/<[^>]*>/g, "");
 };
 
+const healthStatusText = (status: string, color: string) =>
+  status === "cancelled"
+    ? "Cancelled"
+    : color === "green"
+      ? "Green (On Track)"
+      : color === "yellow"
+        ? "Yellow (At Risk)"
+        : "Red (Critical)";
+
+/**
+ * Status and health columns of a project. Where the department requires
+ * approval they come from the newest approved report, not the live project,
+ * and stay empty until a report has been approved.
+ */
+export const getExportedStatus = (
+  project: ProjectWithRelations,
+  requiresApproval: boolean,
+  approvedReport: StatusReport | null,
+): { status: string; health: string } => {
+  if (!requiresApproval) {
+    const status = project.status || "active";
+    return {
+      status: status.toUpperCase(),
+      health: healthStatusText(status, calculateProjectHealthStatusColor(project)),
+    };
+  }
+  if (!approvedReport) {
+    return { status: "", health: "No approved report" };
+  }
+  const { status, statusColor } = approvedReport.report.header;
+  return {
+    status: (status || "active").toUpperCase(),
+    health: healthStatusText(status, statusColor),
+  };
+};
+
 export const exportProjectsToExcel = async (
   projects: ProjectWithRelations[],
   username?: string,
@@ -18,6 +78,19 @@ export const exportProjectsToExcel = async (
   workbook.creator = username || "System";
   workbook.created = new Date();
 
+  const approvalDepartments = await reportingPeriodsService.getApprovalDepartments();
+  const requiresApproval = (project: ProjectWithRelations) =>
+    !!project.department && approvalDepartments.has(project.department);
+  const approvedReports = await reportingPeriodsService.getLatestApprovedReports(
+    projects.filter(requiresApproval).map((p) => p.id),
+  );
+  const exportedStatus = new Map(
+    projects.map((p) => [
+      p.id,
+      getExportedStatus(p, requiresApproval(p), approvedReports.get(p.id) ?? null),
+    ]),
+  );
+
   // Projects Overview Sheet
   const overviewSheet = workbook.addWorksheet("Projects Overview");
   const overviewColumns = [
@@ -68,24 +141,15 @@ export const exportProjectsToExcel = async (
         )
       : 0;
 
-    // Calculate health status
-    const healthStatusColor = calculateProjectHealthStatusColor(project);
-    const healthStatusText =
-      project.status === "cancelled"
-        ? "Cancelled"
-        : healthStatusColor === "green"
-          ? "Green (On Track)"
-          : healthStatusColor === "yellow"
-            ? "Yellow (At Risk)"
-            : "Red (Critical)";
+    const { status, health } = exportedStatus.get(project.id)!;
 
     const row = overviewSheet.addRow({
       project_id: project.project_id || "",
       title: stripHtmlTags(project.title),
       description: stripHtmlTags(project.description || ""),
       value_statement: stripHtmlTags(project.value_statement || ""),
-      status: (project.status || "active").toUpperCase(),
-      health_status: healthStatusText,
+      status,
+      health_status: health,
       overall_complete: overallComplete,
       budget_total: project.budget_total,
       budget_actuals: project.budget_actuals,
@@ -309,15 +373,7 @@ export const exportProjectsToExcel = async (
     },
     columns: overviewColumns.map((col) => ({ name: col.header })),
     rows: projects.map((project) => {
-      const healthStatusColor = calculateProjectHealthStatusColor(project);
-      const healthStatusText =
-        project.status === "cancelled"
-          ? "Cancelled"
-          : healthStatusColor === "green"
-            ? "Green (On Track)"
-            : healthStatusColor === "yellow"
-              ? "Yellow (At Risk)"
-              : "Red (Critical)";
+      const { status, health } = exportedStatus.get(project.id)!;
 
       const overallCompletion = project.milestones?.length
         ? Math.round(
@@ -335,8 +391,8 @@ export const exportProjectsToExcel = async (
         stripHtmlTags(project.title),
         stripHtmlTags(project.description || ""),
         stripHtmlTags(project.value_statement || ""),
-        (project.status || "active").toUpperCase(),
-        healthStatusText,
+        status,
+        health,
         overallCompletion,
         project.budget_total,
         project.budget_actuals,
@@ -487,6 +543,260 @@ export const exportProjectsToExcel = async (
     ]),
   });
 
+  // Risk Register Sheet
+  const risksSheet = workbook.addWorksheet("Risk Register");
+  const risksColumns = [
+    { header: "Project ID", key: "project_id", width: 15 },
+    { header: "Project", key: "project", width: 30 },
+    { header: "Risk", key: "risk", width: 50 },
+    { header: "Impact", key: "impact", width: 30 },
+    { header: "Probability", key: "probability", width: 12 },
+    { header: "Impact Score", key: "impact_score", width: 12 },
+    { header: "Exposure", key: "exposure", width: 12 },
+    { header: "Exposure Level", key: "exposure_level", width: 15 },
+    { header: "Owner", key: "owner", width: 20 },
+    { header: "Status", key: "status", width: 15 },
+    { header: "Trigger Date", key: "trigger_date", width: 15 },
+    { header: "Mitigation Plan", key: "mitigation_plan", width: 50 },
+    { header: "Realized By Change", key: "realized_by", width: 40 },
+  ];
+
+  risksSheet.columns = risksColumns;
+
+  // Add risk register data, highest exposure first within each project
+  const allRisks = [];
+  projects.forEach((project) => {
+    const projectRisks = (project.risks || []).map((risk) => {
+      const register = toRiskRegisterFields(risk);
+      const exposure = calculateRiskExposure(
+        register.probability,
+        register.impact_score,
+      );
+      const level = getRiskExposureLevel(exposure);
+      const realizedBy = register.realized_change_id
+        ? project.changes?.find((c) => c.id === register.realized_change_id)
+        : undefined;
+      return {
+        project_id: project.project_id || "",
+        project: stripHtmlTags(project.title),
+        risk: stripHtmlTags(risk.description || ""),
+        impact: stripHtmlTags(risk.impact || ""),
+        probability: register.probability ?? "",
+        impact_score: register.impact_score ?? "",
+        exposure: exposure ?? "",
+        exposure_level: level ? RISK_EXPOSURE_LABELS[level].toUpperCase() : "",
+        owner: stripHtmlTags(register.owner),
+        status: RISK_STATUS_LABELS[register.status],
+        trigger_date: register.trigger_date || "",
+        mitigation_plan: stripHtmlTags(register.mitigation_plan),
+        realized_by: realizedBy ? stripHtmlTags(realizedBy.change) : "",
+      };
+    });
+    projectRisks.sort((a, b) => (Number(b.exposure) || 0) - (Number(a.exposure) || 0));
+    allRisks.push(...projectRisks);
+  });
+
+  allRisks.forEach((risk) => {
+    const row = risksSheet.addRow(risk);
+    row.eachCell((cell, colNumber) => {
+      cell.alignment = { vertical: "middle", wrapText: true };
+
+      // Center project ID
+      if (colNumber === 1) {
+        cell.alignment = { vertical: "middle", horizontal: "center" };
+        cell.font = { bold: true };
+      }
+
+      // Center scores, exposure and status columns
+      if (colNumber >= 5 && colNumber <= 8) {
+        cell.alignment = { vertical: "middle", horizontal: "center" };
+      }
+    });
+  });
+
+  // Add conditional formatting for exposure level column
+  risksSheet.addConditionalFormatting({
+    ref: `H2:H${allRisks.length + 1}`,
+    rules: (["critical", "high", "medium", "low"] as const).map((level, i) => ({
+      priority: i + 1,
+      type: "containsText",
+      operator: "containsText",
+      text: RISK_EXPOSURE_LABELS[level].toUpperCase(),
+      style: {
+        fill: {
+          type: "pattern",
+          pattern: "solid",
+          bgColor: { argb: `FF${RISK_EXPOSURE_HEX[level]}` },
+        },
+      },
+    })),
+  });
+
+  // Add table formatting to risk register
+  risksSheet.addTable({
+    name: "RiskRegisterTable",
+    ref: "A1",
+    headerRow: true,
+    totalsRow: false,
+    style: {
+      theme: "TableStyleMedium16",
+      showRowStripes: true,
+    },
+    columns: risksColumns.map((col) => ({ name: col.header })),
+    rows: allRisks.map((r) => risksColumns.map((col) => r[col.key])),
+  });
+
+  // Issue Log Sheet
+  const issuesSheet = workbook.addWorksheet("Issue Log");
+  const issuesColumns = [
+    { header: "Project ID", key: "project_id", width: 15 },
+    { header: "Project", key: "project", width: 30 },
+    { header: "Issue", key: "issue", width: 50 },
+    { header: "Severity", key: "severity", width: 12 },
+    { header: "Owner", key: "owner", width: 20 },
+    { header: "Due Date", key: "due_date", width: 15 },
+    { header: "Escalation", key: "escalation", width: 20 },
+    { header: "Status", key: "status", width: 15 },
+    { header: "Resolution", key: "resolution", width: 50 },
+  ];
+
+  issuesSheet.columns = issuesColumns;
+
+  // Add issue log data in register order within each project
+  const allIssues = [];
+  projects.forEach((project) => {
+    sortIssues(project.issues || []).forEach((item) => {
+      const issue = toIssueFields(item);
+      allIssues.push({
+        project_id: project.project_id || "",
+        project: stripHtmlTags(project.title),
+        issue: stripHtmlTags(issue.description),
+        severity: ISSUE_SEVERITY_LABELS[issue.severity].toUpperCase(),
+        owner: stripHtmlTags(issue.owner),
+        due_date: issue.due_date || "",
+        escalation: ISSUE_ESCALATION_LABELS[issue.escalation_level],
+        status: ISSUE_STATUS_LABELS[issue.status],
+        resolution: stripHtmlTags(issue.resolution),
+      });
+    });
+  });
+
+  allIssues.forEach((issue) => {
+    const row = issuesSheet.addRow(issue);
+    row.eachCell((cell, colNumber) => {
+      cell.alignment = { vertical: "middle", wrapText: true };
+
+      // Center project ID
+      if (colNumber === 1) {
+        cell.alignment = { vertical: "middle", horizontal: "center" };
+        cell.font = { bold: true };
+      }
+
+      // Center severity, due date, escalation and status columns
+      if (colNumber === 4 || (colNumber >= 6 && colNumber <= 8)) {
+        cell.alignment = { vertical: "middle", horizontal: "center" };
+      }
+    });
+  });
+
+  // Severity shares the risk exposure colour bands
+  issuesSheet.addConditionalFormatting({
+    ref: `D2:D${allIssues.length + 1}`,
+    rules: [...ISSUE_SEVERITIES].reverse().map((severity, i) => ({
+      priority: i + 1,
+      type: "containsText",
+      operator: "containsText",
+      text: ISSUE_SEVERITY_LABELS[severity].toUpperCase(),
+      style: {
+        fill: {
+          type: "pattern",
+          pattern: "solid",
+          bgColor: { argb: `FF${RISK_EXPOSURE_HEX[severity]}` },
+        },
+      },
+    })),
+  });
+
+  issuesSheet.addTable({
+    name: "IssueLogTable",
+    ref: "A1",
+    headerRow: true,
+    totalsRow: false,
+    style: {
+      theme: "TableStyleMedium16",
+      showRowStripes: true,
+    },
+    columns: issuesColumns.map((col) => ({ name: col.header })),
+    rows: allIssues.map((r) => issuesColumns.map((col) => r[col.key])),
+  });
+
+  // Decision Log Sheet
+  const decisionsSheet = workbook.addWorksheet("Decision Log");
+  const decisionsColumns = [
+    { header: "Project ID", key: "project_id", width: 15 },
+    { header: "Project", key: "project", width: 30 },
+    { header: "Decision", key: "decision", width: 50 },
+    { header: "Date", key: "decision_date", width: 15 },
+    { header: "Decided By", key: "decided_by", width: 20 },
+    { header: "Rationale", key: "rationale", width: 50 },
+    { header: "Linked Items", key: "linked_items", width: 50 },
+  ];
+
+  decisionsSheet.columns = decisionsColumns;
+
+  // Add decision log data, newest first within each project
+  const allDecisions = [];
+  projects.forEach((project) => {
+    const projectDecisions = (project.decisions || []).map((item) => {
+      const decision = toDecisionFields(item);
+      return {
+        project_id: project.project_id || "",
+        project: stripHtmlTags(project.title),
+        decision: stripHtmlTags(decision.decision),
+        decision_date: decision.decision_date || "",
+        decided_by: stripHtmlTags(decision.decided_by),
+        rationale: stripHtmlTags(decision.rationale),
+        linked_items: decision.linked_items
+          .map((link) => describeDecisionLink(link, project))
+          .filter(Boolean)
+          .join("; "),
+      };
+    });
+    projectDecisions.sort((a, b) => b.decision_date.localeCompare(a.decision_date));
+    allDecisions.push(...projectDecisions);
+  });
+
+  allDecisions.forEach((decision) => {
+    const row = decisionsSheet.addRow(decision);
+    row.eachCell((cell, colNumber) => {
+      cell.alignment = { vertical: "middle", wrapText: true };
+
+      // Center project ID
+      if (colNumber === 1) {
+        cell.alignment = { vertical: "middle", horizontal: "center" };
+        cell.font = { bold: true };
+      }
+
+      // Center date column
+      if (colNumber === 4) {
+        cell.alignment = { vertical: "middle", horizontal: "center" };
+      }
+    });
+  });
+
+  decisionsSheet.addTable({
+    name: "DecisionLogTable",
+    ref: "A1",
+    headerRow: true,
+    totalsRow: false,
+    style: {
+      theme: "TableStyleMedium16",
+      showRowStripes: true,
+    },
+    columns: decisionsColumns.map((col) => ({ name: col.header })),
+    rows: allDecisions.map((r) => decisionsColumns.map((col) => r[col.key])),
+  });
+
   // Budget Details Sheet
   const budgetSheet = workbook.addWorksheet("Budget Details");
   const budgetColumns = [
@@ -517,7 +827,7 @@ export const exportProjectsToExcel = async (
     const row = budgetSheet.addRow({
       project_id: project.project_id || "",
       project: stripHtmlTags(project.title),
-      status: (project.status || "active").toUpperCase(),
+      status: exportedStatus.get(project.id)!.status,
       budget_total: project.budget_total,
       budget_actuals: project.budget_actuals,
       budget_forecast: project.budget_forecast,
@@ -648,7 +958,7 @@ export const exportProjectsToExcel = async (
       return [
         project.project_id || "",
         stripHtmlTags(project.title),
-        (project.status || "active").toUpperCase(),
+        exportedStatus.get(project.id)!.status,
         project.budget_total,
         project.budget_actuals,
         project.budget_forecast,
@@ -660,6 +970,110 @@ export const exportProjectsToExcel = async (
     }),
   });
 
+  // Earned Value Sheet
+  const earnedValueSheet = workbook.addWorksheet("Earned Value");
+  const earnedValueColumns = [
+    { header: "Project ID", key: "project_id", width: 15 },
+    { header: "Project", key: "project", width: 30 },
+    { header: "Budget (BAC)", key: "bac", width: 18 },
+    { header: "Planned Value (PV)", key: "pv", width: 18 },
+    { header: "Earned Value (EV)", key: "ev", width: 18 },
+    { header: "Actual Cost (AC)", key: "ac", width: 18 },
+    { header: "Schedule Variance (SV)", key: "sv", width: 18 },
+    { header: "Cost Variance (CV)", key: "cv", width: 18 },
+    { header: "SPI", key: "spi", width: 10 },
+    { header: "CPI", key: "cpi", width: 10 },
+    { header: "EAC", key: "eac", width: 18 },
+    { header: "ETC", key: "etc", width: 18 },
+    { header: "VAC", key: "vac", width: 18 },
+  ];
+
+  earnedValueSheet.columns = earnedValueColumns;
+
+  const earnedValueRow = (projectId: string, project: string, m: EarnedValueMetrics) => ({
+    project_id: projectId,
+    project,
+    bac: m.budgetAtCompletion,
+    pv: m.plannedValue,
+    ev: m.earnedValue,
+    ac: m.actualCost,
+    sv: m.scheduleVariance,
+    cv: m.costVariance,
+    spi: m.spi === null ? "" : Math.round(m.spi * 100) / 100,
+    cpi: m.cpi === null ? "" : Math.round(m.cpi * 100) / 100,
+    eac: m.estimateAtCompletion,
+    etc: m.estimateToComplete,
+    vac: m.varianceAtCompletion,
+  });
+
+  // Projects without a budget or dated milestones have nothing to measure;
+  // cancelled projects stay out of the portfolio totals
+  const earnedValueMetrics: EarnedValueMetrics[] = [];
+  const allEarnedValue = [];
+  projects.forEach((project) => {
+    const metrics = calculateEarnedValue(project);
+    if (!metrics) return;
+    if (project.status !== "cancelled") earnedValueMetrics.push(metrics);
+    allEarnedValue.push(
+      earnedValueRow(project.project_id || "", stripHtmlTags(project.title), metrics),
+    );
+  });
+  const portfolioEarnedValue = rollupEarnedValue(earnedValueMetrics);
+  if (portfolioEarnedValue) {
+    allEarnedValue.push(earnedValueRow("", "PORTFOLIO", portfolioEarnedValue));
+  }
+
+  allEarnedValue.forEach((item, index) => {
+    const row = earnedValueSheet.addRow(item);
+    const isPortfolio = !!portfolioEarnedValue && index === allEarnedValue.length - 1;
+    row.eachCell((cell, colNumber) => {
+      cell.alignment = { vertical: "middle" };
+      if (isPortfolio) cell.font = { bold: true };
+
+      // Center project ID
+      if (colNumber === 1) {
+        cell.alignment = { vertical: "middle", horizontal: "center" };
+        cell.font = { bold: true };
+      }
+
+      // Format currency columns
+      if ((colNumber >= 3 && colNumber <= 8) || colNumber >= 11) {
+        cell.numFmt = '"$"#,##0.00';
+        cell.alignment = { vertical: "middle", horizontal: "right" };
+      }
+
+      // Indices below 1 mean behind schedule / over cost
+      if (colNumber === 9 || colNumber === 10) {
+        cell.numFmt = "0.00";
+        cell.alignment = { vertical: "middle", horizontal: "center" };
+        if (typeof cell.value === "number") {
+          cell.font = {
+            bold: isPortfolio,
+            color: { argb: cell.value < 0.9 ? "FFFF0000" : cell.value < 1 ? "FFBF8F00" : "FF008000" },
+          };
+        }
+      }
+
+      // Negative variances in red
+      if ((colNumber === 7 || colNumber === 8 || colNumber === 13) && typeof cell.value === "number" && cell.value < 0) {
+        cell.font = { bold: isPortfolio, color: { argb: "FFFF0000" } };
+      }
+    });
+  });
+
+  earnedValueSheet.addTable({
+    name: "EarnedValueTable",
+    ref: "A1",
+    headerRow: true,
+    totalsRow: false,
+    style: {
+      theme: "TableStyleMedium16",
+      showRowStripes: true,
+    },
+    columns: earnedValueColumns.map((col) => ({ name: col.header })),
+    rows: allEarnedValue.map((r) => earnedValueColumns.map((col) => r[col.key])),
+  });
+
   // Generate and save the file
   const buffer = await workbook.xlsx.writeBuffer();
   const blob = new Blob([buffer], {
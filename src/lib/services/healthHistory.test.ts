@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildHealthTimeline,
+  buildPortfolioHealthSeries,
+  getDaysInCurrentColor,
+  getRecentColorChange,
+  groupSnapshotsByProject,
+  type HealthSnapshot,
+} from "./healthHistory";
+
+const snapshot = (
+  date: string,
+  color: HealthSnapshot["computed_status_color"],
+  overrides: Partial<HealthSnapshot> = {},
+): HealthSnapshot => ({
+  project_id: "p1",
+  snapshot_date: date,
+  computed_status_color: color,
+  manual_status_color: null,
+  health_calculation_type: "automatic",
+  status: "active",
+  weighted_completion: 50,
+  time_remaining_percent: 50,
+  budget_variance: null,
+  ...overrides,
+});
+
+describe("getDaysInCurrentColor", () => {
+  it("counts from the start of the latest unbroken run", () => {
+    const history = [
+      snapshot("2026-03-01", "green"),
+      snapshot("2026-03-02", "red"),
+      snapshot("2026-03-03", "yellow"),
+      snapshot("2026-03-05", "yellow"),
+    ];
+    expect(getDaysInCurrentColor(history, "2026-03-10")).toBe(7);
+    expect(getDaysInCurrentColor([snapshot("2026-03-10", "red")], "2026-03-10")).toBe(0);
+  });
+
+  it("falls back to the manual color and returns null without history", () => {
+    const history = [
+      snapshot("2026-03-01", null, { manual_status_color: "red" }),
+      snapshot("2026-03-02", "red"),
+    ];
+    expect(getDaysInCurrentColor(history, "2026-03-02")).toBe(1);
+    expect(getDaysInCurrentColor([], "2026-03-02")).toBeNull();
+  });
+});
+
+describe("buildHealthTimeline", () => {
+  it("returns one entry per day with gaps as null", () => {
+    const timeline = buildHealthTimeline(
+      [snapshot("2026-03-08", "green"), snapshot("2026-03-10", "red")],
+      3,
+      "2026-03-10",
+    );
+    expect(timeline).toEqual([
+      { date: "2026-03-08", color: "green" },
+      { date: "2026-03-09", color: null },
+      { date: "2026-03-10", color: "red" },
+    ]);
+  });
+});
+
+describe("buildPortfolioHealthSeries", () => {
+  it("counts active projects per color per day", () => {
+    const series = buildPortfolioHealthSeries([
+      snapshot("2026-03-02", "red", { project_id: "a" }),
+      snapshot("2026-03-01", "green", { project_id: "a" }),
+      snapshot("2026-03-01", "green", { project_id: "b" }),
+      snapshot("2026-03-02", "green", { project_id: "b", status: "completed" }),
+    ]);
+    expect(series).toEqual([
+      { date: "2026-03-01", green: 2, yellow: 0, red: 0 },
+      { date: "2026-03-02", green: 0, yellow: 0, red: 1 },
+    ]);
+  });
+});
+
+describe("groupSnapshotsByProject", () => {
+  it("groups and orders snapshots per project", () => {
+    const grouped = groupSnapshotsByProject([
+      snapshot("2026-03-02", "red", { project_id: "a" }),
+      snapshot("2026-03-01", "green", { project_id: "a" }),
+      snapshot("2026-03-01", "green", { project_id: "b" }),
+    ]);
+    expect(grouped.get("a")!.map((s) => s.snapshot_date)).toEqual(["2026-03-01", "2026-03-02"]);
+    expect(grouped.get("b")).toHaveLength(1);
+  });
+});
+
+describe("getRecentColorChange", () => {
+  it("only reports changes from the last day", () => {
+    const now = new Date("2026-03-10T08:00:00Z");
+    expect(
+      getRecentColorChange(
+        { computed_status_changed_at: "2026-03-10T00:05:00Z", previous_computed_status_color: "green" },
+        now,
+      ),
+    ).toEqual({ from: "green", changedAt: "2026-03-10T00:05:00Z" });
+    expect(
+      getRecentColorChange(
+        { computed_status_changed_at: "2026-03-08T00:05:00Z", previous_computed_status_color: "green" },
+        now,
+      ),
+    ).toBeNull();
+    expect(getRecentColorChange({ computed_status_changed_at: null }, now)).toBeNull();
+  });
+});
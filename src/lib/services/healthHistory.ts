@@ -0,0 +1,179 @@
+/**
+ * File: healthHistory.ts
+ * Purpose: Daily project health snapshots (project_health_snapshots, captured
+ * nightly by capture_project_health_snapshots). Turns them into per-project
+ * timelines for sparklines, "days in current color", and the portfolio's
+ * health mix over time.
+ */
+
+import { supabase } from "../supabase";
+import { fromDayNumber, toDayNumber } from "./scheduleDependencies";
+import type { HealthColor } from "./healthRules";
+
+export interface HealthSnapshot {
+  project_id: string;
+  snapshot_date: string; // YYYY-MM-DD
+  computed_status_color: HealthColor | null;
+  manual_status_color: HealthColor | null;
+  health_calculation_type: string | null;
+  status: string | null;
+  weighted_completion: number | null;
+  time_remaining_percent: number | null;
+  budget_variance: number | null;
+}
+
+export interface PortfolioHealthPoint {
+  date: string;
+  green: number;
+  yellow: number;
+  red: number;
+}
+
+export const HEALTH_HISTORY_DAYS = 90;
+
+export const HEALTH_COLOR_FILL: Record<HealthColor, string> = {
+  green: "#22c55e",
+  yellow: "#eab308",
+  red: "#ef4444",
+};
+
+const isHealthColor = (value: unknown): value is HealthColor =>
+  value === "green" || value === "yellow" || value === "red";
+
+/** The color the project showed that day; computed_status_color already honors manual overrides */
+export const getSnapshotColor = (snapshot: HealthSnapshot): HealthColor | null =>
+  isHealthColor(snapshot.computed_status_color)
+    ? snapshot.computed_status_color
+    : isHealthColor(snapshot.manual_status_color)
+      ? snapshot.manual_status_color
+      : null;
+
+/**
+ * How many days the project has shown its latest color: from the first
+ * snapshot of the unbroken run ending at the latest snapshot, up to today.
+ * Null without snapshots. The count is a lower bound when the run reaches
+ * back to the first snapshot on record.
+ */
+export const getDaysInCurrentColor = (
+  snapshots: HealthSnapshot[],
+  today: string = new Date().toISOString().split("T")[0],
+): number | null => {
+  const colored = snapshots
+    .filter((s) => getSnapshotColor(s) !== null)
+    .sort((a, b) => a.snapshot_date.localeCompare(b.snapshot_date));
+  if (colored.length === 0) return null;
+
+  const current = getSnapshotColor(colored[colored.length - 1]);
+  let runStart = colored[colored.length - 1].snapshot_date;
+  for (let i = colored.length - 2; i >= 0; i--) {
+    if (getSnapshotColor(colored[i]) !== current) break;
+    runStart = colored[i].snapshot_date;
+  }
+  return Math.max(0, (toDayNumber(today) ?? 0) - (toDayNumber(runStart) ?? 0));
+};
+
+/** Color per day over the window ending today, null for days without a snapshot */
+export const buildHealthTimeline = (
+  snapshots: HealthSnapshot[],
+  days: number = HEALTH_HISTORY_DAYS,
+  today: string = new Date().toISOString().split("T")[0],
+): Array<{ date: string; color: HealthColor | null }> => {
+  const byDate = new Map(snapshots.map((s) => [s.snapshot_date, getSnapshotColor(s)]));
+  const end = toDayNumber(today) ?? 0;
+  return Array.from({ length: days }, (_, i) => {
+    const date = fromDayNumber(end - days + 1 + i);
+    return { date, color: byDate.get(date) ?? null };
+  });
+};
+
+/** Number of projects in each color per snapshot date, oldest first */
+export const buildPortfolioHealthSeries = (snapshots: HealthSnapshot[]): PortfolioHealthPoint[] => {
+  const byDate = new Map<string, PortfolioHealthPoint>();
+  snapshots.forEach((s) => {
+    const color = getSnapshotColor(s);
+    // Finished projects no longer have a health worth tracking
+    if (!color || s.status === "completed" || s.status === "cancelled") return;
+    const point = byDate.get(s.snapshot_date) || { date: s.snapshot_date, green: 0, yellow: 0, red: 0 };
+    point[color] += 1;
+    byDate.set(s.snapshot_date, point);
+  });
+  return [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * The color change flagged by the nightly recalculation, if it happened within
+ * the last day — i.e. in the latest run. Null otherwise.
+ */
+export const getRecentColorChange = (
+  project: {
+    computed_status_changed_at?: string | null;
+    previous_computed_status_color?: string | null;
+  },
+  now: Date = new Date(),
+): { from: HealthColor | null; changedAt: string } | null => {
+  if (!project.computed_status_changed_at) return null;
+  const changedAt = new Date(project.computed_status_changed_at).getTime();
+  if (isNaN(changedAt) || now.getTime() - changedAt > 24 * 60 * 60 * 1000) return null;
+  return {
+    from: isHealthColor(project.previous_computed_status_color) ? project.previous_computed_status_color : null,
+    changedAt: project.computed_status_changed_at,
+  };
+};
+
+/** Groups snapshots by project, oldest first */
+export const groupSnapshotsByProject = (snapshots: HealthSnapshot[]): Map<string, HealthSnapshot[]> => {
+  const grouped = new Map<string, HealthSnapshot[]>();
+  [...snapshots]
+    .sort((a, b) => a.snapshot_date.localeCompare(b.snapshot_date))
+    .forEach((s) => {
+      const list = grouped.get(s.project_id) || [];
+      list.push(s);
+      grouped.set(s.project_id, list);
+    });
+  return grouped;
+};
+
+const SNAPSHOT_COLUMNS =
+  "project_id, snapshot_date, computed_status_color, manual_status_color, health_calculation_type, status, weighted_completion, time_remaining_percent, budget_variance";
+
+const sinceDate = (days: number) =>
+  fromDayNumber((toDayNumber(new Date().toISOString().split("T")[0]) ?? 0) - days + 1);
+
+export const healthHistoryService = {
+  async getProjectHistory(
+    projectId: string,
+    days: number = HEALTH_HISTORY_DAYS,
+  ): Promise<HealthSnapshot[]> {
+    const { data, error } = await supabase
+      .from("project_health_snapshots")
+      .select(SNAPSHOT_COLUMNS)
+      .eq("project_id", projectId)
+      .gte("snapshot_date", sinceDate(days))
+      .order("snapshot_date");
+    if (error) {
+      console.error("[HEALTH_HISTORY] Failed to load project history:", error);
+      return [];
+    }
+    return (data || []) as HealthSnapshot[];
+  },
+
+  /** Snapshots of every project over the window, or of the given projects */
+  async getHistory(
+    days: number = HEALTH_HISTORY_DAYS,
+    projectIds?: string[],
+  ): Promise<HealthSnapshot[]> {
+    if (projectIds && projectIds.length === 0) return [];
+    let query = supabase
+      .from("project_health_snapshots")
+      .select(SNAPSHOT_COLUMNS)
+      .gte("snapshot_date", sinceDate(days))
+      .order("snapshot_date");
+    if (projectIds) query = query.in("project_id", projectIds);
+    const { data, error } = await query;
+    if (error) {
+      console.error("[HEALTH_HISTORY] Failed to load health history:", error);
+      return [];
+    }
+    return (data || []) as HealthSnapshot[];
+  },
+};
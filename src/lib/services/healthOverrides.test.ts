@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import {
+  describeHealthOverride,
+  getMaxHealthOverrideExpiry,
+  isHealthOverrideActive,
+  validateHealthOverride,
+} from "./healthOverrides";
+
+const override = {
+  health_calculation_type: "manual",
+  manual_status_color: "green",
+  manual_status_reason: "Vendor delay is contractually covered",
+  manual_status_expires_at: "2026-03-31",
+  manual_status_set_by_name: "Jane Doe",
+};
+
+describe("isHealthOverrideActive", () => {
+  it("applies a manual color until the end of its expiry day", () => {
+    expect(isHealthOverrideActive(override, "2026-03-31")).toBe(true);
+    expect(isHealthOverrideActive(override, "2026-04-01")).toBe(false);
+    expect(isHealthOverrideActive({ ...override, health_calculation_type: "automatic" }, "2026-03-01")).toBe(
+      false,
+    );
+  });
+});
+
+describe("validateHealthOverride", () => {
+  it("requires a justification and an expiry within the allowed window", () => {
+    expect(validateHealthOverride(override, "2026-03-01")).toEqual([]);
+    expect(
+      validateHealthOverride({ ...override, manual_status_reason: "  ", manual_status_expires_at: "" }, "2026-03-01"),
+    ).toHaveLength(2);
+    expect(validateHealthOverride(override, "2026-04-01")).toEqual([
+      "The manual health status cannot expire in the past",
+    ]);
+    expect(getMaxHealthOverrideExpiry("2026-03-01")).toBe("2026-05-30");
+    expect(validateHealthOverride(override, "2025-12-01")).toHaveLength(1);
+    expect(validateHealthOverride({ health_calculation_type: "automatic" }, "2026-03-01")).toEqual([]);
+  });
+});
+
+describe("describeHealthOverride", () => {
+  it("summarizes who set the override, until when and why", () => {
+    expect(describeHealthOverride({ ...override, manual_status_expires_at: "2999-01-01" })).toBe(
+      "Manual override by Jane Doe until 2999-01-01: Vendor delay is contractually covered",
+    );
+    expect(describeHealthOverride({ health_calculation_type: "automatic" })).toBeNull();
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * File: healthOverrides.ts
+ * Purpose: Manual health overrides. A manual color needs a justification and
+ * an expiry date (at most HEALTH_OVERRIDE_MAX_DAYS ahead); afterwards the
+ * project reverts to automatic health — nightly on the server, immediately in
+ * the client calculation. Every set, clear and expiry is recorded in
+ * project_health_overrides by database triggers.
+ */
+
+import { supabase } from "../supabase";
+import type { Database } from "@/types/supabase";
+import { fromDayNumber, toDayNumber } from "./scheduleDependencies";
+
+export type HealthOverrideRecord = Database["public"]["Tables"]["project_health_overrides"]["Row"];
+
+export type HealthOverrideAction = "set" | "cleared" | "expired";
+
+export const HEALTH_OVERRIDE_ACTION_LABELS: Record<HealthOverrideAction, string> = {
+  set: "Set",
+  cleared: "Cleared",
+  expired: "Expired",
+};
+
+/** Keep in step with stamp_health_override() */
+export const HEALTH_OVERRIDE_MAX_DAYS = 90;
+
+/** The override fields of a project row or form */
+export interface HealthOverrideFields {
+  health_calculation_type?: string | null;
+  manual_status_color?: string | null;
+  manual_status_reason?: string | null;
+  manual_status_expires_at?: string | null;
+  manual_status_set_by_name?: string | null;
+  manual_status_set_at?: string | null;
+}
+
+const todayKey = () => new Date().toISOString().split("T")[0];
+
+/** Latest expiry date an override can be given today */
+export const getMaxHealthOverrideExpiry = (today: string = todayKey()): string =>
+  fromDayNumber((toDayNumber(today) ?? 0) + HEALTH_OVERRIDE_MAX_DAYS);
+
+/**
+ * Whether the manual color applies: health is manual, a color is set and the
+ * expiry date has not passed. Overrides without an expiry date predate the
+ * requirement and stay in force until the server gives them one.
+ */
+export const isHealthOverrideActive = (
+  project: HealthOverrideFields,
+  today: string = todayKey(),
+): boolean =>
+  project.health_calculation_type === "manual" &&
+  !!project.manual_status_color &&
+  (!project.manual_status_expires_at || project.manual_status_expires_at >= today);
+
+/** Problems with a manual override in the project form; empty when it can be saved */
+export const validateHealthOverride = (
+  project: HealthOverrideFields,
+  today: string = todayKey(),
+): string[] => {
+  if (project.health_calculation_type !== "manual") return [];
+  const errors: string[] = [];
+  if (!project.manual_status_reason?.trim()) {
+    errors.push("Give a justification for the manual health status");
+  }
+  if (!project.manual_status_expires_at) {
+    errors.push("Choose when the manual health status expires");
+  } else if (project.manual_status_expires_at < today) {
+    errors.push("The manual health status cannot expire in the past");
+  } else if (project.manual_status_expires_at > getMaxHealthOverrideExpiry(today)) {
+    errors.push(`A manual health status can last at most ${HEALTH_OVERRIDE_MAX_DAYS} days`);
+  }
+  return errors;
+};
+
+/** "Manual override by Jane Doe until 2026-11-30: <reason>" style summary for sheets and reports */
+export const describeHealthOverride = (project: HealthOverrideFields): string | null => {
+  if (!isHealthOverrideActive(project)) return null;
+  const by = project.manual_status_set_by_name ? ` by ${project.manual_status_set_by_name}` : "";
+  const until = project.manual_status_expires_at ? ` until ${project.manual_status_expires_at}` : "";
+  const reason = project.manual_status_reason?.trim();
+  return `Manual override${by}${until}${reason ? `: ${reason}` : ""}`;
+};
+
+export const healthOverridesService = {
+  /** The project's override history, newest first */
+  async getHistory(projectId: string): Promise<HealthOverrideRecord[]> {
+    const { data, error } = await supabase
+      .from("project_health_overrides")
+      .select("*")
+      .eq("project_id", projectId)
+      .order("changed_at", { ascending: false });
+
+    if (error) {
+      console.error("[HEALTH_OVERRIDES] Error loading override history:", error);
+      return [];
+    }
+    return data || [];
+  },
+};
@@ -0,0 +1,185 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_HEALTH_RULES,
+  evaluateHealthRules,
+  explainHealthRules,
+  normalizeHealthRules,
+  simulateHealthRules,
+  validateHealthRules,
+  type HealthRuleInputs,
+} from "./healthRules";
+
+const inputs = (overrides: Partial<HealthRuleInputs> = {}): HealthRuleInputs => ({
+  status: "active",
+  hasMilestones: true,
+  completion: 50,
+  timeRemaining: 50,
+  startsInFuture: false,
+  ...overrides,
+});
+
+describe("evaluateHealthRules with the default rules", () => {
+  const color = (overrides: Partial<HealthRuleInputs>) =>
+    evaluateHealthRules(DEFAULT_HEALTH_RULES, inputs(overrides));
+
+  it("uses fixed colors for non-active statuses", () => {
+    expect(color({ status: "completed", completion: 0 })).toBe("green");
+    expect(color({ status: "cancelled", completion: 100 })).toBe("red");
+    expect(color({ status: "on_hold" })).toBe("yellow");
+    expect(color({ status: "draft" })).toBe("yellow");
+  });
+
+  it("keeps active projects without milestones green", () => {
+    expect(color({ hasMilestones: false, completion: 0, timeRemaining: 0 })).toBe("green");
+  });
+
+  it("falls back to completion alone without duration data", () => {
+    expect(color({ timeRemaining: null, completion: 70 })).toBe("green");
+    expect(color({ timeRemaining: null, completion: 40 })).toBe("yellow");
+    expect(color({ timeRemaining: null, completion: 39 })).toBe("red");
+  });
+
+  it("is lenient before the start and strict once time has run out", () => {
+    expect(color({ startsInFuture: true, timeRemaining: 100, completion: 0 })).toBe("green");
+    expect(color({ startsInFuture: true, timeRemaining: 100, completion: 51 })).toBe("yellow");
+    expect(color({ timeRemaining: 0, completion: 90 })).toBe("yellow");
+    expect(color({ timeRemaining: 0, completion: 89 })).toBe("red");
+  });
+
+  it("raises the completion bar as time runs out", () => {
+    expect(color({ timeRemaining: 80, completion: 4 })).toBe("yellow");
+    expect(color({ timeRemaining: 80, completion: 5 })).toBe("green");
+    expect(color({ timeRemaining: 50, completion: 4 })).toBe("red");
+    expect(color({ timeRemaining: 50, completion: 15 })).toBe("green");
+    expect(color({ timeRemaining: 30, completion: 15 })).toBe("yellow");
+    expect(color({ timeRemaining: 10, completion: 60 })).toBe("yellow");
+    expect(color({ timeRemaining: 10, completion: 70 })).toBe("green");
+  });
+});
+
+describe("explainHealthRules", () => {
+  it("names the rule that fired and the threshold for the next color", () => {
+    const { dimensions, ...explanation } = explainHealthRules(
+      DEFAULT_HEALTH_RULES,
+      inputs({ timeRemaining: 30, completion: 10 }),
+    );
+    expect(explanation).toEqual({
+      color: "red",
+      rule: "timeBand",
+      reason: "More than 20% time left: green from 30%, yellow from 15% weighted completion",
+      nextStep: "Reach 15% weighted completion (5 points to go) to turn yellow",
+      scheduleColor: "red",
+    });
+    expect(dimensions.map((d) => d.color)).toEqual(["red", null, null, null]);
+    expect(explainHealthRules(DEFAULT_HEALTH_RULES, inputs({ timeRemaining: 0, completion: 95 })).rule).toBe(
+      "overdue",
+    );
+    expect(explainHealthRules(DEFAULT_HEALTH_RULES, inputs({ completion: 20 })).nextStep).toBeNull();
+  });
+});
+
+describe("health dimensions", () => {
+  const withDimensions = (composite: "worst" | "capped") =>
+    normalizeHealthRules({
+      dimensions: {
+        budget: { enabled: true },
+        risks: { enabled: true },
+        overdueMilestones: { enabled: true },
+        composite,
+      },
+    });
+  const troubled = inputs({
+    completion: 50,
+    budgetOverrun: 40,
+    activeRiskImpacts: [5, 4, 4, 2],
+    overdueMilestones: 1,
+  });
+
+  it("scores each enabled dimension on its own", () => {
+    const { dimensions } = explainHealthRules(withDimensions("worst"), troubled);
+    expect(dimensions.map((d) => [d.key, d.color])).toEqual([
+      ["schedule", "green"],
+      ["budget", "red"],
+      ["risks", "red"],
+      ["overdueMilestones", "yellow"],
+    ]);
+    expect(dimensions[2].detail).toBe("3 open risks with impact 4 or more");
+  });
+
+  it("combines them by the worst color or one step below the schedule", () => {
+    const worst = explainHealthRules(withDimensions("worst"), troubled);
+    expect(worst.color).toBe("red");
+    expect(worst.scheduleColor).toBe("green");
+    expect(worst.rule).toBe("dimensions");
+    expect(evaluateHealthRules(withDimensions("capped"), troubled)).toBe("yellow");
+  });
+
+  it("leaves projects without budget data and fixed statuses alone", () => {
+    const rules = withDimensions("worst");
+    expect(evaluateHealthRules(rules, inputs({ budgetOverrun: null }))).toBe("green");
+    expect(evaluateHealthRules(rules, { ...troubled, status: "completed" })).toBe("green");
+    expect(evaluateHealthRules(DEFAULT_HEALTH_RULES, troubled)).toBe("green");
+  });
+
+  it("rejects inverted dimension thresholds", () => {
+    const rules = withDimensions("worst");
+    rules.dimensions.budget = { enabled: true, yellowOver: 30, redOver: 10 };
+    rules.dimensions.risks.minImpact = 6;
+    expect(validateHealthRules(rules)).toEqual([
+      "Budget: the yellow overrun cannot be above the red one",
+      "Risks: the minimum impact must be between 1 and 5",
+    ]);
+  });
+});
+
+describe("normalizeHealthRules", () => {
+  it("fills missing sections from the defaults and orders bands", () => {
+    const rules = normalizeHealthRules({
+      overdue: { yellow: 95 },
+      timeBands: [
+        { above: 0, green: 80, yellow: 60 },
+        { above: 50, green: 20, yellow: 10 },
+      ],
+    });
+    expect(rules.noTimeData).toEqual(DEFAULT_HEALTH_RULES.noTimeData);
+    expect(rules.overdue.yellow).toBe(95);
+    expect(rules.timeBands.map((b) => b.above)).toEqual([50, 0]);
+    expect(evaluateHealthRules(rules, inputs({ timeRemaining: 30, completion: 70 }))).toBe("yellow");
+    expect(normalizeHealthRules(null)).toEqual(DEFAULT_HEALTH_RULES);
+  });
+});
+
+describe("validateHealthRules", () => {
+  it("accepts the defaults and flags inverted or uncovered thresholds", () => {
+    expect(validateHealthRules(DEFAULT_HEALTH_RULES)).toEqual([]);
+    const errors = validateHealthRules({
+      ...DEFAULT_HEALTH_RULES,
+      noTimeData: { green: 30, yellow: 60 },
+      timeBands: [{ above: 20, green: 50, yellow: 20 }],
+    });
+    expect(errors).toHaveLength(2);
+  });
+});
+
+describe("simulateHealthRules", () => {
+  it("lists governed projects whose color would change", () => {
+    const projects = [
+      { id: "a", title: "Alpha", department: "IT", inputs: inputs({ timeRemaining: 30, completion: 20 }) },
+      { id: "b", title: "Beta", department: "IT", inputs: inputs({ timeRemaining: 30, completion: 50 }) },
+      { id: "c", title: "Gamma", department: "HR", inputs: inputs({ timeRemaining: 30, completion: 20 }) },
+      { id: "d", title: "Delta", department: "IT", inputs: null },
+    ];
+    const strict = normalizeHealthRules({
+      timeBands: [{ above: 0, green: 40, yellow: 25 }],
+    });
+
+    const result = simulateHealthRules(projects, "IT", strict);
+    expect(result.evaluated).toBe(2);
+    expect(result.changes).toEqual([
+      { id: "a", title: "Alpha", department: "IT", current: "yellow", proposed: "red" },
+    ]);
+
+    // The organization default governs every department without its own set
+    expect(simulateHealthRules(projects, null, strict).evaluated).toBe(3);
+  });
+});
@@ -0,0 +1,617 @@
+/**
+ * File: healthRules.ts
+ * Purpose: Admin-configurable health rules. The thresholds behind the automatic
+ * red/yellow/green project health live in versioned rule sets (organization
+ * default or per department). evaluateHealthRules mirrors the SQL function
+ * evaluate_health_rules so the client and the stored computed_status_color
+ * agree; a draft can be simulated against current projects before publishing.
+ * Optional dimensions (budget variance, high-impact risks, overdue milestones)
+ * each get a sub-color and can pull the schedule color down.
+ */
+
+import { supabase } from "../supabase";
+import type { Json } from "@/types/supabase";
+
+export type HealthColor = "red" | "yellow" | "green";
+
+export type HealthRuleSetStatus = "draft" | "published" | "archived";
+
+/** Completion thresholds (percent) for one band of time remaining */
+export interface HealthTimeBand {
+  /** Applies when time remaining is above this percentage */
+  above: number;
+  /** Green at or above this completion */
+  green: number;
+  /** Yellow at or above this completion, red below */
+  yellow: number;
+}
+
+export interface HealthRules {
+  /** Fixed colors for non-active statuses */
+  statusColors: Partial<Record<string, HealthColor>>;
+  /** Active projects without milestones */
+  noMilestones: HealthColor;
+  /** Completion thresholds when the project has no duration data */
+  noTimeData: { green: number; yellow: number };
+  /** Not started yet: yellow when completion is above this, else green */
+  futureStart: { yellowAbove: number };
+  /** No time left: yellow at or above this completion, else red */
+  overdue: { yellow: number };
+  /** Checked from the most time remaining down; the first match applies */
+  timeBands: HealthTimeBand[];
+  /** Extra dimensions next to the schedule; each is off until enabled */
+  dimensions: HealthDimensionRules;
+}
+
+export interface HealthDimensionRules {
+  /** Forecast over budget_total, in percent: yellow above yellowOver, red above redOver */
+  budget: { enabled: boolean; yellowOver: number; redOver: number };
+  /** Open and mitigating risks with an impact score of at least minImpact */
+  risks: { enabled: boolean; minImpact: number; yellowAt: number; redAt: number };
+  /** Unfinished milestones whose end date has passed */
+  overdueMilestones: { enabled: boolean; yellowAt: number; redAt: number };
+  /**
+   * "worst": the worst dimension decides the color. "capped": the other
+   * dimensions lower the schedule color by one step at most.
+   */
+  composite: "worst" | "capped";
+}
+
+export interface HealthRuleSet {
+  id: string;
+  department: string | null;
+  version: number;
+  status: HealthRuleSetStatus;
+  rules: HealthRules;
+  note: string | null;
+  created_at: string;
+  published_at: string | null;
+}
+
+/** What the rules look at; manual health is decided before the rules apply */
+export interface HealthRuleInputs {
+  status: string | null;
+  hasMilestones: boolean;
+  /** Weighted milestone completion, 0–100 */
+  completion: number;
+  /** Share of the duration left, 0–100; null without duration data */
+  timeRemaining: number | null;
+  startsInFuture: boolean;
+  /** Forecast over budget_total in percent (negative when under); null without a budget */
+  budgetOverrun?: number | null;
+  /** Impact scores (1–5) of open and mitigating risks */
+  activeRiskImpacts?: number[];
+  /** Unfinished milestones whose end date has passed */
+  overdueMilestones?: number;
+}
+
+/** The thresholds that used to be hard-coded; keep in step with default_health_rules() */
+export const DEFAULT_HEALTH_RULES: HealthRules = {
+  statusColors: { completed: "green", cancelled: "red", draft: "yellow", on_hold: "yellow" },
+  noMilestones: "green",
+  noTimeData: { green: 70, yellow: 40 },
+  futureStart: { yellowAbove: 50 },
+  overdue: { yellow: 90 },
+  timeBands: [
+    { above: 70, green: 5, yellow: 0 },
+    { above: 40, green: 15, yellow: 5 },
+    { above: 20, green: 30, yellow: 15 },
+    { above: 0, green: 70, yellow: 50 },
+  ],
+  dimensions: {
+    budget: { enabled: false, yellowOver: 10, redOver: 25 },
+    risks: { enabled: false, minImpact: 4, yellowAt: 1, redAt: 3 },
+    overdueMilestones: { enabled: false, yellowAt: 1, redAt: 3 },
+    composite: "worst",
+  },
+};
+
+const bandColor = (completion: number, green: number, yellow: number): HealthColor =>
+  completion >= green ? "green" : completion >= yellow ? "yellow" : "red";
+
+export type HealthRuleId =
+  | "manual"
+  | "status"
+  | "noMilestones"
+  | "noTimeData"
+  | "futureStart"
+  | "overdue"
+  | "timeBand"
+  | "dimensions";
+
+export type HealthDimensionKey = "schedule" | "budget" | "risks" | "overdueMilestones";
+
+export interface HealthDimensionResult {
+  key: HealthDimensionKey;
+  label: string;
+  /** Null when the dimension is off or the project has no data for it */
+  color: HealthColor | null;
+  detail: string;
+}
+
+export interface HealthExplanation {
+  color: HealthColor;
+  /** The rule that decided the color */
+  rule: HealthRuleId;
+  /** That rule in words */
+  reason: string;
+  /** What would move the project up a color; null when already green or out of the project's hands */
+  nextStep: string | null;
+  /** The color from completion against time alone */
+  scheduleColor: HealthColor;
+  /** Sub-colors, schedule first; empty when the status fixes the color */
+  dimensions: HealthDimensionResult[];
+}
+
+type ScheduleExplanation = Omit<HealthExplanation, "scheduleColor" | "dimensions">;
+
+const STATUS_LABELS: Record<string, string> = {
+  active: "Active",
+  draft: "Draft",
+  on_hold: "On hold",
+  completed: "Completed",
+  cancelled: "Cancelled",
+};
+
+// Next step for a completion band: reach the threshold of the next color up
+const bandNextStep = (color: HealthColor, completion: number, green: number, yellow: number) => {
+  if (color === "green") return null;
+  const target = color === "red" ? yellow : green;
+  const next = color === "red" ? "yellow" : "green";
+  return `Reach ${target}% weighted completion (${Math.max(0, target - completion)} points to go) to turn ${next}`;
+};
+
+// Completion against time: the rule set as it stood before dimensions
+const explainSchedule = (rules: HealthRules, inputs: HealthRuleInputs): ScheduleExplanation => {
+  const status = inputs.status || "active";
+  const statusColor = rules.statusColors[status];
+  if (statusColor) {
+    return {
+      color: statusColor,
+      rule: "status",
+      reason: `${STATUS_LABELS[status] || status} projects are always ${statusColor}`,
+      nextStep: statusColor === "green" ? null : "Only a change of project status changes this color",
+    };
+  }
+
+  if (!inputs.hasMilestones) {
+    return {
+      color: rules.noMilestones,
+      rule: "noMilestones",
+      reason: `Projects without milestones are ${rules.noMilestones}`,
+      nextStep: rules.noMilestones === "green" ? null : "Add milestones so progress can be measured",
+    };
+  }
+
+  const { completion, timeRemaining } = inputs;
+  if (timeRemaining === null) {
+    const { green, yellow } = rules.noTimeData;
+    const color = bandColor(completion, green, yellow);
+    return {
+      color,
+      rule: "noTimeData",
+      reason: `No duration data: green from ${green}%, yellow from ${yellow}% weighted completion`,
+      nextStep: bandNextStep(color, completion, green, yellow),
+    };
+  }
+
+  if (inputs.startsInFuture) {
+    const { yellowAbove } = rules.futureStart;
+    const color: HealthColor = completion > yellowAbove ? "yellow" : "green";
+    return {
+      color,
+      rule: "futureStart",
+      reason: `Not started yet: yellow when more than ${yellowAbove}% is already marked complete`,
+      nextStep: color === "green" ? null : "Recheck milestone completion, or the color follows the time bands once the project starts",
+    };
+  }
+
+  if (timeRemaining === 0) {
+    const color: HealthColor = completion >= rules.overdue.yellow ? "yellow" : "red";
+    return {
+      color,
+      rule: "overdue",
+      reason: `No time left: yellow from ${rules.overdue.yellow}% weighted completion, red below`,
+      nextStep:
+        color === "red"
+          ? `Reach ${rules.overdue.yellow}% weighted completion (${Math.max(0, rules.overdue.yellow - completion)} points to go), or move out the last milestone`
+          : "Finish the project, or move out the last milestone",
+    };
+  }
+
+  const band = rules.timeBands.find((b) => timeRemaining > b.above);
+  if (!band) {
+    return {
+      color: "red",
+      rule: "timeBand",
+      reason: `No time band covers ${timeRemaining}% time left`,
+      nextStep: "Ask an administrator to review the health rules",
+    };
+  }
+  const color = bandColor(completion, band.green, band.yellow);
+  return {
+    color,
+    rule: "timeBand",
+    reason: `More than ${band.above}% time left: green from ${band.green}%, yellow from ${band.yellow}% weighted completion`,
+    nextStep: bandNextStep(color, completion, band.green, band.yellow),
+  };
+};
+
+const COLOR_RANK: Record<HealthColor, number> = { green: 0, yellow: 1, red: 2 };
+const RANKED_COLORS: HealthColor[] = ["green", "yellow", "red"];
+
+const countColor = (count: number, yellowAt: number, redAt: number): HealthColor =>
+  count >= redAt ? "red" : count >= yellowAt ? "yellow" : "green";
+
+const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? "" : "s"}`;
+
+/** Sub-color per dimension; mirrors apply_health_dimensions() */
+export const evaluateHealthDimensions = (
+  rules: HealthRules,
+  inputs: HealthRuleInputs,
+  scheduleColor: HealthColor,
+): HealthDimensionResult[] => {
+  const { budget, risks, overdueMilestones } = rules.dimensions;
+  const overrun = inputs.budgetOverrun ?? null;
+  const highImpact = (inputs.activeRiskImpacts || []).filter((i) => i >= risks.minImpact).length;
+  const overdue = inputs.overdueMilestones ?? 0;
+
+  return [
+    {
+      key: "schedule",
+      label: "Schedule",
+      color: scheduleColor,
+      detail:
+        inputs.timeRemaining === null
+          ? `${inputs.completion}% complete`
+          : `${inputs.completion}% complete, ${inputs.timeRemaining}% time left`,
+    },
+    {
+      key: "budget",
+      label: "Budget",
+      color:
+        !budget.enabled || overrun === null
+          ? null
+          : overrun > budget.redOver ? "red" : overrun > budget.yellowOver ? "yellow" : "green",
+      detail:
+        overrun === null
+          ? "No budget or forecast"
+          : overrun > 0 ? `Forecast ${overrun}% over budget` : "Forecast within budget",
+    },
+    {
+      key: "risks",
+      label: "Risks",
+      color: risks.enabled ? countColor(highImpact, risks.yellowAt, risks.redAt) : null,
+      detail: `${plural(highImpact, "open risk")} with impact ${risks.minImpact} or more`,
+    },
+    {
+      key: "overdueMilestones",
+      label: "Milestones",
+      color: overdueMilestones.enabled
+        ? countColor(overdue, overdueMilestones.yellowAt, overdueMilestones.redAt)
+        : null,
+      detail: plural(overdue, "overdue milestone"),
+    },
+  ];
+};
+
+/** The composite color of the scored dimensions (the first entry is the schedule) */
+export const combineHealthDimensions = (
+  rules: HealthRules,
+  dimensions: HealthDimensionResult[],
+): HealthColor => {
+  const schedule = dimensions[0].color || "green";
+  const worst = dimensions.reduce<HealthColor>(
+    (acc, d) => (d.color && COLOR_RANK[d.color] > COLOR_RANK[acc] ? d.color : acc),
+    schedule,
+  );
+  if (rules.dimensions.composite === "worst") return worst;
+  return RANKED_COLORS[Math.min(COLOR_RANK[worst], COLOR_RANK[schedule] + 1)];
+};
+
+/** The color the rules give, with the rule that fired and how to improve on it */
+export const explainHealthRules = (rules: HealthRules, inputs: HealthRuleInputs): HealthExplanation => {
+  const schedule = explainSchedule(rules, inputs);
+  if (schedule.rule === "status") {
+    return { ...schedule, scheduleColor: schedule.color, dimensions: [] };
+  }
+
+  const dimensions = evaluateHealthDimensions(rules, inputs, schedule.color);
+  const color = combineHealthDimensions(rules, dimensions);
+  const result = { ...schedule, scheduleColor: schedule.color, dimensions };
+  if (color === schedule.color) return result;
+
+  const lowering = dimensions.filter(
+    (d) => d.key !== "schedule" && d.color && COLOR_RANK[d.color] > COLOR_RANK[schedule.color],
+  );
+  return {
+    ...result,
+    color,
+    rule: "dimensions",
+    reason: `Schedule alone is ${schedule.color}; lowered to ${color} by ${lowering
+      .map((d) => `${d.label.toLowerCase()} (${d.detail})`)
+      .join(", ")}`,
+    nextStep: `Bring ${lowering.map((d) => d.label.toLowerCase()).join(" and ")} back to ${schedule.color}`,
+  };
+};
+
+export const evaluateHealthRules = (rules: HealthRules, inputs: HealthRuleInputs): HealthColor =>
+  explainHealthRules(rules, inputs).color;
+
+const normalizeDimensions = (raw: Partial<HealthDimensionRules> | undefined): HealthDimensionRules => {
+  const defaults = DEFAULT_HEALTH_RULES.dimensions;
+  return {
+    budget: { ...defaults.budget, ...(raw?.budget || {}) },
+    risks: { ...defaults.risks, ...(raw?.risks || {}) },
+    overdueMilestones: { ...defaults.overdueMilestones, ...(raw?.overdueMilestones || {}) },
+    composite: raw?.composite === "capped" ? "capped" : "worst",
+  };
+};
+
+/**
+ * Fills gaps from the defaults and orders the time bands from the most time
+ * remaining down, so stored JSON from any version evaluates predictably.
+ */
+export const normalizeHealthRules = (raw: unknown): HealthRules => {
+  const value = (raw && typeof raw === "object" ? raw : {}) as Partial<HealthRules>;
+  const bands = Array.isArray(value.timeBands) && value.timeBands.length > 0
+    ? value.timeBands
+    : DEFAULT_HEALTH_RULES.timeBands;
+  return {
+    statusColors: { ...DEFAULT_HEALTH_RULES.statusColors, ...(value.statusColors || {}) },
+    noMilestones: value.noMilestones || DEFAULT_HEALTH_RULES.noMilestones,
+    noTimeData: { ...DEFAULT_HEALTH_RULES.noTimeData, ...(value.noTimeData || {}) },
+    futureStart: { ...DEFAULT_HEALTH_RULES.futureStart, ...(value.futureStart || {}) },
+    overdue: { ...DEFAULT_HEALTH_RULES.overdue, ...(value.overdue || {}) },
+    timeBands: bands.map((b) => ({ ...b })).sort((a, b) => b.above - a.above),
+    dimensions: normalizeDimensions(value.dimensions),
+  };
+};
+
+/** Problems that would make a rule set misleading; empty when it can be saved */
+export const validateHealthRules = (rules: HealthRules): string[] => {
+  const errors: string[] = [];
+  const inRange = (n: number) => Number.isFinite(n) && n >= 0 && n <= 100;
+  const checkPair = (label: string, green: number, yellow: number) => {
+    if (!inRange(green) || !inRange(yellow)) {
+      errors.push(`${label}: thresholds must be between 0 and 100`);
+    } else if (yellow > green) {
+      errors.push(`${label}: the yellow threshold cannot be above the green one`);
+    }
+  };
+
+  checkPair("No duration data", rules.noTimeData.green, rules.noTimeData.yellow);
+  if (!inRange(rules.futureStart.yellowAbove)) {
+    errors.push("Not started: threshold must be between 0 and 100");
+  }
+  if (!inRange(rules.overdue.yellow)) {
+    errors.push("Overdue: threshold must be between 0 and 100");
+  }
+  if (rules.timeBands.length === 0) {
+    errors.push("At least one time band is required");
+  }
+  rules.timeBands.forEach((band) => {
+    checkPair(`More than ${band.above}% time left`, band.green, band.yellow);
+    if (!inRange(band.above)) {
+      errors.push("Time bands must start between 0% and 100% time left");
+    }
+  });
+  if (rules.timeBands.length > 0 && Math.min(...rules.timeBands.map((b) => b.above)) !== 0) {
+    errors.push("The last time band must cover everything above 0% time left");
+  }
+  if (new Set(rules.timeBands.map((b) => b.above)).size !== rules.timeBands.length) {
+    errors.push("Time bands must start at different percentages");
+  }
+
+  const { budget, risks, overdueMilestones } = rules.dimensions;
+  const isCount = (n: number) => Number.isInteger(n) && n >= 1;
+  if (budget.enabled) {
+    if (!Number.isFinite(budget.yellowOver) || !Number.isFinite(budget.redOver) || budget.yellowOver < 0) {
+      errors.push("Budget: overrun thresholds must be 0% or more");
+    } else if (budget.yellowOver > budget.redOver) {
+      errors.push("Budget: the yellow overrun cannot be above the red one");
+    }
+  }
+  if (risks.enabled) {
+    if (!Number.isInteger(risks.minImpact) || risks.minImpact < 1 || risks.minImpact > 5) {
+      errors.push("Risks: the minimum impact must be between 1 and 5");
+    }
+    if (!isCount(risks.yellowAt) || !isCount(risks.redAt)) {
+      errors.push("Risks: counts must be whole numbers of 1 or more");
+    } else if (risks.yellowAt > risks.redAt) {
+      errors.push("Risks: the yellow count cannot be above the red one");
+    }
+  }
+  if (overdueMilestones.enabled) {
+    if (!isCount(overdueMilestones.yellowAt) || !isCount(overdueMilestones.redAt)) {
+      errors.push("Overdue milestones: counts must be whole numbers of 1 or more");
+    } else if (overdueMilestones.yellowAt > overdueMilestones.redAt) {
+      errors.push("Overdue milestones: the yellow count cannot be above the red one");
+    }
+  }
+  return errors;
+};
+
+// Published rules by department ("" for the organization default), loaded
+// once per session so the synchronous health calculation can read them
+let publishedRules: Map<string, HealthRules> | null = null;
+let loading: Promise<void> | null = null;
+
+const scopeKey = (department: string | null | undefined) => department || "";
+
+/** Published rules for a department, else the organization's, else the defaults */
+export const getHealthRulesForDepartment = (department?: string | null): HealthRules =>
+  publishedRules?.get(scopeKey(department)) ||
+  publishedRules?.get("") ||
+  DEFAULT_HEALTH_RULES;
+
+/** Whether a department has a published set of its own */
+export const hasDepartmentRules = (department: string | null | undefined): boolean =>
+  !!department && !!publishedRules?.has(scopeKey(department));
+
+export interface HealthSimulationProject {
+  id: string;
+  title: string;
+  department: string | null;
+  /** Null for manually tracked projects, which the rules don't touch */
+  inputs: HealthRuleInputs | null;
+}
+
+export interface HealthSimulationChange {
+  id: string;
+  title: string;
+  department: string | null;
+  current: HealthColor;
+  proposed: HealthColor;
+}
+
+/**
+ * Projects a draft for the given scope would recolor. A department set governs
+ * that department; the organization default governs departments without one.
+ */
+export const simulateHealthRules = (
+  projects: HealthSimulationProject[],
+  department: string | null,
+  draft: HealthRules,
+): { evaluated: number; changes: HealthSimulationChange[] } => {
+  const governed = projects.filter((p) =>
+    p.inputs !== null &&
+    (department ? p.department === department : !hasDepartmentRules(p.department)),
+  );
+  const changes = governed
+    .map((p) => ({
+      id: p.id,
+      title: p.title,
+      department: p.department,
+      current: evaluateHealthRules(getHealthRulesForDepartment(p.department), p.inputs!),
+      proposed: evaluateHealthRules(draft, p.inputs!),
+    }))
+    .filter((c) => c.current !== c.proposed)
+    .sort((a, b) => a.title.localeCompare(b.title));
+  return { evaluated: governed.length, changes };
+};
+
+const toRuleSet = (row: {
+  id: string;
+  department: string | null;
+  version: number;
+  status: string;
+  rules: Json;
+  note: string | null;
+  created_at: string;
+  published_at: string | null;
+}): HealthRuleSet => ({
+  ...row,
+  status: row.status as HealthRuleSetStatus,
+  rules: normalizeHealthRules(row.rules),
+});
+
+export const healthRulesService = {
+  /** Loads the published rule sets once; later calls reuse them */
+  async ensureLoaded(): Promise<void> {
+    if (publishedRules) return;
+    if (!loading) {
+      loading = this.reload().finally(() => {
+        loading = null;
+      });
+    }
+    return loading;
+  },
+
+  async reload(): Promise<void> {
+    const { data, error } = await supabase
+      .from("health_rule_sets")
+      .select("department, rules")
+      .eq("status", "published");
+    if (error) {
+      console.error("[HEALTH_RULES] Failed to load published rules:", error);
+      // Fall back to the defaults until the next reload
+      publishedRules = publishedRules || new Map();
+      return;
+    }
+    publishedRules = new Map(
+      (data || []).map((row) => [scopeKey(row.department), normalizeHealthRules(row.rules)]),
+    );
+  },
+
+  /** Every version for a scope, newest first */
+  async getRuleSets(department: string | null): Promise<HealthRuleSet[]> {
+    let query = supabase
+      .from("health_rule_sets")
+      .select("id, department, version, status, rules, note, created_at, published_at")
+      .order("version", { ascending: false });
+    query = department ? query.eq("department", department) : query.is("department", null);
+    const { data, error } = await query;
+    if (error) {
+      console.error("[HEALTH_RULES] Failed to load rule sets:", error);
+      return [];
+    }
+    return (data || []).map(toRuleSet);
+  },
+
+  /**
+   * Saves the scope's draft, updating the open draft when there is one and
+   * otherwise starting the next version.
+   */
+  async saveDraft(
+    department: string | null,
+    rules: HealthRules,
+    note: string | null,
+  ): Promise<HealthRuleSet | null> {
+    const sets = await this.getRuleSets(department);
+    const draft = sets.find((s) => s.status === "draft");
+    // Stored normalized so evaluate_health_rules can walk the bands in order
+    const payload = {
+      rules: normalizeHealthRules(rules) as unknown as Json,
+      note: note?.trim() || null,
+    };
+
+    const { data, error } = draft
+      ? await supabase
+          .from("health_rule_sets")
+          .update(payload)
+          .eq("id", draft.id)
+          .select("id, department, version, status, rules, note, created_at, published_at")
+          .single()
+      : await supabase
+          .from("health_rule_sets")
+          .insert({
+            ...payload,
+            department,
+            version: (sets[0]?.version || 0) + 1,
+          })
+          .select("id, department, version, status, rules, note, created_at, published_at")
+          .single();
+    if (error || !data) {
+      console.error("[HEALTH_RULES] Failed to save draft:", error);
+      return null;
+    }
+    return toRuleSet(data);
+  },
+
+  async deleteDraft(id: string): Promise<boolean> {
+    const { error } = await supabase
+      .from("health_rule_sets")
+      .delete()
+      .eq("id", id)
+      .eq("status", "draft");
+    if (error) {
+      console.error("[HEALTH_RULES] Failed to discard draft:", error);
+      return false;
+    }
+    return true;
+  },
+
+  /** Publishes a draft; returns the number of projects recalculated, or null on failure */
+  async publish(id: string): Promise<number | null> {
+    const { data, error } = await supabase.rpc("publish_health_rule_set", {
+      p_rule_set_id: id,
+    });
+    if (error) {
+      console.error("[HEALTH_RULES] Failed to publish rule set:", error);
+      return null;
+    }
+    await this.reload();
+    return data ?? 0;
+  },
+};
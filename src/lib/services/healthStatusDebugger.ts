@@ -3,6 +3,7 @@ import {
   calculateProjectHealthStatusColor,
   calculateWeightedCompletion,
 } from "./project";
+import { healthRulesService } from "./healthRules";
 
 /**
  * Debug service to help identify health status calculation discrepancies
@@ -21,6 +22,7 @@ export const healthStatusDebugger = {
   } | null> {
     try {
       console.log(`[HEALTH_DEBUG] Debugging project: ${projectId}`);
+      await healthRulesService.ensureLoaded();
 
       // Get the project
       const { data: project, error: projectError } = await supabase
@@ -133,6 +135,7 @@ export const healthStatusDebugger = {
   }> {
     try {
       console.log("[HEALTH_DEBUG] Debugging all projects...");
+      await healthRulesService.ensureLoaded();
 
       // Get all projects
       const { data: projects, error: projectsError } = await supabase
@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import {
+  countHolidays,
+  countWorkingDays,
+  getHolidayDates,
+  isWorkingDay,
+  type Holiday,
+} from "./holidayCalendar";
+
+const holidays: Holiday[] = [
+  { id: "h1", holiday_date: "2025-01-01", name: "New Year's Day", department: null },
+  { id: "h2", holiday_date: "2025-01-20", name: "MLK Day", department: null },
+  { id: "h3", holiday_date: "2025-01-08", name: "Office move", department: "Finance" },
+];
+
+// Local dates, matching how the working-day loops step through the calendar
+const day = (y: number, m: number, d: number) => new Date(y, m - 1, d);
+
+describe("getHolidayDates", () => {
+  it("includes organization-wide holidays and the project's department only", () => {
+    expect([...getHolidayDates(holidays, "Finance")].sort()).toEqual([
+      "2025-01-01",
+      "2025-01-08",
+      "2025-01-20",
+    ]);
+    expect(getHolidayDates(holidays, "IT").has("2025-01-08")).toBe(false);
+    expect(getHolidayDates(holidays, null).size).toBe(2);
+  });
+});
+
+describe("countWorkingDays", () => {
+  it("skips weekends and holidays", () => {
+    // Jan 2025 has 23 weekdays; two organization-wide holidays fall on weekdays
+    const from = day(2025, 1, 1);
+    const to = day(2025, 1, 31);
+    expect(countWorkingDays(from, to)).toBe(23);
+    expect(countWorkingDays(from, to, getHolidayDates(holidays, "IT"))).toBe(21);
+    expect(countWorkingDays(from, to, getHolidayDates(holidays, "Finance"))).toBe(20);
+  });
+
+  it("returns 0 when the range is reversed", () => {
+    expect(countWorkingDays(day(2025, 1, 10), day(2025, 1, 1))).toBe(0);
+  });
+});
+
+describe("countHolidays", () => {
+  it("counts holidays up to but not including the end date", () => {
+    const dates = getHolidayDates(holidays, "Finance");
+    expect(countHolidays(day(2025, 1, 1), day(2025, 1, 20), dates)).toBe(2);
+    expect(countHolidays(day(2025, 1, 1), day(2025, 1, 21), dates)).toBe(3);
+    expect(countHolidays(day(2025, 1, 10), day(2025, 1, 1), dates)).toBe(0);
+  });
+});
+
+describe("isWorkingDay", () => {
+  it("treats a holiday on a weekday as non-working", () => {
+    const dates = getHolidayDates(holidays);
+    expect(isWorkingDay(day(2025, 1, 1), dates)).toBe(false);
+    expect(isWorkingDay(day(2025, 1, 2), dates)).toBe(true);
+    expect(isWorkingDay(day(2025, 1, 4), dates)).toBe(false); // Saturday
+  });
+});
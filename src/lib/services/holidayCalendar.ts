@@ -0,0 +1,157 @@
+/**
+ * File: holidayCalendar.ts
+ * Purpose: Organization holiday calendar and the working-day helpers built on
+ * it. A holiday with no department applies organization-wide; a holiday with a
+ * department (e.g. a regional office shutdown) applies only to projects in
+ * that department. Weekends are never working days.
+ */
+
+import { supabase } from "../supabase";
+
+export interface Holiday {
+  id: string;
+  holiday_date: string; // YYYY-MM-DD
+  name: string;
+  department: string | null; // null = organization-wide
+  created_at?: string | null;
+}
+
+// Holiday dates keyed as YYYY-MM-DD
+export type HolidayDates = ReadonlySet<string>;
+
+/**
+ * Calendar key for a date. Uses local date parts so it agrees with getDay(),
+ * which the working-day loops use for the weekend check.
+ */
+export const toDateKey = (date: Date): string => {
+  const m = String(date.getMonth() + 1).padStart(2, "0");
+  const d = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${m}-${d}`;
+};
+
+export const isWeekend = (date: Date): boolean => {
+  const dayOfWeek = date.getDay();
+  // 0 = Sunday, 6 = Saturday
+  return dayOfWeek === 0 || dayOfWeek === 6;
+};
+
+export const isWorkingDay = (date: Date, holidays?: HolidayDates): boolean =>
+  !isWeekend(date) && !holidays?.has(toDateKey(date));
+
+/**
+ * Count working days from `from` to `to`, both inclusive. Returns 0 when
+ * `to` is before `from`.
+ */
+export const countWorkingDays = (
+  from: Date,
+  to: Date,
+  holidays?: HolidayDates,
+): number => {
+  let count = 0;
+  const cursor = new Date(from);
+  while (cursor <= to) {
+    if (isWorkingDay(cursor, holidays)) {
+      count++;
+    }
+    cursor.setDate(cursor.getDate() + 1);
+  }
+  return count;
+};
+
+/**
+ * Count holiday dates from `from` up to but not including `to`, matching the
+ * end-exclusive calendar-day spans they are taken out of.
+ */
+export const countHolidays = (
+  from: Date,
+  to: Date,
+  holidays?: HolidayDates,
+): number => {
+  if (!holidays?.size) return 0;
+  let count = 0;
+  const cursor = new Date(from);
+  while (cursor < to) {
+    if (holidays.has(toDateKey(cursor))) {
+      count++;
+    }
+    cursor.setDate(cursor.getDate() + 1);
+  }
+  return count;
+};
+
+/**
+ * Holidays that apply to a project: organization-wide ones plus those for the
+ * project's department
+ */
+export const filterHolidaysForDepartment = (
+  holidays: Holiday[],
+  department?: string | null,
+): Holiday[] =>
+  holidays.filter((h) => !h.department || h.department === department);
+
+export const getHolidayDates = (
+  holidays: Holiday[],
+  department?: string | null,
+): HolidayDates =>
+  new Set(
+    filterHolidaysForDepartment(holidays, department).map((h) => h.holiday_date),
+  );
+
+// Service for the admin-managed holiday calendar
+export const holidayCalendarService = {
+  async getHolidays(): Promise<Holiday[]> {
+    const { data, error } = await supabase
+      .from("holiday_calendar")
+      .select("*")
+      .order("holiday_date", { ascending: true });
+
+    if (error) {
+      console.error("[HOLIDAYS] Error fetching holiday calendar:", error);
+      return [];
+    }
+
+    return (data || []) as Holiday[];
+  },
+
+  /**
+   * Holiday dates that apply to a department (organization-wide included)
+   */
+  async getHolidayDatesForDepartment(
+    department?: string | null,
+  ): Promise<HolidayDates> {
+    return getHolidayDates(await this.getHolidays(), department);
+  },
+
+  async addHoliday(
+    holiday: Pick<Holiday, "holiday_date" | "name" | "department">,
+  ): Promise<Holiday | null> {
+    const { data, error } = await supabase
+      .from("holiday_calendar")
+      .insert({
+        holiday_date: holiday.holiday_date,
+        name: holiday.name.trim(),
+        department: holiday.department || null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error("[HOLIDAYS] Failed to add holiday:", error);
+      return null;
+    }
+    return data as Holiday;
+  },
+
+  async deleteHoliday(holidayId: string): Promise<boolean> {
+    const { error } = await supabase
+      .from("holiday_calendar")
+      .delete()
+      .eq("id", holidayId);
+
+    if (error) {
+      console.error("[HOLIDAYS] Failed to delete holiday:", error);
+      return false;
+    }
+    return true;
+  },
+};
@@ -2,7 +2,38 @@ import {
   ProjectWithRelations,
   calculateWeightedCompletion,
   calculateProjectHealthStatusColor,
+  explainProjectHealthStatus,
 } from "./project";
+import { calculateBaselineVariance } from "./projectBaselines";
+import {
+  buildPortfolioHealthSeries,
+  getDaysInCurrentColor,
+  getSnapshotColor,
+  groupSnapshotsByProject,
+  type HealthSnapshot,
+  type PortfolioHealthPoint,
+} from "./healthHistory";
+import type { HealthColor, HealthDimensionKey } from "./healthRules";
+import { isHealthOverrideActive } from "./healthOverrides";
+import {
+  getProjectStaleness,
+  summarizeUpdateCompliance,
+  type StalenessThresholds,
+  type UpdateComplianceRow,
+} from "./projectStaleness";
+import {
+  getMilestoneSlipDays,
+  rankMostSlippedMilestones,
+  type MilestoneForecastChange,
+  type SlippedMilestone,
+} from "./milestoneForecasts";
+import {
+  buildEarnedValueSeries,
+  calculateEarnedValue,
+  rollupEarnedValue,
+  type EarnedValueMetrics,
+  type EarnedValuePoint,
+} from "./earnedValue";
 
 export interface FinancialKPIs {
   totalBudget: number;
@@ -19,6 +50,68 @@ export interface FinancialKPIs {
   }>;
 }
 
+export interface HealthHistoryKPIs {
+  series: PortfolioHealthPoint[];
+  // Open projects, longest in their current color first
+  projects: Array<{
+    projectId: string;
+    projectTitle: string;
+    color: HealthColor;
+    daysInColor: number;
+  }>;
+}
+
+export interface HealthOverrideKPIs {
+  // Open projects whose manual color differs from the rules' color, soonest expiry first
+  overrides: Array<{
+    projectId: string;
+    projectTitle: string;
+    department: string | null;
+    manualColor: HealthColor;
+    computedColor: HealthColor;
+    reason: string | null;
+    expiresAt: string | null;
+    setBy: string | null;
+    setAt: string | null;
+  }>;
+  // All active overrides, whether or not they change the color
+  activeOverrides: number;
+}
+
+export interface UpdateComplianceKPIs {
+  // Projects whose status has a staleness threshold
+  trackedProjects: number;
+  staleProjects: number;
+  // Share of tracked projects updated within their threshold, 0-100
+  complianceRate: number;
+  // Least compliant first
+  byManager: UpdateComplianceRow[];
+  byDepartment: UpdateComplianceRow[];
+}
+
+export interface MilestoneSlipKPIs {
+  // Incomplete milestones of open projects
+  openMilestones: number;
+  // Of those, the ones forecast to finish after their planned date
+  slippedMilestones: number;
+  averageSlipDays: number;
+  mostSlipped: SlippedMilestone[];
+}
+
+export interface EarnedValueKPIs {
+  // Portfolio totals over projects with a budget and a dated schedule
+  portfolio: EarnedValueMetrics | null;
+  series: EarnedValuePoint[];
+  projectsMeasured: number;
+  projectsBehindSchedule: number;
+  projectsOverCost: number;
+  projects: Array<{
+    projectId: string;
+    projectTitle: string;
+    metrics: EarnedValueMetrics;
+  }>;
+}
+
 export interface PerformanceKPIs {
   overallCompletion: number;
   milestoneCompletionRate: number;
@@ -28,6 +121,8 @@ export interface PerformanceKPIs {
     health: string;
     count: number;
     percentage: number;
+    /** Projects with this sub-color per health dimension; unscored dimensions are not counted */
+    dimensions: Record<HealthDimensionKey, number>;
   }>;
   statusDistribution: Array<{
     status: string;
@@ -84,6 +179,22 @@ export interface TimelineKPIs {
     daysOverdue: number;
     completion: number;
   }>;
+  // Current plan vs each project's active baseline
+  baselineVariance: {
+    projectsWithBaseline: number;
+    projectsBehindBaseline: number;
+    averageFinishVarianceDays: number;
+    averageScheduleVariancePercent: number;
+    projects: Array<{
+      projectId: string;
+      projectTitle: string;
+      baselineName: string;
+      finishVarianceDays: number;
+      scheduleVariancePercent: number;
+      budgetVariance: number | null;
+      slippedItems: number;
+    }>;
+  };
 }
 
 export interface DurationKPIs {
@@ -177,6 +288,134 @@ class KPIService {
     };
   }
 
+  calculateEarnedValueKPIs(projects: ProjectWithRelations[]): EarnedValueKPIs {
+    // Cancelled work earns nothing further, so it would only skew the indices
+    const measured = projects
+      .filter((p) => p.status !== "cancelled")
+      .map((p) => ({ project: p, metrics: calculateEarnedValue(p) }))
+      .filter((p): p is { project: ProjectWithRelations; metrics: EarnedValueMetrics } => !!p.metrics);
+
+    return {
+      portfolio: rollupEarnedValue(measured.map((m) => m.metrics)),
+      series: buildEarnedValueSeries(measured.map((m) => m.project)),
+      projectsMeasured: measured.length,
+      projectsBehindSchedule: measured.filter((m) => m.metrics.spi !== null && m.metrics.spi < 1).length,
+      projectsOverCost: measured.filter((m) => m.metrics.cpi !== null && m.metrics.cpi < 1).length,
+      // Worst cost performance first
+      projects: measured
+        .map(({ project, metrics }) => ({
+          projectId: project.id,
+          projectTitle: project.title,
+          metrics,
+        }))
+        .sort((a, b) => (a.metrics.cpi ?? Number.MAX_VALUE) - (b.metrics.cpi ?? Number.MAX_VALUE)),
+    };
+  }
+
+  calculateHealthHistoryKPIs(
+    projects: ProjectWithRelations[],
+    snapshots: HealthSnapshot[],
+  ): HealthHistoryKPIs {
+    const ids = new Set(projects.map((p) => p.id));
+    const relevant = snapshots.filter((s) => ids.has(s.project_id));
+    const byProject = groupSnapshotsByProject(relevant);
+
+    return {
+      series: buildPortfolioHealthSeries(relevant),
+      projects: projects
+        .filter((p) => p.status !== "completed" && p.status !== "cancelled")
+        .flatMap((project) => {
+          const history = byProject.get(project.id) || [];
+          const latest = history[history.length - 1];
+          const color = latest ? getSnapshotColor(latest) : null;
+          const daysInColor = getDaysInCurrentColor(history);
+          return color && daysInColor !== null
+            ? [{ projectId: project.id, projectTitle: project.title, color, daysInColor }]
+            : [];
+        })
+        .sort((a, b) => b.daysInColor - a.daysInColor),
+    };
+  }
+
+  calculateHealthOverrideKPIs(projects: ProjectWithRelations[]): HealthOverrideKPIs {
+    const active = projects.filter(
+      (p) =>
+        p.status !== "completed" &&
+        p.status !== "cancelled" &&
+        isHealthOverrideActive(p),
+    );
+
+    return {
+      activeOverrides: active.length,
+      overrides: active
+        .flatMap((project) => {
+          const computedColor = calculateProjectHealthStatusColor({
+            ...project,
+            health_calculation_type: "automatic",
+          });
+          const manualColor = project.manual_status_color as HealthColor;
+          return manualColor !== computedColor
+            ? [
+                {
+                  projectId: project.id,
+                  projectTitle: project.title,
+                  department: project.department,
+                  manualColor,
+                  computedColor,
+                  reason: project.manual_status_reason,
+                  expiresAt: project.manual_status_expires_at,
+                  setBy: project.manual_status_set_by_name,
+                  setAt: project.manual_status_set_at,
+                },
+              ]
+            : [];
+        })
+        .sort((a, b) => (a.expiresAt || "9999").localeCompare(b.expiresAt || "9999")),
+    };
+  }
+
+  calculateUpdateComplianceKPIs(
+    projects: ProjectWithRelations[],
+    thresholds: StalenessThresholds,
+  ): UpdateComplianceKPIs {
+    const tracked = projects
+      .map((p) => getProjectStaleness(p, thresholds))
+      .filter((s) => s.thresholdDays !== null);
+    const staleProjects = tracked.filter((s) => s.isStale).length;
+
+    return {
+      trackedProjects: tracked.length,
+      staleProjects,
+      complianceRate:
+        tracked.length > 0
+          ? Math.round(((tracked.length - staleProjects) / tracked.length) * 100)
+          : 100,
+      byManager: summarizeUpdateCompliance(projects, thresholds, (p) => p.project_manager),
+      byDepartment: summarizeUpdateCompliance(projects, thresholds, (p) => p.department),
+    };
+  }
+
+  calculateMilestoneSlipKPIs(
+    projects: ProjectWithRelations[],
+    changes: MilestoneForecastChange[],
+  ): MilestoneSlipKPIs {
+    const open = projects
+      .filter((p) => p.status !== "completed" && p.status !== "cancelled")
+      .flatMap((p) => p.milestones || [])
+      .filter((m) => m.completion < 100);
+    const slips = open
+      .map((m) => getMilestoneSlipDays(m) ?? 0)
+      .filter((days) => days > 0);
+
+    return {
+      openMilestones: open.length,
+      slippedMilestones: slips.length,
+      averageSlipDays:
+        slips.length > 0 ? Math.round(slips.reduce((sum, d) => sum + d, 0) / slips.length) : 0,
+      mostSlipped: rankMostSlippedMilestones(projects, changes),
+    };
+  }
+
   calculatePerformanceKPIs(projects: ProjectWithRelations[]): PerformanceKPIs {
     // Overall completion
     const totalCompletion = projects.reduce((sum, p) => {
@@ -205,9 +444,17 @@ class KPIService {
 
     // Health distribution - using standardized health calculation
     const healthCounts = new Map<string, number>();
+    const emptyDimensionCounts = (): Record<HealthDimensionKey, number> => ({
+      schedule: 0,
+      budget: 0,
+      risks: 0,
+      overdueMilestones: 0,
+    });
+    const dimensionCounts = new Map<string, Record<HealthDimensionKey, number>>();
     projects.forEach((p) => {
       // Use the standardized health calculation function
-      const health = calculateProjectHealthStatusColor(p);
+      const explanation = explainProjectHealthStatus(p);
+      const health = explanation.color;
 
       // Special handling: Exclude cancelled projects from health distribution
       // Cancelled projects should be tracked separately
@@ -218,6 +465,12 @@ class KPIService {
       }
 
       healthCounts.set(health, (healthCounts.get(health) || 0) + 1);
+      explanation.dimensions.forEach((d) => {
+        if (!d.color) return;
+        const counts = dimensionCounts.get(d.color) || emptyDimensionCounts();
+        counts[d.key]++;
+        dimensionCounts.set(d.color, counts);
+      });
     });
 
     // Calculate health distribution percentage based on non-cancelled projects only
@@ -232,6 +485,7 @@ class KPIService {
           nonCancelledProjects.length > 0
             ? Math.round((count / nonCancelledProjects.length) * 100)
             : 0,
+        dimensions: dimensionCounts.get(health) || emptyDimensionCounts(),
       }),
     );
 
@@ -243,6 +497,7 @@ class KPIService {
           health: status.toUpperCase(),
           count: 0,
           percentage: 0,
+          dimensions: dimensionCounts.get(status) || emptyDimensionCounts(),
         });
       }
     });
@@ -524,9 +779,44 @@ class KPIService {
     upcomingMilestones.sort((a, b) => a.daysUntilDue - b.daysUntilDue);
     overdueMilestones.sort((a, b) => b.daysOverdue - a.daysOverdue);
 
+    // Baseline variance, worst slip first
+    const baselineProjects = projects
+      .filter((project) => project.baseline)
+      .map((project) => {
+        const variance = calculateBaselineVariance(project, project.baseline!);
+        return {
+          projectId: project.id,
+          projectTitle: project.title,
+          baselineName: variance.baselineName,
+          finishVarianceDays: variance.finishVarianceDays ?? 0,
+          scheduleVariancePercent: variance.scheduleVariancePercent ?? 0,
+          budgetVariance: variance.budgetVariance,
+          slippedItems: variance.slippedItems,
+        };
+      })
+      .sort((a, b) => b.finishVarianceDays - a.finishVarianceDays);
+
+    const average = (values: number[]) =>
+      values.length > 0
+        ? Math.round((values.reduce((sum, v) => sum + v, 0) / values.length) * 10) / 10
+        : 0;
+
     return {
       upcomingMilestones,
       overdueMilestones,
+      baselineVariance: {
+        projectsWithBaseline: baselineProjects.length,
+        projectsBehindBaseline: baselineProjects.filter(
+          (p) => p.finishVarianceDays > 0,
+        ).length,
+        averageFinishVarianceDays: average(
+          baselineProjects.map((p) => p.finishVarianceDays),
+        ),
+        averageScheduleVariancePercent: average(
+          baselineProjects.map((p) => p.scheduleVariancePercent),
+        ),
+        projects: baselineProjects,
+      },
     };
   }
 
@@ -0,0 +1,158 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildSlipSeries,
+  formatSlip,
+  getMilestoneSlipDays,
+  rankMostSlippedMilestones,
+  traceMilestoneFinishes,
+  type MilestoneForecastChange,
+} from "./milestoneForecasts";
+
+const change = (
+  milestone_id: string,
+  changed_at: string,
+  previous_forecast_date: string,
+  forecast_date: string,
+  reason = "Vendor delay",
+): MilestoneForecastChange => ({
+  id: `${milestone_id}-${changed_at}`,
+  milestone_id,
+  project_id: "p1",
+  previous_forecast_date,
+  forecast_date,
+  reason,
+  source: "edit",
+  changed_by: null,
+  changed_by_name: null,
+  changed_at,
+});
+
+const milestone = {
+  id: "m1",
+  milestone: "Go live",
+  completion: 40,
+  date: "2026-01-05",
+  end_date: "2026-02-20",
+  planned_date: "2026-02-01",
+  forecast_date: "2026-02-20",
+  created_at: "2026-01-02T09:00:00Z",
+};
+
+const changes = [
+  change("m1", "2026-01-20T10:00:00Z", "2026-02-01", "2026-02-10", "Testing overran"),
+  change("m1", "2026-01-20T15:00:00Z", "2026-02-10", "2026-02-12"),
+  change("m1", "2026-02-03T10:00:00Z", "2026-02-12", "2026-02-20"),
+];
+
+describe("getMilestoneSlipDays", () => {
+  it("compares the forecast with the planned date", () => {
+    expect(getMilestoneSlipDays(milestone)).toBe(19);
+    expect(getMilestoneSlipDays({ end_date: "2026-02-01" })).toBe(0);
+    expect(getMilestoneSlipDays({})).toBeNull();
+    expect(formatSlip(19)).toBe("+19d");
+    expect(formatSlip(0)).toBe("On plan");
+  });
+});
+
+describe("buildSlipSeries", () => {
+  it("plots the forecast per day it moved, starting from the original plan", () => {
+    expect(buildSlipSeries(milestone, changes)).toEqual([
+      { date: "2026-01-02", forecast: "2026-02-01", slipDays: 0 },
+      { date: "2026-01-20", forecast: "2026-02-12", slipDays: 11 },
+      { date: "2026-02-03", forecast: "2026-02-20", slipDays: 19 },
+    ]);
+  });
+});
+
+describe("rankMostSlippedMilestones", () => {
+  it("lists open, late milestones of open projects, most slipped first", () => {
+    const projects = [
+      {
+        id: "p1",
+        title: "Portal",
+        status: "active",
+        milestones: [
+          milestone,
+          { ...milestone, id: "m2", milestone: "Pilot", forecast_date: "2026-02-05" },
+          { ...milestone, id: "m3", milestone: "Done", completion: 100 },
+          { ...milestone, id: "m4", milestone: "Early", forecast_date: "2026-01-25" },
+        ],
+      },
+      { id: "p2", title: "Closed", status: "completed", milestones: [{ ...milestone, id: "m5" }] },
+    ];
+
+    const ranked = rankMostSlippedMilestones(projects, changes);
+    expect(ranked.map((m) => [m.milestone, m.slipDays, m.forecastChanges])).toEqual([
+      ["Go live", 19, 3],
+      ["Pilot", 4, 0],
+    ]);
+    expect(ranked[0].lastReason).toBe("Vendor delay");
+  });
+});
+
+describe("traceMilestoneFinishes", () => {
+  it("follows milestones whose ids changed between versions by name, then position", () => {
+    const versions = [
+      {
+        created_at: "2026-01-05T09:00:00Z",
+        created_by: "u1",
+        milestones: [
+          { id: "a1", milestone: "Design", end_date: "2026-02-01" },
+          { id: "b1", milestone: "Build", date: "2026-03-01" },
+        ],
+      },
+      {
+        created_at: "2026-01-12T09:00:00Z",
+        created_by: "u2",
+        milestones: [
+          { id: "b2", milestone: "Build", date: "2026-03-15" },
+          { id: "a2", milestone: "Design", end_date: "2026-02-10" },
+        ],
+      },
+      {
+        created_at: "2026-01-20T09:00:00Z",
+        milestones: [
+          { id: "b3", milestone: "Build phase", date: "2026-03-20" },
+          { id: "a3", milestone: "Design", end_date: "2026-02-10" },
+        ],
+      },
+    ];
+    const current = [
+      { id: "b4", milestone: "Build phase" },
+      { id: "a4", milestone: "Design" },
+    ];
+
+    const traced = traceMilestoneFinishes(current, versions);
+    expect(
+      traced.filter((t) => t.milestoneId === "a4").map((t) => [t.finish, t.createdBy]),
+    ).toEqual([
+      ["2026-02-01", "u1"],
+      ["2026-02-10", "u2"],
+      ["2026-02-10", null],
+    ]);
+    // Renamed between versions, so matched by position
+    expect(traced.filter((t) => t.milestoneId === "b4").map((t) => t.finish)).toEqual([
+      "2026-03-01",
+      "2026-03-15",
+      "2026-03-20",
+    ]);
+  });
+
+  it("keeps ids once saves preserve them and leaves unmatched milestones out", () => {
+    const traced = traceMilestoneFinishes(
+      [{ id: "m1", milestone: "Go live" }],
+      [
+        {
+          created_at: "2026-01-05T09:00:00Z",
+          milestones: [
+            { id: "x1", milestone: "Retired", date: "2026-01-30" },
+            { id: "m1", milestone: "Launch", end_date: "2026-02-01" },
+          ],
+        },
+      ],
+    );
+    expect(traced).toEqual([
+      { milestoneId: "m1", finish: "2026-02-01", createdAt: "2026-01-05T09:00:00Z", createdBy: null },
+    ]);
+  });
+});
@@ -0,0 +1,268 @@
+/**
+ * File: milestoneForecasts.ts
+ * Purpose: Milestone forecasts and slip history. A milestone keeps the finish
+ * date it was planned with (planned_date, fixed once set) and the finish date
+ * currently expected (forecast_date). Moving the forecast takes a reason (an
+ * edit of the finish date moves it too, with a reason of its own), and every
+ * move is recorded in milestone_forecast_changes by a database trigger;
+ * history from before forecasts were tracked is backfilled from
+ * project_versions.
+ */
+
+import { supabase } from "../supabase";
+import type { Database } from "@/types/supabase";
+import { toDayNumber } from "./scheduleDependencies";
+
+export type MilestoneForecastChange =
+  Database["public"]["Tables"]["milestone_forecast_changes"]["Row"];
+
+/** The forecast fields of a milestone row or form entry */
+export interface MilestoneForecastFields {
+  id?: string;
+  date?: string | null;
+  end_date?: string | null;
+  planned_date?: string | null;
+  forecast_date?: string | null;
+  forecast_reason?: string | null;
+  created_at?: string | null;
+}
+
+export interface SlipPoint {
+  /** When the forecast was made, YYYY-MM-DD */
+  date: string;
+  forecast: string;
+  /** Days the forecast is behind the planned date; negative when ahead */
+  slipDays: number;
+}
+
+export interface SlippedMilestone {
+  projectId: string;
+  projectTitle: string;
+  milestoneId: string;
+  milestone: string;
+  plannedDate: string;
+  forecastDate: string;
+  slipDays: number;
+  forecastChanges: number;
+  lastReason: string | null;
+}
+
+const dayKey = (timestamp: string) => timestamp.split("T")[0];
+
+/** Planned finish; milestones saved before the migration fall back to their schedule dates */
+export const getPlannedDate = (milestone: MilestoneForecastFields): string | null =>
+  milestone.planned_date || milestone.end_date || milestone.date || null;
+
+export const getForecastDate = (milestone: MilestoneForecastFields): string | null =>
+  milestone.forecast_date || getPlannedDate(milestone);
+
+/** Days the forecast is behind plan (negative when ahead), or null without dates */
+export const getMilestoneSlipDays = (milestone: MilestoneForecastFields): number | null => {
+  const planned = toDayNumber(getPlannedDate(milestone));
+  const forecast = toDayNumber(getForecastDate(milestone));
+  return planned === null || forecast === null ? null : forecast - planned;
+};
+
+/** "+12d", "-3d" or "On plan" */
+export const formatSlip = (slipDays: number | null): string => {
+  if (!slipDays) return "On plan";
+  return `${slipDays > 0 ? "+" : ""}${slipDays}d`;
+};
+
+/**
+ * Forecast over reporting time for one milestone, oldest first: the forecast
+ * it started with, then one point per day the forecast moved (the last move
+ * of a day wins).
+ */
+export const buildSlipSeries = (
+  milestone: MilestoneForecastFields,
+  changes: MilestoneForecastChange[],
+): SlipPoint[] => {
+  const planned = getPlannedDate(milestone);
+  const plannedDay = toDayNumber(planned);
+  if (!planned || plannedDay === null) return [];
+
+  const ordered = changes
+    .filter((c) => !milestone.id || c.milestone_id === milestone.id)
+    .sort((a, b) => a.changed_at.localeCompare(b.changed_at));
+  const byDay = new Map<string, string>();
+  const start = ordered[0]?.previous_forecast_date || getForecastDate(milestone) || planned;
+  const startDate = milestone.created_at
+    ? dayKey(milestone.created_at)
+    : ordered[0]
+      ? dayKey(ordered[0].changed_at)
+      : null;
+  if (startDate) byDay.set(startDate, start);
+  for (const change of ordered) {
+    byDay.set(dayKey(change.changed_at), change.forecast_date);
+  }
+
+  return Array.from(byDay.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, forecast]) => ({
+      date,
+      forecast,
+      slipDays: (toDayNumber(forecast) ?? plannedDay) - plannedDay,
+    }));
+};
+
+/**
+ * Open milestones of open projects whose forecast is behind plan, most
+ * slipped first; ties go to the milestone whose forecast moved most often.
+ */
+export const rankMostSlippedMilestones = (
+  projects: Array<{
+    id: string;
+    title: string;
+    status?: string | null;
+    milestones?: Array<MilestoneForecastFields & { id: string; milestone: string; completion: number }>;
+  }>,
+  changes: MilestoneForecastChange[],
+  limit = 10,
+): SlippedMilestone[] => {
+  const changesByMilestone = new Map<string, MilestoneForecastChange[]>();
+  for (const change of changes) {
+    const list = changesByMilestone.get(change.milestone_id) || [];
+    list.push(change);
+    changesByMilestone.set(change.milestone_id, list);
+  }
+
+  return projects
+    .filter((p) => p.status !== "completed" && p.status !== "cancelled")
+    .flatMap((project) =>
+      (project.milestones || []).flatMap((milestone) => {
+        const slipDays = getMilestoneSlipDays(milestone);
+        if (milestone.completion >= 100 || !slipDays || slipDays <= 0) return [];
+        const history = (changesByMilestone.get(milestone.id) || []).sort((a, b) =>
+          a.changed_at.localeCompare(b.changed_at),
+        );
+        return [
+          {
+            projectId: project.id,
+            projectTitle: project.title,
+            milestoneId: milestone.id,
+            milestone: milestone.milestone,
+            plannedDate: getPlannedDate(milestone)!,
+            forecastDate: getForecastDate(milestone)!,
+            slipDays,
+            forecastChanges: history.length,
+            lastReason: history[history.length - 1]?.reason ?? milestone.forecast_reason ?? null,
+          },
+        ];
+      }),
+    )
+    .sort((a, b) => b.slipDays - a.slipDays || b.forecastChanges - a.forecastChanges)
+    .slice(0, limit);
+};
+
+/** A saved project version, as far as the forecast backfill reads it */
+export interface MilestoneVersionSnapshot {
+  created_at: string;
+  created_by?: string | null;
+  milestones: Array<{
+    id?: string | null;
+    milestone?: string | null;
+    date?: string | null;
+    end_date?: string | null;
+  }>;
+}
+
+export interface TracedMilestoneFinish {
+  milestoneId: string;
+  finish: string;
+  createdAt: string;
+  createdBy: string | null;
+}
+
+const milestoneNameKey = (name?: string | null) => (name || "").trim().toLowerCase();
+
+/**
+ * Finish date of each current milestone in every saved version, oldest first
+ * (mirrors the backfill in 20261018000028_rematch_milestone_forecast_backfill).
+ * Milestone ids changed on every save until the save kept them, so versions
+ * are walked newest first and each snapshot milestone is matched to one in the
+ * next newer version (the current milestones, in creation order, for the
+ * newest) by id, then by name, then by position. Milestones that match
+ * nothing start a lineage of their own and are left out.
+ */
+export const traceMilestoneFinishes = (
+  milestones: Array<{ id: string; milestone?: string | null }>,
+  versions: MilestoneVersionSnapshot[],
+): TracedMilestoneFinish[] => {
+  type Link = { id: string | null; name: string; current: string | null };
+  let newer: Link[] = milestones.map((m) => ({
+    id: m.id,
+    name: milestoneNameKey(m.milestone),
+    current: m.id,
+  }));
+  const traced: TracedMilestoneFinish[] = [];
+
+  const newestFirst = [...versions].sort((a, b) => b.created_at.localeCompare(a.created_at));
+  for (const version of newestFirst) {
+    const entries = version.milestones || [];
+    const taken = new Set<number>();
+    const matches: Array<number | undefined> = entries.map(() => undefined);
+    const claim = (index: number, find: (link: Link, j: number) => boolean) => {
+      const j = newer.findIndex((link, k) => !taken.has(k) && find(link, k));
+      if (j >= 0) {
+        taken.add(j);
+        matches[index] = j;
+      }
+    };
+
+    entries.forEach((entry, i) => entry.id && claim(i, (link) => link.id === entry.id));
+    entries.forEach((entry, i) => {
+      const name = milestoneNameKey(entry.milestone);
+      if (matches[i] === undefined && name) claim(i, (link) => link.name === name);
+    });
+    entries.forEach((_, i) => {
+      if (matches[i] === undefined) claim(i, (_link, j) => j === i);
+    });
+
+    newer = entries.map((entry, i) => {
+      const current = matches[i] === undefined ? null : newer[matches[i]!].current;
+      const finish = (entry.end_date || entry.date || "").slice(0, 10);
+      if (current && /^\d{4}-\d{2}-\d{2}$/.test(finish)) {
+        traced.push({
+          milestoneId: current,
+          finish,
+          createdAt: version.created_at,
+          createdBy: version.created_by ?? null,
+        });
+      }
+      return { id: entry.id || null, name: milestoneNameKey(entry.milestone), current };
+    });
+  }
+
+  return traced.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
+// Project ids per request (they go in the URL) and rows per page
+const PROJECT_ID_BATCH_SIZE = 100;
+const PAGE_SIZE = 1000;
+
+export const milestoneForecastsService = {
+  /** Forecast changes of the given projects, oldest first */
+  async getHistory(projectIds: string[]): Promise<MilestoneForecastChange[]> {
+    const history: MilestoneForecastChange[] = [];
+    for (let i = 0; i < projectIds.length; i += PROJECT_ID_BATCH_SIZE) {
+      const batch = projectIds.slice(i, i + PROJECT_ID_BATCH_SIZE);
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from("milestone_forecast_changes")
+          .select("*")
+          .in("project_id", batch)
+          .order("changed_at", { ascending: true })
+          .order("id", { ascending: true })
+          .range(from, from + PAGE_SIZE - 1);
+        if (error) {
+          console.error("[MILESTONE_FORECASTS] Error loading forecast history:", error);
+          return [];
+        }
+        history.push(...(data || []));
+        if (!data || data.length < PAGE_SIZE) break;
+      }
+    }
+    return history.sort((a, b) => a.changed_at.localeCompare(b.changed_at));
+  },
+};
@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculateProgramRollup,
+  groupProjectsByProgram,
+  UNASSIGNED_PROGRAM,
+  type Program,
+} from "./programs";
+
+const project = (overrides: Record<string, any>) =>
+  ({
+    id: "p",
+    status: "active",
+    computed_status_color: "green",
+    budget_total: 0,
+    budget_actuals: 0,
+    budget_forecast: 0,
+    milestones: [],
+    ...overrides,
+  }) as any;
+
+describe("calculateProgramRollup", () => {
+  const children = [
+    project({
+      id: "a",
+      budget_total: 100000,
+      budget_actuals: 40000,
+      budget_forecast: 50000,
+      calculated_start_date: "2026-01-05",
+      calculated_end_date: "2026-06-30",
+      milestones: [{ completion: 100, weight: 3 }],
+    }),
+    project({
+      id: "b",
+      computed_status_color: "yellow",
+      budget_total: 50000,
+      budget_actuals: 30000,
+      budget_forecast: 40000,
+      calculated_start_date: "2026-02-01",
+      calculated_end_date: "2026-09-15",
+      milestones: [{ completion: 0, weight: 1 }],
+    }),
+    project({ id: "c", status: "cancelled", computed_status_color: "red", budget_total: 10000 }),
+  ];
+
+  it("aggregates budget across all children", () => {
+    const rollup = calculateProgramRollup(children);
+    expect(rollup.budgetTotal).toBe(160000);
+    expect(rollup.budgetActuals).toBe(70000);
+    expect(rollup.budgetForecast).toBe(90000);
+    expect(rollup.budgetVariance).toBe(0);
+  });
+
+  it("pools milestone weights and spans the children's schedule", () => {
+    const rollup = calculateProgramRollup(children);
+    // (100 × 3 + 0 × 1) / (4 × 100)
+    expect(rollup.weightedCompletion).toBe(75);
+    expect(rollup.startDate).toBe("2026-01-05");
+    expect(rollup.endDate).toBe("2026-09-15");
+  });
+
+  it("takes the worst health among non-cancelled children", () => {
+    const rollup = calculateProgramRollup(children);
+    expect(rollup.health).toBe("yellow");
+    expect(rollup.healthCounts).toEqual({ green: 1, yellow: 1, red: 0 });
+    expect(rollup.activeProjectCount).toBe(2);
+  });
+});
+
+describe("groupProjectsByProgram", () => {
+  it("orders lanes by program and puts unassigned projects last", () => {
+    const programs = [
+      { id: "prog-1", name: "ERP" },
+      { id: "prog-2", name: "Empty" },
+    ] as Program[];
+    const lanes = groupProjectsByProgram(
+      [
+        { id: "x", program_id: null },
+        { id: "y", program_id: "prog-1" },
+        { id: "z", program_id: "deleted-program" },
+      ],
+      programs,
+    );
+    expect(lanes.map((l) => l.key)).toEqual(["prog-1", UNASSIGNED_PROGRAM]);
+    expect(lanes[1].projects.map((p) => p.id)).toEqual(["x", "z"]);
+  });
+});
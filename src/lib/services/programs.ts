@@ -0,0 +1,229 @@
+/**
+ * File: programs.ts
+ * Purpose: Programs group related projects. A program's completion, budget,
+ * schedule and health are rolled up from its child projects here rather than
+ * stored, so they always reflect the latest project saves.
+ */
+
+import { supabase } from "../supabase";
+import {
+  calculateProjectHealthStatusColor,
+  calculateWeightedCompletion,
+  projectService,
+  type ProjectWithRelations,
+} from "./project";
+
+export interface Program {
+  id: string;
+  name: string;
+  description: string | null;
+  program_manager: string;
+  owner_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ProgramHealth = "red" | "yellow" | "green";
+
+export interface ProgramRollup {
+  projectCount: number;
+  // Projects that count toward completion and health (not cancelled)
+  activeProjectCount: number;
+  weightedCompletion: number;
+  budgetTotal: number;
+  budgetActuals: number;
+  budgetForecast: number;
+  /** Budget minus actuals and forecast; negative means projected overrun */
+  budgetVariance: number;
+  startDate: string | null;
+  endDate: string | null;
+  health: ProgramHealth;
+  healthCounts: Record<ProgramHealth, number>;
+}
+
+// Shown for projects that don't belong to any program (filters, swimlanes)
+export const UNASSIGNED_PROGRAM = "unassigned";
+
+export const PROGRAM_HEALTH_LABELS: Record<ProgramHealth, string> = {
+  green: "On Track",
+  yellow: "At Risk",
+  red: "Critical",
+};
+
+const projectHealth = (project: ProjectWithRelations): ProgramHealth =>
+  project.computed_status_color || calculateProjectHealthStatusColor(project);
+
+/**
+ * Roll child projects up into program-level figures.
+ * Completion pools every child milestone through calculateWeightedCompletion,
+ * so milestone weights carry across projects. Cancelled projects still count
+ * toward budget but not toward completion or health. Health is the worst of
+ * the remaining children: any red child makes the program red, otherwise any
+ * yellow child makes it yellow.
+ */
+export const calculateProgramRollup = (
+  projects: ProjectWithRelations[],
+): ProgramRollup => {
+  const active = projects.filter((p) => p.status !== "cancelled");
+
+  const healthCounts: Record<ProgramHealth, number> = { green: 0, yellow: 0, red: 0 };
+  active.forEach((p) => {
+    healthCounts[projectHealth(p)]++;
+  });
+  const health: ProgramHealth =
+    healthCounts.red > 0 ? "red" : healthCounts.yellow > 0 ? "yellow" : "green";
+
+  const budgetTotal = projects.reduce((sum, p) => sum + (p.budget_total || 0), 0);
+  const budgetActuals = projects.reduce((sum, p) => sum + (p.budget_actuals || 0), 0);
+  const budgetForecast = projects.reduce((sum, p) => sum + (p.budget_forecast || 0), 0);
+
+  const starts = projects
+    .map((p) => p.calculated_start_date)
+    .filter((d): d is string => !!d)
+    .sort();
+  const ends = projects
+    .map((p) => p.calculated_end_date)
+    .filter((d): d is string => !!d)
+    .sort();
+
+  return {
+    projectCount: projects.length,
+    activeProjectCount: active.length,
+    weightedCompletion: calculateWeightedCompletion(
+      active.flatMap((p) => p.milestones || []),
+    ),
+    budgetTotal,
+    budgetActuals,
+    budgetForecast,
+    budgetVariance: budgetTotal - budgetActuals - budgetForecast,
+    startDate: starts[0] ?? null,
+    endDate: ends.length ? ends[ends.length - 1] : null,
+    health,
+    healthCounts,
+  };
+};
+
+/**
+ * Group projects by program id for swimlanes; projects without a program go
+ * under UNASSIGNED_PROGRAM. Lanes follow the order of `programs`, with the
+ * unassigned lane last.
+ */
+export const groupProjectsByProgram = <T extends { program_id?: string | null }>(
+  projects: T[],
+  programs: Program[],
+): Array<{ key: string; program: Program | null; projects: T[] }> => {
+  const lanes = programs.map((program) => ({
+    key: program.id,
+    program: program as Program | null,
+    projects: projects.filter((p) => p.program_id === program.id),
+  }));
+  const known = new Set(programs.map((p) => p.id));
+  const unassigned = projects.filter((p) => !p.program_id || !known.has(p.program_id));
+  if (unassigned.length > 0) {
+    lanes.push({ key: UNASSIGNED_PROGRAM, program: null, projects: unassigned });
+  }
+  return lanes.filter((lane) => lane.projects.length > 0);
+};
+
+// Service for program CRUD and loading a program's child projects
+export const programsService = {
+  async getPrograms(): Promise<Program[]> {
+    const { data, error } = await supabase
+      .from("programs")
+      .select("*")
+      .order("name", { ascending: true });
+
+    if (error) {
+      console.error("[PROGRAMS] Error fetching programs:", error);
+      return [];
+    }
+    return (data || []) as Program[];
+  },
+
+  async getProgram(programId: string): Promise<Program | null> {
+    const { data, error } = await supabase
+      .from("programs")
+      .select("*")
+      .eq("id", programId)
+      .maybeSingle();
+
+    if (error) {
+      console.error("[PROGRAMS] Error fetching program:", error);
+      return null;
+    }
+    return data as Program | null;
+  },
+
+  /**
+   * Child projects of a program with milestones and the other relations
+   */
+  async getProgramProjects(programId: string): Promise<ProjectWithRelations[]> {
+    const { data, error } = await supabase
+      .from("projects")
+      .select("id")
+      .eq("program_id", programId)
+      .is("deleted_at", null);
+
+    if (error) {
+      console.error("[PROGRAMS] Error fetching program projects:", error);
+      return [];
+    }
+
+    const projects = await Promise.all(
+      (data || []).map((p) => projectService.getProject(p.id)),
+    );
+    return projects.filter((p): p is ProjectWithRelations => p !== null);
+  },
+
+  async createProgram(
+    program: Pick<Program, "name" | "description" | "program_manager">,
+  ): Promise<Program | null> {
+    const { data, error } = await supabase
+      .from("programs")
+      .insert({
+        name: program.name.trim(),
+        description: program.description || null,
+        program_manager: program.program_manager || "",
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error("[PROGRAMS] Failed to create program:", error);
+      return null;
+    }
+    return data as Program;
+  },
+
+  async updateProgram(
+    programId: string,
+    program: Partial<Pick<Program, "name" | "description" | "program_manager">>,
+  ): Promise<Program | null> {
+    const { data, error } = await supabase
+      .from("programs")
+      .update({
+        ...program,
+        ...(program.name !== undefined ? { name: program.name.trim() } : {}),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", programId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error("[PROGRAMS] Failed to update program:", error);
+      return null;
+    }
+    return data as Program;
+  },
+
+  async deleteProgram(programId: string): Promise<boolean> {
+    const { error } = await supabase.from("programs").delete().eq("id", programId);
+
+    if (error) {
+      console.error("[PROGRAMS] Failed to delete program:", error);
+      return false;
+    }
+    return true;
+  },
+};
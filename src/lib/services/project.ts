@@ -1,5 +1,41 @@
 import { supabase } from "../supabase";
 import { Database } from "@/types/supabase";
+import {
+  toRiskRegisterFields,
+  type RiskRegisterFields,
+} from "./riskRegister";
+import {
+  toScheduleDependency,
+  type ScheduleDependency,
+} from "./scheduleDependencies";
+import { toProjectBaseline, type ProjectBaseline } from "./projectBaselines";
+import { instantiateTemplate, type TemplateContent } from "./projectTemplates";
+import { buildProjectClone, type ProjectCloneOptions } from "./projectClone";
+import type { ChangeRequestFields } from "./changeRequests";
+import type { ProjectStakeholder } from "./stakeholders";
+import {
+  sortIssues,
+  toDecisionFields,
+  toIssueFields,
+  type DecisionFields,
+  type IssueFields,
+} from "./projectLogs";
+import {
+  explainHealthRules,
+  getHealthRulesForDepartment,
+  healthRulesService,
+  type HealthExplanation,
+  type HealthRuleInputs,
+  type HealthRules,
+} from "./healthRules";
+import { describeHealthOverride, isHealthOverrideActive } from "./healthOverrides";
+import { isActiveRisk } from "./riskRegister";
+import {
+  countHolidays,
+  countWorkingDays,
+  holidayCalendarService,
+  type HolidayDates,
+} from "./holidayCalendar";
 
 export type Project = Database["public"]["Tables"]["projects"]["Row"] & {
   manual_status_color?: "red" | "yellow" | "green";
@@ -34,6 +70,8 @@ export type NextPeriodActivity = {
   date: string;
   completion: number;
   assignee: string;
+  allocation_percent?: number | null;
+  allocation_hours?: number | null;
   sub_activities?: SubActivity[];
   created_at?: string;
   updated_at?: string;
@@ -49,7 +87,9 @@ export type Change = {
   disposition: string;
   created_at?: string;
   updated_at?: string;
-};
+} & Partial<ChangeRequestFields>;
+export type Decision = Database["public"]["Tables"]["decisions"]["Row"];
+export type Issue = Database["public"]["Tables"]["issues"]["Row"];
 
 export type Task = {
   id: string;
@@ -60,6 +100,8 @@ export type Task = {
   date: string;
   completion: number;
   duration_days?: number;
+  allocation_percent?: number | null;
+  allocation_hours?: number | null;
   created_at?: string;
   updated_at?: string;
 };
@@ -75,6 +117,13 @@ export interface ProjectWithRelations
   risks: Risk[];
   considerations: string[];
   changes: Change[];
+  decisions?: Decision[];
+  issues?: Issue[];
+  // Stakeholder register rows; only loaded by getAllProjects for filtering
+  stakeholders?: ProjectStakeholder[];
+  dependencies?: ScheduleDependency[];
+  // Active schedule baseline that variance is measured against
+  baseline?: ProjectBaseline | null;
   calculated_start_date?: string | null;
   calculated_end_date?: string | null;
   total_days?: number | null;
@@ -83,6 +132,29 @@ export interface ProjectWithRelations
   working_days_remaining?: number | null;
 }
 
+/**
+ * Thrown by projectService.updateProject when the save was based on an older
+ * revision than the one in the database, i.e. someone else saved in between.
+ * Carries the latest persisted project so the caller can offer a merge.
+ */
+export class ProjectSaveConflictError extends Error {
+  latest: ProjectWithRelations | null;
+
+  constructor(latest: ProjectWithRelations | null) {
+    super("This project was changed by someone else since you opened it.");
+    this.name = "ProjectSaveConflictError";
+    this.latest = latest;
+  }
+}
+
+// A section of a new project (milestones, risks, ...) failed to insert
+class ProjectSectionInsertError extends Error {
+  constructor(section: string, cause: { message?: string }) {
+    super(`Error inserting ${section}: ${cause.message ?? "unknown error"}`);
+    this.name = "ProjectSectionInsertError";
+  }
+}
+
 // Calculate weighted completion percentage for milestones
 export const calculateWeightedCompletion = (milestones: Milestone[]) => {
   if (!milestones.length) return 0;
@@ -107,7 +179,12 @@ export const calculateWeightedCompletion = (milestones: Milestone[]) => {
 // Calculate project duration based on milestone dates
 // Note: This function calculates duration data but doesn't consider project status
 // The status-aware logic is handled in the helper functions that use this data
-export const calculateProjectDuration = (milestones: Milestone[]) => {
+// Working days skip weekends and the given holiday dates (see holidayCalendar);
+// calendar days skip the holiday dates only
+export const calculateProjectDuration = (
+  milestones: Milestone[],
+  holidays?: HolidayDates,
+) => {
   if (!milestones.length) {
     return {
       startDate: null,
@@ -147,29 +224,21 @@ export const calculateProjectDuration = (milestones: Milestone[]) => {
   const today = new Date();
   today.setHours(0, 0, 0, 0); // Reset time to start of day for accurate comparison
 
-  // Calculate total days (project duration from start to end)
-  const totalDays = Math.ceil(
-    (endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24),
-  );
-
-  // Calculate working days (excluding weekends)
-  let workingDays = 0;
-  const currentDate = new Date(startDate);
+  // Calculate total days (project duration from start to end, less holidays)
+  const totalDays =
+    Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)) -
+    countHolidays(startDate, endDate, holidays);
 
-  while (currentDate <= endDate) {
-    const dayOfWeek = currentDate.getDay();
-    // 0 = Sunday, 6 = Saturday
-    if (dayOfWeek !== 0 && dayOfWeek !== 6) {
-      workingDays++;
-    }
-    currentDate.setDate(currentDate.getDate() + 1);
-  }
+  // Calculate working days (excluding weekends and holidays)
+  const workingDays = countWorkingDays(startDate, endDate, holidays);
 
   // CRITICAL FIX: Calculate remaining days from end date
   // This is the source of the >100% issue!
   let totalDaysRemaining = Math.ceil(
     (endDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24),
   );
+  // Holidays still ahead are not time left
+  totalDaysRemaining -= countHolidays(today, endDate, holidays);
 
   // Calculate working days remaining
   let workingDaysRemaining = 0;
@@ -178,25 +247,10 @@ export const calculateProjectDuration = (milestones: Milestone[]) => {
 
   if (calcEndDate >= calcStartDate) {
     // Project end is in the future - count working days from today to end
-    const tempDate = new Date(calcStartDate);
-    while (tempDate <= calcEndDate) {
-      const dayOfWeek = tempDate.getDay();
-      if (dayOfWeek !== 0 && dayOfWeek !== 6) {
-        workingDaysRemaining++;
-      }
-      tempDate.setDate(tempDate.getDate() + 1);
-    }
+    workingDaysRemaining = countWorkingDays(calcStartDate, calcEndDate, holidays);
   } else {
     // Project is overdue - count working days from end to today (negative)
-    const tempDate = new Date(calcEndDate);
-    while (tempDate <= calcStartDate) {
-      const dayOfWeek = tempDate.getDay();
-      if (dayOfWeek !== 0 && dayOfWeek !== 6) {
-        workingDaysRemaining++;
-      }
-      tempDate.setDate(tempDate.getDate() + 1);
-    }
-    workingDaysRemaining = -workingDaysRemaining;
+    workingDaysRemaining = -countWorkingDays(calcEndDate, calcStartDate, holidays);
   }
 
   return {
@@ -230,6 +284,7 @@ export const calculateTimeRemainingPercentage = (
     return null;
   }
 
+  // Calendar days; holidays are already left out of them (calculateProjectDuration)
   const totalDays = projectWithRelations.total_days;
   const remainingDays = projectWithRelations.total_days_remaining;
 
@@ -352,129 +407,99 @@ export const getTimeRemainingTooltipText = (
   return `This percentage exceeds 100% due to how time remaining is calculated. This can happen when the time from today to project completion is longer than the original project duration.`;
 };
 
-// Standardized function to calculate project health status color with time awareness
-export const calculateProjectHealthStatusColor = (
+// Everything the health rules look at, computed the same way as the SQL side
+export const getHealthRuleInputs = (
   project: ProjectWithRelations | Project,
   milestones?: Milestone[],
-): "red" | "yellow" | "green" => {
-  // For manual calculation, use the manual status color if available
-  if (
-    project.health_calculation_type === "manual" &&
-    project.manual_status_color
-  ) {
-    return project.manual_status_color;
-  }
-
-  // For automatic calculation or when manual color is not set
-  // Use status-based colors first
-  if (project.status === "completed") {
-    return "green";
-  } else if (project.status === "cancelled") {
-    return "red";
-  } else if (project.status === "draft" || project.status === "on_hold") {
-    return "yellow";
-  }
-
-  // For active projects, determine based on milestone completion AND time remaining
+): HealthRuleInputs => {
   const projectMilestones =
     milestones || (project as ProjectWithRelations).milestones || [];
 
-  if (projectMilestones.length > 0) {
-    // Calculate milestone completion percentage
-    const weightedCompletion = calculateWeightedCompletion(projectMilestones);
-
-    // Calculate time remaining percentage
-    const timeRemainingPercentage = calculateTimeRemainingPercentage(project);
-
-    // If we don't have time data, fall back to milestone-only calculation
-    if (timeRemainingPercentage === null) {
-      let color: "red" | "yellow" | "green" = "green";
-      if (weightedCompletion >= 70) color = "green";
-      else if (weightedCompletion >= 40) color = "yellow";
-      else color = "red";
-
-      return color;
-    }
-
-    // FIXED: Improved time-aware health calculation
-    let color: "red" | "yellow" | "green" = "green";
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const startDate = (project as ProjectWithRelations).calculated_start_date
+    ? new Date((project as ProjectWithRelations).calculated_start_date!)
+    : null;
+  const todayKey = today.toISOString().split("T")[0];
 
-    // Check if project starts in the future
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const startDate = (project as ProjectWithRelations).calculated_start_date
-      ? new Date((project as ProjectWithRelations).calculated_start_date!)
+  // Percent the forecast runs over the budget; mirrors update_project_computed_status_color
+  const budgetOverrun =
+    project.budget_total && project.budget_total > 0 && project.budget_forecast
+      ? Math.round(((project.budget_forecast - project.budget_total) / project.budget_total) * 100)
       : null;
 
-    const projectStartsInFuture = startDate && startDate > today;
-
-    // FIXED: Special handling for future projects
-    if (projectStartsInFuture) {
-      // Projects that haven't started yet should generally be green
-      // unless there are obvious issues with milestone setup
-      if (weightedCompletion > 50) {
-        // If milestones are already significantly complete before project starts,
-        // this might indicate data issues, but still lean positive
-        color = "yellow";
-      } else {
-        color = "green";
-      }
-      return color;
-    }
-
-    // If project is overdue (0% time remaining), be strict with milestone requirements
-    if (timeRemainingPercentage === 0) {
-      if (weightedCompletion >= 90)
-        color = "yellow"; // Even high completion is concerning if overdue
-      else color = "red";
-      return color;
-    }
-
-    // FIXED: More intuitive thresholds - projects with more time should be healthier
-    // If substantial time remaining (>70% of total duration), be very lenient
-    if (timeRemainingPercentage > 70) {
-      if (weightedCompletion >= 5)
-        color = "green"; // Very low threshold for green when substantial time remains
-      else if (weightedCompletion >= 0)
-        color = "yellow"; // Even 0% completion can be yellow with lots of time
-      else color = "red";
-      return color;
-    }
+  return {
+    status: project.status,
+    hasMilestones: projectMilestones.length > 0,
+    completion: calculateWeightedCompletion(projectMilestones),
+    timeRemaining: calculateTimeRemainingPercentage(project),
+    startsInFuture: !!startDate && startDate > today,
+    budgetOverrun,
+    activeRiskImpacts: ((project as ProjectWithRelations).risks || [])
+      .filter((r) => isActiveRisk(r) && r.impact_score)
+      .map((r) => r.impact_score!),
+    overdueMilestones: projectMilestones.filter(
+      (m) => (m.completion || 0) < 100 && (m.end_date || m.date) < todayKey,
+    ).length,
+  };
+};
 
-    // If plenty of time remaining (40-70% of total duration), be more lenient
-    if (timeRemainingPercentage > 40) {
-      if (weightedCompletion >= 15)
-        color = "green"; // Lower threshold for green when plenty of time
-      else if (weightedCompletion >= 5) color = "yellow";
-      else color = "red";
-      return color;
-    }
+export interface ProjectHealthExplanation extends HealthExplanation {
+  /** What the rules looked at, also filled in under a manual override */
+  inputs: HealthRuleInputs;
+  manualOverride: boolean;
+}
 
-    // If moderate time remaining (20-40% of total duration), use balanced approach
-    if (timeRemainingPercentage > 20) {
-      if (weightedCompletion >= 30) color = "green";
-      else if (weightedCompletion >= 15) color = "yellow";
-      else color = "red";
-      return color;
-    }
+// Why a project has its health color: the rule that fired, its inputs and what
+// would move it up a color. Same arguments as calculateProjectHealthStatusColor.
+export const explainProjectHealthStatus = (
+  project: ProjectWithRelations | Project,
+  milestones?: Milestone[],
+  rules?: HealthRules,
+): ProjectHealthExplanation => {
+  const inputs = getHealthRuleInputs(project, milestones);
 
-    // If little time remaining (1-20% of total duration), be stricter
-    if (weightedCompletion >= 70) color = "green";
-    else if (weightedCompletion >= 50) color = "yellow";
-    else color = "red";
+  const explanation = explainHealthRules(
+    rules || getHealthRulesForDepartment(project.department),
+    inputs,
+  );
 
-    return color;
+  // A manual color applies until its override expires; the dimensions stay visible
+  if (isHealthOverrideActive(project) && project.manual_status_color) {
+    return {
+      ...explanation,
+      color: project.manual_status_color,
+      rule: "manual",
+      reason: describeHealthOverride(project) || "Set manually by the project team",
+      nextStep:
+        project.manual_status_color === "green"
+          ? null
+          : "Update the manual color, or switch health back to automatic",
+      inputs,
+      manualOverride: true,
+    };
   }
 
-  // Default to green for active projects with no milestones
-  return "green";
+  return { ...explanation, inputs, manualOverride: false };
 };
 
+// Standardized function to calculate project health status color with time awareness.
+// Thresholds come from the published health rule set for the project's
+// department (see healthRules.ts); pass rules to evaluate a draft instead.
+export const calculateProjectHealthStatusColor = (
+  project: ProjectWithRelations | Project,
+  milestones?: Milestone[],
+  rules?: HealthRules,
+): "red" | "yellow" | "green" =>
+  explainProjectHealthStatus(project, milestones, rules).color;
+
 // Service function to update computed status color for a project
 export const updateProjectComputedStatusColor = async (
   projectId: string,
 ): Promise<boolean> => {
   try {
+    await healthRulesService.ensureLoaded();
+
     // Get the project with its milestones
     const { data: project, error: projectError } = await supabase
       .from("projects")
@@ -533,10 +558,13 @@ export const updateProjectComputedStatusColor = async (
 // Service function to recalculate all computed status colors
 export const recalculateAllComputedStatusColors = async (): Promise<number> => {
   try {
+    await healthRulesService.ensureLoaded();
+
     // Get all projects
     const { data: projects, error: projectsError } = await supabase
       .from("projects")
-      .select("*");
+      .select("*")
+      .is("deleted_at", null);
 
     if (projectsError) {
       console.error(
@@ -687,8 +715,18 @@ export const projectService = {
         return false;
       }
 
+      // Working days honor the holiday calendar for the project's department
+      const { data: project } = await supabase
+        .from("projects")
+        .select("department")
+        .eq("id", projectId)
+        .maybeSingle();
+      const holidays = await holidayCalendarService.getHolidayDatesForDepartment(
+        project?.department,
+      );
+
       // Calculate duration
-      const duration = calculateProjectDuration(milestones || []);
+      const duration = calculateProjectDuration(milestones || [], holidays);
       // Update project with calculated duration
       const { error: updateError } = await supabase
         .from("projects")
@@ -736,10 +774,13 @@ export const projectService = {
   },
   async getAllProjects(): Promise<ProjectWithRelations[]> {
     try {
+      await healthRulesService.ensureLoaded();
+
       // Fetch all projects first with timeout
       const projectsPromise = supabase
         .from("projects")
         .select("*")
+        .is("deleted_at", null)
         .order("updated_at", { ascending: false });
 
       // Add a timeout wrapper
@@ -824,7 +865,7 @@ export const projectService = {
       };
 
       // Fetch all related data with retry logic
-      const [milestones, tasks, accomplishments, activities, risks, considerations, changes] = 
+      const [milestones, tasks, accomplishments, activities, risks, considerations, changes, decisions, issues, baselines, stakeholders] = 
         await Promise.all([
           fetchWithRetry("milestones", projectIds),
           fetchWithRetry("tasks", projectIds),
@@ -833,6 +874,10 @@ export const projectService = {
           fetchWithRetry("risks", projectIds),
           fetchWithRetry("considerations", projectIds),
           fetchWithRetry("changes", projectIds),
+          fetchWithRetry("decisions", projectIds),
+          fetchWithRetry("issues", projectIds),
+          fetchWithRetry("project_baselines", projectIds),
+          fetchWithRetry("project_stakeholders", projectIds),
         ]);
 
       // Map tasks to milestones
@@ -867,6 +912,15 @@ export const projectService = {
               typeof c.description === "string" ? c.description : "",
             ),
           changes: (changes || []).filter((c) => c.project_id === project.id),
+          decisions: (decisions || []).filter((d) => d.project_id === project.id),
+          issues: (issues || []).filter((i) => i.project_id === project.id),
+          stakeholders: (stakeholders || []).filter((s) => s.project_id === project.id),
+          baseline: (() => {
+            const active = (baselines || []).find(
+              (b) => b.project_id === project.id && b.is_active,
+            );
+            return active ? toProjectBaseline(active) : null;
+          })(),
         };
       });
 
@@ -1048,12 +1102,19 @@ export const projectService = {
       health_calculation_type?: "automatic" | "manual";
       manual_health_percentage?: number;
       manual_status_color?: "red" | "yellow" | "green";
+      manual_status_reason?: string | null;
+      manual_status_expires_at?: string | null;
       milestones: Array<{
+        id?: string;
         date: string;
+        end_date?: string | null;
         milestone: string;
         owner: string;
         completion: number;
         status: "green" | "yellow" | "red";
+        weight?: number;
+        forecast_date?: string | null;
+        forecast_reason?: string | null;
         tasks?: Array<{
           id?: string;
           description: string;
@@ -1061,24 +1122,41 @@ export const projectService = {
           date: string;
           completion: number;
           duration_days?: number;
+          allocation_percent?: number | null;
+          allocation_hours?: number | null;
         }>;
       }>;
       accomplishments: Array<string | AccomplishmentItem>;
       next_period_activities: Array<{
+        id?: string;
         description: string;
         date: string;
         completion: number;
         assignee: string;
+        allocation_percent?: number | null;
+        allocation_hours?: number | null;
+        sub_activities?: SubActivity[];
       }>;
-      risks: string[];
-      considerations: string[];
-      changes: Array<{
-        change: string;
-        impact: string;
-        disposition: string;
-      }>;
+      risks: Array<
+        { id?: string; description: string; impact?: string } & Partial<RiskRegisterFields>
+      >;
+      considerations: Array<string | { description: string }>;
+      changes: Array<
+        {
+          id?: string;
+          change: string;
+          impact: string;
+          disposition: string;
+        } & Partial<ChangeRequestFields>
+      >;
+      decisions?: Array<{ id?: string } & Partial<DecisionFields>>;
+      issues?: Array<{ id?: string } & Partial<IssueFields>>;
+      dependencies?: ScheduleDependency[];
       department?: string;
+      program_id?: string | null;
       projectAnalysis?: string;
+      /** Revision the edit was based on; a mismatch rejects the save. */
+      expectedRevision?: number | null;
     },
   ): Promise<ProjectWithRelations | null> {
     try {
@@ -1091,108 +1169,40 @@ export const projectService = {
       const oldPmName = currentProject?.project_manager ?? null;
       const ownerId = currentProject?.owner_id ?? null;
 
-      const { data: project, error: projectError } = await supabase
-        .from("projects")
-        .update({
-          project_id:
-            data.projectId && data.projectId.trim() !== ""
-              ? data.projectId.trim()
-              : null,
-          title: data.title,
-          description: data.description,
-          value_statement: data.valueStatement,
-          project_analysis:
-            data.projectAnalysis !== undefined ? data.projectAnalysis : null,
-          status: data.status,
-          budget_total: data.budget_total,
-          budget_actuals: data.budget_actuals,
-          budget_forecast: data.budget_forecast,
-          charter_link: data.charter_link,
-          sponsors: data.sponsors,
-          business_leads: data.business_leads,
-          project_manager: data.project_manager,
-          health_calculation_type: data.health_calculation_type || "automatic",
-          manual_health_percentage: data.manual_health_percentage || null,
-          manual_status_color: data.manual_status_color,
-          department: data.department,
-        })
-        .eq("id", id)
-        .select()
-        .single();
-
-      if (projectError || !project) {
-        console.error("[PROJECT_ID] Error updating project:", projectError);
-        return null;
-      }
-
-      // Sync PM editor: remove old PM, add new PM if the PM field changed
-      const user = (await supabase.auth.getUser()).data.user;
-      if (user && data.project_manager) {
-        await syncProjectManagerEditor(id, data.project_manager, oldPmName, ownerId, user.id);
-      }
-
-      // Delete existing related records
-      const { error: tasksDeleteError } = await supabase
-        .from("tasks")
-        .delete()
-        .eq("project_id", id);
-
-      if (tasksDeleteError) {
-        console.error("Error deleting tasks:", tasksDeleteError);
-      }
-
-      const deleteOperations = [
-        {
-          table: "milestones",
-          operation: supabase.from("milestones").delete().eq("project_id", id),
-        },
-        {
-          table: "accomplishments",
-          operation: supabase
-            .from("accomplishments")
-            .delete()
-            .eq("project_id", id),
-        },
-        {
-          table: "next_period_activities",
-          operation: supabase
-            .from("next_period_activities")
-            .delete()
-            .eq("project_id", id),
-        },
+      // Save the project row and every relation in one transaction. The RPC
+      // diffs by id (update / insert / delete only what changed), so row ids stay
+      // stable and a failure part-way through rolls back the whole save.
+      const { error: saveError } = await supabase.rpc(
+        "save_project_with_relations",
         {
-          table: "risks",
-          operation: supabase.from("risks").delete().eq("project_id", id),
-        },
-        {
-          table: "considerations",
-          operation: supabase
-            .from("considerations")
-            .delete()
-            .eq("project_id", id),
-        },
-        {
-          table: "changes",
-          operation: supabase.from("changes").delete().eq("project_id", id),
-        },
-      ];
-
-      for (const { table, operation } of deleteOperations) {
-        const { error } = await operation;
-        if (error) {
-          console.error(`Error deleting ${table}:`, error);
-          throw new Error(`Failed to delete ${table}: ${error.message}`);
-        }
-      }
-
-      // Insert new records
-      // First insert milestones to get their IDs for tasks
-      const { data: insertedMilestones, error: milestonesInsertError } =
-        await supabase
-          .from("milestones")
-          .insert(
-            data.milestones.map((m) => ({
-              project_id: id,
+          p_project_id: id,
+          p_payload: {
+            project_id:
+              data.projectId && data.projectId.trim() !== ""
+                ? data.projectId.trim()
+                : null,
+            title: data.title,
+            description: data.description,
+            value_statement: data.valueStatement,
+            project_analysis:
+              data.projectAnalysis !== undefined ? data.projectAnalysis : null,
+            status: data.status,
+            budget_total: data.budget_total,
+            budget_actuals: data.budget_actuals,
+            budget_forecast: data.budget_forecast,
+            charter_link: data.charter_link,
+            sponsors: data.sponsors,
+            business_leads: data.business_leads,
+            project_manager: data.project_manager,
+            health_calculation_type: data.health_calculation_type || "automatic",
+            manual_health_percentage: data.manual_health_percentage || null,
+            manual_status_color: data.manual_status_color,
+            manual_status_reason: data.manual_status_reason || null,
+            manual_status_expires_at: data.manual_status_expires_at || null,
+            department: data.department,
+            program_id: data.program_id || null,
+            milestones: (data.milestones || []).map((m) => ({
+              id: m.id,
               date: m.date,
               end_date: m.end_date,
               milestone: m.milestone,
@@ -1200,175 +1210,107 @@ export const projectService = {
               completion: m.completion,
               status: m.status,
               weight: m.weight || 3, // Default to 3 if not provided
+              forecast_date: m.forecast_date || null,
+              forecast_reason: m.forecast_reason || null,
+              tasks: (m.tasks || []).map((task) => ({
+                id: task.id,
+                description: task.description,
+                assignee: task.assignee || m.owner,
+                date: task.date || null,
+                completion: task.completion || 0,
+                duration_days: task.duration_days || 1,
+                allocation_percent: task.allocation_percent ?? null,
+                allocation_hours: task.allocation_hours ?? null,
+              })),
             })),
-          )
-          .select();
-
-      if (milestonesInsertError) {
-        console.error("Error inserting milestones:", milestonesInsertError);
-        throw new Error(
-          `Failed to insert milestones: ${milestonesInsertError.message}`,
-        );
-      }
-
-      // Insert tasks for each milestone
-      const tasksToInsert = [];
-      data.milestones.forEach((milestone, index) => {
-        if (
-          milestone.tasks &&
-          milestone.tasks.length > 0 &&
-          insertedMilestones &&
-          insertedMilestones[index]
-        ) {
-          const milestoneId = insertedMilestones[index].id;
-          milestone.tasks.forEach((task) => {
-            const taskData = {
-              project_id: id,
-              milestone_id: milestoneId,
-              description: task.description,
-              assignee: task.assignee || milestone.owner,
-              date: task.date || null,
-              completion: task.completion || 0,
-              duration_days: task.duration_days || 1,
-            };
-            tasksToInsert.push(taskData);
-          });
-        }
-      });
-
-      if (tasksToInsert.length > 0) {
-        const { data: insertedTasks, error: tasksInsertError } = await supabase
-          .from("tasks")
-          .insert(tasksToInsert)
-          .select();
-
-        if (tasksInsertError) {
-          console.error("Error inserting tasks:", tasksInsertError);
-          throw new Error(
-            `Failed to insert tasks: ${tasksInsertError.message}`,
-          );
-        }
-        
-      }
-
-      // Insert related data
-      if (data.accomplishments && data.accomplishments.length > 0) {
-        const accomplishmentRows = data.accomplishments.map((a) => {
-          if (typeof a === "string") {
-            return {
-              project_id: id,
-              description: a,
-              source_type: "manual",
-              source_id: null,
-              is_hidden: false,
-              is_deleted: false,
-              auto_generated: false,
-            };
-          }
-          // AccomplishmentItem object
-          return {
-            project_id: id,
-            description: a.description,
-            source_type: a.source_type || "manual",
-            source_id: a.source_id || null,
-            is_hidden: a.is_hidden || false,
-            is_deleted: a.is_deleted || false,
-            auto_generated: a.auto_generated || false,
-          };
-        });
-
-        const { error: accomplishmentsError } = await supabase
-          .from("accomplishments")
-          .insert(accomplishmentRows);
-        if (accomplishmentsError) {
-          console.error(
-            "Error inserting accomplishments:",
-            accomplishmentsError,
-          );
-          throw new Error(
-            `Failed to insert accomplishments: ${accomplishmentsError.message}`,
-          );
-        }
-      }
-
-      if (
-        data.next_period_activities &&
-        data.next_period_activities.length > 0
-      ) {
-        const activityRows = data.next_period_activities.map((a) => ({
-          project_id: id,
-          description: a.description,
-          date: a.date || new Date().toISOString().split("T")[0],
-          completion: a.completion || 0,
-          assignee: a.assignee || "",
-          sub_activities: a.sub_activities || [],
-        }));
-        let { error: activitiesError } = await supabase
-          .from("next_period_activities")
-          .insert(activityRows);
-        // Fallback: if sub_activities column doesn't exist yet, retry without it
-        if (activitiesError && activitiesError.message?.includes("sub_activities")) {
-          const rowsWithoutSubActivities = activityRows.map(({ sub_activities: _omit, ...rest }) => rest);
-          const { error: retryError } = await supabase
-            .from("next_period_activities")
-            .insert(rowsWithoutSubActivities);
-          activitiesError = retryError;
-        }
-        if (activitiesError) {
-          console.error("Error inserting activities:", activitiesError);
-        }
-      }
+            accomplishments: (data.accomplishments || []).map((a) =>
+              typeof a === "string"
+                ? {
+                    description: a,
+                    source_type: "manual",
+                    source_id: null,
+                    is_hidden: false,
+                    is_deleted: false,
+                    auto_generated: false,
+                  }
+                : {
+                    id: a.id,
+                    description: a.description,
+                    source_type: a.source_type || "manual",
+                    source_id: a.source_id || null,
+                    is_hidden: a.is_hidden || false,
+                    is_deleted: a.is_deleted || false,
+                    auto_generated: a.auto_generated || false,
+                  },
+            ),
+            next_period_activities: (data.next_period_activities || []).map(
+              (a) => ({
+                id: a.id,
+                description: a.description,
+                date: a.date || new Date().toISOString().split("T")[0],
+                completion: a.completion || 0,
+                assignee: a.assignee || "",
+                allocation_percent: a.allocation_percent ?? null,
+                allocation_hours: a.allocation_hours ?? null,
+                sub_activities: a.sub_activities || [],
+              }),
+            ),
+            risks: (data.risks || []).map((r) => ({
+              id: r.id,
+              description: r.description,
+              impact: r.impact || null,
+              ...toRiskRegisterFields(r),
+            })),
+            considerations: (data.considerations || []).map((c) =>
+              typeof c === "string"
+                ? c
+                : typeof c === "object" && c !== null && "description" in c
+                  ? typeof c.description === "string"
+                    ? c.description
+                    : JSON.stringify(c.description)
+                  : String(c || ""),
+            ),
+            changes: (data.changes || []).map((c) => ({
+              id: c.id,
+              change: c.change,
+              impact: c.impact,
+              disposition: c.disposition,
+              requested_by: c.requested_by || "",
+              budget_delta: c.budget_delta ?? 0,
+              schedule_delta_days: c.schedule_delta_days ?? 0,
+              affected_milestone_ids: c.affected_milestone_ids || [],
+            })),
+            decisions: (data.decisions || []).map((d) => ({
+              id: d.id,
+              ...toDecisionFields(d),
+            })),
+            issues: (data.issues || []).map((i) => ({
+              id: i.id,
+              ...toIssueFields(i),
+            })),
+            dependencies: (data.dependencies || []).map(toScheduleDependency),
+          },
+          p_expected_revision: data.expectedRevision ?? undefined,
+        },
+      );
 
-      if (data.risks && data.risks.length > 0) {
-        const { error: risksError } = await supabase.from("risks").insert(
-          data.risks.map((r) => ({
-            project_id: id,
-            description: r.description,
-            impact: r.impact || null,
-          })),
+      if (saveError?.code === "40001") {
+        console.warn(
+          "[PROJECT_SAVE] Stale save rejected, project was changed by another editor:",
+          saveError.details,
         );
-        if (risksError) {
-          console.error("Error inserting risks:", risksError);
-        }
+        throw new ProjectSaveConflictError(await this.getProject(id));
       }
 
-      if (data.considerations && data.considerations.length > 0) {
-        const { error: considerationsError } = await supabase
-          .from("considerations")
-          .insert(
-            data.considerations.map((c) => ({
-              project_id: id,
-              description:
-                typeof c === "string"
-                  ? c
-                  : typeof c === "object" && c !== null && "description" in c
-                    ? typeof c.description === "string"
-                      ? c.description
-                      : JSON.stringify(c.description)
-                    : String(c || ""),
-            })),
-          );
-        if (considerationsError) {
-          console.error("Error inserting considerations:", considerationsError);
-          throw new Error(
-            `Failed to insert considerations: ${considerationsError.message}`,
-          );
-        }
+      if (saveError) {
+        console.error("[PROJECT_SAVE] Error saving project:", saveError);
+        return null;
       }
 
-      if (data.changes && data.changes.length > 0) {
-        const { error: changesError } = await supabase.from("changes").insert(
-          data.changes.map((c) => ({
-            project_id: id,
-            change: c.change,
-            impact: c.impact,
-            disposition: c.disposition,
-          })),
-        );
-        if (changesError) {
-          console.error("Error inserting changes:", changesError);
-          throw new Error(`Failed to insert changes: ${changesError.message}`);
-        }
+      // Sync PM editor: remove old PM, add new PM if the PM field changed
+      const user = (await supabase.auth.getUser()).data.user;
+      if (user && data.project_manager) {
+        await syncProjectManagerEditor(id, data.project_manager, oldPmName, ownerId, user.id);
       }
 
       // Update project duration after saving milestones
@@ -1424,12 +1366,68 @@ export const projectService = {
 
       return updatedProject;
     } catch (error) {
+      // Conflicts are not failures: let the caller offer a merge.
+      if (error instanceof ProjectSaveConflictError) throw error;
       console.error("[PROJECT_ID] Error in updateProject:", error);
       return null;
     }
   },
 
+  /**
+   * Move a project to the trash. Nothing related is removed, so
+   * restoreProject brings it back exactly as it was; the real deletion happens
+   * in permanentlyDeleteProject or the scheduled purge.
+   */
   async deleteProject(id: string): Promise<boolean> {
+    try {
+      const user = (await supabase.auth.getUser()).data.user;
+      const { data, error } = await supabase
+        .from("projects")
+        .update({
+          deleted_at: new Date().toISOString(),
+          deleted_by: user?.id ?? null,
+        })
+        .eq("id", id)
+        .is("deleted_at", null)
+        .select("id");
+
+      if (error || !data || data.length === 0) {
+        console.error("[DELETE_PROJECT] Error moving project to trash:", error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error("[DELETE_PROJECT] Unexpected error moving project to trash:", error);
+      return false;
+    }
+  },
+
+  async restoreProject(id: string): Promise<boolean> {
+    try {
+      const { data, error } = await supabase
+        .from("projects")
+        .update({ deleted_at: null, deleted_by: null })
+        .eq("id", id)
+        .not("deleted_at", "is", null)
+        .select("id");
+
+      if (error || !data || data.length === 0) {
+        console.error("[RESTORE_PROJECT] Error restoring project:", error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error("[RESTORE_PROJECT] Unexpected error restoring project:", error);
+      return false;
+    }
+  },
+
+  /**
+   * Permanently delete a project and all related records. Used from the trash.
+   */
+  async permanentlyDeleteProject(id: string): Promise<boolean> {
     try {
       // Validate project ID format
       const uuidRegex =
@@ -1493,6 +1491,21 @@ export const projectService = {
           table: "changes",
           operation: supabase.from("changes").delete().eq("project_id", id),
         },
+        {
+          table: "issues",
+          operation: supabase.from("issues").delete().eq("project_id", id),
+        },
+        {
+          table: "decisions",
+          operation: supabase.from("decisions").delete().eq("project_id", id),
+        },
+        {
+          table: "project_stakeholders",
+          operation: supabase
+            .from("project_stakeholders")
+            .delete()
+            .eq("project_id", id),
+        },
         {
           table: "project_summaries",
           operation: supabase
@@ -1553,31 +1566,75 @@ export const projectService = {
     health_calculation_type?: "automatic" | "manual";
     manual_health_percentage?: number;
     manual_status_color?: "red" | "yellow" | "green";
+    manual_status_reason?: string | null;
+    manual_status_expires_at?: string | null;
     milestones: Array<{
       date: string;
+      end_date?: string | null;
       milestone: string;
       owner: string;
       completion: number;
       status: "green" | "yellow" | "red";
+      weight?: number;
+      tasks?: Array<{
+        description: string;
+        assignee: string;
+        date: string;
+        completion: number;
+        duration_days: number;
+        allocation_percent?: number | null;
+        allocation_hours?: number | null;
+      }>;
     }>;
-    accomplishments: string[];
+    accomplishments: Array<string | AccomplishmentItem>;
     next_period_activities: Array<{
       description: string;
       date: string;
       completion: number;
       assignee: string;
+      allocation_percent?: number | null;
+      allocation_hours?: number | null;
+      sub_activities?: SubActivity[];
     }>;
-    risks: Array<{ description: string; impact?: string }>;
+    risks: Array<
+      { description: string; impact?: string } & Partial<RiskRegisterFields>
+    >;
     considerations: string[];
     department?: string;
+    program_id?: string | null;
+    /** Source project when this one is a deep clone */
+    cloned_from_project_id?: string | null;
     changes?: Array<{
       change: string;
       impact: string;
       disposition: string;
+      requested_by?: string;
+      budget_delta?: number;
+      schedule_delta_days?: number;
     }>;
+    decisions?: Array<Partial<DecisionFields>>;
+    issues?: Array<Partial<IssueFields>>;
     projectAnalysis?: string;
+  }, options?: {
+    /** Seed milestones (with tasks), risks and considerations from a template */
+    template?: TemplateContent;
+    /** Project start (YYYY-MM-DD) the template's day offsets count from; defaults to today */
+    startDate?: string;
   }): Promise<ProjectWithRelations | null> {
     try {
+      if (options?.template) {
+        const seeded = instantiateTemplate(
+          options.template,
+          options.startDate || new Date().toISOString().split("T")[0],
+        );
+        data = {
+          ...data,
+          milestones: [...seeded.milestones, ...(data.milestones || [])],
+          risks: [...seeded.risks, ...(data.risks || [])],
+          considerations: [...seeded.considerations, ...(data.considerations || [])],
+        };
+      }
+
       // Get current user's profile to get department
       const {
         data: { user },
@@ -1619,7 +1676,11 @@ export const projectService = {
           health_calculation_type: data.health_calculation_type || "automatic",
           manual_health_percentage: data.manual_health_percentage,
           manual_status_color: data.manual_status_color,
+          manual_status_reason: data.manual_status_reason || null,
+          manual_status_expires_at: data.manual_status_expires_at || null,
           department: department,
+          program_id: data.program_id || null,
+          cloned_from_project_id: data.cloned_from_project_id || null,
           owner_id: user?.id ?? null,
         })
         .select()
@@ -1638,10 +1699,11 @@ export const projectService = {
         await syncProjectManagerEditor(project.id, data.project_manager, null, user.id, user.id);
       }
 
-      // Insert milestones if any
-      if (data.milestones && data.milestones.length > 0) {
-        try {
-          const { error: milestonesError } = await supabase
+      // Insert the project's sections. A failed insert removes the project
+      // again, so a clone or a form save is never left half-created.
+      try {
+        if (data.milestones && data.milestones.length > 0) {
+          const { data: insertedMilestones, error: milestonesError } = await supabase
             .from("milestones")
             .insert(
               data.milestones.map((m) => ({
@@ -1654,18 +1716,35 @@ export const projectService = {
                 status: m.status,
                 weight: m.weight || 3, // Default to 3 if not provided
               })),
-            );
+            )
+            .select("id");
           if (milestonesError) {
-            console.error("Error inserting milestones:", milestonesError);
+            throw new ProjectSectionInsertError("milestones", milestonesError);
+          }
+
+          // Tasks (e.g. from a template) follow their milestone; rows come back in insert order
+          const taskRows = (insertedMilestones || []).flatMap((inserted, index) =>
+            (data.milestones[index]?.tasks || []).map((t) => ({
+              project_id: project.id,
+              milestone_id: inserted.id,
+              description: t.description,
+              assignee: t.assignee || "",
+              date: t.date,
+              completion: t.completion || 0,
+              duration_days: t.duration_days || 1,
+              allocation_percent: t.allocation_percent ?? null,
+              allocation_hours: t.allocation_hours ?? null,
+            })),
+          );
+          if (taskRows.length > 0) {
+            const { error: tasksError } = await supabase.from("tasks").insert(taskRows);
+            if (tasksError) {
+              throw new ProjectSectionInsertError("tasks", tasksError);
+            }
           }
-        } catch (error) {
-          console.error("Exception inserting milestones:", error);
         }
-      }
 
-      // Insert accomplishments if any
-      if (data.accomplishments && data.accomplishments.length > 0) {
-        try {
+        if (data.accomplishments && data.accomplishments.length > 0) {
           const accomplishmentRows = data.accomplishments.map((a) => {
             if (typeof a === "string") {
               return {
@@ -1693,28 +1772,22 @@ export const projectService = {
             .from("accomplishments")
             .insert(accomplishmentRows);
           if (accomplishmentsError) {
-            console.error(
-              "Error inserting accomplishments:",
-              accomplishmentsError,
-            );
+            throw new ProjectSectionInsertError("accomplishments", accomplishmentsError);
           }
-        } catch (error) {
-          console.error("Exception inserting accomplishments:", error);
         }
-      }
 
-      // Insert next period activities if any
-      if (
-        data.next_period_activities &&
-        data.next_period_activities.length > 0
-      ) {
-        try {
+        if (
+          data.next_period_activities &&
+          data.next_period_activities.length > 0
+        ) {
           const activityRows2 = data.next_period_activities.map((a) => ({
             project_id: project.id,
             description: a.description,
             date: a.date || new Date().toISOString().split("T")[0],
             completion: a.completion || 0,
             assignee: a.assignee || "",
+            allocation_percent: a.allocation_percent ?? null,
+            allocation_hours: a.allocation_hours ?? null,
             sub_activities: a.sub_activities || [],
           }));
           let { error: activitiesError } = await supabase
@@ -1728,34 +1801,32 @@ export const projectService = {
             activitiesError = retryError;
           }
           if (activitiesError) {
-            console.error("Error inserting activities:", activitiesError);
+            throw new ProjectSectionInsertError("next_period_activities", activitiesError);
           }
-        } catch (error) {
-          console.error("Exception inserting activities:", error);
         }
-      }
 
-      // Insert risks if any
-      if (data.risks && data.risks.length > 0) {
-        try {
+        if (data.risks && data.risks.length > 0) {
           const { error: risksError } = await supabase.from("risks").insert(
-            data.risks.map((r) => ({
-              project_id: project.id,
-              description: r.description,
-              impact: r.impact || null,
-            })),
+            data.risks.map((r) => {
+              // Changes are inserted after risks, so a new project cannot
+              // link a realized risk to its change yet.
+              const { realized_change_id, ...register } = toRiskRegisterFields(r);
+              return {
+                project_id: project.id,
+                description: r.description,
+                impact: r.impact || null,
+                ...register,
+                owner: register.owner || null,
+                mitigation_plan: register.mitigation_plan || null,
+              };
+            }),
           );
           if (risksError) {
-            console.error("Error inserting risks:", risksError);
+            throw new ProjectSectionInsertError("risks", risksError);
           }
-        } catch (error) {
-          console.error("Exception inserting risks:", error);
         }
-      }
 
-      // Insert considerations if any
-      if (data.considerations && data.considerations.length > 0) {
-        try {
+        if (data.considerations && data.considerations.length > 0) {
           const { error: considerationsError } = await supabase
             .from("considerations")
             .insert(
@@ -1772,33 +1843,70 @@ export const projectService = {
               })),
             );
           if (considerationsError) {
-            console.error(
-              "Error inserting considerations:",
-              considerationsError,
-            );
+            throw new ProjectSectionInsertError("considerations", considerationsError);
           }
-        } catch (error) {
-          console.error("Exception inserting considerations:", error);
         }
-      }
 
-      // Insert changes if any
-      if (data.changes && data.changes.length > 0) {
-        try {
+        if (data.changes && data.changes.length > 0) {
           const { error: changesError } = await supabase.from("changes").insert(
             data.changes.map((c) => ({
               project_id: project.id,
               change: c.change,
               impact: c.impact,
               disposition: c.disposition,
+              requested_by: c.requested_by || null,
+              budget_delta: c.budget_delta ?? 0,
+              schedule_delta_days: c.schedule_delta_days ?? 0,
             })),
           );
           if (changesError) {
-            console.error("Error inserting changes:", changesError);
+            throw new ProjectSectionInsertError("changes", changesError);
+          }
+        }
+
+        // Nothing else is saved yet when the form is filled in, so decisions
+        // start without links.
+        if (data.issues && data.issues.length > 0) {
+          const { error: issuesError } = await supabase.from("issues").insert(
+            data.issues.map((i) => {
+              const fields = toIssueFields(i);
+              return {
+                project_id: project.id,
+                ...fields,
+                owner: fields.owner || null,
+                resolution: fields.resolution || null,
+              };
+            }),
+          );
+          if (issuesError) {
+            throw new ProjectSectionInsertError("issues", issuesError);
+          }
+        }
+
+        if (data.decisions && data.decisions.length > 0) {
+          const { error: decisionsError } = await supabase.from("decisions").insert(
+            data.decisions.map((d) => {
+              const fields = toDecisionFields(d);
+              return {
+                project_id: project.id,
+                decision: fields.decision,
+                decision_date: fields.decision_date,
+                decided_by: fields.decided_by || null,
+                rationale: fields.rationale || null,
+              };
+            }),
+          );
+          if (decisionsError) {
+            throw new ProjectSectionInsertError("decisions", decisionsError);
           }
-        } catch (error) {
-          console.error("Exception inserting changes:", error);
         }
+      } catch (error) {
+        console.error(
+          "[CREATE_PROJECT] Failed to insert project sections, removing the project:",
+          error,
+        );
+        await this.permanentlyDeleteProject(project.id);
+        return null;
       }
 
       // Update project duration after creating milestones
@@ -1935,6 +2043,25 @@ export const projectService = {
     }
   },
 
+  /**
+   * Deep-clone a project into a new draft project: the chosen sections
+   * (milestones with tasks, risks, considerations, changes, next period
+   * activities with sub-activities), optionally with progress and
+   * accomplishments reset and every date shifted. The clone records the
+   * source in cloned_from_project_id.
+   */
+  async cloneProject(
+    sourceId: string,
+    options: ProjectCloneOptions,
+  ): Promise<ProjectWithRelations | null> {
+    const source = await this.getProject(sourceId);
+    if (!source) {
+      console.error("[CLONE] Source project not found:", sourceId);
+      return null;
+    }
+    return this.createProject(buildProjectClone(source, options));
+  },
+
   async getProject(id: string): Promise<ProjectWithRelations | null> {
     if (!id) {
       return null;
@@ -1947,6 +2074,8 @@ export const projectService = {
     }
 
     try {
+      await healthRulesService.ensureLoaded();
+
       const { data: project, error: projectError } = await supabase
         .from("projects")
         .select("*")
@@ -1987,6 +2116,10 @@ export const projectService = {
         { data: risks, error: risksError },
         { data: considerations, error: considerationsError },
         { data: changes, error: changesError },
+        { data: decisions },
+        { data: issues },
+        { data: dependencies },
+        { data: activeBaseline },
       ] = await Promise.all([
         supabase.from("accomplishments").select("*").eq("project_id", id),
         supabase
@@ -1996,6 +2129,22 @@ export const projectService = {
         supabase.from("risks").select("*").eq("project_id", id),
         supabase.from("considerations").select("*").eq("project_id", id),
         supabase.from("changes").select("*").eq("project_id", id),
+        supabase
+          .from("decisions")
+          .select("*")
+          .eq("project_id", id)
+          .order("decision_date", { ascending: false, nullsFirst: false }),
+        supabase.from("issues").select("*").eq("project_id", id),
+        supabase
+          .from("schedule_dependencies")
+          .select("*")
+          .eq("project_id", id),
+        supabase
+          .from("project_baselines")
+          .select("*")
+          .eq("project_id", id)
+          .eq("is_active", true)
+          .maybeSingle(),
       ]);
 
       return {
@@ -2021,6 +2170,10 @@ export const projectService = {
           return "";
         }),
         changes: changes || [],
+        decisions: decisions || [],
+        issues: sortIssues(issues || []),
+        dependencies: (dependencies || []).map(toScheduleDependency),
+        baseline: activeBaseline ? toProjectBaseline(activeBaseline) : null,
       };
     } catch (error) {
       console.error("Unexpected error in getProject:", error);
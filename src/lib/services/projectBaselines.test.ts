@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculateBaselineVariance,
+  type ProjectBaseline,
+} from "./projectBaselines";
+
+const baseline: ProjectBaseline = {
+  id: "b1",
+  project_id: "p1",
+  name: "Charter",
+  note: null,
+  budget_total: 100000,
+  start_date: "2026-01-01",
+  finish_date: "2026-03-02",
+  items: [
+    { item_type: "milestone", item_id: "m1", label: "Design", start_date: "2026-01-01", finish_date: "2026-01-31" },
+    { item_type: "milestone", item_id: "m2", label: "Build", start_date: "2026-02-01", finish_date: "2026-03-02" },
+    { item_type: "task", item_id: "t1", label: "Wireframes", start_date: "2026-01-05", finish_date: "2026-01-07" },
+    { item_type: "milestone", item_id: "m3", label: "Dropped", start_date: "2026-02-10", finish_date: "2026-02-12" },
+  ],
+  is_active: true,
+  created_by: null,
+  created_at: "2026-01-01T10:00:00Z",
+};
+
+describe("calculateBaselineVariance", () => {
+  const project = {
+    budget_total: 120000,
+    milestones: [
+      {
+        id: "m1",
+        date: "2026-01-01",
+        end_date: "2026-02-05",
+        milestone: "Design",
+        tasks: [{ id: "t1", description: "Wireframes", date: "2026-01-05", duration_days: 2 }],
+      },
+      { id: "m2", date: "2026-02-06", end_date: "2026-03-14", milestone: "Build" },
+    ],
+  };
+
+  it("measures finish slip, schedule growth and budget change", () => {
+    const variance = calculateBaselineVariance(project, baseline);
+    expect(variance.currentFinish).toBe("2026-03-14");
+    expect(variance.finishVarianceDays).toBe(12);
+    // 12 days over a 60-day baseline
+    expect(variance.scheduleVariancePercent).toBe(20);
+    expect(variance.budgetVariance).toBe(20000);
+    expect(variance.slippedItems).toBe(2);
+  });
+
+  it("reports per-item variance and items removed since the baseline", () => {
+    const { items } = calculateBaselineVariance(project, baseline);
+    const byId = Object.fromEntries(items.map((i) => [i.itemId, i]));
+    expect(byId.m2.startVarianceDays).toBe(5);
+    expect(byId.t1.finishVarianceDays).toBe(0);
+    expect(byId.m3.currentFinish).toBeNull();
+    expect(byId.m3.finishVarianceDays).toBeNull();
+  });
+
+  it("leaves variance empty when there is nothing to compare", () => {
+    const variance = calculateBaselineVariance(
+      { milestones: [] },
+      { ...baseline, budget_total: null },
+    );
+    expect(variance.finishVarianceDays).toBeNull();
+    expect(variance.scheduleVariancePercent).toBeNull();
+    expect(variance.budgetVariance).toBeNull();
+  });
+});
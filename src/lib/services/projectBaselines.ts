@@ -0,0 +1,226 @@
+/**
+ * File: projectBaselines.ts
+ * Purpose: Named schedule baselines — a frozen copy of every milestone/task
+ * start and finish plus budget_total — and the variance of the current plan
+ * against the active baseline (finish slip, schedule growth, budget change).
+ */
+
+import { supabase } from "../supabase";
+import {
+  getScheduleItems,
+  toDayNumber,
+  type ScheduleItemType,
+} from "./scheduleDependencies";
+
+export interface BaselineItem {
+  item_type: ScheduleItemType;
+  item_id: string;
+  label: string;
+  start_date: string;
+  finish_date: string;
+}
+
+export interface ProjectBaseline {
+  id: string;
+  project_id: string;
+  name: string;
+  note: string | null;
+  budget_total: number | null;
+  start_date: string | null;
+  finish_date: string | null;
+  items: BaselineItem[];
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface BaselineItemVariance {
+  itemId: string;
+  itemType: ScheduleItemType;
+  label: string;
+  baselineStart: string;
+  baselineFinish: string;
+  // null when the item has since been removed or lost its date
+  currentStart: string | null;
+  currentFinish: string | null;
+  startVarianceDays: number | null;
+  finishVarianceDays: number | null;
+}
+
+export interface BaselineVariance {
+  baselineId: string;
+  baselineName: string;
+  capturedAt: string;
+  baselineStart: string | null;
+  baselineFinish: string | null;
+  currentFinish: string | null;
+  /** Current finish minus baseline finish; positive means later than planned */
+  finishVarianceDays: number | null;
+  /** Finish slip as a percentage of the baselined duration */
+  scheduleVariancePercent: number | null;
+  /** Current budget_total minus the baselined budget_total */
+  budgetVariance: number | null;
+  slippedItems: number;
+  items: BaselineItemVariance[];
+}
+
+interface BaselineProjectInput {
+  milestones?: any[];
+  budget_total?: number | null;
+}
+
+/**
+ * Normalize a project_baselines row (items arrive as untyped JSON)
+ */
+export const toProjectBaseline = (row: any): ProjectBaseline => ({
+  id: row.id,
+  project_id: row.project_id,
+  name: row.name || "",
+  note: row.note ?? null,
+  budget_total: row.budget_total ?? null,
+  start_date: row.start_date ?? null,
+  finish_date: row.finish_date ?? null,
+  items: Array.isArray(row.items) ? row.items : [],
+  is_active: !!row.is_active,
+  created_by: row.created_by ?? null,
+  created_at: row.created_at,
+});
+
+const diffDays = (from: string | null, to: string | null): number | null => {
+  const a = toDayNumber(from);
+  const b = toDayNumber(to);
+  return a === null || b === null ? null : b - a;
+};
+
+/**
+ * Compare the project's current milestones, tasks and budget with a baseline
+ */
+export const calculateBaselineVariance = (
+  project: BaselineProjectInput,
+  baseline: ProjectBaseline,
+): BaselineVariance => {
+  const current = new Map(
+    getScheduleItems(project.milestones || []).map((item) => [item.id, item]),
+  );
+
+  const items: BaselineItemVariance[] = baseline.items.map((b) => {
+    const now = current.get(b.item_id);
+    return {
+      itemId: b.item_id,
+      itemType: b.item_type,
+      label: now?.label || b.label,
+      baselineStart: b.start_date,
+      baselineFinish: b.finish_date,
+      currentStart: now?.start ?? null,
+      currentFinish: now?.finish ?? null,
+      startVarianceDays: now ? diffDays(b.start_date, now.start) : null,
+      finishVarianceDays: now ? diffDays(b.finish_date, now.finish) : null,
+    };
+  });
+
+  // Project finish comes from milestones only, like calculateProjectDuration
+  const milestoneFinishes = Array.from(current.values())
+    .filter((item) => item.type === "milestone")
+    .map((item) => item.finish)
+    .sort();
+  const currentFinish = milestoneFinishes.length
+    ? milestoneFinishes[milestoneFinishes.length - 1]
+    : null;
+
+  const finishVarianceDays = diffDays(baseline.finish_date, currentFinish);
+  const baselineDuration = diffDays(baseline.start_date, baseline.finish_date);
+  const scheduleVariancePercent =
+    finishVarianceDays !== null && baselineDuration !== null
+      ? Math.round((finishVarianceDays / Math.max(1, baselineDuration)) * 1000) / 10
+      : null;
+
+  const budgetVariance =
+    baseline.budget_total !== null && baseline.budget_total !== undefined
+      ? (project.budget_total || 0) - baseline.budget_total
+      : null;
+
+  return {
+    baselineId: baseline.id,
+    baselineName: baseline.name,
+    capturedAt: baseline.created_at,
+    baselineStart: baseline.start_date,
+    baselineFinish: baseline.finish_date,
+    currentFinish,
+    finishVarianceDays,
+    scheduleVariancePercent,
+    budgetVariance,
+    slippedItems: items.filter((i) => (i.finishVarianceDays ?? 0) > 0).length,
+    items,
+  };
+};
+
+// Service for capturing and managing project baselines
+export const projectBaselinesService = {
+  async captureBaseline(
+    projectId: string,
+    name: string,
+    note?: string,
+  ): Promise<ProjectBaseline | null> {
+    if (!projectId || !name.trim()) {
+      console.error("[BASELINE] Project id and baseline name are required");
+      return null;
+    }
+
+    const { data, error } = await supabase.rpc("capture_project_baseline", {
+      p_project_id: projectId,
+      p_name: name.trim(),
+      p_note: note,
+    });
+
+    if (error) {
+      console.error("[BASELINE] Failed to capture baseline:", error);
+      return null;
+    }
+
+    return data ? toProjectBaseline(data) : null;
+  },
+
+  async getBaselines(projectId: string): Promise<ProjectBaseline[]> {
+    if (!projectId) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from("project_baselines")
+      .select("*")
+      .eq("project_id", projectId)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("[BASELINE] Error fetching baselines:", error);
+      return [];
+    }
+
+    return (data || []).map(toProjectBaseline);
+  },
+
+  async setActiveBaseline(baselineId: string): Promise<boolean> {
+    const { error } = await supabase.rpc("set_active_project_baseline", {
+      p_baseline_id: baselineId,
+    });
+
+    if (error) {
+      console.error("[BASELINE] Failed to set active baseline:", error);
+      return false;
+    }
+    return true;
+  },
+
+  async deleteBaseline(baselineId: string): Promise<boolean> {
+    const { error } = await supabase
+      .from("project_baselines")
+      .delete()
+      .eq("id", baselineId);
+
+    if (error) {
+      console.error("[BASELINE] Failed to delete baseline:", error);
+      return false;
+    }
+    return true;
+  },
+};
@@ -0,0 +1,142 @@
+import { describe, it, expect } from "vitest";
+import {
+  ALL_CLONE_SECTIONS,
+  buildProjectClone,
+  shiftDate,
+  type ProjectCloneOptions,
+} from "./projectClone";
+
+const source = {
+  id: "phase-1",
+  title: "ERP Phase 1",
+  description: "<p>Core finance</p>",
+  value_statement: "Close faster",
+  status: "active",
+  budget_total: 250000,
+  budget_actuals: 180000,
+  budget_forecast: 60000,
+  charter_link: "",
+  sponsors: "CFO",
+  business_leads: "",
+  project_manager: "Alex",
+  health_calculation_type: "automatic",
+  manual_health_percentage: null,
+  manual_status_color: null,
+  department: "Finance",
+  program_id: "prog-erp",
+  milestones: [
+    {
+      id: "m1",
+      date: "2026-01-05",
+      end_date: "2026-02-27",
+      milestone: "Design",
+      owner: "Alex",
+      completion: 100,
+      status: "green",
+      weight: 4,
+      tasks: [{ id: "t1", description: "Workshops", assignee: "Sam", date: "2026-01-12", completion: 100, duration_days: 5, allocation_percent: 50 }],
+    },
+  ],
+  accomplishments: [
+    { id: "a1", description: "Design signed off", source_type: "milestone", source_id: "m1", is_hidden: false, is_deleted: false, auto_generated: true },
+    { id: "a2", description: "Removed", source_type: "manual", source_id: null, is_hidden: false, is_deleted: true, auto_generated: false },
+  ],
+  next_period_activities: [
+    {
+      id: "n1",
+      description: "Cutover prep",
+      date: "2026-03-02",
+      completion: 20,
+      assignee: "Sam",
+      sub_activities: [{ description: "Data load", date: "2026-03-04", assignee: "Kim", completion: 50 }],
+    },
+  ],
+  risks: [
+    { id: "r1", description: "Vendor delay", impact: "Slip", probability: 3, impact_score: 4, owner: "Alex", mitigation_plan: "", trigger_date: "2026-02-01", status: "realized", realized_change_id: "c1" },
+  ],
+  considerations: ["Audit window"],
+  changes: [{ id: "c1", change: "Add AP module", impact: "+4 weeks", disposition: "Approved" }],
+} as any;
+
+const options: ProjectCloneOptions = {
+  title: " ERP Phase 2 ",
+  sections: ALL_CLONE_SECTIONS,
+  resetCompletion: false,
+  resetAccomplishments: false,
+  shiftDays: 182,
+};
+
+describe("shiftDate", () => {
+  it("shifts calendar days and passes empty dates through", () => {
+    expect(shiftDate("2026-02-27", 2)).toBe("2026-03-01");
+    expect(shiftDate(null, 2)).toBeNull();
+    expect(shiftDate("", 2)).toBe("");
+  });
+});
+
+describe("buildProjectClone", () => {
+  it("copies every section with dates shifted and records the source", () => {
+    const clone = buildProjectClone(source, options);
+    expect(clone.title).toBe("ERP Phase 2");
+    expect(clone.status).toBe("draft");
+    expect(clone.cloned_from_project_id).toBe("phase-1");
+    expect(clone.program_id).toBe("prog-erp");
+    expect([clone.budget_total, clone.budget_actuals, clone.budget_forecast]).toEqual([250000, 0, 0]);
+
+    const [milestone] = clone.milestones;
+    expect([milestone.date, milestone.end_date, milestone.completion, milestone.weight]).toEqual([
+      "2026-07-06",
+      "2026-08-28",
+      100,
+      4,
+    ]);
+    expect(milestone.tasks).toEqual([
+      {
+        description: "Workshops",
+        assignee: "Sam",
+        date: "2026-07-13",
+        completion: 100,
+        duration_days: 5,
+        allocation_percent: 50,
+        allocation_hours: null,
+      },
+    ]);
+    expect(clone.next_period_activities[0].date).toBe("2026-08-31");
+    expect(clone.next_period_activities[0].sub_activities).toEqual([
+      { description: "Data load", date: "2026-09-02", assignee: "Kim", completion: 50 },
+    ]);
+    expect(clone.risks[0].trigger_date).toBe("2026-08-02");
+    expect(clone.considerations).toEqual(["Audit window"]);
+    expect(clone.changes).toEqual([{ change: "Add AP module", impact: "+4 weeks", disposition: "Approved" }]);
+  });
+
+  it("turns kept accomplishments into manual ones and drops deleted ones", () => {
+    const clone = buildProjectClone(source, options);
+    expect(clone.accomplishments).toEqual([
+      {
+        description: "Design signed off",
+        source_type: "manual",
+        source_id: null,
+        is_hidden: false,
+        is_deleted: false,
+        auto_generated: false,
+      },
+    ]);
+  });
+
+  it("resets progress and skips sections that weren't chosen", () => {
+    const clone = buildProjectClone(source, {
+      ...options,
+      sections: { ...ALL_CLONE_SECTIONS, tasks: false, risks: false, changes: false },
+      resetCompletion: true,
+      resetAccomplishments: true,
+      shiftDays: 0,
+    });
+    expect(clone.milestones[0]).toMatchObject({ date: "2026-01-05", completion: 0, status: "green", tasks: [] });
+    expect(clone.next_period_activities[0].completion).toBe(0);
+    expect(clone.next_period_activities[0].sub_activities[0].completion).toBe(0);
+    expect(clone.accomplishments).toEqual([]);
+    expect(clone.risks).toEqual([]);
+    expect(clone.changes).toEqual([]);
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * File: projectClone.ts
+ * Purpose: Deep copy of a project — e.g. starting phase 2 from phase 1 — with
+ * the caller choosing which sections come along, whether progress and
+ * accomplishments are reset, and how many days every date is shifted.
+ */
+
+import { fromDayNumber, toDayNumber } from "./scheduleDependencies";
+import { toRiskRegisterFields } from "./riskRegister";
+import type { ProjectWithRelations, projectService } from "./project";
+
+export interface ProjectCloneSections {
+  milestones: boolean;
+  tasks: boolean; // only applies when milestones are copied
+  risks: boolean;
+  considerations: boolean;
+  changes: boolean;
+  nextPeriodActivities: boolean;
+}
+
+export interface ProjectCloneOptions {
+  title: string;
+  sections: ProjectCloneSections;
+  /** Set milestone, task and activity completion back to 0 (and milestones to green) */
+  resetCompletion: boolean;
+  /** Leave the clone without the source's accomplishments */
+  resetAccomplishments: boolean;
+  /** Days added to every milestone, task, activity and risk trigger date */
+  shiftDays: number;
+}
+
+export type ProjectCloneData = Parameters<typeof projectService.createProject>[0];
+
+export const ALL_CLONE_SECTIONS: ProjectCloneSections = {
+  milestones: true,
+  tasks: true,
+  risks: true,
+  considerations: true,
+  changes: true,
+  nextPeriodActivities: true,
+};
+
+/**
+ * Shift a YYYY-MM-DD date by whole days; empty or invalid dates pass through
+ */
+export const shiftDate = <T extends string | null | undefined>(date: T, days: number): T => {
+  const day = toDayNumber(date);
+  return (day === null ? date : fromDayNumber(day + days)) as T;
+};
+
+/**
+ * Build createProject input for a clone of `source`. Project details (team,
+ * department, program, budget total, health settings) are always copied; the
+ * clone starts as a draft with no actuals or forecast spent. Ids are dropped so
+ * every row is inserted fresh, and accomplishments lose their link to the
+ * source's milestones and tasks.
+ */
+export const buildProjectClone = (
+  source: ProjectWithRelations,
+  options: ProjectCloneOptions,
+): ProjectCloneData & { cloned_from_project_id: string } => {
+  const { sections, resetCompletion, shiftDays } = options;
+  const completion = (value: number | null | undefined) =>
+    resetCompletion ? 0 : value || 0;
+
+  const milestones = sections.milestones
+    ? (source.milestones || []).map((m) => ({
+        date: shiftDate(m.date, shiftDays),
+        end_date: shiftDate(m.end_date, shiftDays),
+        milestone: m.milestone,
+        owner: m.owner || "",
+        completion: completion(m.completion),
+        status: resetCompletion
+          ? ("green" as const)
+          : ((m.status as "green" | "yellow" | "red") || "green"),
+        weight: m.weight || 3,
+        tasks: sections.tasks
+          ? (m.tasks || []).map((t) => ({
+              description: t.description,
+              assignee: t.assignee || "",
+              date: shiftDate(t.date, shiftDays),
+              completion: completion(t.completion),
+              duration_days: t.duration_days || 1,
+              allocation_percent: t.allocation_percent ?? null,
+              allocation_hours: t.allocation_hours ?? null,
+            }))
+          : [],
+      }))
+    : [];
+
+  const accomplishments = options.resetAccomplishments
+    ? []
+    : (source.accomplishments || [])
+        .filter((a: any) => !a.is_deleted && !a.is_hidden)
+        .map((a: any) => ({
+          description: typeof a === "string" ? a : a.description,
+          source_type: "manual" as const,
+          source_id: null,
+          is_hidden: false,
+          is_deleted: false,
+          auto_generated: false,
+        }));
+
+  const nextPeriodActivities = sections.nextPeriodActivities
+    ? (source.next_period_activities || []).map((a) => ({
+        description: a.description,
+        date: shiftDate(a.date, shiftDays),
+        completion: completion(a.completion),
+        assignee: a.assignee || "",
+        allocation_percent: a.allocation_percent ?? null,
+        allocation_hours: a.allocation_hours ?? null,
+        sub_activities: ((a.sub_activities as any[]) || []).map((sub) => ({
+          ...sub,
+          date: shiftDate(sub.date, shiftDays),
+          completion: completion(sub.completion),
+        })),
+      }))
+    : [];
+
+  const risks = sections.risks
+    ? (source.risks || []).map((r) => {
+        const register = toRiskRegisterFields(r);
+        return {
+          description: r.description,
+          impact: r.impact || "",
+          ...register,
+          trigger_date: shiftDate(register.trigger_date, shiftDays),
+        };
+      })
+    : [];
+
+  const considerations = sections.considerations
+    ? (source.considerations || []).map((c: any) =>
+        typeof c === "string" ? c : c?.description || "",
+      )
+    : [];
+
+  const changes = sections.changes
+    ? (source.changes || []).map((c) => ({
+        change: c.change,
+        impact: c.impact || "",
+        disposition: c.disposition || "",
+      }))
+    : [];
+
+  return {
+    title: options.title.trim(),
+    description: source.description || "",
+    valueStatement: source.value_statement || "",
+    status: "draft",
+    budget_total: source.budget_total || 0,
+    budget_actuals: 0,
+    budget_forecast: 0,
+    charter_link: source.charter_link || "",
+    sponsors: source.sponsors || "",
+    business_leads: source.business_leads || "",
+    project_manager: source.project_manager || "",
+    // A manual override is justified for the source project only
+    health_calculation_type: "automatic",
+    manual_health_percentage: resetCompletion ? 0 : source.manual_health_percentage || 0,
+    manual_status_color: resetCompletion ? "green" : source.manual_status_color || "green",
+    department: source.department || undefined,
+    program_id: source.program_id || null,
+    milestones,
+    accomplishments,
+    next_period_activities: nextPeriodActivities,
+    risks,
+    considerations,
+    changes,
+    cloned_from_project_id: source.id,
+  };
+};
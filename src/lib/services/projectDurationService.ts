@@ -3,16 +3,28 @@
  * Purpose: Service for managing project duration calculations and updates
  * Description: This service provides functions to calculate and update project durations
  * based on milestone dates, including both total days and working days calculations.
+ * Working days skip weekends and the holidays in the organization holiday calendar;
+ * total days skip the holidays only.
  */
 
 import { supabase } from "../supabase";
 import { calculateProjectDuration } from "./project";
+import {
+  countHolidays,
+  getHolidayDates,
+  holidayCalendarService,
+  type Holiday,
+} from "./holidayCalendar";
 
 export const projectDurationService = {
   /**
-   * Update duration for a single project based on its milestones
+   * Update duration for a single project based on its milestones.
+   * Pass `holidays` when updating many projects to avoid refetching the calendar.
    */
-  async updateProjectDuration(projectId: string): Promise<boolean> {
+  async updateProjectDuration(
+    projectId: string,
+    holidays?: Holiday[],
+  ): Promise<boolean> {
     try {
       // Validate project ID
       if (!projectId || typeof projectId !== "string") {
@@ -31,7 +43,7 @@ export const projectDurationService = {
       // Fetch project to check status
       const { data: project, error: projectError } = await supabase
         .from("projects")
-        .select("status")
+        .select("status, department")
         .eq("id", projectId)
         .single();
 
@@ -43,6 +55,11 @@ export const projectDurationService = {
         return false;
       }
 
+      const holidayDates = getHolidayDates(
+        holidays ?? (await holidayCalendarService.getHolidays()),
+        project.department,
+      );
+
       // If project is completed, set remaining days to 0 but keep other duration data
       if (project.status === "completed") {
         console.log(
@@ -63,7 +80,7 @@ export const projectDurationService = {
           return false;
         }
 
-        const duration = calculateProjectDuration(milestones || []);
+        const duration = calculateProjectDuration(milestones || [], holidayDates);
 
         // Update with 0 remaining days for completed projects
         const { error: updateError } = await supabase
@@ -122,7 +139,7 @@ export const projectDurationService = {
       );
 
       // Calculate duration
-      const duration = calculateProjectDuration(milestones || []);
+      const duration = calculateProjectDuration(milestones || [], holidayDates);
       console.log("[DURATION_SERVICE] Calculated duration:", duration);
 
       // Update project with calculated duration
@@ -180,21 +197,30 @@ export const projectDurationService = {
   },
 
   /**
-   * Recalculate duration for all projects in the database
+   * Recalculate duration for all projects in the database, or only for one
+   * department's projects (e.g. after a department-specific holiday changes)
    */
-  async recalculateAllProjectDurations(): Promise<{
+  async recalculateAllProjectDurations(department?: string | null): Promise<{
     success: boolean;
     updatedCount: number;
     totalCount: number;
     errors: string[];
   }> {
     try {
-      console.log("[DURATION_SERVICE] Recalculating duration for all projects");
+      console.log(
+        "[DURATION_SERVICE] Recalculating duration for",
+        department ? `department ${department}` : "all projects",
+      );
 
       // Get all projects
-      const { data: projects, error: projectsError } = await supabase
+      let query = supabase
         .from("projects")
-        .select("id, title");
+        .select("id, title")
+        .is("deleted_at", null);
+      if (department) {
+        query = query.eq("department", department);
+      }
+      const { data: projects, error: projectsError } = await query;
 
       if (projectsError || !projects) {
         console.error(
@@ -214,6 +240,7 @@ export const projectDurationService = {
       );
       let updatedCount = 0;
       const errors: string[] = [];
+      const holidays = await holidayCalendarService.getHolidays();
 
       // Update each project
       for (const project of projects) {
@@ -221,7 +248,7 @@ export const projectDurationService = {
           console.log(
             `[DURATION_SERVICE] Processing project: ${project.title} (${project.id})`,
           );
-          const success = await this.updateProjectDuration(project.id);
+          const success = await this.updateProjectDuration(project.id, holidays);
           if (success) {
             updatedCount++;
             console.log(
@@ -325,7 +352,8 @@ export const projectDurationService = {
         .select(
           "id, total_days, working_days, total_days_remaining, working_days_remaining",
         )
-        .not("status", "eq", "cancelled");
+        .not("status", "eq", "cancelled")
+        .is("deleted_at", null);
 
       if (allError) {
         console.error("[DEBUG] Error fetching all projects:", allError);
@@ -415,11 +443,12 @@ export const projectDurationService = {
 
       let updatedCount = 0;
       const errors: string[] = [];
+      const holidays = await holidayCalendarService.getHolidays();
 
       // Update each project
       for (const projectId of projectIds) {
         try {
-          const success = await this.updateProjectDuration(projectId);
+          const success = await this.updateProjectDuration(projectId, holidays);
           if (success) {
             updatedCount++;
             console.log(`[DEBUG] Updated duration for project: ${projectId}`);
@@ -473,9 +502,10 @@ export const projectDurationService = {
       const { data: projects, error } = await supabase
         .from("projects")
         .select(
-          "id, title, calculated_start_date, calculated_end_date, total_days, working_days, total_days_remaining, working_days_remaining",
+          "id, title, department, calculated_start_date, calculated_end_date, total_days, working_days, total_days_remaining, working_days_remaining",
         )
-        .not("status", "eq", "cancelled");
+        .not("status", "eq", "cancelled")
+        .is("deleted_at", null);
 
       if (error) {
         console.error("[DEBUG] Error fetching projects for validation:", error);
@@ -488,6 +518,7 @@ export const projectDurationService = {
 
       const inconsistencies: Array<{ projectId: string; issue: string }> = [];
       let validProjects = 0;
+      const holidays = await holidayCalendarService.getHolidays();
 
       for (const project of projects || []) {
         const hasStartDate = project.calculated_start_date !== null;
@@ -521,9 +552,15 @@ export const projectDurationService = {
         if (hasStartDate && hasEndDate && hasTotalDays) {
           const startDate = new Date(project.calculated_start_date!);
           const endDate = new Date(project.calculated_end_date!);
-          const actualDays = Math.ceil(
-            (endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24),
-          );
+          const actualDays =
+            Math.ceil(
+              (endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24),
+            ) -
+            countHolidays(
+              startDate,
+              endDate,
+              getHolidayDates(holidays, project.department),
+            );
 
           if (Math.abs(actualDays - project.total_days!) > 1) {
             inconsistencies.push({
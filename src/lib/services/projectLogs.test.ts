@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import {
+  describeDecisionLink,
+  sortIssues,
+  toDecisionFields,
+  toIssueFields,
+} from "./projectLogs";
+import { decisionMetaLine, issueMetaLine } from "@/lib/report/format";
+
+describe("toIssueFields", () => {
+  it("defaults new and unknown values to an open, project-level medium issue", () => {
+    expect(toIssueFields({ description: "Test rig down", severity: "urgent" })).toEqual({
+      description: "Test rig down",
+      severity: "medium",
+      owner: "",
+      due_date: null,
+      escalation_level: "project",
+      status: "open",
+      resolution: "",
+    });
+  });
+});
+
+describe("sortIssues", () => {
+  it("lists unresolved issues first, by severity then due date", () => {
+    const issues = [
+      { description: "resolved critical", severity: "critical", status: "resolved" },
+      { description: "low", severity: "low", due_date: "2026-03-01" },
+      { description: "high undated", severity: "high" },
+      { description: "high later", severity: "high", due_date: "2026-05-01" },
+      { description: "high sooner", severity: "high", due_date: "2026-04-01" },
+      { description: "critical", severity: "critical", status: "in_progress" },
+    ];
+    expect(sortIssues(issues).map((i) => i.description)).toEqual([
+      "critical",
+      "high sooner",
+      "high later",
+      "high undated",
+      "low",
+      "resolved critical",
+    ]);
+  });
+});
+
+describe("toDecisionFields", () => {
+  it("drops malformed links", () => {
+    const fields = toDecisionFields({
+      decision: "Defer phase 2",
+      linked_items: [{ type: "risk", id: "r1" }, { type: "budget", id: "b1" }, { type: "issue" }],
+    });
+    expect(fields.linked_items).toEqual([{ type: "risk", id: "r1" }]);
+    expect(toDecisionFields({ linked_items: "r1" }).linked_items).toEqual([]);
+  });
+});
+
+describe("describeDecisionLink", () => {
+  const project = {
+    risks: [{ id: "r1", description: "<p>Vendor delay</p>" }],
+    milestones: [{ id: "m1", milestone: "" }],
+  };
+
+  it("labels linked items by type with plain text", () => {
+    expect(describeDecisionLink({ type: "risk", id: "r1" }, project)).toBe("Risk: Vendor delay");
+    expect(describeDecisionLink({ type: "milestone", id: "m1" }, project)).toBe("Milestone: Untitled");
+  });
+
+  it("returns null for items that were deleted", () => {
+    expect(describeDecisionLink({ type: "risk", id: "gone" }, project)).toBeNull();
+    expect(describeDecisionLink({ type: "change", id: "c1" }, project)).toBeNull();
+  });
+});
+
+describe("report meta lines", () => {
+  it("summarizes issues and decisions", () => {
+    expect(
+      issueMetaLine({
+        severity: "Critical",
+        owner: "Jane Doe",
+        dueDate: "Mar 3, 2026",
+        escalation: "Steering committee",
+        status: "Open",
+      }),
+    ).toBe("Critical · Owner: Jane Doe · Due Mar 3, 2026 · Escalation: Steering committee · Open");
+    expect(
+      decisionMetaLine({ date: "Mar 3, 2026", decidedBy: "—", linkedItems: ["Risk: Vendor delay", "Milestone: Build"] }),
+    ).toBe("Mar 3, 2026 · Re: Risk: Vendor delay; Milestone: Build");
+  });
+});
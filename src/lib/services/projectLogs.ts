@@ -0,0 +1,168 @@
+/**
+ * File: projectLogs.ts
+ * Purpose: Field normalization, labels and ordering for the decision log and
+ * issue log sections, shared by the project form, status sheet, report model
+ * and Excel export.
+ */
+
+export type IssueSeverity = "low" | "medium" | "high" | "critical";
+export type IssueEscalationLevel = "project" | "department" | "steering_committee" | "executive";
+export type IssueStatus = "open" | "in_progress" | "resolved";
+export type DecisionLinkType = "risk" | "issue" | "change" | "milestone";
+
+export const ISSUE_SEVERITIES: IssueSeverity[] = ["low", "medium", "high", "critical"];
+
+export const ISSUE_SEVERITY_LABELS: Record<IssueSeverity, string> = {
+  low: "Low",
+  medium: "Medium",
+  high: "High",
+  critical: "Critical",
+};
+
+// Same bands as risk exposure so the two registers read alike
+export const ISSUE_SEVERITY_CLASSES: Record<IssueSeverity, string> = {
+  low: "bg-green-100 text-green-800 border-green-300",
+  medium: "bg-yellow-100 text-yellow-800 border-yellow-300",
+  high: "bg-orange-200 text-orange-900 border-orange-400",
+  critical: "bg-red-200 text-red-900 border-red-400",
+};
+
+export const ISSUE_ESCALATION_LEVELS: IssueEscalationLevel[] = [
+  "project",
+  "department",
+  "steering_committee",
+  "executive",
+];
+
+export const ISSUE_ESCALATION_LABELS: Record<IssueEscalationLevel, string> = {
+  project: "Project team",
+  department: "Department",
+  steering_committee: "Steering committee",
+  executive: "Executive",
+};
+
+export const ISSUE_STATUSES: IssueStatus[] = ["open", "in_progress", "resolved"];
+
+export const ISSUE_STATUS_LABELS: Record<IssueStatus, string> = {
+  open: "Open",
+  in_progress: "In Progress",
+  resolved: "Resolved",
+};
+
+export const DECISION_LINK_LABELS: Record<DecisionLinkType, string> = {
+  risk: "Risk",
+  issue: "Issue",
+  change: "Change",
+  milestone: "Milestone",
+};
+
+export interface IssueFields {
+  description: string;
+  severity: IssueSeverity;
+  owner: string;
+  due_date: string | null;
+  escalation_level: IssueEscalationLevel;
+  status: IssueStatus;
+  resolution: string;
+}
+
+export interface DecisionLink {
+  type: DecisionLinkType;
+  id: string;
+}
+
+export interface DecisionFields {
+  decision: string;
+  decision_date: string | null;
+  decided_by: string;
+  rationale: string;
+  linked_items: DecisionLink[];
+}
+
+const pick = <T extends string>(values: T[], value: unknown, fallback: T): T =>
+  values.includes(value as T) ? (value as T) : fallback;
+
+/**
+ * Pick and normalize the fields of an issue (form item or DB row)
+ */
+export const toIssueFields = (issue: any): IssueFields => ({
+  description: issue?.description || "",
+  severity: pick(ISSUE_SEVERITIES, issue?.severity, "medium"),
+  owner: issue?.owner || "",
+  due_date: issue?.due_date || null,
+  escalation_level: pick(ISSUE_ESCALATION_LEVELS, issue?.escalation_level, "project"),
+  status: pick(ISSUE_STATUSES, issue?.status, "open"),
+  resolution: issue?.resolution || "",
+});
+
+/**
+ * Pick and normalize the fields of a decision (form item or DB row). Links
+ * with an unknown type or no id are dropped.
+ */
+export const toDecisionFields = (decision: any): DecisionFields => ({
+  decision: decision?.decision || "",
+  decision_date: decision?.decision_date || null,
+  decided_by: decision?.decided_by || "",
+  rationale: decision?.rationale || "",
+  linked_items: (Array.isArray(decision?.linked_items) ? decision.linked_items : []).filter(
+    (link: any): link is DecisionLink =>
+      !!link?.id && Object.keys(DECISION_LINK_LABELS).includes(link?.type),
+  ),
+});
+
+/**
+ * Issues in register order: unresolved first, then by severity (critical
+ * first), then by due date with undated issues last.
+ */
+export const sortIssues = <T>(issues: T[]): T[] => {
+  const rank = (i: IssueFields) =>
+    (i.status === "resolved" ? 100 : 0) + (3 - ISSUE_SEVERITIES.indexOf(i.severity));
+  return [...issues].sort((a, b) => {
+    const fa = toIssueFields(a);
+    const fb = toIssueFields(b);
+    const byRank = rank(fa) - rank(fb);
+    if (byRank !== 0) return byRank;
+    if (fa.due_date === fb.due_date) return 0;
+    if (!fa.due_date) return 1;
+    if (!fb.due_date) return -1;
+    return fa.due_date < fb.due_date ? -1 : 1;
+  });
+};
+
+/**
+ * Plain text of the item a decision links to, or null when the item no
+ * longer exists in the project
+ */
+export const getDecisionLinkText = (
+  link: DecisionLink,
+  project: {
+    risks?: Array<{ id?: string; description?: string | null }>;
+    issues?: Array<{ id?: string; description?: string | null }>;
+    changes?: Array<{ id?: string; change?: string | null }>;
+    milestones?: Array<{ id?: string; milestone?: string | null }>;
+  },
+): string | null => {
+  const items: Record<DecisionLinkType, Array<{ id?: string }> | undefined> = {
+    risk: project.risks,
+    issue: project.issues,
+    change: project.changes,
+    milestone: project.milestones,
+  };
+  const item: any = (items[link.type] || []).find((i) => i.id === link.id);
+  if (!item) return null;
+
+  const text = link.type === "change" ? item.change : link.type === "milestone" ? item.milestone : item.description;
+  return (text || "").replace(/<[^>]*>/g, "").trim() || "Untitled";
+};
+
+/**
+ * Short label for a decision's linked item, e.g. "Risk: Vendor delay", or
+ * null when the item no longer exists
+ */
+export const describeDecisionLink = (
+  link: DecisionLink,
+  project: Parameters<typeof getDecisionLinkText>[1],
+): string | null => {
+  const text = getDecisionLinkText(link, project);
+  return text === null ? null : `${DECISION_LINK_LABELS[link.type]}: ${text}`;
+};
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import {
+  getProjectStaleness,
+  normalizeStalenessThresholds,
+  summarizeUpdateCompliance,
+} from "./projectStaleness";
+
+const now = new Date("2026-03-31T12:00:00Z");
+const thresholds = { active: 14, on_hold: 60 };
+
+describe("getProjectStaleness", () => {
+  it("measures from the last meaningful update against the status threshold", () => {
+    expect(
+      getProjectStaleness(
+        {
+          status: "active",
+          last_meaningful_update_at: "2026-03-01T12:00:00Z",
+          updated_at: "2026-03-31T02:00:00Z",
+        },
+        thresholds,
+        now,
+      ),
+    ).toEqual({
+      lastUpdatedAt: "2026-03-01T12:00:00Z",
+      daysSinceUpdate: 30,
+      thresholdDays: 14,
+      isStale: true,
+    });
+    expect(
+      getProjectStaleness({ status: "on_hold", last_meaningful_update_at: "2026-03-01T12:00:00Z" }, thresholds, now)
+        .isStale,
+    ).toBe(false);
+  });
+
+  it("never marks statuses without a threshold as stale", () => {
+    const staleness = getProjectStaleness({ status: "completed", updated_at: "2025-01-01T00:00:00Z" }, thresholds, now);
+    expect(staleness.thresholdDays).toBeNull();
+    expect(staleness.isStale).toBe(false);
+  });
+});
+
+describe("normalizeStalenessThresholds", () => {
+  it("keeps whole positive days for known statuses", () => {
+    expect(normalizeStalenessThresholds({ active: "21", draft: 0, on_hold: 44.6, completed: 5 })).toEqual({
+      active: 21,
+      on_hold: 45,
+    });
+    expect(normalizeStalenessThresholds(null)).toEqual({});
+  });
+});
+
+describe("summarizeUpdateCompliance", () => {
+  it("groups tracked projects and lists the least compliant first", () => {
+    const projects = [
+      { status: "active", project_manager: "Ann", last_meaningful_update_at: "2026-03-30T00:00:00Z" },
+      { status: "active", project_manager: "Ann", last_meaningful_update_at: "2026-02-01T00:00:00Z" },
+      { status: "active", project_manager: "Bob", last_meaningful_update_at: "2026-03-29T00:00:00Z" },
+      { status: "completed", project_manager: "Bob", last_meaningful_update_at: "2025-01-01T00:00:00Z" },
+      { status: "active", project_manager: null, last_meaningful_update_at: "2025-01-01T00:00:00Z" },
+    ];
+
+    expect(summarizeUpdateCompliance(projects, thresholds, (p) => p.project_manager, now)).toEqual([
+      { name: "Ann", tracked: 2, stale: 1, complianceRate: 50, maxDaysSinceUpdate: 58 },
+      { name: "Bob", tracked: 1, stale: 0, complianceRate: 100, maxDaysSinceUpdate: 2 },
+    ]);
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * File: projectStaleness.ts
+ * Purpose: Stale-update detection. A project is stale when nobody has edited
+ * it for longer than the threshold for its status. Edits are measured from
+ * last_meaningful_update_at, which database triggers move only for changes
+ * made by people, not for derived fields such as durations and health colors;
+ * updated_at moves with any write. Thresholds live in
+ * project_staleness_settings.
+ */
+
+import { supabase } from "../supabase";
+import type { Json } from "@/types/supabase";
+
+/** Days without an update before a project in that status is stale */
+export type StalenessThresholds = Partial<Record<string, number>>;
+
+/** Keep in step with the column default in project_staleness_settings */
+export const DEFAULT_STALENESS_THRESHOLDS: StalenessThresholds = {
+  active: 14,
+  draft: 30,
+  on_hold: 60,
+};
+
+/** Statuses an administrator can give a threshold; the others never go stale */
+export const STALENESS_STATUS_LABELS: Record<string, string> = {
+  active: "Active",
+  on_hold: "On Hold",
+  draft: "Draft",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface StalenessFields {
+  status?: string | null;
+  last_meaningful_update_at?: string | null;
+  updated_at?: string | null;
+}
+
+export interface ProjectStaleness {
+  lastUpdatedAt: string | null;
+  daysSinceUpdate: number | null;
+  /** null when the project's status has no threshold */
+  thresholdDays: number | null;
+  isStale: boolean;
+}
+
+export interface UpdateComplianceRow {
+  name: string;
+  /** Projects whose status has a threshold */
+  tracked: number;
+  stale: number;
+  /** Share of tracked projects that are up to date, 0-100 */
+  complianceRate: number;
+  /** Longest time without an update among the tracked projects */
+  maxDaysSinceUpdate: number;
+}
+
+/** Keeps whole, positive day counts for known statuses; anything else is dropped */
+export const normalizeStalenessThresholds = (value: unknown): StalenessThresholds => {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return {};
+  const thresholds: StalenessThresholds = {};
+  for (const status of Object.keys(STALENESS_STATUS_LABELS)) {
+    const days = Number((value as Record<string, unknown>)[status]);
+    if (Number.isFinite(days) && days >= 1) {
+      thresholds[status] = Math.round(days);
+    }
+  }
+  return thresholds;
+};
+
+/**
+ * Staleness of one project. Rows loaded before the column existed fall back
+ * to updated_at.
+ */
+export const getProjectStaleness = (
+  project: StalenessFields,
+  thresholds: StalenessThresholds,
+  now: Date = new Date(),
+): ProjectStaleness => {
+  const lastUpdatedAt = project.last_meaningful_update_at || project.updated_at || null;
+  const lastTime = lastUpdatedAt ? new Date(lastUpdatedAt).getTime() : NaN;
+  const daysSinceUpdate = Number.isNaN(lastTime)
+    ? null
+    : Math.max(0, Math.floor((now.getTime() - lastTime) / DAY_MS));
+  const thresholdDays = (project.status && thresholds[project.status]) || null;
+
+  return {
+    lastUpdatedAt,
+    daysSinceUpdate,
+    thresholdDays,
+    isStale: thresholdDays !== null && daysSinceUpdate !== null && daysSinceUpdate > thresholdDays,
+  };
+};
+
+/**
+ * Update compliance grouped by project manager, department or any other key,
+ * least compliant first. Projects without a threshold for their status and
+ * projects without a group are left out.
+ */
+export const summarizeUpdateCompliance = <T extends StalenessFields>(
+  projects: T[],
+  thresholds: StalenessThresholds,
+  groupOf: (project: T) => string | null | undefined,
+  now: Date = new Date(),
+): UpdateComplianceRow[] => {
+  const groups = new Map<string, UpdateComplianceRow>();
+
+  for (const project of projects) {
+    const name = groupOf(project)?.trim();
+    if (!name) continue;
+    const staleness = getProjectStaleness(project, thresholds, now);
+    if (staleness.thresholdDays === null) continue;
+
+    const row = groups.get(name) || {
+      name,
+      tracked: 0,
+      stale: 0,
+      complianceRate: 100,
+      maxDaysSinceUpdate: 0,
+    };
+    row.tracked++;
+    if (staleness.isStale) row.stale++;
+    row.maxDaysSinceUpdate = Math.max(row.maxDaysSinceUpdate, staleness.daysSinceUpdate ?? 0);
+    groups.set(name, row);
+  }
+
+  return Array.from(groups.values())
+    .map((row) => ({
+      ...row,
+      complianceRate: Math.round(((row.tracked - row.stale) / row.tracked) * 100),
+    }))
+    .sort(
+      (a, b) =>
+        a.complianceRate - b.complianceRate ||
+        b.stale - a.stale ||
+        a.name.localeCompare(b.name),
+    );
+};
+
+export const projectStalenessService = {
+  async getThresholds(): Promise<StalenessThresholds> {
+    const { data, error } = await supabase
+      .from("project_staleness_settings")
+      .select("thresholds")
+      .maybeSingle();
+
+    if (error || !data) {
+      if (error) console.error("[PROJECT_STALENESS] Error loading thresholds:", error);
+      return DEFAULT_STALENESS_THRESHOLDS;
+    }
+    return normalizeStalenessThresholds(data.thresholds);
+  },
+
+  async saveThresholds(thresholds: StalenessThresholds, userId?: string): Promise<boolean> {
+    const { error } = await supabase
+      .from("project_staleness_settings")
+      .update({
+        thresholds: normalizeStalenessThresholds(thresholds) as unknown as Json,
+        updated_by: userId || null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", true);
+
+    if (error) {
+      console.error("[PROJECT_STALENESS] Error saving thresholds:", error);
+      return false;
+    }
+    return true;
+  },
+};
@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import { buildTemplateContent, instantiateTemplate } from "./projectTemplates";
+
+const project = {
+  calculated_start_date: "2026-03-02",
+  milestones: [
+    {
+      id: "m2",
+      date: "2026-04-01",
+      end_date: "2026-04-30",
+      milestone: "Build",
+      owner: "Dev Lead",
+      completion: 40,
+      status: "yellow",
+      weight: 5,
+      tasks: [
+        { description: "Backend", assignee: "Sam", date: "2026-04-06", duration_days: 10, completion: 50 },
+        { description: "Undated", assignee: "", date: null, duration_days: null },
+      ],
+    },
+    {
+      id: "m1",
+      date: "2026-03-02",
+      end_date: null,
+      milestone: "Kickoff",
+      owner: "PM",
+      completion: 100,
+      status: "green",
+      weight: 1,
+      tasks: [],
+    },
+    { id: "m3", date: null, milestone: "Unscheduled", tasks: [] },
+  ],
+  risks: [
+    { description: "Vendor delay", impact: "Go-live slips", probability: 3, impact_score: 4, owner: "PM", mitigation_plan: "Second vendor", status: "realized", trigger_date: "2026-04-15" },
+    { description: "  ", impact: "" },
+  ],
+  considerations: ["Change freeze in December", { description: "Training budget" }, ""],
+};
+
+describe("buildTemplateContent", () => {
+  it("stores milestone and task dates as offsets from the project start", () => {
+    const { milestones } = buildTemplateContent(project);
+    expect(milestones.map((m) => [m.milestone, m.offset_days, m.duration_days, m.weight])).toEqual([
+      ["Kickoff", 0, null, 1],
+      ["Build", 30, 29, 5],
+    ]);
+    expect(milestones[1].tasks).toEqual([
+      { description: "Backend", assignee: "Sam", offset_days: 35, duration_days: 10 },
+      { description: "Undated", assignee: "", offset_days: 30, duration_days: 1 },
+    ]);
+  });
+
+  it("keeps standard risks and considerations without project-specific state", () => {
+    const { risks, considerations } = buildTemplateContent(project);
+    expect(risks).toEqual([
+      { description: "Vendor delay", impact: "Go-live slips", probability: 3, impact_score: 4, owner: "PM", mitigation_plan: "Second vendor" },
+    ]);
+    expect(considerations).toEqual(["Change freeze in December", "Training budget"]);
+  });
+
+  it("falls back to the earliest milestone date when the start isn't calculated", () => {
+    const { milestones } = buildTemplateContent({ ...project, calculated_start_date: null });
+    expect(milestones[0].offset_days).toBe(0);
+    expect(milestones[1].offset_days).toBe(30);
+  });
+});
+
+describe("instantiateTemplate", () => {
+  it("re-dates a template from a new start date with fresh progress", () => {
+    const seeded = instantiateTemplate(buildTemplateContent(project), "2027-01-04");
+    expect(seeded.milestones.map((m) => [m.milestone, m.date, m.end_date, m.completion, m.status])).toEqual([
+      ["Kickoff", "2027-01-04", null, 0, "green"],
+      ["Build", "2027-02-03", "2027-03-04", 0, "green"],
+    ]);
+    expect(seeded.milestones[1].tasks[0]).toEqual({
+      description: "Backend",
+      assignee: "Sam",
+      date: "2027-02-08",
+      completion: 0,
+      duration_days: 10,
+    });
+  });
+
+  it("rejects an invalid start date", () => {
+    expect(() => instantiateTemplate({ milestones: [], risks: [], considerations: [] }, "soon")).toThrow();
+  });
+});
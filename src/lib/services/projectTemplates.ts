@@ -0,0 +1,291 @@
+/**
+ * File: projectTemplates.ts
+ * Purpose: Reusable project templates — a saved plan of milestones (with
+ * weights and tasks), standard risks and considerations whose dates are kept
+ * as day offsets from the project start — and turning a template back into
+ * dated project content for a chosen start date.
+ */
+
+import { supabase } from "../supabase";
+import { fromDayNumber, toDayNumber } from "./scheduleDependencies";
+
+export interface TemplateTask {
+  description: string;
+  assignee: string;
+  offset_days: number;
+  duration_days: number;
+}
+
+export interface TemplateMilestone {
+  milestone: string;
+  owner: string;
+  weight: number;
+  offset_days: number;
+  // Days from the milestone start to its end date; null for a single-day milestone
+  duration_days: number | null;
+  tasks: TemplateTask[];
+}
+
+export interface TemplateRisk {
+  description: string;
+  impact: string;
+  probability: number | null;
+  impact_score: number | null;
+  owner: string;
+  mitigation_plan: string;
+}
+
+export interface ProjectTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  department: string | null; // null = offered to every department
+  source_project_id: string | null;
+  milestones: TemplateMilestone[];
+  risks: TemplateRisk[];
+  considerations: string[];
+  created_by: string | null;
+  created_at: string;
+}
+
+export type TemplateContent = Pick<
+  ProjectTemplate,
+  "milestones" | "risks" | "considerations"
+>;
+
+interface TemplateSourceProject {
+  calculated_start_date?: string | null;
+  milestones?: any[];
+  risks?: any[];
+  considerations?: any[];
+}
+
+/**
+ * Dated project content produced from a template, shaped for
+ * projectService.createProject
+ */
+export interface InstantiatedTemplate {
+  milestones: Array<{
+    date: string;
+    end_date: string | null;
+    milestone: string;
+    owner: string;
+    completion: number;
+    status: "green";
+    weight: number;
+    tasks: Array<{
+      description: string;
+      assignee: string;
+      date: string;
+      completion: number;
+      duration_days: number;
+    }>;
+  }>;
+  risks: TemplateRisk[];
+  considerations: string[];
+}
+
+/**
+ * Normalize a project_templates row (content arrives as untyped JSON)
+ */
+export const toProjectTemplate = (row: any): ProjectTemplate => ({
+  id: row.id,
+  name: row.name || "",
+  description: row.description ?? null,
+  department: row.department || null,
+  source_project_id: row.source_project_id ?? null,
+  milestones: Array.isArray(row.milestones) ? row.milestones : [],
+  risks: Array.isArray(row.risks) ? row.risks : [],
+  considerations: Array.isArray(row.considerations) ? row.considerations : [],
+  created_by: row.created_by ?? null,
+  created_at: row.created_at,
+});
+
+/**
+ * The day offsets are measured from: the project's calculated start date, or
+ * the earliest milestone/task date when it hasn't been calculated yet
+ */
+const getTemplateOrigin = (project: TemplateSourceProject): number | null => {
+  const start = toDayNumber(project.calculated_start_date);
+  if (start !== null) return start;
+  const days = (project.milestones || [])
+    .flatMap((m) => [m.date, ...(m.tasks || []).map((t: any) => t.date)])
+    .map(toDayNumber)
+    .filter((d): d is number => d !== null);
+  return days.length ? Math.min(...days) : null;
+};
+
+/**
+ * Capture a project's plan as template content. Completion, statuses and
+ * risk trigger dates are project-specific and are not carried over;
+ * milestones without a date are skipped.
+ */
+export const buildTemplateContent = (
+  project: TemplateSourceProject,
+): TemplateContent => {
+  const origin = getTemplateOrigin(project) ?? 0;
+
+  const milestones = (project.milestones || [])
+    .filter((m) => toDayNumber(m.date) !== null)
+    .sort((a, b) => toDayNumber(a.date)! - toDayNumber(b.date)!)
+    .map((m): TemplateMilestone => {
+      const start = toDayNumber(m.date)!;
+      const end = toDayNumber(m.end_date);
+      return {
+        milestone: m.milestone || "",
+        owner: m.owner || "",
+        weight: m.weight || 3,
+        offset_days: start - origin,
+        duration_days: end !== null && end > start ? end - start : null,
+        tasks: (m.tasks || []).map((t: any) => {
+          const taskStart = toDayNumber(t.date);
+          return {
+            description: t.description || "",
+            assignee: t.assignee || "",
+            // Undated tasks start with their milestone
+            offset_days: (taskStart ?? start) - origin,
+            duration_days: t.duration_days || 1,
+          };
+        }),
+      };
+    });
+
+  const risks = (project.risks || [])
+    .filter((r) => r?.description?.trim())
+    .map(
+      (r): TemplateRisk => ({
+        description: r.description,
+        impact: r.impact || "",
+        probability: r.probability ?? null,
+        impact_score: r.impact_score ?? null,
+        owner: r.owner || "",
+        mitigation_plan: r.mitigation_plan || "",
+      }),
+    );
+
+  const considerations = (project.considerations || [])
+    .map((c) => (typeof c === "string" ? c : c?.description || ""))
+    .filter((c) => c.trim() !== "");
+
+  return { milestones, risks, considerations };
+};
+
+/**
+ * Turn template content into dated milestones, tasks, risks and
+ * considerations for a project starting on `startDate` (YYYY-MM-DD).
+ * Everything starts at 0% and green.
+ */
+export const instantiateTemplate = (
+  template: TemplateContent,
+  startDate: string,
+): InstantiatedTemplate => {
+  const origin = toDayNumber(startDate);
+  if (origin === null) {
+    throw new Error(`Invalid template start date: ${startDate}`);
+  }
+
+  return {
+    milestones: template.milestones.map((m) => {
+      const start = origin + m.offset_days;
+      return {
+        date: fromDayNumber(start),
+        end_date: m.duration_days ? fromDayNumber(start + m.duration_days) : null,
+        milestone: m.milestone,
+        owner: m.owner,
+        completion: 0,
+        status: "green" as const,
+        weight: m.weight,
+        tasks: (m.tasks || []).map((t) => ({
+          description: t.description,
+          assignee: t.assignee,
+          date: fromDayNumber(origin + t.offset_days),
+          completion: 0,
+          duration_days: t.duration_days,
+        })),
+      };
+    }),
+    risks: template.risks.map((r) => ({ ...r })),
+    considerations: [...template.considerations],
+  };
+};
+
+// Service for the template library
+export const projectTemplatesService = {
+  /**
+   * Templates offered to a department: organization-wide ones plus that
+   * department's. Without a department every template is returned.
+   */
+  async getTemplates(department?: string | null): Promise<ProjectTemplate[]> {
+    let query = supabase
+      .from("project_templates")
+      .select("*")
+      .order("name", { ascending: true });
+    if (department) {
+      query = query.or(`department.is.null,department.eq."${department}"`);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      console.error("[TEMPLATES] Error fetching project templates:", error);
+      return [];
+    }
+    return (data || []).map(toProjectTemplate);
+  },
+
+  async getTemplate(templateId: string): Promise<ProjectTemplate | null> {
+    const { data, error } = await supabase
+      .from("project_templates")
+      .select("*")
+      .eq("id", templateId)
+      .maybeSingle();
+
+    if (error) {
+      console.error("[TEMPLATES] Error fetching project template:", error);
+      return null;
+    }
+    return data ? toProjectTemplate(data) : null;
+  },
+
+  /**
+   * Save a project's milestones, tasks, risks and considerations as a
+   * template (admins only; enforced by RLS)
+   */
+  async saveProjectAsTemplate(
+    project: TemplateSourceProject & { id: string },
+    details: { name: string; description?: string | null; department?: string | null },
+  ): Promise<ProjectTemplate | null> {
+    const content = buildTemplateContent(project);
+    const { data, error } = await supabase
+      .from("project_templates")
+      .insert({
+        name: details.name.trim(),
+        description: details.description || null,
+        department: details.department || null,
+        source_project_id: project.id,
+        milestones: content.milestones as any,
+        risks: content.risks as any,
+        considerations: content.considerations as any,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error("[TEMPLATES] Failed to save project template:", error);
+      return null;
+    }
+    return toProjectTemplate(data);
+  },
+
+  async deleteTemplate(templateId: string): Promise<boolean> {
+    const { error } = await supabase
+      .from("project_templates")
+      .delete()
+      .eq("id", templateId);
+
+    if (error) {
+      console.error("[TEMPLATES] Failed to delete project template:", error);
+      return false;
+    }
+    return true;
+  },
+};
@@ -0,0 +1,24 @@
+import { describe, it, expect } from "vitest";
+import { daysUntilPurge, getPurgeDate } from "./projectTrash";
+
+describe("getPurgeDate", () => {
+  it("adds the purge window to the deletion time", () => {
+    expect(getPurgeDate("2026-10-01T09:00:00.000Z", 30).toISOString()).toBe(
+      "2026-10-31T09:00:00.000Z",
+    );
+  });
+});
+
+describe("daysUntilPurge", () => {
+  const deletedAt = "2026-10-01T09:00:00.000Z";
+
+  it("counts part days as a whole day left", () => {
+    expect(daysUntilPurge(deletedAt, 30, new Date("2026-10-01T09:00:00.000Z"))).toBe(30);
+    expect(daysUntilPurge(deletedAt, 30, new Date("2026-10-30T10:00:00.000Z"))).toBe(1);
+  });
+
+  it("is zero once the project is due for purging", () => {
+    expect(daysUntilPurge(deletedAt, 30, new Date("2026-10-31T09:00:00.000Z"))).toBe(0);
+    expect(daysUntilPurge(deletedAt, 7, new Date("2026-12-01T00:00:00.000Z"))).toBe(0);
+  });
+});
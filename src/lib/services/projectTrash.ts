@@ -0,0 +1,144 @@
+/**
+ * File: projectTrash.ts
+ * Purpose: The project trash. Deleted projects keep all of their relations and
+ * versions and are only stamped with deleted_at / deleted_by, so they can be
+ * restored until the admin-configured purge window runs out and
+ * purge_deleted_projects() removes them for good.
+ */
+
+import { supabase } from "../supabase";
+
+export const DEFAULT_PURGE_AFTER_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TrashedProject {
+  id: string;
+  title: string;
+  department: string | null;
+  project_manager: string;
+  owner_id: string | null;
+  deleted_at: string;
+  deleted_by: string | null;
+  deleted_by_name: string | null;
+}
+
+export interface ProjectTrashSettings {
+  purge_after_days: number;
+  updated_at: string | null;
+  updated_by: string | null;
+}
+
+/**
+ * When a trashed project becomes due for permanent deletion
+ */
+export const getPurgeDate = (deletedAt: string, purgeAfterDays: number): Date =>
+  new Date(new Date(deletedAt).getTime() + purgeAfterDays * DAY_MS);
+
+/**
+ * Whole days left before a trashed project is purged; 0 once it is due
+ */
+export const daysUntilPurge = (
+  deletedAt: string,
+  purgeAfterDays: number,
+  now: Date = new Date(),
+): number => {
+  const remaining = getPurgeDate(deletedAt, purgeAfterDays).getTime() - now.getTime();
+  return Math.max(0, Math.ceil(remaining / DAY_MS));
+};
+
+// Service for listing trashed projects and managing the purge window
+export const projectTrashService = {
+  /**
+   * Trashed projects, most recently deleted first. Admins see the whole trash;
+   * everyone else sees the projects they own or deleted themselves.
+   */
+  async getTrashedProjects(options: {
+    userId: string;
+    isAdmin: boolean;
+  }): Promise<TrashedProject[]> {
+    let query = supabase
+      .from("projects")
+      .select("id, title, department, project_manager, owner_id, deleted_at, deleted_by")
+      .not("deleted_at", "is", null)
+      .order("deleted_at", { ascending: false });
+
+    if (!options.isAdmin) {
+      query = query.or(`owner_id.eq.${options.userId},deleted_by.eq.${options.userId}`);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      console.error("[PROJECT_TRASH] Error fetching trashed projects:", error);
+      return [];
+    }
+
+    const projects = data || [];
+    const deleterIds = Array.from(
+      new Set(projects.map((p) => p.deleted_by).filter((id): id is string => !!id)),
+    );
+    const names = new Map<string, string>();
+    if (deleterIds.length > 0) {
+      const { data: profiles } = await supabase
+        .from("profiles")
+        .select("id, full_name, email")
+        .in("id", deleterIds);
+      (profiles || []).forEach((p) => names.set(p.id, p.full_name || p.email || ""));
+    }
+
+    return projects.map((p) => ({
+      ...p,
+      deleted_at: p.deleted_at as string,
+      deleted_by_name: p.deleted_by ? names.get(p.deleted_by) || null : null,
+    }));
+  },
+
+  async getSettings(): Promise<ProjectTrashSettings> {
+    const { data, error } = await supabase
+      .from("project_trash_settings")
+      .select("purge_after_days, updated_at, updated_by")
+      .maybeSingle();
+
+    if (error || !data) {
+      if (error) {
+        console.error("[PROJECT_TRASH] Error fetching trash settings:", error);
+      }
+      return {
+        purge_after_days: DEFAULT_PURGE_AFTER_DAYS,
+        updated_at: null,
+        updated_by: null,
+      };
+    }
+    return data;
+  },
+
+  async updatePurgeAfterDays(days: number, userId: string): Promise<boolean> {
+    const { error } = await supabase
+      .from("project_trash_settings")
+      .update({
+        purge_after_days: days,
+        updated_by: userId,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", true);
+
+    if (error) {
+      console.error("[PROJECT_TRASH] Failed to update purge window:", error);
+      return false;
+    }
+    return true;
+  },
+
+  /**
+   * Permanently delete every project past the purge window (admin only).
+   * Returns the number purged, or null on failure.
+   */
+  async purgeExpired(): Promise<number | null> {
+    const { data, error } = await supabase.rpc("purge_deleted_projects");
+    if (error) {
+      console.error("[PROJECT_TRASH] Failed to purge trash:", error);
+      return null;
+    }
+    return data ?? 0;
+  },
+};
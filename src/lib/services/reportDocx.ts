@@ -5,7 +5,8 @@ import {
 import type { ReportModel, RichTextBlock } from "@/types/report";
 import { BRAND, STATUS_COLOR_HEX, MILESTONE_STATUS_TEXT, milestoneStatusColor, isMilestoneComplete } from "@/lib/report/branding";
 import { listOrdinals } from "@/lib/report/richText";
-import { formatCurrency, formatPercent, statusLabel } from "@/lib/report/format";
+import { formatCurrency, formatPercent, statusLabel, riskMetaLine, baselineVarianceLine, changeRequestMetaLine, issueMetaLine, decisionMetaLine } from "@/lib/report/format";
+import { RISK_EXPOSURE_HEX, getRiskExposureLevel } from "@/lib/services/riskRegister";
 
 const BLUE = BRAND.colors.primary.replace("#", "");
 const HEADER_BAND = BRAND.colors.headerBand.replace("#", "");
@@ -57,6 +58,24 @@ function cell(text: string, opts: { bold?: boolean; color?: string; width?: numb
   });
 }
 
+// Probability × impact grid: impact 5 at the top, probability 1–5 left to right,
+// cells shaded by exposure band and labelled with the number of active risks.
+function riskHeatMapTable(grid: number[][]): Table {
+  const axis = (text: string) => cell(text, { color: "6B7280", width: 10 });
+  const rows = [5, 4, 3, 2, 1].map((impact) => new TableRow({
+    children: [
+      axis(`Impact ${impact}`),
+      ...[1, 2, 3, 4, 5].map((probability) => {
+        const count = grid[impact - 1][probability - 1];
+        const level = getRiskExposureLevel(probability * impact);
+        return cell(count > 0 ? String(count) : "", { bold: true, width: 18, fill: level ? RISK_EXPOSURE_HEX[level] : undefined });
+      }),
+    ],
+  }));
+  rows.push(new TableRow({ children: [axis(""), ...[1, 2, 3, 4, 5].map((p) => axis(`Prob. ${p}`))] }));
+  return new Table({ width: { size: 60, type: WidthType.PERCENTAGE }, rows });
+}
+
 // Column widths (percent) shared by the milestone header + body rows.
 const MS_COLS = { item: 42, owner: 20, due: 16, pct: 8, status: 14 };
 
@@ -92,6 +111,12 @@ export async function generateDocx(model: ReportModel): Promise<Blob> {
     new TextRun({ text: `PM: ${header.projectManager}  ·  Sponsors: ${header.sponsors}  ·  Leads: ${header.businessLeads}` }),
   ] }));
   children.push(new Paragraph({ children: [new TextRun({ text: `Dates: ${header.startDate || "—"} → ${header.endDate || "—"}  ·  Budget: ${formatCurrency(header.budgetTotal)}  ·  Generated: ${header.generatedOn}`, color: "6B7280" })] }));
+  if (header.baseline) {
+    children.push(new Paragraph({ children: [new TextRun({ text: `Vs. baseline: ${baselineVarianceLine(header.baseline)}`, color: "6B7280" })] }));
+  }
+  if (header.healthOverride) {
+    children.push(new Paragraph({ children: [new TextRun({ text: header.healthOverride, italics: true, color: "6B7280" })] }));
+  }
 
   for (const key of enabledOrder) {
     if (key === "description") {
@@ -169,7 +194,29 @@ export async function generateDocx(model: ReportModel): Promise<Blob> {
     } else if (key === "risks") {
       children.push(heading("Risks"));
       if (!sections.risks?.length) children.push(new Paragraph({ children: [new TextRun({ text: "None recorded", italics: true, color: "9CA3AF" })] }));
-      sections.risks?.forEach((r) => children.push(new Paragraph({ children: [new TextRun({ text: r.description, bold: true }), new TextRun({ text: ` — ${r.impact}` })] })));
+      if (sections.riskHeatMap) children.push(riskHeatMapTable(sections.riskHeatMap), new Paragraph({ spacing: { after: 80 }, children: [] }));
+      sections.risks?.forEach((r) => {
+        children.push(new Paragraph({ children: [new TextRun({ text: r.description, bold: true }), new TextRun({ text: ` — ${r.impact}` })] }));
+        children.push(new Paragraph({ children: [new TextRun({ text: riskMetaLine(r), size: 18, color: "6B7280" })] }));
+        if (r.mitigationPlan) children.push(new Paragraph({ children: [new TextRun({ text: `Mitigation: ${r.mitigationPlan}`, size: 18, color: "6B7280" })] }));
+      });
+    } else if (key === "issues") {
+      children.push(heading("Issue Log"));
+      if (!sections.issues?.length) children.push(new Paragraph({ children: [new TextRun({ text: "None recorded", italics: true, color: "9CA3AF" })] }));
+      sections.issues?.forEach((i) => {
+        children.push(new Paragraph({ children: [new TextRun({ text: i.description, bold: true })] }));
+        children.push(new Paragraph({ children: [new TextRun({ text: issueMetaLine(i), size: 18, color: "6B7280" })] }));
+        if (i.resolution) children.push(new Paragraph({ children: [new TextRun({ text: `Resolution: ${i.resolution}`, size: 18, color: "6B7280" })] }));
+      });
+    } else if (key === "decisions") {
+      children.push(heading("Decision Log"));
+      if (!sections.decisions?.length) children.push(new Paragraph({ children: [new TextRun({ text: "None recorded", italics: true, color: "9CA3AF" })] }));
+      sections.decisions?.forEach((d) => {
+        children.push(new Paragraph({ children: [new TextRun({ text: d.decision, bold: true })] }));
+        const meta = decisionMetaLine(d);
+        if (meta) children.push(new Paragraph({ children: [new TextRun({ text: meta, size: 18, color: "6B7280" })] }));
+        if (d.rationale) children.push(new Paragraph({ children: [new TextRun({ text: `Rationale: ${d.rationale}`, size: 18, color: "6B7280" })] }));
+      });
     } else if (key === "considerations") {
       children.push(heading("Considerations"));
       if (!sections.considerations?.length) children.push(new Paragraph({ children: [new TextRun({ text: "None recorded", italics: true, color: "9CA3AF" })] }));
@@ -177,7 +224,12 @@ export async function generateDocx(model: ReportModel): Promise<Blob> {
     } else if (key === "changes") {
       children.push(heading("Changes"));
       if (!sections.changes?.length) children.push(new Paragraph({ children: [new TextRun({ text: "None recorded", italics: true, color: "9CA3AF" })] }));
-      sections.changes?.forEach((c) => children.push(new Paragraph({ children: [new TextRun({ text: `${c.change} — ${c.impact} (${c.disposition})` })] })));
+      sections.changes?.forEach((c) => {
+        children.push(new Paragraph({ children: [new TextRun({ text: `${c.change} — ${c.impact} (${c.disposition})` })] }));
+        const meta = changeRequestMetaLine(c);
+        if (meta) children.push(new Paragraph({ children: [new TextRun({ text: meta, size: 18, color: "6B7280" })] }));
+        if (c.decisionComment) children.push(new Paragraph({ children: [new TextRun({ text: `Decision: ${c.decisionComment}`, size: 18, color: "6B7280" })] }));
+      });
     } else if (key === "budget") {
       children.push(heading("Budget"));
       children.push(new Table({
@@ -15,7 +15,8 @@ import {
   isMilestoneComplete,
 } from "@/lib/report/branding";
 import { listOrdinals } from "@/lib/report/richText";
-import { formatCurrency, formatPercent, statusLabel } from "@/lib/report/format";
+import { formatCurrency, formatPercent, statusLabel, riskMetaLine, baselineVarianceLine, changeRequestMetaLine, issueMetaLine, decisionMetaLine } from "@/lib/report/format";
+import { RISK_EXPOSURE_HEX, getRiskExposureLevel } from "@/lib/services/riskRegister";
 
 export interface EmailParts {
   subject: string;
@@ -52,6 +53,27 @@ function heading(text: string): string {
   return `${vspace(16)}<div style="font-size:15px;font-weight:bold;color:${C.primary};border-bottom:2px solid ${C.primary};padding-bottom:3px;">${esc(text)}</div>${vspace(10)}`;
 }
 
+// Probability × impact grid as a plain table (impact 5 on top), cells shaded by
+// exposure band and labelled with the number of active risks.
+function riskHeatMapHtml(grid: number[][]): string {
+  const axis = (text: string) => `<td style="font-size:10px;color:${C.muted};padding:2px 6px;text-align:center;">${text}</td>`;
+  const rows = [5, 4, 3, 2, 1]
+    .map((impact) => {
+      const cells = [1, 2, 3, 4, 5]
+        .map((probability) => {
+          const count = grid[impact - 1][probability - 1];
+          const level = getRiskExposureLevel(probability * impact);
+          const fill = level ? `#${RISK_EXPOSURE_HEX[level]}` : "#FFFFFF";
+          return `<td style="width:28px;height:22px;border:1px solid #E5E7EB;background:${fill};font-size:12px;font-weight:bold;text-align:center;">${count > 0 ? count : ""}</td>`;
+        })
+        .join("");
+      return `<tr>${axis(`Impact ${impact}`)}${cells}</tr>`;
+    })
+    .join("");
+  const footer = `<tr>${axis("")}${[1, 2, 3, 4, 5].map((p) => axis(`P${p}`)).join("")}</tr>`;
+  return `<table role="presentation" cellpadding="0" cellspacing="0" style="border-collapse:collapse;">${rows}${footer}</table>`;
+}
+
 function spansToHtml(spans: RichTextSpan[]): string {
   return spans
     .map((sp) => {
@@ -193,8 +215,46 @@ function sectionHtml(key: string, model: ReportModel): string {
       if (!risks.length) return heading("Risks") + none();
       return (
         heading("Risks") +
+        (s.riskHeatMap ? riskHeatMapHtml(s.riskHeatMap) + vspace(8) : "") +
         risks
-          .map((r) => `<div style="font-size:13px;margin:2px 0;"><strong>${esc(r.description)}</strong> &mdash; <span style="color:#4B5563;">${esc(r.impact)}</span></div>`)
+          .map((r) => {
+            const mitigation = r.mitigationPlan
+              ? `<div style="font-size:11px;color:${C.muted};">Mitigation: ${esc(r.mitigationPlan)}</div>`
+              : "";
+            return `<div style="font-size:13px;margin:2px 0;"><strong>${esc(r.description)}</strong> &mdash; <span style="color:#4B5563;">${esc(r.impact)}</span><div style="font-size:11px;color:${C.muted};">${esc(riskMetaLine(r))}</div>${mitigation}</div>`;
+          })
+          .join("")
+      );
+    }
+    case "issues": {
+      const issues = s.issues || [];
+      if (!issues.length) return heading("Issue Log") + none();
+      return (
+        heading("Issue Log") +
+        issues
+          .map((i) => {
+            const resolution = i.resolution
+              ? `<div style="font-size:11px;color:${C.muted};">Resolution: ${esc(i.resolution)}</div>`
+              : "";
+            return `<div style="font-size:13px;margin:2px 0;"><strong>${esc(i.description)}</strong><div style="font-size:11px;color:${C.muted};">${esc(issueMetaLine(i))}</div>${resolution}</div>`;
+          })
+          .join("")
+      );
+    }
+    case "decisions": {
+      const decisions = s.decisions || [];
+      if (!decisions.length) return heading("Decision Log") + none();
+      return (
+        heading("Decision Log") +
+        decisions
+          .map((d) => {
+            const meta = decisionMetaLine(d);
+            const summary = meta ? `<div style="font-size:11px;color:${C.muted};">${esc(meta)}</div>` : "";
+            const rationale = d.rationale
+              ? `<div style="font-size:11px;color:${C.muted};">Rationale: ${esc(d.rationale)}</div>`
+              : "";
+            return `<div style="font-size:13px;margin:2px 0;"><strong>${esc(d.decision)}</strong>${summary}${rationale}</div>`;
+          })
           .join("")
       );
     }
@@ -209,7 +269,14 @@ function sectionHtml(key: string, model: ReportModel): string {
       return (
         heading("Changes") +
         changes
-          .map((c) => `<div style="font-size:13px;margin:2px 0;">${esc(c.change)} &mdash; <span style="color:#4B5563;">${esc(c.impact)}</span> <span style="color:#9CA3AF;">(${esc(c.disposition)})</span></div>`)
+          .map((c) => {
+            const meta = changeRequestMetaLine(c);
+            const history = meta ? `<div style="font-size:11px;color:${C.muted};">${esc(meta)}</div>` : "";
+            const decision = c.decisionComment
+              ? `<div style="font-size:11px;color:${C.muted};">Decision: ${esc(c.decisionComment)}</div>`
+              : "";
+            return `<div style="font-size:13px;margin:2px 0;">${esc(c.change)} &mdash; <span style="color:#4B5563;">${esc(c.impact)}</span> <span style="color:#9CA3AF;">(${esc(c.disposition)})</span>${history}${decision}</div>`;
+          })
           .join("")
       );
     }
@@ -225,7 +292,7 @@ export function buildReportEmail(model: ReportModel): EmailParts {
 
   // Health box uses a filled tinted background only — no 1px border, since
   // Outlook clips the left outline of the leftmost bordered element.
-  const meta = `<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="border-collapse:collapse;margin-top:10px;"><tr><td valign="top" style="width:130px;padding-right:14px;"><table role="presentation" cellpadding="0" cellspacing="0" style="background:${statusBg};border-radius:6px;"><tr><td style="padding:10px 18px;text-align:center;"><div style="font-size:24px;font-weight:bold;color:${statusHex};">${formatPercent(header.healthPercentage)}</div><div style="font-size:11px;color:${statusHex};">${STATUS_COLOR_LABEL[header.statusColor]}</div></td></tr></table></td><td valign="top"><table role="presentation" cellpadding="0" cellspacing="0" width="100%" style="font-size:13px;color:#1F2937;"><tr><td style="padding:1px 12px 1px 0;"><span style="color:${C.muted};">PM:</span> ${esc(header.projectManager)}</td><td style="padding:1px 0;"><span style="color:${C.muted};">Sponsors:</span> ${esc(header.sponsors)}</td></tr><tr><td style="padding:1px 12px 1px 0;"><span style="color:${C.muted};">Business Leads:</span> ${esc(header.businessLeads)}</td><td style="padding:1px 0;"><span style="color:${C.muted};">Dates:</span> ${esc(header.startDate || "—")} &rarr; ${esc(header.endDate || "—")}</td></tr><tr><td style="padding:1px 12px 1px 0;"><span style="color:${C.muted};">Budget:</span> ${esc(formatCurrency(header.budgetTotal))}</td><td style="padding:1px 0;"><span style="color:${C.muted};">Generated:</span> ${esc(header.generatedOn)}</td></tr></table></td></tr></table>`;
+  const meta = `<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="border-collapse:collapse;margin-top:10px;"><tr><td valign="top" style="width:130px;padding-right:14px;"><table role="presentation" cellpadding="0" cellspacing="0" style="background:${statusBg};border-radius:6px;"><tr><td style="padding:10px 18px;text-align:center;"><div style="font-size:24px;font-weight:bold;color:${statusHex};">${formatPercent(header.healthPercentage)}</div><div style="font-size:11px;color:${statusHex};">${STATUS_COLOR_LABEL[header.statusColor]}</div></td></tr></table></td><td valign="top"><table role="presentation" cellpadding="0" cellspacing="0" width="100%" style="font-size:13px;color:#1F2937;"><tr><td style="padding:1px 12px 1px 0;"><span style="color:${C.muted};">PM:</span> ${esc(header.projectManager)}</td><td style="padding:1px 0;"><span style="color:${C.muted};">Sponsors:</span> ${esc(header.sponsors)}</td></tr><tr><td style="padding:1px 12px 1px 0;"><span style="color:${C.muted};">Business Leads:</span> ${esc(header.businessLeads)}</td><td style="padding:1px 0;"><span style="color:${C.muted};">Dates:</span> ${esc(header.startDate || "—")} &rarr; ${esc(header.endDate || "—")}</td></tr><tr><td style="padding:1px 12px 1px 0;"><span style="color:${C.muted};">Budget:</span> ${esc(formatCurrency(header.budgetTotal))}</td><td style="padding:1px 0;"><span style="color:${C.muted};">Generated:</span> ${esc(header.generatedOn)}</td></tr>${header.baseline ? `<tr><td colspan="2" style="padding:1px 0;"><span style="color:${C.muted};">Vs. baseline:</span> ${esc(baselineVarianceLine(header.baseline))}</td></tr>` : ""}${header.healthOverride ? `<tr><td colspan="2" style="padding:1px 0;font-style:italic;">${esc(header.healthOverride)}</td></tr>` : ""}</table></td></tr></table>`;
 
   const body = enabledOrder.map((key) => sectionHtml(key, model)).join("");
 
@@ -241,6 +308,8 @@ export function buildReportEmail(model: ReportModel): EmailParts {
     `Health: ${formatPercent(header.healthPercentage)} (${STATUS_COLOR_LABEL[header.statusColor]})`,
     `PM: ${header.projectManager} | Sponsors: ${header.sponsors} | Business Leads: ${header.businessLeads}`,
     `Dates: ${header.startDate || "—"} → ${header.endDate || "—"} | Budget: ${formatCurrency(header.budgetTotal)}`,
+    ...(header.baseline ? [`Vs. baseline: ${baselineVarianceLine(header.baseline)}`] : []),
+    ...(header.healthOverride ? [header.healthOverride] : []),
     `Generated: ${header.generatedOn}`,
     "",
     "(This report is formatted. Paste it into an HTML email with Ctrl+V to see the full styled version.)",
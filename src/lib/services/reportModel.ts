@@ -5,6 +5,28 @@ import {
 } from "@/lib/services/project";
 import { parseRichText, richTextToPlainText } from "@/lib/report/richText";
 import { milestoneStatusColor } from "@/lib/report/branding";
+import {
+  RISK_STATUS_LABELS,
+  buildRiskHeatMap,
+  calculateRiskExposure,
+  getRiskExposureLevel,
+  toRiskRegisterFields,
+} from "@/lib/services/riskRegister";
+import { calculateBaselineVariance } from "@/lib/services/projectBaselines";
+import { describeHealthOverride } from "@/lib/services/healthOverrides";
+import {
+  ISSUE_ESCALATION_LABELS,
+  ISSUE_SEVERITY_LABELS,
+  ISSUE_STATUS_LABELS,
+  describeDecisionLink,
+  sortIssues,
+  toDecisionFields,
+  toIssueFields,
+} from "@/lib/services/projectLogs";
+import {
+  CHANGE_REQUEST_STATUS_LABELS,
+  toChangeRequestFields,
+} from "@/lib/services/changeRequests";
 import {
   DEFAULT_SECTION_ORDER,
   type ReportGantt,
@@ -169,6 +191,9 @@ export function buildReportModel(
   const milestones = project.milestones || [];
   const healthPercentage = calculateWeightedCompletion(milestones);
   const statusColor = calculateProjectHealthStatusColor(project, milestones);
+  const baselineVariance = project.baseline
+    ? calculateBaselineVariance(project, project.baseline)
+    : null;
 
   const header: ReportModel["header"] = {
     title: richTextToPlainText(project.title) || "Untitled Project",
@@ -184,6 +209,16 @@ export function buildReportModel(
     budgetTotal: project.budget_total ?? null,
     budgetActuals: project.budget_actuals ?? null,
     budgetForecast: project.budget_forecast ?? null,
+    baseline: baselineVariance
+      ? {
+          name: baselineVariance.baselineName,
+          endDate: fmtDate(baselineVariance.baselineFinish),
+          finishVarianceDays: baselineVariance.finishVarianceDays,
+          scheduleVariancePercent: baselineVariance.scheduleVariancePercent,
+          budgetVariance: baselineVariance.budgetVariance,
+        }
+      : null,
+    healthOverride: describeHealthOverride(project),
     generatedOn: new Date().toLocaleDateString("en-US", {
       year: "numeric",
       month: "long",
@@ -259,10 +294,63 @@ export function buildReportModel(
     }));
   }
   if (options.sections.risks) {
-    sections.risks = (project.risks || []).map((r: any) => ({
-      description: richTextToPlainText(r.description) || "—",
-      impact: richTextToPlainText(r.impact) || "—",
-    }));
+    const risks = project.risks || [];
+    const registers = risks.map((r: any) => toRiskRegisterFields(r));
+    sections.risks = risks
+      .map((r: any, i) => {
+        const reg = registers[i];
+        const exposure = calculateRiskExposure(reg.probability, reg.impact_score);
+        const realizedBy = reg.realized_change_id
+          ? (project.changes || []).find((c) => c.id === reg.realized_change_id)
+          : undefined;
+        return {
+          description: richTextToPlainText(r.description) || "—",
+          impact: richTextToPlainText(r.impact) || "—",
+          probability: reg.probability,
+          impactScore: reg.impact_score,
+          exposure,
+          exposureLevel: getRiskExposureLevel(exposure),
+          owner: reg.owner || "—",
+          mitigationPlan: richTextToPlainText(reg.mitigation_plan),
+          triggerDate: fmtDate(reg.trigger_date),
+          status: RISK_STATUS_LABELS[reg.status],
+          realizedBy: realizedBy ? richTextToPlainText(realizedBy.change) || null : null,
+        };
+      })
+      // Highest exposure first; unscored risks keep their order at the end.
+      .sort((a, b) => (b.exposure ?? 0) - (a.exposure ?? 0));
+    if (registers.some((r) => r.probability !== null && r.impact_score !== null)) {
+      sections.riskHeatMap = buildRiskHeatMap(registers);
+    }
+  }
+  if (options.sections.issues) {
+    sections.issues = sortIssues(project.issues || []).map((i) => {
+      const fields = toIssueFields(i);
+      return {
+        description: richTextToPlainText(fields.description) || "—",
+        severity: ISSUE_SEVERITY_LABELS[fields.severity],
+        severityLevel: fields.severity,
+        owner: fields.owner || "—",
+        dueDate: fmtDate(fields.due_date),
+        escalation: ISSUE_ESCALATION_LABELS[fields.escalation_level],
+        status: ISSUE_STATUS_LABELS[fields.status],
+        resolution: richTextToPlainText(fields.resolution),
+      };
+    });
+  }
+  if (options.sections.decisions) {
+    sections.decisions = (project.decisions || []).map((d) => {
+      const fields = toDecisionFields(d);
+      return {
+        decision: richTextToPlainText(fields.decision) || "—",
+        date: fmtDate(fields.decision_date),
+        decidedBy: fields.decided_by || "—",
+        rationale: richTextToPlainText(fields.rationale),
+        linkedItems: fields.linked_items
+          .map((link) => describeDecisionLink(link, project))
+          .filter((label): label is string => !!label),
+      };
+    });
   }
   if (options.sections.considerations) {
     sections.considerations = (project.considerations || [])
@@ -270,11 +358,29 @@ export function buildReportModel(
       .filter((c) => c.length > 0);
   }
   if (options.sections.changes) {
-    sections.changes = (project.changes || []).map((c) => ({
-      change: richTextToPlainText(c.change) || "—",
-      impact: richTextToPlainText(c.impact) || "—",
-      disposition: richTextToPlainText(c.disposition) || "—",
-    }));
+    const milestoneNames = new Map(
+      (project.milestones || []).map((m) => [m.id, richTextToPlainText(m.milestone) || "Untitled"]),
+    );
+    sections.changes = (project.changes || []).map((c) => {
+      const cr = toChangeRequestFields(c);
+      return {
+        change: richTextToPlainText(c.change) || "—",
+        impact: richTextToPlainText(c.impact) || "—",
+        disposition: richTextToPlainText(c.disposition) || "—",
+        status: CHANGE_REQUEST_STATUS_LABELS[cr.status],
+        requestedBy: cr.requested_by || null,
+        budgetDelta: cr.budget_delta,
+        scheduleDeltaDays: cr.schedule_delta_days,
+        affectedMilestones: cr.affected_milestone_ids
+          .map((id) => milestoneNames.get(id))
+          .filter((name): name is string => !!name),
+        submittedAt: fmtDate(cr.submitted_at),
+        decidedBy: cr.decided_by_name,
+        decidedAt: fmtDate(cr.decided_at),
+        decisionComment: cr.decision_comment,
+        implementedAt: fmtDate(cr.implemented_at),
+      };
+    });
   }
   if (options.sections.budget) {
     sections.budget = {
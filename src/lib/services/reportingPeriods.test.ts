@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import {
+  canReviewStatusReports,
+  formatReportingPeriod,
+  getLatestApprovedReport,
+  getLivePeriodReport,
+  getReportingPeriod,
+  type StatusReport,
+} from "./reportingPeriods";
+
+describe("getReportingPeriod", () => {
+  it("uses Monday to Sunday weeks", () => {
+    expect(getReportingPeriod("2026-03-04", "weekly")).toEqual({
+      cadence: "weekly",
+      start: "2026-03-02",
+      end: "2026-03-08",
+    });
+    expect(getReportingPeriod("2026-03-08", "weekly").start).toBe("2026-03-02");
+    expect(getReportingPeriod("2026-03-09", "weekly").start).toBe("2026-03-09");
+  });
+
+  it("counts biweekly periods from the shared anchor, before and after it", () => {
+    expect(getReportingPeriod("2026-01-18", "biweekly")).toEqual({
+      cadence: "biweekly",
+      start: "2026-01-05",
+      end: "2026-01-18",
+    });
+    expect(getReportingPeriod("2026-01-19", "biweekly").start).toBe("2026-01-19");
+    expect(getReportingPeriod("2025-12-31", "biweekly")).toMatchObject({
+      start: "2025-12-22",
+      end: "2026-01-04",
+    });
+  });
+
+  it("uses calendar months, including year ends and leap years", () => {
+    expect(getReportingPeriod("2028-02-10", "monthly")).toEqual({
+      cadence: "monthly",
+      start: "2028-02-01",
+      end: "2028-02-29",
+    });
+    expect(getReportingPeriod("2026-12-31", "monthly")).toMatchObject({
+      start: "2026-12-01",
+      end: "2026-12-31",
+    });
+  });
+
+  it("rejects invalid dates", () => {
+    expect(() => getReportingPeriod("soon", "weekly")).toThrow();
+  });
+});
+
+describe("formatReportingPeriod", () => {
+  it("labels weeks by range and months by name", () => {
+    expect(formatReportingPeriod({ cadence: "weekly", start: "2026-03-02", end: "2026-03-08" })).toBe(
+      "Mar 2 – Mar 8, 2026",
+    );
+    expect(formatReportingPeriod({ cadence: "monthly", start: "2026-03-01", end: "2026-03-31" })).toBe(
+      "March 2026",
+    );
+  });
+});
+
+describe("getLivePeriodReport", () => {
+  const report = (id: string, period_start: string, approval_status: StatusReport["approval_status"]) =>
+    ({ id, period_start, approval_status }) as StatusReport;
+
+  it("skips returned reports for the period", () => {
+    const reports = [
+      report("r3", "2026-03-09", "approved"),
+      report("r2", "2026-03-02", "pending"),
+      report("r1", "2026-03-02", "returned"),
+    ];
+    expect(getLivePeriodReport(reports, "2026-03-02")?.id).toBe("r2");
+    expect(getLivePeriodReport(reports.slice(2), "2026-03-02")).toBeNull();
+  });
+
+  it("finds the newest approved report across periods", () => {
+    const reports = [
+      report("r4", "2026-03-16", "pending"),
+      report("r3", "2026-03-09", "approved"),
+      report("r2", "2026-03-02", "approved"),
+    ];
+    expect(getLatestApprovedReport(reports)?.id).toBe("r3");
+    expect(getLatestApprovedReport(reports.slice(0, 1))).toBeNull();
+  });
+});
+
+describe("canReviewStatusReports", () => {
+  it("allows admins and the director of the project's department", () => {
+    expect(canReviewStatusReports({ role: "admin", department: null }, "Finance")).toBe(true);
+    expect(canReviewStatusReports({ role: "department_director", department: "Finance" }, "Finance")).toBe(true);
+  });
+
+  it("rejects other directors, PMs and projects without a department", () => {
+    expect(canReviewStatusReports({ role: "department_director", department: "IT" }, "Finance")).toBe(false);
+    expect(canReviewStatusReports({ role: "department_director", department: "IT" }, null)).toBe(false);
+    expect(canReviewStatusReports({ role: "project_manager", department: "Finance" }, "Finance")).toBe(false);
+    expect(canReviewStatusReports(null, "Finance")).toBe(false);
+  });
+});
@@ -0,0 +1,357 @@
+/**
+ * File: reportingPeriods.ts
+ * Purpose: Formal status reporting periods. Each department reports weekly,
+ * biweekly or monthly; submitting a project's status for a period stores the
+ * ReportModel as that period's official, locked report. Departments can also
+ * require director approval, in which case a submission stays pending until
+ * the department's director approves it or returns it with comments.
+ */
+
+import { supabase } from "../supabase";
+import { fromDayNumber, toDayNumber } from "./scheduleDependencies";
+import type { ReportModel } from "@/types/report";
+
+export type ReportingCadence = "weekly" | "biweekly" | "monthly";
+
+export const DEFAULT_REPORTING_CADENCE: ReportingCadence = "weekly";
+
+export const REPORTING_CADENCE_LABELS: Record<ReportingCadence, string> = {
+  weekly: "Weekly",
+  biweekly: "Every two weeks",
+  monthly: "Monthly",
+};
+
+// Biweekly periods are 14-day blocks counted from this Monday (matches the migration)
+export const BIWEEKLY_ANCHOR = "2026-01-05";
+
+export type ApprovalStatus = "pending" | "approved" | "returned";
+
+export const APPROVAL_STATUS_LABELS: Record<ApprovalStatus, string> = {
+  pending: "Awaiting approval",
+  approved: "Approved",
+  returned: "Returned",
+};
+
+export interface DepartmentReporting {
+  cadence: ReportingCadence;
+  requiresApproval: boolean;
+}
+
+export interface ReportingPeriod {
+  cadence: ReportingCadence;
+  start: string; // YYYY-MM-DD, inclusive
+  end: string; // YYYY-MM-DD, inclusive
+}
+
+export interface StatusReport {
+  id: string;
+  project_id: string;
+  cadence: ReportingCadence;
+  period_start: string;
+  period_end: string;
+  report: ReportModel;
+  submitted_by: string | null;
+  submitted_by_name: string | null;
+  submitted_at: string;
+  approval_status: ApprovalStatus;
+  reviewed_by: string | null;
+  reviewed_by_name: string | null;
+  reviewed_at: string | null;
+  review_comment: string | null;
+}
+
+// A pending submission with the project it belongs to, for the review queue
+export interface StatusReportForReview extends StatusReport {
+  project: { id: string; title: string; department: string | null };
+}
+
+const isCadence = (value: string | null | undefined): value is ReportingCadence =>
+  value === "weekly" || value === "biweekly" || value === "monthly";
+
+/**
+ * The reporting period of the given cadence that contains `date` (YYYY-MM-DD).
+ * Weeks run Monday to Sunday; months are calendar months.
+ */
+export const getReportingPeriod = (
+  date: string,
+  cadence: ReportingCadence,
+): ReportingPeriod => {
+  const day = toDayNumber(date);
+  if (day === null) {
+    throw new Error(`Invalid reporting date: ${date}`);
+  }
+
+  if (cadence === "monthly") {
+    const [year, month] = date.split("-").map(Number);
+    const start = `${year}-${String(month).padStart(2, "0")}-01`;
+    const next = month === 12 ? `${year + 1}-01-01` : `${year}-${String(month + 1).padStart(2, "0")}-01`;
+    return { cadence, start, end: fromDayNumber((toDayNumber(next) as number) - 1) };
+  }
+
+  const length = cadence === "weekly" ? 7 : 14;
+  // Day 0 (1970-01-01) was a Thursday; BIWEEKLY_ANCHOR is a Monday, so both
+  // cadences start on Mondays
+  const anchor = toDayNumber(BIWEEKLY_ANCHOR) as number;
+  const offset = (((day - anchor) % length) + length) % length;
+  const start = day - offset;
+  return { cadence, start: fromDayNumber(start), end: fromDayNumber(start + length - 1) };
+};
+
+/**
+ * The period of the given cadence containing today (local date)
+ */
+export const getCurrentReportingPeriod = (
+  cadence: ReportingCadence,
+  now: Date = new Date(),
+): ReportingPeriod => {
+  const m = String(now.getMonth() + 1).padStart(2, "0");
+  const d = String(now.getDate()).padStart(2, "0");
+  return getReportingPeriod(`${now.getFullYear()}-${m}-${d}`, cadence);
+};
+
+/**
+ * The report currently standing for a period: pending or approved. Returned
+ * reports are kept as history, so a period can have several.
+ */
+export const getLivePeriodReport = (
+  reports: StatusReport[],
+  periodStart: string,
+): StatusReport | null =>
+  reports.find((r) => r.period_start === periodStart && r.approval_status !== "returned") || null;
+
+/**
+ * The newest approved report (reports come newest period first). Where the
+ * department requires approval, this is what sponsors see and what exports
+ * are made from.
+ */
+export const getLatestApprovedReport = (reports: StatusReport[]): StatusReport | null =>
+  reports.find((r) => r.approval_status === "approved") || null;
+
+/**
+ * Whether a user can approve or return a project's reports: admins, and the
+ * director of the project's department (mirrors can_review_status_report)
+ */
+export const canReviewStatusReports = (
+  profile: { role?: string | null; department?: string | null } | null | undefined,
+  projectDepartment: string | null | undefined,
+): boolean =>
+  !!profile &&
+  (profile.role === "admin" ||
+    (profile.role === "department_director" &&
+      !!profile.department &&
+      profile.department === projectDepartment));
+
+/**
+ * Human label for a period, e.g. "Mar 2 – Mar 8, 2026" or "March 2026"
+ */
+export const formatReportingPeriod = (period: Pick<ReportingPeriod, "cadence" | "start" | "end">): string => {
+  const parse = (ymd: string) => {
+    const [y, m, d] = ymd.split("-").map(Number);
+    return new Date(y, m - 1, d);
+  };
+  const start = parse(period.start);
+  const end = parse(period.end);
+  if (period.cadence === "monthly") {
+    return start.toLocaleDateString("en-US", { month: "long", year: "numeric" });
+  }
+  const short = (d: Date) => d.toLocaleDateString("en-US", { month: "short", day: "numeric" });
+  return `${short(start)} – ${short(end)}, ${end.getFullYear()}`;
+};
+
+// Service for department cadences and official status reports
+export const reportingPeriodsService = {
+  async getDepartmentReporting(department: string | null | undefined): Promise<DepartmentReporting> {
+    if (!department) {
+      return { cadence: DEFAULT_REPORTING_CADENCE, requiresApproval: false };
+    }
+
+    const { data, error } = await supabase
+      .from("departments")
+      .select("reporting_cadence, requires_status_approval")
+      .eq("name", department)
+      .maybeSingle();
+
+    if (error) {
+      console.error("[REPORTING_PERIODS] Error fetching department reporting settings:", error);
+    }
+    return {
+      cadence: isCadence(data?.reporting_cadence) ? data.reporting_cadence : DEFAULT_REPORTING_CADENCE,
+      requiresApproval: !!data?.requires_status_approval,
+    };
+  },
+
+  /** Names of the departments whose reports need director approval */
+  async getApprovalDepartments(): Promise<Set<string>> {
+    const { data, error } = await supabase
+      .from("departments")
+      .select("name")
+      .eq("requires_status_approval", true);
+
+    if (error) {
+      console.error("[REPORTING_PERIODS] Error fetching approval departments:", error);
+      return new Set();
+    }
+    return new Set((data || []).map((d) => d.name));
+  },
+
+  async setDepartmentCadence(departmentId: string, cadence: ReportingCadence): Promise<boolean> {
+    const { error } = await supabase
+      .from("departments")
+      .update({ reporting_cadence: cadence })
+      .eq("id", departmentId);
+
+    if (error) {
+      console.error("[REPORTING_PERIODS] Failed to update department cadence:", error);
+      return false;
+    }
+    return true;
+  },
+
+  async setDepartmentApproval(departmentId: string, required: boolean): Promise<boolean> {
+    const { error } = await supabase
+      .from("departments")
+      .update({ requires_status_approval: required })
+      .eq("id", departmentId);
+
+    if (error) {
+      console.error("[REPORTING_PERIODS] Failed to update department approval setting:", error);
+      return false;
+    }
+    return true;
+  },
+
+  /**
+   * Official reports for a project, newest period first. Viewers who can't
+   * edit or review the project only get approved reports back (RLS).
+   */
+  async getStatusReports(projectId: string): Promise<StatusReport[]> {
+    const { data, error } = await supabase
+      .from("status_reports")
+      .select("*")
+      .eq("project_id", projectId)
+      .order("period_start", { ascending: false })
+      .order("submitted_at", { ascending: false });
+
+    if (error) {
+      console.error("[REPORTING_PERIODS] Error fetching status reports:", error);
+      return [];
+    }
+    return (data || []) as unknown as StatusReport[];
+  },
+
+  /**
+   * The newest approved report of each of the given projects, keyed by
+   * project id. Projects without one are missing from the map.
+   */
+  async getLatestApprovedReports(projectIds: string[]): Promise<Map<string, StatusReport>> {
+    const latest = new Map<string, StatusReport>();
+    // Ids go in the URL, so ask for a slice of projects at a time, a page of
+    // reports at a time
+    for (let i = 0; i < projectIds.length; i += 100) {
+      for (let from = 0; ; from += 1000) {
+        const { data, error } = await supabase
+          .from("status_reports")
+          .select("*")
+          .in("project_id", projectIds.slice(i, i + 100))
+          .eq("approval_status", "approved")
+          .order("period_start", { ascending: false })
+          .order("submitted_at", { ascending: false })
+          .order("id")
+          .range(from, from + 999);
+
+        if (error) {
+          console.error("[REPORTING_PERIODS] Error fetching approved reports:", error);
+          return new Map();
+        }
+        for (const report of (data || []) as unknown as StatusReport[]) {
+          if (!latest.has(report.project_id)) latest.set(report.project_id, report);
+        }
+        if (!data || data.length < 1000) break;
+      }
+    }
+    return latest;
+  },
+
+  /**
+   * Submit the official report for a period. The server decides whether it
+   * starts pending or approved. Returns null if it fails, including when the
+   * period already has a pending or approved report.
+   */
+  async submitStatusReport(
+    projectId: string,
+    period: ReportingPeriod,
+    report: ReportModel,
+    submitter: { id: string; name: string | null },
+  ): Promise<StatusReport | null> {
+    const { data, error } = await supabase
+      .from("status_reports")
+      .insert({
+        project_id: projectId,
+        cadence: period.cadence,
+        period_start: period.start,
+        period_end: period.end,
+        report: report as any,
+        submitted_by: submitter.id,
+        submitted_by_name: submitter.name,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error("[REPORTING_PERIODS] Failed to submit status report:", error);
+      return null;
+    }
+    return data as unknown as StatusReport;
+  },
+
+  /**
+   * Pending submissions awaiting review, oldest first. Pass a department to
+   * limit the queue to it (directors); admins pass null for every department.
+   */
+  async getReviewQueue(department: string | null): Promise<StatusReportForReview[]> {
+    let query = supabase
+      .from("status_reports")
+      .select("*, project:projects!inner(id, title, department)")
+      .eq("approval_status", "pending")
+      .order("submitted_at", { ascending: true });
+
+    if (department) {
+      query = query.eq("project.department", department);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      console.error("[REPORTING_PERIODS] Error fetching review queue:", error);
+      return [];
+    }
+    return (data || []) as unknown as StatusReportForReview[];
+  },
+
+  /**
+   * Approve a pending report, or return it to the PM with a comment
+   */
+  async reviewStatusReport(
+    reportId: string,
+    decision: Exclude<ApprovalStatus, "pending">,
+    comment: string,
+    reviewerName: string | null,
+  ): Promise<StatusReport | null> {
+    const { data, error } = await supabase
+      .from("status_reports")
+      .update({
+        approval_status: decision,
+        review_comment: comment.trim() || null,
+        reviewed_by_name: reviewerName,
+      })
+      .eq("id", reportId)
+      .eq("approval_status", "pending")
+      .select()
+      .single();
+
+    if (error) {
+      console.error("[REPORTING_PERIODS] Failed to review status report:", error);
+      return null;
+    }
+    return data as unknown as StatusReport;
+  },
+};
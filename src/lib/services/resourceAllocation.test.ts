@@ -0,0 +1,149 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildWeeklyLoad,
+  DEFAULT_CAPACITY,
+  getAssigneeKey,
+  getItemDailyHours,
+  getLoadLevel,
+  getWeekStart,
+  type AllocationItem,
+  type PersonAllocationInput,
+} from "./resourceAllocation";
+import { fromDayNumber } from "./scheduleDependencies";
+
+const item = (overrides: Partial<AllocationItem>): AllocationItem => ({
+  id: "t1",
+  kind: "task",
+  projectId: "p1",
+  projectTitle: "Project One",
+  label: "Build",
+  start: "2025-01-06", // Monday
+  finish: "2025-01-10", // Friday
+  allocationPercent: null,
+  allocationHours: null,
+  ...overrides,
+});
+
+const person = (overrides: Partial<PersonAllocationInput>): PersonAllocationInput => ({
+  key: "u1",
+  name: "Jane Doe",
+  directoryUserId: "u1",
+  department: null,
+  capacity: DEFAULT_CAPACITY,
+  holidays: new Set(),
+  items: [],
+  ...overrides,
+});
+
+const hoursByDate = (hours: Map<number, number>) =>
+  Object.fromEntries([...hours].map(([day, h]) => [fromDayNumber(day), h]));
+
+describe("getWeekStart", () => {
+  it("returns the Monday of the week", () => {
+    expect(getWeekStart("2025-01-08")).toBe("2025-01-06");
+    expect(getWeekStart("2025-01-06")).toBe("2025-01-06");
+    expect(getWeekStart("2025-01-12")).toBe("2025-01-06");
+  });
+});
+
+describe("getItemDailyHours", () => {
+  it("books a percentage of the working day on each working day", () => {
+    const hours = getItemDailyHours(
+      item({ start: "2025-01-09", finish: "2025-01-13", allocationPercent: 50 }),
+      DEFAULT_CAPACITY,
+      new Set(),
+    );
+    expect(hoursByDate(hours)).toEqual({ "2025-01-09": 4, "2025-01-10": 4, "2025-01-13": 4 });
+  });
+
+  it("spreads total hours over the working days, skipping holidays", () => {
+    const hours = getItemDailyHours(item({ allocationHours: 12 }), DEFAULT_CAPACITY, new Set(["2025-01-08"]));
+    expect(hours.size).toBe(4);
+    expect(hours.get(hours.keys().next().value!)).toBe(3);
+  });
+
+  it("counts unallocated items as full time", () => {
+    const hours = getItemDailyHours(item({}), { hours_per_day: 6, working_weekdays: [1, 2, 3, 4, 5] }, new Set());
+    expect([...hours.values()]).toEqual([6, 6, 6, 6, 6]);
+  });
+
+  it("falls back to calendar days when the range has no working days", () => {
+    const hours = getItemDailyHours(
+      item({ start: "2025-01-11", finish: "2025-01-12", allocationHours: 10 }),
+      DEFAULT_CAPACITY,
+      new Set(),
+    );
+    expect(hoursByDate(hours)).toEqual({ "2025-01-11": 5, "2025-01-12": 5 });
+  });
+});
+
+describe("buildWeeklyLoad", () => {
+  it("compares assigned hours with part-time capacity per week", () => {
+    const [load] = buildWeeklyLoad(
+      [
+        person({
+          capacity: { hours_per_day: 8, working_weekdays: [1, 2, 3] },
+          holidays: new Set(["2025-01-13"]),
+          items: [
+            item({ id: "a", allocationPercent: 50, finish: "2025-01-17" }),
+            item({ id: "b", kind: "activity", start: "2025-01-08", finish: "2025-01-08" }),
+          ],
+        }),
+      ],
+      "2025-01-08",
+      "2025-01-19",
+    );
+
+    expect(load.weeks.map((w) => w.weekStart)).toEqual(["2025-01-06", "2025-01-13"]);
+    // Week 1: Mon–Wed at 4h for "a" plus a full Wednesday for "b"
+    expect(load.weeks[0]).toMatchObject({ capacityHours: 24, assignedHours: 20, loadPercent: 83 });
+    expect(load.weeks[0].contributions.map((c) => [c.item.id, c.hours])).toEqual([
+      ["a", 12],
+      ["b", 8],
+    ]);
+    // Week 2: Monday is a holiday, leaving Tue–Wed
+    expect(load.weeks[1]).toMatchObject({ capacityHours: 16, assignedHours: 8, loadPercent: 50 });
+    expect(load.peakLoadPercent).toBe(83);
+  });
+
+  it("orders people by peak load and reports weeks without capacity as null", () => {
+    const loads = buildWeeklyLoad(
+      [
+        person({ key: "light", name: "Light", items: [item({ allocationPercent: 20 })] }),
+        person({
+          key: "away",
+          name: "Away",
+          capacity: { hours_per_day: 8, working_weekdays: [] },
+          items: [item({ allocationHours: 10 })],
+        }),
+        person({ key: "heavy", name: "Heavy", items: [item({}), item({ id: "t2" })] }),
+      ],
+      "2025-01-06",
+      "2025-01-12",
+    );
+
+    expect(loads.map((l) => l.key)).toEqual(["heavy", "light", "away"]);
+    expect(loads[0].peakLoadPercent).toBe(200);
+    expect(loads[2].weeks[0]).toMatchObject({ capacityHours: 0, assignedHours: 10, loadPercent: null });
+    expect(loads[2].peakLoadPercent).toBe(0);
+  });
+});
+
+describe("getLoadLevel", () => {
+  it("bands the weekly load", () => {
+    expect(getLoadLevel(0, 0)).toBe("idle");
+    expect(getLoadLevel(50, 20)).toBe("under");
+    expect(getLoadLevel(100, 40)).toBe("full");
+    expect(getLoadLevel(120, 48)).toBe("over");
+    expect(getLoadLevel(151, 60)).toBe("critical");
+    expect(getLoadLevel(null, 4)).toBe("critical");
+  });
+});
+
+describe("getAssigneeKey", () => {
+  it("prefers the directory link and falls back to the normalized name", () => {
+    expect(getAssigneeKey("Jane Doe", "u1")).toBe("u1");
+    expect(getAssigneeKey("Doe, Jane", null)).toBe(getAssigneeKey("jane doe", null));
+    expect(getAssigneeKey("  ", null)).toBeNull();
+  });
+});
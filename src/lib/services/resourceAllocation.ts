@@ -0,0 +1,377 @@
+/**
+ * File: resourceAllocation.ts
+ * Purpose: Cross-project resource allocation. Task and activity assignees are
+ * grouped per person (by directory link, or by normalized name for people
+ * outside the directory), each item's allocation is spread over the working
+ * days of its date range, and the result is compared with the person's weekly
+ * capacity (hours per day, working weekdays, holidays).
+ */
+
+import { supabase } from "../supabase";
+import { getHolidayDates, holidayCalendarService, type HolidayDates } from "./holidayCalendar";
+import { fromDayNumber, toDayNumber } from "./scheduleDependencies";
+import { normalizePersonName } from "./stakeholders";
+
+export interface CapacityProfile {
+  hours_per_day: number;
+  /** ISO weekdays, 1 = Monday … 7 = Sunday */
+  working_weekdays: number[];
+}
+
+export const DEFAULT_CAPACITY: CapacityProfile = {
+  hours_per_day: 8,
+  working_weekdays: [1, 2, 3, 4, 5],
+};
+
+export const WEEKDAY_LABELS: Record<number, string> = {
+  1: "Mon",
+  2: "Tue",
+  3: "Wed",
+  4: "Thu",
+  5: "Fri",
+  6: "Sat",
+  7: "Sun",
+};
+
+export interface AllocationItem {
+  id: string;
+  kind: "task" | "activity";
+  projectId: string;
+  projectTitle: string;
+  label: string;
+  start: string; // YYYY-MM-DD
+  finish: string; // YYYY-MM-DD, inclusive
+  allocationPercent: number | null;
+  allocationHours: number | null;
+}
+
+export interface PersonAllocationInput {
+  key: string;
+  name: string;
+  directoryUserId: string | null;
+  department: string | null;
+  capacity: CapacityProfile;
+  holidays: HolidayDates;
+  items: AllocationItem[];
+}
+
+export interface WeekContribution {
+  item: AllocationItem;
+  hours: number;
+}
+
+export interface WeekLoad {
+  weekStart: string;
+  capacityHours: number;
+  assignedHours: number;
+  /** Assigned over capacity; null when the person has no capacity that week */
+  loadPercent: number | null;
+  contributions: WeekContribution[];
+}
+
+export interface PersonLoad {
+  key: string;
+  name: string;
+  directoryUserId: string | null;
+  department: string | null;
+  capacity: CapacityProfile;
+  weeks: WeekLoad[];
+  /** Highest weekly load in the range, ignoring weeks without capacity */
+  peakLoadPercent: number;
+}
+
+export type LoadLevel = "idle" | "under" | "full" | "over" | "critical";
+
+export const LOAD_LEVEL_LABELS: Record<LoadLevel, string> = {
+  idle: "Unassigned",
+  under: "Under 80%",
+  full: "80–100%",
+  over: "100–150%",
+  critical: "Over 150%",
+};
+
+export const LOAD_LEVEL_CLASSES: Record<LoadLevel, string> = {
+  idle: "bg-muted/40 text-muted-foreground",
+  under: "bg-green-100 text-green-800",
+  full: "bg-yellow-100 text-yellow-800",
+  over: "bg-orange-200 text-orange-900",
+  critical: "bg-red-300 text-red-950",
+};
+
+export const getLoadLevel = (loadPercent: number | null, assignedHours: number): LoadLevel => {
+  if (assignedHours <= 0) return "idle";
+  if (loadPercent === null || loadPercent > 150) return "critical";
+  if (loadPercent > 100) return "over";
+  if (loadPercent >= 80) return "full";
+  return "under";
+};
+
+// Day 0 (1970-01-01) was a Thursday
+const isoWeekday = (day: number): number => ((day + 3) % 7) + 1;
+
+/** Monday of the week containing the date */
+export const getWeekStart = (date: string): string => {
+  const day = toDayNumber(date);
+  if (day === null) return date;
+  return fromDayNumber(day - (isoWeekday(day) - 1));
+};
+
+const isCapacityDay = (day: number, capacity: CapacityProfile, holidays: HolidayDates): boolean =>
+  capacity.working_weekdays.includes(isoWeekday(day)) && !holidays.has(fromDayNumber(day));
+
+/**
+ * Hours an item books on each day of its range. A percentage applies to every
+ * working day; hours are spread evenly over the working days. Items with no
+ * allocation count as 100%. When the range has no working days at all (e.g. a
+ * weekend-only task) the booking falls on its calendar days instead, so the
+ * work is not silently dropped.
+ */
+export const getItemDailyHours = (
+  item: AllocationItem,
+  capacity: CapacityProfile,
+  holidays: HolidayDates,
+): Map<number, number> => {
+  const hours = new Map<number, number>();
+  const start = toDayNumber(item.start);
+  const finish = toDayNumber(item.finish);
+  if (start === null || finish === null || finish < start) return hours;
+
+  const calendarDays: number[] = [];
+  for (let day = start; day <= finish; day++) calendarDays.push(day);
+  const workingDays = calendarDays.filter((day) => isCapacityDay(day, capacity, holidays));
+  const days = workingDays.length > 0 ? workingDays : calendarDays;
+
+  const perDay =
+    item.allocationHours !== null
+      ? item.allocationHours / days.length
+      : (capacity.hours_per_day * (item.allocationPercent ?? 100)) / 100;
+  days.forEach((day) => hours.set(day, perDay));
+  return hours;
+};
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+/**
+ * Weekly load per person for the weeks from rangeStart to rangeEnd. People are
+ * ordered by their peak load, busiest first.
+ */
+export const buildWeeklyLoad = (
+  people: PersonAllocationInput[],
+  rangeStart: string,
+  rangeEnd: string,
+): PersonLoad[] => {
+  const first = toDayNumber(getWeekStart(rangeStart));
+  const last = toDayNumber(rangeEnd);
+  if (first === null || last === null) return [];
+
+  const weekStarts: number[] = [];
+  for (let day = first; day <= last; day += 7) weekStarts.push(day);
+
+  return people
+    .map((person) => {
+      const daily = person.items.map((item) => ({
+        item,
+        hours: getItemDailyHours(item, person.capacity, person.holidays),
+      }));
+
+      const weeks = weekStarts.map((weekStart) => {
+        let capacityDays = 0;
+        for (let day = weekStart; day < weekStart + 7; day++) {
+          if (isCapacityDay(day, person.capacity, person.holidays)) capacityDays++;
+        }
+        const capacityHours = capacityDays * person.capacity.hours_per_day;
+
+        const contributions = daily
+          .map(({ item, hours }) => {
+            let total = 0;
+            hours.forEach((h, day) => {
+              if (day >= weekStart && day < weekStart + 7) total += h;
+            });
+            return { item, hours: round1(total) };
+          })
+          .filter((c) => c.hours > 0)
+          .sort((a, b) => b.hours - a.hours);
+
+        const assignedHours = round1(contributions.reduce((sum, c) => sum + c.hours, 0));
+        return {
+          weekStart: fromDayNumber(weekStart),
+          capacityHours: round1(capacityHours),
+          assignedHours,
+          loadPercent: capacityHours > 0 ? Math.round((assignedHours / capacityHours) * 100) : null,
+          contributions,
+        };
+      });
+
+      const peakLoadPercent = Math.max(0, ...weeks.map((w) => w.loadPercent ?? 0));
+      return {
+        key: person.key,
+        name: person.name,
+        directoryUserId: person.directoryUserId,
+        department: person.department,
+        capacity: person.capacity,
+        weeks,
+        peakLoadPercent,
+      };
+    })
+    .sort((a, b) => b.peakLoadPercent - a.peakLoadPercent || a.name.localeCompare(b.name));
+};
+
+/** Grouping key for an assignee: the directory link, else the normalized name */
+export const getAssigneeKey = (assignee: string | null | undefined, assigneeId: string | null | undefined): string | null => {
+  if (assigneeId) return assigneeId;
+  const normalized = normalizePersonName(assignee);
+  return normalized ? `name:${normalized}` : null;
+};
+
+export const resourceAllocationService = {
+  /**
+   * Everything needed to build the heat map for a date range: open tasks and
+   * activities of active projects, grouped by assignee with their capacity
+   * profile and holidays
+   */
+  async getAllocationInputs(rangeStart: string, rangeEnd: string): Promise<PersonAllocationInput[]> {
+    try {
+      const { data: projects, error: projectsError } = await supabase
+        .from("projects")
+        .select("id, title, status")
+        .is("deleted_at", null)
+        .not("status", "in", "(completed,cancelled)");
+      if (projectsError) throw projectsError;
+
+      const titles = new Map((projects || []).map((p) => [p.id, (p.title || "").replace(/<[^>]*>/g, "")]));
+      const projectIds = [...titles.keys()];
+      if (projectIds.length === 0) return [];
+
+      const [tasksResult, activitiesResult, capacityResult, mappingsResult, holidays] = await Promise.all([
+        supabase
+          .from("tasks")
+          .select("id, project_id, description, assignee, assignee_id, date, duration_days, completion, allocation_percent, allocation_hours")
+          .in("project_id", projectIds)
+          // Tasks run at most a year, so older starts cannot reach the range
+          .gte("date", fromDayNumber(toDayNumber(rangeStart)! - 366))
+          .lte("date", rangeEnd),
+        supabase
+          .from("next_period_activities")
+          .select("id, project_id, description, assignee, assignee_id, date, completion, allocation_percent, allocation_hours")
+          .in("project_id", projectIds)
+          .gte("date", rangeStart)
+          .lte("date", rangeEnd),
+        supabase.from("resource_capacity").select("*"),
+        supabase
+          .from("ad_department_mappings")
+          .select("ad_name, departments!master_dept_id(name)")
+          .eq("is_excluded", false)
+          .not("master_dept_id", "is", null),
+        holidayCalendarService.getHolidays(),
+      ]);
+      if (tasksResult.error) throw tasksResult.error;
+      if (activitiesResult.error) throw activitiesResult.error;
+
+      const items: Array<{ key: string; assignee: string; assigneeId: string | null; item: AllocationItem }> = [];
+      const rangeStartDay = toDayNumber(rangeStart)!;
+
+      (tasksResult.data || []).forEach((t) => {
+        const key = getAssigneeKey(t.assignee, t.assignee_id);
+        const start = toDayNumber(t.date);
+        if (!key || start === null || (t.completion ?? 0) >= 100) return;
+        const finish = start + Math.max(1, t.duration_days || 1) - 1;
+        if (finish < rangeStartDay) return;
+        items.push({
+          key,
+          assignee: t.assignee || "",
+          assigneeId: t.assignee_id,
+          item: {
+            id: t.id,
+            kind: "task",
+            projectId: t.project_id!,
+            projectTitle: titles.get(t.project_id!) || "Untitled Project",
+            label: t.description || "Untitled task",
+            start: fromDayNumber(start),
+            finish: fromDayNumber(finish),
+            allocationPercent: t.allocation_percent,
+            allocationHours: t.allocation_hours,
+          },
+        });
+      });
+
+      (activitiesResult.data || []).forEach((a) => {
+        const key = getAssigneeKey(a.assignee, a.assignee_id);
+        if (!key || !a.date || (a.completion ?? 0) >= 100) return;
+        items.push({
+          key,
+          assignee: a.assignee || "",
+          assigneeId: a.assignee_id,
+          item: {
+            id: a.id,
+            kind: "activity",
+            projectId: a.project_id!,
+            projectTitle: titles.get(a.project_id!) || "Untitled Project",
+            label: a.description || "Untitled activity",
+            start: a.date,
+            finish: a.date,
+            allocationPercent: a.allocation_percent,
+            allocationHours: a.allocation_hours,
+          },
+        });
+      });
+
+      const directoryIds = [...new Set(items.map((i) => i.assigneeId).filter((id): id is string => !!id))];
+      const { data: directoryUsers } = directoryIds.length
+        ? await supabase.from("directory_users").select("id, display_name, department").in("id", directoryIds)
+        : { data: [] as Array<{ id: string; display_name: string | null; department: string | null }> };
+      const directory = new Map((directoryUsers || []).map((u) => [u.id, u]));
+      const capacities = new Map((capacityResult.data || []).map((c) => [c.directory_user_id, c]));
+      const canonicalDepartment = new Map(
+        (mappingsResult.data || []).map((m: any) => [m.ad_name, m.departments?.name as string | undefined]),
+      );
+
+      const people = new Map<string, PersonAllocationInput>();
+      items.forEach(({ key, assignee, assigneeId, item }) => {
+        let person = people.get(key);
+        if (!person) {
+          const user = assigneeId ? directory.get(assigneeId) : undefined;
+          const capacity = assigneeId ? capacities.get(assigneeId) : undefined;
+          const department = user?.department || null;
+          // Holidays are scoped by canonical department; AD names map onto it
+          const holidayDepartment = (department && canonicalDepartment.get(department)) || department;
+          person = {
+            key,
+            name: user?.display_name || assignee.trim(),
+            directoryUserId: assigneeId,
+            department: holidayDepartment,
+            capacity: capacity
+              ? { hours_per_day: Number(capacity.hours_per_day), working_weekdays: capacity.working_weekdays }
+              : DEFAULT_CAPACITY,
+            holidays: getHolidayDates(holidays, holidayDepartment),
+            items: [],
+          };
+          people.set(key, person);
+        }
+        person.items.push(item);
+      });
+
+      return [...people.values()];
+    } catch (error) {
+      console.error("[RESOURCES] Error loading allocation data:", error);
+      return [];
+    }
+  },
+
+  async saveCapacity(
+    directoryUserId: string,
+    profile: CapacityProfile & { note?: string | null },
+  ): Promise<boolean> {
+    const { error } = await supabase.from("resource_capacity").upsert({
+      directory_user_id: directoryUserId,
+      hours_per_day: profile.hours_per_day,
+      working_weekdays: [...profile.working_weekdays].sort(),
+      note: profile.note?.trim() || null,
+      updated_at: new Date().toISOString(),
+    });
+    if (error) {
+      console.error("[RESOURCES] Failed to save capacity profile:", error);
+      return false;
+    }
+    return true;
+  },
+};
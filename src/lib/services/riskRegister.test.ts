@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildRiskHeatMap,
+  calculateRiskExposure,
+  getRiskExposureLevel,
+  normalizeRiskStatus,
+  toRiskRegisterFields,
+} from "./riskRegister";
+
+describe("calculateRiskExposure", () => {
+  it("multiplies probability by impact", () => {
+    expect(calculateRiskExposure(4, 5)).toBe(20);
+    expect(calculateRiskExposure(1, 1)).toBe(1);
+  });
+
+  it("returns null until both scores are set and in range", () => {
+    expect(calculateRiskExposure(null, 3)).toBeNull();
+    expect(calculateRiskExposure(3, undefined)).toBeNull();
+    expect(calculateRiskExposure(0, 3)).toBeNull();
+    expect(calculateRiskExposure(3, 6)).toBeNull();
+  });
+});
+
+describe("getRiskExposureLevel", () => {
+  it("bands exposure scores", () => {
+    expect(getRiskExposureLevel(4)).toBe("low");
+    expect(getRiskExposureLevel(5)).toBe("medium");
+    expect(getRiskExposureLevel(9)).toBe("medium");
+    expect(getRiskExposureLevel(10)).toBe("high");
+    expect(getRiskExposureLevel(16)).toBe("high");
+    expect(getRiskExposureLevel(20)).toBe("critical");
+    expect(getRiskExposureLevel(null)).toBeNull();
+  });
+});
+
+describe("normalizeRiskStatus", () => {
+  it("defaults unknown or missing statuses to open", () => {
+    expect(normalizeRiskStatus("mitigating")).toBe("mitigating");
+    expect(normalizeRiskStatus(undefined)).toBe("open");
+    expect(normalizeRiskStatus("bogus")).toBe("open");
+  });
+});
+
+describe("buildRiskHeatMap", () => {
+  it("counts active scored risks by impact row and probability column", () => {
+    const grid = buildRiskHeatMap([
+      { probability: 2, impact_score: 5, status: "open" },
+      { probability: 2, impact_score: 5, status: "mitigating" },
+      { probability: 5, impact_score: 1 },
+    ]);
+    expect(grid[4][1]).toBe(2);
+    expect(grid[0][4]).toBe(1);
+    expect(grid.flat().reduce((a, b) => a + b, 0)).toBe(3);
+  });
+
+  it("leaves out closed, realized and unscored risks", () => {
+    const grid = buildRiskHeatMap([
+      { probability: 3, impact_score: 3, status: "closed" },
+      { probability: 3, impact_score: 3, status: "realized" },
+      { probability: null, impact_score: 3, status: "open" },
+    ]);
+    expect(grid.flat().every((count) => count === 0)).toBe(true);
+  });
+});
+
+describe("toRiskRegisterFields", () => {
+  it("keeps the directory link of the owner only while there is an owner", () => {
+    expect(toRiskRegisterFields({ owner: "Ann Lee", owner_id: "du-1" }).owner_id).toBe("du-1");
+    expect(toRiskRegisterFields({ owner: "Ann Lee" }).owner_id).toBeNull();
+    expect(toRiskRegisterFields({ owner: "", owner_id: "du-1" }).owner_id).toBeNull();
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * File: riskRegister.ts
+ * Purpose: Scoring helpers for the structured risk register — exposure
+ * (probability × impact), exposure bands and the probability×impact heat map
+ * shared by the status sheet, report model and Excel export.
+ */
+
+export type RiskStatus = "open" | "mitigating" | "closed" | "realized";
+export type RiskExposureLevel = "low" | "medium" | "high" | "critical";
+
+export const RISK_STATUSES: RiskStatus[] = [
+  "open",
+  "mitigating",
+  "closed",
+  "realized",
+];
+
+export const RISK_STATUS_LABELS: Record<RiskStatus, string> = {
+  open: "Open",
+  mitigating: "Mitigating",
+  closed: "Closed",
+  realized: "Realized",
+};
+
+// Probability and impact are both scored 1 (lowest) to 5 (highest)
+export const RISK_SCORE_MIN = 1;
+export const RISK_SCORE_MAX = 5;
+
+export const RISK_PROBABILITY_LABELS: Record<number, string> = {
+  1: "Rare",
+  2: "Unlikely",
+  3: "Possible",
+  4: "Likely",
+  5: "Almost Certain",
+};
+
+export const RISK_IMPACT_LABELS: Record<number, string> = {
+  1: "Negligible",
+  2: "Minor",
+  3: "Moderate",
+  4: "Major",
+  5: "Severe",
+};
+
+export const RISK_EXPOSURE_LABELS: Record<RiskExposureLevel, string> = {
+  low: "Low",
+  medium: "Medium",
+  high: "High",
+  critical: "Critical",
+};
+
+// Tailwind classes for exposure bands (heat map cells, badges)
+export const RISK_EXPOSURE_CLASSES: Record<RiskExposureLevel, string> = {
+  low: "bg-green-100 text-green-800 border-green-300",
+  medium: "bg-yellow-100 text-yellow-800 border-yellow-300",
+  high: "bg-orange-200 text-orange-900 border-orange-400",
+  critical: "bg-red-200 text-red-900 border-red-400",
+};
+
+// Hex fills (without #) for exports that cannot use Tailwind (DOCX, Excel, email)
+export const RISK_EXPOSURE_HEX: Record<RiskExposureLevel, string> = {
+  low: "D1FAE5",
+  medium: "FEF3C7",
+  high: "FED7AA",
+  critical: "FECACA",
+};
+
+export interface ScoredRisk {
+  probability?: number | null;
+  impact_score?: number | null;
+  status?: string | null;
+}
+
+const isScore = (value: unknown): value is number =>
+  typeof value === "number" &&
+  Number.isInteger(value) &&
+  value >= RISK_SCORE_MIN &&
+  value <= RISK_SCORE_MAX;
+
+/**
+ * Exposure = probability × impact (1–25), or null while either score is unset.
+ * Mirrors the generated risks.exposure column.
+ */
+export const calculateRiskExposure = (
+  probability: number | null | undefined,
+  impactScore: number | null | undefined,
+): number | null => {
+  if (!isScore(probability) || !isScore(impactScore)) return null;
+  return probability * impactScore;
+};
+
+/**
+ * Band an exposure score: 1–4 low, 5–9 medium, 10–16 high, 20–25 critical
+ */
+export const getRiskExposureLevel = (
+  exposure: number | null | undefined,
+): RiskExposureLevel | null => {
+  if (exposure === null || exposure === undefined || exposure <= 0) return null;
+  if (exposure >= 20) return "critical";
+  if (exposure >= 10) return "high";
+  if (exposure >= 5) return "medium";
+  return "low";
+};
+
+/**
+ * Closed risks no longer threaten the project, and realized risks have become
+ * issues handled through a change, so neither belongs on the heat map.
+ */
+export const isActiveRisk = (risk: ScoredRisk): boolean =>
+  !risk.status || risk.status === "open" || risk.status === "mitigating";
+
+export const normalizeRiskStatus = (status: unknown): RiskStatus =>
+  RISK_STATUSES.includes(status as RiskStatus)
+    ? (status as RiskStatus)
+    : "open";
+
+/**
+ * Count active, fully scored risks per heat-map cell.
+ * Indexed as grid[impact - 1][probability - 1].
+ */
+export const buildRiskHeatMap = (risks: ScoredRisk[]): number[][] => {
+  const grid = Array.from({ length: RISK_SCORE_MAX }, () =>
+    Array<number>(RISK_SCORE_MAX).fill(0),
+  );
+  risks.forEach((risk) => {
+    if (!isActiveRisk(risk)) return;
+    if (!isScore(risk.probability) || !isScore(risk.impact_score)) return;
+    grid[risk.impact_score - 1][risk.probability - 1] += 1;
+  });
+  return grid;
+};
+
+export interface RiskRegisterFields {
+  probability: number | null;
+  impact_score: number | null;
+  owner: string;
+  /** Directory user picked as owner; null for names typed outside the directory */
+  owner_id: string | null;
+  mitigation_plan: string;
+  trigger_date: string | null;
+  status: RiskStatus;
+  realized_change_id: string | null;
+}
+
+/**
+ * Pick and normalize the register fields of a risk (form item or DB row),
+ * filling defaults for legacy risks that only have a description and impact.
+ */
+export const toRiskRegisterFields = (risk: any): RiskRegisterFields => ({
+  probability: isScore(risk?.probability) ? risk.probability : null,
+  impact_score: isScore(risk?.impact_score) ? risk.impact_score : null,
+  owner: risk?.owner || "",
+  owner_id: risk?.owner ? risk?.owner_id || null : null,
+  mitigation_plan: risk?.mitigation_plan || "",
+  trigger_date: risk?.trigger_date || null,
+  status: normalizeRiskStatus(risk?.status),
+  realized_change_id:
+    risk?.status === "realized" ? risk?.realized_change_id || null : null,
+});
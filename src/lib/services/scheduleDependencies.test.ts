@@ -0,0 +1,108 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculateCriticalPath,
+  findDependencyViolations,
+  getScheduleItems,
+  wouldCreateCycle,
+  type ScheduleDependency,
+  type ScheduleItem,
+} from "./scheduleDependencies";
+
+const item = (id: string, start: string, finish: string): ScheduleItem => ({
+  id,
+  type: "milestone",
+  label: id,
+  start,
+  finish,
+});
+
+const link = (
+  predecessor_id: string,
+  successor_id: string,
+  dependency_type: ScheduleDependency["dependency_type"] = "FS",
+  lag_days = 0,
+): ScheduleDependency => ({
+  predecessor_type: "milestone",
+  predecessor_id,
+  successor_type: "milestone",
+  successor_id,
+  dependency_type,
+  lag_days,
+});
+
+describe("getScheduleItems", () => {
+  it("flattens milestones and tasks, skipping items without ids", () => {
+    const items = getScheduleItems([
+      {
+        id: "m1",
+        date: "2026-03-02",
+        end_date: "2026-03-06",
+        milestone: "Design",
+        tasks: [
+          { id: "t1", description: "Sketch", date: "2026-03-02", duration_days: 2 },
+          { description: "No id", date: "2026-03-03" },
+        ],
+      },
+      { date: "2026-03-09", milestone: "Unsaved" },
+    ]);
+    expect(items).toEqual([
+      { id: "m1", type: "milestone", label: "Design", start: "2026-03-02", finish: "2026-03-06" },
+      { id: "t1", type: "task", label: "Sketch", start: "2026-03-02", finish: "2026-03-04" },
+    ]);
+  });
+});
+
+describe("findDependencyViolations", () => {
+  it("flags a successor that starts before its predecessor finishes plus lag", () => {
+    const items = [item("a", "2026-03-02", "2026-03-06"), item("b", "2026-03-07", "2026-03-10")];
+    const violations = findDependencyViolations(items, [link("a", "b", "FS", 2)]);
+    expect(violations).toHaveLength(1);
+    expect(violations[0].requiredDate).toBe("2026-03-08");
+    expect(violations[0].daysEarly).toBe(1);
+  });
+
+  it("checks start-to-start against starts and finish-to-finish against finishes", () => {
+    const items = [item("a", "2026-03-02", "2026-03-10"), item("b", "2026-03-03", "2026-03-09")];
+    expect(findDependencyViolations(items, [link("a", "b", "SS")])).toHaveLength(0);
+    const ff = findDependencyViolations(items, [link("a", "b", "FF")]);
+    expect(ff).toHaveLength(1);
+    expect(ff[0].constrainedDate).toBe("finish");
+  });
+});
+
+describe("calculateCriticalPath", () => {
+  it("marks the longest chain critical and gives other items float", () => {
+    const items = [
+      item("a", "2026-03-02", "2026-03-06"),
+      item("b", "2026-03-06", "2026-03-13"),
+      item("c", "2026-03-06", "2026-03-09"),
+    ];
+    const result = calculateCriticalPath(items, [link("a", "b"), link("a", "c")]);
+    expect(result.criticalIds).toEqual(["a", "b"]);
+    expect(result.items.c.totalFloat).toBe(4);
+    expect(result.projectFinish).toBe("2026-03-13");
+    expect(result.criticalDependencyKeys).toEqual(["a->b"]);
+  });
+
+  it("pushes successors later when a dependency is violated", () => {
+    const items = [item("a", "2026-03-02", "2026-03-10"), item("b", "2026-03-05", "2026-03-07")];
+    const result = calculateCriticalPath(items, [link("a", "b", "FS", 1)]);
+    expect(result.items.b.earlyStart).toBe("2026-03-11");
+    expect(result.items.b.earlyFinish).toBe("2026-03-13");
+  });
+
+  it("ignores links on a loop and reports the items", () => {
+    const items = [item("a", "2026-03-02", "2026-03-03"), item("b", "2026-03-04", "2026-03-05")];
+    const result = calculateCriticalPath(items, [link("a", "b"), link("b", "a")]);
+    expect(result.cyclicIds.sort()).toEqual(["a", "b"]);
+    expect(result.items.b.critical).toBe(true);
+  });
+});
+
+describe("wouldCreateCycle", () => {
+  it("detects indirect loops", () => {
+    const deps = [link("a", "b"), link("b", "c")];
+    expect(wouldCreateCycle(deps, { predecessor_id: "c", successor_id: "a" })).toBe(true);
+    expect(wouldCreateCycle(deps, { predecessor_id: "a", successor_id: "c" })).toBe(false);
+  });
+});
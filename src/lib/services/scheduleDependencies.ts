@@ -0,0 +1,385 @@
+/**
+ * File: scheduleDependencies.ts
+ * Purpose: Dependencies between milestones and tasks (finish-to-start,
+ * start-to-start, finish-to-finish, with lag) and the critical path method
+ * over them: early/late dates, total float, the critical path and
+ * dependencies that the current dates violate. Used by the milestone form
+ * and ProjectGantt.
+ */
+
+export type DependencyType = "FS" | "SS" | "FF";
+export type ScheduleItemType = "milestone" | "task";
+
+export const DEPENDENCY_TYPES: DependencyType[] = ["FS", "SS", "FF"];
+
+export const DEPENDENCY_TYPE_LABELS: Record<DependencyType, string> = {
+  FS: "Finish-to-Start",
+  SS: "Start-to-Start",
+  FF: "Finish-to-Finish",
+};
+
+export interface ScheduleDependency {
+  id?: string;
+  predecessor_type: ScheduleItemType;
+  predecessor_id: string;
+  successor_type: ScheduleItemType;
+  successor_id: string;
+  dependency_type: DependencyType;
+  lag_days: number;
+}
+
+/** A milestone or task reduced to what scheduling needs. Dates are YYYY-MM-DD. */
+export interface ScheduleItem {
+  id: string;
+  type: ScheduleItemType;
+  label: string;
+  start: string;
+  finish: string;
+}
+
+export interface ScheduledItem extends ScheduleItem {
+  earlyStart: string;
+  earlyFinish: string;
+  lateStart: string;
+  lateFinish: string;
+  /** Days the item can slip without moving the project finish */
+  totalFloat: number;
+  critical: boolean;
+}
+
+export interface CriticalPathResult {
+  items: Record<string, ScheduledItem>;
+  /** Ids of critical items, ordered by early start */
+  criticalIds: string[];
+  /** dependencyKey()s of links between critical items that drive the successor */
+  criticalDependencyKeys: string[];
+  projectFinish: string | null;
+  /** Items on a dependency loop; their links are ignored by the calculation */
+  cyclicIds: string[];
+}
+
+export interface DependencyViolation {
+  dependency: ScheduleDependency;
+  predecessor: ScheduleItem;
+  successor: ScheduleItem;
+  /** Which successor date the dependency constrains */
+  constrainedDate: "start" | "finish";
+  requiredDate: string;
+  actualDate: string;
+  daysEarly: number;
+}
+
+interface ScheduleMilestoneInput {
+  id?: string;
+  date: string;
+  end_date?: string | null;
+  milestone: string;
+  tasks?: Array<{
+    id?: string;
+    description: string;
+    date: string;
+    duration_days?: number;
+  }>;
+}
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+// Whole days since epoch (UTC) so daylight saving never shifts a date
+export const toDayNumber = (date: string | null | undefined): number | null => {
+  if (!date) return null;
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(date);
+  if (!match) return null;
+  const ms = Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return isNaN(ms) ? null : Math.round(ms / MS_PER_DAY);
+};
+
+export const fromDayNumber = (day: number): string =>
+  new Date(day * MS_PER_DAY).toISOString().split("T")[0];
+
+export const dependencyKey = (
+  dependency: Pick<ScheduleDependency, "predecessor_id" | "successor_id">,
+): string => `${dependency.predecessor_id}->${dependency.successor_id}`;
+
+/**
+ * Flatten milestones and their tasks into schedule items. A milestone runs from
+ * date to end_date (or date); a task runs duration_days from its date, matching
+ * how ProjectGantt draws it. Items without an id or a valid date are skipped.
+ */
+export const getScheduleItems = (
+  milestones: ScheduleMilestoneInput[] = [],
+): ScheduleItem[] => {
+  const items: ScheduleItem[] = [];
+  milestones.forEach((m) => {
+    const start = toDayNumber(m.date);
+    const finish = toDayNumber(m.end_date || m.date);
+    if (m.id && start !== null && finish !== null) {
+      items.push({
+        id: m.id,
+        type: "milestone",
+        label: m.milestone || "Untitled milestone",
+        start: fromDayNumber(start),
+        finish: fromDayNumber(Math.max(start, finish)),
+      });
+    }
+    (m.tasks || []).forEach((t) => {
+      const taskStart = toDayNumber(t.date);
+      if (!t.id || taskStart === null) return;
+      items.push({
+        id: t.id,
+        type: "task",
+        label: t.description || "Untitled task",
+        start: fromDayNumber(taskStart),
+        finish: fromDayNumber(taskStart + (t.duration_days || 1)),
+      });
+    });
+  });
+  return items;
+};
+
+/**
+ * Earliest date the successor may start (FS, SS) or finish (FF) given the
+ * predecessor's dates. FS allows the successor to start on the day the
+ * predecessor finishes.
+ */
+const requiredSuccessorDay = (
+  type: DependencyType,
+  lag: number,
+  predStart: number,
+  predFinish: number,
+): number => (type === "SS" ? predStart : predFinish) + lag;
+
+/**
+ * Dependencies the current dates break, e.g. a successor moved before its
+ * predecessor finishes. Links to unknown items are ignored.
+ */
+export const findDependencyViolations = (
+  items: ScheduleItem[],
+  dependencies: ScheduleDependency[],
+): DependencyViolation[] => {
+  const byId = new Map(items.map((item) => [item.id, item]));
+  const violations: DependencyViolation[] = [];
+
+  dependencies.forEach((dependency) => {
+    const predecessor = byId.get(dependency.predecessor_id);
+    const successor = byId.get(dependency.successor_id);
+    if (!predecessor || !successor) return;
+
+    const required = requiredSuccessorDay(
+      dependency.dependency_type,
+      dependency.lag_days || 0,
+      toDayNumber(predecessor.start)!,
+      toDayNumber(predecessor.finish)!,
+    );
+    const constrainedDate =
+      dependency.dependency_type === "FF" ? "finish" : "start";
+    const actual = toDayNumber(successor[constrainedDate])!;
+
+    if (actual < required) {
+      violations.push({
+        dependency,
+        predecessor,
+        successor,
+        constrainedDate,
+        requiredDate: fromDayNumber(required),
+        actualDate: fromDayNumber(actual),
+        daysEarly: required - actual,
+      });
+    }
+  });
+
+  return violations;
+};
+
+/**
+ * True if adding the candidate link would close a loop (the predecessor already
+ * depends, directly or indirectly, on the successor).
+ */
+export const wouldCreateCycle = (
+  dependencies: ScheduleDependency[],
+  candidate: Pick<ScheduleDependency, "predecessor_id" | "successor_id">,
+): boolean => {
+  if (candidate.predecessor_id === candidate.successor_id) return true;
+  const visited = new Set<string>();
+  const stack = [candidate.successor_id];
+  while (stack.length) {
+    const current = stack.pop()!;
+    if (current === candidate.predecessor_id) return true;
+    if (visited.has(current)) continue;
+    visited.add(current);
+    dependencies
+      .filter((d) => d.predecessor_id === current)
+      .forEach((d) => stack.push(d.successor_id));
+  }
+  return false;
+};
+
+/**
+ * Critical path method. Each item keeps its planned duration and may not start
+ * before its planned start; dependencies can only push it later. The forward
+ * pass gives early dates and the project finish, the backward pass late dates.
+ * Items with zero total float are critical.
+ */
+export const calculateCriticalPath = (
+  items: ScheduleItem[],
+  dependencies: ScheduleDependency[],
+): CriticalPathResult => {
+  const empty: CriticalPathResult = {
+    items: {},
+    criticalIds: [],
+    criticalDependencyKeys: [],
+    projectFinish: null,
+    cyclicIds: [],
+  };
+  if (!items.length) return empty;
+
+  const ids = new Set(items.map((item) => item.id));
+  const links = dependencies.filter(
+    (d) =>
+      ids.has(d.predecessor_id) &&
+      ids.has(d.successor_id) &&
+      d.predecessor_id !== d.successor_id,
+  );
+
+  // Topological order (Kahn); whatever is left over sits on a loop
+  const inDegree = new Map<string, number>(items.map((item) => [item.id, 0]));
+  links.forEach((d) =>
+    inDegree.set(d.successor_id, inDegree.get(d.successor_id)! + 1),
+  );
+  const queue = items.filter((item) => inDegree.get(item.id) === 0).map((i) => i.id);
+  const order: string[] = [];
+  while (queue.length) {
+    const id = queue.shift()!;
+    order.push(id);
+    links
+      .filter((d) => d.predecessor_id === id)
+      .forEach((d) => {
+        const remaining = inDegree.get(d.successor_id)! - 1;
+        inDegree.set(d.successor_id, remaining);
+        if (remaining === 0) queue.push(d.successor_id);
+      });
+  }
+  const ordered = new Set(order);
+  const cyclicIds = items.filter((item) => !ordered.has(item.id)).map((i) => i.id);
+  cyclicIds.forEach((id) => order.push(id));
+  const activeLinks = links.filter(
+    (d) => ordered.has(d.predecessor_id) && ordered.has(d.successor_id),
+  );
+
+  const byId = new Map(items.map((item) => [item.id, item]));
+  const duration = new Map<string, number>();
+  const earlyStart = new Map<string, number>();
+  const earlyFinish = new Map<string, number>();
+  const lateStart = new Map<string, number>();
+  const lateFinish = new Map<string, number>();
+
+  // Forward pass
+  order.forEach((id) => {
+    const item = byId.get(id)!;
+    const start = toDayNumber(item.start)!;
+    const length = toDayNumber(item.finish)! - start;
+    duration.set(id, length);
+
+    let es = start;
+    activeLinks
+      .filter((d) => d.successor_id === id)
+      .forEach((d) => {
+        const required = requiredSuccessorDay(
+          d.dependency_type,
+          d.lag_days || 0,
+          earlyStart.get(d.predecessor_id)!,
+          earlyFinish.get(d.predecessor_id)!,
+        );
+        es = Math.max(es, d.dependency_type === "FF" ? required - length : required);
+      });
+    earlyStart.set(id, es);
+    earlyFinish.set(id, es + length);
+  });
+
+  const projectFinish = Math.max(...Array.from(earlyFinish.values()));
+
+  // Backward pass
+  [...order].reverse().forEach((id) => {
+    const length = duration.get(id)!;
+    let lf = projectFinish;
+    activeLinks
+      .filter((d) => d.predecessor_id === id)
+      .forEach((d) => {
+        const lag = d.lag_days || 0;
+        const succLateStart = lateStart.get(d.successor_id)!;
+        const succLateFinish = lateFinish.get(d.successor_id)!;
+        const limit =
+          d.dependency_type === "FS"
+            ? succLateStart - lag
+            : d.dependency_type === "SS"
+              ? succLateStart - lag + length
+              : succLateFinish - lag;
+        lf = Math.min(lf, limit);
+      });
+    lateFinish.set(id, lf);
+    lateStart.set(id, lf - length);
+  });
+
+  const scheduled: Record<string, ScheduledItem> = {};
+  items.forEach((item) => {
+    const totalFloat = lateStart.get(item.id)! - earlyStart.get(item.id)!;
+    scheduled[item.id] = {
+      ...item,
+      earlyStart: fromDayNumber(earlyStart.get(item.id)!),
+      earlyFinish: fromDayNumber(earlyFinish.get(item.id)!),
+      lateStart: fromDayNumber(lateStart.get(item.id)!),
+      lateFinish: fromDayNumber(lateFinish.get(item.id)!),
+      totalFloat,
+      critical: totalFloat <= 0,
+    };
+  });
+
+  const criticalIds = items
+    .filter((item) => scheduled[item.id].critical)
+    .sort((a, b) => earlyStart.get(a.id)! - earlyStart.get(b.id)!)
+    .map((item) => item.id);
+
+  // A link is on the critical path when both ends are critical and it is the
+  // constraint that sets the successor's early date
+  const criticalDependencyKeys = activeLinks
+    .filter((d) => {
+      if (!scheduled[d.predecessor_id].critical) return false;
+      if (!scheduled[d.successor_id].critical) return false;
+      const required = requiredSuccessorDay(
+        d.dependency_type,
+        d.lag_days || 0,
+        earlyStart.get(d.predecessor_id)!,
+        earlyFinish.get(d.predecessor_id)!,
+      );
+      const constrained =
+        d.dependency_type === "FF"
+          ? earlyFinish.get(d.successor_id)!
+          : earlyStart.get(d.successor_id)!;
+      return required === constrained;
+    })
+    .map(dependencyKey);
+
+  return {
+    items: scheduled,
+    criticalIds,
+    criticalDependencyKeys,
+    projectFinish: fromDayNumber(projectFinish),
+    cyclicIds,
+  };
+};
+
+/**
+ * Normalize a dependency from a form item or DB row
+ */
+export const toScheduleDependency = (dependency: any): ScheduleDependency => ({
+  ...(dependency?.id ? { id: dependency.id } : {}),
+  predecessor_type: dependency?.predecessor_type === "task" ? "task" : "milestone",
+  predecessor_id: dependency?.predecessor_id || "",
+  successor_type: dependency?.successor_type === "task" ? "task" : "milestone",
+  successor_id: dependency?.successor_id || "",
+  dependency_type: DEPENDENCY_TYPES.includes(dependency?.dependency_type)
+    ? dependency.dependency_type
+    : "FS",
+  lag_days: Number.isFinite(Number(dependency?.lag_days))
+    ? Math.round(Number(dependency.lag_days))
+    : 0,
+});
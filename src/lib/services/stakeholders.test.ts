@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import {
+  findRaciGaps,
+  isProjectStakeholder,
+  normalizePersonName,
+  personNamesMatch,
+} from "./stakeholders";
+
+describe("normalizePersonName", () => {
+  it("ignores case, accents, initials, punctuation and word order", () => {
+    expect(normalizePersonName("José  A. Núñez")).toBe("jose nunez");
+    expect(personNamesMatch("Doe, Jane", "jane doe")).toBe(true);
+    expect(personNamesMatch("Mary-Ann O'Neil", "maryann oneil")).toBe(true);
+    expect(personNamesMatch("Jane Doe", "John Doe")).toBe(false);
+  });
+
+  it("never matches empty names", () => {
+    expect(personNamesMatch("", "")).toBe(false);
+    expect(personNamesMatch(null, undefined)).toBe(false);
+  });
+});
+
+describe("isProjectStakeholder", () => {
+  const me = { directoryUserId: "du-1", names: ["Jane Doe"] };
+
+  it("matches register rows by directory link even when the name differs", () => {
+    const project = {
+      stakeholders: [{ directory_user_id: "du-1", name: "J. Doe-Smith", role: "sponsor" }],
+    };
+    expect(isProjectStakeholder(project, me, ["sponsor"])).toBe(true);
+    expect(isProjectStakeholder(project, me, ["project_manager"])).toBe(false);
+  });
+
+  it("falls back to normalized names in the register and legacy fields", () => {
+    expect(
+      isProjectStakeholder(
+        { stakeholders: [{ directory_user_id: null, name: "DOE, JANE", role: "business_lead" }] },
+        me,
+      ),
+    ).toBe(true);
+    expect(isProjectStakeholder({ sponsors: "Sam Lee, jane  doe" }, me, ["sponsor"])).toBe(true);
+    expect(isProjectStakeholder({ project_manager: "Jane Doe" }, me, ["sponsor"])).toBe(false);
+  });
+});
+
+describe("findRaciGaps", () => {
+  it("flags milestones without exactly one Accountable or any Responsible", () => {
+    const raci = [
+      { milestone_id: "m1", designation: "A" },
+      { milestone_id: "m1", designation: "R" },
+      { milestone_id: "m2", designation: "A" },
+      { milestone_id: "m2", designation: "A" },
+      { milestone_id: "m2", designation: "R" },
+      { milestone_id: "m3", designation: "C" },
+    ];
+    expect(findRaciGaps(["m1", "m2", "m3"], raci)).toEqual([
+      { milestoneId: "m2", accountable: 2, hasResponsible: true },
+      { milestoneId: "m3", accountable: 0, hasResponsible: false },
+    ]);
+  });
+});
@@ -0,0 +1,267 @@
+/**
+ * File: stakeholders.ts
+ * Purpose: Project stakeholder register and per-milestone RACI matrix, plus
+ * the name matching used to find "my" projects when a person's name was
+ * typed differently across projects.
+ */
+
+import { supabase } from "../supabase";
+import type { Database } from "@/types/supabase";
+
+export type ProjectStakeholder = Database["public"]["Tables"]["project_stakeholders"]["Row"];
+export type StakeholderRaci = Database["public"]["Tables"]["stakeholder_raci"]["Row"];
+
+export type StakeholderRole =
+  | "sponsor"
+  | "business_lead"
+  | "project_manager"
+  | "team_member"
+  | "stakeholder";
+export type RaciDesignation = "R" | "A" | "C" | "I";
+
+export const STAKEHOLDER_ROLES: StakeholderRole[] = [
+  "sponsor",
+  "business_lead",
+  "project_manager",
+  "team_member",
+  "stakeholder",
+];
+
+export const STAKEHOLDER_ROLE_LABELS: Record<StakeholderRole, string> = {
+  sponsor: "Sponsor",
+  business_lead: "Business Lead",
+  project_manager: "Project Manager",
+  team_member: "Team Member",
+  stakeholder: "Stakeholder",
+};
+
+/** Roles that "lead" a project for the "projects I sponsor / lead" filter */
+export const LEADERSHIP_ROLES: StakeholderRole[] = ["sponsor", "business_lead", "project_manager"];
+
+export const RACI_DESIGNATIONS: RaciDesignation[] = ["R", "A", "C", "I"];
+
+export const RACI_LABELS: Record<RaciDesignation, string> = {
+  R: "Responsible",
+  A: "Accountable",
+  C: "Consulted",
+  I: "Informed",
+};
+
+export const RACI_CLASSES: Record<RaciDesignation, string> = {
+  R: "bg-blue-100 text-blue-800 border-blue-300",
+  A: "bg-purple-100 text-purple-800 border-purple-300",
+  C: "bg-amber-100 text-amber-800 border-amber-300",
+  I: "bg-gray-100 text-gray-700 border-gray-300",
+};
+
+/**
+ * Comparable form of a person's name: case, accents, punctuation, middle
+ * initials and word order are ignored, and "Doe, Jane" reads as "Jane Doe".
+ */
+export const normalizePersonName = (name: string | null | undefined): string => {
+  let value = (name || "").normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase().trim();
+  const parts = value.split(",");
+  if (parts.length === 2) value = `${parts[1]} ${parts[0]}`;
+  const tokens = value
+    .replace(/[^a-z0-9\s'-]/g, " ")
+    .replace(/['-]/g, "")
+    .split(/\s+/)
+    .filter((t) => t.length > 1);
+  return tokens.sort().join(" ");
+};
+
+export const personNamesMatch = (a: string | null | undefined, b: string | null | undefined): boolean => {
+  const na = normalizePersonName(a);
+  return na !== "" && na === normalizePersonName(b);
+};
+
+/** Who "I" am when matching projects: my directory entry plus my known names */
+export interface StakeholderIdentity {
+  directoryUserId: string | null;
+  names: string[];
+}
+
+/**
+ * Whether the person holds one of the given roles on the project. Register
+ * rows match on the directory link first and on the name otherwise; the
+ * legacy name fields are checked too, since not every project keeps its
+ * register complete.
+ */
+export const isProjectStakeholder = (
+  project: {
+    sponsors?: string | null;
+    business_leads?: string | null;
+    project_manager?: string | null;
+    stakeholders?: Array<Pick<ProjectStakeholder, "directory_user_id" | "name" | "role">>;
+  },
+  identity: StakeholderIdentity,
+  roles: StakeholderRole[] = LEADERSHIP_ROLES,
+): boolean => {
+  const isMe = (name: string | null | undefined, directoryUserId?: string | null) =>
+    (!!directoryUserId && directoryUserId === identity.directoryUserId) ||
+    identity.names.some((n) => personNamesMatch(n, name));
+
+  const inRegister = (project.stakeholders || []).some(
+    (s) => roles.includes(s.role as StakeholderRole) && isMe(s.name, s.directory_user_id),
+  );
+  if (inRegister) return true;
+
+  const legacy: Partial<Record<StakeholderRole, string | null | undefined>> = {
+    sponsor: project.sponsors,
+    business_lead: project.business_leads,
+    project_manager: project.project_manager,
+  };
+  return roles.some((role) =>
+    (legacy[role] || "")
+      .split(/[,;]/)
+      .some((name) => isMe(name)),
+  );
+};
+
+export interface RaciGap {
+  milestoneId: string;
+  /** Number of stakeholders marked Accountable; RACI expects exactly one */
+  accountable: number;
+  hasResponsible: boolean;
+}
+
+/**
+ * Milestones whose RACI column breaks the usual rules: exactly one
+ * Accountable and at least one Responsible.
+ */
+export const findRaciGaps = (
+  milestoneIds: string[],
+  raci: Array<Pick<StakeholderRaci, "milestone_id" | "designation">>,
+): RaciGap[] =>
+  milestoneIds
+    .map((milestoneId) => {
+      const column = raci.filter((r) => r.milestone_id === milestoneId);
+      return {
+        milestoneId,
+        accountable: column.filter((r) => r.designation === "A").length,
+        hasResponsible: column.some((r) => r.designation === "R"),
+      };
+    })
+    .filter((gap) => gap.accountable !== 1 || !gap.hasResponsible);
+
+export const stakeholderService = {
+  async getStakeholders(
+    projectId: string,
+  ): Promise<{ stakeholders: ProjectStakeholder[]; raci: StakeholderRaci[] }> {
+    const [stakeholders, raci] = await Promise.all([
+      supabase
+        .from("project_stakeholders")
+        .select("*")
+        .eq("project_id", projectId)
+        .order("created_at", { ascending: true }),
+      supabase.from("stakeholder_raci").select("*").eq("project_id", projectId),
+    ]);
+    if (stakeholders.error || raci.error) {
+      console.error("[STAKEHOLDERS] Error fetching register:", stakeholders.error || raci.error);
+      return { stakeholders: [], raci: [] };
+    }
+    const order = (role: string) => STAKEHOLDER_ROLES.indexOf(role as StakeholderRole);
+    return {
+      stakeholders: [...(stakeholders.data || [])].sort((a, b) => order(a.role) - order(b.role)),
+      raci: raci.data || [],
+    };
+  },
+
+  async addStakeholder(
+    projectId: string,
+    fields: { name: string; role: StakeholderRole; responsibilities?: string | null },
+  ): Promise<ProjectStakeholder | null> {
+    if (!fields.name.trim()) {
+      console.error("[STAKEHOLDERS] A stakeholder needs a name");
+      return null;
+    }
+    const { data, error } = await supabase
+      .from("project_stakeholders")
+      .insert({
+        project_id: projectId,
+        name: fields.name.trim(),
+        role: fields.role,
+        responsibilities: fields.responsibilities?.trim() || null,
+      })
+      .select()
+      .single();
+    if (error) {
+      console.error("[STAKEHOLDERS] Failed to add stakeholder:", error);
+      return null;
+    }
+    return data;
+  },
+
+  async updateStakeholder(
+    stakeholderId: string,
+    fields: Partial<{ name: string; role: StakeholderRole; responsibilities: string | null }>,
+  ): Promise<boolean> {
+    const { error } = await supabase
+      .from("project_stakeholders")
+      .update(fields)
+      .eq("id", stakeholderId);
+    if (error) {
+      console.error("[STAKEHOLDERS] Failed to update stakeholder:", error);
+      return false;
+    }
+    return true;
+  },
+
+  async deleteStakeholder(stakeholderId: string): Promise<boolean> {
+    const { error } = await supabase
+      .from("project_stakeholders")
+      .delete()
+      .eq("id", stakeholderId);
+    if (error) {
+      console.error("[STAKEHOLDERS] Failed to delete stakeholder:", error);
+      return false;
+    }
+    return true;
+  },
+
+  /** Set or clear (null) a stakeholder's designation for a milestone */
+  async setRaci(
+    projectId: string,
+    stakeholderId: string,
+    milestoneId: string,
+    designation: RaciDesignation | null,
+  ): Promise<boolean> {
+    const { error } = designation
+      ? await supabase
+          .from("stakeholder_raci")
+          .upsert(
+            { project_id: projectId, stakeholder_id: stakeholderId, milestone_id: milestoneId, designation },
+            { onConflict: "stakeholder_id,milestone_id" },
+          )
+      : await supabase
+          .from("stakeholder_raci")
+          .delete()
+          .eq("stakeholder_id", stakeholderId)
+          .eq("milestone_id", milestoneId);
+    if (error) {
+      console.error("[STAKEHOLDERS] Failed to update RACI:", error);
+      return false;
+    }
+    return true;
+  },
+
+  /** The signed-in user's identity for stakeholder matching */
+  async getIdentity(email: string | null | undefined, fullName: string | null | undefined): Promise<StakeholderIdentity> {
+    const names = fullName ? [fullName] : [];
+    if (!email) return { directoryUserId: null, names };
+
+    const { data, error } = await supabase
+      .from("directory_users")
+      .select("id, display_name")
+      .ilike("email", email)
+      .limit(1)
+      .maybeSingle();
+    if (error) {
+      console.error("[STAKEHOLDERS] Error looking up directory user:", error);
+    }
+    return {
+      directoryUserId: data?.id ?? null,
+      names: data?.display_name ? [...names, data.display_name] : names,
+    };
+  },
+};
@@ -18,7 +18,12 @@ export interface ProjectsOverviewPreferences {
     healthStatus: string;
     department: string;
     manager: string;
+    program: string;
+    /** "all", "stale" or "current" */
+    staleness: string;
   };
+  /** Show the table as one swimlane per program */
+  groupByProgram: boolean;
 }
 
 const PREFERENCES_KEY_PREFIX = "projects_overview_preferences_";
@@ -104,6 +109,9 @@ export const getDefaultPreferences = (): ProjectsOverviewPreferences => {
       healthStatus: "all",
       department: "all",
       manager: "all",
+      program: "all",
+      staleness: "all",
     },
+    groupByProgram: false,
   };
 };
@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyProjectMerge,
+  buildProjectMerge,
+  getConflictingFields,
+  projectToFormFields,
+} from "./projectMerge";
+
+const baseForm = () =>
+  projectToFormFields({
+    project_id: "P-1",
+    title: "Warehouse move",
+    description: "Move to the new site",
+    status: "active",
+    budget_total: 1000,
+    budget_actuals: 200,
+    budget_forecast: 300,
+    sponsors: "Alex",
+    project_manager: "Sam",
+    milestones: [
+      { id: "m1", date: "2026-01-05", milestone: "Plan", owner: "Sam", completion: 50, status: "green", weight: 3 },
+    ],
+    risks: [{ id: "r1", description: "Vendor delay", impact: "High" }],
+    considerations: [],
+    changes: [],
+  });
+
+const keys = (fields: { key: string }[]) => fields.map((f) => f.key);
+
+describe("projectToFormFields", () => {
+  it("formats budgets the way the project form does", () => {
+    expect(baseForm().budget).toEqual({
+      total: "1,000.00",
+      actuals: "200.00",
+      forecast: "300.00",
+    });
+  });
+});
+
+describe("buildProjectMerge", () => {
+  it("reports no fields when both sides are identical", () => {
+    const base = baseForm();
+    expect(buildProjectMerge(base, base, base).fields).toEqual([]);
+  });
+
+  it("defaults to theirs for fields only the other editor changed", () => {
+    const base = baseForm();
+    const mine = { ...base, title: "Warehouse relocation" };
+    const theirs = { ...base, sponsors: "Alex, Jordan" };
+
+    const merge = buildProjectMerge(base, mine, theirs);
+
+    expect(keys(merge.fields)).toEqual(["title", "sponsors"]);
+    expect(merge.fields[0]).toMatchObject({ changedByMe: true, changedByThem: false, defaultChoice: "mine" });
+    expect(merge.fields[1]).toMatchObject({ changedByMe: false, changedByThem: true, defaultChoice: "theirs" });
+    expect(getConflictingFields(merge)).toEqual([]);
+
+    expect(applyProjectMerge(merge)).toMatchObject({
+      title: "Warehouse relocation",
+      sponsors: "Alex, Jordan",
+    });
+  });
+
+  it("flags fields both editors changed as conflicts and honours the choice", () => {
+    const base = baseForm();
+    const mine = { ...base, budget: { ...base.budget, total: "1,500.00" } };
+    const theirs = { ...base, budget: { ...base.budget, total: "2,000.00" } };
+
+    const merge = buildProjectMerge(base, mine, theirs);
+
+    expect(keys(getConflictingFields(merge))).toEqual(["budget.total"]);
+    expect(applyProjectMerge(merge).budget.total).toBe("1,500.00");
+    expect(
+      applyProjectMerge(merge, { "budget.total": "theirs" }).budget,
+    ).toEqual({ total: "2,000.00", actuals: "200.00", forecast: "300.00" });
+  });
+
+  it("groups granular milestone changes into one field with descriptions", () => {
+    const base = baseForm();
+    const theirs = {
+      ...base,
+      milestones: [{ ...base.milestones[0], completion: 80 }],
+    };
+
+    const merge = buildProjectMerge(base, base, theirs);
+
+    expect(keys(merge.fields)).toEqual(["milestones"]);
+    expect(merge.fields[0].theirChanges).toEqual([
+      "Milestone completion changed from 50% to 80%",
+    ]);
+    expect(applyProjectMerge(merge).milestones[0].completion).toBe(80);
+  });
+
+  it("detects fields compareVersions does not track", () => {
+    const base = baseForm();
+    const theirs = { ...base, department: "Operations" };
+
+    const merge = buildProjectMerge(base, base, theirs);
+
+    expect(keys(merge.fields)).toEqual(["department"]);
+  });
+});
@@ -0,0 +1,393 @@
+/**
+ * Project Merge Utilities
+ * Three-way merge of project form data after a save conflict: the version the
+ * form was loaded from (base), the user's unsaved edits (mine) and the version
+ * another editor saved in the meantime (theirs).
+ */
+
+import {
+  compareVersions,
+  getChangeDescription,
+  type VersionChanges,
+} from "./versionComparison";
+import { toChangeRequestFields } from "@/lib/services/changeRequests";
+import { toDecisionFields, toIssueFields } from "@/lib/services/projectLogs";
+import { toRiskRegisterFields } from "@/lib/services/riskRegister";
+import {
+  toScheduleDependency,
+  type ScheduleDependency,
+} from "@/lib/services/scheduleDependencies";
+
+// A row of one of the list sections; each section owns the rest of its shape
+type FormRow = { id?: string } & Record<string, unknown>;
+
+/**
+ * Form-shaped project data as used by useProjectForm / ProjectForm: the fields
+ * that take part in a merge. The form also keeps state of its own (analysis,
+ * revision), which merges leave alone.
+ */
+export interface ProjectFormData {
+  projectId: string;
+  title: string;
+  description: string;
+  valueStatement: string;
+  status: string;
+  health_calculation_type: string;
+  manual_health_percentage: number;
+  manual_status_color: string;
+  manual_status_reason: string;
+  manual_status_expires_at: string;
+  budget: { total: string; actuals: string; forecast: string };
+  charterLink: string;
+  sponsors: string;
+  businessLeads: string;
+  projectManager: string;
+  department: string;
+  program_id: string | null;
+  milestones: FormRow[];
+  accomplishments: FormRow[];
+  nextPeriodActivities: FormRow[];
+  risks: FormRow[];
+  considerations: string[];
+  changes: FormRow[];
+  decisions: FormRow[];
+  issues: FormRow[];
+  dependencies: ScheduleDependency[];
+}
+
+export type MergeChoice = "mine" | "theirs";
+
+export interface MergeField {
+  key: string;
+  label: string;
+  mine: unknown;
+  theirs: unknown;
+  changedByMe: boolean;
+  changedByThem: boolean;
+  myChanges: string[];
+  theirChanges: string[];
+  defaultChoice: MergeChoice;
+}
+
+export interface ProjectMerge {
+  mine: ProjectFormData;
+  theirs: ProjectFormData;
+  fields: MergeField[];
+}
+
+interface MergeFieldDef {
+  key: string;
+  label: string;
+  // compareVersions keys (or key prefixes ending in "_") that belong to this field
+  versionKeys: string[];
+  get: (data: ProjectFormData) => unknown;
+  // Takes a value get() returned for the same field of another version
+  set: (data: ProjectFormData, value: unknown) => ProjectFormData;
+}
+
+const simpleField = <K extends keyof ProjectFormData>(
+  key: K,
+  label: string,
+  versionKeys: string[] = [],
+): MergeFieldDef => ({
+  key,
+  label,
+  versionKeys,
+  get: (data) => data[key],
+  set: (data, value) => ({ ...data, [key]: value as ProjectFormData[K] }),
+});
+
+const budgetField = (
+  part: "total" | "actuals" | "forecast",
+  label: string,
+): MergeFieldDef => ({
+  key: `budget.${part}`,
+  label,
+  versionKeys: [`budget_${part}`],
+  get: (data) => data.budget?.[part],
+  set: (data, value) => ({
+    ...data,
+    budget: { ...data.budget, [part]: typeof value === "string" ? value : "" },
+  }),
+});
+
+// Fields with an empty versionKeys list are not covered by compareVersions and
+// are compared directly.
+const MERGE_FIELDS: MergeFieldDef[] = [
+  simpleField("projectId", "Project ID"),
+  simpleField("title", "Title", ["title"]),
+  simpleField("description", "Description", ["description"]),
+  simpleField("valueStatement", "Value Statement"),
+  simpleField("status", "Status", ["status"]),
+  budgetField("total", "Budget Total"),
+  budgetField("actuals", "Budget Actuals"),
+  budgetField("forecast", "Budget Forecast"),
+  simpleField("charterLink", "Charter Link", ["charter_link"]),
+  simpleField("sponsors", "Sponsors", ["sponsors"]),
+  simpleField("businessLeads", "Business Leads", ["business_leads"]),
+  simpleField("projectManager", "Project Manager", ["project_manager"]),
+  simpleField("department", "Department"),
+  simpleField("program_id", "Program"),
+  simpleField("health_calculation_type", "Health Calculation", [
+    "health_calculation_type",
+  ]),
+  simpleField("manual_health_percentage", "Manual Health %", [
+    "manual_health_percentage",
+  ]),
+  simpleField("manual_status_color", "Status Color", ["manual_status_color"]),
+  simpleField("manual_status_reason", "Override Justification"),
+  simpleField("manual_status_expires_at", "Override Expiry"),
+  simpleField("milestones", "Milestones", ["milestone_"]),
+  simpleField("dependencies", "Dependencies"),
+  simpleField("accomplishments", "Accomplishments", ["accomplishments"]),
+  simpleField("nextPeriodActivities", "Next Period Activities", [
+    "next_period_activities",
+  ]),
+  simpleField("risks", "Risks", ["risks"]),
+  simpleField("considerations", "Considerations", ["considerations"]),
+  simpleField("changes", "Changes", ["changes"]),
+  simpleField("decisions", "Decisions"),
+  simpleField("issues", "Issues"),
+];
+
+const parseCurrency = (value: unknown): number => {
+  if (typeof value === "number") return value;
+  if (!value || String(value).trim() === "") return 0;
+  return parseFloat(String(value).replace(/[^0-9.-]+/g, "")) || 0;
+};
+
+const formatCurrency = (value: number | null | undefined) => {
+  return value
+    ? value
+        .toLocaleString("en-US", {
+          style: "currency",
+          currency: "USD",
+        })
+        .replace("$", "")
+    : "0.00";
+};
+
+/**
+ * Map a persisted project to the form fields that take part in a merge.
+ * Mirrors the mapping ProjectDashboard uses to load the form.
+ */
+export const projectToFormFields = (project: any): ProjectFormData => ({
+  projectId: (project.project_id ?? "").toString(),
+  title: project.title || "",
+  description: project.description || "",
+  valueStatement: project.value_statement || "",
+  status: project.status || "active",
+  health_calculation_type: project.health_calculation_type || "automatic",
+  manual_health_percentage: project.manual_health_percentage || 0,
+  manual_status_color: project.manual_status_color || "green",
+  manual_status_reason: project.manual_status_reason || "",
+  manual_status_expires_at: project.manual_status_expires_at || "",
+  budget: {
+    total: project.budget_total ? formatCurrency(project.budget_total) : "",
+    actuals: project.budget_actuals
+      ? formatCurrency(project.budget_actuals)
+      : "",
+    forecast: project.budget_forecast
+      ? formatCurrency(project.budget_forecast)
+      : "",
+  },
+  charterLink: project.charter_link || "",
+  sponsors: project.sponsors || "",
+  businessLeads: project.business_leads || "",
+  projectManager: project.project_manager || "",
+  department: project.department || "",
+  program_id: project.program_id || null,
+  milestones: project.milestones || [],
+  accomplishments:
+    project.accomplishments?.map((a: any) => ({
+      id: a.id,
+      description: a.description || "",
+      source_type: a.source_type || "manual",
+      source_id: a.source_id || null,
+      is_hidden: a.is_hidden || false,
+      is_deleted: a.is_deleted || false,
+      auto_generated: a.auto_generated || false,
+    })) || [],
+  nextPeriodActivities:
+    project.next_period_activities?.map((a: any) => ({
+      id: a.id,
+      description: a.description || "",
+      date: a.date || new Date().toISOString().split("T")[0],
+      completion: a.completion || 0,
+      assignee: a.assignee || "",
+      allocation_percent: a.allocation_percent ?? null,
+      allocation_hours: a.allocation_hours ?? null,
+      sub_activities: (a.sub_activities as any[]) || [],
+    })) || [],
+  risks:
+    project.risks?.map((r: any) => ({
+      id: r.id,
+      description: r.description || "",
+      impact: r.impact || "",
+      ...toRiskRegisterFields(r),
+    })) || [],
+  considerations:
+    project.considerations?.map((c: any) =>
+      typeof c === "string" ? c : c.description || "",
+    ) || [],
+  changes:
+    project.changes?.map((c: any) => ({
+      id: c.id,
+      created_at: c.created_at || null,
+      change: c.change || "",
+      impact: c.impact || "",
+      disposition: c.disposition || "",
+      ...toChangeRequestFields(c),
+    })) || [],
+  decisions: (project.decisions || []).map((d: any) => ({
+    id: d.id,
+    ...toDecisionFields(d),
+  })),
+  issues: (project.issues || []).map((i: any) => ({
+    id: i.id,
+    ...toIssueFields(i),
+  })),
+  dependencies: (project.dependencies || []).map(toScheduleDependency),
+});
+
+/**
+ * Convert form data to the (database-shaped) structure compareVersions expects
+ */
+const toComparable = (data: ProjectFormData) => ({
+  title: data.title,
+  description: data.description,
+  status: data.status,
+  budget_total: parseCurrency(data.budget?.total),
+  budget_actuals: parseCurrency(data.budget?.actuals),
+  budget_forecast: parseCurrency(data.budget?.forecast),
+  sponsors: data.sponsors,
+  business_leads: data.businessLeads,
+  project_manager: data.projectManager,
+  charter_link: data.charterLink,
+  health_calculation_type: data.health_calculation_type,
+  manual_health_percentage: data.manual_health_percentage,
+  manual_status_color: data.manual_status_color,
+  milestones: data.milestones || [],
+  accomplishments: data.accomplishments || [],
+  next_period_activities: data.nextPeriodActivities || [],
+  risks: data.risks || [],
+  considerations: data.considerations || [],
+  changes: data.changes || [],
+});
+
+// Milestone attributes compareVersions does not look at (weight, end date, forecast, ids)
+const milestoneSignature = (milestones: FormRow[] = []) =>
+  JSON.stringify(
+    milestones.map((m) => [
+      m.milestone || "",
+      m.date || "",
+      m.end_date || "",
+      m.weight || 3,
+      m.forecast_date || "",
+    ]),
+  );
+
+const normalize = (value: unknown) => {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value).trim();
+};
+
+/**
+ * Return the compareVersions entries that belong to a merge field
+ */
+const changesForField = (
+  def: MergeFieldDef,
+  changes: VersionChanges,
+): string[] =>
+  Object.keys(changes)
+    .filter((changeKey) =>
+      def.versionKeys.some((versionKey) =>
+        versionKey.endsWith("_")
+          ? changeKey.startsWith(versionKey)
+          : changeKey === versionKey,
+      ),
+    )
+    .map((changeKey) => getChangeDescription(changes[changeKey]));
+
+const fieldDiffers = (
+  def: MergeFieldDef,
+  current: ProjectFormData,
+  previous: ProjectFormData,
+  changes: VersionChanges,
+): boolean => {
+  if (def.versionKeys.length === 0) {
+    return normalize(def.get(current)) !== normalize(def.get(previous));
+  }
+  if (changesForField(def, changes).length > 0) return true;
+  if (def.key === "milestones") {
+    return (
+      milestoneSignature(current.milestones) !==
+      milestoneSignature(previous.milestones)
+    );
+  }
+  return false;
+};
+
+/**
+ * Work out which fields differ between the user's edits and the version saved
+ * by someone else, and who changed each of them relative to the base.
+ */
+export const buildProjectMerge = (
+  base: ProjectFormData,
+  mine: ProjectFormData,
+  theirs: ProjectFormData,
+): ProjectMerge => {
+  const comparableBase = toComparable(base);
+  const comparableMine = toComparable(mine);
+  const comparableTheirs = toComparable(theirs);
+
+  const myChanges = compareVersions(comparableMine, comparableBase);
+  const theirChanges = compareVersions(comparableTheirs, comparableBase);
+  const remaining = compareVersions(comparableMine, comparableTheirs);
+
+  const fields: MergeField[] = [];
+
+  MERGE_FIELDS.forEach((def) => {
+    if (!fieldDiffers(def, mine, theirs, remaining)) return;
+
+    const changedByMe = fieldDiffers(def, mine, base, myChanges);
+    const changedByThem = fieldDiffers(def, theirs, base, theirChanges);
+
+    fields.push({
+      key: def.key,
+      label: def.label,
+      mine: def.get(mine),
+      theirs: def.get(theirs),
+      changedByMe,
+      changedByThem,
+      myChanges: changesForField(def, myChanges),
+      theirChanges: changesForField(def, theirChanges),
+      defaultChoice: changedByThem && !changedByMe ? "theirs" : "mine",
+    });
+  });
+
+  return { mine, theirs, fields };
+};
+
+/**
+ * Fields both editors changed to different values — these need a decision
+ */
+export const getConflictingFields = (merge: ProjectMerge): MergeField[] =>
+  merge.fields.filter((field) => field.changedByMe && field.changedByThem);
+
+/**
+ * Build the merged form data: start from the user's edits and take the other
+ * editor's value for every field resolved to "theirs".
+ */
+export const applyProjectMerge = (
+  merge: ProjectMerge,
+  choices: Record<string, MergeChoice> = {},
+): ProjectFormData => {
+  return merge.fields.reduce((result, field) => {
+    const choice = choices[field.key] ?? field.defaultChoice;
+    if (choice !== "theirs") return result;
+    const def = MERGE_FIELDS.find((d) => d.key === field.key);
+    return def ? def.set(result, field.theirs) : result;
+  }, merge.mine);
+};
@@ -436,17 +436,29 @@ export const compareVersions = (
           return {
             description: normalizeValue(item) || "",
             impact: "",
+            probability: null,
+            impact_score: null,
+            owner: "",
+            status: "open",
           };
         }
         if (typeof item === "object" && item !== null) {
           return {
             description: normalizeValue(item.description) || "",
             impact: normalizeValue(item.impact) || "",
+            probability: normalizeValue(item.probability),
+            impact_score: normalizeValue(item.impact_score),
+            owner: normalizeValue(item.owner) || "",
+            status: normalizeValue(item.status) || "open",
           };
         }
         return {
           description: "",
           impact: "",
+          probability: null,
+          impact_score: null,
+          owner: "",
+          status: "open",
         };
       })
       .filter((item) => item.description !== ""); // Remove items with empty descriptions
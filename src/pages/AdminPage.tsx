@@ -7,6 +7,9 @@ import DepartmentMappingManager from "@/components/admin/DepartmentMappingManage
 import SupabaseMetrics from "@/components/admin/SupabaseMetrics";
 import PendingUsersManager from "@/components/admin/PendingUsersManager";
 import ProjectDurationManager from "@/components/admin/ProjectDurationManager";
+import HolidayCalendarManager from "@/components/admin/HolidayCalendarManager";
+import StalenessThresholdsManager from "@/components/admin/StalenessThresholdsManager";
+import ComputedStatusColorManager from "@/components/admin/ComputedStatusColorManager";
 import UsageAnalytics from "@/components/admin/UsageAnalytics";
 import AIUsageAnalytics from "@/components/admin/AIUsageAnalytics";
 import { useAuth } from "@/lib/hooks/useAuth";
@@ -194,7 +197,8 @@ const AdminPage: React.FC = () => {
         // Load projects
         const { data: projectsData } = await supabase
           .from("projects")
-          .select("*, milestones(count)");
+          .select("*, milestones(count)")
+          .is("deleted_at", null);
 
         setProjects(projectsData || []);
 
@@ -1260,6 +1264,8 @@ const AdminPage: React.FC = () => {
           </TabsContent>
 
           <TabsContent value="reminders" className="space-y-4">
+            <StalenessThresholdsManager />
+
             {/* Stats Cards */}
             <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
               <Card className="bg-card border border-border">
@@ -1530,6 +1536,7 @@ const AdminPage: React.FC = () => {
 
           <TabsContent value="duration" className="space-y-4">
             <ProjectDurationManager />
+            <HolidayCalendarManager />
           </TabsContent>
 
           <TabsContent value="status-colors" className="space-y-4">
@@ -1579,6 +1586,7 @@ const AdminPage: React.FC = () => {
                 </CardContent>
               </Card>
             </div>
+            <ComputedStatusColorManager />
           </TabsContent>
         </Tabs>
 
@@ -0,0 +1,266 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { ArrowLeft } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectTrigger, SelectContent, SelectItem, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import Layout from "@/components/layout/Layout";
+import ProjectGantt, { TimelineMilestone } from "@/components/timeline/ProjectGantt";
+import {
+  calculateProjectHealthStatusColor,
+  calculateWeightedCompletion,
+  type ProjectWithRelations,
+} from "@/lib/services/project";
+import {
+  calculateProgramRollup,
+  programsService,
+  PROGRAM_HEALTH_LABELS,
+  type Program,
+  type ProgramHealth,
+} from "@/lib/services/programs";
+import { formatCurrency } from "@/lib/report/format";
+
+const HEALTH_DOT_CLASSES: Record<ProgramHealth, string> = {
+  green: "bg-green-500",
+  yellow: "bg-yellow-500",
+  red: "bg-red-500",
+};
+
+const stripHtml = (text: string | null | undefined) =>
+  text ? text.replace(/<[^>]*>/g, "") : "Untitled Project";
+
+const formatDate = (ymd: string | null) =>
+  ymd ? new Date(`${ymd}T00:00:00`).toLocaleDateString() : "—";
+
+const ProgramStatusPage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [program, setProgram] = useState<Program | null>(null);
+  const [projects, setProjects] = useState<ProjectWithRelations[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [zoom, setZoom] = useState<"weekly" | "monthly" | "quarterly" | "yearly">("quarterly");
+
+  useEffect(() => {
+    const load = async () => {
+      if (!id) return;
+      setLoading(true);
+      const [loadedProgram, children] = await Promise.all([
+        programsService.getProgram(id),
+        programsService.getProgramProjects(id),
+      ]);
+      setProgram(loadedProgram);
+      setProjects(children);
+      setLoading(false);
+    };
+    load();
+  }, [id]);
+
+  const rollup = useMemo(() => calculateProgramRollup(projects), [projects]);
+
+  // One bar per child project, as on the roadmap
+  const projectBars: TimelineMilestone[] = projects
+    .filter((p) => p.calculated_start_date && p.calculated_end_date)
+    .map((p) => ({
+      date: p.calculated_start_date!,
+      endDate: p.calculated_end_date!,
+      milestone: stripHtml(p.title),
+      status: p.computed_status_color || calculateProjectHealthStatusColor(p),
+      completion: calculateWeightedCompletion(p.milestones),
+      owner: p.project_manager || "",
+      tasksCount: 0,
+    }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="min-h-screen flex items-center justify-center bg-background">
+          <div className="text-muted-foreground">Loading program…</div>
+        </div>
+      </Layout>
+    );
+  }
+
+  if (!program) {
+    return (
+      <Layout>
+        <div className="min-h-screen flex flex-col items-center justify-center gap-4 bg-background">
+          <div className="text-destructive">Program not found</div>
+          <Button variant="outline" onClick={() => navigate("/programs")}>
+            Back to Programs
+          </Button>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="w-full p-6 bg-background space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <div className="flex items-center gap-3">
+              <span className={`w-3 h-3 rounded-full ${HEALTH_DOT_CLASSES[rollup.health]}`} />
+              <h1 className="text-2xl font-bold text-foreground">{program.name}</h1>
+              <Badge variant="outline">{PROGRAM_HEALTH_LABELS[rollup.health]}</Badge>
+            </div>
+            <p className="text-sm text-muted-foreground mt-1">
+              {program.program_manager ? `Program Manager: ${program.program_manager}` : "Program status"}
+            </p>
+            {program.description && (
+              <p className="text-sm text-foreground mt-2 max-w-3xl">{program.description}</p>
+            )}
+          </div>
+          <Button variant="ghost" onClick={() => navigate("/programs")} className="flex items-center gap-2">
+            <ArrowLeft className="h-4 w-4" />
+            Back to Programs
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <Card className="bg-card border-border">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">Completion</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold text-foreground">{rollup.weightedCompletion}%</div>
+              <Progress value={rollup.weightedCompletion} className="h-2 mt-2" />
+            </CardContent>
+          </Card>
+          <Card className="bg-card border-border">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">Health</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold text-foreground">{PROGRAM_HEALTH_LABELS[rollup.health]}</div>
+              <p className="text-xs text-muted-foreground mt-1">
+                {rollup.healthCounts.green} on track · {rollup.healthCounts.yellow} at risk ·{" "}
+                {rollup.healthCounts.red} critical
+              </p>
+            </CardContent>
+          </Card>
+          <Card className="bg-card border-border">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">Budget</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold text-foreground">{formatCurrency(rollup.budgetTotal)}</div>
+              <p className="text-xs text-muted-foreground mt-1">
+                Actuals {formatCurrency(rollup.budgetActuals)} · Forecast {formatCurrency(rollup.budgetForecast)}
+              </p>
+              <p className={`text-xs mt-1 ${rollup.budgetVariance < 0 ? "text-red-600" : "text-muted-foreground"}`}>
+                Variance {formatCurrency(rollup.budgetVariance)}
+              </p>
+            </CardContent>
+          </Card>
+          <Card className="bg-card border-border">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">Schedule</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-lg font-bold text-foreground">
+                {formatDate(rollup.startDate)} – {formatDate(rollup.endDate)}
+              </div>
+              <p className="text-xs text-muted-foreground mt-1">
+                {rollup.projectCount} project{rollup.projectCount === 1 ? "" : "s"}
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card className="bg-card border-border">
+          <CardHeader>
+            <CardTitle className="text-foreground">Projects</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Project</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Health</TableHead>
+                  <TableHead>Completion</TableHead>
+                  <TableHead>Budget</TableHead>
+                  <TableHead>End Date</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {projects.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                      No projects are assigned to this program yet.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  projects.map((project) => {
+                    const health = project.computed_status_color || calculateProjectHealthStatusColor(project);
+                    return (
+                      <TableRow
+                        key={project.id}
+                        className="cursor-pointer hover:bg-muted/50"
+                        onClick={() => navigate(`/project/${project.id}`)}
+                      >
+                        <TableCell className="font-medium text-blue-600">{stripHtml(project.title)}</TableCell>
+                        <TableCell className="capitalize">{project.status.replace("_", " ")}</TableCell>
+                        <TableCell>
+                          <span className="flex items-center gap-2">
+                            <span className={`w-2 h-2 rounded-full ${HEALTH_DOT_CLASSES[health]}`} />
+                            {PROGRAM_HEALTH_LABELS[health]}
+                          </span>
+                        </TableCell>
+                        <TableCell>{calculateWeightedCompletion(project.milestones)}%</TableCell>
+                        <TableCell>{formatCurrency(project.budget_total)}</TableCell>
+                        <TableCell>{formatDate(project.calculated_end_date)}</TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        {projectBars.length > 0 && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-end gap-2">
+              <span className="text-sm text-muted-foreground">Zoom</span>
+              <Select value={zoom} onValueChange={(v) => setZoom(v as any)}>
+                <SelectTrigger className="w-[140px]">
+                  <SelectValue placeholder="Quarterly" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="weekly">Weekly</SelectItem>
+                  <SelectItem value="monthly">Monthly</SelectItem>
+                  <SelectItem value="quarterly">Quarterly</SelectItem>
+                  <SelectItem value="yearly">Yearly</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <ProjectGantt
+              projectTitle={`${program.name} Timeline`}
+              startDate={rollup.startDate}
+              endDate={rollup.endDate}
+              zoom={zoom}
+              overallStatusColor={rollup.health}
+              healthCalculationType={null}
+              milestones={projectBars}
+              rowLabelText="Project"
+            />
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default ProgramStatusPage;
@@ -0,0 +1,252 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { ArrowLeft, Layers, Pencil, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/components/ui/use-toast";
+import { Toaster } from "@/components/ui/toaster";
+import Layout from "@/components/layout/Layout";
+import ProgramDialog from "@/components/programs/ProgramDialog";
+import { useAuth } from "@/lib/hooks/useAuth";
+import { projectService, type ProjectWithRelations } from "@/lib/services/project";
+import {
+  calculateProgramRollup,
+  programsService,
+  PROGRAM_HEALTH_LABELS,
+  type Program,
+  type ProgramHealth,
+} from "@/lib/services/programs";
+import { formatCurrency } from "@/lib/report/format";
+
+const HEALTH_BADGE_CLASSES: Record<ProgramHealth, string> = {
+  green: "bg-green-100 text-green-800 border-green-200",
+  yellow: "bg-yellow-100 text-yellow-800 border-yellow-200",
+  red: "bg-red-100 text-red-800 border-red-200",
+};
+
+const ProgramsPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { user, isAdmin } = useAuth();
+  const [programs, setPrograms] = useState<Program[]>([]);
+  const [projects, setProjects] = useState<ProjectWithRelations[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingProgram, setEditingProgram] = useState<Program | null>(null);
+  const [deletingProgram, setDeletingProgram] = useState<Program | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      const [allPrograms, allProjects] = await Promise.all([
+        programsService.getPrograms(),
+        projectService.getAllProjects(),
+      ]);
+      setPrograms(allPrograms);
+      setProjects(allProjects);
+      setLoading(false);
+    };
+    load();
+  }, []);
+
+  const rollups = useMemo(
+    () =>
+      new Map(
+        programs.map((program) => [
+          program.id,
+          calculateProgramRollup(projects.filter((p) => p.program_id === program.id)),
+        ]),
+      ),
+    [programs, projects],
+  );
+
+  const canManage = (program: Program) => isAdmin || program.owner_id === user?.id;
+
+  const handleSaved = (saved: Program) => {
+    setPrograms((prev) =>
+      [...prev.filter((p) => p.id !== saved.id), saved].sort((a, b) =>
+        a.name.localeCompare(b.name),
+      ),
+    );
+  };
+
+  const handleDelete = async () => {
+    if (!deletingProgram) return;
+    const ok = await programsService.deleteProgram(deletingProgram.id);
+    if (!ok) {
+      toast({ title: "Error", description: "Failed to delete program", variant: "destructive" });
+    } else {
+      setPrograms((prev) => prev.filter((p) => p.id !== deletingProgram.id));
+      setProjects((prev) =>
+        prev.map((p) => (p.program_id === deletingProgram.id ? { ...p, program_id: null } : p)),
+      );
+      toast({ title: "Success", description: `${deletingProgram.name} deleted` });
+    }
+    setDeletingProgram(null);
+  };
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="min-h-screen flex items-center justify-center bg-background">
+          <div className="text-muted-foreground">Loading programs…</div>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="w-full p-6 bg-background">
+        <div className="mb-6 flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">Programs</h1>
+            <p className="text-sm text-muted-foreground">
+              Groups of related projects with completion, budget and health rolled up from their projects.
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            <Button
+              onClick={() => {
+                setEditingProgram(null);
+                setDialogOpen(true);
+              }}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              New Program
+            </Button>
+            <Button variant="ghost" onClick={() => navigate("/")} className="flex items-center gap-2">
+              <ArrowLeft className="h-4 w-4" />
+              Back to Projects
+            </Button>
+          </div>
+        </div>
+
+        {programs.length === 0 ? (
+          <div className="w-full bg-card text-foreground border border-border rounded-lg p-6 text-center">
+            <Layers className="h-10 w-10 text-muted-foreground mx-auto mb-3" />
+            <div className="text-lg font-semibold">No Programs Yet</div>
+            <div className="text-muted-foreground mt-2">
+              Create a program, then assign projects to it from the project form.
+            </div>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+            {programs.map((program) => {
+              const rollup = rollups.get(program.id)!;
+              return (
+                <Card
+                  key={program.id}
+                  className="bg-card border-border cursor-pointer hover:shadow-md transition-shadow"
+                  onClick={() => navigate(`/program/${program.id}`)}
+                >
+                  <CardHeader className="pb-2">
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <CardTitle className="text-foreground truncate">{program.name}</CardTitle>
+                        {program.program_manager && (
+                          <p className="text-xs text-muted-foreground mt-1">{program.program_manager}</p>
+                        )}
+                      </div>
+                      {rollup.activeProjectCount > 0 && (
+                        <Badge variant="outline" className={HEALTH_BADGE_CLASSES[rollup.health]}>
+                          {PROGRAM_HEALTH_LABELS[rollup.health]}
+                        </Badge>
+                      )}
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    <div>
+                      <div className="flex justify-between text-xs text-muted-foreground mb-1">
+                        <span>Completion</span>
+                        <span>{rollup.weightedCompletion}%</span>
+                      </div>
+                      <Progress value={rollup.weightedCompletion} className="h-2" />
+                    </div>
+                    <div className="grid grid-cols-3 gap-2 text-sm">
+                      <div>
+                        <div className="text-xs text-muted-foreground">Projects</div>
+                        <div className="font-medium text-foreground">{rollup.projectCount}</div>
+                      </div>
+                      <div>
+                        <div className="text-xs text-muted-foreground">Budget</div>
+                        <div className="font-medium text-foreground">{formatCurrency(rollup.budgetTotal)}</div>
+                      </div>
+                      <div>
+                        <div className="text-xs text-muted-foreground">Variance</div>
+                        <div
+                          className={`font-medium ${rollup.budgetVariance < 0 ? "text-red-600" : "text-foreground"}`}
+                        >
+                          {formatCurrency(rollup.budgetVariance)}
+                        </div>
+                      </div>
+                    </div>
+                    {canManage(program) && (
+                      <div className="flex justify-end gap-1" onClick={(e) => e.stopPropagation()}>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Edit program"
+                          onClick={() => {
+                            setEditingProgram(program);
+                            setDialogOpen(true);
+                          }}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Delete program"
+                          onClick={() => setDeletingProgram(program)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <ProgramDialog
+        isOpen={dialogOpen}
+        onClose={() => setDialogOpen(false)}
+        program={editingProgram}
+        onSaved={handleSaved}
+      />
+
+      <AlertDialog open={!!deletingProgram} onOpenChange={(open) => !open && setDeletingProgram(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deletingProgram?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Projects in this program are kept and become unassigned.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+      <Toaster />
+    </Layout>
+  );
+};
+
+export default ProgramsPage;
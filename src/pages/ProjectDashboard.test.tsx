@@ -0,0 +1,108 @@
+import React from "react";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { fireEvent, render, screen } from "@testing-library/react";
+import { MemoryRouter, Route, Routes } from "react-router-dom";
+
+// Radix measures some controls; jsdom has no ResizeObserver
+globalThis.ResizeObserver ??= class {
+  observe() {}
+  unobserve() {}
+  disconnect() {}
+};
+
+// Every other query the page and its sections make resolves to nothing
+vi.mock("@/lib/supabase", () => {
+  const chain: any = new Proxy(function () {}, {
+    get: (_target, prop) =>
+      prop === "then"
+        ? (resolve: (value: unknown) => void) => resolve({ data: null, error: null })
+        : chain,
+    apply: () => chain,
+  });
+  return { supabase: chain };
+});
+
+vi.mock("@/lib/hooks/useAuth", () => ({
+  useAuth: () => ({ user: { id: "u1" }, isAdmin: false, canEditProject: () => true }),
+}));
+
+vi.mock("@/components/layout/Layout", () => ({
+  default: ({ children }: { children: React.ReactNode }) => <div>{children}</div>,
+}));
+
+vi.mock("@/lib/services/projectVersions", () => ({
+  projectVersionsService: { getVersions: vi.fn().mockResolvedValue([]) },
+}));
+
+vi.mock("@/lib/services/project", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/lib/services/project")>();
+  return {
+    ...actual,
+    projectService: {
+      ...actual.projectService,
+      getProject: vi.fn(),
+      updateProject: vi.fn(),
+      getLatestProjectSummary: vi.fn().mockResolvedValue(null),
+    },
+  };
+});
+
+import ProjectDashboard from "./ProjectDashboard";
+import { projectService, ProjectSaveConflictError } from "@/lib/services/project";
+
+const project = {
+  id: "p1",
+  project_id: "PRJ-1",
+  title: "Portal",
+  description: "",
+  status: "active",
+  health_calculation_type: "automatic",
+  budget_total: 0,
+  budget_actuals: 0,
+  budget_forecast: 0,
+  sponsors: "",
+  business_leads: "",
+  project_manager: "Ann Lee",
+  department: "IT",
+  revision: 3,
+  milestones: [],
+  accomplishments: [],
+  next_period_activities: [],
+  risks: [],
+  considerations: [],
+  changes: [],
+  decisions: [],
+  issues: [],
+  dependencies: [],
+};
+
+describe("ProjectDashboard", () => {
+  beforeEach(() => {
+    vi.mocked(projectService.getProject).mockResolvedValue(project as any);
+  });
+
+  it("opens the merge dialog when a save conflicts with another editor", async () => {
+    vi.mocked(projectService.updateProject).mockRejectedValue(
+      new ProjectSaveConflictError({ ...project, title: "Portal v2", revision: 4 } as any),
+    );
+
+    render(
+      <MemoryRouter initialEntries={["/project/p1"]}>
+        <Routes>
+          <Route path="/project/:id" element={<ProjectDashboard />} />
+        </Routes>
+      </MemoryRouter>,
+    );
+
+    await screen.findByDisplayValue("Portal", undefined, { timeout: 5000 });
+    fireEvent.click(screen.getByRole("button", { name: "Save Project" }));
+
+    expect(
+      await screen.findByText("Project Changed by Someone Else", undefined, { timeout: 5000 }),
+    ).toBeInTheDocument();
+    expect(projectService.updateProject).toHaveBeenCalledWith(
+      "p1",
+      expect.objectContaining({ expectedRevision: 3 }),
+    );
+  }, 20000);
+});
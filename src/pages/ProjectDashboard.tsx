@@ -23,16 +23,28 @@
 
 import React, { useEffect, useRef, useState } from "react";
 import { useParams, useNavigate, Link, useLocation } from "react-router-dom";
-import { projectService } from "@/lib/services/project";
+import {
+  projectService,
+  ProjectSaveConflictError,
+} from "@/lib/services/project";
 import { projectVersionsService } from "@/lib/services/projectVersions";
+import { projectToFormFields } from "@/lib/utils/projectMerge";
+import { toRiskRegisterFields } from "@/lib/services/riskRegister";
+import { toChangeRequestFields } from "@/lib/services/changeRequests";
 import { Button } from "@/components/ui/button";
 import { Loader2, ArrowLeft, ChevronLeft, ChevronRight, Eye } from "lucide-react";
 import { useAuth } from "@/lib/hooks/useAuth";
 import ProjectEditors from "@/components/project/ProjectEditors";
+import SaveAsTemplateDialog from "@/components/templates/SaveAsTemplateDialog";
+import CloneProjectDialog from "@/components/project/CloneProjectDialog";
 import { Breadcrumb } from "@/components/ui/breadcrumb";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
 import ProjectForm from "@/components/ProjectForm";
 import StatusSheet from "@/components/StatusSheet";
+import TeamAssignments from "@/components/dashboard/TeamAssignments";
+import BudgetTracker from "@/components/dashboard/BudgetTracker";
+import HealthDimensionsCard from "@/components/dashboard/HealthDimensionsCard";
+import ProjectHeader from "@/components/dashboard/ProjectHeader";
 import { useToast } from "@/components/ui/use-toast";
 import Layout from "@/components/layout/Layout";
 import {
@@ -67,6 +79,8 @@ const ProjectDashboard: React.FC = () => {
   const { toast } = useToast();
   const { canEditProject, user, isAdmin } = useAuth();
   const [showEditors, setShowEditors] = useState(false);
+  const [showSaveAsTemplate, setShowSaveAsTemplate] = useState(false);
+  const [showClone, setShowClone] = useState(false);
   const editorsRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
@@ -80,6 +94,8 @@ const ProjectDashboard: React.FC = () => {
   }, []);
   const [project, setProject] = useState<any>(null);
   const [loading, setLoading] = useState(true);
+  // Saving keeps the form mounted: a save conflict opens its merge dialog
+  const [saving, setSaving] = useState(false);
   const [error, setError] = useState("");
 
   // Initialize isEditing based on the route path
@@ -204,6 +220,37 @@ const ProjectDashboard: React.FC = () => {
     }
   }, [isEditing, project?.status]);
 
+  const handleRestoreProject = async () => {
+    if (!project) return;
+    const ok = await projectService.restoreProject(project.id);
+    if (!ok) {
+      toast({
+        title: "Error",
+        description: "Failed to restore project",
+        variant: "destructive",
+      });
+      return;
+    }
+    setProject({ ...project, deleted_at: null, deleted_by: null });
+    toast({ title: "Success", description: "Project restored" });
+  };
+
+  // An approved change request may have moved milestones and the budget, so
+  // reload the project (and its durations) rather than patching it locally
+  const handleChangeRequestUpdated = async (change) => {
+    if (!id) return;
+    if (change?.status === "approved" && change.schedule_applied) {
+      const { projectDurationService } = await import(
+        "@/lib/services/projectDurationService"
+      );
+      await projectDurationService.updateProjectDuration(id);
+    }
+    const projectData = await projectService.getProject(id);
+    if (projectData) {
+      setProject(projectData);
+    }
+  };
+
   const loadVersion = async (versionIndex) => {
     if (versionIndex === -1) {
       // Load current version
@@ -533,12 +580,15 @@ const ProjectDashboard: React.FC = () => {
         businessLeads: "",
         projectManager: "",
         department: "",
+        program_id: null,
         milestones: [],
         accomplishments: [],
         nextPeriodActivities: [],
         risks: [],
         considerations: [],
         changes: [],
+        decisions: [],
+        issues: [],
       };
     }
 
@@ -598,17 +648,12 @@ const ProjectDashboard: React.FC = () => {
     });
 
     return {
-      projectId: (project.project_id ?? "").toString(), // Add the missing projectId field
-      title: project.title || "",
-      description: project.description || "",
-      valueStatement: project.value_statement || "",
+      ...projectToFormFields(project),
+      // Revision the form is based on; a save from a stale revision is rejected
+      revision: project.revision ?? 0,
       projectAnalysis: summaryData.content || project.project_analysis || "",
       summaryCreatedAt: summaryData.created_at || null,
       summaryIsStale: summaryData.is_stale || false,
-      status: project.status || "active",
-      health_calculation_type: project.health_calculation_type || "automatic",
-      manual_health_percentage: project.manual_health_percentage || 0,
-      manual_status_color: project.manual_status_color || "green",
       // Include duration fields from the database
       total_days: project.total_days || null,
       working_days: project.working_days || null,
@@ -616,54 +661,10 @@ const ProjectDashboard: React.FC = () => {
       calculated_end_date: project.calculated_end_date || null,
       total_days_remaining: project.total_days_remaining || null,
       working_days_remaining: project.working_days_remaining || null,
-      budget: {
-        total: project.budget_total ? formatCurrency(project.budget_total) : "",
-        actuals: project.budget_actuals
-          ? formatCurrency(project.budget_actuals)
-          : "",
-        forecast: project.budget_forecast
-          ? formatCurrency(project.budget_forecast)
-          : "",
-      },
+      // Who set the manual health override and when (server-stamped)
+      manual_status_set_by_name: project.manual_status_set_by_name || null,
+      manual_status_set_at: project.manual_status_set_at || null,
       isAnalysisExpanded: false, // Always default to collapsed analysis section
-      charterLink: project.charter_link || "",
-      sponsors: project.sponsors || "",
-      businessLeads: project.business_leads || "",
-      projectManager: project.project_manager || "",
-      department: project.department || "",
-      milestones: project.milestones || [],
-      accomplishments: project.accomplishments?.map((a) => ({
-        id: a.id,
-        description: a.description || "",
-        source_type: a.source_type || "manual",
-        source_id: a.source_id || null,
-        is_hidden: a.is_hidden || false,
-        is_deleted: a.is_deleted || false,
-        auto_generated: a.auto_generated || false,
-      })) || [],
-      nextPeriodActivities:
-        project.next_period_activities?.map((a) => ({
-          description: a.description || "",
-          date: a.date || new Date().toISOString().split("T")[0],
-          completion: a.completion || 0,
-          assignee: a.assignee || "",
-          sub_activities: (a.sub_activities as any[]) || [],
-        })) || [],
-      risks:
-        project.risks?.map((r) => ({
-          description: r.description || "",
-          impact: r.impact || "",
-        })) || [],
-      considerations:
-        project.considerations?.map((c) =>
-          typeof c === "string" ? c : c.description || "",
-        ) || [],
-      changes:
-        project.changes?.map((c) => ({
-          change: c.change || "",
-          impact: c.impact || "",
-          disposition: c.disposition || "",
-        })) || [],
     };
   };
 
@@ -677,17 +678,6 @@ const ProjectDashboard: React.FC = () => {
     loadFormattedData();
   }, [project]);
 
-  const formatCurrency = (value: number | null | undefined) => {
-    return value
-      ? value
-          .toLocaleString("en-US", {
-            style: "currency",
-            currency: "USD",
-          })
-          .replace("$", "")
-      : "0.00";
-  };
-
   const handleBack = () => {
     // Always navigate directly since we don't accept props
     navigate("/");
@@ -804,8 +794,34 @@ const ProjectDashboard: React.FC = () => {
         {/* Breadcrumb Navigation */}
         <div className="mb-6">
           <Breadcrumb items={getBreadcrumbItems()} />
+          {project?.cloned_from_project_id && (
+            <p className="text-xs text-muted-foreground mt-2">
+              Cloned from{" "}
+              <Link
+                to={`/project/${project.cloned_from_project_id}`}
+                className="text-primary hover:underline"
+              >
+                another project
+              </Link>
+            </p>
+          )}
         </div>
 
+        {project?.deleted_at && (
+          <div className="mb-6 flex items-center justify-between rounded-md border border-destructive/40 bg-destructive/10 px-4 py-3 text-sm text-foreground">
+            <span>
+              This project is in the trash (deleted{" "}
+              {new Date(project.deleted_at).toLocaleDateString()}) and is hidden
+              from project lists, KPIs and exports.
+            </span>
+            {canEditProject(project) && (
+              <Button size="sm" variant="outline" onClick={handleRestoreProject}>
+                Restore
+              </Button>
+            )}
+          </div>
+        )}
+
         <div className="flex justify-between items-center mb-6">
           <div className="flex items-center gap-4">
             <Button
@@ -976,227 +992,321 @@ const ProjectDashboard: React.FC = () => {
                 )}
               </div>
             )}
+
+            {isEditing && project && (
+              <>
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => setShowClone(true)}
+                >
+                  Clone Project
+                </Button>
+                <CloneProjectDialog
+                  isOpen={showClone}
+                  onClose={() => setShowClone(false)}
+                  project={project}
+                />
+              </>
+            )}
+
+            {isEditing && project && isAdmin && (
+              <>
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => setShowSaveAsTemplate(true)}
+                >
+                  Save as Template
+                </Button>
+                <SaveAsTemplateDialog
+                  isOpen={showSaveAsTemplate}
+                  onClose={() => setShowSaveAsTemplate(false)}
+                  project={project}
+                />
+              </>
+            )}
           </div>
         </div>
 
         {isEditing ? (
-          <ProjectForm
-            initialData={formattedData}
-            projectId={project?.id || id || ""}
-            onBack={handleBack}
-            setIsDragging={setIsDragging}
-            onSubmit={async (data) => {
-              try {
-                setLoading(true);
-                const projectId = id || (project && project.id);
-                if (!projectId) {
-                  console.error("No project ID available for update");
-                  toast({
-                    title: "Error",
-                    description: "No project ID available for update",
-                    variant: "destructive",
-                  });
-                  setLoading(false);
-                  return false;
-                }
-
-                // First update the project
-                console.log(
-                  "ProjectDashboard: Updating project with milestones:",
-                  JSON.stringify(data.milestones),
-                );
-
-                // Ensure milestones are properly formatted and not empty
-                const formattedMilestones = data.milestones
-                  .filter((m) => m.milestone.trim() !== "")
-                  .map((m) => ({
-                    date: m.date,
-                    end_date: m.end_date,
-                    milestone: m.milestone,
-                    owner: m.owner,
-                    completion: m.completion,
-                    status: m.status,
-                    weight: m.weight || 3,
-                    tasks:
-                      m.tasks?.map((t) => ({
-                        description: t.description,
-                        assignee: t.assignee || m.owner,
-                        date: t.date || m.date,
-                        completion: t.completion || 0,
-                        duration_days: t.duration_days || 1,
-                      })) || [],
-                  }));
-
-
-
-                const updatedProject = await projectService.updateProject(
-                  projectId,
-                  {
-                    projectId: data.projectId, // Add the missing projectId field
-                    title: data.title,
-                    description: data.description || null,
-                    valueStatement: data.valueStatement || null,
-                    project_analysis:
-                      data.projectAnalysis !== undefined
-                        ? data.projectAnalysis
-                        : null,
-                    status: data.status || "active",
-                    health_calculation_type:
-                      data.health_calculation_type || "automatic",
-                    manual_health_percentage:
-                      data.health_calculation_type === "manual"
-                        ? data.manual_health_percentage
-                        : null,
-                    manual_status_color: data.manual_status_color || "green",
-                    budget_total:
-                      data.budget.total.trim() === ""
-                        ? 0
-                        : parseFloat(
-                            data.budget.total.replace(/[^0-9.-]+/g, ""),
-                          ),
-                    budget_actuals:
-                      data.budget.actuals.trim() === ""
-                        ? 0
-                        : parseFloat(
-                            data.budget.actuals.replace(/[^0-9.-]+/g, ""),
-                          ),
-                    budget_forecast:
-                      data.budget.forecast.trim() === ""
-                        ? 0
-                        : parseFloat(
-                            data.budget.forecast.replace(/[^0-9.-]+/g, ""),
-                          ),
-                    // truncateActivities removed - now using localStorage
-                    charter_link: data.charterLink,
-                    sponsors: data.sponsors,
-                    business_leads: data.businessLeads,
-                    project_manager: data.projectManager,
-                    department: data.department,
-                    milestones: formattedMilestones,
-                    accomplishments: data.accomplishments || [],
-                    next_period_activities:
-                      data.nextPeriodActivities?.map((a) => ({
-                        description: a.description || "",
-                        date: a.date || new Date().toISOString().split("T")[0],
-                        completion: a.completion || 0,
-                        assignee: a.assignee || "",
-                        sub_activities: a.sub_activities || [],
-                      })) || [],
-                    risks:
-                      data.risks?.map((r) => ({
-                        description: r.description || "",
-                        impact: r.impact || "",
-                      })) || [],
-                    considerations:
-                      data.considerations?.map((c) => ({ description: c })) ||
-                      [],
-                    changes:
-                      data.changes?.map((c) => ({
-                        change: c.change || "",
-                        impact: c.impact || "",
-                        disposition: c.disposition || "",
-                      })) || [],
-                  },
-                );
+          <div className="relative">
+            <ProjectForm
+              initialData={formattedData}
+              projectId={project?.id || id || ""}
+              onBack={handleBack}
+              setIsDragging={setIsDragging}
+              onChangeRequestUpdated={handleChangeRequestUpdated}
+              onSubmit={async (data) => {
+                try {
+                  setSaving(true);
+                  const projectId = id || (project && project.id);
+                  if (!projectId) {
+                    console.error("No project ID available for update");
+                    toast({
+                      title: "Error",
+                      description: "No project ID available for update",
+                      variant: "destructive",
+                    });
+                    setSaving(false);
+                    return false;
+                  }
 
-                if (updatedProject) {
-                  console.log(
-                    "ProjectDashboard: Project updated successfully",
-                    updatedProject,
-                  );
+                  // First update the project
                   console.log(
-                    "ProjectDashboard: Updated milestones:",
-                    JSON.stringify(updatedProject.milestones),
+                    "ProjectDashboard: Updating project with milestones:",
+                    JSON.stringify(data.milestones),
                   );
 
-                  // Set the project state with the updated data
-                  setProject(updatedProject);
+                  // Ensure milestones are properly formatted and not empty
+                  const formattedMilestones = data.milestones
+                    .filter((m) => m.milestone.trim() !== "")
+                    .map((m) => ({
+                      id: m.id,
+                      date: m.date,
+                      end_date: m.end_date,
+                      milestone: m.milestone,
+                      owner: m.owner,
+                      completion: m.completion,
+                      status: m.status,
+                      weight: m.weight || 3,
+                      forecast_date: m.forecast_date || null,
+                      forecast_reason: m.forecast_reason || null,
+                      tasks:
+                        m.tasks?.map((t) => ({
+                          id: t.id,
+                          description: t.description,
+                          assignee: t.assignee || m.owner,
+                          date: t.date || m.date,
+                          completion: t.completion || 0,
+                          duration_days: t.duration_days || 1,
+                          allocation_percent: t.allocation_percent ?? null,
+                          allocation_hours: t.allocation_hours ?? null,
+                        })) || [],
+                    }));
+
+
+
+                  const updatedProject = await projectService.updateProject(
+                    projectId,
+                    {
+                      projectId: data.projectId, // Add the missing projectId field
+                      title: data.title,
+                      description: data.description || null,
+                      valueStatement: data.valueStatement || null,
+                      project_analysis:
+                        data.projectAnalysis !== undefined
+                          ? data.projectAnalysis
+                          : null,
+                      status: data.status || "active",
+                      health_calculation_type:
+                        data.health_calculation_type || "automatic",
+                      manual_health_percentage:
+                        data.health_calculation_type === "manual"
+                          ? data.manual_health_percentage
+                          : null,
+                      manual_status_color: data.manual_status_color || "green",
+                      manual_status_reason:
+                        data.health_calculation_type === "manual"
+                          ? data.manual_status_reason
+                          : null,
+                      manual_status_expires_at:
+                        data.health_calculation_type === "manual"
+                          ? data.manual_status_expires_at
+                          : null,
+                      budget_total:
+                        data.budget.total.trim() === ""
+                          ? 0
+                          : parseFloat(
+                              data.budget.total.replace(/[^0-9.-]+/g, ""),
+                            ),
+                      budget_actuals:
+                        data.budget.actuals.trim() === ""
+                          ? 0
+                          : parseFloat(
+                              data.budget.actuals.replace(/[^0-9.-]+/g, ""),
+                            ),
+                      budget_forecast:
+                        data.budget.forecast.trim() === ""
+                          ? 0
+                          : parseFloat(
+                              data.budget.forecast.replace(/[^0-9.-]+/g, ""),
+                            ),
+                      // truncateActivities removed - now using localStorage
+                      charter_link: data.charterLink,
+                      sponsors: data.sponsors,
+                      business_leads: data.businessLeads,
+                      project_manager: data.projectManager,
+                      department: data.department,
+                      program_id: data.program_id || null,
+                      milestones: formattedMilestones,
+                      accomplishments: data.accomplishments || [],
+                      next_period_activities:
+                        data.nextPeriodActivities?.map((a) => ({
+                          id: a.id,
+                          description: a.description || "",
+                          date: a.date || new Date().toISOString().split("T")[0],
+                          completion: a.completion || 0,
+                          assignee: a.assignee || "",
+                          allocation_percent: a.allocation_percent ?? null,
+                          allocation_hours: a.allocation_hours ?? null,
+                          sub_activities: a.sub_activities || [],
+                        })) || [],
+                      risks:
+                        data.risks?.map((r) => ({
+                          id: r.id,
+                          description: r.description || "",
+                          impact: r.impact || "",
+                          ...toRiskRegisterFields(r),
+                        })) || [],
+                      considerations:
+                        data.considerations?.map((c) => ({ description: c })) ||
+                        [],
+                      changes:
+                        data.changes?.map((c) => ({
+                          id: c.id,
+                          change: c.change || "",
+                          impact: c.impact || "",
+                          disposition: c.disposition || "",
+                          ...toChangeRequestFields(c),
+                        })) || [],
+                      decisions: data.decisions || [],
+                      issues: data.issues || [],
+                      dependencies: data.dependencies || [],
+                      expectedRevision: data.revision,
+                    },
+                  );
 
-                  toast({
-                    title: "Success",
-                    description: "Project updated successfully",
-                  });
-                  return true;
-                } else {
+                  if (updatedProject) {
+                    console.log(
+                      "ProjectDashboard: Project updated successfully",
+                      updatedProject,
+                    );
+                    console.log(
+                      "ProjectDashboard: Updated milestones:",
+                      JSON.stringify(updatedProject.milestones),
+                    );
+
+                    // Set the project state with the updated data
+                    setProject(updatedProject);
+
+                    toast({
+                      title: "Success",
+                      description: "Project updated successfully",
+                    });
+                    return true;
+                  } else {
+                    toast({
+                      title: "Error",
+                      description: "Failed to update project",
+                      variant: "destructive",
+                    });
+                    return false;
+                  }
+                } catch (error) {
+                  // Let the form offer a merge with the other editor's changes
+                  if (error instanceof ProjectSaveConflictError) throw error;
+                  console.error("Error updating project:", error);
                   toast({
                     title: "Error",
-                    description: "Failed to update project",
+                    description: "Failed to update project: " + error.message,
                     variant: "destructive",
                   });
                   return false;
+                } finally {
+                  setSaving(false);
                 }
-              } catch (error) {
-                console.error("Error updating project:", error);
-                toast({
-                  title: "Error",
-                  description: "Failed to update project: " + error.message,
-                  variant: "destructive",
-                });
-                return false;
-              } finally {
-                setLoading(false);
-              }
-            }}
-          />
+              }}
+            />
+            {saving && (
+              <div className="absolute inset-0 z-10 flex items-start justify-center bg-background/60 pt-24">
+                <div className="flex items-center gap-2 rounded-md border border-border bg-card px-4 py-2 shadow-sm">
+                  <Loader2 className="h-5 w-5 animate-spin text-blue-600" />
+                  <p className="text-muted-foreground">Saving project...</p>
+                </div>
+              </div>
+            )}
+          </div>
         ) : (
-          <StatusSheet
-            data={{
-              title: project.title || "Untitled Project",
-              description: project.description || "",
-              status: project.status || "active",
-              health_calculation_type:
-                project.health_calculation_type || "automatic",
-              manual_health_percentage: project.manual_health_percentage || 0,
-              manual_status_color: project.manual_status_color || "green",
-              computed_status_color: project.computed_status_color,
-              budget: {
-                total:
-                  typeof project.budget_total === "number"
-                    ? project.budget_total.toLocaleString()
-                    : "0",
-                actuals:
-                  typeof project.budget_actuals === "number"
-                    ? project.budget_actuals.toLocaleString()
-                    : "0",
-                forecast:
-                  typeof project.budget_forecast === "number"
-                    ? project.budget_forecast.toLocaleString()
-                    : "0",
-              },
-              charterLink: project.charter_link || "",
-              sponsors: project.sponsors || "",
-              businessLeads: project.business_leads || "",
-              projectManager: project.project_manager || "",
-              milestones: Array.isArray(project.milestones)
-                ? project.milestones
-                : [],
-              accomplishments: Array.isArray(project.accomplishments)
-                ? project.accomplishments.map((a) =>
-                    typeof a === "string" ? { description: a, source_type: "manual", source_id: null, is_hidden: false, is_deleted: false, auto_generated: false } : { id: a.id, description: a.description || "", source_type: a.source_type || "manual", source_id: a.source_id || null, is_hidden: a.is_hidden || false, is_deleted: a.is_deleted || false, auto_generated: a.auto_generated || false },
-                  )
-                : [],
-              nextPeriodActivities: Array.isArray(
-                project.next_period_activities,
-              )
-                ? project.next_period_activities
-                : [],
-              risks: Array.isArray(project.risks) ? project.risks : [],
-              considerations: Array.isArray(project.considerations)
-                ? project.considerations.map((c) =>
-                    typeof c === "string" ? c : c.description,
-                  )
-                : [],
-              changes: Array.isArray(project.changes) ? project.changes : [],
-              projectAnalysis: formattedData?.projectAnalysis || "",
-              summaryCreatedAt: formattedData?.summaryCreatedAt,
-              summaryIsStale: formattedData?.summaryIsStale,
-            }}
-            versionChanges={versionChanges}
-            showChangeIndicators={
-              currentVersionIndex !== -1 &&
-              Object.keys(versionChanges).length > 0
-            }
-          />
+          <>
+            <StatusSheet
+              data={{
+                title: project.title || "Untitled Project",
+                description: project.description || "",
+                status: project.status || "active",
+                health_calculation_type:
+                  project.health_calculation_type || "automatic",
+                manual_health_percentage: project.manual_health_percentage || 0,
+                manual_status_color: project.manual_status_color || "green",
+                computed_status_color: project.computed_status_color,
+                manual_status_reason: project.manual_status_reason,
+                manual_status_expires_at: project.manual_status_expires_at,
+                manual_status_set_by_name: project.manual_status_set_by_name,
+                department: project.department,
+                calculated_start_date: project.calculated_start_date,
+                total_days: project.total_days,
+                total_days_remaining: project.total_days_remaining,
+                working_days: project.working_days,
+                working_days_remaining: project.working_days_remaining,
+                budget: {
+                  total:
+                    typeof project.budget_total === "number"
+                      ? project.budget_total.toLocaleString()
+                      : "0",
+                  actuals:
+                    typeof project.budget_actuals === "number"
+                      ? project.budget_actuals.toLocaleString()
+                      : "0",
+                  forecast:
+                    typeof project.budget_forecast === "number"
+                      ? project.budget_forecast.toLocaleString()
+                      : "0",
+                },
+                charterLink: project.charter_link || "",
+                sponsors: project.sponsors || "",
+                businessLeads: project.business_leads || "",
+                projectManager: project.project_manager || "",
+                milestones: Array.isArray(project.milestones)
+                  ? project.milestones
+                  : [],
+                accomplishments: Array.isArray(project.accomplishments)
+                  ? project.accomplishments.map((a) =>
+                      typeof a === "string" ? { description: a, source_type: "manual", source_id: null, is_hidden: false, is_deleted: false, auto_generated: false } : { id: a.id, description: a.description || "", source_type: a.source_type || "manual", source_id: a.source_id || null, is_hidden: a.is_hidden || false, is_deleted: a.is_deleted || false, auto_generated: a.auto_generated || false },
+                    )
+                  : [],
+                nextPeriodActivities: Array.isArray(
+                  project.next_period_activities,
+                )
+                  ? project.next_period_activities
+                  : [],
+                risks: Array.isArray(project.risks) ? project.risks : [],
+                considerations: Array.isArray(project.considerations)
+                  ? project.considerations.map((c) =>
+                      typeof c === "string" ? c : c.description,
+                    )
+                  : [],
+                changes: Array.isArray(project.changes) ? project.changes : [],
+                decisions: project.decisions || [],
+                issues: project.issues || [],
+                projectAnalysis: formattedData?.projectAnalysis || "",
+                summaryCreatedAt: formattedData?.summaryCreatedAt,
+                summaryIsStale: formattedData?.summaryIsStale,
+              }}
+              versionChanges={versionChanges}
+              showChangeIndicators={
+                currentVersionIndex !== -1 &&
+                Object.keys(versionChanges).length > 0
+              }
+            />
+            <ProjectHeader project={project} />
+            <HealthDimensionsCard project={project} />
+            <BudgetTracker project={project} />
+            <TeamAssignments
+              projectId={project.id}
+              milestones={Array.isArray(project.milestones) ? project.milestones : []}
+              canEdit={canEditProject(project)}
+            />
+          </>
         )}
 
       </div>
@@ -29,6 +29,9 @@ import {
   BarChart3,
   PieChart,
   Activity,
+  Hand,
+  CalendarClock,
+  CalendarX,
 } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import {
@@ -46,7 +49,41 @@ import {
   type QualityKPIs,
   type TimelineKPIs,
   type DurationKPIs,
+  type EarnedValueKPIs,
+  type HealthHistoryKPIs,
+  type HealthOverrideKPIs,
+  type UpdateComplianceKPIs,
+  type MilestoneSlipKPIs,
 } from "@/lib/services/kpiService";
+import {
+  formatSlip,
+  milestoneForecastsService,
+  type MilestoneForecastChange,
+} from "@/lib/services/milestoneForecasts";
+import {
+  DEFAULT_STALENESS_THRESHOLDS,
+  projectStalenessService,
+  type StalenessThresholds,
+  type UpdateComplianceRow,
+} from "@/lib/services/projectStaleness";
+import {
+  HEALTH_COLOR_FILL,
+  HEALTH_HISTORY_DAYS,
+  healthHistoryService,
+  type HealthSnapshot,
+} from "@/lib/services/healthHistory";
+import {
+  formatPerformanceIndex,
+  getPerformanceIndexClass,
+} from "@/lib/services/earnedValue";
+import {
+  calculateProgramRollup,
+  groupProjectsByProgram,
+  programsService,
+  PROGRAM_HEALTH_LABELS,
+  UNASSIGNED_PROGRAM,
+  type Program,
+} from "@/lib/services/programs";
 import {
   BarChart,
   Bar,
@@ -68,6 +105,13 @@ import { useToast } from "@/components/ui/use-toast";
 import { Toaster } from "@/components/ui/toaster";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Tooltip as UITooltip,
   TooltipContent,
@@ -116,9 +160,51 @@ const HEALTH_COLORS = {
 const ProjectKPIsPage: React.FC = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
-  const [projects, setProjects] = useState<ProjectWithRelations[]>([]);
+  const [allProjects, setAllProjects] = useState<ProjectWithRelations[]>([]);
+  const [healthSnapshots, setHealthSnapshots] = useState<HealthSnapshot[]>([]);
+  const [stalenessThresholds, setStalenessThresholds] =
+    useState<StalenessThresholds>(DEFAULT_STALENESS_THRESHOLDS);
+  const [forecastChanges, setForecastChanges] = useState<MilestoneForecastChange[]>([]);
+  const [programs, setPrograms] = useState<Program[]>([]);
+  const [programFilter, setProgramFilter] = useState<string>("all");
   const [loading, setLoading] = useState(true);
 
+  // Every KPI below is calculated from the program-filtered project list
+  const projects = useMemo(
+    () =>
+      programFilter === "all"
+        ? allProjects
+        : allProjects.filter((p) =>
+            programFilter === UNASSIGNED_PROGRAM
+              ? !p.program_id
+              : p.program_id === programFilter,
+          ),
+    [allProjects, programFilter],
+  );
+
+  // Forecast history of the open projects shown; only they are ranked by slip
+  useEffect(() => {
+    let cancelled = false;
+    const openIds = projects
+      .filter((p) => p.status !== "completed" && p.status !== "cancelled")
+      .map((p) => p.id);
+    milestoneForecastsService.getHistory(openIds).then((changes) => {
+      if (!cancelled) setForecastChanges(changes);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [projects]);
+
+  const programLanes = useMemo(
+    () =>
+      groupProjectsByProgram(projects, programs).map((lane) => ({
+        ...lane,
+        rollup: calculateProgramRollup(lane.projects),
+      })),
+    [projects, programs],
+  );
+
   // Helper function to get department color
   const getDepartmentColor = (department: string, index: number): string => {
     return DEPARTMENT_COLORS[department] || CHART_COLORS[index % CHART_COLORS.length];
@@ -127,8 +213,40 @@ const ProjectKPIsPage: React.FC = () => {
   const [financialKPIs, setFinancialKPIs] = useState<FinancialKPIs | null>(
     null,
   );
+  const [earnedValueKPIs, setEarnedValueKPIs] =
+    useState<EarnedValueKPIs | null>(null);
+  // Snapshots load with the projects, so derive rather than recalculate in the effect below
+  const healthHistoryKPIs = useMemo<HealthHistoryKPIs | null>(
+    () =>
+      projects.length > 0 && healthSnapshots.length > 0
+        ? kpiService.calculateHealthHistoryKPIs(projects, healthSnapshots)
+        : null,
+    [projects, healthSnapshots],
+  );
+  const healthOverrideKPIs = useMemo<HealthOverrideKPIs | null>(
+    () => (projects.length > 0 ? kpiService.calculateHealthOverrideKPIs(projects) : null),
+    [projects],
+  );
+  const updateComplianceKPIs = useMemo<UpdateComplianceKPIs | null>(
+    () =>
+      projects.length > 0
+        ? kpiService.calculateUpdateComplianceKPIs(projects, stalenessThresholds)
+        : null,
+    [projects, stalenessThresholds],
+  );
+  const milestoneSlipKPIs = useMemo<MilestoneSlipKPIs | null>(
+    () =>
+      projects.length > 0
+        ? kpiService.calculateMilestoneSlipKPIs(projects, forecastChanges)
+        : null,
+    [projects, forecastChanges],
+  );
   const [performanceKPIs, setPerformanceKPIs] =
     useState<PerformanceKPIs | null>(null);
+  // Whether any published rule set scores budget, risks or overdue milestones
+  const hasScoredDimensions = !!performanceKPIs?.healthDistribution.some(
+    (h) => h.dimensions.budget + h.dimensions.risks + h.dimensions.overdueMilestones > 0,
+  );
   const [resourceKPIs, setResourceKPIs] = useState<ResourceKPIs | null>(null);
   const [operationalKPIs, setOperationalKPIs] =
     useState<OperationalKPIs | null>(null);
@@ -153,37 +271,26 @@ const ProjectKPIsPage: React.FC = () => {
     const loadKPIs = async () => {
       try {
         setLoading(true);
-        const allProjects = await projectService.getAllProjects();
-        setProjects(allProjects);
-
-        if (allProjects.length > 0) {
-          console.log("[KPI_PAGE] All projects loaded:", allProjects.length);
+        const [loadedProjects, loadedPrograms, loadedSnapshots, loadedThresholds] =
+          await Promise.all([
+            projectService.getAllProjects(),
+            programsService.getPrograms(),
+            healthHistoryService.getHistory(),
+            projectStalenessService.getThresholds(),
+          ]);
+        setAllProjects(loadedProjects);
+        setPrograms(loadedPrograms);
+        setHealthSnapshots(loadedSnapshots);
+        setStalenessThresholds(loadedThresholds);
+
+        if (loadedProjects.length > 0) {
+          console.log("[KPI_PAGE] All projects loaded:", loadedProjects.length);
           console.log(
             "[KPI_PAGE] Sample project managers:",
-            allProjects
+            loadedProjects
               .slice(0, 5)
               .map((p) => ({ title: p.title, pm: p.project_manager })),
           );
-
-          setFinancialKPIs(kpiService.calculateFinancialKPIs(allProjects));
-          setPerformanceKPIs(kpiService.calculatePerformanceKPIs(allProjects));
-
-          const resourceKPIsData =
-            kpiService.calculateResourceKPIs(allProjects);
-          console.log(
-            "[KPI_PAGE] Resource KPIs calculated:",
-            resourceKPIsData.projectManagerWorkload,
-          );
-          setResourceKPIs(resourceKPIsData);
-
-          setOperationalKPIs(kpiService.calculateOperationalKPIs(allProjects));
-          setQualityKPIs(kpiService.calculateQualityKPIs(allProjects));
-          setTimelineKPIs(kpiService.calculateTimelineKPIs(allProjects));
-          setDurationKPIs(kpiService.calculateDurationKPIs(allProjects));
-
-          // Calculate time-aware insights
-          const insights = calculateTimeAwareInsights(allProjects);
-          setTimeAwareInsights(insights);
         }
       } catch (error) {
         console.error("Error loading KPIs:", error);
@@ -200,6 +307,41 @@ const ProjectKPIsPage: React.FC = () => {
     loadKPIs();
   }, [toast]);
 
+  // Recalculate when the project list or program filter changes
+  useEffect(() => {
+    if (projects.length === 0) {
+      setFinancialKPIs(null);
+      setEarnedValueKPIs(null);
+      setPerformanceKPIs(null);
+      setResourceKPIs(null);
+      setOperationalKPIs(null);
+      setQualityKPIs(null);
+      setTimelineKPIs(null);
+      setDurationKPIs(null);
+      setTimeAwareInsights(null);
+      return;
+    }
+
+    setFinancialKPIs(kpiService.calculateFinancialKPIs(projects));
+    setEarnedValueKPIs(kpiService.calculateEarnedValueKPIs(projects));
+    setPerformanceKPIs(kpiService.calculatePerformanceKPIs(projects));
+
+    const resourceKPIsData = kpiService.calculateResourceKPIs(projects);
+    console.log(
+      "[KPI_PAGE] Resource KPIs calculated:",
+      resourceKPIsData.projectManagerWorkload,
+    );
+    setResourceKPIs(resourceKPIsData);
+
+    setOperationalKPIs(kpiService.calculateOperationalKPIs(projects));
+    setQualityKPIs(kpiService.calculateQualityKPIs(projects));
+    setTimelineKPIs(kpiService.calculateTimelineKPIs(projects));
+    setDurationKPIs(kpiService.calculateDurationKPIs(projects));
+
+    // Calculate time-aware insights
+    setTimeAwareInsights(calculateTimeAwareInsights(projects));
+  }, [projects]);
+
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat("en-US", {
       style: "currency",
@@ -328,7 +470,7 @@ const ProjectKPIsPage: React.FC = () => {
     );
   }
 
-  if (projects.length === 0) {
+  if (allProjects.length === 0) {
     return (
       <Layout>
         <div className="p-6">
@@ -394,14 +536,92 @@ const ProjectKPIsPage: React.FC = () => {
                 </p>
               </div>
             </div>
-            <div className="text-right">
-              <div className="text-2xl font-bold text-foreground">
-                {formatNumber(projects.length)}
+            <div className="flex items-center gap-6">
+              <Select value={programFilter} onValueChange={setProgramFilter}>
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue placeholder="Program" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Programs</SelectItem>
+                  {programs.map((program) => (
+                    <SelectItem key={program.id} value={program.id}>
+                      {program.name}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value={UNASSIGNED_PROGRAM}>No Program</SelectItem>
+                </SelectContent>
+              </Select>
+              <div className="text-right">
+                <div className="text-2xl font-bold text-foreground">
+                  {formatNumber(projects.length)}
+                </div>
+                <div className="text-muted-foreground text-sm">Total Projects</div>
               </div>
-              <div className="text-muted-foreground text-sm">Total Projects</div>
             </div>
           </div>
 
+          {/* Program Roll-up */}
+          {programs.length > 0 && programLanes.length > 0 && (
+            <Card className="bg-card backdrop-blur-sm">
+              <CardHeader>
+                <CardTitle>By Program</CardTitle>
+                <CardDescription>
+                  Completion, budget and health rolled up from each program's projects
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-3">
+                  {programLanes.map(({ key, program, projects: laneProjects, rollup }) => (
+                    <div
+                      key={key}
+                      className={`flex items-center gap-4 p-3 rounded-lg border border-border ${
+                        program ? "cursor-pointer hover:bg-muted/50" : ""
+                      }`}
+                      onClick={() => program && navigate(`/program/${program.id}`)}
+                    >
+                      <div
+                        className="w-3 h-3 rounded-full flex-shrink-0"
+                        style={{
+                          backgroundColor:
+                            HEALTH_COLORS[rollup.health.toUpperCase() as keyof typeof HEALTH_COLORS],
+                        }}
+                      />
+                      <div className="flex-1 min-w-0">
+                        <div className="font-medium text-foreground truncate">
+                          {program?.name || "No Program"}
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          {laneProjects.length} project{laneProjects.length === 1 ? "" : "s"} ·{" "}
+                          {PROGRAM_HEALTH_LABELS[rollup.health]}
+                        </div>
+                      </div>
+                      <div className="w-40">
+                        <div className="flex justify-between text-xs text-muted-foreground mb-1">
+                          <span>Completion</span>
+                          <span>{rollup.weightedCompletion}%</span>
+                        </div>
+                        <Progress value={rollup.weightedCompletion} className="h-2" />
+                      </div>
+                      <div className="w-32 text-right">
+                        <div className="text-sm font-medium text-foreground">
+                          {formatCurrency(rollup.budgetTotal)}
+                        </div>
+                        <div
+                          className={`text-xs ${
+                            rollup.budgetVariance < 0 ? "text-red-600" : "text-muted-foreground"
+                          }`}
+                        >
+                          {rollup.budgetVariance < 0 ? "Over by " : "Under by "}
+                          {formatCurrency(Math.abs(rollup.budgetVariance))}
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Financial KPIs */}
           {financialKPIs && (
             <div className="space-y-6">
@@ -539,6 +759,453 @@ const ProjectKPIsPage: React.FC = () => {
             </div>
           )}
 
+          {/* Earned Value */}
+          {earnedValueKPIs?.portfolio && (
+            <div className="space-y-6">
+              <h2 className="text-2xl font-semibold text-foreground flex items-center gap-2">
+                <Activity className="h-6 w-6" />
+                Earned Value
+              </h2>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+                <Card className="bg-card backdrop-blur-sm">
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-sm font-medium text-muted-foreground">
+                      Schedule Performance (SPI)
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div
+                      className={`text-2xl font-bold ${
+                        getPerformanceIndexClass(earnedValueKPIs.portfolio.spi)
+                      }`}
+                    >
+                      {formatPerformanceIndex(earnedValueKPIs.portfolio.spi)}
+                    </div>
+                    <div className="text-sm text-muted-foreground mt-1">
+                      SV {earnedValueKPIs.portfolio.scheduleVariance < 0 ? "-" : ""}
+                      {formatCurrency(Math.abs(earnedValueKPIs.portfolio.scheduleVariance))} ·{" "}
+                      {earnedValueKPIs.projectsBehindSchedule} behind
+                    </div>
+                  </CardContent>
+                </Card>
+
+                <Card className="bg-card backdrop-blur-sm">
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-sm font-medium text-muted-foreground">
+                      Cost Performance (CPI)
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div
+                      className={`text-2xl font-bold ${
+                        getPerformanceIndexClass(earnedValueKPIs.portfolio.cpi)
+                      }`}
+                    >
+                      {formatPerformanceIndex(earnedValueKPIs.portfolio.cpi)}
+                    </div>
+                    <div className="text-sm text-muted-foreground mt-1">
+                      CV {earnedValueKPIs.portfolio.costVariance < 0 ? "-" : ""}
+                      {formatCurrency(Math.abs(earnedValueKPIs.portfolio.costVariance))} ·{" "}
+                      {earnedValueKPIs.projectsOverCost} over cost
+                    </div>
+                  </CardContent>
+                </Card>
+
+                <Card className="bg-card backdrop-blur-sm">
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-sm font-medium text-muted-foreground">
+                      Estimate at Completion (EAC)
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold text-chart-3">
+                      {formatCurrency(earnedValueKPIs.portfolio.estimateAtCompletion)}
+                    </div>
+                    <div
+                      className={`text-sm mt-1 ${
+                        earnedValueKPIs.portfolio.varianceAtCompletion < 0
+                          ? "text-destructive"
+                          : "text-muted-foreground"
+                      }`}
+                    >
+                      VAC {earnedValueKPIs.portfolio.varianceAtCompletion < 0 ? "-" : ""}
+                      {formatCurrency(Math.abs(earnedValueKPIs.portfolio.varianceAtCompletion))} vs{" "}
+                      {formatCurrency(earnedValueKPIs.portfolio.budgetAtCompletion)} BAC
+                    </div>
+                  </CardContent>
+                </Card>
+
+                <Card className="bg-card backdrop-blur-sm">
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-sm font-medium text-muted-foreground">
+                      Estimate to Complete (ETC)
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold text-chart-1">
+                      {formatCurrency(earnedValueKPIs.portfolio.estimateToComplete)}
+                    </div>
+                    <div className="text-sm text-muted-foreground mt-1">
+                      Across {earnedValueKPIs.projectsMeasured} project
+                      {earnedValueKPIs.projectsMeasured === 1 ? "" : "s"} with a budget and schedule
+                    </div>
+                  </CardContent>
+                </Card>
+              </div>
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <Card className="bg-card backdrop-blur-sm">
+                  <CardHeader>
+                    <CardTitle>Planned vs Earned Value</CardTitle>
+                    <CardDescription>
+                      Cumulative planned value by month; earned value and actual cost as of today
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <ResponsiveContainer width="100%" height={300}>
+                      <LineChart data={earnedValueKPIs.series}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                        <XAxis dataKey="period" stroke="hsl(var(--muted-foreground))" />
+                        <YAxis
+                          tickFormatter={(value) => `${(value / 1000).toFixed(0)}K`}
+                          stroke="hsl(var(--muted-foreground))"
+                        />
+                        <Tooltip
+                          formatter={(value) => formatCurrency(value as number)}
+                          contentStyle={{
+                            backgroundColor: "hsl(var(--popover))",
+                            border: "1px solid hsl(var(--border))",
+                            borderRadius: "var(--radius)",
+                            color: "hsl(var(--popover-foreground))",
+                          }}
+                        />
+                        <Line
+                          type="monotone"
+                          dataKey="plannedValue"
+                          name="Planned Value"
+                          stroke={CHART_COLORS[0]}
+                          strokeWidth={2}
+                          dot={false}
+                        />
+                        <Line
+                          dataKey="earnedValue"
+                          name="Earned Value"
+                          stroke={CHART_COLORS[1]}
+                          dot={{ r: 6 }}
+                        />
+                        <Line
+                          dataKey="actualCost"
+                          name="Actual Cost"
+                          stroke={CHART_COLORS[3]}
+                          dot={{ r: 6 }}
+                        />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </CardContent>
+                </Card>
+
+                <Card className="bg-card backdrop-blur-sm">
+                  <CardHeader>
+                    <CardTitle>Projects by Cost Performance</CardTitle>
+                    <CardDescription>Lowest CPI first</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-3">
+                      {earnedValueKPIs.projects.slice(0, 8).map(({ projectId, projectTitle, metrics }) => (
+                        <div
+                          key={projectId}
+                          className="flex items-center justify-between p-3 rounded-lg border border-border"
+                        >
+                          <div className="flex-1">
+                            <div className="font-medium text-sm">{stripHtmlTags(projectTitle)}</div>
+                            <div className="text-xs text-muted-foreground">
+                              EAC {formatCurrency(metrics.estimateAtCompletion)} · VAC{" "}
+                              {metrics.varianceAtCompletion < 0 ? "-" : ""}
+                              {formatCurrency(Math.abs(metrics.varianceAtCompletion))}
+                            </div>
+                          </div>
+                          <div className="text-right text-sm font-semibold space-x-3">
+                            <span className={getPerformanceIndexClass(metrics.spi)}>
+                              SPI {formatPerformanceIndex(metrics.spi)}
+                            </span>
+                            <span className={getPerformanceIndexClass(metrics.cpi)}>
+                              CPI {formatPerformanceIndex(metrics.cpi)}
+                            </span>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </CardContent>
+                </Card>
+              </div>
+            </div>
+          )}
+
+          {/* Health History */}
+          {healthHistoryKPIs && (
+            <div className="space-y-6">
+              <h2 className="text-2xl font-semibold text-foreground flex items-center gap-2">
+                <TrendingUp className="h-6 w-6" />
+                Health History
+              </h2>
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <Card className="bg-card backdrop-blur-sm">
+                  <CardHeader>
+                    <CardTitle>Portfolio Health Over Time</CardTitle>
+                    <CardDescription>
+                      Open projects by health color, daily snapshots over the last {HEALTH_HISTORY_DAYS} days
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <ResponsiveContainer width="100%" height={300}>
+                      <AreaChart data={healthHistoryKPIs.series}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                        <XAxis dataKey="date" stroke="hsl(var(--muted-foreground))" />
+                        <YAxis allowDecimals={false} stroke="hsl(var(--muted-foreground))" />
+                        <Tooltip
+                          contentStyle={{
+                            backgroundColor: "hsl(var(--popover))",
+                            border: "1px solid hsl(var(--border))",
+                            borderRadius: "var(--radius)",
+                            color: "hsl(var(--popover-foreground))",
+                          }}
+                        />
+                        {(["green", "yellow", "red"] as const).map((color) => (
+                          <Area
+                            key={color}
+                            type="stepAfter"
+                            dataKey={color}
+                            name={color === "green" ? "On Track" : color === "yellow" ? "At Risk" : "Critical"}
+                            stackId="health"
+                            stroke={HEALTH_COLOR_FILL[color]}
+                            fill={HEALTH_COLOR_FILL[color]}
+                            fillOpacity={0.6}
+                          />
+                        ))}
+                      </AreaChart>
+                    </ResponsiveContainer>
+                  </CardContent>
+                </Card>
+
+                <Card className="bg-card backdrop-blur-sm">
+                  <CardHeader>
+                    <CardTitle>Days in Current Color</CardTitle>
+                    <CardDescription>Open projects, longest unchanged first</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-3 max-h-[300px] overflow-y-auto">
+                      {healthHistoryKPIs.projects.map(({ projectId, projectTitle, color, daysInColor }) => (
+                        <div
+                          key={projectId}
+                          className="flex items-center justify-between p-3 rounded-lg border border-border"
+                        >
+                          <div className="flex items-center gap-2 flex-1">
+                            <span
+                              className="w-2.5 h-2.5 rounded-full"
+                              style={{ backgroundColor: HEALTH_COLOR_FILL[color] }}
+                            />
+                            <span className="font-medium text-sm">{stripHtmlTags(projectTitle)}</span>
+                          </div>
+                          <div className="text-sm font-semibold">
+                            {daysInColor} day{daysInColor === 1 ? "" : "s"}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </CardContent>
+                </Card>
+              </div>
+            </div>
+          )}
+
+          {/* Manual Health Overrides */}
+          {healthOverrideKPIs && healthOverrideKPIs.activeOverrides > 0 && (
+            <div className="space-y-6">
+              <h2 className="text-2xl font-semibold text-foreground flex items-center gap-2">
+                <Hand className="h-6 w-6" />
+                Manual Health Overrides
+              </h2>
+
+              <Card className="bg-card backdrop-blur-sm">
+                <CardHeader>
+                  <CardTitle>Overrides That Change the Color</CardTitle>
+                  <CardDescription>
+                    {healthOverrideKPIs.overrides.length} of {healthOverrideKPIs.activeOverrides} active
+                    manual overrides differ from the calculated health, soonest expiry first
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {healthOverrideKPIs.overrides.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                      Every active override matches the calculated health.
+                    </p>
+                  ) : (
+                    <div className="space-y-3 max-h-[400px] overflow-y-auto">
+                      {healthOverrideKPIs.overrides.map((override) => (
+                        <div
+                          key={override.projectId}
+                          className="p-3 rounded-lg border border-border space-y-1 cursor-pointer hover:bg-muted/50"
+                          onClick={() => navigate(`/project/${override.projectId}`)}
+                        >
+                          <div className="flex items-center justify-between gap-2">
+                            <span className="font-medium text-sm">
+                              {stripHtmlTags(override.projectTitle)}
+                              {override.department && (
+                                <span className="text-muted-foreground font-normal"> · {override.department}</span>
+                              )}
+                            </span>
+                            <div className="flex items-center gap-2 text-xs">
+                              <span className="flex items-center gap-1">
+                                <span
+                                  className="w-2.5 h-2.5 rounded-full"
+                                  style={{ backgroundColor: HEALTH_COLOR_FILL[override.manualColor] }}
+                                />
+                                Manual
+                              </span>
+                              <span className="text-muted-foreground">vs</span>
+                              <span className="flex items-center gap-1">
+                                <span
+                                  className="w-2.5 h-2.5 rounded-full"
+                                  style={{ backgroundColor: HEALTH_COLOR_FILL[override.computedColor] }}
+                                />
+                                Calculated
+                              </span>
+                            </div>
+                          </div>
+                          {override.reason && (
+                            <p className="text-sm italic text-muted-foreground">“{override.reason}”</p>
+                          )}
+                          <p className="text-xs text-muted-foreground">
+                            {override.setBy ? `Set by ${override.setBy}` : "Set"}
+                            {override.setAt && ` on ${new Date(override.setAt).toLocaleDateString()}`}
+                            {override.expiresAt && ` · expires ${override.expiresAt}`}
+                          </p>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          )}
+
+          {/* Update Compliance */}
+          {updateComplianceKPIs && updateComplianceKPIs.trackedProjects > 0 && (
+            <div className="space-y-6">
+              <h2 className="text-2xl font-semibold text-foreground flex items-center gap-2">
+                <CalendarClock className="h-6 w-6" />
+                Update Compliance
+              </h2>
+              <p className="text-sm text-muted-foreground">
+                {updateComplianceKPIs.complianceRate}% of {updateComplianceKPIs.trackedProjects} projects
+                were updated within their status threshold · {updateComplianceKPIs.staleProjects} stale
+              </p>
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                {(
+                  [
+                    ["By Project Manager", updateComplianceKPIs.byManager],
+                    ["By Department", updateComplianceKPIs.byDepartment],
+                  ] as Array<[string, UpdateComplianceRow[]]>
+                ).map(([title, rows]) => (
+                  <Card key={title} className="bg-card backdrop-blur-sm">
+                    <CardHeader>
+                      <CardTitle>{title}</CardTitle>
+                      <CardDescription>
+                        Share of projects up to date, least compliant first
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="space-y-3 max-h-[400px] overflow-y-auto">
+                        {rows.map((row) => (
+                          <div key={row.name} className="space-y-1">
+                            <div className="flex items-center justify-between gap-2 text-sm">
+                              <span className="font-medium">{row.name}</span>
+                              <span className="text-muted-foreground">
+                                {row.tracked - row.stale} of {row.tracked} up to date ·{" "}
+                                <span
+                                  className={
+                                    row.complianceRate >= 80
+                                      ? "text-green-600"
+                                      : row.complianceRate >= 50
+                                        ? "text-yellow-600"
+                                        : "text-red-600"
+                                  }
+                                >
+                                  {row.complianceRate}%
+                                </span>
+                              </span>
+                            </div>
+                            <Progress value={row.complianceRate} className="h-2" />
+                            {row.stale > 0 && (
+                              <p className="text-xs text-muted-foreground">
+                                Oldest update {row.maxDaysSinceUpdate} days ago
+                              </p>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Milestone Slips */}
+          {milestoneSlipKPIs && milestoneSlipKPIs.slippedMilestones > 0 && (
+            <div className="space-y-6">
+              <h2 className="text-2xl font-semibold text-foreground flex items-center gap-2">
+                <CalendarX className="h-6 w-6" />
+                Milestone Slips
+              </h2>
+
+              <Card className="bg-card backdrop-blur-sm">
+                <CardHeader>
+                  <CardTitle>Most-Slipped Milestones</CardTitle>
+                  <CardDescription>
+                    {milestoneSlipKPIs.slippedMilestones} of {milestoneSlipKPIs.openMilestones} open
+                    milestones are forecast past their planned date, by{" "}
+                    {milestoneSlipKPIs.averageSlipDays} days on average
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-3 max-h-[400px] overflow-y-auto">
+                    {milestoneSlipKPIs.mostSlipped.map((slip) => (
+                      <div
+                        key={slip.milestoneId}
+                        className="p-3 rounded-lg border border-border space-y-1 cursor-pointer hover:bg-muted/50"
+                        onClick={() => navigate(`/project/${slip.projectId}`)}
+                      >
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="font-medium text-sm">
+                            {slip.milestone}
+                            <span className="text-muted-foreground font-normal">
+                              {" "}
+                              · {stripHtmlTags(slip.projectTitle)}
+                            </span>
+                          </span>
+                          <span className="text-sm font-semibold text-red-600">
+                            {formatSlip(slip.slipDays)}
+                          </span>
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          Planned {slip.plannedDate} · forecast {slip.forecastDate} · moved{" "}
+                          {slip.forecastChanges} time{slip.forecastChanges === 1 ? "" : "s"}
+                        </p>
+                        {slip.lastReason && (
+                          <p className="text-sm italic text-muted-foreground">“{slip.lastReason}”</p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+          )}
+
           {/* Time-Aware Health Analysis */}
           {performanceKPIs && (
             <div className="space-y-6">
@@ -709,7 +1376,7 @@ const ProjectKPIsPage: React.FC = () => {
                   </CardHeader>
                   <CardContent>
                     <div className="space-y-2">
-                      {performanceKPIs.healthDistribution.map((item, index) => {
+                      {performanceKPIs.healthDistribution.map((item) => {
                         const healthLabel =
                           item.health === "GREEN"
                             ? "On Track"
@@ -737,6 +1404,13 @@ const ProjectKPIsPage: React.FC = () => {
                               <span className="text-sm font-medium">
                                 {item.count}
                               </span>
+                              {hasScoredDimensions && (
+                                <div className="text-xs text-muted-foreground">
+                                  Budget {item.dimensions.budget} · Risks{" "}
+                                  {item.dimensions.risks} · Milestones{" "}
+                                  {item.dimensions.overdueMilestones}
+                                </div>
+                              )}
                               <div className="text-xs text-muted-foreground">
                                 {item.percentage}%
                               </div>
@@ -751,6 +1425,8 @@ const ProjectKPIsPage: React.FC = () => {
                         substantial time remaining (&gt;70%) need only ≥5%
                         completion for Green status. Cancelled projects
                         excluded.
+                        {hasScoredDimensions &&
+                          " Budget, risk and overdue-milestone counts are projects with that sub-color."}
                       </div>
                     </div>
                   </CardContent>
@@ -1151,7 +1827,8 @@ const ProjectKPIsPage: React.FC = () => {
           {/* Timeline KPIs */}
           {timelineKPIs &&
             (timelineKPIs.upcomingMilestones.length > 0 ||
-              timelineKPIs.overdueMilestones.length > 0) && (
+              timelineKPIs.overdueMilestones.length > 0 ||
+              timelineKPIs.baselineVariance.projectsWithBaseline > 0) && (
               <div className="space-y-6">
                 <h2 className="text-2xl font-semibold text-foreground flex items-center gap-2">
                   <Calendar className="h-6 w-6" />
@@ -1244,6 +1921,73 @@ const ProjectKPIsPage: React.FC = () => {
                       </CardContent>
                     </Card>
                   )}
+
+                  {timelineKPIs.baselineVariance.projectsWithBaseline > 0 && (
+                    <Card className="bg-card backdrop-blur-sm lg:col-span-2">
+                      <CardHeader>
+                        <CardTitle className="flex items-center gap-2">
+                          <TrendingDown className="h-5 w-5" />
+                          Baseline Variance
+                        </CardTitle>
+                        <CardDescription>
+                          Current finish vs each project's active baseline ·{" "}
+                          {timelineKPIs.baselineVariance.projectsBehindBaseline} of{" "}
+                          {timelineKPIs.baselineVariance.projectsWithBaseline} behind · average{" "}
+                          {timelineKPIs.baselineVariance.averageFinishVarianceDays > 0 ? "+" : ""}
+                          {timelineKPIs.baselineVariance.averageFinishVarianceDays} days (
+                          {timelineKPIs.baselineVariance.averageScheduleVariancePercent > 0 ? "+" : ""}
+                          {timelineKPIs.baselineVariance.averageScheduleVariancePercent}%)
+                        </CardDescription>
+                      </CardHeader>
+                      <CardContent>
+                        <div className="space-y-3">
+                          {timelineKPIs.baselineVariance.projects
+                            .slice(0, 8)
+                            .map((project) => {
+                              const late = project.finishVarianceDays > 0;
+                              return (
+                                <div
+                                  key={project.projectId}
+                                  className={`flex items-center justify-between p-3 rounded-lg border ${
+                                    late
+                                      ? "bg-destructive/10 border-destructive/20"
+                                      : "bg-chart-2/10 border-chart-2/20"
+                                  }`}
+                                >
+                                  <div className="flex-1">
+                                    <div className="font-medium text-sm">
+                                      {stripHtmlTags(project.projectTitle)}
+                                    </div>
+                                    <div className="text-xs text-muted-foreground">
+                                      Baseline: {project.baselineName}
+                                      {project.slippedItems > 0 &&
+                                        ` · ${project.slippedItems} item${project.slippedItems === 1 ? "" : "s"} slipped`}
+                                    </div>
+                                  </div>
+                                  <div className="text-right">
+                                    <div
+                                      className={`text-sm font-semibold ${late ? "text-destructive" : ""}`}
+                                    >
+                                      {late ? "+" : ""}
+                                      {project.finishVarianceDays} days (
+                                      {project.scheduleVariancePercent > 0 ? "+" : ""}
+                                      {project.scheduleVariancePercent}%)
+                                    </div>
+                                    {project.budgetVariance !== null &&
+                                      project.budgetVariance !== 0 && (
+                                        <div className="text-xs text-muted-foreground">
+                                          Budget {project.budgetVariance > 0 ? "+" : "-"}
+                                          {formatCurrency(Math.abs(project.budgetVariance))}
+                                        </div>
+                                      )}
+                                  </div>
+                                </div>
+                              );
+                            })}
+                        </div>
+                      </CardContent>
+                    </Card>
+                  )}
                 </div>
               </div>
             )}
@@ -0,0 +1,176 @@
+import React, { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { ArrowLeft, LayoutTemplate, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectTrigger, SelectContent, SelectItem, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import { Toaster } from "@/components/ui/toaster";
+import Layout from "@/components/layout/Layout";
+import CreateFromTemplateDialog from "@/components/templates/CreateFromTemplateDialog";
+import { supabase } from "@/lib/supabase";
+import { useAuth } from "@/lib/hooks/useAuth";
+import {
+  projectTemplatesService,
+  type ProjectTemplate,
+} from "@/lib/services/projectTemplates";
+
+const ALL_DEPARTMENTS = "all";
+
+// Weeks from the first milestone start to the last milestone end
+const templateSpanWeeks = (template: ProjectTemplate) => {
+  const ends = template.milestones.map((m) => m.offset_days + (m.duration_days || 0));
+  return ends.length ? Math.max(1, Math.ceil(Math.max(...ends) / 7)) : 0;
+};
+
+const ProjectTemplatesPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { profile, isAdmin } = useAuth();
+  const [templates, setTemplates] = useState<ProjectTemplate[]>([]);
+  const [departments, setDepartments] = useState<string[]>([]);
+  const [department, setDepartment] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [selectedTemplate, setSelectedTemplate] = useState<ProjectTemplate | null>(null);
+
+  // Default the library to the user's own department
+  useEffect(() => {
+    if (department === null && profile) {
+      setDepartment(profile.department || ALL_DEPARTMENTS);
+    }
+  }, [profile, department]);
+
+  useEffect(() => {
+    supabase
+      .from("departments")
+      .select("name")
+      .order("name")
+      .then(({ data }) => setDepartments((data || []).map((d) => d.name)));
+  }, []);
+
+  useEffect(() => {
+    if (department === null) return;
+    setLoading(true);
+    projectTemplatesService
+      .getTemplates(department === ALL_DEPARTMENTS ? null : department)
+      .then((list) => {
+        setTemplates(list);
+        setLoading(false);
+      });
+  }, [department]);
+
+  const handleDelete = async (template: ProjectTemplate) => {
+    if (!window.confirm(`Delete the template "${template.name}"? Projects created from it are not affected.`)) {
+      return;
+    }
+    const ok = await projectTemplatesService.deleteTemplate(template.id);
+    if (!ok) {
+      toast({ title: "Error", description: "Failed to delete template", variant: "destructive" });
+      return;
+    }
+    setTemplates((prev) => prev.filter((t) => t.id !== template.id));
+    toast({ title: "Success", description: `${template.name} deleted` });
+  };
+
+  return (
+    <Layout>
+      <div className="w-full p-6 bg-background">
+        <div className="mb-6 flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">Project Templates</h1>
+            <p className="text-sm text-muted-foreground">
+              Start a new project from a saved plan. Admins save templates from any project with "Save as Template".
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-muted-foreground">Department</span>
+              <Select value={department ?? ALL_DEPARTMENTS} onValueChange={setDepartment}>
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_DEPARTMENTS}>All Departments</SelectItem>
+                  {departments.map((dept) => (
+                    <SelectItem key={dept} value={dept}>
+                      {dept}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button variant="ghost" onClick={() => navigate("/")} className="flex items-center gap-2">
+              <ArrowLeft className="h-4 w-4" />
+              Back to Projects
+            </Button>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="text-muted-foreground">Loading templates…</div>
+        ) : templates.length === 0 ? (
+          <div className="w-full bg-card text-foreground border border-border rounded-lg p-6 text-center">
+            <LayoutTemplate className="h-10 w-10 text-muted-foreground mx-auto mb-3" />
+            <div className="text-lg font-semibold">No Templates</div>
+            <div className="text-muted-foreground mt-2">
+              No templates are available for this department yet.
+            </div>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+            {templates.map((template) => {
+              const taskCount = template.milestones.reduce((sum, m) => sum + (m.tasks?.length || 0), 0);
+              return (
+                <Card key={template.id} className="bg-card border-border flex flex-col">
+                  <CardHeader className="pb-2">
+                    <div className="flex items-start justify-between gap-2">
+                      <CardTitle className="text-foreground">{template.name}</CardTitle>
+                      {template.department ? (
+                        <Badge variant="outline">{template.department}</Badge>
+                      ) : (
+                        <Badge variant="secondary">All departments</Badge>
+                      )}
+                    </div>
+                  </CardHeader>
+                  <CardContent className="flex-1 flex flex-col gap-3">
+                    {template.description && (
+                      <p className="text-sm text-muted-foreground">{template.description}</p>
+                    )}
+                    <p className="text-sm text-foreground">
+                      {template.milestones.length} milestones · {taskCount} tasks · {template.risks.length} risks
+                      {templateSpanWeeks(template) > 0 && <> · ~{templateSpanWeeks(template)} weeks</>}
+                    </p>
+                    <div className="mt-auto flex items-center justify-between">
+                      <Button size="sm" onClick={() => setSelectedTemplate(template)}>
+                        Use Template
+                      </Button>
+                      {isAdmin && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Delete template"
+                          onClick={() => handleDelete(template)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <CreateFromTemplateDialog
+        template={selectedTemplate}
+        onClose={() => setSelectedTemplate(null)}
+      />
+      <Toaster />
+    </Layout>
+  );
+};
+
+export default ProjectTemplatesPage;
@@ -1,19 +1,48 @@
-import React, { useEffect, useState } from "react";
+import React, { useCallback, useEffect, useState } from "react";
 import { useNavigate, useParams, Link } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Select, SelectTrigger, SelectContent, SelectItem, SelectValue } from "@/components/ui/select";
 import ProjectGantt from "@/components/timeline/ProjectGantt";
+import BaselineControls from "@/components/timeline/BaselineControls";
 import { projectService, type ProjectWithRelations } from "@/lib/services/project";
+import { projectBaselinesService, type ProjectBaseline } from "@/lib/services/projectBaselines";
+import {
+  filterHolidaysForDepartment,
+  holidayCalendarService,
+  type Holiday,
+} from "@/lib/services/holidayCalendar";
+import { useAuth } from "@/lib/hooks/AuthContext";
 import Layout from "@/components/layout/Layout";
 
 const ProjectTimeline: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const { canEditProject } = useAuth();
   const [project, setProject] = useState<ProjectWithRelations | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   // Default timeline view to monthly
   const [zoom, setZoom] = useState<"weekly" | "monthly" | "quarterly" | "yearly">("monthly");
+  const [baselines, setBaselines] = useState<ProjectBaseline[]>([]);
+  const [holidays, setHolidays] = useState<Holiday[]>([]);
+  // undefined = follow the active baseline; null = hide ghost bars
+  const [selectedBaselineId, setSelectedBaselineId] = useState<string | null | undefined>(undefined);
+
+  const loadBaselines = useCallback(async () => {
+    if (!id) return;
+    setBaselines(await projectBaselinesService.getBaselines(id));
+  }, [id]);
+
+  useEffect(() => {
+    loadBaselines();
+  }, [loadBaselines]);
+
+  const department = project?.department;
+  useEffect(() => {
+    holidayCalendarService
+      .getHolidays()
+      .then((all) => setHolidays(filterHolidaysForDepartment(all, department)));
+  }, [department]);
 
   useEffect(() => {
     const load = async () => {
@@ -34,6 +63,12 @@ const ProjectTimeline: React.FC = () => {
     load();
   }, [id]);
 
+  const activeBaseline = baselines.find((b) => b.is_active) || null;
+  const shownBaseline =
+    selectedBaselineId === undefined
+      ? activeBaseline
+      : baselines.find((b) => b.id === selectedBaselineId) || null;
+
   const title = project?.title ? project.title.replace(/<[^>]*>/g, "") : "Project";
 
   // Derive dates if missing
@@ -66,6 +101,16 @@ const ProjectTimeline: React.FC = () => {
             <p className="text-sm text-muted-foreground">Read-only Gantt view based on project dates and milestones.</p>
           </div>
           <div className="flex items-center gap-3">
+            {id && (
+              <BaselineControls
+                projectId={id}
+                baselines={baselines}
+                selectedId={shownBaseline?.id ?? null}
+                canEdit={!!project && canEditProject(project)}
+                onSelect={setSelectedBaselineId}
+                onChanged={loadBaselines}
+              />
+            )}
             <div className="flex items-center gap-2">
               <span className="text-sm text-muted-foreground">Zoom</span>
               <Select value={zoom} onValueChange={(v) => setZoom(v as any)}>
@@ -92,7 +137,11 @@ const ProjectTimeline: React.FC = () => {
           zoom={zoom}
           overallStatusColor={(project as any)?.computed_status_color || (project as any)?.manual_status_color || "green"}
           healthCalculationType={(project as any)?.health_calculation_type}
+          dependencies={project?.dependencies || []}
+          baseline={shownBaseline}
+          holidays={holidays}
           milestones={(project?.milestones || []).map(m => ({
+            id: m.id,
             date: m.date,
             endDate: m.end_date,
             milestone: m.milestone,
@@ -101,6 +150,7 @@ const ProjectTimeline: React.FC = () => {
             owner: m.owner,
             tasksCount: (m as any)?.tasks?.length ?? (m as any)?.tasks_count ?? (m as any)?.taskCount ?? 0,
             tasks: ((m as any)?.tasks || []).map((t: any) => ({
+              id: t.id,
               description: t.description || "",
               assignee: t.assignee || "",
               date: t.date || "",
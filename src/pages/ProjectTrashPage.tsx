@@ -0,0 +1,280 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { ArrowLeft, Loader2, RotateCcw, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/components/ui/use-toast";
+import { Toaster } from "@/components/ui/toaster";
+import Layout from "@/components/layout/Layout";
+import { useAuth } from "@/lib/hooks/useAuth";
+import { projectService } from "@/lib/services/project";
+import {
+  daysUntilPurge,
+  DEFAULT_PURGE_AFTER_DAYS,
+  projectTrashService,
+  type TrashedProject,
+} from "@/lib/services/projectTrash";
+
+const stripHtml = (text: string | null | undefined) =>
+  text ? text.replace(/<[^>]*>/g, "") : "Untitled Project";
+
+const ProjectTrashPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { user, isAdmin } = useAuth();
+  const [projects, setProjects] = useState<TrashedProject[]>([]);
+  const [purgeAfterDays, setPurgeAfterDays] = useState(DEFAULT_PURGE_AFTER_DAYS);
+  const [purgeDaysInput, setPurgeDaysInput] = useState(String(DEFAULT_PURGE_AFTER_DAYS));
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [savingSettings, setSavingSettings] = useState(false);
+  const [purging, setPurging] = useState(false);
+  const [deletingProject, setDeletingProject] = useState<TrashedProject | null>(null);
+
+  const loadTrash = useCallback(async () => {
+    if (!user) return;
+    setLoading(true);
+    const [trashed, settings] = await Promise.all([
+      projectTrashService.getTrashedProjects({ userId: user.id, isAdmin }),
+      projectTrashService.getSettings(),
+    ]);
+    setProjects(trashed);
+    setPurgeAfterDays(settings.purge_after_days);
+    setPurgeDaysInput(String(settings.purge_after_days));
+    setLoading(false);
+  }, [user, isAdmin]);
+
+  useEffect(() => {
+    loadTrash();
+  }, [loadTrash]);
+
+  const handleRestore = async (project: TrashedProject) => {
+    setBusyId(project.id);
+    const ok = await projectService.restoreProject(project.id);
+    setBusyId(null);
+    if (!ok) {
+      toast({ title: "Error", description: "Failed to restore project", variant: "destructive" });
+      return;
+    }
+    setProjects((prev) => prev.filter((p) => p.id !== project.id));
+    toast({ title: "Success", description: `${stripHtml(project.title)} restored` });
+  };
+
+  const handleDeleteForever = async () => {
+    if (!deletingProject) return;
+    const project = deletingProject;
+    setDeletingProject(null);
+    setBusyId(project.id);
+    const ok = await projectService.permanentlyDeleteProject(project.id);
+    setBusyId(null);
+    if (!ok) {
+      toast({ title: "Error", description: "Failed to delete project", variant: "destructive" });
+      return;
+    }
+    setProjects((prev) => prev.filter((p) => p.id !== project.id));
+    toast({ title: "Success", description: `${stripHtml(project.title)} permanently deleted` });
+  };
+
+  const handleSaveSettings = async () => {
+    const days = Number(purgeDaysInput);
+    if (!user || !Number.isInteger(days) || days < 1 || days > 3650) {
+      toast({
+        title: "Error",
+        description: "Enter a whole number of days between 1 and 3650",
+        variant: "destructive",
+      });
+      return;
+    }
+    setSavingSettings(true);
+    const ok = await projectTrashService.updatePurgeAfterDays(days, user.id);
+    setSavingSettings(false);
+    if (!ok) {
+      toast({ title: "Error", description: "Failed to save purge setting", variant: "destructive" });
+      return;
+    }
+    setPurgeAfterDays(days);
+    toast({ title: "Success", description: `Trashed projects are now purged after ${days} days` });
+  };
+
+  const handlePurgeNow = async () => {
+    setPurging(true);
+    const purged = await projectTrashService.purgeExpired();
+    setPurging(false);
+    if (purged === null) {
+      toast({ title: "Error", description: "Failed to purge the trash", variant: "destructive" });
+      return;
+    }
+    toast({
+      title: "Success",
+      description: `${purged} project${purged === 1 ? "" : "s"} permanently deleted`,
+    });
+    loadTrash();
+  };
+
+  return (
+    <Layout>
+      <div className="w-full p-6 bg-background">
+        <div className="mb-6 flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">Trash</h1>
+            <p className="text-sm text-muted-foreground">
+              {isAdmin
+                ? "Deleted projects across the organization."
+                : "Projects you own or deleted."}{" "}
+              They are permanently deleted {purgeAfterDays} days after being moved here.
+            </p>
+          </div>
+          <Button variant="ghost" onClick={() => navigate("/")} className="flex items-center gap-2">
+            <ArrowLeft className="h-4 w-4" />
+            Back to Projects
+          </Button>
+        </div>
+
+        {isAdmin && (
+          <Card className="bg-card border-border mb-6">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-foreground">Purge Settings</CardTitle>
+            </CardHeader>
+            <CardContent className="flex flex-wrap items-end gap-3">
+              <div className="space-y-1.5">
+                <Label htmlFor="purge-after-days">Purge after (days)</Label>
+                <Input
+                  id="purge-after-days"
+                  type="number"
+                  min={1}
+                  max={3650}
+                  className="w-32"
+                  value={purgeDaysInput}
+                  onChange={(e) => setPurgeDaysInput(e.target.value)}
+                />
+              </div>
+              <Button onClick={handleSaveSettings} disabled={savingSettings}>
+                {savingSettings && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save
+              </Button>
+              <Button variant="outline" onClick={handlePurgeNow} disabled={purging}>
+                {purging && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Purge Expired Now
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card className="bg-card border-border">
+          <CardContent className="pt-6">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Project</TableHead>
+                  <TableHead>Department</TableHead>
+                  <TableHead>Deleted By</TableHead>
+                  <TableHead>Deleted</TableHead>
+                  <TableHead>Purged In</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                      Loading trash…
+                    </TableCell>
+                  </TableRow>
+                ) : projects.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                      The trash is empty.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  projects.map((project) => {
+                    const daysLeft = daysUntilPurge(project.deleted_at, purgeAfterDays);
+                    return (
+                      <TableRow key={project.id}>
+                        <TableCell className="font-medium">{stripHtml(project.title)}</TableCell>
+                        <TableCell>{project.department || "—"}</TableCell>
+                        <TableCell>{project.deleted_by_name || "Unknown"}</TableCell>
+                        <TableCell>{new Date(project.deleted_at).toLocaleString()}</TableCell>
+                        <TableCell>
+                          {daysLeft === 0 ? "Next purge" : `${daysLeft} day${daysLeft === 1 ? "" : "s"}`}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-2">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={busyId === project.id}
+                              onClick={() => handleRestore(project)}
+                            >
+                              <RotateCcw className="h-4 w-4 mr-1" />
+                              Restore
+                            </Button>
+                            {isAdmin && (
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                title="Delete forever"
+                                disabled={busyId === project.id}
+                                onClick={() => setDeletingProject(project)}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+
+      <AlertDialog open={!!deletingProject} onOpenChange={(open) => !open && setDeletingProject(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {stripHtml(deletingProject?.title)} forever?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The project, its milestones, tasks, versions and all other records are permanently
+              deleted. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDeleteForever}
+              className="bg-destructive hover:bg-destructive/90 text-destructive-foreground"
+            >
+              Delete Forever
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+      <Toaster />
+    </Layout>
+  );
+};
+
+export default ProjectTrashPage;
@@ -4,9 +4,17 @@ import { Button } from "@/components/ui/button";
 import { Select, SelectTrigger, SelectContent, SelectItem, SelectValue } from "@/components/ui/select";
 import ProjectGantt, { TimelineMilestone } from "@/components/timeline/ProjectGantt";
 import { projectService, type ProjectWithRelations } from "@/lib/services/project";
+import {
+  groupProjectsByProgram,
+  programsService,
+  UNASSIGNED_PROGRAM,
+  type Program,
+} from "@/lib/services/programs";
 import Layout from "@/components/layout/Layout";
 import { ArrowLeft, Check, X } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
 import {
   Popover,
   PopoverContent,
@@ -21,6 +29,26 @@ import {
   CommandList,
 } from "@/components/ui/command";
 
+// ONE milestone per project, spanning its start and end dates
+const toRoadmapMilestones = (projects: ProjectWithRelations[]): TimelineMilestone[] =>
+  projects.map((project) => {
+    const title = project.title ? project.title.replace(/<[^>]*>/g, "") : "Untitled Project";
+    const statusColor = 
+      (project as any)?.computed_status_color ||
+      (project as any)?.manual_status_color ||
+      "green";
+
+    return {
+      date: project.calculated_start_date!,
+      endDate: project.calculated_end_date!, // NEW: Include end date
+      milestone: title,
+      status: statusColor as "green" | "yellow" | "red",
+      completion: 50, // Show as 50% for visual balance
+      owner: project.project_manager || "",
+      tasksCount: 0,
+    };
+  }).sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
 const ProjectsRoadmap: React.FC = () => {
   const navigate = useNavigate();
   const [projects, setProjects] = useState<ProjectWithRelations[]>([]);
@@ -28,6 +56,9 @@ const ProjectsRoadmap: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [statusFilter, setStatusFilter] = useState<string>("all");
   const [departmentFilter, setDepartmentFilter] = useState<string>("all");
+  const [programs, setPrograms] = useState<Program[]>([]);
+  const [programFilter, setProgramFilter] = useState<string>("all");
+  const [programSwimlanes, setProgramSwimlanes] = useState(false);
   const [selectedProjects, setSelectedProjects] = useState<string[]>([]);
   const [projectPopoverOpen, setProjectPopoverOpen] = useState(false);
   const [zoom, setZoom] = useState<"weekly" | "monthly" | "quarterly" | "yearly">("quarterly");
@@ -35,8 +66,12 @@ const ProjectsRoadmap: React.FC = () => {
   useEffect(() => {
     const load = async () => {
       try {
-        const allProjects = await projectService.getAllProjects();
+        const [allProjects, allPrograms] = await Promise.all([
+          projectService.getAllProjects(),
+          programsService.getPrograms(),
+        ]);
         setProjects(allProjects);
+        setPrograms(allPrograms);
       } catch (e: any) {
         setError(e?.message || "Failed to load projects");
       } finally {
@@ -55,13 +90,16 @@ const ProjectsRoadmap: React.FC = () => {
     )
   ).sort();
 
-  // Filter projects by status, department, selected projects, and ensure they have dates
+  // Filter projects by status, department, program, selected projects, and ensure they have dates
   const filteredProjects = projects.filter((p) => {
     const hasValidDates = p.calculated_start_date && p.calculated_end_date;
     const matchesStatus = statusFilter === "all" || p.status === statusFilter;
     const matchesDepartment = departmentFilter === "all" || p.department === departmentFilter;
+    const matchesProgram =
+      programFilter === "all" ||
+      (programFilter === UNASSIGNED_PROGRAM ? !p.program_id : p.program_id === programFilter);
     const matchesSelection = selectedProjects.length === 0 || selectedProjects.includes(p.id);
-    return hasValidDates && matchesStatus && matchesDepartment && matchesSelection;
+    return hasValidDates && matchesStatus && matchesDepartment && matchesProgram && matchesSelection;
   });
 
   // Get list of projects with valid dates for the selection dropdown
@@ -85,23 +123,12 @@ const ProjectsRoadmap: React.FC = () => {
   const { start: overallStart, end: overallEnd } = getTimelineRange();
 
   // Create unified milestones array - ONE milestone per project with start and end dates
-  const unifiedMilestones: TimelineMilestone[] = filteredProjects.map((project) => {
-    const title = project.title ? project.title.replace(/<[^>]*>/g, "") : "Untitled Project";
-    const statusColor = 
-      (project as any)?.computed_status_color ||
-      (project as any)?.manual_status_color ||
-      "green";
+  const unifiedMilestones = toRoadmapMilestones(filteredProjects);
 
-    return {
-      date: project.calculated_start_date!,
-      endDate: project.calculated_end_date!, // NEW: Include end date
-      milestone: title,
-      status: statusColor as "green" | "yellow" | "red",
-      completion: 50, // Show as 50% for visual balance
-      owner: project.project_manager || "",
-      tasksCount: 0,
-    };
-  }).sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  // Swimlanes share the overall range so bars line up across programs
+  const programLanes = programSwimlanes
+    ? groupProjectsByProgram(filteredProjects, programs)
+    : [];
 
   if (loading) {
     return (
@@ -171,6 +198,35 @@ const ProjectsRoadmap: React.FC = () => {
               </Select>
             </div>
             
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-muted-foreground">Program</span>
+              <Select value={programFilter} onValueChange={setProgramFilter}>
+                <SelectTrigger className="w-[160px]">
+                  <SelectValue placeholder="All" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Programs</SelectItem>
+                  {programs.map((program) => (
+                    <SelectItem key={program.id} value={program.id}>
+                      {program.name}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value={UNASSIGNED_PROGRAM}>No Program</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch
+                id="program-swimlanes"
+                checked={programSwimlanes}
+                onCheckedChange={setProgramSwimlanes}
+              />
+              <Label htmlFor="program-swimlanes" className="text-sm text-muted-foreground">
+                Swimlanes by program
+              </Label>
+            </div>
+
             <div className="w-[280px] flex flex-col">
               <Popover
                 open={projectPopoverOpen}
@@ -309,7 +365,7 @@ const ProjectsRoadmap: React.FC = () => {
           <div className="w-full bg-card text-foreground border border-border rounded-lg p-6">
             <div className="text-lg font-semibold">No Projects Found</div>
             <div className="text-muted-foreground mt-2">
-              {statusFilter === "all" && departmentFilter === "all" && selectedProjects.length === 0
+              {statusFilter === "all" && departmentFilter === "all" && programFilter === "all" && selectedProjects.length === 0
                 ? "No projects with valid dates found. Add project dates to see them on the timeline."
                 : selectedProjects.length > 0
                 ? "No selected projects match the current filters."
@@ -322,16 +378,32 @@ const ProjectsRoadmap: React.FC = () => {
               <strong>Note:</strong> Each project is shown as a single bar spanning from start to end date. 
               The color indicates the project's health status.
             </div>
-            <ProjectGantt
-              projectTitle="All Projects Timeline"
-              startDate={overallStart?.toISOString() || null}
-              endDate={overallEnd?.toISOString() || null}
-              zoom={zoom}
-              overallStatusColor="green"
-              healthCalculationType={null}
-              milestones={unifiedMilestones}
-              rowLabelText="Project"
-            />
+            {programSwimlanes ? (
+              programLanes.map((lane) => (
+                <ProjectGantt
+                  key={lane.key}
+                  projectTitle={lane.program?.name || "No Program"}
+                  startDate={overallStart?.toISOString() || null}
+                  endDate={overallEnd?.toISOString() || null}
+                  zoom={zoom}
+                  overallStatusColor="green"
+                  healthCalculationType={null}
+                  milestones={toRoadmapMilestones(lane.projects)}
+                  rowLabelText="Project"
+                />
+              ))
+            ) : (
+              <ProjectGantt
+                projectTitle="All Projects Timeline"
+                startDate={overallStart?.toISOString() || null}
+                endDate={overallEnd?.toISOString() || null}
+                zoom={zoom}
+                overallStatusColor="green"
+                healthCalculationType={null}
+                milestones={unifiedMilestones}
+                rowLabelText="Project"
+              />
+            )}
             <div className="mt-4 bg-card border border-border rounded-lg p-4">
               <h3 className="text-sm font-semibold mb-2">Projects Included ({filteredProjects.length})</h3>
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-2">
@@ -0,0 +1,393 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { ArrowLeft, Loader2, Settings2, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
+import { Toaster } from "@/components/ui/toaster";
+import Layout from "@/components/layout/Layout";
+import { useAuth } from "@/lib/hooks/useAuth";
+import { fromDayNumber, toDayNumber } from "@/lib/services/scheduleDependencies";
+import {
+  buildWeeklyLoad,
+  getLoadLevel,
+  getWeekStart,
+  LOAD_LEVEL_CLASSES,
+  LOAD_LEVEL_LABELS,
+  resourceAllocationService,
+  WEEKDAY_LABELS,
+  type CapacityProfile,
+  type LoadLevel,
+  type PersonAllocationInput,
+  type PersonLoad,
+  type WeekLoad,
+} from "@/lib/services/resourceAllocation";
+
+const WEEK_OPTIONS = [4, 8, 12, 26];
+
+const formatWeek = (weekStart: string) => {
+  const [, month, day] = weekStart.split("-");
+  return `${month}/${day}`;
+};
+
+const todayString = () => new Date().toISOString().split("T")[0];
+
+const ResourceAllocationPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { isAdmin } = useAuth();
+  const [weekCount, setWeekCount] = useState(12);
+  const [inputs, setInputs] = useState<PersonAllocationInput[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [department, setDepartment] = useState("all");
+  const [selected, setSelected] = useState<{ person: PersonLoad; week: WeekLoad } | null>(null);
+  const [editing, setEditing] = useState<PersonLoad | null>(null);
+  const [capacityDraft, setCapacityDraft] = useState<CapacityProfile | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const rangeStart = getWeekStart(todayString());
+  const rangeEnd = fromDayNumber(toDayNumber(rangeStart)! + weekCount * 7 - 1);
+
+  const load = () => {
+    setLoading(true);
+    resourceAllocationService.getAllocationInputs(rangeStart, rangeEnd).then((data) => {
+      setInputs(data);
+      setLoading(false);
+    });
+  };
+
+  useEffect(load, [rangeStart, rangeEnd]);
+
+  const departments = useMemo(
+    () =>
+      [...new Set(inputs.map((p) => p.department).filter((d): d is string => !!d))].sort(),
+    [inputs],
+  );
+
+  const people = useMemo(
+    () =>
+      buildWeeklyLoad(
+        department === "all" ? inputs : inputs.filter((p) => p.department === department),
+        rangeStart,
+        rangeEnd,
+      ),
+    [inputs, department, rangeStart, rangeEnd],
+  );
+
+  const weekStarts = people[0]?.weeks.map((w) => w.weekStart) || [];
+
+  const openCapacity = (person: PersonLoad) => {
+    setEditing(person);
+    setCapacityDraft({ ...person.capacity, working_weekdays: [...person.capacity.working_weekdays] });
+  };
+
+  const toggleWeekday = (weekday: number, checked: boolean) => {
+    setCapacityDraft((prev) =>
+      prev && {
+        ...prev,
+        working_weekdays: checked
+          ? [...prev.working_weekdays, weekday]
+          : prev.working_weekdays.filter((d) => d !== weekday),
+      },
+    );
+  };
+
+  const handleSaveCapacity = async () => {
+    if (!editing?.directoryUserId || !capacityDraft) return;
+    if (!(capacityDraft.hours_per_day > 0 && capacityDraft.hours_per_day <= 24)) {
+      toast({ title: "Error", description: "Hours per day must be between 0 and 24", variant: "destructive" });
+      return;
+    }
+    setSaving(true);
+    const ok = await resourceAllocationService.saveCapacity(editing.directoryUserId, capacityDraft);
+    setSaving(false);
+    if (!ok) {
+      toast({ title: "Error", description: "Failed to save the capacity profile", variant: "destructive" });
+      return;
+    }
+    toast({ title: "Success", description: `Capacity updated for ${editing.name}` });
+    setEditing(null);
+    load();
+  };
+
+  const capacitySummary = (capacity: CapacityProfile) =>
+    `${capacity.hours_per_day}h × ${capacity.working_weekdays.length} days`;
+
+  return (
+    <Layout>
+      <div className="w-full p-6 bg-background">
+        <div className="mb-6 flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">Resource Allocation</h1>
+            <p className="text-sm text-muted-foreground">
+              Weekly load per person across all active projects, against their capacity after
+              holidays and part-time days. Click a cell to see the tasks behind it.
+            </p>
+          </div>
+          <Button variant="ghost" onClick={() => navigate("/")} className="flex items-center gap-2">
+            <ArrowLeft className="h-4 w-4" />
+            Back to Projects
+          </Button>
+        </div>
+
+        <div className="mb-4 flex flex-wrap items-center gap-4">
+          <div className="flex items-center gap-2">
+            <Label className="text-sm text-foreground">Weeks</Label>
+            <Select value={String(weekCount)} onValueChange={(v) => setWeekCount(Number(v))}>
+              <SelectTrigger className="w-[100px] bg-card border-border">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {WEEK_OPTIONS.map((n) => (
+                  <SelectItem key={n} value={String(n)}>
+                    {n} weeks
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center gap-2">
+            <Label className="text-sm text-foreground">Department</Label>
+            <Select value={department} onValueChange={setDepartment}>
+              <SelectTrigger className="w-[200px] bg-card border-border">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Departments</SelectItem>
+                {departments.map((d) => (
+                  <SelectItem key={d} value={d}>
+                    {d}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center gap-2 ml-auto text-xs">
+            {(Object.keys(LOAD_LEVEL_LABELS) as LoadLevel[]).map((level) => (
+              <span key={level} className={`px-2 py-1 rounded ${LOAD_LEVEL_CLASSES[level]}`}>
+                {LOAD_LEVEL_LABELS[level]}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        <Card className="bg-card border-border">
+          <CardContent className="pt-6 overflow-x-auto">
+            {loading ? (
+              <div className="flex items-center justify-center py-12 text-muted-foreground">
+                <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+                Loading allocations…
+              </div>
+            ) : people.length === 0 ? (
+              <div className="text-center py-12 text-muted-foreground">
+                <Users className="h-10 w-10 mx-auto mb-3" />
+                No assigned tasks or activities in this range.
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="min-w-[220px]">Person</TableHead>
+                    {weekStarts.map((weekStart) => (
+                      <TableHead key={weekStart} className="text-center text-xs px-1">
+                        {formatWeek(weekStart)}
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {people.map((person) => (
+                    <TableRow key={person.key}>
+                      <TableCell className="py-2">
+                        <div className="flex items-center gap-2">
+                          <div className="min-w-0">
+                            <div className="font-medium text-foreground truncate">{person.name}</div>
+                            <div className="text-xs text-muted-foreground">
+                              {person.directoryUserId ? (
+                                <>
+                                  {person.department || "No department"} · {capacitySummary(person.capacity)}
+                                </>
+                              ) : (
+                                <span title="Assigned by name only; default capacity and no holidays apply">
+                                  Not in directory
+                                </span>
+                              )}
+                            </div>
+                          </div>
+                          {isAdmin && person.directoryUserId && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-7 w-7 ml-auto shrink-0"
+                              onClick={() => openCapacity(person)}
+                              title="Edit capacity"
+                            >
+                              <Settings2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                      {person.weeks.map((week) => {
+                        const level = getLoadLevel(week.loadPercent, week.assignedHours);
+                        return (
+                          <TableCell key={week.weekStart} className="p-1">
+                            <button
+                              type="button"
+                              disabled={level === "idle"}
+                              onClick={() => setSelected({ person, week })}
+                              className={`w-full min-w-[48px] rounded py-2 text-xs font-medium ${LOAD_LEVEL_CLASSES[level]} ${level === "idle" ? "cursor-default" : "hover:ring-2 hover:ring-primary"}`}
+                              title={`${week.assignedHours}h assigned / ${week.capacityHours}h capacity`}
+                            >
+                              {level === "idle" ? "—" : week.loadPercent === null ? `${week.assignedHours}h` : `${week.loadPercent}%`}
+                            </button>
+                          </TableCell>
+                        );
+                      })}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>
+              {selected?.person.name} — week of {selected && formatWeek(selected.week.weekStart)}
+            </DialogTitle>
+            <DialogDescription>
+              {selected?.week.assignedHours}h assigned against {selected?.week.capacityHours}h capacity
+              {selected?.week.loadPercent !== null && selected ? ` (${selected.week.loadPercent}%)` : ""}.
+            </DialogDescription>
+          </DialogHeader>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Project</TableHead>
+                <TableHead>Item</TableHead>
+                <TableHead>Dates</TableHead>
+                <TableHead>Allocation</TableHead>
+                <TableHead className="text-right">Hours</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {selected?.week.contributions.map(({ item, hours }) => (
+                <TableRow key={`${item.kind}-${item.id}`}>
+                  <TableCell>
+                    <button
+                      type="button"
+                      className="text-primary hover:underline text-left"
+                      onClick={() => navigate(`/project/${item.projectId}`)}
+                    >
+                      {item.projectTitle}
+                    </button>
+                  </TableCell>
+                  <TableCell>
+                    <span className="text-xs text-muted-foreground mr-1">
+                      {item.kind === "task" ? "Task" : "Activity"}:
+                    </span>
+                    {item.label}
+                  </TableCell>
+                  <TableCell className="text-xs whitespace-nowrap">
+                    {item.start === item.finish ? item.start : `${item.start} – ${item.finish}`}
+                  </TableCell>
+                  <TableCell className="text-xs">
+                    {item.allocationHours !== null
+                      ? `${item.allocationHours}h total`
+                      : `${item.allocationPercent ?? 100}%`}
+                  </TableCell>
+                  <TableCell className="text-right">{hours}h</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Capacity — {editing?.name}</DialogTitle>
+            <DialogDescription>
+              Working hours per day and working days. Department holidays are taken off
+              automatically.
+            </DialogDescription>
+          </DialogHeader>
+          {capacityDraft && (
+            <div className="space-y-4">
+              <div className="space-y-1.5">
+                <Label htmlFor="hours-per-day">Hours per day</Label>
+                <Input
+                  id="hours-per-day"
+                  type="number"
+                  min="0.5"
+                  max="24"
+                  step="0.5"
+                  value={capacityDraft.hours_per_day}
+                  onChange={(e) =>
+                    setCapacityDraft({ ...capacityDraft, hours_per_day: Number(e.target.value) })
+                  }
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label>Working days</Label>
+                <div className="flex flex-wrap gap-3">
+                  {[1, 2, 3, 4, 5, 6, 7].map((weekday) => (
+                    <label key={weekday} className="flex items-center gap-1.5 text-sm">
+                      <Checkbox
+                        checked={capacityDraft.working_weekdays.includes(weekday)}
+                        onCheckedChange={(checked) => toggleWeekday(weekday, checked === true)}
+                      />
+                      {WEEKDAY_LABELS[weekday]}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveCapacity} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+      <Toaster />
+    </Layout>
+  );
+};
+
+export default ResourceAllocationPage;
@@ -0,0 +1,229 @@
+import React, { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { ArrowLeft, ClipboardCheck, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
+import { Toaster } from "@/components/ui/toaster";
+import Layout from "@/components/layout/Layout";
+import ProjectReportPreview from "@/components/report/ProjectReportPreview";
+import { useAuth } from "@/lib/hooks/useAuth";
+import {
+  formatReportingPeriod,
+  reportingPeriodsService,
+  type StatusReportForReview,
+} from "@/lib/services/reportingPeriods";
+
+const stripHtml = (text: string | null | undefined) =>
+  text ? text.replace(/<[^>]*>/g, "") : "Untitled Project";
+
+const periodLabel = (report: StatusReportForReview) =>
+  formatReportingPeriod({
+    cadence: report.cadence,
+    start: report.period_start,
+    end: report.period_end,
+  });
+
+const StatusReviewQueuePage: React.FC = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { profile, isAdmin, isDirector } = useAuth();
+  const canReview = isAdmin || (isDirector && !!profile?.department);
+  const [queue, setQueue] = useState<StatusReportForReview[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reviewing, setReviewing] = useState<StatusReportForReview | null>(null);
+  const [comment, setComment] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!profile) return;
+    if (!canReview) {
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    reportingPeriodsService
+      .getReviewQueue(isAdmin ? null : profile.department || null)
+      .then((reports) => {
+        setQueue(reports);
+        setLoading(false);
+      });
+  }, [profile, isAdmin, canReview]);
+
+  const openReview = (report: StatusReportForReview) => {
+    setReviewing(report);
+    setComment("");
+  };
+
+  const handleDecision = async (decision: "approved" | "returned") => {
+    if (!reviewing) return;
+    if (decision === "returned" && !comment.trim()) {
+      toast({
+        title: "Error",
+        description: "Add a comment telling the PM what to change",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    const result = await reportingPeriodsService.reviewStatusReport(
+      reviewing.id,
+      decision,
+      comment,
+      profile?.full_name || null,
+    );
+    setSaving(false);
+
+    if (!result) {
+      toast({ title: "Error", description: "Failed to save the review", variant: "destructive" });
+      return;
+    }
+
+    setQueue((prev) => prev.filter((r) => r.id !== reviewing.id));
+    toast({
+      title: "Success",
+      description:
+        decision === "approved"
+          ? `${stripHtml(reviewing.project.title)} approved for ${periodLabel(reviewing)}`
+          : `${stripHtml(reviewing.project.title)} returned to the PM`,
+    });
+    setReviewing(null);
+  };
+
+  return (
+    <Layout>
+      <div className="w-full p-6 bg-background">
+        <div className="mb-6 flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">Status Reviews</h1>
+            <p className="text-sm text-muted-foreground">
+              Status reports waiting for approval
+              {!isAdmin && profile?.department ? ` in ${profile.department}` : ""}. Sponsors only see
+              reports once they are approved.
+            </p>
+          </div>
+          <Button variant="ghost" onClick={() => navigate("/")} className="flex items-center gap-2">
+            <ArrowLeft className="h-4 w-4" />
+            Back to Projects
+          </Button>
+        </div>
+
+        {!loading && !canReview ? (
+          <div className="w-full bg-card text-foreground border border-border rounded-lg p-6 text-center">
+            <ClipboardCheck className="h-10 w-10 text-muted-foreground mx-auto mb-3" />
+            <div className="text-lg font-semibold">No Review Access</div>
+            <div className="text-muted-foreground mt-2">
+              Status reports are reviewed by department directors and admins.
+            </div>
+          </div>
+        ) : (
+          <Card className="bg-card border-border">
+            <CardContent className="pt-6">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Project</TableHead>
+                    <TableHead>Department</TableHead>
+                    <TableHead>Period</TableHead>
+                    <TableHead>Submitted By</TableHead>
+                    <TableHead>Submitted</TableHead>
+                    <TableHead className="text-right">Review</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {loading ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                        Loading review queue…
+                      </TableCell>
+                    </TableRow>
+                  ) : queue.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                        Nothing is waiting for review.
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    queue.map((report) => (
+                      <TableRow key={report.id}>
+                        <TableCell className="font-medium">{stripHtml(report.project.title)}</TableCell>
+                        <TableCell>{report.project.department || "—"}</TableCell>
+                        <TableCell>{periodLabel(report)}</TableCell>
+                        <TableCell>{report.submitted_by_name || "Unknown"}</TableCell>
+                        <TableCell>{new Date(report.submitted_at).toLocaleString()}</TableCell>
+                        <TableCell className="text-right">
+                          <Button size="sm" onClick={() => openReview(report)}>
+                            Review
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      <Dialog open={!!reviewing} onOpenChange={(open) => !open && setReviewing(null)}>
+        <DialogContent className="max-w-[95vw] w-[1000px] h-[92vh] flex flex-col">
+          <DialogHeader>
+            <DialogTitle>
+              {stripHtml(reviewing?.project.title)} — {reviewing && periodLabel(reviewing)}
+            </DialogTitle>
+            <DialogDescription>
+              Submitted by {reviewing?.submitted_by_name || "unknown"}. Approve to publish it to sponsors, or
+              return it with comments.
+            </DialogDescription>
+          </DialogHeader>
+          <ScrollArea className="flex-1 min-h-0 bg-gray-100 rounded-md">
+            <div className="p-6">{reviewing && <ProjectReportPreview model={reviewing.report} />}</div>
+          </ScrollArea>
+          <div className="space-y-1.5">
+            <Label htmlFor="review-comment">Comments</Label>
+            <Textarea
+              id="review-comment"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder="Required when returning the report"
+              rows={3}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => handleDecision("returned")} disabled={saving}>
+              Return to PM
+            </Button>
+            <Button onClick={() => handleDecision("approved")} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Approve
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+      <Toaster />
+    </Layout>
+  );
+};
+
+export default StatusReviewQueuePage;
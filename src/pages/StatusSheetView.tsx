@@ -4,7 +4,9 @@
  * Description: This component renders a standalone view of a project's status sheet. It loads
  * project data based on the URL parameter, formats it for the StatusSheet component, and provides
  * navigation back to the previous page. The component also includes functionality to export the
- * status sheet to JPG format.
+ * status sheet to JPG format, and a period picker for browsing the project's official (submitted)
+ * status reports. In departments that require director approval, sponsors only see approved
+ * reports, and only approved reports can be exported.
  *
  * Imports from:
  * - React core libraries
@@ -29,18 +31,35 @@ import html2canvas from "html2canvas";
 import { supabase } from "@/lib/supabase";
 import Layout from "@/components/layout/Layout";
 import { Breadcrumb } from "@/components/ui/breadcrumb";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import ProjectReportPreview from "@/components/report/ProjectReportPreview";
+import {
+  APPROVAL_STATUS_LABELS,
+  canReviewStatusReports,
+  formatReportingPeriod,
+  getLatestApprovedReport,
+  reportingPeriodsService,
+  type StatusReport,
+} from "@/lib/services/reportingPeriods";
 import { useAuth } from "@/lib/hooks/AuthContext";
 
+const LIVE_STATUS = "live";
+
 /**
  * StatusSheetView component
  * Displays a project status sheet with version navigation
  */
 const StatusSheetView: React.FC = () => {
   const { toast } = useToast();
-  const { canEditProject, user } = useAuth();
+  const { canEditProject, user, profile } = useAuth();
   const [versions, setVersions] = useState([]);
   const [currentVersionIndex, setCurrentVersionIndex] = useState(-1); // -1 means current (non-versioned)
   const [isLoadingVersion, setIsLoadingVersion] = useState(false);
+  // Official reports submitted for past periods; "live" shows the status sheet
+  const [officialReports, setOfficialReports] = useState<StatusReport[]>([]);
+  const [selectedReportId, setSelectedReportId] = useState(LIVE_STATUS);
+  // Whether the project's department requires director approval of reports
+  const [requiresApproval, setRequiresApproval] = useState(false);
 
   const handleExportToJpg = async () => {
     const element = document.getElementById("status-sheet");
@@ -79,13 +98,20 @@ const StatusSheetView: React.FC = () => {
     const loadProject = async () => {
       if (id) {
         try {
-          const [projectData, versionsData] = await Promise.all([
+          const [projectData, versionsData, reportsData] = await Promise.all([
             projectService.getProject(id),
             projectVersionsService.getVersions(id),
+            reportingPeriodsService.getStatusReports(id),
           ]);
           if (projectData) {
+            const reporting = await reportingPeriodsService.getDepartmentReporting(
+              projectData.department,
+            );
             setProject(projectData);
             setVersions(versionsData);
+            setOfficialReports(reportsData);
+            setRequiresApproval(reporting.requiresApproval);
+            setSelectedReportId(LIVE_STATUS);
             setCurrentVersionIndex(-1);
           } else {
             console.error("Failed to load project data");
@@ -266,6 +292,23 @@ const StatusSheetView: React.FC = () => {
     );
   }
 
+  // Where reports need approval, sponsors see the newest approved report
+  // instead of the live status; editors and reviewers still see both
+  const showsLiveStatus =
+    !requiresApproval ||
+    canEditProject(project) ||
+    canReviewStatusReports(profile, project.department);
+  const pickableReports = showsLiveStatus
+    ? officialReports
+    : officialReports.filter((r) => r.approval_status === "approved");
+  const selectedReport =
+    pickableReports.find((r) => r.id === selectedReportId) ||
+    (showsLiveStatus ? null : getLatestApprovedReport(officialReports));
+  // Exports must be backed by an approved report
+  const canExport = selectedReport
+    ? selectedReport.approval_status === "approved"
+    : showsLiveStatus && !requiresApproval;
+
   // Format project data for the StatusSheet component
   // Format project data for the StatusSheet component
   const formattedData = {
@@ -276,6 +319,15 @@ const StatusSheetView: React.FC = () => {
     manual_health_percentage: project.manual_health_percentage || 0,
     computed_status_color: project.computed_status_color,
     manual_status_color: project.manual_status_color,
+    manual_status_reason: project.manual_status_reason,
+    manual_status_expires_at: project.manual_status_expires_at,
+    manual_status_set_by_name: project.manual_status_set_by_name,
+    department: project.department,
+    calculated_start_date: project.calculated_start_date,
+    total_days: project.total_days,
+    total_days_remaining: project.total_days_remaining,
+    working_days: project.working_days,
+    working_days_remaining: project.working_days_remaining,
     budget: {
       total:
         typeof project.budget_total === "number"
@@ -352,102 +404,137 @@ const StatusSheetView: React.FC = () => {
             </div>
 
             <div className="flex items-center gap-2">
-              {/* Version Navigation */}
-              <div className="flex items-center gap-2 mr-4">
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={handlePreviousVersion}
-                  disabled={
-                    (currentVersionIndex === -1 && versions.length === 0) ||
-                    currentVersionIndex >= versions.length - 1 ||
-                    isLoadingVersion
-                  }
-                  className="flex items-center gap-1"
-                >
-                  <ChevronLeft className="h-4 w-4" />
-                  <span>Older ({versions.length} saved changes)</span>
-                </Button>
+              {/* Reporting period picker */}
+              <Select
+                value={selectedReport?.id || (showsLiveStatus ? LIVE_STATUS : "")}
+                onValueChange={setSelectedReportId}
+                disabled={!showsLiveStatus && !selectedReport}
+              >
+                <SelectTrigger className="w-[240px]">
+                  <SelectValue placeholder="No approved reports" />
+                </SelectTrigger>
+                <SelectContent>
+                  {showsLiveStatus && <SelectItem value={LIVE_STATUS}>Live status</SelectItem>}
+                  {pickableReports.map((report) => (
+                    <SelectItem key={report.id} value={report.id}>
+                      Official: {formatReportingPeriod({
+                        cadence: report.cadence,
+                        start: report.period_start,
+                        end: report.period_end,
+                      })}
+                      {report.approval_status !== "approved" &&
+                        ` (${APPROVAL_STATUS_LABELS[report.approval_status]})`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
 
-                <div className="text-sm px-3 py-2 bg-gray-100 rounded border min-w-[160px] text-center">
-                  {(() => {
-                    if (isLoadingVersion) {
-                      return "Loading...";
+              {/* Version Navigation */}
+              {showsLiveStatus && !selectedReport && (
+                <div className="flex items-center gap-2 mr-4">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handlePreviousVersion}
+                    disabled={
+                      (currentVersionIndex === -1 && versions.length === 0) ||
+                      currentVersionIndex >= versions.length - 1 ||
+                      isLoadingVersion
                     }
+                    className="flex items-center gap-1"
+                  >
+                    <ChevronLeft className="h-4 w-4" />
+                    <span>Older ({versions.length} saved changes)</span>
+                  </Button>
+
+                  <div className="text-sm px-3 py-2 bg-gray-100 rounded border min-w-[160px] text-center">
+                    {(() => {
+                      if (isLoadingVersion) {
+                        return "Loading...";
+                      }
+
+                      if (currentVersionIndex === -1) {
+                        return (
+                          <div>
+                            <div className="font-bold">Current Version</div>
+                            <div className="text-xs text-gray-600 mt-1">
+                              Latest changes
+                            </div>
+                            {versions.length > 0 && (
+                              <div className="text-xs text-gray-600 mt-1">
+                                ({versions.length} saved changes available)
+                              </div>
+                            )}
+                          </div>
+                        );
+                      }
+
+                      const currentVersion = versions[currentVersionIndex];
+                      if (!currentVersion) {
+                        return "Invalid Version";
+                      }
+
+                      const positionInAvailable =
+                        versions.length - currentVersionIndex;
+                      const totalAvailable = versions.length;
+                      const actualVersionNumber = currentVersion.version_number;
+
+                      const highestVersionNumber =
+                        versions.length > 0
+                          ? Math.max(...versions.map((v) => v.version_number))
+                          : actualVersionNumber;
 
-                    if (currentVersionIndex === -1) {
                       return (
                         <div>
-                          <div className="font-bold">Current Version</div>
-                          <div className="text-xs text-gray-600 mt-1">
-                            Latest changes
+                          <div className="font-bold">
+                            Change {positionInAvailable} of {totalAvailable}
                           </div>
-                          {versions.length > 0 && (
+                          <div className="text-xs text-gray-600">
+                            (Save #{actualVersionNumber} of {highestVersionNumber}{" "}
+                            total saves)
+                          </div>
+                          {currentVersion.created_at && (
                             <div className="text-xs text-gray-600 mt-1">
-                              ({versions.length} saved changes available)
+                              Saved:{" "}
+                              {new Date(
+                                currentVersion.created_at,
+                              ).toLocaleDateString("en-US", {
+                                month: "short",
+                                day: "numeric",
+                                hour: "2-digit",
+                                minute: "2-digit",
+                              })}
                             </div>
                           )}
                         </div>
                       );
-                    }
-
-                    const currentVersion = versions[currentVersionIndex];
-                    if (!currentVersion) {
-                      return "Invalid Version";
-                    }
-
-                    const positionInAvailable =
-                      versions.length - currentVersionIndex;
-                    const totalAvailable = versions.length;
-                    const actualVersionNumber = currentVersion.version_number;
-
-                    const highestVersionNumber =
-                      versions.length > 0
-                        ? Math.max(...versions.map((v) => v.version_number))
-                        : actualVersionNumber;
-
-                    return (
-                      <div>
-                        <div className="font-bold">
-                          Change {positionInAvailable} of {totalAvailable}
-                        </div>
-                        <div className="text-xs text-gray-600">
-                          (Save #{actualVersionNumber} of {highestVersionNumber}{" "}
-                          total saves)
-                        </div>
-                        {currentVersion.created_at && (
-                          <div className="text-xs text-gray-600 mt-1">
-                            Saved:{" "}
-                            {new Date(
-                              currentVersion.created_at,
-                            ).toLocaleDateString("en-US", {
-                              month: "short",
-                              day: "numeric",
-                              hour: "2-digit",
-                              minute: "2-digit",
-                            })}
-                          </div>
-                        )}
-                      </div>
-                    );
-                  })()}
+                    })()}
+                  </div>
+
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleNextVersion}
+                    disabled={currentVersionIndex === -1 || isLoadingVersion}
+                    className="flex items-center gap-1"
+                  >
+                    Newer <ChevronRight className="h-4 w-4" />
+                  </Button>
                 </div>
-
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={handleNextVersion}
-                  disabled={currentVersionIndex === -1 || isLoadingVersion}
-                  className="flex items-center gap-1"
-                >
-                  Newer <ChevronRight className="h-4 w-4" />
-                </Button>
-              </div>
+              )}
 
               <Button
                 onClick={handleExportToJpg}
                 className="flex items-center gap-2"
                 variant="outline"
+                disabled={!canExport}
+                title={
+                  canExport
+                    ? undefined
+                    : selectedReport
+                      ? "Only approved reports can be exported"
+                      : "This department requires approval: pick an approved report to export"
+                }
               >
                 <Download className="h-4 w-4" /> Export to JPG
               </Button>
@@ -455,10 +542,44 @@ const StatusSheetView: React.FC = () => {
           </div>
         </div>
         
-        {/* StatusSheet component - forced to light mode */}
-        <div className="bg-white shadow-none">
-          <StatusSheet data={formattedData} />
-        </div>
+        {selectedReport ? (
+          <>
+            <div className="mb-4 rounded-md border bg-muted px-4 py-3 text-sm">
+              Official status report for{" "}
+              <strong>
+                {formatReportingPeriod({
+                  cadence: selectedReport.cadence,
+                  start: selectedReport.period_start,
+                  end: selectedReport.period_end,
+                })}
+              </strong>
+              , submitted by {selectedReport.submitted_by_name || "unknown"} on{" "}
+              {new Date(selectedReport.submitted_at).toLocaleString()}. This report is locked.
+              <div className="mt-1">
+                <strong>{APPROVAL_STATUS_LABELS[selectedReport.approval_status]}</strong>
+                {selectedReport.reviewed_at && (
+                  <>
+                    {" "}by {selectedReport.reviewed_by_name || "unknown"} on{" "}
+                    {new Date(selectedReport.reviewed_at).toLocaleString()}
+                  </>
+                )}
+                {selectedReport.review_comment && <>: {selectedReport.review_comment}</>}
+              </div>
+            </div>
+            <div id="status-sheet" className="bg-white">
+              <ProjectReportPreview model={selectedReport.report} />
+            </div>
+          </>
+        ) : !showsLiveStatus ? (
+          <div className="rounded-md border bg-muted px-4 py-8 text-center text-sm text-muted-foreground">
+            No status report has been approved for this project yet.
+          </div>
+        ) : (
+          /* StatusSheet component - forced to light mode */
+          <div className="bg-white shadow-none">
+            <StatusSheet data={formattedData} />
+          </div>
+        )}
       </div>
     </Layout>
   );
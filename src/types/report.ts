@@ -6,6 +6,8 @@ export type ReportSectionKey =
   | "accomplishments"
   | "nextPeriodActivities"
   | "risks"
+  | "issues"
+  | "decisions"
   | "considerations"
   | "changes"
   | "budget"
@@ -19,6 +21,8 @@ export const DEFAULT_SECTION_ORDER: ReportSectionKey[] = [
   "accomplishments",
   "nextPeriodActivities",
   "risks",
+  "issues",
+  "decisions",
   "considerations",
   "changes",
 ];
@@ -29,6 +33,8 @@ export const SECTION_LABELS: Record<ReportSectionKey, string> = {
   accomplishments: "Accomplishments",
   nextPeriodActivities: "Next Period Activities",
   risks: "Risks",
+  issues: "Issue Log",
+  decisions: "Decision Log",
   considerations: "Considerations",
   changes: "Changes",
   budget: "Budget",
@@ -88,11 +94,52 @@ export interface ReportActivity {
 export interface ReportRisk {
   description: string;
   impact: string;
+  // Register fields; scores are null for risks that were never scored
+  probability: number | null;
+  impactScore: number | null;
+  exposure: number | null;
+  exposureLevel: "low" | "medium" | "high" | "critical" | null;
+  owner: string;
+  mitigationPlan: string;
+  triggerDate: string | null;
+  status: string;
+  realizedBy: string | null; // the change that realized the risk
 }
+export interface ReportIssue {
+  description: string;
+  severity: string;
+  severityLevel: "low" | "medium" | "high" | "critical";
+  owner: string;
+  dueDate: string | null;
+  escalation: string;
+  status: string;
+  resolution: string;
+}
+
+export interface ReportDecision {
+  decision: string;
+  date: string | null;
+  decidedBy: string;
+  rationale: string;
+  linkedItems: string[]; // e.g. "Risk: Vendor delay"
+}
+
 export interface ReportChange {
   change: string;
   impact: string;
   disposition: string;
+  // Change request fields; optional because reports submitted before change
+  // requests existed only have the three text columns
+  status?: string;
+  requestedBy?: string | null;
+  budgetDelta?: number;
+  scheduleDeltaDays?: number;
+  affectedMilestones?: string[];
+  submittedAt?: string | null;
+  decidedBy?: string | null;
+  decidedAt?: string | null;
+  decisionComment?: string | null;
+  implementedAt?: string | null;
 }
 
 // ---- gantt / timeline ----
@@ -130,6 +177,16 @@ export interface ReportHeader {
   budgetTotal: number | null;
   budgetActuals: number | null;
   budgetForecast: number | null;
+  // Variance against the active baseline; null when none has been captured.
+  baseline: {
+    name: string;
+    endDate: string | null;
+    finishVarianceDays: number | null;
+    scheduleVariancePercent: number | null;
+    budgetVariance: number | null;
+  } | null;
+  // "Manual override by … until …: reason"; null when health is automatic.
+  healthOverride: string | null;
   generatedOn: string;
 }
 
@@ -146,6 +203,11 @@ export interface ReportModel {
     accomplishments?: RichTextBlock[][];
     nextPeriodActivities?: ReportActivity[];
     risks?: ReportRisk[];
+    // Probability × impact counts of open/mitigating risks, indexed
+    // [impact - 1][probability - 1]. Absent when no risk has been scored.
+    riskHeatMap?: number[][];
+    issues?: ReportIssue[];
+    decisions?: ReportDecision[];
     considerations?: string[];
     changes?: ReportChange[];
     budget?: { total: number | null; actuals: number | null; forecast: number | null };
@@ -187,33 +187,88 @@ export type Database = {
       }
       changes: {
         Row: {
+          affected_milestone_ids: string[]
+          baseline_id: string | null
+          budget_applied: boolean
+          budget_delta: number
           change: string
           created_at: string | null
+          decided_at: string | null
+          decided_by: string | null
+          decided_by_name: string | null
+          decision_comment: string | null
           disposition: string | null
           id: string
           impact: string | null
+          implemented_at: string | null
           project_id: string | null
+          requested_by: string | null
+          schedule_applied: boolean
+          schedule_delta_days: number
+          status: string
+          submitted_at: string | null
+          submitted_by: string | null
+          submitted_by_name: string | null
           updated_at: string | null
         }
         Insert: {
+          affected_milestone_ids?: string[]
+          baseline_id?: string | null
+          budget_applied?: boolean
+          budget_delta?: number
           change: string
           created_at?: string | null
+          decided_at?: string | null
+          decided_by?: string | null
+          decided_by_name?: string | null
+          decision_comment?: string | null
           disposition?: string | null
           id?: string
           impact?: string | null
+          implemented_at?: string | null
           project_id?: string | null
+          requested_by?: string | null
+          schedule_applied?: boolean
+          schedule_delta_days?: number
+          status?: string
+          submitted_at?: string | null
+          submitted_by?: string | null
+          submitted_by_name?: string | null
           updated_at?: string | null
         }
         Update: {
+          affected_milestone_ids?: string[]
+          baseline_id?: string | null
+          budget_applied?: boolean
+          budget_delta?: number
           change?: string
           created_at?: string | null
+          decided_at?: string | null
+          decided_by?: string | null
+          decided_by_name?: string | null
+          decision_comment?: string | null
           disposition?: string | null
           id?: string
           impact?: string | null
+          implemented_at?: string | null
           project_id?: string | null
+          requested_by?: string | null
+          schedule_applied?: boolean
+          schedule_delta_days?: number
+          status?: string
+          submitted_at?: string | null
+          submitted_by?: string | null
+          submitted_by_name?: string | null
           updated_at?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "changes_baseline_id_fkey"
+            columns: ["baseline_id"]
+            isOneToOne: false
+            referencedRelation: "project_baselines"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "changes_project_id_fkey"
             columns: ["project_id"]
@@ -325,12 +380,58 @@ export type Database = {
           },
         ]
       }
+      decisions: {
+        Row: {
+          created_at: string
+          decided_by: string | null
+          decision: string
+          decision_date: string | null
+          id: string
+          linked_items: Json
+          project_id: string
+          rationale: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          decided_by?: string | null
+          decision?: string
+          decision_date?: string | null
+          id?: string
+          linked_items?: Json
+          project_id: string
+          rationale?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          decided_by?: string | null
+          decision?: string
+          decision_date?: string | null
+          id?: string
+          linked_items?: Json
+          project_id?: string
+          rationale?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "decisions_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       departments: {
         Row: {
           created_at: string | null
           description: string | null
           id: string
           name: string
+          reporting_cadence: string
+          requires_status_approval: boolean
           updated_at: string | null
         }
         Insert: {
@@ -338,6 +439,8 @@ export type Database = {
           description?: string | null
           id?: string
           name: string
+          reporting_cadence?: string
+          requires_status_approval?: boolean
           updated_at?: string | null
         }
         Update: {
@@ -345,6 +448,8 @@ export type Database = {
           description?: string | null
           id?: string
           name?: string
+          reporting_cadence?: string
+          requires_status_approval?: boolean
           updated_at?: string | null
         }
         Relationships: []
@@ -397,6 +502,167 @@ export type Database = {
         }
         Relationships: []
       }
+      health_recalc_logs: {
+        Row: {
+          color_changes: Json
+          colors_changed: number
+          created_at: string
+          durations_updated: number
+          error_message: string | null
+          errors: Json
+          execution_time_ms: number | null
+          id: string
+          overrides_expired: number
+          projects_processed: number
+          run_at: string
+          triggered_by: string
+        }
+        Insert: {
+          color_changes?: Json
+          colors_changed?: number
+          created_at?: string
+          durations_updated?: number
+          error_message?: string | null
+          errors?: Json
+          execution_time_ms?: number | null
+          id?: string
+          overrides_expired?: number
+          projects_processed?: number
+          run_at?: string
+          triggered_by?: string
+        }
+        Update: {
+          color_changes?: Json
+          colors_changed?: number
+          created_at?: string
+          durations_updated?: number
+          error_message?: string | null
+          errors?: Json
+          execution_time_ms?: number | null
+          id?: string
+          overrides_expired?: number
+          projects_processed?: number
+          run_at?: string
+          triggered_by?: string
+        }
+        Relationships: []
+      }
+      health_rule_sets: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          department: string | null
+          id: string
+          note: string | null
+          published_at: string | null
+          published_by: string | null
+          rules: Json
+          status: string
+          version: number
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          department?: string | null
+          id?: string
+          note?: string | null
+          published_at?: string | null
+          published_by?: string | null
+          rules: Json
+          status?: string
+          version: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          department?: string | null
+          id?: string
+          note?: string | null
+          published_at?: string | null
+          published_by?: string | null
+          rules?: Json
+          status?: string
+          version?: number
+        }
+        Relationships: []
+      }
+      holiday_calendar: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          department: string | null
+          holiday_date: string
+          id: string
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          department?: string | null
+          holiday_date: string
+          id?: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          department?: string | null
+          holiday_date?: string
+          id?: string
+          name?: string
+        }
+        Relationships: []
+      }
+      issues: {
+        Row: {
+          created_at: string
+          description: string
+          due_date: string | null
+          escalation_level: string
+          id: string
+          owner: string | null
+          project_id: string
+          resolution: string | null
+          severity: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string
+          due_date?: string | null
+          escalation_level?: string
+          id?: string
+          owner?: string | null
+          project_id: string
+          resolution?: string | null
+          severity?: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string
+          due_date?: string | null
+          escalation_level?: string
+          id?: string
+          owner?: string | null
+          project_id?: string
+          resolution?: string | null
+          severity?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "issues_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       migration_log: {
         Row: {
           executed_at: string
@@ -412,15 +678,72 @@ export type Database = {
         }
         Relationships: []
       }
+      milestone_forecast_changes: {
+        Row: {
+          changed_at: string
+          changed_by: string | null
+          changed_by_name: string | null
+          forecast_date: string
+          id: string
+          milestone_id: string
+          previous_forecast_date: string | null
+          project_id: string
+          reason: string | null
+          source: string
+        }
+        Insert: {
+          changed_at?: string
+          changed_by?: string | null
+          changed_by_name?: string | null
+          forecast_date: string
+          id?: string
+          milestone_id: string
+          previous_forecast_date?: string | null
+          project_id: string
+          reason?: string | null
+          source?: string
+        }
+        Update: {
+          changed_at?: string
+          changed_by?: string | null
+          changed_by_name?: string | null
+          forecast_date?: string
+          id?: string
+          milestone_id?: string
+          previous_forecast_date?: string | null
+          project_id?: string
+          reason?: string | null
+          source?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "milestone_forecast_changes_milestone_id_fkey"
+            columns: ["milestone_id"]
+            isOneToOne: false
+            referencedRelation: "milestones"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "milestone_forecast_changes_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       milestones: {
         Row: {
           completion: number
           created_at: string | null
           date: string
           end_date: string | null
+          forecast_date: string | null
+          forecast_reason: string | null
           id: string
           milestone: string
           owner: string
+          planned_date: string | null
           project_id: string | null
           status: string
           updated_at: string | null
@@ -431,9 +754,12 @@ export type Database = {
           created_at?: string | null
           date: string
           end_date?: string | null
+          forecast_date?: string | null
+          forecast_reason?: string | null
           id?: string
           milestone: string
           owner: string
+          planned_date?: string | null
           project_id?: string | null
           status?: string
           updated_at?: string | null
@@ -444,9 +770,12 @@ export type Database = {
           created_at?: string | null
           date?: string
           end_date?: string | null
+          forecast_date?: string | null
+          forecast_reason?: string | null
           id?: string
           milestone?: string
           owner?: string
+          planned_date?: string | null
           project_id?: string | null
           status?: string
           updated_at?: string | null
@@ -464,7 +793,10 @@ export type Database = {
       }
       next_period_activities: {
         Row: {
+          allocation_hours: number | null
+          allocation_percent: number | null
           assignee: string | null
+          assignee_id: string | null
           completion: number | null
           created_at: string | null
           date: string | null
@@ -475,7 +807,10 @@ export type Database = {
           updated_at: string | null
         }
         Insert: {
+          allocation_hours?: number | null
+          allocation_percent?: number | null
           assignee?: string | null
+          assignee_id?: string | null
           completion?: number | null
           created_at?: string | null
           date?: string | null
@@ -486,7 +821,10 @@ export type Database = {
           updated_at?: string | null
         }
         Update: {
+          allocation_hours?: number | null
+          allocation_percent?: number | null
           assignee?: string | null
+          assignee_id?: string | null
           completion?: number | null
           created_at?: string | null
           date?: string | null
@@ -497,6 +835,13 @@ export type Database = {
           updated_at?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "next_period_activities_assignee_id_fkey"
+            columns: ["assignee_id"]
+            isOneToOne: false
+            referencedRelation: "directory_users"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "next_period_activities_project_id_fkey"
             columns: ["project_id"]
@@ -598,28 +943,256 @@ export type Database = {
         }
         Relationships: []
       }
-      project_editors: {
+      programs: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          name: string
+          owner_id: string | null
+          program_manager: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name: string
+          owner_id?: string | null
+          program_manager?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name?: string
+          owner_id?: string | null
+          program_manager?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      project_baselines: {
+        Row: {
+          budget_total: number | null
+          created_at: string
+          created_by: string | null
+          finish_date: string | null
+          id: string
+          is_active: boolean
+          items: Json
+          name: string
+          note: string | null
+          project_id: string
+          start_date: string | null
+        }
+        Insert: {
+          budget_total?: number | null
+          created_at?: string
+          created_by?: string | null
+          finish_date?: string | null
+          id?: string
+          is_active?: boolean
+          items?: Json
+          name: string
+          note?: string | null
+          project_id: string
+          start_date?: string | null
+        }
+        Update: {
+          budget_total?: number | null
+          created_at?: string
+          created_by?: string | null
+          finish_date?: string | null
+          id?: string
+          is_active?: boolean
+          items?: Json
+          name?: string
+          note?: string | null
+          project_id?: string
+          start_date?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_baselines_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      project_editors: {
+        Row: {
+          created_at: string
+          granted_by: string | null
+          project_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          granted_by?: string | null
+          project_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          granted_by?: string | null
+          project_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_editors_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      project_health_overrides: {
+        Row: {
+          action: string
+          changed_at: string
+          changed_by: string | null
+          changed_by_name: string | null
+          expires_at: string | null
+          health_percentage: number | null
+          id: string
+          project_id: string
+          reason: string | null
+          status_color: string | null
+        }
+        Insert: {
+          action: string
+          changed_at?: string
+          changed_by?: string | null
+          changed_by_name?: string | null
+          expires_at?: string | null
+          health_percentage?: number | null
+          id?: string
+          project_id: string
+          reason?: string | null
+          status_color?: string | null
+        }
+        Update: {
+          action?: string
+          changed_at?: string
+          changed_by?: string | null
+          changed_by_name?: string | null
+          expires_at?: string | null
+          health_percentage?: number | null
+          id?: string
+          project_id?: string
+          reason?: string | null
+          status_color?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_health_overrides_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      project_health_snapshots: {
+        Row: {
+          budget_variance: number | null
+          computed_status_color: string | null
+          created_at: string
+          health_calculation_type: string | null
+          id: string
+          manual_status_color: string | null
+          project_id: string
+          snapshot_date: string
+          status: string | null
+          time_remaining_percent: number | null
+          weighted_completion: number | null
+        }
+        Insert: {
+          budget_variance?: number | null
+          computed_status_color?: string | null
+          created_at?: string
+          health_calculation_type?: string | null
+          id?: string
+          manual_status_color?: string | null
+          project_id: string
+          snapshot_date: string
+          status?: string | null
+          time_remaining_percent?: number | null
+          weighted_completion?: number | null
+        }
+        Update: {
+          budget_variance?: number | null
+          computed_status_color?: string | null
+          created_at?: string
+          health_calculation_type?: string | null
+          id?: string
+          manual_status_color?: string | null
+          project_id?: string
+          snapshot_date?: string
+          status?: string | null
+          time_remaining_percent?: number | null
+          weighted_completion?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_health_snapshots_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      project_stakeholders: {
         Row: {
           created_at: string
-          granted_by: string | null
+          directory_user_id: string | null
+          email: string | null
+          id: string
+          name: string
           project_id: string
-          user_id: string
+          responsibilities: string | null
+          role: string
+          updated_at: string
         }
         Insert: {
           created_at?: string
-          granted_by?: string | null
+          directory_user_id?: string | null
+          email?: string | null
+          id?: string
+          name: string
           project_id: string
-          user_id: string
+          responsibilities?: string | null
+          role?: string
+          updated_at?: string
         }
         Update: {
           created_at?: string
-          granted_by?: string | null
+          directory_user_id?: string | null
+          email?: string | null
+          id?: string
+          name?: string
           project_id?: string
-          user_id?: string
+          responsibilities?: string | null
+          role?: string
+          updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "project_editors_project_id_fkey"
+            foreignKeyName: "project_stakeholders_directory_user_id_fkey"
+            columns: ["directory_user_id"]
+            isOneToOne: false
+            referencedRelation: "directory_users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "project_stakeholders_project_id_fkey"
             columns: ["project_id"]
             isOneToOne: false
             referencedRelation: "projects"
@@ -627,6 +1200,27 @@ export type Database = {
           },
         ]
       }
+      project_staleness_settings: {
+        Row: {
+          id: boolean
+          thresholds: Json
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          id?: boolean
+          thresholds?: Json
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          id?: boolean
+          thresholds?: Json
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
       project_summaries: {
         Row: {
           content: string
@@ -659,6 +1253,74 @@ export type Database = {
           },
         ]
       }
+      project_templates: {
+        Row: {
+          considerations: Json
+          created_at: string
+          created_by: string | null
+          department: string | null
+          description: string | null
+          id: string
+          milestones: Json
+          name: string
+          risks: Json
+          source_project_id: string | null
+        }
+        Insert: {
+          considerations?: Json
+          created_at?: string
+          created_by?: string | null
+          department?: string | null
+          description?: string | null
+          id?: string
+          milestones?: Json
+          name: string
+          risks?: Json
+          source_project_id?: string | null
+        }
+        Update: {
+          considerations?: Json
+          created_at?: string
+          created_by?: string | null
+          department?: string | null
+          description?: string | null
+          id?: string
+          milestones?: Json
+          name?: string
+          risks?: Json
+          source_project_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_templates_source_project_id_fkey"
+            columns: ["source_project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      project_trash_settings: {
+        Row: {
+          id: boolean
+          purge_after_days: number
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          id?: boolean
+          purge_after_days?: number
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          id?: boolean
+          purge_after_days?: number
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
       project_versions: {
         Row: {
           created_at: string
@@ -704,18 +1366,31 @@ export type Database = {
           calculated_end_date: string | null
           calculated_start_date: string | null
           charter_link: string
+          cloned_from_project_id: string | null
+          computed_status_changed_at: string | null
           computed_status_color: string | null
           created_at: string | null
+          deleted_at: string | null
+          deleted_by: string | null
           department: string | null
           description: string | null
           health_calculation_type: string | null
           id: string
+          last_meaningful_update_at: string
           manual_health_percentage: number | null
           manual_status_color: string | null
+          manual_status_expires_at: string | null
+          manual_status_reason: string | null
+          manual_status_set_at: string | null
+          manual_status_set_by: string | null
+          manual_status_set_by_name: string | null
           owner_id: string | null
+          previous_computed_status_color: string | null
+          program_id: string | null
           project_analysis: string | null
           project_id: string | null
           project_manager: string
+          revision: number
           sponsors: string
           status: string | null
           title: string
@@ -735,18 +1410,31 @@ export type Database = {
           calculated_end_date?: string | null
           calculated_start_date?: string | null
           charter_link: string
+          cloned_from_project_id?: string | null
+          computed_status_changed_at?: string | null
           computed_status_color?: string | null
           created_at?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
           department?: string | null
           description?: string | null
           health_calculation_type?: string | null
           id?: string
+          last_meaningful_update_at?: string
           manual_health_percentage?: number | null
           manual_status_color?: string | null
+          manual_status_expires_at?: string | null
+          manual_status_reason?: string | null
+          manual_status_set_at?: string | null
+          manual_status_set_by?: string | null
+          manual_status_set_by_name?: string | null
           owner_id?: string | null
+          previous_computed_status_color?: string | null
+          program_id?: string | null
           project_analysis?: string | null
           project_id?: string | null
           project_manager: string
+          revision?: number
           sponsors: string
           status?: string | null
           title: string
@@ -766,18 +1454,31 @@ export type Database = {
           calculated_end_date?: string | null
           calculated_start_date?: string | null
           charter_link?: string
+          cloned_from_project_id?: string | null
+          computed_status_changed_at?: string | null
           computed_status_color?: string | null
           created_at?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
           department?: string | null
           description?: string | null
           health_calculation_type?: string | null
           id?: string
+          last_meaningful_update_at?: string
           manual_health_percentage?: number | null
           manual_status_color?: string | null
+          manual_status_expires_at?: string | null
+          manual_status_reason?: string | null
+          manual_status_set_at?: string | null
+          manual_status_set_by?: string | null
+          manual_status_set_by_name?: string | null
           owner_id?: string | null
+          previous_computed_status_color?: string | null
+          program_id?: string | null
           project_analysis?: string | null
           project_id?: string | null
           project_manager?: string
+          revision?: number
           sponsors?: string
           status?: string | null
           title?: string
@@ -788,7 +1489,22 @@ export type Database = {
           working_days?: number | null
           working_days_remaining?: number | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "projects_cloned_from_project_id_fkey"
+            columns: ["cloned_from_project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "projects_program_id_fkey"
+            columns: ["program_id"]
+            isOneToOne: false
+            referencedRelation: "programs"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       reminder_emails: {
         Row: {
@@ -831,32 +1547,101 @@ export type Database = {
           },
         ]
       }
+      resource_capacity: {
+        Row: {
+          directory_user_id: string
+          hours_per_day: number
+          note: string | null
+          updated_at: string
+          updated_by: string | null
+          working_weekdays: number[]
+        }
+        Insert: {
+          directory_user_id: string
+          hours_per_day?: number
+          note?: string | null
+          updated_at?: string
+          updated_by?: string | null
+          working_weekdays?: number[]
+        }
+        Update: {
+          directory_user_id?: string
+          hours_per_day?: number
+          note?: string | null
+          updated_at?: string
+          updated_by?: string | null
+          working_weekdays?: number[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "resource_capacity_directory_user_id_fkey"
+            columns: ["directory_user_id"]
+            isOneToOne: true
+            referencedRelation: "directory_users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       risks: {
         Row: {
           created_at: string | null
           description: string
+          exposure: number | null
           id: string
           impact: string | null
+          impact_score: number | null
+          mitigation_plan: string | null
+          owner: string | null
+          owner_id: string | null
+          probability: number | null
           project_id: string | null
+          realized_change_id: string | null
+          status: string
+          trigger_date: string | null
           updated_at: string | null
         }
         Insert: {
           created_at?: string | null
           description: string
+          exposure?: never
           id?: string
           impact?: string | null
+          impact_score?: number | null
+          mitigation_plan?: string | null
+          owner?: string | null
+          owner_id?: string | null
+          probability?: number | null
           project_id?: string | null
+          realized_change_id?: string | null
+          status?: string
+          trigger_date?: string | null
           updated_at?: string | null
         }
         Update: {
           created_at?: string | null
           description?: string
+          exposure?: never
           id?: string
           impact?: string | null
+          impact_score?: number | null
+          mitigation_plan?: string | null
+          owner?: string | null
+          owner_id?: string | null
+          probability?: number | null
           project_id?: string | null
+          realized_change_id?: string | null
+          status?: string
+          trigger_date?: string | null
           updated_at?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "risks_owner_id_fkey"
+            columns: ["owner_id"]
+            isOneToOne: false
+            referencedRelation: "directory_users"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "risks_project_id_fkey"
             columns: ["project_id"]
@@ -864,6 +1649,60 @@ export type Database = {
             referencedRelation: "projects"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "risks_realized_change_id_fkey"
+            columns: ["realized_change_id"]
+            isOneToOne: false
+            referencedRelation: "changes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      schedule_dependencies: {
+        Row: {
+          created_at: string
+          dependency_type: string
+          id: string
+          lag_days: number
+          predecessor_id: string
+          predecessor_type: string
+          project_id: string
+          successor_id: string
+          successor_type: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          dependency_type?: string
+          id?: string
+          lag_days?: number
+          predecessor_id: string
+          predecessor_type: string
+          project_id: string
+          successor_id: string
+          successor_type: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          dependency_type?: string
+          id?: string
+          lag_days?: number
+          predecessor_id?: string
+          predecessor_type?: string
+          project_id?: string
+          successor_id?: string
+          successor_type?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "schedule_dependencies_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
         ]
       }
       scheduler_logs: {
@@ -899,6 +1738,114 @@ export type Database = {
         }
         Relationships: []
       }
+      stakeholder_raci: {
+        Row: {
+          created_at: string
+          designation: string
+          id: string
+          milestone_id: string
+          project_id: string
+          stakeholder_id: string
+        }
+        Insert: {
+          created_at?: string
+          designation: string
+          id?: string
+          milestone_id: string
+          project_id: string
+          stakeholder_id: string
+        }
+        Update: {
+          created_at?: string
+          designation?: string
+          id?: string
+          milestone_id?: string
+          project_id?: string
+          stakeholder_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stakeholder_raci_milestone_id_fkey"
+            columns: ["milestone_id"]
+            isOneToOne: false
+            referencedRelation: "milestones"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stakeholder_raci_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stakeholder_raci_stakeholder_id_fkey"
+            columns: ["stakeholder_id"]
+            isOneToOne: false
+            referencedRelation: "project_stakeholders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      status_reports: {
+        Row: {
+          approval_status: string
+          cadence: string
+          id: string
+          period_end: string
+          period_start: string
+          project_id: string
+          report: Json
+          review_comment: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          reviewed_by_name: string | null
+          submitted_at: string
+          submitted_by: string | null
+          submitted_by_name: string | null
+        }
+        Insert: {
+          approval_status?: string
+          cadence: string
+          id?: string
+          period_end: string
+          period_start: string
+          project_id: string
+          report: Json
+          review_comment?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          reviewed_by_name?: string | null
+          submitted_at?: string
+          submitted_by?: string | null
+          submitted_by_name?: string | null
+        }
+        Update: {
+          approval_status?: string
+          cadence?: string
+          id?: string
+          period_end?: string
+          period_start?: string
+          project_id?: string
+          report?: Json
+          review_comment?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          reviewed_by_name?: string | null
+          submitted_at?: string
+          submitted_by?: string | null
+          submitted_by_name?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "status_reports_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       sync_configurations: {
         Row: {
           created_at: string | null
@@ -934,7 +1881,10 @@ export type Database = {
       }
       tasks: {
         Row: {
+          allocation_hours: number | null
+          allocation_percent: number | null
           assignee: string | null
+          assignee_id: string | null
           completion: number | null
           created_at: string | null
           date: string | null
@@ -946,7 +1896,10 @@ export type Database = {
           updated_at: string | null
         }
         Insert: {
+          allocation_hours?: number | null
+          allocation_percent?: number | null
           assignee?: string | null
+          assignee_id?: string | null
           completion?: number | null
           created_at?: string | null
           date?: string | null
@@ -958,7 +1911,10 @@ export type Database = {
           updated_at?: string | null
         }
         Update: {
+          allocation_hours?: number | null
+          allocation_percent?: number | null
           assignee?: string | null
+          assignee_id?: string | null
           completion?: number | null
           created_at?: string | null
           date?: string | null
@@ -970,6 +1926,13 @@ export type Database = {
           updated_at?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "tasks_assignee_id_fkey"
+            columns: ["assignee_id"]
+            isOneToOne: false
+            referencedRelation: "directory_users"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "tasks_milestone_id_fkey"
             columns: ["milestone_id"]
@@ -1123,19 +2086,66 @@ export type Database = {
         Args: { new_role: string; target_user_id: string }
         Returns: undefined
       }
+      apply_health_dimensions: {
+        Args: {
+          p_budget_overrun: number
+          p_overdue_milestones: number
+          p_risk_impacts: number[]
+          p_rules: Json
+          p_schedule_color: string
+        }
+        Returns: string
+      }
       bytea_to_text: { Args: { data: string }; Returns: string }
       can_edit_project: { Args: { p_project_id: string }; Returns: boolean }
+      can_review_status_report: {
+        Args: { p_project_id: string }
+        Returns: boolean
+      }
+      capture_project_health_snapshots: {
+        Args: { p_date?: string }
+        Returns: number
+      }
       check_and_log_sync_status: { Args: never; Returns: undefined }
       check_and_trigger_due_syncs: { Args: never; Returns: undefined }
       check_azure_sync_due: { Args: never; Returns: boolean }
       cleanup_inactive_sessions: { Args: never; Returns: number }
       cleanup_stale_sessions: { Args: never; Returns: number }
+      capture_project_baseline: {
+        Args: { p_name: string; p_note?: string; p_project_id: string }
+        Returns: {
+          budget_total: number | null
+          created_at: string
+          created_by: string | null
+          finish_date: string | null
+          id: string
+          is_active: boolean
+          items: Json
+          name: string
+          note: string | null
+          project_id: string
+          start_date: string | null
+        }
+      }
       comprehensive_project_tracking_test: {
         Args: { p_user_id?: string }
         Returns: Json
       }
+      default_health_rules: { Args: never; Returns: Json }
       end_user_sessions: { Args: { p_user_id: string }; Returns: undefined }
+      evaluate_health_rules: {
+        Args: {
+          p_completion: number
+          p_has_milestones: boolean
+          p_rules: Json
+          p_starts_in_future: boolean
+          p_status: string
+          p_time_remaining: number
+        }
+        Returns: string
+      }
       execute_sql: { Args: { sql_query: string }; Returns: Json }
+      expire_health_overrides: { Args: never; Returns: number }
       get_active_users: {
         Args: never
         Returns: {
@@ -1213,6 +2223,7 @@ export type Database = {
         }[]
       }
       get_database_size: { Args: never; Returns: number }
+      get_health_rules: { Args: { p_department: string }; Returns: Json }
       get_project_creation_stats: {
         Args: never
         Returns: {
@@ -1425,8 +2436,38 @@ export type Database = {
           title: string
         }[]
       }
+      publish_health_rule_set: { Args: { p_rule_set_id: string }; Returns: number }
+      purge_deleted_projects: { Args: never; Returns: number }
       recalculate_all_computed_status_colors: { Args: never; Returns: number }
       resolve_department: { Args: { ad_dept: string }; Returns: string }
+      save_project_with_relations: {
+        Args: {
+          p_expected_revision?: number
+          p_payload: Json
+          p_project_id: string
+        }
+        Returns: Json
+      }
+      set_active_project_baseline: {
+        Args: { p_baseline_id: string }
+        Returns: undefined
+      }
+      snapshot_project_baseline: {
+        Args: { p_name: string; p_note?: string; p_project_id: string }
+        Returns: {
+          budget_total: number | null
+          created_at: string
+          created_by: string | null
+          finish_date: string | null
+          id: string
+          is_active: boolean
+          items: Json
+          name: string
+          note: string | null
+          project_id: string
+          start_date: string | null
+        }
+      }
       test_project_creation_tracking: {
         Args: { p_test_project_id?: string; p_user_id: string }
         Returns: Json
@@ -1434,6 +2475,42 @@ export type Database = {
       text_to_bytea: { Args: { data: string }; Returns: string }
       trigger_azure_sync_if_due: { Args: never; Returns: undefined }
       trigger_sync_if_due: { Args: never; Returns: Json }
+      transition_change_request: {
+        Args: {
+          p_actor_name?: string
+          p_apply_budget?: boolean
+          p_apply_schedule?: boolean
+          p_change_id: string
+          p_comment?: string
+          p_create_baseline?: boolean
+          p_status: string
+        }
+        Returns: {
+          affected_milestone_ids: string[]
+          baseline_id: string | null
+          budget_applied: boolean
+          budget_delta: number
+          change: string
+          created_at: string | null
+          decided_at: string | null
+          decided_by: string | null
+          decided_by_name: string | null
+          decision_comment: string | null
+          disposition: string | null
+          id: string
+          impact: string | null
+          implemented_at: string | null
+          project_id: string | null
+          requested_by: string | null
+          schedule_applied: boolean
+          schedule_delta_days: number
+          status: string
+          submitted_at: string | null
+          submitted_by: string | null
+          submitted_by_name: string | null
+          updated_at: string | null
+        }
+      }
       update_daily_usage_metrics: {
         Args: { p_activity_type: string; p_user_id: string }
         Returns: boolean
@@ -0,0 +1,323 @@
+/**
+ * Health Scheduler Edge Function
+ *
+ * Runs nightly: pg_cron calls invoke_health_scheduler(), which posts to this
+ * function through pg_net (migration 20261018000024); administrators can also
+ * run it from the admin page. Days remaining, and with them the time-aware
+ * health color, change every day, so this function recalculates the
+ * durations of every open project (same rules as
+ * projectDurationService.updateProjectDuration, including the holiday
+ * calendar). refresh_project_health then writes them, refreshes
+ * computed_status_color through update_project_computed_status_color (the
+ * published health rules) and flags a color change. Manual health overrides
+ * past their expiry date are reverted to automatic first. Every run is logged
+ * to health_recalc_logs.
+ *
+ * refresh_project_health leaves updated_at alone (migration 20261018000026):
+ * the nightly refresh is not an edit.
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// CORS headers
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+// PostgREST returns at most this many rows per request
+const PAGE_SIZE = 1000;
+const ID_BATCH_SIZE = 100;
+
+interface Milestone {
+  project_id: string;
+  date: string | null;
+  end_date: string | null;
+}
+
+interface Holiday {
+  holiday_date: string;
+  department: string | null;
+}
+
+// Reads every row of a query page by page; `query` builds a fresh, ordered
+// request for the given range
+const fetchAll = async <T>(
+  query: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>,
+): Promise<T[]> => {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await query(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+};
+
+// Mirrors holidayCalendar.ts; the function runs in UTC, as do these date parts
+const toDateKey = (date: Date) => date.toISOString().split("T")[0];
+
+const countWorkingDays = (from: Date, to: Date, holidays: Set<string>) => {
+  let count = 0;
+  const cursor = new Date(from);
+  while (cursor <= to) {
+    const day = cursor.getUTCDay();
+    if (day !== 0 && day !== 6 && !holidays.has(toDateKey(cursor))) count++;
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+  return count;
+};
+
+// Holiday dates from `from` up to but not including `to`
+const countHolidays = (from: Date, to: Date, holidays: Set<string>) => {
+  let count = 0;
+  const cursor = new Date(from);
+  while (cursor < to) {
+    if (holidays.has(toDateKey(cursor))) count++;
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+  return count;
+};
+
+// Mirrors calculateProjectDuration in src/lib/services/project.ts
+const calculateDuration = (milestones: Milestone[], holidays: Set<string>) => {
+  const startDates = milestones
+    .map((m) => new Date(m.date as string))
+    .filter((d) => !isNaN(d.getTime()))
+    .sort((a, b) => a.getTime() - b.getTime());
+  const endDates = milestones
+    .map((m) => new Date((m.end_date || m.date) as string))
+    .filter((d) => !isNaN(d.getTime()))
+    .sort((a, b) => a.getTime() - b.getTime());
+
+  if (startDates.length === 0) {
+    return {
+      calculated_start_date: null,
+      calculated_end_date: null,
+      total_days: null,
+      working_days: null,
+      total_days_remaining: null,
+      working_days_remaining: null,
+    };
+  }
+
+  const start = startDates[0];
+  const end = endDates[endDates.length - 1];
+  const today = new Date();
+  today.setUTCHours(0, 0, 0, 0);
+
+  return {
+    calculated_start_date: toDateKey(start),
+    calculated_end_date: toDateKey(end),
+    total_days:
+      Math.ceil((end.getTime() - start.getTime()) / DAY_MS) - countHolidays(start, end, holidays) || 0,
+    working_days: countWorkingDays(start, end, holidays),
+    total_days_remaining:
+      Math.ceil((end.getTime() - today.getTime()) / DAY_MS) - countHolidays(today, end, holidays),
+    working_days_remaining:
+      end >= today
+        ? countWorkingDays(today, end, holidays)
+        : -countWorkingDays(end, today, holidays),
+  };
+};
+
+serve(async (req) => {
+  const startTime = Date.now();
+
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  let logId = null;
+
+  try {
+    console.log("🔄 Health Scheduler started at", new Date().toISOString());
+
+    let manual = false;
+    try {
+      manual = !!(await req.json())?.manual;
+    } catch {
+      // Scheduled runs send no body
+    }
+
+    const { data: logEntry, error: logError } = await supabase
+      .from("health_recalc_logs")
+      .insert({ triggered_by: manual ? "manual" : "schedule" })
+      .select()
+      .single();
+
+    if (logError) {
+      console.error("❌ Error creating health recalculation log:", logError);
+    } else {
+      logId = logEntry.id;
+    }
+
+    const { data: overridesExpired, error: expireError } = await supabase.rpc(
+      "expire_health_overrides",
+    );
+    if (expireError) throw expireError;
+    console.log(`⏰ Reverted ${overridesExpired ?? 0} expired manual health overrides`);
+
+    // Completed and cancelled projects keep fixed durations and colors
+    const projects = await fetchAll<{ id: string; title: string; department: string | null }>(
+      (from, to) =>
+        supabase
+          .from("projects")
+          .select("id, title, department")
+          .is("deleted_at", null)
+          .not("status", "in", "(completed,cancelled)")
+          .order("id")
+          .range(from, to),
+    );
+
+    const projectIds = projects.map((p) => p.id);
+    console.log(`📋 Recalculating ${projectIds.length} open projects`);
+
+    // Paged and in batches of projects (ids go in the URL), so no project is
+    // recalculated from a cut-off milestone list
+    const milestones: Milestone[] = [];
+    for (let i = 0; i < projectIds.length; i += ID_BATCH_SIZE) {
+      const batch = projectIds.slice(i, i + ID_BATCH_SIZE);
+      milestones.push(
+        ...(await fetchAll<Milestone>((from, to) =>
+          supabase
+            .from("milestones")
+            .select("project_id, date, end_date")
+            .in("project_id", batch)
+            .order("id")
+            .range(from, to),
+        )),
+      );
+    }
+    const holidays = await fetchAll<Holiday>((from, to) =>
+      supabase
+        .from("holiday_calendar")
+        .select("holiday_date, department")
+        .order("holiday_date")
+        .range(from, to),
+    );
+
+    const milestonesByProject = new Map<string, Milestone[]>();
+    for (const milestone of milestones) {
+      const list = milestonesByProject.get(milestone.project_id) || [];
+      list.push(milestone);
+      milestonesByProject.set(milestone.project_id, list);
+    }
+
+    const errors: Array<{ project_id: string; title: string; error: string }> = [];
+    const colorChanges: Array<{ project_id: string; title: string; from: string | null; to: string }> = [];
+    let durationsUpdated = 0;
+
+    for (const project of projects) {
+      try {
+        const holidayDates = new Set(
+          holidays
+            .filter((h) => !h.department || h.department === project.department)
+            .map((h) => h.holiday_date),
+        );
+        const duration = calculateDuration(milestonesByProject.get(project.id) || [], holidayDates);
+
+        const { data: refreshed, error: refreshError } = await supabase.rpc(
+          "refresh_project_health",
+          { p_project_id: project.id, p_duration: duration },
+        );
+        if (refreshError) throw refreshError;
+
+        if (refreshed.durations_updated) durationsUpdated++;
+        if (refreshed.color !== refreshed.previous_color) {
+          colorChanges.push({
+            project_id: project.id,
+            title: project.title,
+            from: refreshed.previous_color,
+            to: refreshed.color,
+          });
+        }
+      } catch (projectError) {
+        console.error(`❌ Error recalculating ${project.title}:`, projectError);
+        errors.push({
+          project_id: project.id,
+          title: project.title,
+          error: projectError.message,
+        });
+      }
+    }
+
+    const executionTime = Date.now() - startTime;
+    console.log(
+      `📊 Summary: ${projectIds.length} processed, ${durationsUpdated} durations updated, ${colorChanges.length} colors changed, ${errors.length} errors in ${executionTime}ms`,
+    );
+
+    if (logId) {
+      const { error: updateLogError } = await supabase
+        .from("health_recalc_logs")
+        .update({
+          projects_processed: projectIds.length,
+          overrides_expired: overridesExpired ?? 0,
+          durations_updated: durationsUpdated,
+          colors_changed: colorChanges.length,
+          color_changes: colorChanges,
+          errors,
+          execution_time_ms: executionTime,
+        })
+        .eq("id", logId);
+
+      if (updateLogError) {
+        console.error("❌ Error updating health recalculation log:", updateLogError);
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        message: "Health recalculation completed",
+        projectsProcessed: projectIds.length,
+        overridesExpired: overridesExpired ?? 0,
+        durationsUpdated,
+        colorChanges,
+        errors,
+        executionTimeMs: executionTime,
+      }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 200,
+      },
+    );
+  } catch (error) {
+    const executionTime = Date.now() - startTime;
+    console.error("❌ Health Scheduler failed:", error);
+
+    if (logId) {
+      try {
+        await supabase
+          .from("health_recalc_logs")
+          .update({
+            error_message: error.message,
+            execution_time_ms: executionTime,
+          })
+          .eq("id", logId);
+      } catch (updateError) {
+        console.error("❌ Error updating log with error:", updateError);
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error.message,
+        executionTimeMs: executionTime,
+      }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 500,
+      },
+    );
+  }
+});
@@ -255,7 +255,8 @@ Deno.serve(async (req) => {
       errors: [],
     };
 
-    // Query projects that need reminders using updated_at field
+    // Query projects that need reminders by their last edit by a person;
+    // updated_at also moves with derived fields such as health colors
     const cutoffDate = new Date();
     cutoffDate.setDate(cutoffDate.getDate() - minDaysSinceUpdate);
 
@@ -264,9 +265,10 @@ Deno.serve(async (req) => {
 
     const { data: projects, error: projectsError } = await supabaseClient
       .from('projects')
-      .select('id, title, project_manager, updated_at, status')
+      .select('id, title, project_manager, updated_at:last_meaningful_update_at, status')
       .in('status', ['active', 'on_hold'])
-      .lt('updated_at', cutoffDate.toISOString());
+      .is('deleted_at', null)
+      .lt('last_meaningful_update_at', cutoffDate.toISOString());
 
     if (projectsError) {
       console.error('[send-reminder-emails] Projects query error:', projectsError);
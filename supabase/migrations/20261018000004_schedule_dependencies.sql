@@ -0,0 +1,556 @@
+-- Schedule dependencies between milestones and tasks.
+-- Milestones and tasks only had dates, so a slip in one could not be traced to
+-- the work waiting on it. A dependency links a predecessor to a successor
+-- (either may be a milestone or a task) with a type and a lag in days:
+--   FS  finish-to-start   successor starts once the predecessor finishes
+--   SS  start-to-start    successor starts once the predecessor starts
+--   FF  finish-to-finish  successor finishes once the predecessor finishes
+-- The critical path and float are computed client-side from these rows.
+
+-- ── schedule_dependencies ────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS public.schedule_dependencies (
+  id               UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id       UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  predecessor_type TEXT NOT NULL CHECK (predecessor_type IN ('milestone', 'task')),
+  predecessor_id   UUID NOT NULL,
+  successor_type   TEXT NOT NULL CHECK (successor_type IN ('milestone', 'task')),
+  successor_id     UUID NOT NULL,
+  dependency_type  TEXT NOT NULL DEFAULT 'FS' CHECK (dependency_type IN ('FS', 'SS', 'FF')),
+  lag_days         INTEGER NOT NULL DEFAULT 0,
+  created_at       TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at       TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT schedule_dependencies_not_self CHECK (predecessor_id <> successor_id),
+  CONSTRAINT schedule_dependencies_unique_link UNIQUE (predecessor_id, successor_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_schedule_dependencies_project_id
+  ON public.schedule_dependencies(project_id);
+CREATE INDEX IF NOT EXISTS idx_schedule_dependencies_successor_id
+  ON public.schedule_dependencies(successor_id);
+
+ALTER TABLE public.schedule_dependencies ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view schedule dependencies" ON public.schedule_dependencies;
+CREATE POLICY "Authenticated users can view schedule dependencies"
+  ON public.schedule_dependencies FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Project editor can insert schedule dependencies" ON public.schedule_dependencies;
+CREATE POLICY "Project editor can insert schedule dependencies"
+  ON public.schedule_dependencies FOR INSERT
+  TO authenticated
+  WITH CHECK (can_edit_project(project_id));
+
+DROP POLICY IF EXISTS "Project editor can update schedule dependencies" ON public.schedule_dependencies;
+CREATE POLICY "Project editor can update schedule dependencies"
+  ON public.schedule_dependencies FOR UPDATE
+  TO authenticated
+  USING (can_edit_project(project_id))
+  WITH CHECK (can_edit_project(project_id));
+
+DROP POLICY IF EXISTS "Project editor can delete schedule dependencies" ON public.schedule_dependencies;
+CREATE POLICY "Project editor can delete schedule dependencies"
+  ON public.schedule_dependencies FOR DELETE
+  TO authenticated
+  USING (can_edit_project(project_id));
+
+GRANT SELECT ON public.schedule_dependencies TO anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.schedule_dependencies TO authenticated;
+GRANT ALL ON public.schedule_dependencies TO service_role;
+
+-- ── dangling links ───────────────────────────────────────────────────────────
+-- predecessor_id / successor_id point at either table, so they cannot carry a
+-- foreign key. Remove links to a milestone or task when it is deleted.
+CREATE OR REPLACE FUNCTION public.delete_schedule_dependencies_for_item()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.schedule_dependencies
+  WHERE predecessor_id = OLD.id OR successor_id = OLD.id;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_milestones_delete_schedule_dependencies ON public.milestones;
+CREATE TRIGGER trg_milestones_delete_schedule_dependencies
+  AFTER DELETE ON public.milestones
+  FOR EACH ROW EXECUTE FUNCTION public.delete_schedule_dependencies_for_item();
+
+DROP TRIGGER IF EXISTS trg_tasks_delete_schedule_dependencies ON public.tasks;
+CREATE TRIGGER trg_tasks_delete_schedule_dependencies
+  AFTER DELETE ON public.tasks
+  FOR EACH ROW EXECUTE FUNCTION public.delete_schedule_dependencies_for_item();
+
+-- ── save_project_with_relations (schedule dependencies) ──────────────────────
+CREATE OR REPLACE FUNCTION public.save_project_with_relations(
+  p_project_id UUID,
+  p_payload           JSONB,
+  p_expected_revision INTEGER DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_uuid_re   CONSTANT TEXT := '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$';
+  v_item      JSONB;
+  v_task      JSONB;
+  v_client_id TEXT;
+  v_row_id    UUID;
+  v_ms_id     UUID;
+  v_source_id TEXT;
+  v_pred_ref  TEXT;
+  v_succ_ref  TEXT;
+  v_pred_id   UUID;
+  v_succ_id   UUID;
+  -- client id (possibly a temporary browser-generated one) -> persisted id
+  v_id_map    JSONB  := '{}'::jsonb;
+  v_kept      UUID[];
+  v_kept_ms   UUID[] := '{}';
+  v_kept_task UUID[] := '{}';
+  v_revision  INTEGER;
+BEGIN
+  IF NOT public.can_edit_project(p_project_id) THEN
+    RAISE EXCEPTION 'Not allowed to edit project %', p_project_id
+      USING ERRCODE = '42501';
+  END IF;
+
+  -- Lock the row so the revision check and the write below are atomic.
+  SELECT revision INTO v_revision
+  FROM public.projects
+  WHERE id = p_project_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Project % not found', p_project_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_expected_revision IS NOT NULL AND p_expected_revision <> v_revision THEN
+    RAISE EXCEPTION 'PROJECT_REVISION_CONFLICT'
+      USING ERRCODE = '40001',
+            DETAIL  = format('expected revision %s, current revision %s',
+                             p_expected_revision, v_revision);
+  END IF;
+
+  -- ── project row ────────────────────────────────────────────────────────────
+  UPDATE public.projects SET
+    project_id               = NULLIF(btrim(p_payload->>'project_id'), ''),
+    title                    = p_payload->>'title',
+    description              = p_payload->>'description',
+    value_statement          = p_payload->>'value_statement',
+    project_analysis         = p_payload->>'project_analysis',
+    status                   = COALESCE(p_payload->>'status', status),
+    budget_total             = COALESCE((p_payload->>'budget_total')::numeric, 0),
+    budget_actuals           = COALESCE((p_payload->>'budget_actuals')::numeric, 0),
+    budget_forecast          = COALESCE((p_payload->>'budget_forecast')::numeric, 0),
+    charter_link             = COALESCE(p_payload->>'charter_link', ''),
+    sponsors                 = COALESCE(p_payload->>'sponsors', ''),
+    business_leads           = COALESCE(p_payload->>'business_leads', ''),
+    project_manager          = COALESCE(p_payload->>'project_manager', ''),
+    health_calculation_type  = COALESCE(p_payload->>'health_calculation_type', 'automatic'),
+    manual_health_percentage = (p_payload->>'manual_health_percentage')::numeric,
+    manual_status_color      = p_payload->>'manual_status_color',
+    department               = p_payload->>'department',
+    revision                 = revision + 1
+  WHERE id = p_project_id
+  RETURNING revision INTO v_revision;
+
+  -- ── milestones + tasks ─────────────────────────────────────────────────────
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(COALESCE(p_payload->'milestones', '[]'::jsonb))
+  LOOP
+    v_client_id := v_item->>'id';
+    v_ms_id := NULL;
+
+    IF v_client_id ~* v_uuid_re THEN
+      UPDATE public.milestones SET
+        date       = (v_item->>'date')::date,
+        end_date   = NULLIF(v_item->>'end_date', '')::date,
+        milestone  = COALESCE(v_item->>'milestone', ''),
+        owner      = COALESCE(v_item->>'owner', ''),
+        completion = COALESCE((v_item->>'completion')::int, 0),
+        status     = COALESCE(v_item->>'status', 'green'),
+        weight     = COALESCE((v_item->>'weight')::int, 3)
+      WHERE id = v_client_id::uuid AND project_id = p_project_id
+      RETURNING id INTO v_ms_id;
+    END IF;
+
+    IF v_ms_id IS NULL THEN
+      -- Keep a browser-generated UUID when it is free so references created
+      -- before the first save (e.g. auto-copied accomplishments) stay valid.
+      INSERT INTO public.milestones (
+        id, project_id, date, end_date, milestone, owner, completion, status, weight
+      ) VALUES (
+        CASE
+          WHEN v_client_id ~* v_uuid_re
+            AND NOT EXISTS (SELECT 1 FROM public.milestones WHERE id = v_client_id::uuid)
+          THEN v_client_id::uuid
+          ELSE gen_random_uuid()
+        END,
+        p_project_id,
+        (v_item->>'date')::date,
+        NULLIF(v_item->>'end_date', '')::date,
+        COALESCE(v_item->>'milestone', ''),
+        COALESCE(v_item->>'owner', ''),
+        COALESCE((v_item->>'completion')::int, 0),
+        COALESCE(v_item->>'status', 'green'),
+        COALESCE((v_item->>'weight')::int, 3)
+      )
+      RETURNING id INTO v_ms_id;
+    END IF;
+
+    IF v_client_id IS NOT NULL THEN
+      v_id_map := v_id_map || jsonb_build_object(v_client_id, v_ms_id::text);
+    END IF;
+    v_kept_ms := v_kept_ms || v_ms_id;
+
+    FOR v_task IN
+      SELECT value FROM jsonb_array_elements(COALESCE(v_item->'tasks', '[]'::jsonb))
+    LOOP
+      v_client_id := v_task->>'id';
+      v_row_id := NULL;
+
+      IF v_client_id ~* v_uuid_re THEN
+        UPDATE public.tasks SET
+          milestone_id  = v_ms_id,
+          description   = COALESCE(v_task->>'description', ''),
+          assignee      = COALESCE(NULLIF(v_task->>'assignee', ''), v_item->>'owner'),
+          date          = NULLIF(v_task->>'date', '')::date,
+          completion    = COALESCE((v_task->>'completion')::int, 0),
+          duration_days = COALESCE((v_task->>'duration_days')::int, 1)
+        WHERE id = v_client_id::uuid AND project_id = p_project_id
+        RETURNING id INTO v_row_id;
+      END IF;
+
+      IF v_row_id IS NULL THEN
+        INSERT INTO public.tasks (
+          id, project_id, milestone_id, description, assignee, date, completion, duration_days
+        ) VALUES (
+          CASE
+            WHEN v_client_id ~* v_uuid_re
+              AND NOT EXISTS (SELECT 1 FROM public.tasks WHERE id = v_client_id::uuid)
+            THEN v_client_id::uuid
+            ELSE gen_random_uuid()
+          END,
+          p_project_id,
+          v_ms_id,
+          COALESCE(v_task->>'description', ''),
+          COALESCE(NULLIF(v_task->>'assignee', ''), v_item->>'owner'),
+          NULLIF(v_task->>'date', '')::date,
+          COALESCE((v_task->>'completion')::int, 0),
+          COALESCE((v_task->>'duration_days')::int, 1)
+        )
+        RETURNING id INTO v_row_id;
+      END IF;
+
+      IF v_client_id IS NOT NULL THEN
+        v_id_map := v_id_map || jsonb_build_object(v_client_id, v_row_id::text);
+      END IF;
+      v_kept_task := v_kept_task || v_row_id;
+    END LOOP;
+  END LOOP;
+
+  DELETE FROM public.tasks
+  WHERE project_id = p_project_id AND NOT (id = ANY (v_kept_task));
+
+  DELETE FROM public.milestones
+  WHERE project_id = p_project_id AND NOT (id = ANY (v_kept_ms));
+
+  -- ── schedule dependencies ──────────────────────────────────────────────────
+  -- Endpoints may still carry temporary client ids, so remap them through
+  -- v_id_map. Links whose endpoints were not saved above are dropped.
+  v_kept := '{}';
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(COALESCE(p_payload->'dependencies', '[]'::jsonb))
+  LOOP
+    v_client_id := v_item->>'id';
+    v_row_id := NULL;
+    v_pred_ref := COALESCE(v_id_map->>(v_item->>'predecessor_id'), v_item->>'predecessor_id');
+    v_succ_ref := COALESCE(v_id_map->>(v_item->>'successor_id'), v_item->>'successor_id');
+
+    CONTINUE WHEN v_pred_ref IS NULL OR v_succ_ref IS NULL
+      OR NOT (v_pred_ref ~* v_uuid_re) OR NOT (v_succ_ref ~* v_uuid_re);
+    v_pred_id := v_pred_ref::uuid;
+    v_succ_id := v_succ_ref::uuid;
+
+    CONTINUE WHEN v_pred_id = v_succ_id;
+    CONTINUE WHEN NOT (
+      CASE v_item->>'predecessor_type'
+        WHEN 'milestone' THEN v_pred_id = ANY (v_kept_ms)
+        WHEN 'task'      THEN v_pred_id = ANY (v_kept_task)
+        ELSE false
+      END
+    );
+    CONTINUE WHEN NOT (
+      CASE v_item->>'successor_type'
+        WHEN 'milestone' THEN v_succ_id = ANY (v_kept_ms)
+        WHEN 'task'      THEN v_succ_id = ANY (v_kept_task)
+        ELSE false
+      END
+    );
+    -- One link per predecessor/successor pair
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM public.schedule_dependencies d
+      WHERE d.id = ANY (v_kept)
+        AND d.predecessor_id = v_pred_id AND d.successor_id = v_succ_id
+    );
+
+    -- A link for this pair may already exist under another id
+    DELETE FROM public.schedule_dependencies
+    WHERE project_id = p_project_id
+      AND predecessor_id = v_pred_id AND successor_id = v_succ_id
+      AND id::text IS DISTINCT FROM v_client_id;
+
+    IF v_client_id ~* v_uuid_re THEN
+      UPDATE public.schedule_dependencies SET
+        predecessor_type = v_item->>'predecessor_type',
+        predecessor_id   = v_pred_id,
+        successor_type   = v_item->>'successor_type',
+        successor_id     = v_succ_id,
+        dependency_type  = COALESCE(NULLIF(v_item->>'dependency_type', ''), 'FS'),
+        lag_days         = COALESCE((v_item->>'lag_days')::int, 0),
+        updated_at       = now()
+      WHERE id = v_client_id::uuid AND project_id = p_project_id
+      RETURNING id INTO v_row_id;
+    END IF;
+
+    IF v_row_id IS NULL THEN
+      INSERT INTO public.schedule_dependencies (
+        project_id, predecessor_type, predecessor_id, successor_type, successor_id,
+        dependency_type, lag_days
+      ) VALUES (
+        p_project_id,
+        v_item->>'predecessor_type',
+        v_pred_id,
+        v_item->>'successor_type',
+        v_succ_id,
+        COALESCE(NULLIF(v_item->>'dependency_type', ''), 'FS'),
+        COALESCE((v_item->>'lag_days')::int, 0)
+      )
+      RETURNING id INTO v_row_id;
+    END IF;
+    v_kept := v_kept || v_row_id;
+  END LOOP;
+
+  DELETE FROM public.schedule_dependencies
+  WHERE project_id = p_project_id AND NOT (id = ANY (v_kept));
+
+  -- ── accomplishments ────────────────────────────────────────────────────────
+  v_kept := '{}';
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(COALESCE(p_payload->'accomplishments', '[]'::jsonb))
+  LOOP
+    v_client_id := v_item->>'id';
+    v_row_id := NULL;
+    -- Remap source ids that pointed at a temporary milestone/task id.
+    v_source_id := COALESCE(v_id_map->>(v_item->>'source_id'), v_item->>'source_id');
+
+    IF v_client_id ~* v_uuid_re THEN
+      UPDATE public.accomplishments SET
+        description    = COALESCE(v_item->>'description', ''),
+        source_type    = COALESCE(v_item->>'source_type', 'manual'),
+        source_id      = v_source_id,
+        is_hidden      = COALESCE((v_item->>'is_hidden')::boolean, false),
+        is_deleted     = COALESCE((v_item->>'is_deleted')::boolean, false),
+        auto_generated = COALESCE((v_item->>'auto_generated')::boolean, false)
+      WHERE id = v_client_id::uuid AND project_id = p_project_id
+      RETURNING id INTO v_row_id;
+    END IF;
+
+    IF v_row_id IS NULL THEN
+      INSERT INTO public.accomplishments (
+        project_id, description, source_type, source_id, is_hidden, is_deleted, auto_generated
+      ) VALUES (
+        p_project_id,
+        COALESCE(v_item->>'description', ''),
+        COALESCE(v_item->>'source_type', 'manual'),
+        v_source_id,
+        COALESCE((v_item->>'is_hidden')::boolean, false),
+        COALESCE((v_item->>'is_deleted')::boolean, false),
+        COALESCE((v_item->>'auto_generated')::boolean, false)
+      )
+      RETURNING id INTO v_row_id;
+    END IF;
+    v_kept := v_kept || v_row_id;
+  END LOOP;
+
+  DELETE FROM public.accomplishments
+  WHERE project_id = p_project_id AND NOT (id = ANY (v_kept));
+
+  -- ── next period activities ─────────────────────────────────────────────────
+  v_kept := '{}';
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(COALESCE(p_payload->'next_period_activities', '[]'::jsonb))
+  LOOP
+    v_client_id := v_item->>'id';
+    v_row_id := NULL;
+
+    IF v_client_id ~* v_uuid_re THEN
+      UPDATE public.next_period_activities SET
+        description    = COALESCE(v_item->>'description', ''),
+        date           = COALESCE(NULLIF(v_item->>'date', '')::date, CURRENT_DATE),
+        completion     = COALESCE((v_item->>'completion')::int, 0),
+        assignee       = COALESCE(v_item->>'assignee', ''),
+        sub_activities = COALESCE(v_item->'sub_activities', '[]'::jsonb)
+      WHERE id = v_client_id::uuid AND project_id = p_project_id
+      RETURNING id INTO v_row_id;
+    END IF;
+
+    IF v_row_id IS NULL THEN
+      INSERT INTO public.next_period_activities (
+        project_id, description, date, completion, assignee, sub_activities
+      ) VALUES (
+        p_project_id,
+        COALESCE(v_item->>'description', ''),
+        COALESCE(NULLIF(v_item->>'date', '')::date, CURRENT_DATE),
+        COALESCE((v_item->>'completion')::int, 0),
+        COALESCE(v_item->>'assignee', ''),
+        COALESCE(v_item->'sub_activities', '[]'::jsonb)
+      )
+      RETURNING id INTO v_row_id;
+    END IF;
+    v_kept := v_kept || v_row_id;
+  END LOOP;
+
+  DELETE FROM public.next_period_activities
+  WHERE project_id = p_project_id AND NOT (id = ANY (v_kept));
+
+  -- ── risks ──────────────────────────────────────────────────────────────────
+  -- owner_id is resolved from the owner's display name against directory_users;
+  -- realized_change_id is only kept when it points at a change of this project.
+  v_kept := '{}';
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(COALESCE(p_payload->'risks', '[]'::jsonb))
+  LOOP
+    v_client_id := v_item->>'id';
+    v_row_id := NULL;
+
+    IF v_client_id ~* v_uuid_re THEN
+      UPDATE public.risks SET
+        description        = COALESCE(v_item->>'description', ''),
+        impact             = NULLIF(v_item->>'impact', ''),
+        probability        = (v_item->>'probability')::smallint,
+        impact_score       = (v_item->>'impact_score')::smallint,
+        owner              = NULLIF(btrim(v_item->>'owner'), ''),
+        owner_id           = (
+          SELECT du.id FROM public.directory_users du
+          WHERE lower(du.display_name) = lower(btrim(v_item->>'owner'))
+          LIMIT 1
+        ),
+        mitigation_plan    = NULLIF(v_item->>'mitigation_plan', ''),
+        trigger_date       = NULLIF(v_item->>'trigger_date', '')::date,
+        status             = COALESCE(NULLIF(v_item->>'status', ''), 'open'),
+        realized_change_id = (
+          SELECT ch.id FROM public.changes ch
+          WHERE ch.id::text = v_item->>'realized_change_id'
+            AND ch.project_id = p_project_id
+        )
+      WHERE id = v_client_id::uuid AND project_id = p_project_id
+      RETURNING id INTO v_row_id;
+    END IF;
+
+    IF v_row_id IS NULL THEN
+      INSERT INTO public.risks (
+        project_id, description, impact, probability, impact_score, owner, owner_id,
+        mitigation_plan, trigger_date, status, realized_change_id
+      ) VALUES (
+        p_project_id,
+        COALESCE(v_item->>'description', ''),
+        NULLIF(v_item->>'impact', ''),
+        (v_item->>'probability')::smallint,
+        (v_item->>'impact_score')::smallint,
+        NULLIF(btrim(v_item->>'owner'), ''),
+        (
+          SELECT du.id FROM public.directory_users du
+          WHERE lower(du.display_name) = lower(btrim(v_item->>'owner'))
+          LIMIT 1
+        ),
+        NULLIF(v_item->>'mitigation_plan', ''),
+        NULLIF(v_item->>'trigger_date', '')::date,
+        COALESCE(NULLIF(v_item->>'status', ''), 'open'),
+        (
+          SELECT ch.id FROM public.changes ch
+          WHERE ch.id::text = v_item->>'realized_change_id'
+            AND ch.project_id = p_project_id
+        )
+      )
+      RETURNING id INTO v_row_id;
+    END IF;
+    v_kept := v_kept || v_row_id;
+  END LOOP;
+
+  DELETE FROM public.risks
+  WHERE project_id = p_project_id AND NOT (id = ANY (v_kept));
+
+  -- ── considerations ─────────────────────────────────────────────────────────
+  -- Considerations travel as plain strings (no ids), so match unchanged text to
+  -- an existing row first and only insert/delete what actually changed.
+  v_kept := '{}';
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(COALESCE(p_payload->'considerations', '[]'::jsonb))
+  LOOP
+    SELECT c.id INTO v_row_id
+    FROM public.considerations c
+    WHERE c.project_id = p_project_id
+      AND c.description = (v_item #>> '{}')
+      AND NOT (c.id = ANY (v_kept))
+    ORDER BY c.created_at
+    LIMIT 1;
+
+    IF v_row_id IS NULL THEN
+      INSERT INTO public.considerations (project_id, description)
+      VALUES (p_project_id, COALESCE(v_item #>> '{}', ''))
+      RETURNING id INTO v_row_id;
+    END IF;
+    v_kept := v_kept || v_row_id;
+  END LOOP;
+
+  DELETE FROM public.considerations
+  WHERE project_id = p_project_id AND NOT (id = ANY (v_kept));
+
+  -- ── changes ────────────────────────────────────────────────────────────────
+  v_kept := '{}';
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(COALESCE(p_payload->'changes', '[]'::jsonb))
+  LOOP
+    v_client_id := v_item->>'id';
+    v_row_id := NULL;
+
+    IF v_client_id ~* v_uuid_re THEN
+      UPDATE public.changes SET
+        change      = COALESCE(v_item->>'change', ''),
+        impact      = v_item->>'impact',
+        disposition = v_item->>'disposition'
+      WHERE id = v_client_id::uuid AND project_id = p_project_id
+      RETURNING id INTO v_row_id;
+    END IF;
+
+    IF v_row_id IS NULL THEN
+      INSERT INTO public.changes (project_id, change, impact, disposition)
+      VALUES (
+        p_project_id,
+        COALESCE(v_item->>'change', ''),
+        v_item->>'impact',
+        v_item->>'disposition'
+      )
+      RETURNING id INTO v_row_id;
+    END IF;
+    v_kept := v_kept || v_row_id;
+  END LOOP;
+
+  DELETE FROM public.changes
+  WHERE project_id = p_project_id AND NOT (id = ANY (v_kept));
+
+  RETURN jsonb_build_object(
+    'project_id', p_project_id,
+    'id_map',     v_id_map,
+    'revision',   v_revision
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.save_project_with_relations(UUID, JSONB, INTEGER) TO authenticated;
@@ -0,0 +1,186 @@
+-- Named schedule baselines.
+-- A baseline freezes the approved plan: the start/finish of every milestone and
+-- task plus budget_total, e.g. at charter approval or after an approved change.
+-- One baseline per project is active; variance (finish slip, schedule growth,
+-- budget change) is measured against it and the Gantt draws it as ghost bars.
+--
+-- The snapshot is taken server-side from the persisted rows so a baseline never
+-- captures unsaved form edits.
+
+-- ── project_baselines ────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS public.project_baselines (
+  id           UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id   UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  name         TEXT NOT NULL CHECK (btrim(name) <> ''),
+  note         TEXT,
+  budget_total NUMERIC,
+  start_date   DATE,
+  finish_date  DATE,
+  -- [{ item_type, item_id, label, start_date, finish_date }]
+  items        JSONB NOT NULL DEFAULT '[]'::jsonb,
+  is_active    BOOLEAN NOT NULL DEFAULT false,
+  created_by   UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at   TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_baselines_project_id
+  ON public.project_baselines(project_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_project_baselines_one_active
+  ON public.project_baselines(project_id) WHERE is_active;
+
+ALTER TABLE public.project_baselines ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view project baselines" ON public.project_baselines;
+CREATE POLICY "Authenticated users can view project baselines"
+  ON public.project_baselines FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Project editor can insert project baselines" ON public.project_baselines;
+CREATE POLICY "Project editor can insert project baselines"
+  ON public.project_baselines FOR INSERT
+  TO authenticated
+  WITH CHECK (can_edit_project(project_id));
+
+DROP POLICY IF EXISTS "Project editor can update project baselines" ON public.project_baselines;
+CREATE POLICY "Project editor can update project baselines"
+  ON public.project_baselines FOR UPDATE
+  TO authenticated
+  USING (can_edit_project(project_id))
+  WITH CHECK (can_edit_project(project_id));
+
+DROP POLICY IF EXISTS "Project editor can delete project baselines" ON public.project_baselines;
+CREATE POLICY "Project editor can delete project baselines"
+  ON public.project_baselines FOR DELETE
+  TO authenticated
+  USING (can_edit_project(project_id));
+
+GRANT SELECT ON public.project_baselines TO anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.project_baselines TO authenticated;
+GRANT ALL ON public.project_baselines TO service_role;
+
+-- ── capture_project_baseline ─────────────────────────────────────────────────
+-- Snapshots the current milestones/tasks and budget_total as a new baseline and
+-- makes it the active one. Task finish = date + duration_days, matching the
+-- Gantt; milestone finish = end_date, or date when there is none.
+CREATE OR REPLACE FUNCTION public.capture_project_baseline(
+  p_project_id UUID,
+  p_name       TEXT,
+  p_note       TEXT DEFAULT NULL
+)
+RETURNS public.project_baselines
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_items    JSONB;
+  v_start    DATE;
+  v_finish   DATE;
+  v_budget   NUMERIC;
+  v_baseline public.project_baselines;
+BEGIN
+  IF NOT public.can_edit_project(p_project_id) THEN
+    RAISE EXCEPTION 'Not allowed to edit project %', p_project_id
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT budget_total INTO v_budget
+  FROM public.projects
+  WHERE id = p_project_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Project % not found', p_project_id USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT MIN(m.date), MAX(COALESCE(m.end_date, m.date))
+  INTO v_start, v_finish
+  FROM public.milestones m
+  WHERE m.project_id = p_project_id AND m.date IS NOT NULL;
+
+  SELECT COALESCE(jsonb_agg(item ORDER BY item->>'start_date', item->>'label'), '[]'::jsonb)
+  INTO v_items
+  FROM (
+    SELECT jsonb_build_object(
+      'item_type',   'milestone',
+      'item_id',     m.id,
+      'label',       COALESCE(m.milestone, ''),
+      'start_date',  m.date,
+      'finish_date', COALESCE(m.end_date, m.date)
+    ) AS item
+    FROM public.milestones m
+    WHERE m.project_id = p_project_id AND m.date IS NOT NULL
+    UNION ALL
+    SELECT jsonb_build_object(
+      'item_type',   'task',
+      'item_id',     t.id,
+      'label',       COALESCE(t.description, ''),
+      'start_date',  t.date,
+      'finish_date', t.date + COALESCE(t.duration_days, 1)
+    )
+    FROM public.tasks t
+    WHERE t.project_id = p_project_id AND t.date IS NOT NULL
+  ) snapshot;
+
+  UPDATE public.project_baselines
+  SET is_active = false
+  WHERE project_id = p_project_id AND is_active;
+
+  INSERT INTO public.project_baselines (
+    project_id, name, note, budget_total, start_date, finish_date, items,
+    is_active, created_by
+  ) VALUES (
+    p_project_id,
+    btrim(p_name),
+    NULLIF(btrim(p_note), ''),
+    v_budget,
+    v_start,
+    v_finish,
+    v_items,
+    true,
+    auth.uid()
+  )
+  RETURNING * INTO v_baseline;
+
+  RETURN v_baseline;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.capture_project_baseline(UUID, TEXT, TEXT) TO authenticated;
+
+-- ── set_active_project_baseline ──────────────────────────────────────────────
+-- Switch which baseline variance is measured against (e.g. back to the charter
+-- baseline). Deactivate-then-activate runs in one transaction.
+CREATE OR REPLACE FUNCTION public.set_active_project_baseline(p_baseline_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_project_id UUID;
+BEGIN
+  SELECT project_id INTO v_project_id
+  FROM public.project_baselines
+  WHERE id = p_baseline_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Baseline % not found', p_baseline_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT public.can_edit_project(v_project_id) THEN
+    RAISE EXCEPTION 'Not allowed to edit project %', v_project_id
+      USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.project_baselines
+  SET is_active = false
+  WHERE project_id = v_project_id AND is_active AND id <> p_baseline_id;
+
+  UPDATE public.project_baselines
+  SET is_active = true
+  WHERE id = p_baseline_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_active_project_baseline(UUID) TO authenticated;
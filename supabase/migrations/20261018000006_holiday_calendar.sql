@@ -0,0 +1,54 @@
+-- Organization holiday calendar.
+-- Working-day durations (working_days, working_days_remaining) skip weekends and
+-- these dates. A holiday with no department applies organization-wide; one with
+-- a department (matched on projects.department, e.g. a regional office shutdown)
+-- applies only to that department's projects.
+--
+-- Durations are computed client-side (calculateProjectDuration), so the admin
+-- holiday screen recalculates the affected projects after each change.
+
+-- ── holiday_calendar ─────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS public.holiday_calendar (
+  id           UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  holiday_date DATE NOT NULL,
+  name         TEXT NOT NULL CHECK (btrim(name) <> ''),
+  department   TEXT,
+  created_by   UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at   TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- One entry per date and scope (organization-wide counts as its own scope)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_holiday_calendar_date_scope
+  ON public.holiday_calendar(holiday_date, COALESCE(department, ''));
+
+ALTER TABLE public.holiday_calendar ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view holidays" ON public.holiday_calendar;
+CREATE POLICY "Authenticated users can view holidays"
+  ON public.holiday_calendar FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Admins can manage holidays" ON public.holiday_calendar;
+CREATE POLICY "Admins can manage holidays"
+  ON public.holiday_calendar FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  );
+
+GRANT SELECT ON public.holiday_calendar TO anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.holiday_calendar TO authenticated;
+GRANT ALL ON public.holiday_calendar TO service_role;
+
+COMMENT ON COLUMN public.projects.working_days IS 'Working days from start to end (excluding weekends and holiday_calendar dates)';
+COMMENT ON COLUMN public.projects.working_days_remaining IS 'Working days remaining until project completion (excluding weekends and holiday_calendar dates)';
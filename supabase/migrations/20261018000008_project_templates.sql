@@ -0,0 +1,57 @@
+-- Project templates.
+-- An admin saves an existing project's plan (milestones with weights and tasks,
+-- standard risks, considerations) as a reusable template. Milestone and task
+-- dates are stored as day offsets from the project start, so creating a project
+-- from a template only needs a start date.
+--
+-- A template with no department is offered to everyone; one with a department
+-- is listed only in that department's template library.
+
+-- ── project_templates ────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS public.project_templates (
+  id                UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name              TEXT NOT NULL CHECK (btrim(name) <> ''),
+  description       TEXT,
+  department        TEXT,
+  source_project_id UUID REFERENCES public.projects(id) ON DELETE SET NULL,
+  -- [{ milestone, owner, weight, offset_days, duration_days,
+  --    tasks: [{ description, assignee, offset_days, duration_days }] }]
+  milestones        JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- [{ description, impact, probability, impact_score, owner, mitigation_plan }]
+  risks             JSONB NOT NULL DEFAULT '[]'::jsonb,
+  considerations    JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_by        UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at        TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_templates_department
+  ON public.project_templates(department);
+
+ALTER TABLE public.project_templates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view project templates" ON public.project_templates;
+CREATE POLICY "Authenticated users can view project templates"
+  ON public.project_templates FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Admins can manage project templates" ON public.project_templates;
+CREATE POLICY "Admins can manage project templates"
+  ON public.project_templates FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  );
+
+GRANT SELECT ON public.project_templates TO anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.project_templates TO authenticated;
+GRANT ALL ON public.project_templates TO service_role;
@@ -0,0 +1,13 @@
+-- Deep project clone.
+-- A project cloned from another (e.g. phase 2 started from phase 1) records its
+-- source so the lineage can be shown and followed. The clone itself is a normal
+-- project: clearing or deleting the source leaves it untouched.
+
+ALTER TABLE public.projects
+  ADD COLUMN IF NOT EXISTS cloned_from_project_id UUID
+    REFERENCES public.projects(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_projects_cloned_from_project_id
+  ON public.projects(cloned_from_project_id);
+
+COMMENT ON COLUMN public.projects.cloned_from_project_id IS 'Project this one was deep-cloned from, if any';
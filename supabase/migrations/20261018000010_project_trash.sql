@@ -0,0 +1,128 @@
+-- Recoverable project trash.
+-- Deleting a project now only stamps deleted_at / deleted_by; milestones, tasks,
+-- versions and every other related row stay in place, so restoring is just
+-- clearing the stamp. Trashed projects are hidden from the project list, KPIs
+-- and exports by the client queries (deleted_at IS NULL).
+--
+-- purge_deleted_projects() does the real deletion once a project has been in
+-- the trash longer than project_trash_settings.purge_after_days. It runs daily
+-- via pg_cron and can be triggered by an admin from the trash screen.
+
+-- ── projects ─────────────────────────────────────────────────────────────────
+ALTER TABLE public.projects
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS deleted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_projects_deleted_at
+  ON public.projects(deleted_at)
+  WHERE deleted_at IS NOT NULL;
+
+COMMENT ON COLUMN public.projects.deleted_at IS 'When the project was moved to the trash; NULL for live projects';
+COMMENT ON COLUMN public.projects.deleted_by IS 'User who moved the project to the trash';
+
+-- ── project_trash_settings ───────────────────────────────────────────────────
+-- Single-row table: the id column can only ever be true
+CREATE TABLE IF NOT EXISTS public.project_trash_settings (
+  id               BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  purge_after_days INTEGER NOT NULL DEFAULT 30 CHECK (purge_after_days BETWEEN 1 AND 3650),
+  updated_by       UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_at       TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.project_trash_settings (id) VALUES (true)
+  ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE public.project_trash_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view trash settings" ON public.project_trash_settings;
+CREATE POLICY "Authenticated users can view trash settings"
+  ON public.project_trash_settings FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Admins can update trash settings" ON public.project_trash_settings;
+CREATE POLICY "Admins can update trash settings"
+  ON public.project_trash_settings FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  );
+
+GRANT SELECT ON public.project_trash_settings TO authenticated;
+GRANT UPDATE ON public.project_trash_settings TO authenticated;
+GRANT ALL ON public.project_trash_settings TO service_role;
+
+-- ── purge_deleted_projects ───────────────────────────────────────────────────
+-- Returns the number of projects permanently deleted. Callable by admins and by
+-- the scheduler (no auth.uid()).
+CREATE OR REPLACE FUNCTION public.purge_deleted_projects()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_days    INTEGER;
+  v_ids     UUID[];
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can purge the project trash'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT purge_after_days INTO v_days FROM public.project_trash_settings WHERE id;
+  v_days := COALESCE(v_days, 30);
+
+  SELECT array_agg(id) INTO v_ids
+  FROM public.projects
+  WHERE deleted_at IS NOT NULL
+    AND deleted_at < now() - make_interval(days => v_days);
+
+  IF v_ids IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  -- Same order as the client-side permanent delete
+  DELETE FROM public.tasks WHERE project_id = ANY (v_ids);
+  DELETE FROM public.milestones WHERE project_id = ANY (v_ids);
+  DELETE FROM public.accomplishments WHERE project_id = ANY (v_ids);
+  DELETE FROM public.next_period_activities WHERE project_id = ANY (v_ids);
+  DELETE FROM public.risks WHERE project_id = ANY (v_ids);
+  DELETE FROM public.considerations WHERE project_id = ANY (v_ids);
+  DELETE FROM public.changes WHERE project_id = ANY (v_ids);
+  DELETE FROM public.project_summaries WHERE project_id = ANY (v_ids);
+  DELETE FROM public.projects WHERE id = ANY (v_ids);
+
+  RETURN array_length(v_ids, 1);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.purge_deleted_projects() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.purge_deleted_projects() TO service_role;
+
+COMMENT ON FUNCTION public.purge_deleted_projects() IS 'Permanently deletes projects that have been in the trash longer than project_trash_settings.purge_after_days. Called by pg_cron daily.';
+
+-- ── schedule ─────────────────────────────────────────────────────────────────
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.unschedule(jobid) FROM cron.job WHERE jobname = 'purge-project-trash';
+    PERFORM cron.schedule(
+      'purge-project-trash',
+      '30 3 * * *',  -- Daily at 03:30
+      'SELECT public.purge_deleted_projects()'
+    );
+  END IF;
+END;
+$$;
@@ -0,0 +1,69 @@
+-- Formal status reporting periods.
+-- Each department reports on a cadence (weekly, biweekly or monthly). A PM
+-- submits the project's status for the current period, which stores the
+-- rendered ReportModel as the official report for that period. Submitted
+-- reports are immutable: there is one per project and period, and no one can
+-- update them afterwards.
+--
+-- Biweekly periods are counted in 14-day blocks from Monday 2026-01-05 so every
+-- department on that cadence shares the same boundaries.
+
+-- ── departments.reporting_cadence ────────────────────────────────────────────
+ALTER TABLE public.departments
+  ADD COLUMN IF NOT EXISTS reporting_cadence TEXT NOT NULL DEFAULT 'weekly'
+    CHECK (reporting_cadence IN ('weekly', 'biweekly', 'monthly'));
+
+COMMENT ON COLUMN public.departments.reporting_cadence IS 'How often projects in this department submit an official status report';
+
+-- ── status_reports ───────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS public.status_reports (
+  id                UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id        UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  cadence           TEXT NOT NULL CHECK (cadence IN ('weekly', 'biweekly', 'monthly')),
+  period_start      DATE NOT NULL,
+  period_end        DATE NOT NULL CHECK (period_end >= period_start),
+  report            JSONB NOT NULL,
+  submitted_by      UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  submitted_by_name TEXT,
+  submitted_at      TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (project_id, period_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_status_reports_project_period
+  ON public.status_reports(project_id, period_start DESC);
+
+-- Reports are locked once submitted
+CREATE OR REPLACE FUNCTION public.prevent_status_report_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'Submitted status reports cannot be changed'
+    USING ERRCODE = '42501';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_status_reports_immutable ON public.status_reports;
+CREATE TRIGGER trg_status_reports_immutable
+  BEFORE UPDATE ON public.status_reports
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_status_report_update();
+
+ALTER TABLE public.status_reports ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view status reports" ON public.status_reports;
+CREATE POLICY "Authenticated users can view status reports"
+  ON public.status_reports FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Project editors can submit status reports" ON public.status_reports;
+CREATE POLICY "Project editors can submit status reports"
+  ON public.status_reports FOR INSERT
+  TO authenticated
+  WITH CHECK (can_edit_project(project_id) AND submitted_by = auth.uid());
+
+GRANT SELECT ON public.status_reports TO anon;
+GRANT SELECT, INSERT ON public.status_reports TO authenticated;
+GRANT ALL ON public.status_reports TO service_role;
+
+COMMENT ON TABLE public.status_reports IS 'Official, immutable status report snapshots — one per project and reporting period';
@@ -0,0 +1,144 @@
+-- Director approval workflow for official status reports.
+-- Departments can opt in with requires_status_approval. A report submitted for
+-- such a department starts out pending; the department's director (or an
+-- admin) approves it or returns it with a comment. Reports in departments
+-- without the workflow are approved on submission.
+--
+-- Only approved reports are visible beyond the project's editors and
+-- reviewers. A returned report stays on record and the PM can submit a new one
+-- for the same period. The report content itself is still immutable: the only
+-- change allowed after submission is the single pending → approved/returned
+-- review.
+
+-- ── departments.requires_status_approval ─────────────────────────────────────
+ALTER TABLE public.departments
+  ADD COLUMN IF NOT EXISTS requires_status_approval BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.departments.requires_status_approval IS 'When true, official status reports need director approval before they are shown to sponsors';
+
+-- ── status_reports review columns ────────────────────────────────────────────
+ALTER TABLE public.status_reports
+  ADD COLUMN IF NOT EXISTS approval_status TEXT NOT NULL DEFAULT 'approved'
+    CHECK (approval_status IN ('pending', 'approved', 'returned')),
+  ADD COLUMN IF NOT EXISTS reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS reviewed_by_name TEXT,
+  ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS review_comment TEXT;
+
+-- One live (pending or approved) report per period; returned ones are history
+ALTER TABLE public.status_reports
+  DROP CONSTRAINT IF EXISTS status_reports_project_id_period_start_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_status_reports_live_period
+  ON public.status_reports(project_id, period_start)
+  WHERE approval_status <> 'returned';
+
+CREATE INDEX IF NOT EXISTS idx_status_reports_pending
+  ON public.status_reports(submitted_at)
+  WHERE approval_status = 'pending';
+
+-- ── reviewer check ───────────────────────────────────────────────────────────
+-- Admins, or the director of the project's department
+CREATE OR REPLACE FUNCTION public.can_review_status_report(p_project_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.profiles pr
+    JOIN public.projects p ON p.id = p_project_id
+    WHERE pr.id = auth.uid()
+      AND (
+        pr.role = 'admin'
+        OR (pr.role = 'department_director' AND pr.department = p.department)
+      )
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.can_review_status_report(UUID) TO authenticated;
+
+-- ── workflow triggers ────────────────────────────────────────────────────────
+-- The workflow state is decided by the server, never by the submitter
+CREATE OR REPLACE FUNCTION public.set_status_report_approval()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.approval_status := CASE
+    WHEN EXISTS (
+      SELECT 1
+      FROM public.projects p
+      JOIN public.departments d ON d.name = p.department
+      WHERE p.id = NEW.project_id AND d.requires_status_approval
+    ) THEN 'pending'
+    ELSE 'approved'
+  END;
+  NEW.reviewed_by := NULL;
+  NEW.reviewed_by_name := NULL;
+  NEW.reviewed_at := NULL;
+  NEW.review_comment := NULL;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_status_reports_set_approval ON public.status_reports;
+CREATE TRIGGER trg_status_reports_set_approval
+  BEFORE INSERT ON public.status_reports
+  FOR EACH ROW EXECUTE FUNCTION public.set_status_report_approval();
+
+-- Replaces the blanket "no updates" rule: a pending report can be reviewed once
+CREATE OR REPLACE FUNCTION public.prevent_status_report_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.approval_status <> 'pending'
+     OR NEW.approval_status NOT IN ('approved', 'returned')
+     OR NEW.project_id IS DISTINCT FROM OLD.project_id
+     OR NEW.cadence IS DISTINCT FROM OLD.cadence
+     OR NEW.period_start IS DISTINCT FROM OLD.period_start
+     OR NEW.period_end IS DISTINCT FROM OLD.period_end
+     OR NEW.report IS DISTINCT FROM OLD.report
+     OR NEW.submitted_by IS DISTINCT FROM OLD.submitted_by
+     OR NEW.submitted_by_name IS DISTINCT FROM OLD.submitted_by_name
+     OR NEW.submitted_at IS DISTINCT FROM OLD.submitted_at THEN
+    RAISE EXCEPTION 'Submitted status reports cannot be changed'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.approval_status = 'returned' AND btrim(COALESCE(NEW.review_comment, '')) = '' THEN
+    RAISE EXCEPTION 'A comment is required when returning a status report';
+  END IF;
+
+  NEW.reviewed_by := auth.uid();
+  NEW.reviewed_at := now();
+  RETURN NEW;
+END;
+$$;
+
+-- ── policies ─────────────────────────────────────────────────────────────────
+DROP POLICY IF EXISTS "Authenticated users can view status reports" ON public.status_reports;
+CREATE POLICY "Authenticated users can view status reports"
+  ON public.status_reports FOR SELECT
+  TO authenticated
+  USING (
+    approval_status = 'approved'
+    OR can_edit_project(project_id)
+    OR can_review_status_report(project_id)
+  );
+
+DROP POLICY IF EXISTS "Directors can review status reports" ON public.status_reports;
+CREATE POLICY "Directors can review status reports"
+  ON public.status_reports FOR UPDATE
+  TO authenticated
+  USING (can_review_status_report(project_id))
+  WITH CHECK (can_review_status_report(project_id));
+
+-- Sponsors and other viewers only ever see approved reports
+REVOKE SELECT ON public.status_reports FROM anon;
+GRANT UPDATE ON public.status_reports TO authenticated;
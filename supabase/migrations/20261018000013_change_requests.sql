@@ -0,0 +1,849 @@
+-- Change requests.
+-- The changes table grows from free-text notes into change requests with a
+-- lifecycle: draft → submitted → approved/rejected → implemented. A request
+-- carries who asked for it, a quantified budget delta, a schedule delta in
+-- days and the milestones it moves. Project editors draft, submit, withdraw
+-- and mark approved requests implemented; the department director or an admin
+-- (same reviewers as status reports) approves or rejects them.
+--
+-- Approving can optionally apply the deltas: budget_delta is added to
+-- budget_total, the affected milestones and their tasks shift by
+-- schedule_delta_days, and a new active baseline is captured so variance is
+-- measured against the re-planned schedule. Only drafts are editable; once
+-- submitted a request is history and changes only through
+-- transition_change_request.
+
+-- ── changes lifecycle columns ────────────────────────────────────────────────
+ALTER TABLE public.changes
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'submitted', 'approved', 'rejected', 'implemented')),
+  ADD COLUMN IF NOT EXISTS requested_by TEXT,
+  ADD COLUMN IF NOT EXISTS budget_delta NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS schedule_delta_days INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS affected_milestone_ids UUID[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS submitted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS submitted_by_name TEXT,
+  ADD COLUMN IF NOT EXISTS submitted_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS decided_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS decided_by_name TEXT,
+  ADD COLUMN IF NOT EXISTS decided_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS decision_comment TEXT,
+  ADD COLUMN IF NOT EXISTS implemented_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS budget_applied BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS schedule_applied BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS baseline_id UUID REFERENCES public.project_baselines(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.changes.budget_delta IS 'Change to budget_total if the request is approved (negative for savings)';
+COMMENT ON COLUMN public.changes.schedule_delta_days IS 'Calendar days the affected milestones move if the request is approved';
+COMMENT ON COLUMN public.changes.baseline_id IS 'Baseline captured when the request was approved and applied';
+
+-- Existing free-text changes keep their recorded outcome where the disposition
+-- says so; everything else starts as a draft.
+UPDATE public.changes
+SET status = CASE
+  WHEN disposition ~* '^\s*approved' THEN 'approved'
+  WHEN disposition ~* '^\s*(rejected|denied)' THEN 'rejected'
+  ELSE 'draft'
+END
+WHERE status = 'draft';
+
+CREATE INDEX IF NOT EXISTS idx_changes_submitted
+  ON public.changes(submitted_at)
+  WHERE status = 'submitted';
+
+-- ── lifecycle guard ──────────────────────────────────────────────────────────
+-- New requests always start as drafts, only drafts can be edited, and the
+-- lifecycle columns only move through transition_change_request (which sets
+-- app.change_request_transition for the duration of its update).
+CREATE OR REPLACE FUNCTION public.protect_change_request()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_setting('app.change_request_transition', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.status            := 'draft';
+    NEW.submitted_by      := NULL;
+    NEW.submitted_by_name := NULL;
+    NEW.submitted_at      := NULL;
+    NEW.decided_by        := NULL;
+    NEW.decided_by_name   := NULL;
+    NEW.decided_at        := NULL;
+    NEW.decision_comment  := NULL;
+    NEW.implemented_at    := NULL;
+    NEW.budget_applied    := false;
+    NEW.schedule_applied  := false;
+    NEW.baseline_id       := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status <> 'draft' THEN
+    RAISE EXCEPTION 'Only draft change requests can be edited'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+     OR NEW.project_id IS DISTINCT FROM OLD.project_id
+     OR NEW.submitted_by IS DISTINCT FROM OLD.submitted_by
+     OR NEW.submitted_by_name IS DISTINCT FROM OLD.submitted_by_name
+     OR NEW.submitted_at IS DISTINCT FROM OLD.submitted_at
+     OR NEW.decided_by IS DISTINCT FROM OLD.decided_by
+     OR NEW.decided_by_name IS DISTINCT FROM OLD.decided_by_name
+     OR NEW.decided_at IS DISTINCT FROM OLD.decided_at
+     OR NEW.decision_comment IS DISTINCT FROM OLD.decision_comment
+     OR NEW.implemented_at IS DISTINCT FROM OLD.implemented_at
+     OR NEW.budget_applied IS DISTINCT FROM OLD.budget_applied
+     OR NEW.schedule_applied IS DISTINCT FROM OLD.schedule_applied
+     OR NEW.baseline_id IS DISTINCT FROM OLD.baseline_id THEN
+    RAISE EXCEPTION 'Change request status can only change through transition_change_request'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_changes_protect_lifecycle ON public.changes;
+CREATE TRIGGER trg_changes_protect_lifecycle
+  BEFORE INSERT OR UPDATE ON public.changes
+  FOR EACH ROW EXECUTE FUNCTION public.protect_change_request();
+
+-- ── snapshot_project_baseline ────────────────────────────────────────────────
+-- The snapshot half of capture_project_baseline, without the editor check, so
+-- an approver who is not a project editor can re-baseline through
+-- transition_change_request. Called directly it is still bound by the
+-- project_baselines insert policy.
+CREATE OR REPLACE FUNCTION public.snapshot_project_baseline(
+  p_project_id UUID,
+  p_name       TEXT,
+  p_note       TEXT DEFAULT NULL
+)
+RETURNS public.project_baselines
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_items    JSONB;
+  v_start    DATE;
+  v_finish   DATE;
+  v_budget   NUMERIC;
+  v_baseline public.project_baselines;
+BEGIN
+  SELECT budget_total INTO v_budget
+  FROM public.projects
+  WHERE id = p_project_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Project % not found', p_project_id USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT MIN(m.date), MAX(COALESCE(m.end_date, m.date))
+  INTO v_start, v_finish
+  FROM public.milestones m
+  WHERE m.project_id = p_project_id AND m.date IS NOT NULL;
+
+  SELECT COALESCE(jsonb_agg(item ORDER BY item->>'start_date', item->>'label'), '[]'::jsonb)
+  INTO v_items
+  FROM (
+    SELECT jsonb_build_object(
+      'item_type',   'milestone',
+      'item_id',     m.id,
+      'label',       COALESCE(m.milestone, ''),
+      'start_date',  m.date,
+      'finish_date', COALESCE(m.end_date, m.date)
+    ) AS item
+    FROM public.milestones m
+    WHERE m.project_id = p_project_id AND m.date IS NOT NULL
+    UNION ALL
+    SELECT jsonb_build_object(
+      'item_type',   'task',
+      'item_id',     t.id,
+      'label',       COALESCE(t.description, ''),
+      'start_date',  t.date,
+      'finish_date', t.date + COALESCE(t.duration_days, 1)
+    )
+    FROM public.tasks t
+    WHERE t.project_id = p_project_id AND t.date IS NOT NULL
+  ) snapshot;
+
+  UPDATE public.project_baselines
+  SET is_active = false
+  WHERE project_id = p_project_id AND is_active;
+
+  INSERT INTO public.project_baselines (
+    project_id, name, note, budget_total, start_date, finish_date, items,
+    is_active, created_by
+  ) VALUES (
+    p_project_id,
+    btrim(p_name),
+    NULLIF(btrim(p_note), ''),
+    v_budget,
+    v_start,
+    v_finish,
+    v_items,
+    true,
+    auth.uid()
+  )
+  RETURNING * INTO v_baseline;
+
+  RETURN v_baseline;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.snapshot_project_baseline(UUID, TEXT, TEXT) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.capture_project_baseline(
+  p_project_id UUID,
+  p_name       TEXT,
+  p_note       TEXT DEFAULT NULL
+)
+RETURNS public.project_baselines
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.can_edit_project(p_project_id) THEN
+    RAISE EXCEPTION 'Not allowed to edit project %', p_project_id
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN public.snapshot_project_baseline(p_project_id, p_name, p_note);
+END;
+$$;
+
+-- ── transition_change_request ────────────────────────────────────────────────
+-- Moves a request one step through its lifecycle:
+--   draft → submitted, submitted → draft (withdraw), approved → implemented:
+--     project editors
+--   submitted → approved | rejected: can_review_status_report (director/admin)
+-- A rejection needs a comment. On approval the p_apply_* flags decide whether
+-- the deltas are written to the plan; applying either bumps the project
+-- revision so open editors get a conflict instead of overwriting the new plan.
+CREATE OR REPLACE FUNCTION public.transition_change_request(
+  p_change_id       UUID,
+  p_status          TEXT,
+  p_comment         TEXT    DEFAULT NULL,
+  p_apply_budget    BOOLEAN DEFAULT false,
+  p_apply_schedule  BOOLEAN DEFAULT false,
+  p_create_baseline BOOLEAN DEFAULT false,
+  p_actor_name      TEXT    DEFAULT NULL
+)
+RETURNS public.changes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_change   public.changes;
+  v_apply_b  BOOLEAN := false;
+  v_apply_s  BOOLEAN := false;
+  v_baseline public.project_baselines;
+BEGIN
+  SELECT * INTO v_change
+  FROM public.changes
+  WHERE id = p_change_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Change request % not found', p_change_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF (v_change.status, p_status) IN (('draft', 'submitted'), ('submitted', 'draft'), ('approved', 'implemented')) THEN
+    IF NOT public.can_edit_project(v_change.project_id) THEN
+      RAISE EXCEPTION 'Not allowed to edit project %', v_change.project_id
+        USING ERRCODE = '42501';
+    END IF;
+  ELSIF (v_change.status, p_status) IN (('submitted', 'approved'), ('submitted', 'rejected')) THEN
+    IF NOT public.can_review_status_report(v_change.project_id) THEN
+      RAISE EXCEPTION 'Not allowed to decide change requests for project %', v_change.project_id
+        USING ERRCODE = '42501';
+    END IF;
+  ELSE
+    RAISE EXCEPTION 'Cannot move a % change request to %', v_change.status, p_status;
+  END IF;
+
+  IF p_status = 'submitted' AND btrim(COALESCE(v_change.change, '')) = '' THEN
+    RAISE EXCEPTION 'Describe the change before submitting it';
+  END IF;
+
+  IF p_status = 'rejected' AND btrim(COALESCE(p_comment, '')) = '' THEN
+    RAISE EXCEPTION 'A comment is required when rejecting a change request';
+  END IF;
+
+  IF p_status = 'approved' THEN
+    v_apply_b := p_apply_budget AND v_change.budget_delta <> 0;
+    v_apply_s := p_apply_schedule AND v_change.schedule_delta_days <> 0
+      AND cardinality(v_change.affected_milestone_ids) > 0;
+
+    IF v_apply_b OR v_apply_s THEN
+      UPDATE public.projects SET
+        budget_total = CASE WHEN v_apply_b
+                         THEN COALESCE(budget_total, 0) + v_change.budget_delta
+                         ELSE budget_total END,
+        revision     = revision + 1
+      WHERE id = v_change.project_id;
+    END IF;
+
+    IF v_apply_s THEN
+      UPDATE public.milestones SET
+        date     = date + v_change.schedule_delta_days,
+        end_date = end_date + v_change.schedule_delta_days
+      WHERE project_id = v_change.project_id
+        AND id = ANY (v_change.affected_milestone_ids);
+
+      UPDATE public.tasks SET
+        date = date + v_change.schedule_delta_days
+      WHERE project_id = v_change.project_id
+        AND milestone_id = ANY (v_change.affected_milestone_ids);
+    END IF;
+
+    IF p_create_baseline THEN
+      v_baseline := public.snapshot_project_baseline(
+        v_change.project_id,
+        format('Change: %s', left(btrim(regexp_replace(v_change.change, '<[^>]*>', '', 'g')), 80)),
+        p_comment
+      );
+    END IF;
+  END IF;
+
+  PERFORM set_config('app.change_request_transition', 'on', true);
+
+  UPDATE public.changes SET
+    status            = p_status,
+    submitted_by      = CASE
+                          WHEN p_status = 'submitted' THEN auth.uid()
+                          WHEN p_status = 'draft' THEN NULL
+                          ELSE submitted_by END,
+    submitted_by_name = CASE
+                          WHEN p_status = 'submitted' THEN NULLIF(btrim(p_actor_name), '')
+                          WHEN p_status = 'draft' THEN NULL
+                          ELSE submitted_by_name END,
+    submitted_at      = CASE
+                          WHEN p_status = 'submitted' THEN now()
+                          WHEN p_status = 'draft' THEN NULL
+                          ELSE submitted_at END,
+    decided_by        = CASE WHEN p_status IN ('approved', 'rejected') THEN auth.uid() ELSE decided_by END,
+    decided_by_name   = CASE WHEN p_status IN ('approved', 'rejected') THEN NULLIF(btrim(p_actor_name), '') ELSE decided_by_name END,
+    decided_at        = CASE WHEN p_status IN ('approved', 'rejected') THEN now() ELSE decided_at END,
+    decision_comment  = CASE WHEN p_status IN ('approved', 'rejected') THEN NULLIF(btrim(p_comment), '') ELSE decision_comment END,
+    implemented_at    = CASE WHEN p_status = 'implemented' THEN now() ELSE implemented_at END,
+    budget_applied    = budget_applied OR v_apply_b,
+    schedule_applied  = schedule_applied OR v_apply_s,
+    baseline_id       = COALESCE(v_baseline.id, baseline_id),
+    updated_at        = now()
+  WHERE id = p_change_id
+  RETURNING * INTO v_change;
+
+  PERFORM set_config('app.change_request_transition', '', true);
+
+  RETURN v_change;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.transition_change_request(UUID, TEXT, TEXT, BOOLEAN, BOOLEAN, BOOLEAN, TEXT) TO authenticated;
+
+-- ── save_project_with_relations (change requests) ────────────────────────────
+CREATE OR REPLACE FUNCTION public.save_project_with_relations(
+  p_project_id UUID,
+  p_payload           JSONB,
+  p_expected_revision INTEGER DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_uuid_re   CONSTANT TEXT := '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$';
+  v_item      JSONB;
+  v_task      JSONB;
+  v_client_id TEXT;
+  v_row_id    UUID;
+  v_ms_id     UUID;
+  v_source_id TEXT;
+  v_pred_ref  TEXT;
+  v_succ_ref  TEXT;
+  v_pred_id   UUID;
+  v_succ_id   UUID;
+  -- client id (possibly a temporary browser-generated one) -> persisted id
+  v_id_map    JSONB  := '{}'::jsonb;
+  v_kept      UUID[];
+  v_kept_ms   UUID[] := '{}';
+  v_kept_task UUID[] := '{}';
+  v_revision  INTEGER;
+  v_ms_refs   UUID[];
+BEGIN
+  IF NOT public.can_edit_project(p_project_id) THEN
+    RAISE EXCEPTION 'Not allowed to edit project %', p_project_id
+      USING ERRCODE = '42501';
+  END IF;
+
+  -- Lock the row so the revision check and the write below are atomic.
+  SELECT revision INTO v_revision
+  FROM public.projects
+  WHERE id = p_project_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Project % not found', p_project_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_expected_revision IS NOT NULL AND p_expected_revision <> v_revision THEN
+    RAISE EXCEPTION 'PROJECT_REVISION_CONFLICT'
+      USING ERRCODE = '40001',
+            DETAIL  = format('expected revision %s, current revision %s',
+                             p_expected_revision, v_revision);
+  END IF;
+
+  -- ── project row ────────────────────────────────────────────────────────────
+  UPDATE public.projects SET
+    project_id               = NULLIF(btrim(p_payload->>'project_id'), ''),
+    title                    = p_payload->>'title',
+    description              = p_payload->>'description',
+    value_statement          = p_payload->>'value_statement',
+    project_analysis         = p_payload->>'project_analysis',
+    status                   = COALESCE(p_payload->>'status', status),
+    budget_total             = COALESCE((p_payload->>'budget_total')::numeric, 0),
+    budget_actuals           = COALESCE((p_payload->>'budget_actuals')::numeric, 0),
+    budget_forecast          = COALESCE((p_payload->>'budget_forecast')::numeric, 0),
+    charter_link             = COALESCE(p_payload->>'charter_link', ''),
+    sponsors                 = COALESCE(p_payload->>'sponsors', ''),
+    business_leads           = COALESCE(p_payload->>'business_leads', ''),
+    project_manager          = COALESCE(p_payload->>'project_manager', ''),
+    health_calculation_type  = COALESCE(p_payload->>'health_calculation_type', 'automatic'),
+    manual_health_percentage = (p_payload->>'manual_health_percentage')::numeric,
+    manual_status_color      = p_payload->>'manual_status_color',
+    department               = p_payload->>'department',
+    program_id               = NULLIF(p_payload->>'program_id', '')::uuid,
+    revision                 = revision + 1
+  WHERE id = p_project_id
+  RETURNING revision INTO v_revision;
+
+  -- ── milestones + tasks ─────────────────────────────────────────────────────
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(COALESCE(p_payload->'milestones', '[]'::jsonb))
+  LOOP
+    v_client_id := v_item->>'id';
+    v_ms_id := NULL;
+
+    IF v_client_id ~* v_uuid_re THEN
+      UPDATE public.milestones SET
+        date       = (v_item->>'date')::date,
+        end_date   = NULLIF(v_item->>'end_date', '')::date,
+        milestone  = COALESCE(v_item->>'milestone', ''),
+        owner      = COALESCE(v_item->>'owner', ''),
+        completion = COALESCE((v_item->>'completion')::int, 0),
+        status     = COALESCE(v_item->>'status', 'green'),
+        weight     = COALESCE((v_item->>'weight')::int, 3)
+      WHERE id = v_client_id::uuid AND project_id = p_project_id
+      RETURNING id INTO v_ms_id;
+    END IF;
+
+    IF v_ms_id IS NULL THEN
+      -- Keep a browser-generated UUID when it is free so references created
+      -- before the first save (e.g. auto-copied accomplishments) stay valid.
+      INSERT INTO public.milestones (
+        id, project_id, date, end_date, milestone, owner, completion, status, weight
+      ) VALUES (
+        CASE
+          WHEN v_client_id ~* v_uuid_re
+            AND NOT EXISTS (SELECT 1 FROM public.milestones WHERE id = v_client_id::uuid)
+          THEN v_client_id::uuid
+          ELSE gen_random_uuid()
+        END,
+        p_project_id,
+        (v_item->>'date')::date,
+        NULLIF(v_item->>'end_date', '')::date,
+        COALESCE(v_item->>'milestone', ''),
+        COALESCE(v_item->>'owner', ''),
+        COALESCE((v_item->>'completion')::int, 0),
+        COALESCE(v_item->>'status', 'green'),
+        COALESCE((v_item->>'weight')::int, 3)
+      )
+      RETURNING id INTO v_ms_id;
+    END IF;
+
+    IF v_client_id IS NOT NULL THEN
+      v_id_map := v_id_map || jsonb_build_object(v_client_id, v_ms_id::text);
+    END IF;
+    v_kept_ms := v_kept_ms || v_ms_id;
+
+    FOR v_task IN
+      SELECT value FROM jsonb_array_elements(COALESCE(v_item->'tasks', '[]'::jsonb))
+    LOOP
+      v_client_id := v_task->>'id';
+      v_row_id := NULL;
+
+      IF v_client_id ~* v_uuid_re THEN
+        UPDATE public.tasks SET
+          milestone_id  = v_ms_id,
+          description   = COALESCE(v_task->>'description', ''),
+          assignee      = COALESCE(NULLIF(v_task->>'assignee', ''), v_item->>'owner'),
+          date          = NULLIF(v_task->>'date', '')::date,
+          completion    = COALESCE((v_task->>'completion')::int, 0),
+          duration_days = COALESCE((v_task->>'duration_days')::int, 1)
+        WHERE id = v_client_id::uuid AND project_id = p_project_id
+        RETURNING id INTO v_row_id;
+      END IF;
+
+      IF v_row_id IS NULL THEN
+        INSERT INTO public.tasks (
+          id, project_id, milestone_id, description, assignee, date, completion, duration_days
+        ) VALUES (
+          CASE
+            WHEN v_client_id ~* v_uuid_re
+              AND NOT EXISTS (SELECT 1 FROM public.tasks WHERE id = v_client_id::uuid)
+            THEN v_client_id::uuid
+            ELSE gen_random_uuid()
+          END,
+          p_project_id,
+          v_ms_id,
+          COALESCE(v_task->>'description', ''),
+          COALESCE(NULLIF(v_task->>'assignee', ''), v_item->>'owner'),
+          NULLIF(v_task->>'date', '')::date,
+          COALESCE((v_task->>'completion')::int, 0),
+          COALESCE((v_task->>'duration_days')::int, 1)
+        )
+        RETURNING id INTO v_row_id;
+      END IF;
+
+      IF v_client_id IS NOT NULL THEN
+        v_id_map := v_id_map || jsonb_build_object(v_client_id, v_row_id::text);
+      END IF;
+      v_kept_task := v_kept_task || v_row_id;
+    END LOOP;
+  END LOOP;
+
+  DELETE FROM public.tasks
+  WHERE project_id = p_project_id AND NOT (id = ANY (v_kept_task));
+
+  DELETE FROM public.milestones
+  WHERE project_id = p_project_id AND NOT (id = ANY (v_kept_ms));
+
+  -- ── schedule dependencies ──────────────────────────────────────────────────
+  -- Endpoints may still carry temporary client ids, so remap them through
+  -- v_id_map. Links whose endpoints were not saved above are dropped.
+  v_kept := '{}';
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(COALESCE(p_payload->'dependencies', '[]'::jsonb))
+  LOOP
+    v_client_id := v_item->>'id';
+    v_row_id := NULL;
+    v_pred_ref := COALESCE(v_id_map->>(v_item->>'predecessor_id'), v_item->>'predecessor_id');
+    v_succ_ref := COALESCE(v_id_map->>(v_item->>'successor_id'), v_item->>'successor_id');
+
+    CONTINUE WHEN v_pred_ref IS NULL OR v_succ_ref IS NULL
+      OR NOT (v_pred_ref ~* v_uuid_re) OR NOT (v_succ_ref ~* v_uuid_re);
+    v_pred_id := v_pred_ref::uuid;
+    v_succ_id := v_succ_ref::uuid;
+
+    CONTINUE WHEN v_pred_id = v_succ_id;
+    CONTINUE WHEN NOT (
+      CASE v_item->>'predecessor_type'
+        WHEN 'milestone' THEN v_pred_id = ANY (v_kept_ms)
+        WHEN 'task'      THEN v_pred_id = ANY (v_kept_task)
+        ELSE false
+      END
+    );
+    CONTINUE WHEN NOT (
+      CASE v_item->>'successor_type'
+        WHEN 'milestone' THEN v_succ_id = ANY (v_kept_ms)
+        WHEN 'task'      THEN v_succ_id = ANY (v_kept_task)
+        ELSE false
+      END
+    );
+    -- One link per predecessor/successor pair
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM public.schedule_dependencies d
+      WHERE d.id = ANY (v_kept)
+        AND d.predecessor_id = v_pred_id AND d.successor_id = v_succ_id
+    );
+
+    -- A link for this pair may already exist under another id
+    DELETE FROM public.schedule_dependencies
+    WHERE project_id = p_project_id
+      AND predecessor_id = v_pred_id AND successor_id = v_succ_id
+      AND id::text IS DISTINCT FROM v_client_id;
+
+    IF v_client_id ~* v_uuid_re THEN
+      UPDATE public.schedule_dependencies SET
+        predecessor_type = v_item->>'predecessor_type',
+        predecessor_id   = v_pred_id,
+        successor_type   = v_item->>'successor_type',
+        successor_id     = v_succ_id,
+        dependency_type  = COALESCE(NULLIF(v_item->>'dependency_type', ''), 'FS'),
+        lag_days         = COALESCE((v_item->>'lag_days')::int, 0),
+        updated_at       = now()
+      WHERE id = v_client_id::uuid AND project_id = p_project_id
+      RETURNING id INTO v_row_id;
+    END IF;
+
+    IF v_row_id IS NULL THEN
+      INSERT INTO public.schedule_dependencies (
+        project_id, predecessor_type, predecessor_id, successor_type, successor_id,
+        dependency_type, lag_days
+      ) VALUES (
+        p_project_id,
+        v_item->>'predecessor_type',
+        v_pred_id,
+        v_item->>'successor_type',
+        v_succ_id,
+        COALESCE(NULLIF(v_item->>'dependency_type', ''), 'FS'),
+        COALESCE((v_item->>'lag_days')::int, 0)
+      )
+      RETURNING id INTO v_row_id;
+    END IF;
+    v_kept := v_kept || v_row_id;
+  END LOOP;
+
+  DELETE FROM public.schedule_dependencies
+  WHERE project_id = p_project_id AND NOT (id = ANY (v_kept));
+
+  -- ── accomplishments ────────────────────────────────────────────────────────
+  v_kept := '{}';
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(COALESCE(p_payload->'accomplishments', '[]'::jsonb))
+  LOOP
+    v_client_id := v_item->>'id';
+    v_row_id := NULL;
+    -- Remap source ids that pointed at a temporary milestone/task id.
+    v_source_id := COALESCE(v_id_map->>(v_item->>'source_id'), v_item->>'source_id');
+
+    IF v_client_id ~* v_uuid_re THEN
+      UPDATE public.accomplishments SET
+        description    = COALESCE(v_item->>'description', ''),
+        source_type    = COALESCE(v_item->>'source_type', 'manual'),
+        source_id      = v_source_id,
+        is_hidden      = COALESCE((v_item->>'is_hidden')::boolean, false),
+        is_deleted     = COALESCE((v_item->>'is_deleted')::boolean, false),
+        auto_generated = COALESCE((v_item->>'auto_generated')::boolean, false)
+      WHERE id = v_client_id::uuid AND project_id = p_project_id
+      RETURNING id INTO v_row_id;
+    END IF;
+
+    IF v_row_id IS NULL THEN
+      INSERT INTO public.accomplishments (
+        project_id, description, source_type, source_id, is_hidden, is_deleted, auto_generated
+      ) VALUES (
+        p_project_id,
+        COALESCE(v_item->>'description', ''),
+        COALESCE(v_item->>'source_type', 'manual'),
+        v_source_id,
+        COALESCE((v_item->>'is_hidden')::boolean, false),
+        COALESCE((v_item->>'is_deleted')::boolean, false),
+        COALESCE((v_item->>'auto_generated')::boolean, false)
+      )
+      RETURNING id INTO v_row_id;
+    END IF;
+    v_kept := v_kept || v_row_id;
+  END LOOP;
+
+  DELETE FROM public.accomplishments
+  WHERE project_id = p_project_id AND NOT (id = ANY (v_kept));
+
+  -- ── next period activities ─────────────────────────────────────────────────
+  v_kept := '{}';
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(COALESCE(p_payload->'next_period_activities', '[]'::jsonb))
+  LOOP
+    v_client_id := v_item->>'id';
+    v_row_id := NULL;
+
+    IF v_client_id ~* v_uuid_re THEN
+      UPDATE public.next_period_activities SET
+        description    = COALESCE(v_item->>'description', ''),
+        date           = COALESCE(NULLIF(v_item->>'date', '')::date, CURRENT_DATE),
+        completion     = COALESCE((v_item->>'completion')::int, 0),
+        assignee       = COALESCE(v_item->>'assignee', ''),
+        sub_activities = COALESCE(v_item->'sub_activities', '[]'::jsonb)
+      WHERE id = v_client_id::uuid AND project_id = p_project_id
+      RETURNING id INTO v_row_id;
+    END IF;
+
+    IF v_row_id IS NULL THEN
+      INSERT INTO public.next_period_activities (
+        project_id, description, date, completion, assignee, sub_activities
+      ) VALUES (
+        p_project_id,
+        COALESCE(v_item->>'description', ''),
+        COALESCE(NULLIF(v_item->>'date', '')::date, CURRENT_DATE),
+        COALESCE((v_item->>'completion')::int, 0),
+        COALESCE(v_item->>'assignee', ''),
+        COALESCE(v_item->'sub_activities', '[]'::jsonb)
+      )
+      RETURNING id INTO v_row_id;
+    END IF;
+    v_kept := v_kept || v_row_id;
+  END LOOP;
+
+  DELETE FROM public.next_period_activities
+  WHERE project_id = p_project_id AND NOT (id = ANY (v_kept));
+
+  -- ── risks ──────────────────────────────────────────────────────────────────
+  -- owner_id is resolved from the owner's display name against directory_users;
+  -- realized_change_id is only kept when it points at a change of this project.
+  v_kept := '{}';
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(COALESCE(p_payload->'risks', '[]'::jsonb))
+  LOOP
+    v_client_id := v_item->>'id';
+    v_row_id := NULL;
+
+    IF v_client_id ~* v_uuid_re THEN
+      UPDATE public.risks SET
+        description        = COALESCE(v_item->>'description', ''),
+        impact             = NULLIF(v_item->>'impact', ''),
+        probability        = (v_item->>'probability')::smallint,
+        impact_score       = (v_item->>'impact_score')::smallint,
+        owner              = NULLIF(btrim(v_item->>'owner'), ''),
+        owner_id           = (
+          SELECT du.id FROM public.directory_users du
+          WHERE lower(du.display_name) = lower(btrim(v_item->>'owner'))
+          LIMIT 1
+        ),
+        mitigation_plan    = NULLIF(v_item->>'mitigation_plan', ''),
+        trigger_date       = NULLIF(v_item->>'trigger_date', '')::date,
+        status             = COALESCE(NULLIF(v_item->>'status', ''), 'open'),
+        realized_change_id = (
+          SELECT ch.id FROM public.changes ch
+          WHERE ch.id::text = v_item->>'realized_change_id'
+            AND ch.project_id = p_project_id
+        )
+      WHERE id = v_client_id::uuid AND project_id = p_project_id
+      RETURNING id INTO v_row_id;
+    END IF;
+
+    IF v_row_id IS NULL THEN
+      INSERT INTO public.risks (
+        project_id, description, impact, probability, impact_score, owner, owner_id,
+        mitigation_plan, trigger_date, status, realized_change_id
+      ) VALUES (
+        p_project_id,
+        COALESCE(v_item->>'description', ''),
+        NULLIF(v_item->>'impact', ''),
+        (v_item->>'probability')::smallint,
+        (v_item->>'impact_score')::smallint,
+        NULLIF(btrim(v_item->>'owner'), ''),
+        (
+          SELECT du.id FROM public.directory_users du
+          WHERE lower(du.display_name) = lower(btrim(v_item->>'owner'))
+          LIMIT 1
+        ),
+        NULLIF(v_item->>'mitigation_plan', ''),
+        NULLIF(v_item->>'trigger_date', '')::date,
+        COALESCE(NULLIF(v_item->>'status', ''), 'open'),
+        (
+          SELECT ch.id FROM public.changes ch
+          WHERE ch.id::text = v_item->>'realized_change_id'
+            AND ch.project_id = p_project_id
+        )
+      )
+      RETURNING id INTO v_row_id;
+    END IF;
+    v_kept := v_kept || v_row_id;
+  END LOOP;
+
+  DELETE FROM public.risks
+  WHERE project_id = p_project_id AND NOT (id = ANY (v_kept));
+
+  -- ── considerations ─────────────────────────────────────────────────────────
+  -- Considerations travel as plain strings (no ids), so match unchanged text to
+  -- an existing row first and only insert/delete what actually changed.
+  v_kept := '{}';
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(COALESCE(p_payload->'considerations', '[]'::jsonb))
+  LOOP
+    SELECT c.id INTO v_row_id
+    FROM public.considerations c
+    WHERE c.project_id = p_project_id
+      AND c.description = (v_item #>> '{}')
+      AND NOT (c.id = ANY (v_kept))
+    ORDER BY c.created_at
+    LIMIT 1;
+
+    IF v_row_id IS NULL THEN
+      INSERT INTO public.considerations (project_id, description)
+      VALUES (p_project_id, COALESCE(v_item #>> '{}', ''))
+      RETURNING id INTO v_row_id;
+    END IF;
+    v_kept := v_kept || v_row_id;
+  END LOOP;
+
+  DELETE FROM public.considerations
+  WHERE project_id = p_project_id AND NOT (id = ANY (v_kept));
+
+  -- ── changes ────────────────────────────────────────────────────────────────
+  -- Only draft change requests are written here. Submitted and decided ones
+  -- move through transition_change_request and are never deleted by a save.
+  v_kept := '{}';
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(COALESCE(p_payload->'changes', '[]'::jsonb))
+  LOOP
+    v_client_id := v_item->>'id';
+    v_row_id := NULL;
+
+    -- Affected milestones may be new this save; resolve them via v_id_map
+    -- and drop any that were not saved above.
+    v_ms_refs := ARRAY(
+      SELECT ms FROM unnest(v_kept_ms) ms
+      WHERE ms::text IN (
+        SELECT COALESCE(v_id_map->>ref, ref)
+        FROM jsonb_array_elements_text(COALESCE(v_item->'affected_milestone_ids', '[]'::jsonb)) ref
+      )
+    );
+
+    IF v_client_id ~* v_uuid_re THEN
+      SELECT id INTO v_row_id
+      FROM public.changes
+      WHERE id = v_client_id::uuid AND project_id = p_project_id AND status <> 'draft';
+
+      IF v_row_id IS NULL THEN
+        UPDATE public.changes SET
+          change                 = COALESCE(v_item->>'change', ''),
+          impact                 = v_item->>'impact',
+          disposition            = v_item->>'disposition',
+          requested_by           = NULLIF(btrim(v_item->>'requested_by'), ''),
+          budget_delta           = COALESCE((v_item->>'budget_delta')::numeric, 0),
+          schedule_delta_days    = COALESCE((v_item->>'schedule_delta_days')::int, 0),
+          affected_milestone_ids = v_ms_refs
+        WHERE id = v_client_id::uuid AND project_id = p_project_id
+        RETURNING id INTO v_row_id;
+      END IF;
+    END IF;
+
+    IF v_row_id IS NULL THEN
+      INSERT INTO public.changes (
+        project_id, change, impact, disposition, requested_by, budget_delta,
+        schedule_delta_days, affected_milestone_ids
+      ) VALUES (
+        p_project_id,
+        COALESCE(v_item->>'change', ''),
+        v_item->>'impact',
+        v_item->>'disposition',
+        NULLIF(btrim(v_item->>'requested_by'), ''),
+        COALESCE((v_item->>'budget_delta')::numeric, 0),
+        COALESCE((v_item->>'schedule_delta_days')::int, 0),
+        v_ms_refs
+      )
+      RETURNING id INTO v_row_id;
+    END IF;
+    v_kept := v_kept || v_row_id;
+  END LOOP;
+
+  DELETE FROM public.changes
+  WHERE project_id = p_project_id AND status = 'draft' AND NOT (id = ANY (v_kept));
+
+  RETURN jsonb_build_object(
+    'project_id', p_project_id,
+    'id_map',     v_id_map,
+    'revision',   v_revision
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.save_project_with_relations(UUID, JSONB, INTEGER) TO authenticated;
@@ -0,0 +1,155 @@
+-- Stakeholder register and RACI matrix.
+-- Sponsors, business leads and the project manager were free-text strings on
+-- projects, so the same person could appear as "Jane Doe", "jane doe" or
+-- "Doe, Jane" and nobody could reliably ask "which projects do I sponsor?".
+--
+-- project_stakeholders holds one row per person and role on a project. Rows
+-- are linked to directory_users whenever the name matches a directory entry;
+-- people outside the directory (vendors, consultants) keep a name only.
+-- stakeholder_raci holds the R/A/C/I designation of a stakeholder for a
+-- milestone; deleting either side removes the designation.
+--
+-- The legacy string columns stay in place and are backfilled into the
+-- register once below.
+
+-- ── project_stakeholders ─────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS public.project_stakeholders (
+  id                UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id        UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  directory_user_id UUID REFERENCES public.directory_users(id) ON DELETE SET NULL,
+  name              TEXT NOT NULL,
+  email             TEXT,
+  role              TEXT NOT NULL DEFAULT 'stakeholder'
+    CHECK (role IN ('sponsor', 'business_lead', 'project_manager', 'team_member', 'stakeholder')),
+  responsibilities  TEXT,
+  created_at        TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at        TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (project_id, name, role)
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_stakeholders_project_id
+  ON public.project_stakeholders(project_id);
+CREATE INDEX IF NOT EXISTS idx_project_stakeholders_directory_user_id
+  ON public.project_stakeholders(directory_user_id);
+
+-- Link to the directory by display name, the same way risk owners are
+-- resolved, and copy the directory email so reports need no join.
+CREATE OR REPLACE FUNCTION public.resolve_project_stakeholder()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.name := btrim(NEW.name);
+  NEW.updated_at := now();
+
+  IF TG_OP = 'INSERT' OR NEW.name IS DISTINCT FROM OLD.name
+     OR NEW.directory_user_id IS NULL THEN
+    SELECT du.id, du.email INTO NEW.directory_user_id, NEW.email
+    FROM public.directory_users du
+    WHERE lower(du.display_name) = lower(NEW.name)
+    ORDER BY (du.sync_status = 'active') DESC
+    LIMIT 1;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS resolve_project_stakeholder ON public.project_stakeholders;
+CREATE TRIGGER resolve_project_stakeholder
+  BEFORE INSERT OR UPDATE ON public.project_stakeholders
+  FOR EACH ROW EXECUTE FUNCTION public.resolve_project_stakeholder();
+
+ALTER TABLE public.project_stakeholders ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view project stakeholders" ON public.project_stakeholders;
+CREATE POLICY "Authenticated users can view project stakeholders"
+  ON public.project_stakeholders FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Project editor can insert project stakeholders" ON public.project_stakeholders;
+CREATE POLICY "Project editor can insert project stakeholders"
+  ON public.project_stakeholders FOR INSERT
+  TO authenticated
+  WITH CHECK (can_edit_project(project_id));
+
+DROP POLICY IF EXISTS "Project editor can update project stakeholders" ON public.project_stakeholders;
+CREATE POLICY "Project editor can update project stakeholders"
+  ON public.project_stakeholders FOR UPDATE
+  TO authenticated
+  USING (can_edit_project(project_id))
+  WITH CHECK (can_edit_project(project_id));
+
+DROP POLICY IF EXISTS "Project editor can delete project stakeholders" ON public.project_stakeholders;
+CREATE POLICY "Project editor can delete project stakeholders"
+  ON public.project_stakeholders FOR DELETE
+  TO authenticated
+  USING (can_edit_project(project_id));
+
+GRANT SELECT ON public.project_stakeholders TO anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.project_stakeholders TO authenticated;
+GRANT ALL ON public.project_stakeholders TO service_role;
+
+-- ── stakeholder_raci ─────────────────────────────────────────────────────────
+-- project_id is denormalized so policies and per-project reads need no join.
+CREATE TABLE IF NOT EXISTS public.stakeholder_raci (
+  id             UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id     UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  stakeholder_id UUID NOT NULL REFERENCES public.project_stakeholders(id) ON DELETE CASCADE,
+  milestone_id   UUID NOT NULL REFERENCES public.milestones(id) ON DELETE CASCADE,
+  designation    TEXT NOT NULL CHECK (designation IN ('R', 'A', 'C', 'I')),
+  created_at     TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (stakeholder_id, milestone_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_stakeholder_raci_project_id
+  ON public.stakeholder_raci(project_id);
+
+ALTER TABLE public.stakeholder_raci ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view stakeholder RACI" ON public.stakeholder_raci;
+CREATE POLICY "Authenticated users can view stakeholder RACI"
+  ON public.stakeholder_raci FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Project editor can insert stakeholder RACI" ON public.stakeholder_raci;
+CREATE POLICY "Project editor can insert stakeholder RACI"
+  ON public.stakeholder_raci FOR INSERT
+  TO authenticated
+  WITH CHECK (can_edit_project(project_id));
+
+DROP POLICY IF EXISTS "Project editor can update stakeholder RACI" ON public.stakeholder_raci;
+CREATE POLICY "Project editor can update stakeholder RACI"
+  ON public.stakeholder_raci FOR UPDATE
+  TO authenticated
+  USING (can_edit_project(project_id))
+  WITH CHECK (can_edit_project(project_id));
+
+DROP POLICY IF EXISTS "Project editor can delete stakeholder RACI" ON public.stakeholder_raci;
+CREATE POLICY "Project editor can delete stakeholder RACI"
+  ON public.stakeholder_raci FOR DELETE
+  TO authenticated
+  USING (can_edit_project(project_id));
+
+GRANT SELECT ON public.stakeholder_raci TO anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.stakeholder_raci TO authenticated;
+GRANT ALL ON public.stakeholder_raci TO service_role;
+
+-- ── backfill ─────────────────────────────────────────────────────────────────
+-- sponsors and business_leads hold comma-separated names (the user picker
+-- joins multi-selections with ", "); project_manager holds a single name.
+INSERT INTO public.project_stakeholders (project_id, name, role)
+SELECT DISTINCT p.id, btrim(n.name), n.role
+FROM public.projects p
+CROSS JOIN LATERAL (
+  SELECT unnest(string_to_array(COALESCE(p.sponsors, ''), ',')), 'sponsor'
+  UNION ALL
+  SELECT unnest(string_to_array(COALESCE(p.business_leads, ''), ',')), 'business_lead'
+  UNION ALL
+  SELECT p.project_manager, 'project_manager'
+) AS n(name, role)
+WHERE btrim(COALESCE(n.name, '')) <> ''
+ON CONFLICT (project_id, name, role) DO NOTHING;
@@ -0,0 +1,308 @@
+-- Health rule sets.
+-- The automatic health color used to be hard-coded twice: in the client
+-- (calculateProjectHealthStatusColor) and in update_project_computed_status_color,
+-- which had drifted to a plain milestone average. Thresholds now live in
+-- health_rule_sets as JSON that both sides evaluate the same way
+-- (src/lib/services/healthRules.ts mirrors evaluate_health_rules below).
+--
+-- A rule set applies organization-wide (department NULL) or to one department.
+-- Sets are versioned per scope: admins edit drafts, and publishing a draft
+-- archives the previously published version and recalculates the stored
+-- computed_status_color of the projects it governs.
+--
+-- Rules shape (all numbers are percentages):
+--   statusColors       color for non-active statuses (completed, cancelled, ...)
+--   noMilestones       color for active projects without milestones
+--   noTimeData         {green, yellow} completion thresholds without duration data
+--   futureStart        {yellowAbove}: not started yet, yellow when completion is above
+--   overdue            {yellow}: no time left, yellow at or above, red below
+--   timeBands          [{above, green, yellow}] checked in order; the first band
+--                      whose "above" the time remaining exceeds applies
+
+-- ── health_rule_sets ─────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS public.health_rule_sets (
+  id           UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  department   TEXT,
+  version      INTEGER NOT NULL CHECK (version > 0),
+  status       TEXT NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'published', 'archived')),
+  rules        JSONB NOT NULL,
+  note         TEXT,
+  created_by   UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at   TIMESTAMPTZ NOT NULL DEFAULT now(),
+  published_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  published_at TIMESTAMPTZ
+);
+
+-- Versions count up per scope (organization-wide counts as its own scope)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_health_rule_sets_scope_version
+  ON public.health_rule_sets(COALESCE(department, ''), version);
+
+-- At most one published set per scope
+CREATE UNIQUE INDEX IF NOT EXISTS idx_health_rule_sets_published
+  ON public.health_rule_sets(COALESCE(department, ''))
+  WHERE status = 'published';
+
+ALTER TABLE public.health_rule_sets ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view health rule sets" ON public.health_rule_sets;
+CREATE POLICY "Authenticated users can view health rule sets"
+  ON public.health_rule_sets FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Published and archived versions are history; only drafts change directly
+DROP POLICY IF EXISTS "Admins can manage draft health rule sets" ON public.health_rule_sets;
+CREATE POLICY "Admins can manage draft health rule sets"
+  ON public.health_rule_sets FOR ALL
+  TO authenticated
+  USING (
+    status = 'draft' AND EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  )
+  WITH CHECK (
+    status = 'draft' AND EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  );
+
+GRANT SELECT ON public.health_rule_sets TO anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.health_rule_sets TO authenticated;
+GRANT ALL ON public.health_rule_sets TO service_role;
+
+-- ── default rules ────────────────────────────────────────────────────────────
+-- The thresholds the client used to hard-code; also the fallback when no set
+-- is published. Keep in step with DEFAULT_HEALTH_RULES.
+CREATE OR REPLACE FUNCTION public.default_health_rules()
+RETURNS JSONB
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT '{
+    "statusColors": {"completed": "green", "cancelled": "red", "draft": "yellow", "on_hold": "yellow"},
+    "noMilestones": "green",
+    "noTimeData": {"green": 70, "yellow": 40},
+    "futureStart": {"yellowAbove": 50},
+    "overdue": {"yellow": 90},
+    "timeBands": [
+      {"above": 70, "green": 5, "yellow": 0},
+      {"above": 40, "green": 15, "yellow": 5},
+      {"above": 20, "green": 30, "yellow": 15},
+      {"above": 0, "green": 70, "yellow": 50}
+    ]
+  }'::jsonb;
+$$;
+
+INSERT INTO public.health_rule_sets (department, version, status, rules, note, published_at)
+SELECT NULL, 1, 'published', public.default_health_rules(), 'Initial thresholds', now()
+WHERE NOT EXISTS (SELECT 1 FROM public.health_rule_sets WHERE department IS NULL);
+
+-- The department's published rules, else the organization's, else the defaults
+CREATE OR REPLACE FUNCTION public.get_health_rules(p_department TEXT)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT rules FROM public.health_rule_sets
+     WHERE status = 'published' AND department = p_department),
+    (SELECT rules FROM public.health_rule_sets
+     WHERE status = 'published' AND department IS NULL),
+    public.default_health_rules()
+  );
+$$;
+
+-- ── evaluate_health_rules ────────────────────────────────────────────────────
+-- Same order of checks as evaluateHealthRules in healthRules.ts. Manual health
+-- is decided by the caller before the rules are consulted.
+CREATE OR REPLACE FUNCTION public.evaluate_health_rules(
+  p_rules           JSONB,
+  p_status          TEXT,
+  p_has_milestones  BOOLEAN,
+  p_completion      NUMERIC,
+  p_time_remaining  NUMERIC,
+  p_starts_in_future BOOLEAN
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_band JSONB;
+BEGIN
+  IF p_rules->'statusColors' ? COALESCE(p_status, 'active') THEN
+    RETURN p_rules->'statusColors'->>COALESCE(p_status, 'active');
+  END IF;
+
+  IF NOT p_has_milestones THEN
+    RETURN p_rules->>'noMilestones';
+  END IF;
+
+  IF p_time_remaining IS NULL THEN
+    IF p_completion >= (p_rules->'noTimeData'->>'green')::numeric THEN RETURN 'green'; END IF;
+    IF p_completion >= (p_rules->'noTimeData'->>'yellow')::numeric THEN RETURN 'yellow'; END IF;
+    RETURN 'red';
+  END IF;
+
+  IF p_starts_in_future THEN
+    IF p_completion > (p_rules->'futureStart'->>'yellowAbove')::numeric THEN RETURN 'yellow'; END IF;
+    RETURN 'green';
+  END IF;
+
+  IF p_time_remaining = 0 THEN
+    IF p_completion >= (p_rules->'overdue'->>'yellow')::numeric THEN RETURN 'yellow'; END IF;
+    RETURN 'red';
+  END IF;
+
+  FOR v_band IN SELECT value FROM jsonb_array_elements(p_rules->'timeBands') LOOP
+    IF p_time_remaining > (v_band->>'above')::numeric THEN
+      IF p_completion >= (v_band->>'green')::numeric THEN RETURN 'green'; END IF;
+      IF p_completion >= (v_band->>'yellow')::numeric THEN RETURN 'yellow'; END IF;
+      RETURN 'red';
+    END IF;
+  END LOOP;
+
+  RETURN 'red';
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.evaluate_health_rules(JSONB, TEXT, BOOLEAN, NUMERIC, NUMERIC, BOOLEAN) TO authenticated;
+
+-- ── update_project_computed_status_color ─────────────────────────────────────
+-- Now computes the same inputs as the client: weighted milestone completion
+-- (weight defaults to 3) and the share of working (else calendar) days left.
+CREATE OR REPLACE FUNCTION public.update_project_computed_status_color(project_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  p               RECORD;
+  v_milestones    INTEGER;
+  v_completion    NUMERIC;
+  v_total         NUMERIC;
+  v_remaining     NUMERIC;
+  v_time_left     NUMERIC;
+  v_color         TEXT;
+BEGIN
+  SELECT * INTO p FROM public.projects WHERE id = update_project_computed_status_color.project_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Project not found: %', update_project_computed_status_color.project_id;
+  END IF;
+
+  IF p.health_calculation_type = 'manual' AND p.manual_status_color IS NOT NULL THEN
+    v_color := p.manual_status_color;
+  ELSE
+    SELECT count(*),
+           ROUND(
+             SUM(COALESCE(m.completion, 0) * COALESCE(NULLIF(m.weight, 0), 3))
+             / NULLIF(SUM(COALESCE(NULLIF(m.weight, 0), 3) * 100), 0) * 100
+           )
+      INTO v_milestones, v_completion
+    FROM public.milestones m
+    WHERE m.project_id = p.id;
+
+    -- Mirrors calculateTimeRemainingPercentage: calendar duration is required,
+    -- working days are preferred when present
+    IF COALESCE(p.total_days, 0) <> 0 AND p.total_days_remaining IS NOT NULL THEN
+      IF COALESCE(p.working_days, 0) <> 0 AND p.working_days_remaining IS NOT NULL THEN
+        v_total := p.working_days;
+        v_remaining := p.working_days_remaining;
+      ELSE
+        v_total := p.total_days;
+        v_remaining := p.total_days_remaining;
+      END IF;
+    END IF;
+
+    IF v_total IS NOT NULL THEN
+      v_time_left := GREATEST(0, LEAST(100, ROUND(GREATEST(v_remaining, 0) / v_total * 100)));
+    END IF;
+
+    v_color := public.evaluate_health_rules(
+      public.get_health_rules(p.department),
+      p.status,
+      v_milestones > 0,
+      COALESCE(v_completion, 0),
+      v_time_left,
+      p.calculated_start_date IS NOT NULL AND p.calculated_start_date > current_date
+    );
+  END IF;
+
+  UPDATE public.projects
+  SET computed_status_color = v_color
+  WHERE id = p.id;
+END;
+$$;
+
+-- Duration and department changes move a project between bands or rule sets
+DROP TRIGGER IF EXISTS update_computed_status_color_on_project_change ON public.projects;
+CREATE TRIGGER update_computed_status_color_on_project_change
+  AFTER INSERT OR UPDATE OF status, health_calculation_type, manual_status_color,
+    department, calculated_start_date, total_days, total_days_remaining,
+    working_days, working_days_remaining
+  ON public.projects
+  FOR EACH ROW
+  EXECUTE FUNCTION public.trigger_update_computed_status_color();
+
+-- ── publish_health_rule_set ──────────────────────────────────────────────────
+-- Publishes a draft, archives the scope's previous version and recalculates
+-- the governed projects: the department's, or for the organization-wide set,
+-- every project whose department has no published set of its own. Returns the
+-- number of projects recalculated.
+CREATE OR REPLACE FUNCTION public.publish_health_rule_set(p_rule_set_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_set   RECORD;
+  v_count INTEGER := 0;
+  v_id    UUID;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can publish health rules'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_set FROM public.health_rule_sets WHERE id = p_rule_set_id FOR UPDATE;
+  IF NOT FOUND OR v_set.status <> 'draft' THEN
+    RAISE EXCEPTION 'Health rule set % is not a draft', p_rule_set_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE public.health_rule_sets
+  SET status = 'archived'
+  WHERE status = 'published'
+    AND department IS NOT DISTINCT FROM v_set.department;
+
+  UPDATE public.health_rule_sets
+  SET status = 'published', published_by = auth.uid(), published_at = now()
+  WHERE id = p_rule_set_id;
+
+  FOR v_id IN
+    SELECT p.id FROM public.projects p
+    WHERE p.deleted_at IS NULL
+      AND (
+        (v_set.department IS NOT NULL AND p.department = v_set.department)
+        OR (v_set.department IS NULL AND NOT EXISTS (
+          SELECT 1 FROM public.health_rule_sets s
+          WHERE s.status = 'published' AND s.department = p.department
+        ))
+      )
+  LOOP
+    PERFORM public.update_project_computed_status_color(v_id);
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.publish_health_rule_set(UUID) TO authenticated;
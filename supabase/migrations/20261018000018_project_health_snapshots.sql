@@ -0,0 +1,135 @@
+-- Project health history.
+-- computed_status_color only holds today's color. A daily snapshot keeps each
+-- project's computed and manual color together with the inputs behind them
+-- (weighted completion, time remaining, budget variance) so the app can show
+-- health trends and how long a project has been in its current color.
+--
+-- capture_project_health_snapshots() runs nightly via pg_cron and can be run
+-- again on the same day; the day's row is replaced.
+
+-- ── project_health_snapshots ─────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS public.project_health_snapshots (
+  id                      UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id              UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  snapshot_date           DATE NOT NULL,
+  computed_status_color   TEXT,
+  manual_status_color     TEXT,
+  health_calculation_type TEXT,
+  status                  TEXT,
+  weighted_completion     INTEGER,
+  -- Share of the duration left, 0–100; NULL without duration data
+  time_remaining_percent  INTEGER,
+  -- budget_total − budget_forecast; NULL without a budget
+  budget_variance         NUMERIC,
+  created_at              TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (project_id, snapshot_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_health_snapshots_date
+  ON public.project_health_snapshots(snapshot_date);
+
+ALTER TABLE public.project_health_snapshots ENABLE ROW LEVEL SECURITY;
+
+-- History is written by the capture function only
+DROP POLICY IF EXISTS "Authenticated users can view health snapshots" ON public.project_health_snapshots;
+CREATE POLICY "Authenticated users can view health snapshots"
+  ON public.project_health_snapshots FOR SELECT
+  TO authenticated
+  USING (true);
+
+GRANT SELECT ON public.project_health_snapshots TO anon;
+GRANT SELECT ON public.project_health_snapshots TO authenticated;
+GRANT ALL ON public.project_health_snapshots TO service_role;
+
+-- ── capture_project_health_snapshots ─────────────────────────────────────────
+-- Snapshots every project that isn't in the trash. Completion and time
+-- remaining are computed the same way as update_project_computed_status_color.
+-- Returns the number of projects captured. Callable by admins and by the
+-- scheduler (no auth.uid()).
+CREATE OR REPLACE FUNCTION public.capture_project_health_snapshots(p_date DATE DEFAULT current_date)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can capture health snapshots'
+      USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.project_health_snapshots (
+    project_id, snapshot_date, computed_status_color, manual_status_color,
+    health_calculation_type, status, weighted_completion,
+    time_remaining_percent, budget_variance
+  )
+  SELECT
+    p.id,
+    p_date,
+    p.computed_status_color,
+    p.manual_status_color,
+    p.health_calculation_type,
+    p.status,
+    COALESCE(m.completion, 0),
+    CASE
+      WHEN p.status = 'completed' THEN 0
+      WHEN COALESCE(p.total_days, 0) = 0 OR p.total_days_remaining IS NULL THEN NULL
+      WHEN COALESCE(p.working_days, 0) <> 0 AND p.working_days_remaining IS NOT NULL THEN
+        GREATEST(0, LEAST(100, ROUND(GREATEST(p.working_days_remaining, 0)::numeric / p.working_days * 100)))
+      ELSE
+        GREATEST(0, LEAST(100, ROUND(GREATEST(p.total_days_remaining, 0)::numeric / p.total_days * 100)))
+    END,
+    CASE
+      WHEN COALESCE(p.budget_total, 0) = 0 THEN NULL
+      ELSE p.budget_total - COALESCE(p.budget_forecast, 0)
+    END
+  FROM public.projects p
+  LEFT JOIN LATERAL (
+    SELECT ROUND(
+      SUM(COALESCE(ms.completion, 0) * COALESCE(NULLIF(ms.weight, 0), 3))
+      / NULLIF(SUM(COALESCE(NULLIF(ms.weight, 0), 3) * 100), 0) * 100
+    )::integer AS completion
+    FROM public.milestones ms
+    WHERE ms.project_id = p.id
+  ) m ON true
+  WHERE p.deleted_at IS NULL
+  ON CONFLICT (project_id, snapshot_date) DO UPDATE SET
+    computed_status_color   = EXCLUDED.computed_status_color,
+    manual_status_color     = EXCLUDED.manual_status_color,
+    health_calculation_type = EXCLUDED.health_calculation_type,
+    status                  = EXCLUDED.status,
+    weighted_completion     = EXCLUDED.weighted_completion,
+    time_remaining_percent  = EXCLUDED.time_remaining_percent,
+    budget_variance         = EXCLUDED.budget_variance,
+    created_at              = now();
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.capture_project_health_snapshots(DATE) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.capture_project_health_snapshots(DATE) TO service_role;
+
+COMMENT ON FUNCTION public.capture_project_health_snapshots(DATE) IS 'Records each project''s health color and inputs for the day in project_health_snapshots. Called by pg_cron daily.';
+
+-- Start the history today
+SELECT public.capture_project_health_snapshots();
+
+-- ── schedule ─────────────────────────────────────────────────────────────────
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.unschedule(jobid) FROM cron.job WHERE jobname = 'capture-project-health';
+    PERFORM cron.schedule(
+      'capture-project-health',
+      '55 23 * * *',  -- Daily at 23:55, after the day's edits
+      'SELECT public.capture_project_health_snapshots()'
+    );
+  END IF;
+END;
+$$;
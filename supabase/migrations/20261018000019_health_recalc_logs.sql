@@ -0,0 +1,51 @@
+-- Nightly health recalculation.
+-- total_days_remaining / working_days_remaining, and with them the computed
+-- health color, change every day, but were only refreshed when a project was
+-- saved. The health-scheduler edge function now recalculates durations and
+-- colors of every open project nightly, records each run here and flags the
+-- projects whose color changed.
+
+-- ── color change flag ────────────────────────────────────────────────────────
+ALTER TABLE public.projects ADD COLUMN IF NOT EXISTS previous_computed_status_color TEXT;
+ALTER TABLE public.projects ADD COLUMN IF NOT EXISTS computed_status_changed_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN public.projects.previous_computed_status_color IS 'Color before the last change detected by the nightly health recalculation';
+COMMENT ON COLUMN public.projects.computed_status_changed_at IS 'When the nightly health recalculation last changed computed_status_color';
+
+-- ── health_recalc_logs ───────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS public.health_recalc_logs (
+  id                 UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_at             TIMESTAMPTZ NOT NULL DEFAULT now(),
+  triggered_by       TEXT NOT NULL DEFAULT 'schedule' CHECK (triggered_by IN ('schedule', 'manual')),
+  projects_processed INTEGER NOT NULL DEFAULT 0,
+  durations_updated  INTEGER NOT NULL DEFAULT 0,
+  colors_changed     INTEGER NOT NULL DEFAULT 0,
+  -- [{project_id, title, from, to}]
+  color_changes      JSONB NOT NULL DEFAULT '[]'::jsonb,
+  errors             JSONB NOT NULL DEFAULT '[]'::jsonb,
+  error_message      TEXT,
+  execution_time_ms  INTEGER,
+  created_at         TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_health_recalc_logs_run_at
+  ON public.health_recalc_logs(run_at DESC);
+
+ALTER TABLE public.health_recalc_logs ENABLE ROW LEVEL SECURITY;
+
+-- Written by the edge function with the service role
+DROP POLICY IF EXISTS "Admins can view health recalculation logs" ON public.health_recalc_logs;
+CREATE POLICY "Admins can view health recalculation logs"
+  ON public.health_recalc_logs FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  );
+
+GRANT SELECT ON public.health_recalc_logs TO authenticated;
+GRANT ALL ON public.health_recalc_logs TO service_role;
+
+COMMENT ON TABLE public.health_recalc_logs IS 'Tracks every run of the health-scheduler nightly recalculation';
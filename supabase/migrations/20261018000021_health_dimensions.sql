@@ -0,0 +1,246 @@
+-- Health dimensions.
+-- Completion against time alone can leave a project green while it runs 40%
+-- over budget with several high-impact risks open. Rule sets gain optional
+-- dimensions, each scored to its own sub-color and combined with the schedule
+-- color (src/lib/services/healthRules.ts mirrors apply_health_dimensions):
+--
+--   dimensions.budget             {enabled, yellowOver, redOver}: percent the
+--                                 forecast runs over budget_total
+--   dimensions.risks              {enabled, minImpact, yellowAt, redAt}: open
+--                                 and mitigating risks with impact >= minImpact
+--   dimensions.overdueMilestones  {enabled, yellowAt, redAt}: unfinished
+--                                 milestones whose end date has passed
+--   dimensions.composite          'worst' takes the worst sub-color; 'capped'
+--                                 lowers the schedule color by one step at most
+--
+-- Every dimension starts disabled, and rule sets saved before this migration
+-- have no "dimensions" key, so existing colors do not change until an admin
+-- publishes a set that enables one.
+
+-- ── default rules ────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.default_health_rules()
+RETURNS JSONB
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT '{
+    "statusColors": {"completed": "green", "cancelled": "red", "draft": "yellow", "on_hold": "yellow"},
+    "noMilestones": "green",
+    "noTimeData": {"green": 70, "yellow": 40},
+    "futureStart": {"yellowAbove": 50},
+    "overdue": {"yellow": 90},
+    "timeBands": [
+      {"above": 70, "green": 5, "yellow": 0},
+      {"above": 40, "green": 15, "yellow": 5},
+      {"above": 20, "green": 30, "yellow": 15},
+      {"above": 0, "green": 70, "yellow": 50}
+    ],
+    "dimensions": {
+      "budget": {"enabled": false, "yellowOver": 10, "redOver": 25},
+      "risks": {"enabled": false, "minImpact": 4, "yellowAt": 1, "redAt": 3},
+      "overdueMilestones": {"enabled": false, "yellowAt": 1, "redAt": 3},
+      "composite": "worst"
+    }
+  }'::jsonb;
+$$;
+
+-- ── apply_health_dimensions ──────────────────────────────────────────────────
+-- Combines the schedule color from evaluate_health_rules with the enabled
+-- dimensions. Callers skip it for status-fixed colors and manual overrides.
+-- A NULL budget overrun means the project has no budget to score.
+CREATE OR REPLACE FUNCTION public.apply_health_dimensions(
+  p_rules              JSONB,
+  p_schedule_color     TEXT,
+  p_budget_overrun     NUMERIC,
+  p_risk_impacts       INTEGER[],
+  p_overdue_milestones INTEGER
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_dims     JSONB := p_rules->'dimensions';
+  v_schedule INTEGER;
+  v_worst    INTEGER;
+  v_count    INTEGER;
+  v_colors   TEXT[] := ARRAY['green', 'yellow', 'red'];
+BEGIN
+  IF v_dims IS NULL THEN
+    RETURN p_schedule_color;
+  END IF;
+
+  v_schedule := array_position(v_colors, p_schedule_color) - 1;
+  v_worst := v_schedule;
+
+  IF (v_dims->'budget'->>'enabled')::boolean AND p_budget_overrun IS NOT NULL THEN
+    IF p_budget_overrun > (v_dims->'budget'->>'redOver')::numeric THEN
+      v_worst := GREATEST(v_worst, 2);
+    ELSIF p_budget_overrun > (v_dims->'budget'->>'yellowOver')::numeric THEN
+      v_worst := GREATEST(v_worst, 1);
+    END IF;
+  END IF;
+
+  IF (v_dims->'risks'->>'enabled')::boolean THEN
+    SELECT count(*) INTO v_count
+    FROM unnest(COALESCE(p_risk_impacts, '{}')) AS impact
+    WHERE impact >= (v_dims->'risks'->>'minImpact')::integer;
+    IF v_count >= (v_dims->'risks'->>'redAt')::integer THEN
+      v_worst := GREATEST(v_worst, 2);
+    ELSIF v_count >= (v_dims->'risks'->>'yellowAt')::integer THEN
+      v_worst := GREATEST(v_worst, 1);
+    END IF;
+  END IF;
+
+  IF (v_dims->'overdueMilestones'->>'enabled')::boolean THEN
+    v_count := COALESCE(p_overdue_milestones, 0);
+    IF v_count >= (v_dims->'overdueMilestones'->>'redAt')::integer THEN
+      v_worst := GREATEST(v_worst, 2);
+    ELSIF v_count >= (v_dims->'overdueMilestones'->>'yellowAt')::integer THEN
+      v_worst := GREATEST(v_worst, 1);
+    END IF;
+  END IF;
+
+  IF v_dims->>'composite' = 'capped' THEN
+    v_worst := LEAST(v_worst, v_schedule + 1);
+  END IF;
+
+  RETURN v_colors[v_worst + 1];
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.apply_health_dimensions(JSONB, TEXT, NUMERIC, INTEGER[], INTEGER) TO authenticated;
+
+-- ── update_project_computed_status_color ─────────────────────────────────────
+-- Adds the dimension inputs: budget overrun, active risk impacts and overdue
+-- milestones, computed as getHealthRuleInputs does.
+CREATE OR REPLACE FUNCTION public.update_project_computed_status_color(project_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  p               RECORD;
+  v_rules         JSONB;
+  v_milestones    INTEGER;
+  v_completion    NUMERIC;
+  v_overdue       INTEGER;
+  v_total         NUMERIC;
+  v_remaining     NUMERIC;
+  v_time_left     NUMERIC;
+  v_overrun       NUMERIC;
+  v_impacts       INTEGER[];
+  v_color         TEXT;
+BEGIN
+  SELECT * INTO p FROM public.projects WHERE id = update_project_computed_status_color.project_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Project not found: %', update_project_computed_status_color.project_id;
+  END IF;
+
+  IF p.health_calculation_type = 'manual' AND p.manual_status_color IS NOT NULL THEN
+    v_color := p.manual_status_color;
+  ELSE
+    v_rules := public.get_health_rules(p.department);
+
+    SELECT count(*),
+           ROUND(
+             SUM(COALESCE(m.completion, 0) * COALESCE(NULLIF(m.weight, 0), 3))
+             / NULLIF(SUM(COALESCE(NULLIF(m.weight, 0), 3) * 100), 0) * 100
+           ),
+           count(*) FILTER (
+             WHERE COALESCE(m.completion, 0) < 100
+               AND COALESCE(m.end_date, m.date) < current_date
+           )
+      INTO v_milestones, v_completion, v_overdue
+    FROM public.milestones m
+    WHERE m.project_id = p.id;
+
+    -- Mirrors calculateTimeRemainingPercentage: calendar duration is required,
+    -- working days are preferred when present
+    IF COALESCE(p.total_days, 0) <> 0 AND p.total_days_remaining IS NOT NULL THEN
+      IF COALESCE(p.working_days, 0) <> 0 AND p.working_days_remaining IS NOT NULL THEN
+        v_total := p.working_days;
+        v_remaining := p.working_days_remaining;
+      ELSE
+        v_total := p.total_days;
+        v_remaining := p.total_days_remaining;
+      END IF;
+    END IF;
+
+    IF v_total IS NOT NULL THEN
+      v_time_left := GREATEST(0, LEAST(100, ROUND(GREATEST(v_remaining, 0) / v_total * 100)));
+    END IF;
+
+    v_color := public.evaluate_health_rules(
+      v_rules,
+      p.status,
+      v_milestones > 0,
+      COALESCE(v_completion, 0),
+      v_time_left,
+      p.calculated_start_date IS NOT NULL AND p.calculated_start_date > current_date
+    );
+
+    -- Status-fixed colors are final; everything else can be pulled down
+    IF NOT (v_rules->'statusColors' ? COALESCE(p.status, 'active')) THEN
+      IF COALESCE(p.budget_total, 0) > 0 AND COALESCE(p.budget_forecast, 0) <> 0 THEN
+        v_overrun := ROUND((p.budget_forecast - p.budget_total) / p.budget_total * 100);
+      END IF;
+
+      SELECT array_agg(r.impact_score) INTO v_impacts
+      FROM public.risks r
+      WHERE r.project_id = p.id
+        AND r.impact_score IS NOT NULL
+        AND COALESCE(r.status, 'open') IN ('open', 'mitigating');
+
+      v_color := public.apply_health_dimensions(v_rules, v_color, v_overrun, v_impacts, v_overdue);
+    END IF;
+  END IF;
+
+  UPDATE public.projects
+  SET computed_status_color = v_color
+  WHERE id = p.id;
+END;
+$$;
+
+-- ── triggers ─────────────────────────────────────────────────────────────────
+-- Risks now feed the color, alongside projects and milestones
+CREATE OR REPLACE FUNCTION public.trigger_update_computed_status_color()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'projects' THEN
+    PERFORM public.update_project_computed_status_color(NEW.id);
+    RETURN NEW;
+  END IF;
+
+  -- milestones and risks
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.project_id IS NOT NULL THEN
+      PERFORM public.update_project_computed_status_color(OLD.project_id);
+    END IF;
+    RETURN OLD;
+  END IF;
+  IF NEW.project_id IS NOT NULL THEN
+    PERFORM public.update_project_computed_status_color(NEW.project_id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS update_computed_status_color_on_project_change ON public.projects;
+CREATE TRIGGER update_computed_status_color_on_project_change
+  AFTER INSERT OR UPDATE OF status, health_calculation_type, manual_status_color,
+    department, calculated_start_date, total_days, total_days_remaining,
+    working_days, working_days_remaining, budget_total, budget_forecast
+  ON public.projects
+  FOR EACH ROW
+  EXECUTE FUNCTION public.trigger_update_computed_status_color();
+
+DROP TRIGGER IF EXISTS update_computed_status_color_on_risk_change ON public.risks;
+CREATE TRIGGER update_computed_status_color_on_risk_change
+  AFTER INSERT OR UPDATE OF impact_score, status, project_id OR DELETE
+  ON public.risks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.trigger_update_computed_status_color();
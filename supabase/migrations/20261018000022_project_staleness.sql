@@ -0,0 +1,157 @@
+-- Stale-update detection.
+-- updated_at moves whenever anything touches a project row, including the
+-- nightly duration and health recalculation, so a project nobody has looked
+-- at for months still looks fresh. last_meaningful_update_at only moves when a
+-- person edits the project: its own fields (not the derived duration, health
+-- and trash columns) or its milestones, tasks, status content and registers.
+--
+-- A project is stale when that date is older than the threshold for its
+-- status in project_staleness_settings (src/lib/services/projectStaleness.ts).
+-- Statuses without a threshold, such as completed and cancelled, never go
+-- stale. send-reminder-emails measures from the same date.
+
+-- ── projects ─────────────────────────────────────────────────────────────────
+ALTER TABLE public.projects
+  ADD COLUMN IF NOT EXISTS last_meaningful_update_at TIMESTAMPTZ;
+
+-- Best guess for existing projects; accurate from the next edit on
+UPDATE public.projects
+SET last_meaningful_update_at = COALESCE(updated_at, created_at, now())
+WHERE last_meaningful_update_at IS NULL;
+
+ALTER TABLE public.projects
+  ALTER COLUMN last_meaningful_update_at SET DEFAULT now(),
+  ALTER COLUMN last_meaningful_update_at SET NOT NULL;
+
+COMMENT ON COLUMN public.projects.last_meaningful_update_at IS 'Last edit by a person; recalculated and system-maintained columns do not count';
+
+-- ── project_staleness_settings ───────────────────────────────────────────────
+-- Single-row table: the id column can only ever be true. thresholds maps a
+-- project status to the number of days without an update before it is stale.
+CREATE TABLE IF NOT EXISTS public.project_staleness_settings (
+  id         BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  thresholds JSONB NOT NULL DEFAULT '{"active": 14, "draft": 30, "on_hold": 60}'::jsonb
+    CHECK (jsonb_typeof(thresholds) = 'object'),
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.project_staleness_settings (id) VALUES (true)
+  ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE public.project_staleness_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view staleness settings" ON public.project_staleness_settings;
+CREATE POLICY "Authenticated users can view staleness settings"
+  ON public.project_staleness_settings FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Admins can update staleness settings" ON public.project_staleness_settings;
+CREATE POLICY "Admins can update staleness settings"
+  ON public.project_staleness_settings FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  );
+
+GRANT SELECT ON public.project_staleness_settings TO authenticated;
+GRANT UPDATE ON public.project_staleness_settings TO authenticated;
+GRANT ALL ON public.project_staleness_settings TO service_role;
+
+-- ── stamp_meaningful_update ──────────────────────────────────────────────────
+-- Compares the row without its derived columns. A save through
+-- save_project_with_relations always bumps revision, so saving counts as an
+-- update even when no field changed. Override expiry by the scheduler does not.
+CREATE OR REPLACE FUNCTION public.stamp_meaningful_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_derived TEXT[] := ARRAY[
+    'updated_at', 'last_meaningful_update_at',
+    'computed_status_color', 'previous_computed_status_color', 'computed_status_changed_at',
+    'calculated_start_date', 'calculated_end_date',
+    'total_days', 'total_days_remaining', 'working_days', 'working_days_remaining',
+    'manual_status_set_by', 'manual_status_set_by_name', 'manual_status_set_at',
+    'deleted_at', 'deleted_by'
+  ];
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.last_meaningful_update_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF COALESCE(current_setting('app.expiring_health_overrides', true), 'off') = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF (to_jsonb(NEW) - v_derived) IS DISTINCT FROM (to_jsonb(OLD) - v_derived) THEN
+    NEW.last_meaningful_update_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS stamp_meaningful_update ON public.projects;
+CREATE TRIGGER stamp_meaningful_update
+  BEFORE INSERT OR UPDATE ON public.projects
+  FOR EACH ROW
+  EXECUTE FUNCTION public.stamp_meaningful_update();
+
+-- ── touch_project_meaningful_update ──────────────────────────────────────────
+-- Edits to a project's content count as updates to the project. A save
+-- rewrites many rows in one transaction; now() is fixed per transaction, so
+-- only the first of them touches the project.
+CREATE OR REPLACE FUNCTION public.touch_project_meaningful_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_project_id UUID;
+BEGIN
+  v_project_id := CASE WHEN TG_OP = 'DELETE' THEN OLD.project_id ELSE NEW.project_id END;
+  IF v_project_id IS NOT NULL THEN
+    UPDATE public.projects
+    SET last_meaningful_update_at = now()
+    WHERE id = v_project_id
+      AND last_meaningful_update_at IS DISTINCT FROM now();
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DO $$
+DECLARE
+  v_table TEXT;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY[
+    'milestones', 'tasks', 'accomplishments', 'next_period_activities',
+    'risks', 'considerations', 'changes', 'issues', 'decisions', 'status_reports'
+  ] LOOP
+    EXECUTE format('DROP TRIGGER IF EXISTS touch_project_meaningful_update ON public.%I', v_table);
+    EXECUTE format(
+      'CREATE TRIGGER touch_project_meaningful_update
+         AFTER INSERT OR UPDATE OR DELETE ON public.%I
+         FOR EACH ROW EXECUTE FUNCTION public.touch_project_meaningful_update()',
+      v_table
+    );
+  END LOOP;
+END;
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_projects_last_meaningful_update_at
+  ON public.projects(last_meaningful_update_at)
+  WHERE deleted_at IS NULL;
@@ -0,0 +1,808 @@
+-- Milestone forecasts and slip history.
+-- A milestone keeps the finish date it was planned with (planned_date) and
+-- the finish date currently expected (forecast_date). The planned date is set
+-- when the milestone is created and does not move afterwards; the forecast
+-- moves with a reason, and every move is recorded in
+-- milestone_forecast_changes. date/end_date remain the working schedule.
+--
+-- Existing milestones are backfilled from the project_versions snapshots:
+-- the first finish date a milestone was saved with becomes its planned date,
+-- and each later change of that date becomes a forecast change.
+
+-- ── milestones forecast columns ──────────────────────────────────────────────
+ALTER TABLE public.milestones
+  ADD COLUMN IF NOT EXISTS planned_date DATE,
+  ADD COLUMN IF NOT EXISTS forecast_date DATE,
+  ADD COLUMN IF NOT EXISTS forecast_reason TEXT;
+
+COMMENT ON COLUMN public.milestones.planned_date IS 'Finish date the milestone was planned with; fixed once set';
+COMMENT ON COLUMN public.milestones.forecast_date IS 'Currently expected finish date';
+COMMENT ON COLUMN public.milestones.forecast_reason IS 'Why the forecast last moved';
+
+-- ── milestone_forecast_changes ───────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS public.milestone_forecast_changes (
+  id                     UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  milestone_id           UUID NOT NULL REFERENCES public.milestones(id) ON DELETE CASCADE,
+  project_id             UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  previous_forecast_date DATE,
+  forecast_date          DATE NOT NULL,
+  reason                 TEXT,
+  source                 TEXT NOT NULL DEFAULT 'edit' CHECK (source IN ('edit', 'backfill')),
+  changed_by             UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  changed_by_name        TEXT,
+  changed_at             TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_milestone_forecast_changes_milestone
+  ON public.milestone_forecast_changes(milestone_id, changed_at);
+CREATE INDEX IF NOT EXISTS idx_milestone_forecast_changes_project
+  ON public.milestone_forecast_changes(project_id, changed_at);
+
+ALTER TABLE public.milestone_forecast_changes ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the trigger below and the backfill
+DROP POLICY IF EXISTS "Authenticated users can view forecast changes" ON public.milestone_forecast_changes;
+CREATE POLICY "Authenticated users can view forecast changes"
+  ON public.milestone_forecast_changes FOR SELECT
+  TO authenticated
+  USING (true);
+
+GRANT SELECT ON public.milestone_forecast_changes TO authenticated;
+GRANT ALL ON public.milestone_forecast_changes TO service_role;
+
+COMMENT ON TABLE public.milestone_forecast_changes IS 'Every move of a milestone forecast date, with the reason given';
+
+-- ── backfill from project_versions ───────────────────────────────────────────
+-- Finish date of every milestone in every saved version, oldest first. Runs
+-- before the triggers exist so the updates below are not logged twice.
+CREATE TEMP TABLE milestone_finish_snapshots ON COMMIT DROP AS
+SELECT
+  m.id         AS milestone_id,
+  m.project_id,
+  pv.created_at,
+  pv.created_by,
+  left(COALESCE(NULLIF(ms->>'end_date', ''), ms->>'date'), 10)::date AS finish
+FROM public.project_versions pv
+CROSS JOIN LATERAL jsonb_array_elements(
+  CASE WHEN jsonb_typeof(pv.data->'milestones') = 'array' THEN pv.data->'milestones' ELSE '[]'::jsonb END
+) ms
+JOIN public.milestones m ON m.id::text = ms->>'id'
+WHERE COALESCE(NULLIF(ms->>'end_date', ''), ms->>'date') ~ '^\d{4}-\d{2}-\d{2}';
+
+INSERT INTO public.milestone_forecast_changes (
+  milestone_id, project_id, previous_forecast_date, forecast_date,
+  reason, source, changed_by, changed_by_name, changed_at
+)
+SELECT
+  s.milestone_id, s.project_id, s.previous_finish, s.finish,
+  'Recorded before forecasts were tracked', 'backfill',
+  s.created_by,
+  (SELECT COALESCE(NULLIF(btrim(full_name), ''), email) FROM public.profiles WHERE id = s.created_by),
+  s.created_at
+FROM (
+  SELECT
+    milestone_id, project_id, created_at, created_by, finish,
+    lag(finish) OVER (PARTITION BY milestone_id ORDER BY created_at) AS previous_finish
+  FROM milestone_finish_snapshots
+) s
+WHERE s.previous_finish IS NOT NULL
+  AND s.finish IS DISTINCT FROM s.previous_finish
+  AND NOT EXISTS (SELECT 1 FROM public.milestone_forecast_changes WHERE source = 'backfill');
+
+-- A date changed after the last saved version
+INSERT INTO public.milestone_forecast_changes (
+  milestone_id, project_id, previous_forecast_date, forecast_date, reason, source, changed_at
+)
+SELECT
+  m.id, m.project_id, last.finish, COALESCE(m.end_date, m.date),
+  'Recorded before forecasts were tracked', 'backfill', m.updated_at
+FROM public.milestones m
+JOIN LATERAL (
+  SELECT finish FROM milestone_finish_snapshots s
+  WHERE s.milestone_id = m.id
+  ORDER BY s.created_at DESC
+  LIMIT 1
+) last ON true
+WHERE m.forecast_date IS NULL
+  AND COALESCE(m.end_date, m.date) IS DISTINCT FROM last.finish;
+
+-- Not an edit by a person, so projects must not look freshly updated
+ALTER TABLE public.milestones DISABLE TRIGGER touch_project_meaningful_update;
+
+UPDATE public.milestones m
+SET planned_date = COALESCE(
+      (SELECT s.finish FROM milestone_finish_snapshots s
+       WHERE s.milestone_id = m.id
+       ORDER BY s.created_at
+       LIMIT 1),
+      m.end_date,
+      m.date
+    ),
+    forecast_date = COALESCE(m.end_date, m.date)
+WHERE m.planned_date IS NULL;
+
+ALTER TABLE public.milestones ENABLE TRIGGER touch_project_meaningful_update;
+
+-- ── forecast stamping ────────────────────────────────────────────────────────
+-- New milestones are planned and forecast at their finish date unless the
+-- client says otherwise. The planned date never moves once set; a forecast
+-- only moves with a reason.
+CREATE OR REPLACE FUNCTION public.stamp_milestone_forecast()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.planned_date  := COALESCE(NEW.planned_date, NEW.end_date, NEW.date);
+    NEW.forecast_date := COALESCE(NEW.forecast_date, NEW.planned_date);
+    RETURN NEW;
+  END IF;
+
+  NEW.planned_date  := COALESCE(OLD.planned_date, NEW.planned_date, NEW.end_date, NEW.date);
+  NEW.forecast_date := COALESCE(NEW.forecast_date, OLD.forecast_date, NEW.planned_date);
+
+  IF NEW.forecast_date IS DISTINCT FROM OLD.forecast_date
+     AND OLD.forecast_date IS NOT NULL
+     AND btrim(COALESCE(NEW.forecast_reason, '')) = '' THEN
+    RAISE EXCEPTION 'A reason is required to move the forecast of milestone "%"', NEW.milestone
+      USING ERRCODE = '23514';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_milestones_stamp_forecast ON public.milestones;
+CREATE TRIGGER trg_milestones_stamp_forecast
+  BEFORE INSERT OR UPDATE ON public.milestones
+  FOR EACH ROW EXECUTE FUNCTION public.stamp_milestone_forecast();
+
+-- ── forecast history ─────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.log_milestone_forecast_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.forecast_date IS DISTINCT FROM OLD.forecast_date AND OLD.forecast_date IS NOT NULL THEN
+    INSERT INTO public.milestone_forecast_changes (
+      milestone_id, project_id, previous_forecast_date, forecast_date,
+      reason, changed_by, changed_by_name
+    ) VALUES (
+      NEW.id, NEW.project_id, OLD.forecast_date, NEW.forecast_date,
+      NEW.forecast_reason, auth.uid(),
+      (SELECT COALESCE(NULLIF(btrim(full_name), ''), email) FROM public.profiles WHERE id = auth.uid())
+    );
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_milestones_log_forecast_change ON public.milestones;
+CREATE TRIGGER trg_milestones_log_forecast_change
+  AFTER UPDATE ON public.milestones
+  FOR EACH ROW EXECUTE FUNCTION public.log_milestone_forecast_change();
+
+-- ── save_project_with_relations (milestone forecasts) ────────────────────────
+CREATE OR REPLACE FUNCTION public.save_project_with_relations(
+  p_project_id UUID,
+  p_payload           JSONB,
+  p_expected_revision INTEGER DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_uuid_re   CONSTANT TEXT := '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$';
+  v_item      JSONB;
+  v_task      JSONB;
+  v_client_id TEXT;
+  v_row_id    UUID;
+  v_ms_id     UUID;
+  v_source_id TEXT;
+  v_pred_ref  TEXT;
+  v_succ_ref  TEXT;
+  v_pred_id   UUID;
+  v_succ_id   UUID;
+  -- client id (possibly a temporary browser-generated one) -> persisted id
+  v_id_map    JSONB  := '{}'::jsonb;
+  v_kept      UUID[];
+  v_kept_ms   UUID[] := '{}';
+  v_kept_task UUID[] := '{}';
+  v_revision  INTEGER;
+  v_ms_refs   UUID[];
+  v_links     JSONB;
+BEGIN
+  IF NOT public.can_edit_project(p_project_id) THEN
+    RAISE EXCEPTION 'Not allowed to edit project %', p_project_id
+      USING ERRCODE = '42501';
+  END IF;
+
+  -- Lock the row so the revision check and the write below are atomic.
+  SELECT revision INTO v_revision
+  FROM public.projects
+  WHERE id = p_project_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Project % not found', p_project_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_expected_revision IS NOT NULL AND p_expected_revision <> v_revision THEN
+    RAISE EXCEPTION 'PROJECT_REVISION_CONFLICT'
+      USING ERRCODE = '40001',
+            DETAIL  = format('expected revision %s, current revision %s',
+                             p_expected_revision, v_revision);
+  END IF;
+
+  -- ── project row ────────────────────────────────────────────────────────────
+  UPDATE public.projects SET
+    project_id               = NULLIF(btrim(p_payload->>'project_id'), ''),
+    title                    = p_payload->>'title',
+    description              = p_payload->>'description',
+    value_statement          = p_payload->>'value_statement',
+    project_analysis         = p_payload->>'project_analysis',
+    status                   = COALESCE(p_payload->>'status', status),
+    budget_total             = COALESCE((p_payload->>'budget_total')::numeric, 0),
+    budget_actuals           = COALESCE((p_payload->>'budget_actuals')::numeric, 0),
+    budget_forecast          = COALESCE((p_payload->>'budget_forecast')::numeric, 0),
+    charter_link             = COALESCE(p_payload->>'charter_link', ''),
+    sponsors                 = COALESCE(p_payload->>'sponsors', ''),
+    business_leads           = COALESCE(p_payload->>'business_leads', ''),
+    project_manager          = COALESCE(p_payload->>'project_manager', ''),
+    health_calculation_type  = COALESCE(p_payload->>'health_calculation_type', 'automatic'),
+    manual_health_percentage = (p_payload->>'manual_health_percentage')::numeric,
+    manual_status_color      = p_payload->>'manual_status_color',
+    manual_status_reason     = NULLIF(btrim(p_payload->>'manual_status_reason'), ''),
+    manual_status_expires_at = NULLIF(p_payload->>'manual_status_expires_at', '')::date,
+    department               = p_payload->>'department',
+    program_id               = NULLIF(p_payload->>'program_id', '')::uuid,
+    revision                 = revision + 1
+  WHERE id = p_project_id
+  RETURNING revision INTO v_revision;
+
+  -- ── milestones + tasks ─────────────────────────────────────────────────────
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(COALESCE(p_payload->'milestones', '[]'::jsonb))
+  LOOP
+    v_client_id := v_item->>'id';
+    v_ms_id := NULL;
+
+    IF v_client_id ~* v_uuid_re THEN
+      UPDATE public.milestones SET
+        date       = (v_item->>'date')::date,
+        end_date   = NULLIF(v_item->>'end_date', '')::date,
+        milestone  = COALESCE(v_item->>'milestone', ''),
+        owner      = COALESCE(v_item->>'owner', ''),
+        completion = COALESCE((v_item->>'completion')::int, 0),
+        status     = COALESCE(v_item->>'status', 'green'),
+        weight     = COALESCE((v_item->>'weight')::int, 3),
+        forecast_date   = COALESCE(NULLIF(v_item->>'forecast_date', '')::date, forecast_date),
+        -- A moved forecast takes its reason from this save only, so
+        -- stamp_milestone_forecast rejects a move without one
+        forecast_reason = CASE
+          WHEN COALESCE(NULLIF(v_item->>'forecast_date', '')::date, forecast_date)
+               IS DISTINCT FROM forecast_date
+          THEN NULLIF(btrim(v_item->>'forecast_reason'), '')
+          ELSE forecast_reason
+        END
+      WHERE id = v_client_id::uuid AND project_id = p_project_id
+      RETURNING id INTO v_ms_id;
+    END IF;
+
+    IF v_ms_id IS NULL THEN
+      -- Keep a browser-generated UUID when it is free so references created
+      -- before the first save (e.g. auto-copied accomplishments) stay valid.
+      INSERT INTO public.milestones (
+        id, project_id, date, end_date, milestone, owner, completion, status, weight,
+        forecast_date, forecast_reason
+      ) VALUES (
+        CASE
+          WHEN v_client_id ~* v_uuid_re
+            AND NOT EXISTS (SELECT 1 FROM public.milestones WHERE id = v_client_id::uuid)
+          THEN v_client_id::uuid
+          ELSE gen_random_uuid()
+        END,
+        p_project_id,
+        (v_item->>'date')::date,
+        NULLIF(v_item->>'end_date', '')::date,
+        COALESCE(v_item->>'milestone', ''),
+        COALESCE(v_item->>'owner', ''),
+        COALESCE((v_item->>'completion')::int, 0),
+        COALESCE(v_item->>'status', 'green'),
+        COALESCE((v_item->>'weight')::int, 3),
+        NULLIF(v_item->>'forecast_date', '')::date,
+        NULLIF(btrim(v_item->>'forecast_reason'), '')
+      )
+      RETURNING id INTO v_ms_id;
+    END IF;
+
+    IF v_client_id IS NOT NULL THEN
+      v_id_map := v_id_map || jsonb_build_object(v_client_id, v_ms_id::text);
+    END IF;
+    v_kept_ms := v_kept_ms || v_ms_id;
+
+    FOR v_task IN
+      SELECT value FROM jsonb_array_elements(COALESCE(v_item->'tasks', '[]'::jsonb))
+    LOOP
+      v_client_id := v_task->>'id';
+      v_row_id := NULL;
+
+      IF v_client_id ~* v_uuid_re THEN
+        UPDATE public.tasks SET
+          milestone_id  = v_ms_id,
+          description   = COALESCE(v_task->>'description', ''),
+          assignee      = COALESCE(NULLIF(v_task->>'assignee', ''), v_item->>'owner'),
+          date          = NULLIF(v_task->>'date', '')::date,
+          completion    = COALESCE((v_task->>'completion')::int, 0),
+          duration_days = COALESCE((v_task->>'duration_days')::int, 1),
+          allocation_percent = (NULLIF(v_task->>'allocation_percent', ''))::numeric,
+          allocation_hours   = (NULLIF(v_task->>'allocation_hours', ''))::numeric
+        WHERE id = v_client_id::uuid AND project_id = p_project_id
+        RETURNING id INTO v_row_id;
+      END IF;
+
+      IF v_row_id IS NULL THEN
+        INSERT INTO public.tasks (
+          id, project_id, milestone_id, description, assignee, date, completion, duration_days,
+          allocation_percent, allocation_hours
+        ) VALUES (
+          CASE
+            WHEN v_client_id ~* v_uuid_re
+              AND NOT EXISTS (SELECT 1 FROM public.tasks WHERE id = v_client_id::uuid)
+            THEN v_client_id::uuid
+            ELSE gen_random_uuid()
+          END,
+          p_project_id,
+          v_ms_id,
+          COALESCE(v_task->>'description', ''),
+          COALESCE(NULLIF(v_task->>'assignee', ''), v_item->>'owner'),
+          NULLIF(v_task->>'date', '')::date,
+          COALESCE((v_task->>'completion')::int, 0),
+          COALESCE((v_task->>'duration_days')::int, 1),
+          (NULLIF(v_task->>'allocation_percent', ''))::numeric,
+          (NULLIF(v_task->>'allocation_hours', ''))::numeric
+        )
+        RETURNING id INTO v_row_id;
+      END IF;
+
+      IF v_client_id IS NOT NULL THEN
+        v_id_map := v_id_map || jsonb_build_object(v_client_id, v_row_id::text);
+      END IF;
+      v_kept_task := v_kept_task || v_row_id;
+    END LOOP;
+  END LOOP;
+
+  DELETE FROM public.tasks
+  WHERE project_id = p_project_id AND NOT (id = ANY (v_kept_task));
+
+  DELETE FROM public.milestones
+  WHERE project_id = p_project_id AND NOT (id = ANY (v_kept_ms));
+
+  -- ── schedule dependencies ──────────────────────────────────────────────────
+  -- Endpoints may still carry temporary client ids, so remap them through
+  -- v_id_map. Links whose endpoints were not saved above are dropped.
+  v_kept := '{}';
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(COALESCE(p_payload->'dependencies', '[]'::jsonb))
+  LOOP
+    v_client_id := v_item->>'id';
+    v_row_id := NULL;
+    v_pred_ref := COALESCE(v_id_map->>(v_item->>'predecessor_id'), v_item->>'predecessor_id');
+    v_succ_ref := COALESCE(v_id_map->>(v_item->>'successor_id'), v_item->>'successor_id');
+
+    CONTINUE WHEN v_pred_ref IS NULL OR v_succ_ref IS NULL
+      OR NOT (v_pred_ref ~* v_uuid_re) OR NOT (v_succ_ref ~* v_uuid_re);
+    v_pred_id := v_pred_ref::uuid;
+    v_succ_id := v_succ_ref::uuid;
+
+    CONTINUE WHEN v_pred_id = v_succ_id;
+    CONTINUE WHEN NOT (
+      CASE v_item->>'predecessor_type'
+        WHEN 'milestone' THEN v_pred_id = ANY (v_kept_ms)
+        WHEN 'task'      THEN v_pred_id = ANY (v_kept_task)
+        ELSE false
+      END
+    );
+    CONTINUE WHEN NOT (
+      CASE v_item->>'successor_type'
+        WHEN 'milestone' THEN v_succ_id = ANY (v_kept_ms)
+        WHEN 'task'      THEN v_succ_id = ANY (v_kept_task)
+        ELSE false
+      END
+    );
+    -- One link per predecessor/successor pair
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM public.schedule_dependencies d
+      WHERE d.id = ANY (v_kept)
+        AND d.predecessor_id = v_pred_id AND d.successor_id = v_succ_id
+    );
+
+    -- A link for this pair may already exist under another id
+    DELETE FROM public.schedule_dependencies
+    WHERE project_id = p_project_id
+      AND predecessor_id = v_pred_id AND successor_id = v_succ_id
+      AND id::text IS DISTINCT FROM v_client_id;
+
+    IF v_client_id ~* v_uuid_re THEN
+      UPDATE public.schedule_dependencies SET
+        predecessor_type = v_item->>'predecessor_type',
+        predecessor_id   = v_pred_id,
+        successor_type   = v_item->>'successor_type',
+        successor_id     = v_succ_id,
+        dependency_type  = COALESCE(NULLIF(v_item->>'dependency_type', ''), 'FS'),
+        lag_days         = COALESCE((v_item->>'lag_days')::int, 0),
+        updated_at       = now()
+      WHERE id = v_client_id::uuid AND project_id = p_project_id
+      RETURNING id INTO v_row_id;
+    END IF;
+
+    IF v_row_id IS NULL THEN
+      INSERT INTO public.schedule_dependencies (
+        project_id, predecessor_type, predecessor_id, successor_type, successor_id,
+        dependency_type, lag_days
+      ) VALUES (
+        p_project_id,
+        v_item->>'predecessor_type',
+        v_pred_id,
+        v_item->>'successor_type',
+        v_succ_id,
+        COALESCE(NULLIF(v_item->>'dependency_type', ''), 'FS'),
+        COALESCE((v_item->>'lag_days')::int, 0)
+      )
+      RETURNING id INTO v_row_id;
+    END IF;
+    v_kept := v_kept || v_row_id;
+  END LOOP;
+
+  DELETE FROM public.schedule_dependencies
+  WHERE project_id = p_project_id AND NOT (id = ANY (v_kept));
+
+  -- ── accomplishments ────────────────────────────────────────────────────────
+  v_kept := '{}';
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(COALESCE(p_payload->'accomplishments', '[]'::jsonb))
+  LOOP
+    v_client_id := v_item->>'id';
+    v_row_id := NULL;
+    -- Remap source ids that pointed at a temporary milestone/task id.
+    v_source_id := COALESCE(v_id_map->>(v_item->>'source_id'), v_item->>'source_id');
+
+    IF v_client_id ~* v_uuid_re THEN
+      UPDATE public.accomplishments SET
+        description    = COALESCE(v_item->>'description', ''),
+        source_type    = COALESCE(v_item->>'source_type', 'manual'),
+        source_id      = v_source_id,
+        is_hidden      = COALESCE((v_item->>'is_hidden')::boolean, false),
+        is_deleted     = COALESCE((v_item->>'is_deleted')::boolean, false),
+        auto_generated = COALESCE((v_item->>'auto_generated')::boolean, false)
+      WHERE id = v_client_id::uuid AND project_id = p_project_id
+      RETURNING id INTO v_row_id;
+    END IF;
+
+    IF v_row_id IS NULL THEN
+      INSERT INTO public.accomplishments (
+        project_id, description, source_type, source_id, is_hidden, is_deleted, auto_generated
+      ) VALUES (
+        p_project_id,
+        COALESCE(v_item->>'description', ''),
+        COALESCE(v_item->>'source_type', 'manual'),
+        v_source_id,
+        COALESCE((v_item->>'is_hidden')::boolean, false),
+        COALESCE((v_item->>'is_deleted')::boolean, false),
+        COALESCE((v_item->>'auto_generated')::boolean, false)
+      )
+      RETURNING id INTO v_row_id;
+    END IF;
+    v_kept := v_kept || v_row_id;
+  END LOOP;
+
+  DELETE FROM public.accomplishments
+  WHERE project_id = p_project_id AND NOT (id = ANY (v_kept));
+
+  -- ── next period activities ─────────────────────────────────────────────────
+  v_kept := '{}';
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(COALESCE(p_payload->'next_period_activities', '[]'::jsonb))
+  LOOP
+    v_client_id := v_item->>'id';
+    v_row_id := NULL;
+
+    IF v_client_id ~* v_uuid_re THEN
+      UPDATE public.next_period_activities SET
+        description    = COALESCE(v_item->>'description', ''),
+        date           = COALESCE(NULLIF(v_item->>'date', '')::date, CURRENT_DATE),
+        completion     = COALESCE((v_item->>'completion')::int, 0),
+        assignee       = COALESCE(v_item->>'assignee', ''),
+        sub_activities = COALESCE(v_item->'sub_activities', '[]'::jsonb),
+        allocation_percent = (NULLIF(v_item->>'allocation_percent', ''))::numeric,
+        allocation_hours   = (NULLIF(v_item->>'allocation_hours', ''))::numeric
+      WHERE id = v_client_id::uuid AND project_id = p_project_id
+      RETURNING id INTO v_row_id;
+    END IF;
+
+    IF v_row_id IS NULL THEN
+      INSERT INTO public.next_period_activities (
+        project_id, description, date, completion, assignee, sub_activities,
+        allocation_percent, allocation_hours
+      ) VALUES (
+        p_project_id,
+        COALESCE(v_item->>'description', ''),
+        COALESCE(NULLIF(v_item->>'date', '')::date, CURRENT_DATE),
+        COALESCE((v_item->>'completion')::int, 0),
+        COALESCE(v_item->>'assignee', ''),
+        COALESCE(v_item->'sub_activities', '[]'::jsonb),
+        (NULLIF(v_item->>'allocation_percent', ''))::numeric,
+        (NULLIF(v_item->>'allocation_hours', ''))::numeric
+      )
+      RETURNING id INTO v_row_id;
+    END IF;
+    v_kept := v_kept || v_row_id;
+  END LOOP;
+
+  DELETE FROM public.next_period_activities
+  WHERE project_id = p_project_id AND NOT (id = ANY (v_kept));
+
+  -- ── risks ──────────────────────────────────────────────────────────────────
+  -- owner_id is resolved from the owner's display name against directory_users;
+  -- realized_change_id is only kept when it points at a change of this project.
+  v_kept := '{}';
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(COALESCE(p_payload->'risks', '[]'::jsonb))
+  LOOP
+    v_client_id := v_item->>'id';
+    v_row_id := NULL;
+
+    IF v_client_id ~* v_uuid_re THEN
+      UPDATE public.risks SET
+        description        = COALESCE(v_item->>'description', ''),
+        impact             = NULLIF(v_item->>'impact', ''),
+        probability        = (v_item->>'probability')::smallint,
+        impact_score       = (v_item->>'impact_score')::smallint,
+        owner              = NULLIF(btrim(v_item->>'owner'), ''),
+        owner_id           = (
+          SELECT du.id FROM public.directory_users du
+          WHERE lower(du.display_name) = lower(btrim(v_item->>'owner'))
+          LIMIT 1
+        ),
+        mitigation_plan    = NULLIF(v_item->>'mitigation_plan', ''),
+        trigger_date       = NULLIF(v_item->>'trigger_date', '')::date,
+        status             = COALESCE(NULLIF(v_item->>'status', ''), 'open'),
+        realized_change_id = (
+          SELECT ch.id FROM public.changes ch
+          WHERE ch.id::text = v_item->>'realized_change_id'
+            AND ch.project_id = p_project_id
+        )
+      WHERE id = v_client_id::uuid AND project_id = p_project_id
+      RETURNING id INTO v_row_id;
+    END IF;
+
+    IF v_row_id IS NULL THEN
+      INSERT INTO public.risks (
+        project_id, description, impact, probability, impact_score, owner, owner_id,
+        mitigation_plan, trigger_date, status, realized_change_id
+      ) VALUES (
+        p_project_id,
+        COALESCE(v_item->>'description', ''),
+        NULLIF(v_item->>'impact', ''),
+        (v_item->>'probability')::smallint,
+        (v_item->>'impact_score')::smallint,
+        NULLIF(btrim(v_item->>'owner'), ''),
+        (
+          SELECT du.id FROM public.directory_users du
+          WHERE lower(du.display_name) = lower(btrim(v_item->>'owner'))
+          LIMIT 1
+        ),
+        NULLIF(v_item->>'mitigation_plan', ''),
+        NULLIF(v_item->>'trigger_date', '')::date,
+        COALESCE(NULLIF(v_item->>'status', ''), 'open'),
+        (
+          SELECT ch.id FROM public.changes ch
+          WHERE ch.id::text = v_item->>'realized_change_id'
+            AND ch.project_id = p_project_id
+        )
+      )
+      RETURNING id INTO v_row_id;
+    END IF;
+    v_kept := v_kept || v_row_id;
+  END LOOP;
+
+  DELETE FROM public.risks
+  WHERE project_id = p_project_id AND NOT (id = ANY (v_kept));
+
+  -- ── considerations ─────────────────────────────────────────────────────────
+  -- Considerations travel as plain strings (no ids), so match unchanged text to
+  -- an existing row first and only insert/delete what actually changed.
+  v_kept := '{}';
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(COALESCE(p_payload->'considerations', '[]'::jsonb))
+  LOOP
+    SELECT c.id INTO v_row_id
+    FROM public.considerations c
+    WHERE c.project_id = p_project_id
+      AND c.description = (v_item #>> '{}')
+      AND NOT (c.id = ANY (v_kept))
+    ORDER BY c.created_at
+    LIMIT 1;
+
+    IF v_row_id IS NULL THEN
+      INSERT INTO public.considerations (project_id, description)
+      VALUES (p_project_id, COALESCE(v_item #>> '{}', ''))
+      RETURNING id INTO v_row_id;
+    END IF;
+    v_kept := v_kept || v_row_id;
+  END LOOP;
+
+  DELETE FROM public.considerations
+  WHERE project_id = p_project_id AND NOT (id = ANY (v_kept));
+
+  -- ── changes ────────────────────────────────────────────────────────────────
+  -- Only draft change requests are written here. Submitted and decided ones
+  -- move through transition_change_request and are never deleted by a save.
+  v_kept := '{}';
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(COALESCE(p_payload->'changes', '[]'::jsonb))
+  LOOP
+    v_client_id := v_item->>'id';
+    v_row_id := NULL;
+
+    -- Affected milestones may be new this save; resolve them via v_id_map
+    -- and drop any that were not saved above.
+    v_ms_refs := ARRAY(
+      SELECT ms FROM unnest(v_kept_ms) ms
+      WHERE ms::text IN (
+        SELECT COALESCE(v_id_map->>ref, ref)
+        FROM jsonb_array_elements_text(COALESCE(v_item->'affected_milestone_ids', '[]'::jsonb)) ref
+      )
+    );
+
+    IF v_client_id ~* v_uuid_re THEN
+      SELECT id INTO v_row_id
+      FROM public.changes
+      WHERE id = v_client_id::uuid AND project_id = p_project_id AND status <> 'draft';
+
+      IF v_row_id IS NULL THEN
+        UPDATE public.changes SET
+          change                 = COALESCE(v_item->>'change', ''),
+          impact                 = v_item->>'impact',
+          disposition            = v_item->>'disposition',
+          requested_by           = NULLIF(btrim(v_item->>'requested_by'), ''),
+          budget_delta           = COALESCE((v_item->>'budget_delta')::numeric, 0),
+          schedule_delta_days    = COALESCE((v_item->>'schedule_delta_days')::int, 0),
+          affected_milestone_ids = v_ms_refs
+        WHERE id = v_client_id::uuid AND project_id = p_project_id
+        RETURNING id INTO v_row_id;
+      END IF;
+    END IF;
+
+    IF v_row_id IS NULL THEN
+      INSERT INTO public.changes (
+        project_id, change, impact, disposition, requested_by, budget_delta,
+        schedule_delta_days, affected_milestone_ids
+      ) VALUES (
+        p_project_id,
+        COALESCE(v_item->>'change', ''),
+        v_item->>'impact',
+        v_item->>'disposition',
+        NULLIF(btrim(v_item->>'requested_by'), ''),
+        COALESCE((v_item->>'budget_delta')::numeric, 0),
+        COALESCE((v_item->>'schedule_delta_days')::int, 0),
+        v_ms_refs
+      )
+      RETURNING id INTO v_row_id;
+    END IF;
+    v_kept := v_kept || v_row_id;
+  END LOOP;
+
+  DELETE FROM public.changes
+  WHERE project_id = p_project_id AND status = 'draft' AND NOT (id = ANY (v_kept));
+
+  -- ── issues ─────────────────────────────────────────────────────────────────
+  v_kept := '{}';
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(COALESCE(p_payload->'issues', '[]'::jsonb))
+  LOOP
+    v_client_id := v_item->>'id';
+    v_row_id := NULL;
+
+    IF v_client_id ~* v_uuid_re THEN
+      UPDATE public.issues SET
+        description      = COALESCE(v_item->>'description', ''),
+        severity         = COALESCE(NULLIF(v_item->>'severity', ''), 'medium'),
+        owner            = NULLIF(btrim(v_item->>'owner'), ''),
+        due_date         = NULLIF(v_item->>'due_date', '')::date,
+        escalation_level = COALESCE(NULLIF(v_item->>'escalation_level', ''), 'project'),
+        status           = COALESCE(NULLIF(v_item->>'status', ''), 'open'),
+        resolution       = NULLIF(v_item->>'resolution', ''),
+        updated_at       = now()
+      WHERE id = v_client_id::uuid AND project_id = p_project_id
+      RETURNING id INTO v_row_id;
+    END IF;
+
+    IF v_row_id IS NULL THEN
+      INSERT INTO public.issues (
+        project_id, description, severity, owner, due_date, escalation_level,
+        status, resolution
+      ) VALUES (
+        p_project_id,
+        COALESCE(v_item->>'description', ''),
+        COALESCE(NULLIF(v_item->>'severity', ''), 'medium'),
+        NULLIF(btrim(v_item->>'owner'), ''),
+        NULLIF(v_item->>'due_date', '')::date,
+        COALESCE(NULLIF(v_item->>'escalation_level', ''), 'project'),
+        COALESCE(NULLIF(v_item->>'status', ''), 'open'),
+        NULLIF(v_item->>'resolution', '')
+      )
+      RETURNING id INTO v_row_id;
+    END IF;
+    v_kept := v_kept || v_row_id;
+  END LOOP;
+
+  DELETE FROM public.issues
+  WHERE project_id = p_project_id AND NOT (id = ANY (v_kept));
+
+  -- ── decisions ──────────────────────────────────────────────────────────────
+  -- Milestone links may point at milestones first saved above, so resolve
+  -- them through v_id_map like dependencies do.
+  v_kept := '{}';
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(COALESCE(p_payload->'decisions', '[]'::jsonb))
+  LOOP
+    v_client_id := v_item->>'id';
+    v_row_id := NULL;
+
+    v_links := COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'type', link->>'type',
+        'id',   CASE WHEN link->>'type' = 'milestone'
+                  THEN COALESCE(v_id_map->>(link->>'id'), link->>'id')
+                  ELSE link->>'id' END
+      ))
+      FROM jsonb_array_elements(COALESCE(v_item->'linked_items', '[]'::jsonb)) link
+      WHERE link->>'type' IN ('risk', 'issue', 'change', 'milestone')
+    ), '[]'::jsonb);
+
+    IF v_client_id ~* v_uuid_re THEN
+      UPDATE public.decisions SET
+        decision      = COALESCE(v_item->>'decision', ''),
+        decision_date = NULLIF(v_item->>'decision_date', '')::date,
+        decided_by    = NULLIF(btrim(v_item->>'decided_by'), ''),
+        rationale     = NULLIF(v_item->>'rationale', ''),
+        linked_items  = v_links,
+        updated_at    = now()
+      WHERE id = v_client_id::uuid AND project_id = p_project_id
+      RETURNING id INTO v_row_id;
+    END IF;
+
+    IF v_row_id IS NULL THEN
+      INSERT INTO public.decisions (
+        project_id, decision, decision_date, decided_by, rationale, linked_items
+      ) VALUES (
+        p_project_id,
+        COALESCE(v_item->>'decision', ''),
+        NULLIF(v_item->>'decision_date', '')::date,
+        NULLIF(btrim(v_item->>'decided_by'), ''),
+        NULLIF(v_item->>'rationale', ''),
+        v_links
+      )
+      RETURNING id INTO v_row_id;
+    END IF;
+    v_kept := v_kept || v_row_id;
+  END LOOP;
+
+  DELETE FROM public.decisions
+  WHERE project_id = p_project_id AND NOT (id = ANY (v_kept));
+
+  RETURN jsonb_build_object(
+    'project_id', p_project_id,
+    'id_map',     v_id_map,
+    'revision',   v_revision
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.save_project_with_relations(UUID, JSONB, INTEGER) TO authenticated;
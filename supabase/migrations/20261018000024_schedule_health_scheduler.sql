@@ -0,0 +1,62 @@
+-- Nightly health recalculation.
+-- The health-scheduler edge function recalculates durations and health colors
+-- of every open project; days remaining change daily, so it has to run every
+-- night rather than only when an administrator presses "Recalculate now".
+--
+-- pg_cron fires invoke_health_scheduler(), which calls the function over HTTP
+-- through pg_net. The project URL and service role key are read from Supabase
+-- Vault (secrets 'project_url' and 'service_role_key'); without them the call
+-- is skipped with a notice. The job runs at 00:15, after the day has turned
+-- and before capture-project-health records the next day's snapshots.
+
+CREATE OR REPLACE FUNCTION public.invoke_health_scheduler()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_project_url TEXT;
+  v_service_key TEXT;
+BEGIN
+  SELECT decrypted_secret INTO v_project_url
+  FROM vault.decrypted_secrets WHERE name = 'project_url';
+  SELECT decrypted_secret INTO v_service_key
+  FROM vault.decrypted_secrets WHERE name = 'service_role_key';
+
+  IF v_project_url IS NULL OR v_service_key IS NULL THEN
+    RAISE NOTICE 'Health scheduler not invoked: vault secrets project_url and service_role_key are required';
+    RETURN;
+  END IF;
+
+  PERFORM net.http_post(
+    url     := rtrim(v_project_url, '/') || '/functions/v1/supabase-functions-health-scheduler',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || v_service_key
+    ),
+    body    := '{}'::jsonb,
+    timeout_milliseconds := 300000
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.invoke_health_scheduler() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.invoke_health_scheduler() TO service_role;
+
+COMMENT ON FUNCTION public.invoke_health_scheduler() IS 'Calls the health-scheduler edge function. Called by pg_cron nightly.';
+
+-- ── schedule ─────────────────────────────────────────────────────────────────
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+     AND EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+    PERFORM cron.unschedule(jobid) FROM cron.job WHERE jobname = 'nightly-health-recalculation';
+    PERFORM cron.schedule(
+      'nightly-health-recalculation',
+      '15 0 * * *',  -- Daily at 00:15
+      'SELECT public.invoke_health_scheduler()'
+    );
+  END IF;
+END;
+$$;
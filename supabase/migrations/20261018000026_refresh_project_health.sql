@@ -0,0 +1,97 @@
+-- Nightly health refresh without touching updated_at.
+-- projects.updated_at is kept by the handle_updated_at trigger (moddatetime),
+-- so every duration, color and flag the health scheduler wrote made each open
+-- project look edited that night. The trigger now leaves updated_at alone
+-- while app.refreshing_project_health is on for the transaction, and
+-- refresh_project_health() does all of the scheduler's writes for one project
+-- with it on.
+
+-- ── handle_updated_at ────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.touch_project_updated_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(current_setting('app.refreshing_project_health', true), 'off') <> 'on' THEN
+    NEW.updated_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS handle_updated_at ON public.projects;
+CREATE TRIGGER handle_updated_at
+  BEFORE UPDATE ON public.projects
+  FOR EACH ROW
+  EXECUTE FUNCTION public.touch_project_updated_at();
+
+-- ── refresh_project_health ───────────────────────────────────────────────────
+-- Writes the durations the scheduler calculated (when they differ), refreshes
+-- computed_status_color and flags a color change. Returns whether durations
+-- changed and the color before and after.
+CREATE OR REPLACE FUNCTION public.refresh_project_health(
+  p_project_id UUID,
+  p_duration   JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_before            TEXT;
+  v_after             TEXT;
+  v_durations_updated BOOLEAN := false;
+BEGIN
+  PERFORM set_config('app.refreshing_project_health', 'on', true);
+
+  SELECT computed_status_color INTO v_before
+  FROM public.projects WHERE id = p_project_id;
+
+  UPDATE public.projects SET
+    calculated_start_date  = (p_duration->>'calculated_start_date')::date,
+    calculated_end_date    = (p_duration->>'calculated_end_date')::date,
+    total_days             = (p_duration->>'total_days')::integer,
+    working_days           = (p_duration->>'working_days')::integer,
+    total_days_remaining   = (p_duration->>'total_days_remaining')::integer,
+    working_days_remaining = (p_duration->>'working_days_remaining')::integer
+  WHERE id = p_project_id
+    AND (calculated_start_date, calculated_end_date, total_days, working_days,
+         total_days_remaining, working_days_remaining)
+        IS DISTINCT FROM
+        ((p_duration->>'calculated_start_date')::date,
+         (p_duration->>'calculated_end_date')::date,
+         (p_duration->>'total_days')::integer,
+         (p_duration->>'working_days')::integer,
+         (p_duration->>'total_days_remaining')::integer,
+         (p_duration->>'working_days_remaining')::integer);
+  v_durations_updated := FOUND;
+
+  -- Also catches projects whose start date has just passed
+  PERFORM public.update_project_computed_status_color(p_project_id);
+
+  SELECT computed_status_color INTO v_after
+  FROM public.projects WHERE id = p_project_id;
+
+  IF v_after IS DISTINCT FROM v_before THEN
+    UPDATE public.projects
+    SET previous_computed_status_color = v_before,
+        computed_status_changed_at     = now()
+    WHERE id = p_project_id;
+  END IF;
+
+  PERFORM set_config('app.refreshing_project_health', 'off', true);
+
+  RETURN jsonb_build_object(
+    'durations_updated', v_durations_updated,
+    'previous_color',    v_before,
+    'color',             v_after
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_project_health(UUID, JSONB) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.refresh_project_health(UUID, JSONB) TO service_role;
+
+COMMENT ON FUNCTION public.refresh_project_health(UUID, JSONB) IS 'Nightly duration and health color refresh of one project; leaves updated_at alone. Called by the health-scheduler edge function.';
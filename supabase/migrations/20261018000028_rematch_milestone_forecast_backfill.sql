@@ -0,0 +1,188 @@
+-- Re-run the milestone forecast backfill, following milestones across versions.
+-- 20261018000023 joined snapshot milestones to milestones by id, but milestone
+-- ids changed on every save until save_project_with_relations kept them, so
+-- most of the history it was meant to recover matched nothing. Versions are
+-- now walked newest first within each project, and each snapshot milestone is
+-- matched to one in the next newer version (the current milestones, in
+-- creation order, for the newest) by id, then by name, then by position.
+-- traceMilestoneFinishes in src/lib/services/milestoneForecasts.ts does the
+-- same and is where the matching is tested.
+
+-- ── trace finish dates ───────────────────────────────────────────────────────
+CREATE TEMP TABLE milestone_finish_traces (
+  milestone_id UUID NOT NULL,
+  project_id   UUID NOT NULL,
+  created_at   TIMESTAMPTZ NOT NULL,
+  created_by   UUID,
+  finish       DATE NOT NULL
+) ON COMMIT DROP;
+
+DO $$
+DECLARE
+  v_project_id UUID;
+  v_version    RECORD;
+  v_newer      JSONB;
+  v_next       JSONB;
+  v_entry      JSONB;
+  v_name       TEXT;
+  v_current    TEXT;
+  v_finish     TEXT;
+  v_matches    INTEGER[];
+  v_taken      BOOLEAN[];
+  n            INTEGER;
+  m            INTEGER;
+BEGIN
+  FOR v_project_id IN
+    SELECT DISTINCT project_id FROM public.project_versions WHERE project_id IS NOT NULL
+  LOOP
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+             'id', ml.id::text,
+             'name', lower(btrim(COALESCE(ml.milestone, ''))),
+             'current', ml.id::text
+           ) ORDER BY ml.created_at, ml.id), '[]'::jsonb)
+    INTO v_newer
+    FROM public.milestones ml
+    WHERE ml.project_id = v_project_id;
+
+    FOR v_version IN
+      SELECT
+        pv.created_at,
+        pv.created_by,
+        CASE WHEN jsonb_typeof(pv.data->'milestones') = 'array'
+          THEN pv.data->'milestones' ELSE '[]'::jsonb END AS milestones
+      FROM public.project_versions pv
+      WHERE pv.project_id = v_project_id
+      ORDER BY pv.created_at DESC
+    LOOP
+      n := jsonb_array_length(v_version.milestones);
+      m := jsonb_array_length(v_newer);
+      v_matches := array_fill(NULL::INTEGER, ARRAY[GREATEST(n, 1)]);
+      v_taken := array_fill(false, ARRAY[GREATEST(m, 1)]);
+
+      -- By id
+      FOR i IN 0..n - 1 LOOP
+        v_entry := v_version.milestones->i;
+        CONTINUE WHEN COALESCE(v_entry->>'id', '') = '';
+        FOR j IN 0..m - 1 LOOP
+          IF NOT v_taken[j + 1] AND v_newer->j->>'id' = v_entry->>'id' THEN
+            v_taken[j + 1] := true;
+            v_matches[i + 1] := j;
+            EXIT;
+          END IF;
+        END LOOP;
+      END LOOP;
+
+      -- By name
+      FOR i IN 0..n - 1 LOOP
+        CONTINUE WHEN v_matches[i + 1] IS NOT NULL;
+        v_name := lower(btrim(COALESCE(v_version.milestones->i->>'milestone', '')));
+        CONTINUE WHEN v_name = '';
+        FOR j IN 0..m - 1 LOOP
+          IF NOT v_taken[j + 1] AND v_newer->j->>'name' = v_name THEN
+            v_taken[j + 1] := true;
+            v_matches[i + 1] := j;
+            EXIT;
+          END IF;
+        END LOOP;
+      END LOOP;
+
+      -- By position
+      FOR i IN 0..LEAST(n, m) - 1 LOOP
+        IF v_matches[i + 1] IS NULL AND NOT v_taken[i + 1] THEN
+          v_taken[i + 1] := true;
+          v_matches[i + 1] := i;
+        END IF;
+      END LOOP;
+
+      v_next := '[]'::jsonb;
+      FOR i IN 0..n - 1 LOOP
+        v_entry := v_version.milestones->i;
+        v_current := CASE WHEN v_matches[i + 1] IS NULL THEN NULL
+                          ELSE v_newer->(v_matches[i + 1])->>'current' END;
+        v_finish := left(COALESCE(NULLIF(v_entry->>'end_date', ''), v_entry->>'date'), 10);
+
+        IF v_current IS NOT NULL AND v_finish ~ '^\d{4}-\d{2}-\d{2}$' THEN
+          INSERT INTO milestone_finish_traces (milestone_id, project_id, created_at, created_by, finish)
+          VALUES (v_current::uuid, v_project_id, v_version.created_at, v_version.created_by, v_finish::date);
+        END IF;
+
+        v_next := v_next || jsonb_build_array(jsonb_build_object(
+          'id', v_entry->>'id',
+          'name', lower(btrim(COALESCE(v_entry->>'milestone', ''))),
+          'current', v_current
+        ));
+      END LOOP;
+      v_newer := v_next;
+    END LOOP;
+  END LOOP;
+END;
+$$;
+
+-- ── forecast changes ─────────────────────────────────────────────────────────
+DELETE FROM public.milestone_forecast_changes WHERE source = 'backfill';
+
+INSERT INTO public.milestone_forecast_changes (
+  milestone_id, project_id, previous_forecast_date, forecast_date,
+  reason, source, changed_by, changed_by_name, changed_at
+)
+SELECT
+  s.milestone_id, s.project_id, s.previous_finish, s.finish,
+  'Recorded before forecasts were tracked', 'backfill',
+  s.created_by,
+  (SELECT COALESCE(NULLIF(btrim(full_name), ''), email) FROM public.profiles WHERE id = s.created_by),
+  s.created_at
+FROM (
+  SELECT
+    milestone_id, project_id, created_at, created_by, finish,
+    lag(finish) OVER (PARTITION BY milestone_id ORDER BY created_at) AS previous_finish
+  FROM milestone_finish_traces
+) s
+WHERE s.previous_finish IS NOT NULL
+  AND s.finish IS DISTINCT FROM s.previous_finish;
+
+-- A date changed after the last saved version. The forecast the first
+-- backfill started from is the one before the first tracked move, if any.
+INSERT INTO public.milestone_forecast_changes (
+  milestone_id, project_id, previous_forecast_date, forecast_date, reason, source, changed_at
+)
+SELECT
+  ml.id, ml.project_id, last.finish, COALESCE(first_edit.previous_forecast_date, ml.forecast_date),
+  'Recorded before forecasts were tracked', 'backfill',
+  COALESCE(LEAST(ml.updated_at, first_edit.changed_at), now())
+FROM public.milestones ml
+JOIN LATERAL (
+  SELECT finish FROM milestone_finish_traces t
+  WHERE t.milestone_id = ml.id
+  ORDER BY t.created_at DESC
+  LIMIT 1
+) last ON true
+LEFT JOIN LATERAL (
+  SELECT previous_forecast_date, changed_at FROM public.milestone_forecast_changes c
+  WHERE c.milestone_id = ml.id AND c.source = 'edit'
+  ORDER BY c.changed_at
+  LIMIT 1
+) first_edit ON true
+WHERE COALESCE(first_edit.previous_forecast_date, ml.forecast_date) IS NOT NULL
+  AND COALESCE(first_edit.previous_forecast_date, ml.forecast_date) IS DISTINCT FROM last.finish;
+
+-- ── planned dates ────────────────────────────────────────────────────────────
+-- Only milestones with history from before their row was created (re-created
+-- by a save) were planned from the wrong snapshot. The planned date is fixed
+-- by stamp_milestone_forecast, and this is not an edit by a person, so both
+-- triggers are off for the update.
+ALTER TABLE public.milestones DISABLE TRIGGER trg_milestones_stamp_forecast;
+ALTER TABLE public.milestones DISABLE TRIGGER touch_project_meaningful_update;
+
+UPDATE public.milestones ml
+SET planned_date = earliest.finish
+FROM (
+  SELECT DISTINCT ON (milestone_id) milestone_id, finish, created_at
+  FROM milestone_finish_traces
+  ORDER BY milestone_id, created_at
+) earliest
+WHERE earliest.milestone_id = ml.id
+  AND earliest.created_at < ml.created_at
+  AND ml.planned_date IS DISTINCT FROM earliest.finish;
+
+ALTER TABLE public.milestones ENABLE TRIGGER touch_project_meaningful_update;
+ALTER TABLE public.milestones ENABLE TRIGGER trg_milestones_stamp_forecast;
@@ -0,0 +1,44 @@
+-- Record schedule edits as forecast moves.
+-- Changing a milestone's date/end_date in the project form left forecast_date
+-- where it was, so the finish moved without a forecast change on record. When
+-- an update moves the finish but not the forecast, the forecast now follows
+-- the finish, and log_milestone_forecast_change records the move.
+
+-- ── forecast stamping ────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.stamp_milestone_forecast()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.planned_date  := COALESCE(NEW.planned_date, NEW.end_date, NEW.date);
+    NEW.forecast_date := COALESCE(NEW.forecast_date, NEW.planned_date);
+    RETURN NEW;
+  END IF;
+
+  NEW.planned_date  := COALESCE(OLD.planned_date, NEW.planned_date, NEW.end_date, NEW.date);
+  NEW.forecast_date := COALESCE(NEW.forecast_date, OLD.forecast_date, NEW.planned_date);
+
+  -- A finish moved without moving the forecast (e.g. a form edit of the dates)
+  IF COALESCE(NEW.end_date, NEW.date) IS DISTINCT FROM COALESCE(OLD.end_date, OLD.date)
+     AND NEW.forecast_date IS NOT DISTINCT FROM OLD.forecast_date
+     AND COALESCE(NEW.end_date, NEW.date) IS DISTINCT FROM NEW.forecast_date THEN
+    NEW.forecast_date   := COALESCE(NEW.end_date, NEW.date);
+    NEW.forecast_reason := format(
+      'Finish date changed from %s to %s',
+      to_char(COALESCE(OLD.end_date, OLD.date), 'YYYY-MM-DD'),
+      to_char(COALESCE(NEW.end_date, NEW.date), 'YYYY-MM-DD')
+    );
+  END IF;
+
+  IF NEW.forecast_date IS DISTINCT FROM OLD.forecast_date
+     AND OLD.forecast_date IS NOT NULL
+     AND btrim(COALESCE(NEW.forecast_reason, '')) = '' THEN
+    RAISE EXCEPTION 'A reason is required to move the forecast of milestone "%"', NEW.milestone
+      USING ERRCODE = '23514';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
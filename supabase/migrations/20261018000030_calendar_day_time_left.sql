@@ -0,0 +1,97 @@
+-- Time left on the calendar-day basis again, with holidays taken out of it.
+-- update_project_computed_status_color (and calculateTimeRemainingPercentage
+-- on the client) preferred working days once the holiday calendar landed, so
+-- weekends stopped counting as time left for every project and health colors
+-- moved across the board. Holidays now come out of the calendar-day durations
+-- themselves (total_days and total_days_remaining, calculated by
+-- calculateProjectDuration and the health scheduler), and time left is read
+-- from those again. Colors change for projects the working-day basis had
+-- moved, and for projects with holidays ahead, as durations are next
+-- recalculated (at the latest by the nightly health refresh).
+
+COMMENT ON COLUMN public.projects.total_days IS 'Calendar days from start to end, excluding holiday_calendar dates';
+COMMENT ON COLUMN public.projects.total_days_remaining IS 'Calendar days remaining until project completion, excluding holiday_calendar dates';
+
+-- ── update_project_computed_status_color ─────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.update_project_computed_status_color(project_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  p               RECORD;
+  v_rules         JSONB;
+  v_milestones    INTEGER;
+  v_completion    NUMERIC;
+  v_overdue       INTEGER;
+  v_total         NUMERIC;
+  v_remaining     NUMERIC;
+  v_time_left     NUMERIC;
+  v_overrun       NUMERIC;
+  v_impacts       INTEGER[];
+  v_color         TEXT;
+BEGIN
+  SELECT * INTO p FROM public.projects WHERE id = update_project_computed_status_color.project_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Project not found: %', update_project_computed_status_color.project_id;
+  END IF;
+
+  IF p.health_calculation_type = 'manual' AND p.manual_status_color IS NOT NULL THEN
+    v_color := p.manual_status_color;
+  ELSE
+    v_rules := public.get_health_rules(p.department);
+
+    SELECT count(*),
+           ROUND(
+             SUM(COALESCE(m.completion, 0) * COALESCE(NULLIF(m.weight, 0), 3))
+             / NULLIF(SUM(COALESCE(NULLIF(m.weight, 0), 3) * 100), 0) * 100
+           ),
+           count(*) FILTER (
+             WHERE COALESCE(m.completion, 0) < 100
+               AND COALESCE(m.end_date, m.date) < current_date
+           )
+      INTO v_milestones, v_completion, v_overdue
+    FROM public.milestones m
+    WHERE m.project_id = p.id;
+
+    -- Mirrors calculateTimeRemainingPercentage: calendar days, which already
+    -- leave holidays out
+    IF COALESCE(p.total_days, 0) <> 0 AND p.total_days_remaining IS NOT NULL THEN
+      v_total := p.total_days;
+      v_remaining := p.total_days_remaining;
+    END IF;
+
+    IF v_total IS NOT NULL THEN
+      v_time_left := GREATEST(0, LEAST(100, ROUND(GREATEST(v_remaining, 0) / v_total * 100)));
+    END IF;
+
+    v_color := public.evaluate_health_rules(
+      v_rules,
+      p.status,
+      v_milestones > 0,
+      COALESCE(v_completion, 0),
+      v_time_left,
+      p.calculated_start_date IS NOT NULL AND p.calculated_start_date > current_date
+    );
+
+    -- Status-fixed colors are final; everything else can be pulled down
+    IF NOT (v_rules->'statusColors' ? COALESCE(p.status, 'active')) THEN
+      IF COALESCE(p.budget_total, 0) > 0 AND COALESCE(p.budget_forecast, 0) <> 0 THEN
+        v_overrun := ROUND((p.budget_forecast - p.budget_total) / p.budget_total * 100);
+      END IF;
+
+      SELECT array_agg(r.impact_score) INTO v_impacts
+      FROM public.risks r
+      WHERE r.project_id = p.id
+        AND r.impact_score IS NOT NULL
+        AND COALESCE(r.status, 'open') IN ('open', 'mitigating');
+
+      v_color := public.apply_health_dimensions(v_rules, v_color, v_overrun, v_impacts, v_overdue);
+    END IF;
+  END IF;
+
+  UPDATE public.projects
+  SET computed_status_color = v_color
+  WHERE id = p.id;
+END;
+$$;